@@ -0,0 +1,33 @@
+-- Migration: Add user roles and court memberships
+-- Purpose: Role-based access control for venue owners, staff and platform admins
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "role" VARCHAR(20) NOT NULL DEFAULT 'player';
+
+ALTER TABLE "users" ADD CONSTRAINT "users_valid_role"
+  CHECK (role IN ('player', 'venue_staff', 'venue_owner', 'platform_admin'));
+
+-- CreateTable
+CREATE TABLE "court_members" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "court_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "role" VARCHAR(20) NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "court_members_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "court_members_valid_role" CHECK (role IN ('owner', 'staff'))
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_court_members_court_user" ON "court_members"("court_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_court_members_user_id" ON "court_members"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "court_members" ADD CONSTRAINT "court_members_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "court_members" ADD CONSTRAINT "court_members_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
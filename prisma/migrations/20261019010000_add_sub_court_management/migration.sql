@@ -0,0 +1,22 @@
+-- Migration: Sub-court management fields
+-- Purpose: Display order, surface type and free-form attributes for sub-courts
+
+-- AlterTable
+ALTER TABLE "sub_courts" ADD COLUMN     "display_order" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "surface_type" VARCHAR(20) NOT NULL DEFAULT 'synthetic_mat',
+ADD COLUMN     "attributes" JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE "sub_courts" ADD CONSTRAINT "sub_courts_valid_surface_type"
+  CHECK (surface_type IN ('wood', 'synthetic_mat', 'concrete'));
+
+-- Backfill display order from the current name ordering within each court
+UPDATE "sub_courts" sc
+SET "display_order" = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY court_id ORDER BY name) AS position
+  FROM "sub_courts"
+) ordered
+WHERE sc.id = ordered.id;
+
+-- CreateIndex
+CREATE INDEX "idx_sub_courts_display_order" ON "sub_courts"("court_id", "display_order");
@@ -0,0 +1,8 @@
+-- Migration: Closure series
+-- Purpose: Group closures created together (date range or recurring) so they can be listed and removed as one
+
+-- AlterTable
+ALTER TABLE "sub_court_closures" ADD COLUMN     "series_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "idx_sub_court_closures_series_id" ON "sub_court_closures"("series_id");
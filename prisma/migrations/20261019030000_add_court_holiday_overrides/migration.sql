@@ -0,0 +1,23 @@
+-- Migration: Per-court holiday overrides
+-- Purpose: Let a court opt out of a global holiday, add its own, or use its own multiplier
+
+-- CreateTable
+CREATE TABLE "court_holiday_overrides" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "court_id" UUID NOT NULL,
+    "date" DATE NOT NULL,
+    "name" VARCHAR(255),
+    "is_holiday" BOOLEAN NOT NULL DEFAULT true,
+    "multiplier" DOUBLE PRECISION,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "court_holiday_overrides_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "court_holiday_overrides_positive_multiplier" CHECK (multiplier IS NULL OR multiplier > 0)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_court_holiday_overrides_court_date" ON "court_holiday_overrides"("court_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "court_holiday_overrides" ADD CONSTRAINT "court_holiday_overrides_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
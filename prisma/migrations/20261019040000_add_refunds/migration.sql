@@ -0,0 +1,43 @@
+-- Migration: Refunds and cancellation policies
+-- Purpose: Refund paid bookings through ZaloPay when they are cancelled, using a per-court policy
+
+-- AlterTable
+ALTER TABLE "courts" ADD COLUMN "cancellation_policy" JSONB;
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "payment_id" UUID NOT NULL,
+    "booking_id" UUID NOT NULL,
+    "m_refund_id" VARCHAR(45) NOT NULL,
+    "zp_refund_id" VARCHAR(20),
+    "amount" INTEGER NOT NULL,
+    "refund_percent" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "reason" VARCHAR(255),
+    "return_message" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "refunds_positive_amount" CHECK (amount > 0),
+    CONSTRAINT "refunds_percent_range" CHECK (refund_percent > 0 AND refund_percent <= 100)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_m_refund_id_key" ON "refunds"("m_refund_id");
+
+-- CreateIndex
+CREATE INDEX "idx_refunds_payment_id" ON "refunds"("payment_id");
+
+-- CreateIndex
+CREATE INDEX "idx_refunds_booking_id" ON "refunds"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "idx_refunds_status" ON "refunds"("status");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_payment_id_fkey" FOREIGN KEY ("payment_id") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
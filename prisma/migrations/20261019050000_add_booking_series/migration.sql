@@ -0,0 +1,37 @@
+-- Migration: Recurring booking series
+-- Purpose: Weekly fixed slots that expand into grouped bookings (bookings.group_id = booking_series.id)
+
+-- CreateTable
+CREATE TABLE "booking_series" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "sub_court_id" UUID NOT NULL,
+    "user_id" UUID,
+    "guest_name" VARCHAR(255) NOT NULL,
+    "guest_phone" VARCHAR(20) NOT NULL,
+    "guest_email" VARCHAR(255),
+    "days_of_week" VARCHAR(3)[],
+    "start_time" TIME NOT NULL,
+    "end_time" TIME NOT NULL,
+    "start_date" DATE NOT NULL,
+    "until_date" DATE,
+    "count" INTEGER,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'active',
+    "notes" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_series_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "booking_series_time_range" CHECK (start_time < end_time)
+);
+
+-- CreateIndex
+CREATE INDEX "idx_booking_series_sub_court_id" ON "booking_series"("sub_court_id");
+
+-- CreateIndex
+CREATE INDEX "idx_booking_series_user_id" ON "booking_series"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_sub_court_id_fkey" FOREIGN KEY ("sub_court_id") REFERENCES "sub_courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,48 @@
+-- Migration: Waitlist for fully booked time slots
+-- Purpose: Queue players for a slot and offer it to them in order when a booking for it is released
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "court_id" UUID NOT NULL,
+    "sub_court_id" UUID,
+    "user_id" UUID NOT NULL,
+    "guest_name" VARCHAR(255) NOT NULL,
+    "guest_phone" VARCHAR(20) NOT NULL,
+    "date" DATE NOT NULL,
+    "start_time" TIME NOT NULL,
+    "end_time" TIME NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'waiting',
+    "offered_sub_court_id" UUID,
+    "offer_expires_at" TIMESTAMPTZ,
+    "booking_id" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "waitlist_entries_time_range" CHECK (start_time < end_time)
+);
+
+-- CreateIndex
+CREATE INDEX "idx_waitlist_entries_lookup" ON "waitlist_entries"("court_id", "date", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_waitlist_entries_user_id" ON "waitlist_entries"("user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_waitlist_entries_offer_expiry" ON "waitlist_entries"("status", "offer_expires_at");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_sub_court_id_fkey" FOREIGN KEY ("sub_court_id") REFERENCES "sub_courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_offered_sub_court_id_fkey" FOREIGN KEY ("offered_sub_court_id") REFERENCES "sub_courts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,62 @@
+-- Migration: Court reviews and ratings
+-- Purpose: Let players of completed bookings rate courts, and keep each court's aggregate rating for display, search and autocomplete
+
+-- AlterTable
+ALTER TABLE "courts" ADD COLUMN "rating_average" DOUBLE PRECISION,
+ADD COLUMN "review_count" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "idx_courts_rating_average" ON "courts"("rating_average");
+
+-- CreateTable
+CREATE TABLE "reviews" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "booking_id" UUID NOT NULL,
+    "court_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "floor_rating" SMALLINT NOT NULL,
+    "lighting_rating" SMALLINT NOT NULL,
+    "cleanliness_rating" SMALLINT NOT NULL,
+    "value_rating" SMALLINT NOT NULL,
+    "rating" DOUBLE PRECISION NOT NULL,
+    "comment" TEXT,
+    "reply" TEXT,
+    "reply_user_id" UUID,
+    "reply_updated_at" TIMESTAMPTZ,
+    "is_flagged" BOOLEAN NOT NULL DEFAULT false,
+    "flag_reason" VARCHAR(255),
+    "flagged_at" TIMESTAMPTZ,
+    "is_hidden" BOOLEAN NOT NULL DEFAULT false,
+    "moderated_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "reviews_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "reviews_ratings_range" CHECK (
+        floor_rating BETWEEN 1 AND 5
+        AND lighting_rating BETWEEN 1 AND 5
+        AND cleanliness_rating BETWEEN 1 AND 5
+        AND value_rating BETWEEN 1 AND 5
+    )
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "reviews_booking_id_key" ON "reviews"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "idx_reviews_court_id" ON "reviews"("court_id", "is_hidden", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_reviews_user_id" ON "reviews"("user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_reviews_flagged" ON "reviews"("is_flagged");
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "reviews" ADD CONSTRAINT "reviews_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- Migration: Open games
+-- Purpose: Let a host open a booking to other players, who request to join and are accepted or declined
+
+-- CreateTable
+CREATE TABLE "open_games" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "booking_id" UUID NOT NULL,
+    "host_user_id" UUID NOT NULL,
+    "skill_min" SMALLINT NOT NULL,
+    "skill_max" SMALLINT NOT NULL,
+    "spots" SMALLINT NOT NULL,
+    "cost_per_player" INTEGER NOT NULL,
+    "notes" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'open',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "open_games_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "open_games_skill_range" CHECK (skill_min BETWEEN 1 AND 5 AND skill_max BETWEEN skill_min AND 5),
+    CONSTRAINT "open_games_spots" CHECK (spots > 0),
+    CONSTRAINT "open_games_cost_per_player" CHECK (cost_per_player >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "open_game_players" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "open_game_id" UUID NOT NULL,
+    "user_id" UUID NOT NULL,
+    "skill_level" SMALLINT,
+    "message" VARCHAR(500),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'requested',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "open_game_players_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "open_games_booking_id_key" ON "open_games"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "idx_open_games_status" ON "open_games"("status");
+
+-- CreateIndex
+CREATE INDEX "idx_open_games_host_user_id" ON "open_games"("host_user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "uq_open_game_players_game_user" ON "open_game_players"("open_game_id", "user_id");
+
+-- CreateIndex
+CREATE INDEX "idx_open_game_players_user_id" ON "open_game_players"("user_id", "status");
+
+-- AddForeignKey
+ALTER TABLE "open_games" ADD CONSTRAINT "open_games_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_games" ADD CONSTRAINT "open_games_host_user_id_fkey" FOREIGN KEY ("host_user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_game_players" ADD CONSTRAINT "open_game_players_open_game_id_fkey" FOREIGN KEY ("open_game_id") REFERENCES "open_games"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "open_game_players" ADD CONSTRAINT "open_game_players_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- Migration: Split payments
+-- Purpose: Let a booking be paid in shares by several players, each share being its own payment
+
+-- CreateTable
+CREATE TABLE "split_payments" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "booking_id" UUID NOT NULL,
+    "share_count" SMALLINT NOT NULL,
+    "total_amount" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'open',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "split_payments_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "split_payments_share_count" CHECK (share_count BETWEEN 2 AND 10),
+    CONSTRAINT "split_payments_total_amount" CHECK (total_amount > 0)
+);
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "split_payment_id" UUID,
+ADD COLUMN "share_number" SMALLINT;
+
+-- CreateIndex
+CREATE INDEX "idx_split_payments_booking_id" ON "split_payments"("booking_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_payments_split_payment_id" ON "payments"("split_payment_id");
+
+-- AddForeignKey
+ALTER TABLE "split_payments" ADD CONSTRAINT "split_payments_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_split_payment_id_fkey" FOREIGN KEY ("split_payment_id") REFERENCES "split_payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
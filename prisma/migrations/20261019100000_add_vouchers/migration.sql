@@ -0,0 +1,50 @@
+-- Migration: Vouchers
+-- Purpose: Discount codes applied when booking; bookings keep their original price and discount
+
+-- CreateTable
+CREATE TABLE "vouchers" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "code" VARCHAR(50) NOT NULL,
+    "description" TEXT,
+    "discount_type" VARCHAR(20) NOT NULL,
+    "discount_value" INTEGER NOT NULL,
+    "max_discount" INTEGER,
+    "min_order_amount" INTEGER,
+    "valid_from" TIMESTAMPTZ,
+    "valid_until" TIMESTAMPTZ,
+    "usage_limit" INTEGER,
+    "per_user_limit" INTEGER,
+    "court_ids" UUID[] NOT NULL DEFAULT ARRAY[]::UUID[],
+    "day_types" VARCHAR(20)[] NOT NULL DEFAULT ARRAY[]::VARCHAR(20)[],
+    "start_time" TIME,
+    "end_time" TIME,
+    "first_booking_only" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "vouchers_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "vouchers_discount_type" CHECK (discount_type IN ('percent', 'fixed')),
+    CONSTRAINT "vouchers_discount_value" CHECK (
+        discount_value > 0 AND (discount_type <> 'percent' OR discount_value <= 100)
+    ),
+    CONSTRAINT "vouchers_validity" CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from < valid_until),
+    CONSTRAINT "vouchers_time_window" CHECK ((start_time IS NULL) = (end_time IS NULL) AND (start_time IS NULL OR start_time < end_time))
+);
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "original_price" INTEGER,
+ADD COLUMN "discount_amount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "voucher_id" UUID;
+
+-- Backfill: bookings made before vouchers were never discounted
+UPDATE "bookings" SET "original_price" = "total_price";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vouchers_code_key" ON "vouchers"("code");
+
+-- CreateIndex
+CREATE INDEX "idx_bookings_voucher_id" ON "bookings"("voucher_id");
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_voucher_id_fkey" FOREIGN KEY ("voucher_id") REFERENCES "vouchers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
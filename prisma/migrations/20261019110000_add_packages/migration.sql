@@ -0,0 +1,105 @@
+-- Migration: Prepaid packages
+-- Purpose: Court time sold in advance per venue, debited by bookings and credited back on cancellation
+
+-- CreateTable
+CREATE TABLE "package_plans" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "court_id" UUID NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "validity_days" SMALLINT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "package_plans_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "package_plans_minutes" CHECK (minutes > 0),
+    CONSTRAINT "package_plans_validity_days" CHECK (validity_days > 0),
+    CONSTRAINT "package_plans_price" CHECK (price > 0)
+);
+
+-- CreateTable
+CREATE TABLE "user_packages" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "user_id" UUID NOT NULL,
+    "court_id" UUID NOT NULL,
+    "plan_id" UUID,
+    "name" VARCHAR(100) NOT NULL,
+    "total_minutes" INTEGER NOT NULL,
+    "remaining_minutes" INTEGER NOT NULL,
+    "validity_days" SMALLINT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "source" VARCHAR(20) NOT NULL,
+    "app_trans_id" VARCHAR(50),
+    "zp_trans_id" VARCHAR(50),
+    "zp_trans_token" VARCHAR(100),
+    "order_url" TEXT,
+    "activated_at" TIMESTAMPTZ,
+    "expires_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_packages_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "user_packages_remaining_minutes" CHECK (remaining_minutes >= 0 AND remaining_minutes <= total_minutes),
+    CONSTRAINT "user_packages_status" CHECK (status IN ('pending', 'active', 'expired', 'cancelled')),
+    CONSTRAINT "user_packages_source" CHECK (source IN ('online', 'offline'))
+);
+
+-- CreateTable
+CREATE TABLE "package_transactions" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "user_package_id" UUID NOT NULL,
+    "booking_id" UUID,
+    "type" VARCHAR(20) NOT NULL,
+    "minutes" INTEGER NOT NULL,
+    "balance_after" INTEGER NOT NULL,
+    "note" TEXT,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "package_transactions_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "package_transactions_type" CHECK (type IN ('purchase', 'debit', 'credit', 'expire'))
+);
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "user_package_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "idx_package_plans_court" ON "package_plans"("court_id", "is_active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_packages_app_trans_id_key" ON "user_packages"("app_trans_id");
+
+-- CreateIndex
+CREATE INDEX "idx_user_packages_user_court" ON "user_packages"("user_id", "court_id", "status");
+
+-- CreateIndex
+CREATE INDEX "idx_user_packages_status_expires_at" ON "user_packages"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "idx_package_transactions_user_package_id" ON "package_transactions"("user_package_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_bookings_user_package_id" ON "bookings"("user_package_id");
+
+-- AddForeignKey
+ALTER TABLE "package_plans" ADD CONSTRAINT "package_plans_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_packages" ADD CONSTRAINT "user_packages_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_packages" ADD CONSTRAINT "user_packages_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_packages" ADD CONSTRAINT "user_packages_plan_id_fkey" FOREIGN KEY ("plan_id") REFERENCES "package_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_transactions" ADD CONSTRAINT "package_transactions_user_package_id_fkey" FOREIGN KEY ("user_package_id") REFERENCES "user_packages"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "package_transactions" ADD CONSTRAINT "package_transactions_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bookings" ADD CONSTRAINT "bookings_user_package_id_fkey" FOREIGN KEY ("user_package_id") REFERENCES "user_packages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Migration: Dynamic pricing
+-- Purpose: Optional per-court price adjustments for occupancy surges, last-minute and early-bird bookings
+
+-- AlterTable
+ALTER TABLE "courts" ADD COLUMN "dynamic_pricing" JSONB;
@@ -0,0 +1,5 @@
+-- Migration: Booking policies
+-- Purpose: Per-court booking rules (durations, slot size, booking window, per-user limit, cancellation deadline)
+
+-- AlterTable
+ALTER TABLE "courts" ADD COLUMN "booking_policy" JSONB;
@@ -0,0 +1,44 @@
+-- Migration: Booking changes
+-- Purpose: Let a booking move to another time or sub-court, paying or refunding the price difference
+
+-- CreateTable
+CREATE TABLE "booking_changes" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "booking_id" UUID NOT NULL,
+    "from_sub_court_id" UUID NOT NULL,
+    "from_date" DATE NOT NULL,
+    "from_start_time" TIME NOT NULL,
+    "from_end_time" TIME NOT NULL,
+    "to_sub_court_id" UUID NOT NULL,
+    "to_date" DATE NOT NULL,
+    "to_start_time" TIME NOT NULL,
+    "to_end_time" TIME NOT NULL,
+    "old_price" INTEGER NOT NULL,
+    "new_original_price" INTEGER NOT NULL,
+    "new_price" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "changed_by" UUID,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "booking_changes_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "booking_changes_status" CHECK (status IN ('pending', 'completed', 'failed', 'expired'))
+);
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "booking_change_id" UUID;
+
+-- CreateIndex
+CREATE INDEX "idx_booking_changes_booking_id" ON "booking_changes"("booking_id");
+
+-- CreateIndex
+CREATE INDEX "idx_booking_changes_status" ON "booking_changes"("status", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_payments_booking_change_id" ON "payments"("booking_change_id");
+
+-- AddForeignKey
+ALTER TABLE "booking_changes" ADD CONSTRAINT "booking_changes_booking_id_fkey" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_booking_change_id_fkey" FOREIGN KEY ("booking_change_id") REFERENCES "booking_changes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- Migration: Webhooks
+-- Purpose: Tell venue management systems about a court's booking, payment and refund events
+
+-- CreateTable
+CREATE TABLE "webhook_subscriptions" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "court_id" UUID NOT NULL,
+    "url" VARCHAR(2048) NOT NULL,
+    "secret" VARCHAR(255) NOT NULL,
+    "events" VARCHAR(50)[],
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_subscriptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "webhook_deliveries" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "subscription_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "event" VARCHAR(50) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "next_attempt_at" TIMESTAMPTZ,
+    "response_status" INTEGER,
+    "response_body" TEXT,
+    "error" TEXT,
+    "delivered_at" TIMESTAMPTZ,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webhook_deliveries_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "webhook_deliveries_status" CHECK (status IN ('pending', 'success', 'failed'))
+);
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_subscriptions_court_id" ON "webhook_subscriptions"("court_id");
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_deliveries_subscription_id" ON "webhook_deliveries"("subscription_id", "created_at");
+
+-- CreateIndex
+CREATE INDEX "idx_webhook_deliveries_next_attempt" ON "webhook_deliveries"("status", "next_attempt_at");
+
+-- AddForeignKey
+ALTER TABLE "webhook_subscriptions" ADD CONSTRAINT "webhook_subscriptions_court_id_fkey" FOREIGN KEY ("court_id") REFERENCES "courts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webhook_deliveries" ADD CONSTRAINT "webhook_deliveries_subscription_id_fkey" FOREIGN KEY ("subscription_id") REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
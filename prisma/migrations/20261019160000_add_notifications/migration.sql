@@ -0,0 +1,26 @@
+-- Migration: Notification outbox
+-- Purpose: Keep payment notifications so clients that were offline can replay the ones they missed
+
+-- CreateTable
+CREATE TABLE "notifications" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "seq" SERIAL NOT NULL,
+    "user_id" UUID NOT NULL,
+    "type" VARCHAR(50) NOT NULL,
+    "payload" JSONB NOT NULL,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notifications_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "notifications_seq_key" ON "notifications"("seq");
+
+-- CreateIndex
+CREATE INDEX "idx_notifications_user_seq" ON "notifications"("user_id", "seq");
+
+-- CreateIndex
+CREATE INDEX "idx_notifications_created_at" ON "notifications"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "notifications" ADD CONSTRAINT "notifications_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
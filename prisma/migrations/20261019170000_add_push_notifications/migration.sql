@@ -0,0 +1,46 @@
+-- Migration: Push notifications
+-- Purpose: Register devices for Firebase Cloud Messaging, let users turn notifications off, and remind players of upcoming games once
+
+-- AlterTable
+ALTER TABLE "bookings" ADD COLUMN "reminder_sent_at" TIMESTAMPTZ;
+
+-- CreateTable
+CREATE TABLE "user_devices" (
+    "id" UUID NOT NULL DEFAULT uuid_generate_v4(),
+    "user_id" UUID NOT NULL,
+    "token" VARCHAR(512) NOT NULL,
+    "platform" VARCHAR(20) NOT NULL,
+    "locale" VARCHAR(5) NOT NULL DEFAULT 'vi',
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "user_devices_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "user_devices_platform" CHECK (platform IN ('android', 'ios', 'web')),
+    CONSTRAINT "user_devices_locale" CHECK (locale IN ('vi', 'en'))
+);
+
+-- CreateTable
+CREATE TABLE "notification_preferences" (
+    "user_id" UUID NOT NULL,
+    "booking_confirmed" BOOLEAN NOT NULL DEFAULT true,
+    "payment_failed" BOOLEAN NOT NULL DEFAULT true,
+    "game_reminder" BOOLEAN NOT NULL DEFAULT true,
+    "venue_cancellation" BOOLEAN NOT NULL DEFAULT true,
+    "waitlist_offer" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "notification_preferences_pkey" PRIMARY KEY ("user_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "user_devices_token_key" ON "user_devices"("token");
+
+-- CreateIndex
+CREATE INDEX "idx_user_devices_user_id" ON "user_devices"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "user_devices" ADD CONSTRAINT "user_devices_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "notification_preferences" ADD CONSTRAINT "notification_preferences_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- Migration: Drop webhook response bodies
+-- Purpose: Response bodies of webhook endpoints could expose internal services to venues; only the status is kept
+
+-- AlterTable
+ALTER TABLE "webhook_deliveries" DROP COLUMN "response_body";
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { getVietnameseHolidays } from '../src/utils/vietnamese-holidays.js';
 
 const prisma = new PrismaClient();
 
@@ -46,22 +47,12 @@ const STANDARD_PRICING: PricingRuleSeed[] = [
   { name: 'Holiday Evening', dayType: 'holiday', startTime: '17:00', endTime: '23:00', pricePerHour: 180000 },
 ];
 
-// Vietnamese holidays for 2025-2026 with price multipliers
-const HOLIDAYS = [
-  { date: '2025-01-01', name: 'Tết Dương lịch', multiplier: 1.5 },
-  { date: '2025-01-28', name: 'Tết Nguyên đán (28 Tháng Chạp)', multiplier: 2.0 },
-  { date: '2025-01-29', name: 'Tết Nguyên đán', multiplier: 2.0 },
-  { date: '2025-01-30', name: 'Tết Nguyên đán', multiplier: 2.0 },
-  { date: '2025-01-31', name: 'Tết Nguyên đán', multiplier: 2.0 },
-  { date: '2025-02-01', name: 'Tết Nguyên đán', multiplier: 2.0 },
-  { date: '2025-02-02', name: 'Tết Nguyên đán', multiplier: 2.0 },
-  { date: '2025-02-03', name: 'Tết Nguyên đán', multiplier: 2.0 },
-  { date: '2025-04-07', name: 'Giỗ Tổ Hùng Vương', multiplier: 1.5 },
-  { date: '2025-04-30', name: 'Ngày Giải phóng miền Nam', multiplier: 1.5 },
-  { date: '2025-05-01', name: 'Ngày Quốc tế Lao động', multiplier: 1.5 },
-  { date: '2025-09-02', name: 'Quốc khánh', multiplier: 1.5 },
-  { date: '2026-01-01', name: 'Tết Dương lịch', multiplier: 1.5 },
-];
+// Vietnamese public holidays (including lunar ones) from 2025 through next year
+const FIRST_HOLIDAY_YEAR = 2025;
+const HOLIDAYS = Array.from(
+  { length: new Date().getFullYear() + 2 - FIRST_HOLIDAY_YEAR },
+  (_, i) => getVietnameseHolidays(FIRST_HOLIDAY_YEAR + i)
+).flat();
 
 async function main(): Promise<void> {
   console.log('🌱 Seeding database...');
@@ -280,8 +271,8 @@ async function main(): Promise<void> {
     const subCourtIds: string[] = [];
     for (let i = 1; i <= court.subCourtCount; i++) {
       const subCourtResult = await prisma.$queryRaw<{ id: string }[]>`
-        INSERT INTO sub_courts (court_id, name, description, is_active)
-        VALUES (${courtId}::uuid, ${'Sân ' + i}, ${'Sân cầu lông số ' + i}, true)
+        INSERT INTO sub_courts (court_id, name, description, is_active, display_order)
+        VALUES (${courtId}::uuid, ${'Sân ' + i}, ${'Sân cầu lông số ' + i}, true, ${i})
         RETURNING id
       `;
       subCourtIds.push(subCourtResult[0].id);
@@ -2,11 +2,14 @@ import { initializeApp, cert, getApps } from 'firebase-admin/app';
 import type { App } from 'firebase-admin/app';
 import { getAuth } from 'firebase-admin/auth';
 import type { Auth } from 'firebase-admin/auth';
+import { getMessaging } from 'firebase-admin/messaging';
+import type { Messaging } from 'firebase-admin/messaging';
 import fs from 'fs';
 import path from 'path';
 
 let firebaseApp: App | null = null;
 let firebaseAuth: Auth | null = null;
+let firebaseMessaging: Messaging | null = null;
 
 /**
  * Firebase Admin SDK Configuration
@@ -76,6 +79,20 @@ export function getFirebaseAuth(): Auth {
   return firebaseAuth;
 }
 
+/**
+ * Get Firebase Cloud Messaging instance
+ * Initializes Firebase if not already done
+ */
+export function getFirebaseMessaging(): Messaging {
+  if (firebaseMessaging) {
+    return firebaseMessaging;
+  }
+
+  const app = initializeFirebase();
+  firebaseMessaging = getMessaging(app);
+  return firebaseMessaging;
+}
+
 /**
  * Check if Firebase is properly configured
  */
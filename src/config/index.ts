@@ -25,11 +25,23 @@ export const config = {
   payment: {
     slotLockTtlSeconds: Number(process.env.SLOT_LOCK_TTL_SECONDS) || 600, // 10 minutes
   },
+  bookingToken: {
+    secret: process.env.BOOKING_TOKEN_SECRET || '', // Signs guest booking access tokens
+    ttlDays: Number(process.env.BOOKING_TOKEN_TTL_DAYS) || 90,
+  },
   firebase: {
     projectId: process.env.FIREBASE_PROJECT_ID || '',
     clientEmail: process.env.FIREBASE_CLIENT_EMAIL || '',
     privateKey: process.env.FIREBASE_PRIVATE_KEY || '',
   },
+  push: {
+    reminderMinutesBefore: Number(process.env.PUSH_REMINDER_MINUTES) || 60, // Upcoming game reminder lead time
+  },
 } as const;
 
-export { initializeFirebase, getFirebaseAuth, isFirebaseConfigured } from './firebase.js';
+// Guest booking access tokens must keep working across restarts and instances
+if (config.nodeEnv === 'production' && !config.bookingToken.secret) {
+  throw new Error('Booking token configuration missing. Please set the BOOKING_TOKEN_SECRET environment variable.');
+}
+
+export { initializeFirebase, getFirebaseAuth, getFirebaseMessaging, isFirebaseConfigured } from './firebase.js';
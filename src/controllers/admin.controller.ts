@@ -0,0 +1,29 @@
+import type { Request, Response, NextFunction } from 'express';
+import { userService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import type { UpdateUserRoleDto } from '../types/index.js';
+import { USER_ROLES, mapUserToDto } from '../types/index.js';
+
+export class AdminController {
+  /**
+   * PUT /admin/users/:id/role
+   * Change a user's platform role (mirrored into Firebase custom claims)
+   */
+  async updateUserRole(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { role }: UpdateUserRoleDto = req.body;
+
+      if (!USER_ROLES.includes(role)) {
+        throw new BadRequestError(`role must be one of: ${USER_ROLES.join(', ')}`);
+      }
+
+      const user = await userService.updateRole(req.params.id!, role);
+      sendSuccess(res, { user: mapUserToDto(user) });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const adminController = new AdminController();
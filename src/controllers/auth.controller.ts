@@ -1,7 +1,8 @@
 import type { Response, NextFunction } from 'express';
-import { userService } from '../services/index.js';
+import { userService, pushService } from '../services/index.js';
 import { sendSuccess } from '../utils/response.js';
 import { AppError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
 import type { AuthRequest } from '../middlewares/auth.middleware.js';
 import type {
   VerifyTokenDto,
@@ -12,6 +13,7 @@ import type {
   LookupUsernameDto,
   mapUserToDto,
 } from '../types/auth.types.js';
+import type { RegisterDeviceDto, UpdateNotificationPreferencesDto } from '../types/index.js';
 import { mapUserToDto as mapUser } from '../types/auth.types.js';
 
 export class AuthController {
@@ -150,6 +152,107 @@ export class AuthController {
     }
   }
 
+  /**
+   * GET /auth/me/devices
+   * Get the devices registered for push notifications
+   * Requires: authenticated user
+   */
+  async getDevices(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHENTICATED');
+      }
+
+      const devices = await pushService.getDevices(req.user.id);
+
+      sendSuccess(res, devices);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /auth/me/devices
+   * Register a device's FCM token for push notifications
+   * Requires: authenticated user
+   */
+  async registerDevice(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHENTICATED');
+      }
+
+      const data: RegisterDeviceDto = req.body ?? {};
+      const device = await pushService.registerDevice(req.user.id, data);
+
+      sendSuccess(res, device, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /auth/me/devices/:deviceId
+   * Stop push notifications to a device
+   * Requires: authenticated user
+   */
+  async removeDevice(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHENTICATED');
+      }
+
+      if (!isUUID(req.params.deviceId)) {
+        throw new AppError('Invalid device ID', 400, 'INVALID_DEVICE_ID');
+      }
+
+      await pushService.removeDevice(req.user.id, req.params.deviceId!);
+
+      sendSuccess(res, { message: 'Device removed successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /auth/me/notification-preferences
+   * Get which push notifications the user gets
+   * Requires: authenticated user
+   */
+  async getNotificationPreferences(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHENTICATED');
+      }
+
+      const preferences = await pushService.getPreferences(req.user.id);
+
+      sendSuccess(res, preferences);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /auth/me/notification-preferences
+   * Turn push notifications on or off
+   * Requires: authenticated user
+   */
+  async updateNotificationPreferences(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHENTICATED');
+      }
+
+      const data: UpdateNotificationPreferencesDto = req.body ?? {};
+      const preferences = await pushService.updatePreferences(req.user.id, data);
+
+      sendSuccess(res, preferences);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /auth/username/check
    * Check if username is available
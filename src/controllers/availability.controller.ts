@@ -1,7 +1,9 @@
 import type { Request, Response, NextFunction } from 'express';
 import { availabilityService } from '../services/index.js';
 import { sendSuccess } from '../utils/response.js';
-import type { CreateBookingDto } from '../types/index.js';
+import { ForbiddenError, BadRequestError } from '../utils/errors.js';
+import { normalizePhone } from '../utils/booking-access.js';
+import type { ChangeBookingDto, CreateBookingDto, SlotSearchParams } from '../types/index.js';
 import type { AuthRequest } from '../middlewares/auth.middleware.js';
 
 export class AvailabilityController {
@@ -25,6 +27,66 @@ export class AvailabilityController {
     }
   }
 
+  /**
+   * GET /courts/:courtId/availability/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+   * Get availability for a court over a range of dates
+   */
+  async getCourtAvailabilityCalendar(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { courtId } = req.params;
+      const { from, to } = req.query;
+
+      const calendar = await availabilityService.getCourtAvailabilityRange(
+        courtId!,
+        from as string,
+        to as string
+      );
+
+      sendSuccess(res, calendar);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /availability/search?latitude=x&longitude=y&radius=5&date=YYYY-MM-DD&startTime=HH:mm&endTime=HH:mm&maxPricePerHour=150000&sort=distance
+   * Find venues near a location with a sub-court free for the whole window
+   */
+  async searchSlots(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { latitude, longitude, radius, date, startTime, endTime, maxPricePerHour, sort } = req.query;
+      const params: SlotSearchParams = {
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        radius: radius ? Number(radius) : undefined,
+        date: date as string,
+        startTime: startTime as string,
+        endTime: endTime as string,
+        maxPricePerHour: maxPricePerHour ? Number(maxPricePerHour) : undefined,
+        sort: sort as SlotSearchParams['sort'],
+      };
+
+      if (
+        latitude === undefined ||
+        longitude === undefined ||
+        isNaN(params.latitude) ||
+        isNaN(params.longitude) ||
+        Math.abs(params.latitude) > 90 ||
+        Math.abs(params.longitude) > 180
+      ) {
+        throw new BadRequestError('Valid latitude and longitude are required');
+      }
+      if (params.radius !== undefined && isNaN(params.radius)) {
+        throw new BadRequestError('radius must be a number');
+      }
+
+      const results = await availabilityService.searchAvailableSlots(params);
+      sendSuccess(res, results);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * POST /bookings
    * Create a new booking
@@ -65,25 +127,58 @@ export class AvailabilityController {
   /**
    * DELETE /bookings/:id
    * Cancel a booking
+   * Court staff and platform admins are not bound by the court's cancellation deadline,
+   * and the booker is told the venue cancelled it
    */
-  async cancelBooking(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async cancelBooking(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const { id } = req.params;
-      const booking = await availabilityService.cancelBooking(id!);
+      const enforceDeadline = !req.courtRole && req.user?.role !== 'platform_admin';
+      const booking = await availabilityService.cancelBooking(id!, {
+        enforceDeadline,
+        ...(!enforceDeadline && { cancelledByVenue: req.user!.id }),
+      });
       sendSuccess(res, booking);
     } catch (error) {
       next(error);
     }
   }
 
+  /**
+   * PATCH /bookings/:id
+   * Move a booking to another time or sub-court of its court
+   * Court staff and platform admins are not bound by the court's change deadline
+   */
+  async changeBooking(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { id } = req.params;
+      const data: ChangeBookingDto = req.body ?? {};
+      const enforceDeadline = !req.courtRole && req.user?.role !== 'platform_admin';
+      const result = await availabilityService.changeBooking(id!, data, {
+        enforceDeadline,
+        ...(req.user && { changedBy: req.user.id }),
+      });
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * GET /bookings?phone=xxx
-   * Get bookings by phone number
+   * Get bookings made with the caller's OTP-verified phone number
    */
-  async getBookingsByPhone(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async getBookingsByPhone(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
+      const verifiedPhone = req.verifiedPhone!;
       const { phone } = req.query;
-      const bookings = await availabilityService.getBookingsByPhone(phone as string);
+
+      // The phone parameter is optional and must match the verified phone
+      if (phone !== undefined && (typeof phone !== 'string' || normalizePhone(phone) !== verifiedPhone)) {
+        throw new ForbiddenError('You can only look up bookings for your verified phone number');
+      }
+
+      const bookings = await availabilityService.getBookingsByPhone(verifiedPhone);
       sendSuccess(res, bookings);
     } catch (error) {
       next(error);
@@ -0,0 +1,55 @@
+import type { Request, Response, NextFunction } from 'express';
+import { bookingPolicyService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { UpdateBookingPolicyDto } from '../types/index.js';
+
+export class BookingPolicyController {
+  /**
+   * GET /courts/:courtId/booking-policy
+   * Get a court's booking policy
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.courtId)) {
+        throw new BadRequestError('Invalid court ID');
+      }
+
+      const policy = await bookingPolicyService.getPolicy(req.params.courtId!);
+      sendSuccess(res, policy);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/booking-policy
+   * Replace a court's booking policy
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdateBookingPolicyDto = req.body ?? {};
+
+      const policy = await bookingPolicyService.updatePolicy(req.params.courtId!, data);
+      sendSuccess(res, policy);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/booking-policy
+   * Reset a court to the platform default policy
+   */
+  async reset(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const policy = await bookingPolicyService.resetPolicy(req.params.courtId!);
+      sendSuccess(res, policy);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const bookingPolicyController = new BookingPolicyController();
@@ -0,0 +1,138 @@
+import type { Response, NextFunction } from 'express';
+import { bookingSeriesService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError, UnauthorizedError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type {
+  CreateBookingSeriesDto,
+  MoveOccurrenceDto,
+  OccurrenceCancelScope,
+  UserProfileDto,
+} from '../types/index.js';
+
+const CANCEL_SCOPES: readonly OccurrenceCancelScope[] = ['this', 'future'];
+
+export class BookingSeriesController {
+  /**
+   * POST /booking-series
+   * Create a recurring booking series (or preview it with dryRun)
+   */
+  async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateBookingSeriesDto = {
+        ...req.body,
+        userId: this.getUser(req).id,
+      };
+
+      if (!isUUID(data.subCourtId)) {
+        throw new BadRequestError('Invalid sub-court ID');
+      }
+
+      const result = await bookingSeriesService.createSeries(data);
+      sendSuccess(res, result, result.dryRun ? 200 : 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /booking-series/:id
+   * Get a series with its occurrences
+   */
+  async getById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.getUser(req);
+      const series = await bookingSeriesService.getSeries(this.getSeriesId(req), user);
+      sendSuccess(res, series);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /booking-series/:id
+   * Cancel every upcoming occurrence of a series
+   */
+  async cancel(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.getUser(req);
+      const result = await bookingSeriesService.cancelSeries(this.getSeriesId(req), user);
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /booking-series/:id/occurrences/:bookingId
+   * Move a single occurrence
+   */
+  async moveOccurrence(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.getUser(req);
+      const seriesId = this.getSeriesId(req);
+      const bookingId = this.getBookingId(req);
+      const data: MoveOccurrenceDto = req.body ?? {};
+
+      if (data.subCourtId !== undefined && !isUUID(data.subCourtId)) {
+        throw new BadRequestError('Invalid sub-court ID');
+      }
+
+      const series = await bookingSeriesService.moveOccurrence(seriesId, bookingId, data, user);
+      sendSuccess(res, series);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /booking-series/:id/occurrences/:bookingId?scope=this|future
+   * Skip one occurrence or cancel it and all future ones
+   */
+  async cancelOccurrence(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const user = this.getUser(req);
+      const seriesId = this.getSeriesId(req);
+      const bookingId = this.getBookingId(req);
+      const scope = (req.query.scope as string | undefined) ?? 'this';
+
+      if (!CANCEL_SCOPES.includes(scope as OccurrenceCancelScope)) {
+        throw new BadRequestError(`scope must be one of: ${CANCEL_SCOPES.join(', ')}`);
+      }
+
+      const result = await bookingSeriesService.cancelOccurrences(
+        seriesId,
+        bookingId,
+        scope as OccurrenceCancelScope,
+        user
+      );
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getUser(req: AuthRequest): UserProfileDto {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+
+  private getSeriesId(req: AuthRequest): string {
+    if (!isUUID(req.params.id)) {
+      throw new BadRequestError('Invalid series ID');
+    }
+    return req.params.id!;
+  }
+
+  private getBookingId(req: AuthRequest): string {
+    if (!isUUID(req.params.bookingId)) {
+      throw new BadRequestError('Invalid booking ID');
+    }
+    return req.params.bookingId!;
+  }
+}
+
+export const bookingSeriesController = new BookingSeriesController();
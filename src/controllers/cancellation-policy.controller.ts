@@ -0,0 +1,55 @@
+import type { Request, Response, NextFunction } from 'express';
+import { cancellationPolicyService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { UpdateCancellationPolicyDto } from '../types/index.js';
+
+export class CancellationPolicyController {
+  /**
+   * GET /courts/:courtId/cancellation-policy
+   * Get a court's cancellation policy
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.courtId)) {
+        throw new BadRequestError('Invalid court ID');
+      }
+
+      const policy = await cancellationPolicyService.getPolicy(req.params.courtId!);
+      sendSuccess(res, policy);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/cancellation-policy
+   * Replace a court's cancellation policy
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdateCancellationPolicyDto = req.body ?? {};
+
+      const policy = await cancellationPolicyService.updatePolicy(req.params.courtId!, data);
+      sendSuccess(res, policy);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/cancellation-policy
+   * Reset a court to the platform default policy
+   */
+  async reset(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const policy = await cancellationPolicyService.resetPolicy(req.params.courtId!);
+      sendSuccess(res, policy);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const cancellationPolicyController = new CancellationPolicyController();
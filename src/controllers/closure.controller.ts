@@ -0,0 +1,87 @@
+import type { Request, Response, NextFunction } from 'express';
+import { closureService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { CreateClosureDto, ClosureQueryParams } from '../types/index.js';
+
+export class ClosureController {
+  /**
+   * GET /courts/:courtId/closures?from=YYYY-MM-DD&to=YYYY-MM-DD
+   * List closures of a court
+   */
+  async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const params: ClosureQueryParams = {
+        from: req.query.from as string | undefined,
+        to: req.query.to as string | undefined,
+      };
+
+      const closures = await closureService.getClosures(req.params.courtId!, params);
+      sendSuccess(res, closures);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/closures
+   * Create single-day, date-range or recurring closures
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateClosureDto = req.body;
+
+      if (
+        data.subCourtIds !== undefined &&
+        (!Array.isArray(data.subCourtIds) || data.subCourtIds.length === 0 || !data.subCourtIds.every(isUUID))
+      ) {
+        throw new BadRequestError('subCourtIds must be a non-empty array of UUIDs');
+      }
+      if (data.reason !== undefined && typeof data.reason !== 'string') {
+        throw new BadRequestError('reason must be a string');
+      }
+
+      const result = await closureService.createClosures(req.params.courtId!, data);
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/closures/:closureId
+   * Remove a single closure
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.closureId)) {
+        throw new BadRequestError('Invalid closure ID');
+      }
+
+      await closureService.deleteClosure(req.params.courtId!, req.params.closureId!);
+      sendSuccess(res, { message: 'Closure deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/closures/series/:seriesId
+   * Remove every closure created together in one request
+   */
+  async deleteSeries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.seriesId)) {
+        throw new BadRequestError('Invalid series ID');
+      }
+
+      const result = await closureService.deleteSeries(req.params.courtId!, req.params.seriesId!);
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const closureController = new ClosureController();
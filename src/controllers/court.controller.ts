@@ -1,7 +1,11 @@
 import type { Request, Response, NextFunction } from 'express';
 import { courtService } from '../services/index.js';
 import { sendSuccess, sendPaginated } from '../utils/response.js';
-import type { CreateCourtDto, UpdateCourtDto, CourtQueryParams } from '../types/index.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type { CreateCourtDto, UpdateCourtDto, CourtQueryParams, AddCourtMemberDto } from '../types/index.js';
+import { COURT_MEMBER_ROLES } from '../types/index.js';
 
 export class CourtController {
   async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
@@ -28,10 +32,12 @@ export class CourtController {
     }
   }
 
-  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+  async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
     try {
       const data: CreateCourtDto = req.body;
-      const court = await courtService.createCourt(data);
+      // Venue owners become the court's first owner; admins create unassigned courts
+      const ownerId = req.user?.role === 'venue_owner' ? req.user.id : undefined;
+      const court = await courtService.createCourt(data, ownerId);
       sendSuccess(res, court, 201);
     } catch (error) {
       next(error);
@@ -72,6 +78,54 @@ export class CourtController {
       next(error);
     }
   }
+
+  /**
+   * GET /courts/:courtId/members
+   * List owners and staff of a court
+   */
+  async getMembers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const members = await courtService.getMembers(req.params.courtId!);
+      sendSuccess(res, members);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/members
+   * Add a user as owner or staff of a court
+   */
+  async addMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: AddCourtMemberDto = req.body;
+
+      if (!isUUID(data.userId)) {
+        throw new BadRequestError('userId must be a valid UUID');
+      }
+      if (!COURT_MEMBER_ROLES.includes(data.role)) {
+        throw new BadRequestError(`role must be one of: ${COURT_MEMBER_ROLES.join(', ')}`);
+      }
+
+      const member = await courtService.addMember(req.params.courtId!, data);
+      sendSuccess(res, member, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/members/:userId
+   * Remove a user from a court's members
+   */
+  async removeMember(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await courtService.removeMember(req.params.courtId!, req.params.userId!);
+      sendSuccess(res, { message: 'Court member removed successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const courtController = new CourtController();
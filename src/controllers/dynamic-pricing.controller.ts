@@ -0,0 +1,55 @@
+import type { Request, Response, NextFunction } from 'express';
+import { dynamicPricingService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { UpdateDynamicPricingDto } from '../types/index.js';
+
+export class DynamicPricingController {
+  /**
+   * GET /courts/:courtId/dynamic-pricing
+   * Get a court's dynamic pricing
+   */
+  async get(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.courtId)) {
+        throw new BadRequestError('Invalid court ID');
+      }
+
+      const pricing = await dynamicPricingService.getPricing(req.params.courtId!);
+      sendSuccess(res, pricing);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/dynamic-pricing
+   * Replace a court's dynamic pricing
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdateDynamicPricingDto = req.body ?? {};
+
+      const pricing = await dynamicPricingService.updatePricing(req.params.courtId!, data);
+      sendSuccess(res, pricing);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/dynamic-pricing
+   * Turn dynamic pricing off for a court
+   */
+  async reset(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const pricing = await dynamicPricingService.resetPricing(req.params.courtId!);
+      sendSuccess(res, pricing);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const dynamicPricingController = new DynamicPricingController();
@@ -0,0 +1,147 @@
+import type { Request, Response, NextFunction } from 'express';
+import { holidayService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type {
+  CreateHolidayDto,
+  UpdateHolidayDto,
+  GenerateHolidaysDto,
+  CourtHolidayOverrideDto,
+} from '../types/index.js';
+
+export class HolidayController {
+  /**
+   * GET /admin/holidays?year=2026
+   * List global holidays
+   */
+  async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const year = req.query.year ? Number(req.query.year) : undefined;
+      const holidays = await holidayService.getHolidays(year);
+      sendSuccess(res, holidays);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/holidays
+   * Create a global holiday
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateHolidayDto = req.body;
+      if (data.name !== undefined && typeof data.name !== 'string') {
+        throw new BadRequestError('name must be a string');
+      }
+
+      const holiday = await holidayService.createHoliday(data);
+      sendSuccess(res, holiday, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /admin/holidays/:id
+   * Update a global holiday
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid holiday ID');
+      }
+      const data: UpdateHolidayDto = req.body;
+      if (data.name !== undefined && data.name !== null && typeof data.name !== 'string') {
+        throw new BadRequestError('name must be a string');
+      }
+
+      const holiday = await holidayService.updateHoliday(req.params.id!, data);
+      sendSuccess(res, holiday);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /admin/holidays/:id
+   * Delete a global holiday
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid holiday ID');
+      }
+
+      await holidayService.deleteHoliday(req.params.id!);
+      sendSuccess(res, { message: 'Holiday deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/holidays/generate
+   * Generate Vietnamese public holidays for a year
+   */
+  async generate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: GenerateHolidaysDto = req.body;
+      const result = await holidayService.generateHolidays(data);
+      sendSuccess(res, result, result.dryRun ? 200 : 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /courts/:courtId/holiday-overrides?year=2026
+   * List a court's holiday overrides
+   */
+  async getCourtOverrides(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const year = req.query.year ? Number(req.query.year) : undefined;
+      const overrides = await holidayService.getCourtOverrides(req.params.courtId!, year);
+      sendSuccess(res, overrides);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/holiday-overrides/:date
+   * Create or replace a court's holiday override for a date
+   */
+  async setCourtOverride(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CourtHolidayOverrideDto = req.body ?? {};
+      if (data.isHoliday !== undefined && typeof data.isHoliday !== 'boolean') {
+        throw new BadRequestError('isHoliday must be a boolean');
+      }
+      if (data.name !== undefined && data.name !== null && typeof data.name !== 'string') {
+        throw new BadRequestError('name must be a string');
+      }
+
+      const override = await holidayService.setCourtOverride(req.params.courtId!, req.params.date!, data);
+      sendSuccess(res, override);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/holiday-overrides/:date
+   * Remove a court's holiday override
+   */
+  async deleteCourtOverride(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await holidayService.deleteCourtOverride(req.params.courtId!, req.params.date!);
+      sendSuccess(res, { message: 'Holiday override deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const holidayController = new HolidayController();
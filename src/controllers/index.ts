@@ -1,6 +1,24 @@
 export * from './court.controller.js';
 export * from './availability.controller.js';
+export * from './sub-court.controller.js';
+export * from './pricing-rule.controller.js';
+export * from './closure.controller.js';
+export * from './holiday.controller.js';
+export * from './cancellation-policy.controller.js';
+export * from './dynamic-pricing.controller.js';
+export * from './booking-policy.controller.js';
+export * from './booking-series.controller.js';
+export * from './waitlist.controller.js';
+export * from './review.controller.js';
+export * from './open-game.controller.js';
 export * from './payment.controller.js';
+export * from './refund.controller.js';
+export * from './split-payment.controller.js';
+export * from './voucher.controller.js';
+export * from './package.controller.js';
 export * from './search.controller.js';
 export * from './auth.controller.js';
 
+export * from './admin.controller.js';
+export * from './webhook.controller.js';
+export * from './notification.controller.js';
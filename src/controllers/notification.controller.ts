@@ -0,0 +1,37 @@
+import type { Response, NextFunction } from 'express';
+import { notificationService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { UnauthorizedError } from '../utils/errors.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type { NotificationQueryParams, UserProfileDto } from '../types/index.js';
+
+export class NotificationController {
+  /**
+   * GET /notifications?since=42&limit=20
+   * List the user's latest notifications, newest first
+   */
+  async getMine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const params: NotificationQueryParams = {
+        since: req.query.since as string | undefined,
+        limit: req.query.limit as string | undefined,
+      };
+
+      const notifications = await notificationService.getNotifications(this.getUser(req).id, params);
+      sendSuccess(res, notifications);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  private getUser(req: AuthRequest): UserProfileDto {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+}
+
+export const notificationController = new NotificationController();
@@ -0,0 +1,194 @@
+import type { Request, Response, NextFunction } from 'express';
+import { openGameService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError, UnauthorizedError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type {
+  CreateOpenGameDto,
+  UpdateOpenGameDto,
+  JoinOpenGameDto,
+  RespondToJoinRequestDto,
+  OpenGameQueryParams,
+  UserProfileDto,
+} from '../types/index.js';
+
+export class OpenGameController {
+  /**
+   * GET /open-games/nearby?latitude=x&longitude=y&radius=5&date=YYYY-MM-DD&skillLevel=3
+   * Find open games with free spots near a location
+   */
+  async getNearby(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { latitude, longitude, radius, date, skillLevel } = req.query;
+      const params: OpenGameQueryParams = {
+        latitude: Number(latitude),
+        longitude: Number(longitude),
+        radius: radius ? Number(radius) : undefined,
+        date: date as string | undefined,
+        skillLevel: skillLevel ? Number(skillLevel) : undefined,
+      };
+
+      if (
+        latitude === undefined ||
+        longitude === undefined ||
+        isNaN(params.latitude) ||
+        isNaN(params.longitude) ||
+        Math.abs(params.latitude) > 90 ||
+        Math.abs(params.longitude) > 180
+      ) {
+        throw new BadRequestError('Valid latitude and longitude are required');
+      }
+      if (params.radius !== undefined && isNaN(params.radius)) {
+        throw new BadRequestError('radius must be a number');
+      }
+
+      const games = await openGameService.getNearbyGames(params);
+      sendSuccess(res, games);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /open-games/:id
+   * Get an open game
+   */
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const game = await openGameService.getOpenGame(this.getGameId(req));
+      sendSuccess(res, game);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /open-games
+   * Open one of the caller's bookings to other players
+   */
+  async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateOpenGameDto = {
+        ...req.body,
+        userId: this.getUser(req).id,
+      };
+
+      if (!isUUID(data.bookingId)) {
+        throw new BadRequestError('Invalid booking ID');
+      }
+
+      const game = await openGameService.createOpenGame(data);
+      sendSuccess(res, game, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /open-games/:id
+   * Update a hosted game
+   */
+  async update(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdateOpenGameDto = req.body ?? {};
+      const game = await openGameService.updateOpenGame(this.getGameId(req), data, this.getUser(req));
+      sendSuccess(res, game);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /open-games/:id
+   * Close a hosted game
+   */
+  async close(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const game = await openGameService.closeOpenGame(this.getGameId(req), this.getUser(req));
+      sendSuccess(res, game);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /open-games/:id/join
+   * Ask to join a game
+   */
+  async join(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: JoinOpenGameDto = req.body ?? {};
+      const player = await openGameService.requestToJoin(this.getGameId(req), data, this.getUser(req));
+      sendSuccess(res, player, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /open-games/:id/join
+   * Withdraw a join request or leave the game
+   */
+  async withdraw(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const player = await openGameService.withdraw(this.getGameId(req), this.getUser(req));
+      sendSuccess(res, player);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /open-games/:id/players
+   * Get join requests of a hosted game
+   */
+  async getPlayers(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const players = await openGameService.getPlayers(this.getGameId(req), this.getUser(req));
+      sendSuccess(res, players);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /open-games/:id/players/:playerId
+   * Accept or decline a join request
+   */
+  async respond(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { playerId } = req.params;
+      if (!isUUID(playerId)) {
+        throw new BadRequestError('Invalid join request ID');
+      }
+
+      const { status }: RespondToJoinRequestDto = req.body ?? {};
+      const player = await openGameService.respondToRequest(
+        this.getGameId(req),
+        playerId!,
+        status,
+        this.getUser(req)
+      );
+      sendSuccess(res, player);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getUser(req: AuthRequest): UserProfileDto {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+
+  private getGameId(req: Request): string {
+    if (!isUUID(req.params.id)) {
+      throw new BadRequestError('Invalid open game ID');
+    }
+    return req.params.id!;
+  }
+}
+
+export const openGameController = new OpenGameController();
@@ -0,0 +1,182 @@
+import type { Request, Response, NextFunction } from 'express';
+import { packageService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError, UnauthorizedError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type {
+  CreatePackagePlanDto,
+  UpdatePackagePlanDto,
+  PurchasePackageDto,
+  GrantPackageDto,
+  UserProfileDto,
+} from '../types/index.js';
+
+export class PackageController {
+  // ==================== Plans ====================
+
+  /**
+   * GET /courts/:courtId/package-plans
+   * Get the packages a court sells
+   */
+  async getPlans(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const plans = await packageService.getPlans(this.getCourtId(req));
+      sendSuccess(res, plans);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/package-plans
+   * Create a package plan
+   */
+  async createPlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const courtId = this.getCourtId(req);
+      const data: CreatePackagePlanDto = req.body ?? {};
+      this.validatePlanBody(data);
+
+      const plan = await packageService.createPlan(courtId, data);
+      sendSuccess(res, plan, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/package-plans/:planId
+   * Update a package plan
+   */
+  async updatePlan(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const courtId = this.getCourtId(req);
+      if (!isUUID(req.params.planId)) {
+        throw new BadRequestError('Invalid plan ID');
+      }
+      const data: UpdatePackagePlanDto = req.body ?? {};
+      this.validatePlanBody(data);
+
+      const plan = await packageService.updatePlan(courtId, req.params.planId!, data);
+      sendSuccess(res, plan);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==================== Packages ====================
+
+  /**
+   * POST /courts/:courtId/packages
+   * Record a package sold at the venue
+   */
+  async grant(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const courtId = this.getCourtId(req);
+      const data: GrantPackageDto = req.body ?? {};
+      if (!isUUID(data.planId)) {
+        throw new BadRequestError('Invalid plan ID');
+      }
+      if (!isUUID(data.userId)) {
+        throw new BadRequestError('Invalid user ID');
+      }
+
+      const userPackage = await packageService.grantPackage(courtId, data);
+      sendSuccess(res, userPackage, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /packages
+   * Buy a package through ZaloPay
+   */
+  async purchase(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: PurchasePackageDto = req.body ?? {};
+      if (!isUUID(data.planId)) {
+        throw new BadRequestError('Invalid plan ID');
+      }
+
+      const result = await packageService.purchasePackage(data, this.getUser(req));
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /packages
+   * Get the current user's packages
+   */
+  async getMine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const packages = await packageService.getMyPackages(this.getUser(req).id);
+      sendSuccess(res, packages);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /packages/:id
+   * Get a package and its remaining time
+   */
+  async getById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const userPackage = await packageService.getPackage(this.getPackageId(req), this.getUser(req));
+      sendSuccess(res, userPackage);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /packages/:id/transactions
+   * Get the balance history of a package
+   */
+  async getTransactions(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const transactions = await packageService.getTransactions(this.getPackageId(req), this.getUser(req));
+      sendSuccess(res, transactions);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Check the shape of the fields the service does not validate itself
+   */
+  private validatePlanBody(data: UpdatePackagePlanDto): void {
+    if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+      throw new BadRequestError('isActive must be a boolean');
+    }
+  }
+
+  private getUser(req: AuthRequest): UserProfileDto {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+
+  private getCourtId(req: Request): string {
+    if (!isUUID(req.params.courtId)) {
+      throw new BadRequestError('Invalid court ID');
+    }
+    return req.params.courtId!;
+  }
+
+  private getPackageId(req: Request): string {
+    if (!isUUID(req.params.id)) {
+      throw new BadRequestError('Invalid package ID');
+    }
+    return req.params.id!;
+  }
+}
+
+export const packageController = new PackageController();
@@ -0,0 +1,98 @@
+import type { Request, Response, NextFunction } from 'express';
+import { pricingRuleService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import type { CreatePricingRuleDto, UpdatePricingRuleDto, PricingPreviewDto } from '../types/index.js';
+
+export class PricingRuleController {
+  /**
+   * GET /courts/:courtId/pricing-rules
+   * List all pricing rules of a court
+   */
+  async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const rules = await pricingRuleService.getRules(req.params.courtId!);
+      sendSuccess(res, rules);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /courts/:courtId/pricing-rules/coverage
+   * Report opening hours not covered by any active pricing rule
+   */
+  async getCoverage(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const coverage = await pricingRuleService.getCoverage(req.params.courtId!);
+      sendSuccess(res, coverage);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/pricing-rules
+   * Create a pricing rule
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreatePricingRuleDto = req.body;
+      const result = await pricingRuleService.createRule(req.params.courtId!, data);
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/pricing-rules/:ruleId
+   * Update a pricing rule
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdatePricingRuleDto = req.body;
+      if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+        throw new BadRequestError('isActive must be a boolean');
+      }
+
+      const result = await pricingRuleService.updateRule(req.params.courtId!, req.params.ruleId!, data);
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/pricing-rules/:ruleId
+   * Delete a pricing rule
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await pricingRuleService.deleteRule(req.params.courtId!, req.params.ruleId!);
+      sendSuccess(res, { message: 'Pricing rule deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/pricing-rules/preview
+   * Render a week of prices for a proposed rule set without saving it
+   */
+  async preview(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: PricingPreviewDto = req.body;
+      if (data.rules !== undefined && !Array.isArray(data.rules)) {
+        throw new BadRequestError('rules must be an array');
+      }
+
+      const preview = await pricingRuleService.previewWeek(req.params.courtId!, data);
+      sendSuccess(res, preview);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const pricingRuleController = new PricingRuleController();
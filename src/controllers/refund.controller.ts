@@ -0,0 +1,43 @@
+import type { Request, Response, NextFunction } from 'express';
+import { refundService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+
+export class RefundController {
+  /**
+   * GET /refunds/:id
+   * Get a refund (synced with ZaloPay while processing)
+   */
+  async getRefund(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid refund ID');
+      }
+
+      const refund = await refundService.getRefund(req.params.id!);
+      sendSuccess(res, refund);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /bookings/:bookingId/refunds
+   * Get refunds for a booking
+   */
+  async getRefundsByBookingId(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.bookingId)) {
+        throw new BadRequestError('Invalid booking ID');
+      }
+
+      const refunds = await refundService.getRefundsByBookingId(req.params.bookingId!);
+      sendSuccess(res, refunds);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const refundController = new RefundController();
@@ -0,0 +1,186 @@
+import type { Request, Response, NextFunction } from 'express';
+import { reviewService } from '../services/index.js';
+import { sendSuccess, sendPaginated } from '../utils/response.js';
+import { BadRequestError, UnauthorizedError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type {
+  CreateReviewDto,
+  UpdateReviewDto,
+  ReplyToReviewDto,
+  FlagReviewDto,
+  ModerateReviewDto,
+  ReviewQueryParams,
+  ReviewSort,
+  UserProfileDto,
+} from '../types/index.js';
+
+export class ReviewController {
+  /**
+   * GET /courts/:courtId/reviews?page=1&limit=10&sort=newest|highest|lowest
+   * Get a court's reviews
+   */
+  async getByCourt(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { courtId } = req.params;
+      if (!isUUID(courtId)) {
+        throw new BadRequestError('Invalid court ID');
+      }
+
+      const params: ReviewQueryParams = {
+        page: req.query.page ? Number(req.query.page) : 1,
+        limit: req.query.limit ? Number(req.query.limit) : 10,
+        sort: req.query.sort as ReviewSort | undefined,
+      };
+
+      const result = await reviewService.getCourtReviews(courtId!, params);
+      sendPaginated(res, result.reviews, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /reviews
+   * Review a completed booking
+   */
+  async create(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateReviewDto = {
+        ...req.body,
+        userId: this.getUser(req).id,
+      };
+
+      if (!isUUID(data.bookingId)) {
+        throw new BadRequestError('Invalid booking ID');
+      }
+
+      const review = await reviewService.createReview(data);
+      sendSuccess(res, review, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /reviews/:id
+   * Edit the caller's review
+   */
+  async update(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdateReviewDto = req.body ?? {};
+      const review = await reviewService.updateReview(this.getReviewId(req), data, this.getUser(req));
+      sendSuccess(res, review);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /reviews/:id
+   * Delete a review
+   */
+  async delete(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await reviewService.deleteReview(this.getReviewId(req), this.getUser(req));
+      sendSuccess(res, { message: 'Review deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /reviews/:id/reply
+   * Reply to a review as the court's owner/staff
+   */
+  async reply(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { reply }: ReplyToReviewDto = req.body ?? {};
+      const review = await reviewService.replyToReview(this.getReviewId(req), reply, this.getUser(req));
+      sendSuccess(res, review);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /reviews/:id/reply
+   * Remove the owner reply
+   */
+  async deleteReply(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const review = await reviewService.deleteReply(this.getReviewId(req), this.getUser(req));
+      sendSuccess(res, review);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /reviews/:id/flag
+   * Flag a review for moderation
+   */
+  async flag(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { reason }: FlagReviewDto = req.body ?? {};
+      const review = await reviewService.flagReview(this.getReviewId(req), reason);
+      sendSuccess(res, review);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/reviews/flagged?page=1&limit=10
+   * Get flagged reviews waiting for moderation
+   */
+  async getFlagged(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await reviewService.getFlaggedReviews({
+        page: req.query.page ? Number(req.query.page) : 1,
+        limit: req.query.limit ? Number(req.query.limit) : 10,
+      });
+      sendPaginated(res, result.reviews, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /admin/reviews/:id/moderation
+   * Hide or restore a review
+   */
+  async moderate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { isHidden }: ModerateReviewDto = req.body ?? {};
+      const review = await reviewService.moderateReview(this.getReviewId(req), isHidden);
+      sendSuccess(res, review);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getUser(req: AuthRequest): UserProfileDto {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+
+  private getReviewId(req: Request): string {
+    if (!isUUID(req.params.id)) {
+      throw new BadRequestError('Invalid review ID');
+    }
+    return req.params.id!;
+  }
+}
+
+export const reviewController = new ReviewController();
@@ -2,7 +2,8 @@ import type { Request, Response, NextFunction } from 'express';
 import { searchService } from '../services/index.js';
 import { sendSuccess, sendPaginated } from '../utils/response.js';
 import { BadRequestError } from '../utils/errors.js';
-import type { AutocompleteQueryParams, SearchQueryParams } from '../types/index.js';
+import { SEARCH_SORTS } from '../types/index.js';
+import type { AutocompleteQueryParams, SearchQueryParams, SearchSort } from '../types/index.js';
 
 export class SearchController {
   /**
@@ -37,6 +38,7 @@ export class SearchController {
   /**
    * GET /api/search/courts
    * Full fuzzy search with pagination
+   * Optionally filtered by minimum rating and sorted by rating
    */
   async searchCourts(req: Request, res: Response, next: NextFunction): Promise<void> {
     try {
@@ -46,11 +48,19 @@ export class SearchController {
         limit: req.query.limit ? Number(req.query.limit) : 10,
         minSimilarity: req.query.minSimilarity ? Number(req.query.minSimilarity) : 0.3,
         district: req.query.district as string | undefined,
+        minRating: req.query.minRating !== undefined ? Number(req.query.minRating) : undefined,
+        sortBy: (req.query.sortBy as SearchSort | undefined) ?? 'relevance',
       };
 
       if (!params.q || params.q.trim().length < 2) {
         throw new BadRequestError('Search query must be at least 2 characters');
       }
+      if (params.minRating !== undefined && (isNaN(params.minRating) || params.minRating < 1 || params.minRating > 5)) {
+        throw new BadRequestError('minRating must be a number from 1 to 5');
+      }
+      if (!SEARCH_SORTS.includes(params.sortBy!)) {
+        throw new BadRequestError(`sortBy must be one of: ${SEARCH_SORTS.join(', ')}`);
+      }
 
       const result = await searchService.searchCourts(params);
 
@@ -0,0 +1,71 @@
+import type { Request, Response, NextFunction } from 'express';
+import { splitPaymentService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { CreateSplitPaymentDto } from '../types/index.js';
+
+export class SplitPaymentController {
+  /**
+   * POST /bookings/:bookingId/split-payment
+   * Split the payment of a booking into shares, one ZaloPay order per share
+   */
+  async createSplitPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateSplitPaymentDto = req.body;
+      const result = await splitPaymentService.createSplitPayment(req.params.bookingId!, data);
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /bookings/:bookingId/split-payment/cover
+   * Pay whatever the shares have not covered yet
+   */
+  async coverRemaining(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await splitPaymentService.coverRemaining(req.params.bookingId!);
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /split-payments/:id
+   * Get a split payment with the state of each share
+   */
+  async getSplitPayment(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid split payment ID');
+      }
+
+      const split = await splitPaymentService.getSplitPayment(req.params.id!);
+      sendSuccess(res, split);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /split-payments/:id/shares/:shareNumber
+   * Get the ZaloPay order of a share (a new one if the last attempt failed)
+   */
+  async payShare(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid split payment ID');
+      }
+
+      const result = await splitPaymentService.payShare(req.params.id!, Number(req.params.shareNumber));
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const splitPaymentController = new SplitPaymentController();
@@ -0,0 +1,129 @@
+import type { Request, Response, NextFunction } from 'express';
+import { subCourtService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID, isObject } from '../middlewares/validate.middleware.js';
+import type { CreateSubCourtDto, UpdateSubCourtDto, ReorderSubCourtsDto } from '../types/index.js';
+import { SURFACE_TYPES } from '../types/index.js';
+
+export class SubCourtController {
+  /**
+   * GET /courts/:courtId/sub-courts
+   * List all sub-courts of a court (active and inactive) in display order
+   */
+  async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const subCourts = await subCourtService.getSubCourts(req.params.courtId!);
+      sendSuccess(res, subCourts);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/sub-courts
+   * Create a sub-court
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateSubCourtDto = req.body;
+
+      if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+        throw new BadRequestError('name is required');
+      }
+      this.validateFields(data);
+
+      const subCourt = await subCourtService.createSubCourt(req.params.courtId!, {
+        ...data,
+        name: data.name.trim(),
+      });
+      sendSuccess(res, subCourt, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/sub-courts/:subCourtId?force=true
+   * Update a sub-court. Deactivating one with upcoming bookings requires force=true
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: UpdateSubCourtDto = req.body;
+
+      if (data.name !== undefined && (typeof data.name !== 'string' || data.name.trim().length === 0)) {
+        throw new BadRequestError('name must be a non-empty string');
+      }
+      if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+        throw new BadRequestError('isActive must be a boolean');
+      }
+      this.validateFields(data);
+
+      const force = req.query.force === 'true';
+      const result = await subCourtService.updateSubCourt(
+        req.params.courtId!,
+        req.params.subCourtId!,
+        {
+          ...data,
+          ...(data.name !== undefined && { name: data.name.trim() }),
+        },
+        force
+      );
+      sendSuccess(res, result);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/sub-courts/order
+   * Reorder sub-courts
+   */
+  async reorder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { subCourtIds }: ReorderSubCourtsDto = req.body;
+
+      if (!Array.isArray(subCourtIds) || subCourtIds.length === 0 || !subCourtIds.every(isUUID)) {
+        throw new BadRequestError('subCourtIds must be a non-empty array of UUIDs');
+      }
+
+      const subCourts = await subCourtService.reorderSubCourts(req.params.courtId!, subCourtIds);
+      sendSuccess(res, subCourts);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/sub-courts/:subCourtId
+   * Delete a sub-court that has never been booked
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await subCourtService.deleteSubCourt(req.params.courtId!, req.params.subCourtId!);
+      sendSuccess(res, { message: 'Sub-court deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Validate optional fields shared by create and update
+   */
+  private validateFields(data: UpdateSubCourtDto & Pick<CreateSubCourtDto, 'displayOrder'>): void {
+    if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+      throw new BadRequestError('description must be a string');
+    }
+    if (data.surfaceType !== undefined && !SURFACE_TYPES.includes(data.surfaceType)) {
+      throw new BadRequestError(`surfaceType must be one of: ${SURFACE_TYPES.join(', ')}`);
+    }
+    if (data.displayOrder !== undefined && (!Number.isInteger(data.displayOrder) || data.displayOrder < 0)) {
+      throw new BadRequestError('displayOrder must be a non-negative integer');
+    }
+    if (!isObject(data.attributes)) {
+      throw new BadRequestError('attributes must be an object');
+    }
+  }
+}
+
+export const subCourtController = new SubCourtController();
@@ -0,0 +1,122 @@
+import type { Request, Response, NextFunction } from 'express';
+import { voucherService } from '../services/index.js';
+import { sendSuccess, sendPaginated } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { CreateVoucherDto, UpdateVoucherDto, VoucherQueryParams } from '../types/index.js';
+
+export class VoucherController {
+  /**
+   * GET /admin/vouchers?page=1&limit=20&active=true
+   * List vouchers with their usage
+   */
+  async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const params: VoucherQueryParams = {
+        page: req.query.page ? Number(req.query.page) : 1,
+        limit: req.query.limit ? Number(req.query.limit) : 20,
+        active: req.query.active !== undefined ? req.query.active === 'true' : undefined,
+      };
+
+      const result = await voucherService.listVouchers(params);
+      sendPaginated(res, result.vouchers, {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /admin/vouchers/:id
+   * Get a voucher with its usage
+   */
+  async getById(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid voucher ID');
+      }
+
+      const voucher = await voucherService.getVoucher(req.params.id!);
+      sendSuccess(res, voucher);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /admin/vouchers
+   * Create a voucher
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: CreateVoucherDto = req.body ?? {};
+      this.validateBody(data);
+
+      const voucher = await voucherService.createVoucher(data);
+      sendSuccess(res, voucher, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /admin/vouchers/:id
+   * Update a voucher
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid voucher ID');
+      }
+      const data: UpdateVoucherDto = req.body ?? {};
+      this.validateBody(data);
+
+      const voucher = await voucherService.updateVoucher(req.params.id!, data);
+      sendSuccess(res, voucher);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /admin/vouchers/:id
+   * Delete a voucher that was never used
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isUUID(req.params.id)) {
+        throw new BadRequestError('Invalid voucher ID');
+      }
+
+      await voucherService.deleteVoucher(req.params.id!);
+      sendSuccess(res, { message: 'Voucher deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Check the shape of the fields the service does not validate itself
+   */
+  private validateBody(data: UpdateVoucherDto): void {
+    if (data.description !== undefined && data.description !== null && typeof data.description !== 'string') {
+      throw new BadRequestError('description must be a string');
+    }
+    if (data.courtIds !== undefined && (!Array.isArray(data.courtIds) || !data.courtIds.every((id) => isUUID(id)))) {
+      throw new BadRequestError('courtIds must be an array of court IDs');
+    }
+    if (data.dayTypes !== undefined && !Array.isArray(data.dayTypes)) {
+      throw new BadRequestError('dayTypes must be an array');
+    }
+    for (const field of ['firstBookingOnly', 'isActive'] as const) {
+      if (data[field] !== undefined && typeof data[field] !== 'boolean') {
+        throw new BadRequestError(`${field} must be a boolean`);
+      }
+    }
+  }
+}
+
+export const voucherController = new VoucherController();
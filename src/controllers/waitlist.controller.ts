@@ -0,0 +1,102 @@
+import type { Response, NextFunction } from 'express';
+import { waitlistService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError, UnauthorizedError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { AuthRequest } from '../middlewares/auth.middleware.js';
+import type { JoinWaitlistDto, UserProfileDto } from '../types/index.js';
+
+export class WaitlistController {
+  /**
+   * POST /waitlist
+   * Join the waitlist for an unavailable slot
+   */
+  async join(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const data: JoinWaitlistDto = {
+        ...req.body,
+        userId: this.getUser(req).id,
+      };
+
+      if (data.subCourtId !== undefined && !isUUID(data.subCourtId)) {
+        throw new BadRequestError('Invalid sub-court ID');
+      }
+      if (data.courtId !== undefined && !isUUID(data.courtId)) {
+        throw new BadRequestError('Invalid court ID');
+      }
+
+      const entry = await waitlistService.joinWaitlist(data);
+      sendSuccess(res, entry, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /waitlist
+   * Get the caller's waitlist entries
+   */
+  async getMine(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entries = await waitlistService.getMyEntries(this.getUser(req).id);
+      sendSuccess(res, entries);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /waitlist/:id
+   * Get a waitlist entry with its queue position or offer
+   */
+  async getById(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entry = await waitlistService.getEntry(this.getEntryId(req), this.getUser(req));
+      sendSuccess(res, entry);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /waitlist/:id
+   * Leave the waitlist
+   */
+  async leave(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const entry = await waitlistService.leaveWaitlist(this.getEntryId(req), this.getUser(req));
+      sendSuccess(res, entry);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /waitlist/:id/claim
+   * Claim a held slot and create its booking
+   */
+  async claim(req: AuthRequest, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const result = await waitlistService.claimOffer(this.getEntryId(req), this.getUser(req));
+      sendSuccess(res, result, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private getUser(req: AuthRequest): UserProfileDto {
+    if (!req.user) {
+      throw new UnauthorizedError('Authentication required');
+    }
+    return req.user;
+  }
+
+  private getEntryId(req: AuthRequest): string {
+    if (!isUUID(req.params.id)) {
+      throw new BadRequestError('Invalid waitlist entry ID');
+    }
+    return req.params.id!;
+  }
+}
+
+export const waitlistController = new WaitlistController();
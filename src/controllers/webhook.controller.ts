@@ -0,0 +1,130 @@
+import type { Request, Response, NextFunction } from 'express';
+import { webhookService } from '../services/index.js';
+import { sendSuccess } from '../utils/response.js';
+import { BadRequestError } from '../utils/errors.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import type { CreateWebhookDto, UpdateWebhookDto, WebhookDeliveryQueryParams } from '../types/index.js';
+
+export class WebhookController {
+  /**
+   * GET /courts/:courtId/webhooks
+   * List a court's webhooks
+   */
+  async getAll(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const webhooks = await webhookService.getWebhooks(this.getCourtId(req));
+      sendSuccess(res, webhooks);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/webhooks
+   * Register a webhook
+   */
+  async create(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const courtId = this.getCourtId(req);
+      const data: CreateWebhookDto = req.body ?? {};
+      this.validateBody(data);
+
+      const webhook = await webhookService.createWebhook(courtId, data);
+      sendSuccess(res, webhook, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /courts/:courtId/webhooks/:webhookId
+   * Update a webhook
+   */
+  async update(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const courtId = this.getCourtId(req);
+      const webhookId = this.getWebhookId(req);
+      const data: UpdateWebhookDto = req.body ?? {};
+      this.validateBody(data);
+
+      const webhook = await webhookService.updateWebhook(courtId, webhookId, data);
+      sendSuccess(res, webhook);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /courts/:courtId/webhooks/:webhookId
+   * Delete a webhook and its delivery log
+   */
+  async delete(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      await webhookService.deleteWebhook(this.getCourtId(req), this.getWebhookId(req));
+      sendSuccess(res, { message: 'Webhook deleted successfully' });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /courts/:courtId/webhooks/:webhookId/deliveries?status=failed&limit=50
+   * List a webhook's deliveries, newest first
+   */
+  async getDeliveries(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const params: WebhookDeliveryQueryParams = {
+        status: req.query.status as string | undefined,
+        limit: req.query.limit as string | undefined,
+      };
+
+      const deliveries = await webhookService.getDeliveries(this.getCourtId(req), this.getWebhookId(req), params);
+      sendSuccess(res, deliveries);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /courts/:courtId/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+   * Send a delivery again
+   */
+  async redeliver(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const courtId = this.getCourtId(req);
+      const webhookId = this.getWebhookId(req);
+      if (!isUUID(req.params.deliveryId)) {
+        throw new BadRequestError('Invalid delivery ID');
+      }
+
+      const delivery = await webhookService.redeliver(courtId, webhookId, req.params.deliveryId!);
+      sendSuccess(res, delivery, 201);
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  private validateBody(data: UpdateWebhookDto): void {
+    if (data.isActive !== undefined && typeof data.isActive !== 'boolean') {
+      throw new BadRequestError('isActive must be a boolean');
+    }
+  }
+
+  private getCourtId(req: Request): string {
+    if (!isUUID(req.params.courtId)) {
+      throw new BadRequestError('Invalid court ID');
+    }
+    return req.params.courtId!;
+  }
+
+  private getWebhookId(req: Request): string {
+    if (!isUUID(req.params.webhookId)) {
+      throw new BadRequestError('Invalid webhook ID');
+    }
+    return req.params.webhookId!;
+  }
+}
+
+export const webhookController = new WebhookController();
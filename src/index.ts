@@ -56,7 +56,7 @@ async function start(): Promise<void> {
     console.log(`🚀 Server running on port ${config.port}`);
     console.log(`📦 Environment: ${config.nodeEnv}`);
     console.log(`📚 API Docs: http://localhost:${config.port}/api/docs`);
-    console.log(`🔌 WebSocket: ws://localhost:${config.port}/ws/payments`);
+    console.log(`🔌 WebSocket: ws://localhost:${config.port}/ws`);
   });
 
   // Then connect to database (non-blocking)
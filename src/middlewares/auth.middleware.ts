@@ -1,8 +1,15 @@
 import type { Request, Response, NextFunction } from 'express';
 import { firebaseService } from '../services/firebase.service.js';
 import { userService } from '../services/user.service.js';
+import { courtService } from '../services/court.service.js';
+import { availabilityService } from '../services/availability.service.js';
+import { refundService } from '../services/refund.service.js';
+import { splitPaymentService } from '../services/split-payment.service.js';
 import { AppError } from '../utils/errors.js';
-import type { UserProfileDto, DecodedFirebaseToken, mapUserToDto } from '../types/auth.types.js';
+import { isUUID } from './validate.middleware.js';
+import { verifyBookingAccessToken, verifySplitAccessToken, normalizePhone } from '../utils/booking-access.js';
+import type { UserProfileDto, DecodedFirebaseToken, UserRole, mapUserToDto } from '../types/auth.types.js';
+import type { CourtMemberRole } from '../types/court.types.js';
 import { mapUserToDto as mapUser } from '../types/auth.types.js';
 
 /**
@@ -11,6 +18,10 @@ import { mapUserToDto as mapUser } from '../types/auth.types.js';
 export interface AuthRequest extends Request {
   user?: UserProfileDto;
   firebaseToken?: DecodedFirebaseToken;
+  /** Membership role on the court resolved by requireCourtPermission */
+  courtRole?: CourtMemberRole;
+  /** Phone number verified by OTP (Firebase phone auth), in local form, set by requireVerifiedPhone */
+  verifiedPhone?: string;
 }
 
 /**
@@ -169,3 +180,200 @@ export async function requireAnonymousUser(
   }
 }
 
+
+/**
+ * Require one of the given platform roles
+ * Must run after requireAuth/requireRegisteredUser. Platform admins always pass.
+ */
+export function requireRole(...roles: UserRole[]) {
+  return (req: AuthRequest, _res: Response, next: NextFunction): void => {
+    if (!req.user) {
+      next(new AppError('Authentication required', 401, 'UNAUTHENTICATED'));
+      return;
+    }
+
+    if (req.user.role === 'platform_admin' || roles.includes(req.user.role)) {
+      next();
+      return;
+    }
+
+    next(new AppError('You do not have permission to perform this action', 403, 'INSUFFICIENT_ROLE'));
+  };
+}
+
+/**
+ * Require membership on the court identified by a route parameter
+ * Must run after requireAuth/requireRegisteredUser. Platform admins always pass.
+ * @param memberRoles - Court membership roles allowed (default: owner and staff)
+ * @param param - Route parameter holding the court ID (default: courtId)
+ */
+export function requireCourtPermission(
+  memberRoles: CourtMemberRole[] = ['owner', 'staff'],
+  param: string = 'courtId'
+) {
+  return async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!req.user) {
+        throw new AppError('Authentication required', 401, 'UNAUTHENTICATED');
+      }
+
+      if (req.user.role === 'platform_admin') {
+        next();
+        return;
+      }
+
+      const courtId = req.params[param];
+      if (!courtId) {
+        throw new AppError('Court ID is required', 400, 'MISSING_COURT_ID');
+      }
+
+      const courtRole = await courtService.getMemberRole(courtId, req.user.id);
+      if (!courtRole || !memberRoles.includes(courtRole)) {
+        throw new AppError('You do not have permission to manage this court', 403, 'COURT_PERMISSION_DENIED');
+      }
+
+      req.courtRole = courtRole;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Require access to the booking identified by a route parameter
+ * Passes for a valid guest access token (X-Booking-Token header), the booking's user,
+ * a member of the booking's court or a platform admin.
+ * Run after optionalAuth so signed-in users are recognised.
+ * @param param - Route parameter holding the booking ID (default: id)
+ */
+export function requireBookingAccess(param: string = 'id') {
+  return async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const bookingId = req.params[param];
+      if (!bookingId || !isUUID(bookingId)) {
+        throw new AppError('Invalid booking ID', 400, 'INVALID_BOOKING_ID');
+      }
+
+      await checkBookingAccess(req, bookingId);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Require access to the booking a refund belongs to (same rules as requireBookingAccess)
+ * The guest access token is the one of the refunded booking.
+ * Run after optionalAuth so signed-in users are recognised.
+ * @param param - Route parameter holding the refund ID (default: id)
+ */
+export function requireRefundAccess(param: string = 'id') {
+  return async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const refundId = req.params[param];
+      if (!refundId || !isUUID(refundId)) {
+        throw new AppError('Invalid refund ID', 400, 'INVALID_REFUND_ID');
+      }
+
+      const bookingId = await refundService.getRefundBookingId(refundId);
+      await checkBookingAccess(req, bookingId);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Require access to a split payment
+ * Passes for its share token (X-Share-Token header), which the booker sends to the other players,
+ * or for access to its booking (same rules as requireBookingAccess).
+ * Run after optionalAuth so signed-in users are recognised.
+ * @param param - Route parameter holding the split payment ID (default: id)
+ */
+export function requireSplitPaymentAccess(param: string = 'id') {
+  return async (req: AuthRequest, _res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const splitPaymentId = req.params[param];
+      if (!splitPaymentId || !isUUID(splitPaymentId)) {
+        throw new AppError('Invalid split payment ID', 400, 'INVALID_SPLIT_PAYMENT_ID');
+      }
+
+      const shareToken = req.headers['x-share-token'];
+      if (typeof shareToken === 'string' && verifySplitAccessToken(splitPaymentId, shareToken)) {
+        next();
+        return;
+      }
+
+      const bookingId = await splitPaymentService.getSplitBookingId(splitPaymentId);
+      await checkBookingAccess(req, bookingId);
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+/**
+ * Throw unless the request may access the booking
+ * Sets req.courtRole when access comes from court membership
+ */
+async function checkBookingAccess(req: AuthRequest, bookingId: string): Promise<void> {
+  const guestToken = req.headers['x-booking-token'];
+  if (typeof guestToken === 'string' && verifyBookingAccessToken(bookingId, guestToken)) {
+    return;
+  }
+
+  if (!req.user) {
+    throw new AppError('Sign in or provide the booking access token', 401, 'UNAUTHENTICATED');
+  }
+
+  if (req.user.role === 'platform_admin') {
+    return;
+  }
+
+  const ownership = await availabilityService.getBookingOwnership(bookingId);
+  if (ownership.userId === req.user.id) {
+    return;
+  }
+
+  const courtRole = await courtService.getMemberRole(ownership.courtId, req.user.id);
+  if (!courtRole) {
+    throw new AppError('You do not have access to this booking', 403, 'BOOKING_ACCESS_DENIED');
+  }
+
+  req.courtRole = courtRole;
+}
+
+/**
+ * Require a Firebase token carrying an OTP-verified phone number
+ * The phone comes from Firebase phone auth (sign-in or a phone linked to the account),
+ * so no user record is needed.
+ */
+export async function requireVerifiedPhone(
+  req: AuthRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const token = extractBearerToken(req.headers.authorization);
+
+    if (!token) {
+      throw new AppError('Authorization header required', 401, 'MISSING_TOKEN');
+    }
+
+    const decodedToken = await firebaseService.verifyIdToken(token);
+    req.firebaseToken = decodedToken;
+
+    if (!decodedToken.phone_number) {
+      throw new AppError('Verify your phone number to look up bookings', 403, 'PHONE_NOT_VERIFIED');
+    }
+
+    req.verifiedPhone = normalizePhone(decodedToken.phone_number);
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
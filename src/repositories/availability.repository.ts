@@ -6,18 +6,38 @@ import type {
   RawPricingRule,
   RawClosure,
   CreateBookingDto,
+  HolidayInfo,
 } from '../types/index.js';
 
+// Global holiday and court override of a date
+interface HolidayRow {
+  holiday_multiplier: number | null;
+  override_is_holiday: boolean | null;
+  override_multiplier: number | null;
+}
+
 export class AvailabilityRepository {
   /**
    * Get all active sub-courts for a court
    */
   async getSubCourtsByCourtId(courtId: string): Promise<RawSubCourt[]> {
     return prisma.$queryRaw<RawSubCourt[]>`
-      SELECT id, court_id, name, description, is_active
+      SELECT id, court_id, name, description, is_active, surface_type
       FROM sub_courts
       WHERE court_id = ${courtId}::uuid AND is_active = true
-      ORDER BY name
+      ORDER BY display_order, name
+    `;
+  }
+
+  /**
+   * Get all active sub-courts of several courts
+   */
+  async getSubCourtsByCourtIds(courtIds: string[]): Promise<RawSubCourt[]> {
+    return prisma.$queryRaw<RawSubCourt[]>`
+      SELECT id, court_id, name, description, is_active, surface_type
+      FROM sub_courts
+      WHERE court_id = ANY(${courtIds}::uuid[]) AND is_active = true
+      ORDER BY display_order, name
     `;
   }
 
@@ -40,6 +60,24 @@ export class AvailabilityRepository {
     `;
   }
 
+  /**
+   * Get confirmed bookings for the sub-courts of several courts on a specific date
+   */
+  async getBookingsByCourtIdsAndDate(courtIds: string[], date: string): Promise<RawBooking[]> {
+    return prisma.$queryRaw<RawBooking[]>`
+      SELECT b.id, b.sub_court_id, b.date,
+             TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(b.end_time, 'HH24:MI') as end_time,
+             b.status
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      WHERE sc.court_id = ANY(${courtIds}::uuid[])
+        AND b.date = ${date}::date
+        AND b.status = 'confirmed'
+      ORDER BY b.start_time
+    `;
+  }
+
   /**
    * Get active pricing rules for a court
    */
@@ -55,6 +93,21 @@ export class AvailabilityRepository {
     `;
   }
 
+  /**
+   * Get active pricing rules for several courts
+   */
+  async getPricingRulesByCourtIds(courtIds: string[]): Promise<RawPricingRule[]> {
+    return prisma.$queryRaw<RawPricingRule[]>`
+      SELECT id, court_id, name, day_type,
+             TO_CHAR(start_time, 'HH24:MI') as start_time,
+             TO_CHAR(end_time, 'HH24:MI') as end_time,
+             price_per_hour, is_active
+      FROM pricing_rules
+      WHERE court_id = ANY(${courtIds}::uuid[]) AND is_active = true
+      ORDER BY start_time
+    `;
+  }
+
   /**
    * Get closures for sub-courts on a specific date
    */
@@ -70,25 +123,126 @@ export class AvailabilityRepository {
     `;
   }
 
+  /**
+   * Get confirmed bookings for a court's sub-courts between two dates (inclusive)
+   */
+  async getBookingsByCourtAndDateRange(courtId: string, from: string, to: string): Promise<RawBooking[]> {
+    return prisma.$queryRaw<RawBooking[]>`
+      SELECT b.id, b.sub_court_id, b.date,
+             TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(b.end_time, 'HH24:MI') as end_time,
+             b.status
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      WHERE sc.court_id = ${courtId}::uuid
+        AND b.date BETWEEN ${from}::date AND ${to}::date
+        AND b.status = 'confirmed'
+      ORDER BY b.date, b.start_time
+    `;
+  }
+
+  /**
+   * Get closures for a court's sub-courts between two dates (inclusive)
+   */
+  async getClosuresByCourtAndDateRange(courtId: string, from: string, to: string): Promise<RawClosure[]> {
+    return prisma.$queryRaw<RawClosure[]>`
+      SELECT c.id, c.sub_court_id, c.date,
+             TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(c.end_time, 'HH24:MI') as end_time,
+             c.reason
+      FROM sub_court_closures c
+      JOIN sub_courts sc ON c.sub_court_id = sc.id
+      WHERE sc.court_id = ${courtId}::uuid AND c.date BETWEEN ${from}::date AND ${to}::date
+    `;
+  }
+
+  /**
+   * Get closures for the sub-courts of several courts on a specific date
+   */
+  async getClosuresByCourtIdsAndDate(courtIds: string[], date: string): Promise<RawClosure[]> {
+    return prisma.$queryRaw<RawClosure[]>`
+      SELECT c.id, c.sub_court_id, c.date,
+             TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(c.end_time, 'HH24:MI') as end_time,
+             c.reason
+      FROM sub_court_closures c
+      JOIN sub_courts sc ON c.sub_court_id = sc.id
+      WHERE sc.court_id = ANY(${courtIds}::uuid[]) AND c.date = ${date}::date
+    `;
+  }
+
   /**
    * Get holiday multiplier for a date
    * Returns the multiplier if the date is a holiday, otherwise returns 1.0
+   * When a court is given, its holiday override for the date takes precedence
    */
-  async getHolidayMultiplier(date: string): Promise<number> {
-    const result = await prisma.$queryRaw<{ multiplier: number }[]>`
-      SELECT multiplier FROM holidays WHERE date = ${date}::date
-    `;
-    return result[0]?.multiplier ?? 1.0;
+  async getHolidayMultiplier(date: string, courtId?: string): Promise<number> {
+    const info = await this.getHolidayInfo(date, courtId);
+    return info.multiplier;
   }
 
   /**
    * Check if a date is a holiday
+   * When a court is given, its holiday override for the date takes precedence
    */
-  async isHoliday(date: string): Promise<boolean> {
-    const result = await prisma.$queryRaw<{ count: bigint }[]>`
-      SELECT COUNT(*) as count FROM holidays WHERE date = ${date}::date
+  async isHoliday(date: string, courtId?: string): Promise<boolean> {
+    const info = await this.getHolidayInfo(date, courtId);
+    return info.isHoliday;
+  }
+
+  /**
+   * Resolve the holiday status of a date, applying a court's override if any
+   */
+  async getHolidayInfo(date: string, courtId?: string): Promise<HolidayInfo> {
+    const result = await prisma.$queryRaw<HolidayRow[]>`
+      SELECT h.multiplier as holiday_multiplier,
+             o.is_holiday as override_is_holiday,
+             o.multiplier as override_multiplier
+      FROM (SELECT ${date}::date AS date) d
+      LEFT JOIN holidays h ON h.date = d.date
+      LEFT JOIN court_holiday_overrides o
+        ON o.date = d.date AND o.court_id = ${courtId ?? null}::uuid
     `;
-    return result[0] ? Number(result[0].count) > 0 : false;
+
+    return this.toHolidayInfo(result[0]);
+  }
+
+  /**
+   * Resolve the holiday status of every date between two dates (inclusive), keyed by "YYYY-MM-DD"
+   * Same rules as getHolidayInfo, in a single query
+   */
+  async getHolidayInfoByDateRange(from: string, to: string, courtId?: string): Promise<Map<string, HolidayInfo>> {
+    const result = await prisma.$queryRaw<(HolidayRow & { date: string })[]>`
+      SELECT TO_CHAR(d.date, 'YYYY-MM-DD') as date,
+             h.multiplier as holiday_multiplier,
+             o.is_holiday as override_is_holiday,
+             o.multiplier as override_multiplier
+      FROM generate_series(${from}::date, ${to}::date, interval '1 day') AS d(date)
+      LEFT JOIN holidays h ON h.date = d.date::date
+      LEFT JOIN court_holiday_overrides o
+        ON o.date = d.date::date AND o.court_id = ${courtId ?? null}::uuid
+    `;
+
+    return new Map(result.map(row => [row.date, this.toHolidayInfo(row)]));
+  }
+
+  /**
+   * Resolve the holiday status of a date for several courts, keyed by court ID
+   * Same rules as getHolidayInfo, in a single query
+   */
+  async getHolidayInfoByCourtIds(date: string, courtIds: string[]): Promise<Map<string, HolidayInfo>> {
+    const result = await prisma.$queryRaw<(HolidayRow & { court_id: string })[]>`
+      SELECT c.id as court_id,
+             h.multiplier as holiday_multiplier,
+             o.is_holiday as override_is_holiday,
+             o.multiplier as override_multiplier
+      FROM unnest(${courtIds}::uuid[]) AS c(id)
+      LEFT JOIN holidays h ON h.date = ${date}::date
+      LEFT JOIN court_holiday_overrides o
+        ON o.date = ${date}::date AND o.court_id = c.id
+    `;
+
+    return new Map(result.map(row => [row.court_id, this.toHolidayInfo(row)]));
   }
 
   /**
@@ -145,6 +299,22 @@ export class AvailabilityRepository {
     return result[0] ? Number(result[0].count) > 0 : false;
   }
 
+  /**
+   * Count a user's pending or confirmed bookings at a court that have not ended yet
+   */
+  async countActiveBookingsByUser(userId: string, courtId: string): Promise<number> {
+    const result = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) as count
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      WHERE b.user_id = ${userId}::uuid
+        AND sc.court_id = ${courtId}::uuid
+        AND b.status IN ('pending', 'confirmed')
+        AND (b.date + b.end_time) > (NOW() AT TIME ZONE 'Asia/Ho_Chi_Minh')
+    `;
+    return result[0] ? Number(result[0].count) : 0;
+  }
+
   /**
    * Create a new booking
    */
@@ -153,7 +323,7 @@ export class AvailabilityRepository {
       INSERT INTO bookings (
         sub_court_id, guest_name, guest_phone, guest_email,
         user_id,
-        date, start_time, end_time, total_price, status, notes
+        date, start_time, end_time, total_price, original_price, status, notes
       ) VALUES (
         ${data.subCourtId}::uuid,
         ${data.guestName},
@@ -164,6 +334,7 @@ export class AvailabilityRepository {
         ${data.startTime}::time,
         ${data.endTime}::time,
         ${totalPrice},
+        ${totalPrice},
         'pending',
         ${data.notes ?? null}
       )
@@ -177,6 +348,7 @@ export class AvailabilityRepository {
 
   /**
    * Create multiple bookings in a transaction
+   * Bookings paid with a package are created confirmed, inside the caller's transaction debiting it
    */
   async createBookings(
     bookings: {
@@ -184,6 +356,8 @@ export class AvailabilityRepository {
       date: string;
       startTime: string;
       endTime: string;
+      originalPrice: number;
+      discountAmount: number;
       totalPrice: number;
     }[],
     commonData: {
@@ -193,16 +367,21 @@ export class AvailabilityRepository {
       userId?: string;
       notes?: string;
       groupId: string;
-    }
+      voucherId?: string;
+      userPackageId?: string;
+      status?: 'pending' | 'confirmed';
+    },
+    tx?: Prisma.TransactionClient
   ): Promise<string[]> {
-    return prisma.$transaction(async (tx) => {
+    const run = async (tx: Prisma.TransactionClient): Promise<string[]> => {
       const ids: string[] = [];
       for (const booking of bookings) {
         const result = await tx.$queryRaw<{ id: string }[]>`
           INSERT INTO bookings (
             sub_court_id, guest_name, guest_phone, guest_email,
             user_id,
-            date, start_time, end_time, total_price, status, notes, group_id
+            date, start_time, end_time, total_price, status, notes, group_id,
+            original_price, discount_amount, voucher_id, user_package_id
           ) VALUES (
             ${booking.subCourtId}::uuid,
             ${commonData.guestName},
@@ -213,9 +392,13 @@ export class AvailabilityRepository {
             ${booking.startTime}::time,
             ${booking.endTime}::time,
             ${booking.totalPrice},
-            'pending',
+            ${commonData.status ?? 'pending'},
             ${commonData.notes ?? null},
-            ${commonData.groupId}::uuid
+            ${commonData.groupId}::uuid,
+            ${booking.originalPrice},
+            ${booking.discountAmount},
+            ${commonData.voucherId ?? null}::uuid,
+            ${commonData.userPackageId ?? null}::uuid
           )
           RETURNING id
         `;
@@ -224,19 +407,21 @@ export class AvailabilityRepository {
         }
       }
       return ids;
-    });
+    };
+    return tx ? run(tx) : prisma.$transaction(run);
   }
 
   /**
    * Get bookings by Group ID
    */
-  async getBookingsByGroupId(groupId: string): Promise<RawBooking[]> {
-    return prisma.$queryRaw<RawBooking[]>`
-      SELECT b.id, b.sub_court_id, b.date, 
+  async getBookingsByGroupId(groupId: string): Promise<(RawBooking & { court_id: string })[]> {
+    return prisma.$queryRaw<(RawBooking & { court_id: string })[]>`
+      SELECT b.id, b.sub_court_id, sc.court_id, b.date, 
              TO_CHAR(b.start_time, 'HH24:MI') as start_time,
              TO_CHAR(b.end_time, 'HH24:MI') as end_time,
              b.status, b.total_price
       FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
       WHERE b.group_id = ${groupId}::uuid
     `;
   }
@@ -257,6 +442,10 @@ export class AvailabilityRepository {
     start_time: string;
     end_time: string;
     total_price: number;
+    original_price: number | null;
+    discount_amount: number;
+    voucher_code: string | null;
+    user_package_id: string | null;
     status: string;
     notes: string | null;
     created_at: Date;
@@ -275,6 +464,10 @@ export class AvailabilityRepository {
       start_time: string;
       end_time: string;
       total_price: number;
+      original_price: number | null;
+      discount_amount: number;
+      voucher_code: string | null;
+      user_package_id: string | null;
       status: string;
       notes: string | null;
       created_at: Date;
@@ -286,31 +479,113 @@ export class AvailabilityRepository {
              b.date, 
              TO_CHAR(b.start_time, 'HH24:MI') as start_time,
              TO_CHAR(b.end_time, 'HH24:MI') as end_time,
-             b.total_price, b.status, b.notes, b.created_at,
+             b.total_price, b.original_price, b.discount_amount, v.code as voucher_code,
+             b.user_package_id, b.status, b.notes, b.created_at,
              b.group_id
       FROM bookings b
       JOIN sub_courts sc ON b.sub_court_id = sc.id
       JOIN courts c ON sc.court_id = c.id
+      LEFT JOIN vouchers v ON b.voucher_id = v.id
       WHERE b.id = ${bookingId}::uuid
     `;
     return results[0] ?? null;
   }
 
   /**
-   * Update booking status
+   * Get who a booking belongs to: its user and its court
    */
-  async updateBookingStatus(bookingId: string, status: string): Promise<void> {
-    await prisma.$executeRaw`
-      UPDATE bookings 
-      SET status = ${status}, updated_at = NOW()
+  async getBookingOwnership(bookingId: string): Promise<{
+    user_id: string | null;
+    court_id: string;
+  } | null> {
+    const results = await prisma.$queryRaw<{ user_id: string | null; court_id: string }[]>`
+      SELECT b.user_id, sc.court_id
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      WHERE b.id = ${bookingId}::uuid
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Cancel a booking unless it is already cancelled or completed
+   * The row is locked while it is read, so of two concurrent cancels only one flips it
+   * Returns the status it had before, or null when it was not cancelled
+   */
+  async cancelBooking(bookingId: string): Promise<string | null> {
+    const results = await prisma.$queryRaw<{ status: string }[]>`
+      UPDATE bookings b
+      SET status = 'cancelled', updated_at = NOW()
+      FROM (
+        SELECT id, status FROM bookings WHERE id = ${bookingId}::uuid FOR UPDATE
+      ) previous
+      WHERE b.id = previous.id AND previous.status NOT IN ('cancelled', 'completed')
+      RETURNING previous.status
+    `;
+    return results[0]?.status ?? null;
+  }
+
+  /**
+   * Confirm the bookings that are still pending
+   * Returns how many were confirmed
+   */
+  async confirmPendingBookings(bookingIds: string[], tx?: Prisma.TransactionClient): Promise<number> {
+    const client = tx ?? prisma;
+    return client.$executeRaw`
+      UPDATE bookings
+      SET status = 'confirmed', updated_at = NOW()
+      WHERE id = ANY(${bookingIds}::uuid[]) AND status = 'pending'
+    `;
+  }
+
+  /**
+   * Move a booking to another slot and price it again
+   * Only moves it while it is still in the expected status and no other confirmed booking overlaps the new slot
+   * Returns false when the booking was not moved
+   */
+  async moveBooking(
+    bookingId: string,
+    expectedStatus: string,
+    data: {
+      subCourtId: string;
+      date: string;
+      startTime: string;
+      endTime: string;
+      originalPrice: number;
+      totalPrice: number;
+    },
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const client = tx ?? prisma;
+    const count = await client.$executeRaw`
+      UPDATE bookings
+      SET sub_court_id = ${data.subCourtId}::uuid,
+          date = ${data.date}::date,
+          start_time = ${data.startTime}::time,
+          end_time = ${data.endTime}::time,
+          original_price = ${data.originalPrice},
+          total_price = ${data.totalPrice},
+          updated_at = NOW()
       WHERE id = ${bookingId}::uuid
+        AND status = ${expectedStatus}
+        AND NOT EXISTS (
+          SELECT 1
+          FROM bookings other
+          WHERE other.sub_court_id = ${data.subCourtId}::uuid
+            AND other.date = ${data.date}::date
+            AND other.status = 'confirmed'
+            AND other.id != ${bookingId}::uuid
+            AND other.start_time < ${data.endTime}::time
+            AND other.end_time > ${data.startTime}::time
+        )
     `;
+    return count > 0;
   }
 
   /**
-   * Get bookings by phone number
+   * Get bookings made with any of the given phone numbers
    */
-  async getBookingsByPhone(phone: string): Promise<{
+  async getBookingsByPhone(phones: string[]): Promise<{
     id: string;
     sub_court_name: string;
     court_name: string;
@@ -318,6 +593,10 @@ export class AvailabilityRepository {
     start_time: string;
     end_time: string;
     total_price: number;
+    original_price: number | null;
+    discount_amount: number;
+    voucher_code: string | null;
+    user_package_id: string | null;
     status: string;
   }[]> {
     return prisma.$queryRaw`
@@ -325,14 +604,35 @@ export class AvailabilityRepository {
              b.date,
              TO_CHAR(b.start_time, 'HH24:MI') as start_time,
              TO_CHAR(b.end_time, 'HH24:MI') as end_time,
-             b.total_price, b.status
+             b.total_price, b.original_price, b.discount_amount, v.code as voucher_code,
+             b.user_package_id, b.status
       FROM bookings b
       JOIN sub_courts sc ON b.sub_court_id = sc.id
       JOIN courts c ON sc.court_id = c.id
-      WHERE b.guest_phone = ${phone}
+      LEFT JOIN vouchers v ON b.voucher_id = v.id
+      WHERE b.guest_phone = ANY(${phones})
       ORDER BY b.date DESC, b.start_time DESC
     `;
   }
+
+  /**
+   * Apply the override rules to a holiday row
+   * - No override: the global holidays table decides
+   * - Override with is_holiday = false: regular day (multiplier 1.0)
+   * - Override with is_holiday = true: holiday, using the override multiplier,
+   *   falling back to the global multiplier, then 1.0
+   */
+  private toHolidayInfo(row: HolidayRow | undefined): HolidayInfo {
+    if (!row || row.override_is_holiday === null) {
+      return row?.holiday_multiplier != null
+        ? { isHoliday: true, multiplier: row.holiday_multiplier }
+        : { isHoliday: false, multiplier: 1.0 };
+    }
+    if (!row.override_is_holiday) {
+      return { isHoliday: false, multiplier: 1.0 };
+    }
+    return { isHoliday: true, multiplier: row.override_multiplier ?? row.holiday_multiplier ?? 1.0 };
+  }
 }
 
 export const availabilityRepository = new AvailabilityRepository();
@@ -0,0 +1,142 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import type { BookingChangeStatus, RawBookingChange } from '../types/index.js';
+
+// Select changes from a source (the table or rows just updated) with their sub-court names
+const selectChanges = (source: Prisma.Sql) => Prisma.sql`
+  SELECT bc.id, bc.booking_id, fsc.court_id,
+         bc.from_sub_court_id, fsc.name as from_sub_court_name, bc.from_date,
+         TO_CHAR(bc.from_start_time, 'HH24:MI') as from_start_time,
+         TO_CHAR(bc.from_end_time, 'HH24:MI') as from_end_time,
+         bc.to_sub_court_id, tsc.name as to_sub_court_name, bc.to_date,
+         TO_CHAR(bc.to_start_time, 'HH24:MI') as to_start_time,
+         TO_CHAR(bc.to_end_time, 'HH24:MI') as to_end_time,
+         bc.old_price, bc.new_original_price, bc.new_price,
+         bc.status, bc.changed_by, bc.created_at, bc.updated_at
+  FROM ${source} bc
+  JOIN sub_courts fsc ON bc.from_sub_court_id = fsc.id
+  JOIN sub_courts tsc ON bc.to_sub_court_id = tsc.id
+`;
+
+const SELECT_CHANGE = selectChanges(Prisma.sql`booking_changes`);
+
+export class BookingChangeRepository {
+  /**
+   * Record a booking change
+   * Returns the new change ID
+   */
+  async create(
+    data: {
+      bookingId: string;
+      from: { subCourtId: string; date: string; startTime: string; endTime: string };
+      to: { subCourtId: string; date: string; startTime: string; endTime: string };
+      oldPrice: number;
+      newOriginalPrice: number;
+      newPrice: number;
+      status: BookingChangeStatus;
+      changedBy: string | null;
+    },
+    tx?: Prisma.TransactionClient
+  ): Promise<string> {
+    const client = tx ?? prisma;
+    const result = await client.$queryRaw<{ id: string }[]>`
+      INSERT INTO booking_changes (
+        booking_id,
+        from_sub_court_id, from_date, from_start_time, from_end_time,
+        to_sub_court_id, to_date, to_start_time, to_end_time,
+        old_price, new_original_price, new_price, status, changed_by
+      ) VALUES (
+        ${data.bookingId}::uuid,
+        ${data.from.subCourtId}::uuid,
+        ${data.from.date}::date,
+        ${data.from.startTime}::time,
+        ${data.from.endTime}::time,
+        ${data.to.subCourtId}::uuid,
+        ${data.to.date}::date,
+        ${data.to.startTime}::time,
+        ${data.to.endTime}::time,
+        ${data.oldPrice},
+        ${data.newOriginalPrice},
+        ${data.newPrice},
+        ${data.status},
+        ${data.changedBy}::uuid
+      )
+      RETURNING id
+    `;
+    return result[0]!.id;
+  }
+
+  /**
+   * Find change by ID with sub-court names
+   */
+  async findById(id: string): Promise<RawBookingChange | null> {
+    const results = await prisma.$queryRaw<RawBookingChange[]>`
+      ${SELECT_CHANGE}
+      WHERE bc.id = ${id}::uuid
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Find the change of a booking still waiting for its price difference to be paid
+   */
+  async findPendingByBookingId(bookingId: string): Promise<RawBookingChange | null> {
+    const results = await prisma.$queryRaw<RawBookingChange[]>`
+      ${SELECT_CHANGE}
+      WHERE bc.booking_id = ${bookingId}::uuid AND bc.status = 'pending'
+      ORDER BY bc.created_at DESC
+      LIMIT 1
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Lock a pending change until the transaction ends, so nothing closes it meanwhile
+   * Returns false when it was no longer pending
+   */
+  async lockPending(id: string, tx: Prisma.TransactionClient): Promise<boolean> {
+    const rows = await tx.$queryRaw<{ id: string }[]>`
+      SELECT id
+      FROM booking_changes
+      WHERE id = ${id}::uuid AND status = 'pending'
+      FOR UPDATE
+    `;
+    return rows.length > 0;
+  }
+
+  /**
+   * Move a change out of the pending status
+   * Returns false when it was no longer pending (settled concurrently)
+   */
+  async close(
+    id: string,
+    status: Exclude<BookingChangeStatus, 'pending'>,
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const client = tx ?? prisma;
+    const count = await client.$executeRaw`
+      UPDATE booking_changes
+      SET status = ${status}, updated_at = NOW()
+      WHERE id = ${id}::uuid AND status = 'pending'
+    `;
+    return count > 0;
+  }
+
+  /**
+   * Expire pending changes created before the cutoff
+   * Returns the expired changes
+   */
+  async expirePending(cutoff: Date): Promise<RawBookingChange[]> {
+    return prisma.$queryRaw<RawBookingChange[]>`
+      WITH expired AS (
+        UPDATE booking_changes
+        SET status = 'expired', updated_at = NOW()
+        WHERE status = 'pending' AND created_at < ${cutoff}
+        RETURNING *
+      )
+      ${selectChanges(Prisma.sql`expired`)}
+    `;
+  }
+}
+
+export const bookingChangeRepository = new BookingChangeRepository();
@@ -0,0 +1,178 @@
+import { prisma } from '../config/database.js';
+import type { RawBookingSeries, RawSeriesOccurrence, RawSlotBlock } from '../types/index.js';
+
+export class BookingSeriesRepository {
+  /**
+   * Create a series and its occurrences (bookings grouped by the series ID) in one transaction
+   */
+  async create(
+    series: {
+      subCourtId: string;
+      userId: string | null;
+      guestName: string;
+      guestPhone: string;
+      guestEmail: string | null;
+      daysOfWeek: string[];
+      startTime: string;
+      endTime: string;
+      startDate: string;
+      untilDate: string | null;
+      count: number | null;
+      notes: string | null;
+    },
+    occurrences: { date: string; totalPrice: number }[]
+  ): Promise<string> {
+    const dates = occurrences.map((occurrence) => occurrence.date);
+    const prices = occurrences.map((occurrence) => occurrence.totalPrice);
+
+    return prisma.$transaction(async (tx) => {
+      const result = await tx.$queryRaw<{ id: string }[]>`
+        INSERT INTO booking_series (
+          sub_court_id, user_id, guest_name, guest_phone, guest_email,
+          days_of_week, start_time, end_time, start_date, until_date, count, notes
+        ) VALUES (
+          ${series.subCourtId}::uuid,
+          ${series.userId}::uuid,
+          ${series.guestName},
+          ${series.guestPhone},
+          ${series.guestEmail},
+          ${series.daysOfWeek}::varchar[],
+          ${series.startTime}::time,
+          ${series.endTime}::time,
+          ${series.startDate}::date,
+          ${series.untilDate}::date,
+          ${series.count}::int,
+          ${series.notes}
+        )
+        RETURNING id
+      `;
+      const seriesId = result[0]!.id;
+
+      await tx.$executeRaw`
+        INSERT INTO bookings (
+          sub_court_id, guest_name, guest_phone, guest_email, user_id,
+          date, start_time, end_time, total_price, original_price, status, notes, group_id
+        )
+        SELECT ${series.subCourtId}::uuid, ${series.guestName}, ${series.guestPhone},
+               ${series.guestEmail}, ${series.userId}::uuid,
+               t.date, ${series.startTime}::time, ${series.endTime}::time, t.total_price, t.total_price,
+               'pending', ${series.notes}, ${seriesId}::uuid
+        FROM unnest(${dates}::date[], ${prices}::int[]) AS t(date, total_price)
+      `;
+
+      return seriesId;
+    });
+  }
+
+  /**
+   * Find series by ID with sub-court and court info
+   */
+  async findById(id: string): Promise<RawBookingSeries | null> {
+    const results = await prisma.$queryRaw<RawBookingSeries[]>`
+      SELECT s.id, s.sub_court_id, sc.name as sub_court_name,
+             sc.court_id, c.name as court_name, s.user_id,
+             s.guest_name, s.guest_phone, s.guest_email, s.days_of_week,
+             TO_CHAR(s.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(s.end_time, 'HH24:MI') as end_time,
+             s.start_date, s.until_date, s.count, s.status, s.notes, s.created_at
+      FROM booking_series s
+      JOIN sub_courts sc ON s.sub_court_id = sc.id
+      JOIN courts c ON sc.court_id = c.id
+      WHERE s.id = ${id}::uuid
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Get the occurrences (bookings) of a series in date order
+   */
+  async findOccurrences(seriesId: string): Promise<RawSeriesOccurrence[]> {
+    return prisma.$queryRaw<RawSeriesOccurrence[]>`
+      SELECT b.id, b.sub_court_id, sc.name as sub_court_name, b.date,
+             TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(b.end_time, 'HH24:MI') as end_time,
+             b.total_price, b.status
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      WHERE b.group_id = ${seriesId}::uuid
+      ORDER BY b.date, b.start_time
+    `;
+  }
+
+  /**
+   * Get confirmed bookings and closures of a sub-court within a date range
+   * Used to find occurrences that cannot be booked
+   */
+  async findSlotBlocks(subCourtId: string, from: string, to: string): Promise<RawSlotBlock[]> {
+    return prisma.$queryRaw<RawSlotBlock[]>`
+      SELECT b.id, 'booking' as kind, b.date,
+             TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(b.end_time, 'HH24:MI') as end_time
+      FROM bookings b
+      WHERE b.sub_court_id = ${subCourtId}::uuid
+        AND b.date BETWEEN ${from}::date AND ${to}::date
+        AND b.status = 'confirmed'
+      UNION ALL
+      SELECT c.id, 'closure' as kind, c.date,
+             TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(c.end_time, 'HH24:MI') as end_time
+      FROM sub_court_closures c
+      WHERE c.sub_court_id = ${subCourtId}::uuid
+        AND c.date BETWEEN ${from}::date AND ${to}::date
+    `;
+  }
+
+  /**
+   * Move an occurrence to another sub-court, date or time
+   */
+  async moveOccurrence(
+    bookingId: string,
+    data: { subCourtId: string; date: string; startTime: string; endTime: string; totalPrice: number }
+  ): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE bookings
+      SET sub_court_id = ${data.subCourtId}::uuid,
+          date = ${data.date}::date,
+          start_time = ${data.startTime}::time,
+          end_time = ${data.endTime}::time,
+          total_price = ${data.totalPrice},
+          original_price = ${data.totalPrice},
+          updated_at = NOW()
+      WHERE id = ${bookingId}::uuid
+    `;
+  }
+
+  /**
+   * Update series end date and status
+   */
+  async update(id: string, data: { untilDate: string | null; status: string }): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE booking_series
+      SET until_date = ${data.untilDate}::date,
+          status = ${data.status},
+          updated_at = NOW()
+      WHERE id = ${id}::uuid
+    `;
+  }
+
+  /**
+   * Cancel active series left without a pending or confirmed occurrence
+   */
+  async cancelWithoutActiveOccurrences(seriesIds: string[]): Promise<number> {
+    if (seriesIds.length === 0) {
+      return 0;
+    }
+    return prisma.$executeRaw`
+      UPDATE booking_series s
+      SET status = 'cancelled', updated_at = NOW()
+      WHERE s.id = ANY(${seriesIds}::uuid[])
+        AND s.status = 'active'
+        AND NOT EXISTS (
+          SELECT 1 FROM bookings b
+          WHERE b.group_id = s.id AND b.status IN ('pending', 'confirmed')
+        )
+    `;
+  }
+}
+
+export const bookingSeriesRepository = new BookingSeriesRepository();
@@ -0,0 +1,131 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import type { RawClosure, RawClosureDetail, RawBookingConflict } from '../types/index.js';
+
+export class ClosureRepository {
+  /**
+   * Get closures of a court's sub-courts, optionally within a date range
+   */
+  async findByCourtId(courtId: string, from?: string, to?: string): Promise<RawClosureDetail[]> {
+    const fromClause = from ? Prisma.sql`AND c.date >= ${from}::date` : Prisma.empty;
+    const toClause = to ? Prisma.sql`AND c.date <= ${to}::date` : Prisma.empty;
+
+    return prisma.$queryRaw<RawClosureDetail[]>`
+      SELECT c.id, c.sub_court_id, sc.name as sub_court_name, c.date,
+             TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(c.end_time, 'HH24:MI') as end_time,
+             c.reason, c.series_id, c.created_at
+      FROM sub_court_closures c
+      JOIN sub_courts sc ON c.sub_court_id = sc.id
+      WHERE sc.court_id = ${courtId}::uuid
+        ${fromClause}
+        ${toClause}
+      ORDER BY c.date, c.start_time NULLS FIRST, sc.display_order
+    `;
+  }
+
+  /**
+   * Get all closures of a series
+   */
+  async findBySeriesId(seriesId: string): Promise<RawClosureDetail[]> {
+    return prisma.$queryRaw<RawClosureDetail[]>`
+      SELECT c.id, c.sub_court_id, sc.name as sub_court_name, c.date,
+             TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(c.end_time, 'HH24:MI') as end_time,
+             c.reason, c.series_id, c.created_at
+      FROM sub_court_closures c
+      JOIN sub_courts sc ON c.sub_court_id = sc.id
+      WHERE c.series_id = ${seriesId}::uuid
+      ORDER BY c.date, sc.display_order
+    `;
+  }
+
+  /**
+   * Find closure by ID with the court it belongs to
+   */
+  async findById(id: string): Promise<(RawClosureDetail & { court_id: string }) | null> {
+    const results = await prisma.$queryRaw<(RawClosureDetail & { court_id: string })[]>`
+      SELECT c.id, c.sub_court_id, sc.name as sub_court_name, sc.court_id, c.date,
+             TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(c.end_time, 'HH24:MI') as end_time,
+             c.reason, c.series_id, c.created_at
+      FROM sub_court_closures c
+      JOIN sub_courts sc ON c.sub_court_id = sc.id
+      WHERE c.id = ${id}::uuid
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Create one closure per (sub-court, date) pair in a single statement
+   */
+  async createMany(
+    rows: { subCourtId: string; date: string }[],
+    common: {
+      startTime: string | null;
+      endTime: string | null;
+      reason: string | null;
+      seriesId: string;
+    }
+  ): Promise<number> {
+    const subCourtIds = rows.map((row) => row.subCourtId);
+    const dates = rows.map((row) => row.date);
+
+    return prisma.$executeRaw`
+      INSERT INTO sub_court_closures (sub_court_id, date, start_time, end_time, reason, series_id)
+      SELECT t.sub_court_id, t.date,
+             ${common.startTime}::time, ${common.endTime}::time,
+             ${common.reason}, ${common.seriesId}::uuid
+      FROM unnest(${subCourtIds}::uuid[], ${dates}::date[]) AS t(sub_court_id, date)
+    `;
+  }
+
+  /**
+   * Delete a single closure
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.$executeRaw`DELETE FROM sub_court_closures WHERE id = ${id}::uuid`;
+  }
+
+  /**
+   * Delete every closure of a series belonging to a court
+   * Returns the closures removed
+   */
+  async deleteSeries(courtId: string, seriesId: string): Promise<RawClosure[]> {
+    return prisma.$queryRaw<RawClosure[]>`
+      DELETE FROM sub_court_closures c
+      USING sub_courts sc
+      WHERE c.sub_court_id = sc.id
+        AND sc.court_id = ${courtId}::uuid
+        AND c.series_id = ${seriesId}::uuid
+      RETURNING c.id, c.sub_court_id, c.date,
+                TO_CHAR(c.start_time, 'HH24:MI') as start_time,
+                TO_CHAR(c.end_time, 'HH24:MI') as end_time,
+                c.reason
+    `;
+  }
+
+  /**
+   * Get pending/confirmed bookings that fall inside any closure of a series
+   */
+  async findBookingConflictsBySeries(seriesId: string): Promise<RawBookingConflict[]> {
+    return prisma.$queryRaw<RawBookingConflict[]>`
+      SELECT DISTINCT b.id, b.sub_court_id, sc.name as sub_court_name, b.date,
+             TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(b.end_time, 'HH24:MI') as end_time,
+             b.status, b.guest_name, b.guest_phone
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      JOIN sub_court_closures c ON c.sub_court_id = b.sub_court_id AND c.date = b.date
+      WHERE c.series_id = ${seriesId}::uuid
+        AND b.status IN ('pending', 'confirmed')
+        AND (
+          c.start_time IS NULL
+          OR (b.start_time < c.end_time AND b.end_time > c.start_time)
+        )
+      ORDER BY b.date, start_time
+    `;
+  }
+}
+
+export const closureRepository = new ClosureRepository();
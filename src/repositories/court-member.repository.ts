@@ -0,0 +1,92 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { CourtMemberRole } from '../types/index.js';
+
+export class CourtMemberRepository {
+  /**
+   * Find a user's membership on a court
+   */
+  async findByCourtAndUser(courtId: string, userId: string) {
+    return prisma.courtMember.findUnique({
+      where: { courtId_userId: { courtId, userId } },
+    });
+  }
+
+  /**
+   * List all members of a court with basic user info
+   */
+  async findByCourtId(courtId: string) {
+    return prisma.courtMember.findMany({
+      where: { courtId },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        user: {
+          select: {
+            email: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            role: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Get IDs of all courts a user manages
+   */
+  async findCourtIdsByUserId(userId: string, roles?: CourtMemberRole[]): Promise<string[]> {
+    const memberships = await prisma.courtMember.findMany({
+      where: {
+        userId,
+        ...(roles && { role: { in: roles } }),
+      },
+      select: { courtId: true },
+    });
+    return memberships.map((m) => m.courtId);
+  }
+
+  /**
+   * Add a member to a court or change their role if already a member
+   */
+  async upsert(courtId: string, userId: string, role: CourtMemberRole, tx?: Prisma.TransactionClient) {
+    const client = tx || prisma;
+    return client.courtMember.upsert({
+      where: { courtId_userId: { courtId, userId } },
+      create: { courtId, userId, role },
+      update: { role },
+      include: {
+        user: {
+          select: {
+            email: true,
+            username: true,
+            firstName: true,
+            lastName: true,
+            role: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Remove a member from a court
+   */
+  async delete(courtId: string, userId: string) {
+    return prisma.courtMember.delete({
+      where: { courtId_userId: { courtId, userId } },
+    });
+  }
+
+  /**
+   * Count owners of a court (used to prevent removing the last owner)
+   */
+  async countOwners(courtId: string): Promise<number> {
+    return prisma.courtMember.count({
+      where: { courtId, role: 'owner' },
+    });
+  }
+}
+
+export const courtMemberRepository = new CourtMemberRepository();
@@ -1,6 +1,15 @@
 import { prisma } from '../config/database.js';
-import type { Prisma } from '@prisma/client';
-import type { CreateCourtDto, UpdateCourtDto, CourtQueryParams, CourtLocation } from '../types/index.js';
+import { Prisma } from '@prisma/client';
+import type {
+  CreateCourtDto,
+  UpdateCourtDto,
+  CourtQueryParams,
+  CourtLocation,
+  CancellationPolicy,
+  BookingPolicy,
+  DynamicPricing,
+  NearbyCourtResult,
+} from '../types/index.js';
 
 export class CourtRepository {
   async findAll(params: CourtQueryParams) {
@@ -22,16 +31,22 @@ export class CourtRepository {
     return { courts, total, page, limit };
   }
 
-  async findById(id: string) {
-    return prisma.court.findUnique({ where: { id } });
+  async findById(id: string, tx?: Prisma.TransactionClient) {
+    const client = tx || prisma;
+    return client.court.findUnique({ where: { id } });
   }
 
-  async create(data: CreateCourtDto) {
+  async findByIds(ids: string[]) {
+    return prisma.court.findMany({ where: { id: { in: ids } } });
+  }
+
+  async create(data: CreateCourtDto, tx?: Prisma.TransactionClient) {
+    const client = tx || prisma;
     const { location, ...rest } = data;
 
     if (location) {
       // Use raw query for PostGIS geography type
-      const result = await prisma.$queryRaw<{ id: string }[]>`
+      const result = await client.$queryRaw<{ id: string }[]>`
         INSERT INTO courts (name, description, phone_numbers, address_street, address_ward, address_district, address_city, details, opening_hours, location)
         VALUES (
           ${rest.name},
@@ -47,10 +62,10 @@ export class CourtRepository {
         )
         RETURNING id
       `;
-      return this.findById(result[0]!.id);
+      return this.findById(result[0]!.id, tx);
     }
 
-    return prisma.court.create({
+    return client.court.create({
       data: {
         name: rest.name,
         description: rest.description,
@@ -91,10 +106,46 @@ export class CourtRepository {
     return prisma.court.delete({ where: { id } });
   }
 
+  /**
+   * Set a court's cancellation policy (null = use the platform default)
+   */
+  async updateCancellationPolicy(id: string, policy: CancellationPolicy | null) {
+    return prisma.court.update({
+      where: { id },
+      data: {
+        cancellationPolicy: policy ? (policy as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      },
+    });
+  }
+
+  /**
+   * Set a court's booking policy (null = use the platform default)
+   */
+  async updateBookingPolicy(id: string, policy: BookingPolicy | null) {
+    return prisma.court.update({
+      where: { id },
+      data: {
+        bookingPolicy: policy ? (policy as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      },
+    });
+  }
+
+  /**
+   * Set a court's dynamic pricing (null = static pricing only)
+   */
+  async updateDynamicPricing(id: string, pricing: DynamicPricing | null) {
+    return prisma.court.update({
+      where: { id },
+      data: {
+        dynamicPricing: pricing ? (pricing as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+      },
+    });
+  }
+
   async findNearby(location: CourtLocation, radiusKm: number = 5) {
     const radiusMeters = radiusKm * 1000;
 
-    return prisma.$queryRaw`
+    return prisma.$queryRaw<NearbyCourtResult[]>`
       SELECT id, name, description, phone_numbers, address_street, address_ward, address_district, address_city, details, opening_hours,
              ST_Distance(location, ST_SetSRID(ST_MakePoint(${location.longitude}, ${location.latitude}), 4326)::geography) as distance
       FROM courts
@@ -0,0 +1,135 @@
+import { prisma } from '../config/database.js';
+import type { HolidayEntry, CourtHolidayOverrideDto } from '../types/index.js';
+
+export class HolidayRepository {
+  /**
+   * Get holidays, optionally limited to a year
+   */
+  async findAll(year?: number) {
+    return prisma.holiday.findMany({
+      where: year
+        ? { date: { gte: new Date(`${year}-01-01`), lt: new Date(`${year + 1}-01-01`) } }
+        : undefined,
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  /**
+   * Find holiday by ID
+   */
+  async findById(id: string) {
+    return prisma.holiday.findUnique({ where: { id } });
+  }
+
+  /**
+   * Find holiday by date
+   */
+  async findByDate(date: string) {
+    return prisma.holiday.findUnique({ where: { date: new Date(date) } });
+  }
+
+  /**
+   * Get holidays on any of the given dates
+   */
+  async findByDates(dates: string[]) {
+    return prisma.holiday.findMany({
+      where: { date: { in: dates.map((date) => new Date(date)) } },
+    });
+  }
+
+  /**
+   * Create a holiday
+   */
+  async create(data: { date: string; name: string | null; multiplier: number }) {
+    return prisma.holiday.create({
+      data: {
+        date: new Date(data.date),
+        name: data.name,
+        multiplier: data.multiplier,
+      },
+    });
+  }
+
+  /**
+   * Update a holiday
+   */
+  async update(id: string, data: { date?: string; name?: string | null; multiplier?: number }) {
+    return prisma.holiday.update({
+      where: { id },
+      data: {
+        ...(data.date !== undefined && { date: new Date(data.date) }),
+        ...(data.name !== undefined && { name: data.name }),
+        ...(data.multiplier !== undefined && { multiplier: data.multiplier }),
+      },
+    });
+  }
+
+  /**
+   * Delete a holiday
+   */
+  async delete(id: string) {
+    return prisma.holiday.delete({ where: { id } });
+  }
+
+  /**
+   * Save generated holidays in one transaction
+   * New dates are created; dates in `overwrite` get their name and multiplier replaced
+   */
+  async saveGenerated(create: HolidayEntry[], overwrite: HolidayEntry[]): Promise<void> {
+    await prisma.$transaction([
+      prisma.holiday.createMany({
+        data: create.map((holiday) => ({
+          date: new Date(holiday.date),
+          name: holiday.name,
+          multiplier: holiday.multiplier,
+        })),
+        skipDuplicates: true,
+      }),
+      ...overwrite.map((holiday) =>
+        prisma.holiday.update({
+          where: { date: new Date(holiday.date) },
+          data: { name: holiday.name, multiplier: holiday.multiplier },
+        })
+      ),
+    ]);
+  }
+
+  // ==================== Court Overrides ====================
+
+  /**
+   * Get a court's holiday overrides, optionally limited to a year
+   */
+  async findOverridesByCourtId(courtId: string, year?: number) {
+    return prisma.courtHolidayOverride.findMany({
+      where: {
+        courtId,
+        ...(year && { date: { gte: new Date(`${year}-01-01`), lt: new Date(`${year + 1}-01-01`) } }),
+      },
+      orderBy: { date: 'asc' },
+    });
+  }
+
+  /**
+   * Create or replace a court's override for a date
+   */
+  async upsertOverride(courtId: string, date: string, data: Required<CourtHolidayOverrideDto>) {
+    return prisma.courtHolidayOverride.upsert({
+      where: { courtId_date: { courtId, date: new Date(date) } },
+      create: { courtId, date: new Date(date), ...data },
+      update: data,
+    });
+  }
+
+  /**
+   * Delete a court's override for a date
+   * Returns the number of overrides removed
+   */
+  async deleteOverride(courtId: string, date: string): Promise<number> {
+    const result = await prisma.courtHolidayOverride.deleteMany({
+      where: { courtId, date: new Date(date) },
+    });
+    return result.count;
+  }
+}
+
+export const holidayRepository = new HolidayRepository();
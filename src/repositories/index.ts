@@ -4,3 +4,20 @@ export * from './payment.repository.js';
 export * from './search.repository.js';
 export * from './user.repository.js';
 
+export * from './court-member.repository.js';
+export * from './sub-court.repository.js';
+export * from './pricing-rule.repository.js';
+export * from './closure.repository.js';
+export * from './holiday.repository.js';
+export * from './refund.repository.js';
+export * from './split-payment.repository.js';
+export * from './booking-series.repository.js';
+export * from './waitlist.repository.js';
+export * from './review.repository.js';
+export * from './open-game.repository.js';
+export * from './voucher.repository.js';
+export * from './package.repository.js';
+export * from './booking-change.repository.js';
+export * from './webhook.repository.js';
+export * from './notification.repository.js';
+export * from './push.repository.js';
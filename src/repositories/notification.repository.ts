@@ -0,0 +1,69 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { NotificationType } from '../types/index.js';
+
+export class NotificationRepository {
+  /**
+   * Add a notification to a user's outbox
+   * Pass the transaction that made the change it reports, so both commit or neither does
+   */
+  async create(
+    data: { userId: string; type: NotificationType; payload: Prisma.InputJsonValue },
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx || prisma;
+    return client.notification.create({ data });
+  }
+
+  /**
+   * Get a user's notifications after a seq, oldest first
+   */
+  async findSince(userId: string, since: number, limit: number) {
+    return prisma.notification.findMany({
+      where: { userId, seq: { gt: since } },
+      orderBy: { seq: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Get a user's notification by its seq
+   */
+  async findBySeq(userId: string, seq: number) {
+    return prisma.notification.findFirst({ where: { userId, seq } });
+  }
+
+  /**
+   * Get the seqs of a user's notifications before a seq created since a time, newest first
+   */
+  async findSeqsCreatedSince(userId: string, params: { before: number; createdSince: Date; limit: number }) {
+    const notifications = await prisma.notification.findMany({
+      where: { userId, seq: { lt: params.before }, createdAt: { gte: params.createdSince } },
+      select: { seq: true },
+      orderBy: { seq: 'desc' },
+      take: params.limit,
+    });
+    return notifications.map((notification) => notification.seq);
+  }
+
+  /**
+   * Get a user's latest notifications, newest first
+   */
+  async findRecent(userId: string, params: { since?: number; limit: number }) {
+    return prisma.notification.findMany({
+      where: { userId, ...(params.since !== undefined && { seq: { gt: params.since } }) },
+      orderBy: { seq: 'desc' },
+      take: params.limit,
+    });
+  }
+
+  /**
+   * Delete notifications created before a date
+   */
+  async deleteOlderThan(before: Date): Promise<number> {
+    const result = await prisma.notification.deleteMany({ where: { createdAt: { lt: before } } });
+    return result.count;
+  }
+}
+
+export const notificationRepository = new NotificationRepository();
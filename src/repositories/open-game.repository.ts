@@ -0,0 +1,178 @@
+import { prisma } from '../config/database.js';
+import type { OpenGamePlayerStatus } from '../types/index.js';
+
+// Booking, court and host shown with a game, plus its accepted player count
+const GAME_INCLUDE = {
+  booking: {
+    select: {
+      date: true,
+      startTime: true,
+      endTime: true,
+      status: true,
+      subCourt: {
+        select: {
+          id: true,
+          name: true,
+          court: { select: { id: true, name: true, addressDistrict: true } },
+        },
+      },
+    },
+  },
+  host: { select: { firstName: true, lastName: true, username: true } },
+  _count: { select: { players: { where: { status: 'accepted' } } } },
+} as const;
+
+const PLAYER_INCLUDE = {
+  user: { select: { firstName: true, lastName: true, username: true, photoUrl: true } },
+} as const;
+
+export class OpenGameRepository {
+  /**
+   * Get the booking a game would be opened on, with its court
+   */
+  async findBooking(bookingId: string) {
+    return prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        date: true,
+        totalPrice: true,
+      },
+    });
+  }
+
+  /**
+   * Create an open game
+   */
+  async create(data: {
+    bookingId: string;
+    hostUserId: string;
+    skillMin: number;
+    skillMax: number;
+    spots: number;
+    costPerPlayer: number;
+    notes: string | null;
+  }) {
+    return prisma.openGame.create({ data, include: GAME_INCLUDE });
+  }
+
+  /**
+   * Find game by ID
+   */
+  async findById(id: string) {
+    return prisma.openGame.findUnique({ where: { id }, include: GAME_INCLUDE });
+  }
+
+  /**
+   * Find the game of a booking
+   */
+  async findByBookingId(bookingId: string) {
+    return prisma.openGame.findUnique({ where: { bookingId } });
+  }
+
+  /**
+   * Get open games on confirmed bookings at the given courts, soonest first
+   */
+  async findOpenByCourtIds(
+    courtIds: string[],
+    filters: { fromDate: Date; date?: Date; skillLevel?: number },
+    limit: number = 50
+  ) {
+    return prisma.openGame.findMany({
+      where: {
+        status: 'open',
+        ...(filters.skillLevel !== undefined && {
+          skillMin: { lte: filters.skillLevel },
+          skillMax: { gte: filters.skillLevel },
+        }),
+        booking: {
+          status: 'confirmed',
+          date: filters.date ?? { gte: filters.fromDate },
+          subCourt: { courtId: { in: courtIds } },
+        },
+      },
+      include: GAME_INCLUDE,
+      orderBy: [{ booking: { date: 'asc' } }, { booking: { startTime: 'asc' } }],
+      take: limit,
+    });
+  }
+
+  /**
+   * Update a game
+   */
+  async update(
+    id: string,
+    data: {
+      skillMin?: number;
+      skillMax?: number;
+      spots?: number;
+      costPerPlayer?: number;
+      notes?: string | null;
+      status?: string;
+    }
+  ) {
+    return prisma.openGame.update({ where: { id }, data, include: GAME_INCLUDE });
+  }
+
+  /**
+   * Find a player's request for a game
+   */
+  async findPlayer(openGameId: string, userId: string) {
+    return prisma.openGamePlayer.findUnique({
+      where: { openGameId_userId: { openGameId, userId } },
+      include: PLAYER_INCLUDE,
+    });
+  }
+
+  /**
+   * Find join request by ID
+   */
+  async findPlayerById(id: string) {
+    return prisma.openGamePlayer.findUnique({ where: { id }, include: PLAYER_INCLUDE });
+  }
+
+  /**
+   * Get a game's join requests, oldest first
+   */
+  async findPlayers(openGameId: string) {
+    return prisma.openGamePlayer.findMany({
+      where: { openGameId },
+      include: PLAYER_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Request to join a game (again, after withdrawing)
+   */
+  async upsertRequest(
+    openGameId: string,
+    userId: string,
+    data: { skillLevel: number | null; message: string | null }
+  ) {
+    return prisma.openGamePlayer.upsert({
+      where: { openGameId_userId: { openGameId, userId } },
+      create: { openGameId, userId, ...data },
+      update: { ...data, status: 'requested' },
+      include: PLAYER_INCLUDE,
+    });
+  }
+
+  /**
+   * Set a join request's status
+   */
+  async updatePlayerStatus(id: string, status: OpenGamePlayerStatus) {
+    return prisma.openGamePlayer.update({ where: { id }, data: { status }, include: PLAYER_INCLUDE });
+  }
+
+  /**
+   * Count accepted players of a game
+   */
+  async countAccepted(openGameId: string): Promise<number> {
+    return prisma.openGamePlayer.count({ where: { openGameId, status: 'accepted' } });
+  }
+}
+
+export const openGameRepository = new OpenGameRepository();
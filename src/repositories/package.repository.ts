@@ -0,0 +1,295 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { CreatePackagePlanDto, PackageSource } from '../types/index.js';
+
+const PACKAGE_INCLUDE = {
+  court: { select: { name: true } },
+} satisfies Prisma.UserPackageInclude;
+
+export class PackageRepository {
+  // ==================== Plans ====================
+
+  /**
+   * Get the plans a court sells, cheapest first
+   */
+  async findPlansByCourtId(courtId: string, activeOnly: boolean) {
+    return prisma.packagePlan.findMany({
+      where: { courtId, ...(activeOnly && { isActive: true }) },
+      orderBy: { price: 'asc' },
+    });
+  }
+
+  /**
+   * Find plan by ID
+   */
+  async findPlanById(id: string) {
+    return prisma.packagePlan.findUnique({ where: { id } });
+  }
+
+  /**
+   * Create a plan
+   */
+  async createPlan(courtId: string, data: Required<CreatePackagePlanDto>) {
+    return prisma.packagePlan.create({ data: { courtId, ...data } });
+  }
+
+  /**
+   * Update a plan (packages already sold keep their minutes and validity)
+   */
+  async updatePlan(id: string, data: Partial<CreatePackagePlanDto>) {
+    return prisma.packagePlan.update({ where: { id }, data });
+  }
+
+  // ==================== Packages ====================
+
+  /**
+   * Create a pending package
+   */
+  async create(
+    data: {
+      userId: string;
+      courtId: string;
+      planId: string;
+      name: string;
+      totalMinutes: number;
+      validityDays: number;
+      price: number;
+      source: PackageSource;
+    },
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx || prisma;
+    return client.userPackage.create({
+      data: {
+        ...data,
+        remainingMinutes: data.totalMinutes,
+        status: 'pending',
+      },
+      include: PACKAGE_INCLUDE,
+    });
+  }
+
+  /**
+   * Find package by ID
+   */
+  async findById(id: string) {
+    return prisma.userPackage.findUnique({ where: { id }, include: PACKAGE_INCLUDE });
+  }
+
+  /**
+   * Find package by the app_trans_id of its ZaloPay order
+   */
+  async findByAppTransId(appTransId: string) {
+    return prisma.userPackage.findUnique({ where: { appTransId }, include: PACKAGE_INCLUDE });
+  }
+
+  /**
+   * Get a user's packages (newest first), leaving out purchases that were never paid
+   */
+  async findByUserId(userId: string) {
+    return prisma.userPackage.findMany({
+      where: { userId, status: { not: 'cancelled' } },
+      include: PACKAGE_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Store the ZaloPay order of a pending package
+   */
+  async setOrder(
+    id: string,
+    data: { appTransId: string; orderUrl: string | null; zpTransToken: string | null },
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx || prisma;
+    return client.userPackage.update({ where: { id }, data, include: PACKAGE_INCLUDE });
+  }
+
+  /**
+   * Activate a package and record its minutes in the balance history
+   * A purchase cancelled for taking too long is still activated when its payment arrives
+   * Returns false when the package was already active (settled concurrently)
+   */
+  async activate(
+    id: string,
+    data: { expiresAt: Date; zpTransId?: string },
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const run = async (client: Prisma.TransactionClient): Promise<boolean> => {
+      const now = new Date();
+      const result = await client.userPackage.updateMany({
+        where: { id, status: { in: ['pending', 'cancelled'] } },
+        data: {
+          status: 'active',
+          activatedAt: now,
+          expiresAt: data.expiresAt,
+          ...(data.zpTransId && { zpTransId: data.zpTransId }),
+          updatedAt: now,
+        },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+
+      const userPackage = await client.userPackage.findUniqueOrThrow({ where: { id } });
+      await client.packageTransaction.create({
+        data: {
+          userPackageId: id,
+          type: 'purchase',
+          minutes: userPackage.totalMinutes,
+          balanceAfter: userPackage.remainingMinutes,
+        },
+      });
+      return true;
+    };
+    return tx ? run(tx) : prisma.$transaction(run);
+  }
+
+  /**
+   * Cancel a package whose purchase was not paid
+   */
+  async cancelPending(id: string): Promise<boolean> {
+    const result = await prisma.userPackage.updateMany({
+      where: { id, status: 'pending' },
+      data: { status: 'cancelled', updatedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Cancel purchases still pending since before the cutoff
+   */
+  async cancelStalePending(cutoff: Date): Promise<number> {
+    const result = await prisma.userPackage.updateMany({
+      where: { status: 'pending', createdAt: { lt: cutoff } },
+      data: { status: 'cancelled', updatedAt: new Date() },
+    });
+    return result.count;
+  }
+
+  /**
+   * Debit the minutes of newly created bookings from an active package
+   * The balance is checked in the same UPDATE, so concurrent bookings cannot overdraw it
+   * Returns false when the package is no longer active or lacks the minutes
+   */
+  async debit(
+    id: string,
+    bookings: { bookingId: string; minutes: number; note: string }[],
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const run = async (client: Prisma.TransactionClient): Promise<boolean> => {
+      const now = new Date();
+      const total = bookings.reduce((sum, booking) => sum + booking.minutes, 0);
+      const result = await client.userPackage.updateMany({
+        where: { id, status: 'active', expiresAt: { gt: now }, remainingMinutes: { gte: total } },
+        data: { remainingMinutes: { decrement: total }, updatedAt: now },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+
+      const userPackage = await client.userPackage.findUniqueOrThrow({ where: { id } });
+      let balance = userPackage.remainingMinutes + total;
+      for (const booking of bookings) {
+        balance -= booking.minutes;
+        await client.packageTransaction.create({
+          data: {
+            userPackageId: id,
+            bookingId: booking.bookingId,
+            type: 'debit',
+            minutes: -booking.minutes,
+            balanceAfter: balance,
+            note: booking.note,
+          },
+        });
+      }
+      return true;
+    };
+    return tx ? run(tx) : prisma.$transaction(run);
+  }
+
+  /**
+   * Credit minutes of a cancelled booking back to a package that is still usable
+   * Returns false when the package has expired (the minutes are forfeited with it)
+   */
+  async credit(id: string, data: { bookingId: string; minutes: number; note: string }): Promise<boolean> {
+    return prisma.$transaction(async (tx) => {
+      const now = new Date();
+      const result = await tx.userPackage.updateMany({
+        where: { id, status: 'active', expiresAt: { gt: now } },
+        data: { remainingMinutes: { increment: data.minutes }, updatedAt: now },
+      });
+      if (result.count === 0) {
+        return false;
+      }
+
+      const userPackage = await tx.userPackage.findUniqueOrThrow({ where: { id } });
+      await tx.packageTransaction.create({
+        data: {
+          userPackageId: id,
+          bookingId: data.bookingId,
+          type: 'credit',
+          minutes: data.minutes,
+          balanceAfter: userPackage.remainingMinutes,
+          note: data.note,
+        },
+      });
+      return true;
+    });
+  }
+
+  /**
+   * Expire active packages past their expiry, forfeiting what is left of them
+   * Returns the number of packages expired
+   */
+  async expireDue(now: Date): Promise<number> {
+    const due = await prisma.userPackage.findMany({
+      where: { status: 'active', expiresAt: { lte: now } },
+      select: { id: true },
+    });
+
+    let expired = 0;
+    for (const { id } of due) {
+      const done = await prisma.$transaction(async (tx) => {
+        const userPackage = await tx.userPackage.findUnique({ where: { id } });
+        if (!userPackage || userPackage.status !== 'active') {
+          return false;
+        }
+        // Only expire the balance that was read; a package credited meanwhile is retried on the next run
+        const result = await tx.userPackage.updateMany({
+          where: { id, status: 'active', remainingMinutes: userPackage.remainingMinutes },
+          data: { status: 'expired', remainingMinutes: 0, updatedAt: now },
+        });
+        if (result.count === 0) {
+          return false;
+        }
+        await tx.packageTransaction.create({
+          data: {
+            userPackageId: id,
+            type: 'expire',
+            minutes: -userPackage.remainingMinutes,
+            balanceAfter: 0,
+          },
+        });
+        return true;
+      });
+      if (done) {
+        expired++;
+      }
+    }
+    return expired;
+  }
+
+  /**
+   * Get the balance history of a package, newest first
+   */
+  async findTransactions(userPackageId: string) {
+    return prisma.packageTransaction.findMany({
+      where: { userPackageId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+}
+
+export const packageRepository = new PackageRepository();
@@ -12,6 +12,10 @@ export class PaymentRepository {
       appTransId: string;
       amount: number;
       orderUrl?: string;
+      zpTransToken?: string | null;
+      splitPaymentId?: string;
+      shareNumber?: number;
+      bookingChangeId?: string;
     },
     tx?: Prisma.TransactionClient
   ) {
@@ -22,6 +26,10 @@ export class PaymentRepository {
         appTransId: data.appTransId,
         amount: data.amount,
         orderUrl: data.orderUrl,
+        zpTransToken: data.zpTransToken,
+        splitPaymentId: data.splitPaymentId,
+        shareNumber: data.shareNumber,
+        bookingChangeId: data.bookingChangeId,
         status: 'pending',
       },
     });
@@ -47,6 +55,13 @@ export class PaymentRepository {
     });
   }
 
+  /**
+   * Lock a payment until the transaction ends, so its refunds are capped one at a time
+   */
+  async lockForRefund(id: string, tx: Prisma.TransactionClient): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM payments WHERE id = ${id}::uuid FOR UPDATE`;
+  }
+
   /**
    * Find payment by app_trans_id
    */
@@ -84,9 +99,11 @@ export class PaymentRepository {
     id: string,
     status: PaymentStatus,
     zpTransId?: string,
-    callbackData?: object
+    callbackData?: object,
+    tx?: Prisma.TransactionClient
   ) {
-    return prisma.payment.update({
+    const client = tx || prisma;
+    return client.payment.update({
       where: { id },
       data: {
         status,
@@ -156,12 +173,15 @@ export class PaymentRepository {
 
   /**
    * Get latest pending payment for a booking
+   * Shares of a split payment and booking change payments are not included
    */
   async findLatestPendingByBookingId(bookingId: string) {
     return prisma.payment.findFirst({
       where: {
         bookingId,
         status: 'pending',
+        splitPaymentId: null,
+        bookingChangeId: null,
       },
       orderBy: { createdAt: 'desc' },
     });
@@ -179,6 +199,62 @@ export class PaymentRepository {
     });
     return count > 0;
   }
+
+  /**
+   * Check if any of the given bookings has a pending payment (split shares included)
+   */
+  async hasPendingByBookingIds(bookingIds: string[]): Promise<boolean> {
+    const count = await prisma.payment.count({
+      where: {
+        bookingId: { in: bookingIds },
+        status: 'pending',
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Find the successful payment covering any of the given bookings
+   * A group booking is paid once, against one booking of the group
+   * Payments of booking changes are not included
+   */
+  async findSuccessfulByBookingIds(bookingIds: string[]) {
+    return prisma.payment.findFirst({
+      where: {
+        bookingId: { in: bookingIds },
+        status: 'success',
+        bookingChangeId: null,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get the successful payments of price differences for moving any of the given bookings
+   */
+  async findSuccessfulChangePayments(bookingIds: string[]) {
+    return prisma.payment.findMany({
+      where: {
+        bookingId: { in: bookingIds },
+        status: 'success',
+        bookingChangeId: { not: null },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get the successful share payments of a split payment
+   */
+  async findSuccessfulBySplitPaymentId(splitPaymentId: string) {
+    return prisma.payment.findMany({
+      where: {
+        splitPaymentId,
+        status: 'success',
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
 }
 
 export const paymentRepository = new PaymentRepository();
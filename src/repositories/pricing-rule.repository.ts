@@ -0,0 +1,86 @@
+import { prisma } from '../config/database.js';
+import type { RawPricingRule, CreatePricingRuleDto } from '../types/index.js';
+
+export class PricingRuleRepository {
+  /**
+   * Get all pricing rules of a court (active and inactive)
+   */
+  async findByCourtId(courtId: string): Promise<RawPricingRule[]> {
+    return prisma.$queryRaw<RawPricingRule[]>`
+      SELECT id, court_id, name, day_type,
+             TO_CHAR(start_time, 'HH24:MI') as start_time,
+             TO_CHAR(end_time, 'HH24:MI') as end_time,
+             price_per_hour, is_active
+      FROM pricing_rules
+      WHERE court_id = ${courtId}::uuid
+      ORDER BY day_type, start_time
+    `;
+  }
+
+  /**
+   * Find pricing rule by ID
+   */
+  async findById(id: string): Promise<RawPricingRule | null> {
+    const results = await prisma.$queryRaw<RawPricingRule[]>`
+      SELECT id, court_id, name, day_type,
+             TO_CHAR(start_time, 'HH24:MI') as start_time,
+             TO_CHAR(end_time, 'HH24:MI') as end_time,
+             price_per_hour, is_active
+      FROM pricing_rules
+      WHERE id = ${id}::uuid
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Create a pricing rule
+   */
+  async create(courtId: string, data: CreatePricingRuleDto): Promise<RawPricingRule> {
+    const results = await prisma.$queryRaw<{ id: string }[]>`
+      INSERT INTO pricing_rules (
+        court_id, name, day_type, start_time, end_time, price_per_hour, is_active
+      ) VALUES (
+        ${courtId}::uuid,
+        ${data.name},
+        ${data.dayType},
+        ${data.startTime}::time,
+        ${data.endTime}::time,
+        ${data.pricePerHour},
+        ${data.isActive ?? true}
+      )
+      RETURNING id
+    `;
+    if (!results[0]) {
+      throw new Error('Failed to create pricing rule');
+    }
+    return (await this.findById(results[0].id))!;
+  }
+
+  /**
+   * Replace all fields of a pricing rule
+   * The service merges partial updates with the existing rule before calling this
+   */
+  async update(id: string, data: Required<CreatePricingRuleDto>): Promise<RawPricingRule> {
+    await prisma.$executeRaw`
+      UPDATE pricing_rules
+      SET name = ${data.name},
+          day_type = ${data.dayType},
+          start_time = ${data.startTime}::time,
+          end_time = ${data.endTime}::time,
+          price_per_hour = ${data.pricePerHour},
+          is_active = ${data.isActive},
+          updated_at = NOW()
+      WHERE id = ${id}::uuid
+    `;
+    return (await this.findById(id))!;
+  }
+
+  /**
+   * Delete a pricing rule
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.$executeRaw`DELETE FROM pricing_rules WHERE id = ${id}::uuid`;
+  }
+}
+
+export const pricingRuleRepository = new PricingRuleRepository();
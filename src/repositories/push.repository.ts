@@ -0,0 +1,114 @@
+import { prisma } from '../config/database.js';
+import type { DevicePlatform, PushLocale, UpdateNotificationPreferencesDto } from '../types/index.js';
+
+export class PushRepository {
+  // ==================== Devices ====================
+
+  /**
+   * Get the devices of a user, oldest first
+   */
+  async findDevicesByUserId(userId: string) {
+    return prisma.userDevice.findMany({
+      where: { userId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Register a device, or move its token to the user when another account registered it before
+   */
+  async upsertDevice(data: { userId: string; token: string; platform: DevicePlatform; locale: PushLocale }) {
+    return prisma.userDevice.upsert({
+      where: { token: data.token },
+      create: data,
+      update: { userId: data.userId, platform: data.platform, locale: data.locale },
+    });
+  }
+
+  /**
+   * Find device by ID
+   */
+  async findDeviceById(id: string) {
+    return prisma.userDevice.findUnique({ where: { id } });
+  }
+
+  /**
+   * Delete a device
+   */
+  async deleteDevice(id: string): Promise<void> {
+    await prisma.userDevice.delete({ where: { id } });
+  }
+
+  /**
+   * Delete devices whose tokens FCM no longer accepts
+   */
+  async deleteDevicesByToken(tokens: string[]): Promise<number> {
+    const result = await prisma.userDevice.deleteMany({ where: { token: { in: tokens } } });
+    return result.count;
+  }
+
+  // ==================== Preferences ====================
+
+  /**
+   * Find a user's notification preferences (null = everything on)
+   */
+  async findPreferences(userId: string) {
+    return prisma.notificationPreference.findUnique({ where: { userId } });
+  }
+
+  /**
+   * Save a user's notification preferences
+   */
+  async upsertPreferences(userId: string, data: UpdateNotificationPreferencesDto) {
+    return prisma.notificationPreference.upsert({
+      where: { userId },
+      create: { userId, ...data },
+      update: data,
+    });
+  }
+
+  // ==================== Reminders ====================
+
+  /**
+   * Mark the confirmed bookings of registered users starting within the lead time as reminded
+   * Returns them, so each booking is only reminded once even with several instances running
+   */
+  async claimDueReminders(leadMinutes: number) {
+    return prisma.$queryRaw<{
+      id: string;
+      user_id: string;
+      group_id: string | null;
+      court_name: string;
+      date: Date;
+      start_time: string;
+      end_time: string;
+    }[]>`
+      UPDATE bookings b
+      SET reminder_sent_at = NOW()
+      FROM sub_courts sc
+      JOIN courts c ON sc.court_id = c.id
+      WHERE b.sub_court_id = sc.id
+        AND b.status = 'confirmed'
+        AND b.user_id IS NOT NULL
+        AND b.reminder_sent_at IS NULL
+        AND (b.date + b.start_time) > (NOW() AT TIME ZONE 'Asia/Ho_Chi_Minh')
+        AND (b.date + b.start_time) <= (NOW() AT TIME ZONE 'Asia/Ho_Chi_Minh') + make_interval(mins => ${leadMinutes})
+      RETURNING b.id, b.user_id, b.group_id, c.name as court_name, b.date,
+                TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+                TO_CHAR(b.end_time, 'HH24:MI') as end_time
+    `;
+  }
+
+  /**
+   * Mark claimed bookings as not reminded again, after their reminder could not be sent
+   */
+  async releaseReminders(bookingIds: string[]): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE bookings
+      SET reminder_sent_at = NULL
+      WHERE id = ANY(${bookingIds}::uuid[])
+    `;
+  }
+}
+
+export const pushRepository = new PushRepository();
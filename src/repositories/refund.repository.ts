@@ -0,0 +1,97 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { RefundStatus } from '../types/index.js';
+
+export class RefundRepository {
+  /**
+   * Create a pending refund record
+   */
+  async create(
+    data: {
+      id: string;
+      paymentId: string;
+      bookingId: string;
+      mRefundId: string;
+      amount: number;
+      refundPercent: number;
+      reason: string | null;
+    },
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx || prisma;
+    return client.refund.create({
+      data: {
+        ...data,
+        status: 'pending',
+      },
+    });
+  }
+
+  /**
+   * Find refund by ID, with the payment it refunds
+   */
+  async findById(id: string) {
+    return prisma.refund.findUnique({
+      where: { id },
+      include: { payment: true },
+    });
+  }
+
+  /**
+   * Get refunds for a booking, newest first
+   */
+  async findByBookingId(bookingId: string) {
+    return prisma.refund.findMany({
+      where: { bookingId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get refunds that are not settled yet (pending or processing), oldest first
+   */
+  async findUnsettled(limit: number = 50) {
+    return prisma.refund.findMany({
+      where: { status: { in: ['pending', 'processing'] } },
+      include: { payment: true },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Total amount already refunded or being refunded for a payment
+   * Failed refunds are not counted
+   */
+  async sumActiveAmountByPaymentId(paymentId: string, tx?: Prisma.TransactionClient): Promise<number> {
+    const client = tx || prisma;
+    const result = await client.refund.aggregate({
+      where: { paymentId, status: { not: 'failed' } },
+      _sum: { amount: true },
+    });
+    return result._sum.amount ?? 0;
+  }
+
+  /**
+   * Update refund status with the latest ZaloPay result
+   */
+  async updateStatus(
+    id: string,
+    data: {
+      status: RefundStatus;
+      zpRefundId?: string;
+      returnMessage?: string;
+    }
+  ) {
+    return prisma.refund.update({
+      where: { id },
+      data: {
+        status: data.status,
+        ...(data.zpRefundId !== undefined && { zpRefundId: data.zpRefundId }),
+        ...(data.returnMessage !== undefined && { returnMessage: data.returnMessage }),
+      },
+    });
+  }
+}
+
+export const refundRepository = new RefundRepository();
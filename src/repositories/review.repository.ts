@@ -0,0 +1,154 @@
+import { prisma } from '../config/database.js';
+import type { CourtRatingSummary, ReviewSort } from '../types/index.js';
+
+// Author fields shown next to a review
+const REVIEW_INCLUDE = {
+  user: { select: { firstName: true, lastName: true, username: true } },
+} as const;
+
+const REVIEW_ORDER: Record<ReviewSort, { rating?: 'asc' | 'desc'; createdAt?: 'desc' }[]> = {
+  newest: [{ createdAt: 'desc' }],
+  highest: [{ rating: 'desc' }, { createdAt: 'desc' }],
+  lowest: [{ rating: 'asc' }, { createdAt: 'desc' }],
+};
+
+export class ReviewRepository {
+  /**
+   * Create a review
+   */
+  async create(data: {
+    bookingId: string;
+    courtId: string;
+    userId: string;
+    floorRating: number;
+    lightingRating: number;
+    cleanlinessRating: number;
+    valueRating: number;
+    rating: number;
+    comment: string | null;
+  }) {
+    return prisma.review.create({ data, include: REVIEW_INCLUDE });
+  }
+
+  /**
+   * Find review by ID with its author
+   */
+  async findById(id: string) {
+    return prisma.review.findUnique({ where: { id }, include: REVIEW_INCLUDE });
+  }
+
+  /**
+   * Find the review of a booking
+   */
+  async findByBookingId(bookingId: string) {
+    return prisma.review.findUnique({ where: { bookingId } });
+  }
+
+  /**
+   * Get the booking a review would be written for, with its court
+   */
+  async findBooking(bookingId: string) {
+    return prisma.booking.findUnique({
+      where: { id: bookingId },
+      select: {
+        id: true,
+        userId: true,
+        status: true,
+        subCourt: { select: { courtId: true } },
+      },
+    });
+  }
+
+  /**
+   * Get a court's visible reviews, paginated
+   */
+  async findByCourtId(courtId: string, params: { page: number; limit: number; sort: ReviewSort }) {
+    const where = { courtId, isHidden: false };
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: REVIEW_INCLUDE,
+        orderBy: REVIEW_ORDER[params.sort],
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+      }),
+      prisma.review.count({ where }),
+    ]);
+    return { reviews, total };
+  }
+
+  /**
+   * Get flagged reviews waiting for moderation, oldest flag first
+   */
+  async findFlagged(params: { page: number; limit: number }) {
+    const where = { isFlagged: true };
+    const [reviews, total] = await Promise.all([
+      prisma.review.findMany({
+        where,
+        include: REVIEW_INCLUDE,
+        orderBy: { flaggedAt: 'asc' },
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+      }),
+      prisma.review.count({ where }),
+    ]);
+    return { reviews, total };
+  }
+
+  /**
+   * Update a review
+   */
+  async update(
+    id: string,
+    data: {
+      floorRating?: number;
+      lightingRating?: number;
+      cleanlinessRating?: number;
+      valueRating?: number;
+      rating?: number;
+      comment?: string | null;
+      reply?: string | null;
+      replyUserId?: string | null;
+      replyUpdatedAt?: Date | null;
+      isFlagged?: boolean;
+      flagReason?: string | null;
+      flaggedAt?: Date | null;
+      isHidden?: boolean;
+      moderatedAt?: Date;
+    }
+  ) {
+    return prisma.review.update({ where: { id }, data, include: REVIEW_INCLUDE });
+  }
+
+  /**
+   * Delete a review
+   */
+  async delete(id: string) {
+    return prisma.review.delete({ where: { id } });
+  }
+
+  /**
+   * Recalculate a court's aggregate rating from its visible reviews
+   */
+  async refreshCourtRating(courtId: string): Promise<CourtRatingSummary> {
+    const aggregate = await prisma.review.aggregate({
+      where: { courtId, isHidden: false },
+      _avg: { rating: true },
+      _count: { _all: true },
+    });
+
+    const summary: CourtRatingSummary = {
+      ratingAverage: aggregate._avg.rating === null ? null : Math.round(aggregate._avg.rating * 100) / 100,
+      reviewCount: aggregate._count._all,
+    };
+
+    await prisma.court.update({
+      where: { id: courtId },
+      data: summary,
+    });
+
+    return summary;
+  }
+}
+
+export const reviewRepository = new ReviewRepository();
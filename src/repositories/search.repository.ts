@@ -1,3 +1,4 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import type {
   SearchQueryParams,
@@ -24,116 +25,75 @@ export class SearchRepository {
    * Fuzzy search courts using pg_trgm similarity and full-text search
    * Supports Vietnamese diacritics-insensitive search using unaccent
    * Combines trigram similarity with tsvector full-text search for best results
+   * Optionally filters by district and minimum rating, and sorts by rating
    */
   async searchCourts(
     query: string,
     params: SearchQueryParams
   ): Promise<{ results: RawCourtSearchResult[]; total: number }> {
-    const { page = 1, limit = 10, minSimilarity = 0.3, district } = params;
+    const { page = 1, limit = 10, minSimilarity = 0.3, district, minRating, sortBy = 'relevance' } = params;
     const offset = (page - 1) * limit;
 
-    let results: RawCourtSearchResult[];
-    let total: number;
-
+    // Vietnamese diacritics-insensitive match on name, district or full-text vector
+    const conditions: Prisma.Sql[] = [
+      Prisma.sql`(
+        similarity(name, ${query}) > ${minSimilarity}
+        OR similarity(name_unaccent, lower(immutable_unaccent(${query}))) > ${minSimilarity}
+        OR similarity(COALESCE(address_district, ''), ${query}) > ${minSimilarity}
+        OR similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query}))) > ${minSimilarity}
+        OR search_vector @@ plainto_tsquery('simple', immutable_unaccent(${query}))
+      )`,
+    ];
     if (district) {
-      // Query with district filter - Vietnamese diacritics-insensitive
-      results = await prisma.$queryRaw<RawCourtSearchResult[]>`
-        SELECT 
-          id,
-          name,
-          address_district,
-          address_city,
-          address_ward,
-          address_street,
-          GREATEST(
-            similarity(name, ${query}),
-            similarity(name_unaccent, lower(immutable_unaccent(${query})))
-          ) AS name_score,
-          GREATEST(
-            similarity(COALESCE(address_district, ''), ${query}),
-            similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query})))
-          ) AS district_score
-        FROM courts
-        WHERE (
-          similarity(name, ${query}) > ${minSimilarity}
-          OR similarity(name_unaccent, lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR similarity(COALESCE(address_district, ''), ${query}) > ${minSimilarity}
-          OR similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR search_vector @@ plainto_tsquery('simple', immutable_unaccent(${query}))
-        )
-        AND address_district = ${district}
-        ORDER BY GREATEST(
-          similarity(name, ${query}),
-          similarity(name_unaccent, lower(immutable_unaccent(${query}))),
-          similarity(COALESCE(address_district, ''), ${query}),
-          similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query})))
-        ) DESC, name ASC
-        LIMIT ${limit}
-        OFFSET ${offset}
-      `;
-
-      const countResult = await prisma.$queryRaw<[{ count: bigint }]>`
-        SELECT COUNT(*) as count
-        FROM courts
-        WHERE (
-          similarity(name, ${query}) > ${minSimilarity}
-          OR similarity(name_unaccent, lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR similarity(COALESCE(address_district, ''), ${query}) > ${minSimilarity}
-          OR similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR search_vector @@ plainto_tsquery('simple', immutable_unaccent(${query}))
-        )
-        AND address_district = ${district}
-      `;
-      total = Number(countResult[0]?.count ?? 0);
-    } else {
-      // Query without district filter - Vietnamese diacritics-insensitive
-      results = await prisma.$queryRaw<RawCourtSearchResult[]>`
-        SELECT 
-          id,
-          name,
-          address_district,
-          address_city,
-          address_ward,
-          address_street,
-          GREATEST(
-            similarity(name, ${query}),
-            similarity(name_unaccent, lower(immutable_unaccent(${query})))
-          ) AS name_score,
-          GREATEST(
-            similarity(COALESCE(address_district, ''), ${query}),
-            similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query})))
-          ) AS district_score
-        FROM courts
-        WHERE (
-          similarity(name, ${query}) > ${minSimilarity}
-          OR similarity(name_unaccent, lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR similarity(COALESCE(address_district, ''), ${query}) > ${minSimilarity}
-          OR similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR search_vector @@ plainto_tsquery('simple', immutable_unaccent(${query}))
-        )
-        ORDER BY GREATEST(
+      conditions.push(Prisma.sql`address_district = ${district}`);
+    }
+    if (minRating !== undefined) {
+      conditions.push(Prisma.sql`rating_average >= ${minRating}`);
+    }
+    const where = Prisma.join(conditions, ' AND ');
+
+    const relevance = Prisma.sql`GREATEST(
+      similarity(name, ${query}),
+      similarity(name_unaccent, lower(immutable_unaccent(${query}))),
+      similarity(COALESCE(address_district, ''), ${query}),
+      similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query})))
+    )`;
+    const orderBy =
+      sortBy === 'rating'
+        ? Prisma.sql`rating_average DESC NULLS LAST, review_count DESC, ${relevance} DESC, name ASC`
+        : Prisma.sql`${relevance} DESC, name ASC`;
+
+    const results = await prisma.$queryRaw<RawCourtSearchResult[]>`
+      SELECT 
+        id,
+        name,
+        address_district,
+        address_city,
+        address_ward,
+        address_street,
+        GREATEST(
           similarity(name, ${query}),
-          similarity(name_unaccent, lower(immutable_unaccent(${query}))),
+          similarity(name_unaccent, lower(immutable_unaccent(${query})))
+        ) AS name_score,
+        GREATEST(
           similarity(COALESCE(address_district, ''), ${query}),
           similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query})))
-        ) DESC, name ASC
-        LIMIT ${limit}
-        OFFSET ${offset}
-      `;
-
-      const countResult = await prisma.$queryRaw<[{ count: bigint }]>`
-        SELECT COUNT(*) as count
-        FROM courts
-        WHERE (
-          similarity(name, ${query}) > ${minSimilarity}
-          OR similarity(name_unaccent, lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR similarity(COALESCE(address_district, ''), ${query}) > ${minSimilarity}
-          OR similarity(COALESCE(district_unaccent, ''), lower(immutable_unaccent(${query}))) > ${minSimilarity}
-          OR search_vector @@ plainto_tsquery('simple', immutable_unaccent(${query}))
-        )
-      `;
-      total = Number(countResult[0]?.count ?? 0);
-    }
+        ) AS district_score,
+        rating_average,
+        review_count
+      FROM courts
+      WHERE ${where}
+      ORDER BY ${orderBy}
+      LIMIT ${limit}
+      OFFSET ${offset}
+    `;
+
+    const countResult = await prisma.$queryRaw<[{ count: bigint }]>`
+      SELECT COUNT(*) as count
+      FROM courts
+      WHERE ${where}
+    `;
+    const total = Number(countResult[0]?.count ?? 0);
 
     return { results, total };
   }
@@ -155,7 +115,9 @@ export class SearchRepository {
         address_ward,
         address_street,
         1.0 AS name_score,
-        0.0 AS district_score
+        0.0 AS district_score,
+        rating_average,
+        review_count
       FROM courts
       WHERE name ILIKE ${`${namePrefix}%`}
       ORDER BY name ASC
@@ -175,6 +137,7 @@ export class SearchRepository {
         addressDistrict: true,
         addressWard: true,
         addressCity: true,
+        ratingAverage: true,
       },
       orderBy: { name: 'asc' },
     });
@@ -194,6 +157,7 @@ export class SearchRepository {
         addressDistrict: true,
         addressWard: true,
         addressCity: true,
+        ratingAverage: true,
       },
     });
 
@@ -0,0 +1,98 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { SplitPaymentStatus } from '../types/index.js';
+
+const SPLIT_INCLUDE = {
+  payments: { orderBy: { createdAt: 'asc' } },
+} satisfies Prisma.SplitPaymentInclude;
+
+export class SplitPaymentRepository {
+  /**
+   * Create an open split payment
+   */
+  async create(
+    data: {
+      bookingId: string;
+      shareCount: number;
+      totalAmount: number;
+    },
+    tx?: Prisma.TransactionClient
+  ) {
+    const client = tx || prisma;
+    return client.splitPayment.create({
+      data: {
+        ...data,
+        status: 'open',
+      },
+    });
+  }
+
+  /**
+   * Find split payment by ID, with all its share payments (oldest first)
+   */
+  async findById(id: string, tx?: Prisma.TransactionClient) {
+    const client = tx || prisma;
+    return client.splitPayment.findUnique({
+      where: { id },
+      include: SPLIT_INCLUDE,
+    });
+  }
+
+  /**
+   * Lock a split payment until the transaction ends, so its shares settle one at a time
+   */
+  async lock(id: string, tx: Prisma.TransactionClient): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM split_payments WHERE id = ${id}::uuid FOR UPDATE`;
+  }
+
+  /**
+   * Find open split payments made against any of the given bookings
+   * A group booking is split once, against one booking of the group
+   */
+  async findOpenByBookingIds(bookingIds: string[]) {
+    return prisma.splitPayment.findMany({
+      where: {
+        bookingId: { in: bookingIds },
+        status: 'open',
+      },
+      include: SPLIT_INCLUDE,
+    });
+  }
+
+  /**
+   * Move a split payment out of the open status
+   * Returns false when it was no longer open (settled concurrently)
+   */
+  async close(
+    id: string,
+    status: Exclude<SplitPaymentStatus, 'open'>,
+    tx?: Prisma.TransactionClient
+  ): Promise<boolean> {
+    const client = tx || prisma;
+    const result = await client.splitPayment.updateMany({
+      where: { id, status: 'open' },
+      data: { status, updatedAt: new Date() },
+    });
+    return result.count > 0;
+  }
+
+  /**
+   * Expire the pending share payments of a split so they can no longer be paid
+   * @param exceptShareNumber - Share to leave untouched
+   */
+  async expirePendingShares(splitPaymentId: string, exceptShareNumber?: number) {
+    return prisma.payment.updateMany({
+      where: {
+        splitPaymentId,
+        status: 'pending',
+        ...(exceptShareNumber !== undefined && { shareNumber: { not: exceptShareNumber } }),
+      },
+      data: {
+        status: 'expired',
+        updatedAt: new Date(),
+      },
+    });
+  }
+}
+
+export const splitPaymentRepository = new SplitPaymentRepository();
@@ -0,0 +1,115 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { CreateSubCourtDto, UpdateSubCourtDto, RawBookingConflict } from '../types/index.js';
+
+export class SubCourtRepository {
+  /**
+   * Get all sub-courts of a court (active and inactive) in display order
+   */
+  async findByCourtId(courtId: string) {
+    return prisma.subCourt.findMany({
+      where: { courtId },
+      orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Find sub-court by ID
+   */
+  async findById(id: string) {
+    return prisma.subCourt.findUnique({ where: { id } });
+  }
+
+  /**
+   * Get the highest display order used by a court's sub-courts
+   */
+  async getMaxDisplayOrder(courtId: string): Promise<number> {
+    const result = await prisma.subCourt.aggregate({
+      where: { courtId },
+      _max: { displayOrder: true },
+    });
+    return result._max.displayOrder ?? 0;
+  }
+
+  /**
+   * Create a sub-court
+   */
+  async create(courtId: string, data: CreateSubCourtDto & { displayOrder: number }) {
+    return prisma.subCourt.create({
+      data: {
+        courtId,
+        name: data.name,
+        description: data.description,
+        surfaceType: data.surfaceType,
+        displayOrder: data.displayOrder,
+        attributes: (data.attributes ?? {}) as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Update a sub-court
+   * Only the editable fields are written; the court and display order cannot change here
+   */
+  async update(id: string, data: UpdateSubCourtDto) {
+    return prisma.subCourt.update({
+      where: { id },
+      data: {
+        name: data.name,
+        description: data.description,
+        surfaceType: data.surfaceType,
+        isActive: data.isActive,
+        attributes: data.attributes as Prisma.InputJsonValue | undefined,
+      },
+    });
+  }
+
+  /**
+   * Set display order of sub-courts to their position in the given list
+   */
+  async updateDisplayOrder(subCourtIds: string[]): Promise<void> {
+    await prisma.$transaction(
+      subCourtIds.map((id, index) =>
+        prisma.subCourt.update({
+          where: { id },
+          data: { displayOrder: index + 1 },
+        })
+      )
+    );
+  }
+
+  /**
+   * Delete a sub-court
+   */
+  async delete(id: string) {
+    return prisma.subCourt.delete({ where: { id } });
+  }
+
+  /**
+   * Count all bookings ever made on a sub-court
+   */
+  async countBookings(id: string): Promise<number> {
+    return prisma.booking.count({ where: { subCourtId: id } });
+  }
+
+  /**
+   * Get pending/confirmed bookings on a sub-court that have not ended yet
+   * Uses Vietnam timezone (UTC+7) for the current time
+   */
+  async findUpcomingBookings(id: string): Promise<RawBookingConflict[]> {
+    return prisma.$queryRaw`
+      SELECT b.id, b.sub_court_id, sc.name as sub_court_name, b.date,
+             TO_CHAR(b.start_time, 'HH24:MI') as start_time,
+             TO_CHAR(b.end_time, 'HH24:MI') as end_time,
+             b.status, b.guest_name, b.guest_phone
+      FROM bookings b
+      JOIN sub_courts sc ON b.sub_court_id = sc.id
+      WHERE b.sub_court_id = ${id}::uuid
+        AND b.status IN ('pending', 'confirmed')
+        AND (b.date + b.end_time) > (NOW() AT TIME ZONE 'Asia/Ho_Chi_Minh')
+      ORDER BY b.date, b.start_time
+    `;
+  }
+}
+
+export const subCourtRepository = new SubCourtRepository();
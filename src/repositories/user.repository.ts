@@ -1,6 +1,6 @@
 import { prisma } from '../config/database.js';
 import type { User, Prisma } from '@prisma/client';
-import type { AuthProvider, UpdateProfileDto } from '../types/auth.types.js';
+import type { AuthProvider, UpdateProfileDto, UserRole } from '../types/auth.types.js';
 
 export interface CreateUserData {
   firebaseUid: string;
@@ -171,6 +171,16 @@ export class UserRepository {
     });
   }
 
+  /**
+   * Update user platform role
+   */
+  async updateRole(id: string, role: UserRole): Promise<User> {
+    return prisma.user.update({
+      where: { id },
+      data: { role },
+    });
+  }
+
   /**
    * Update Firebase UID (used when anonymous account is linked)
    */
@@ -190,12 +200,18 @@ export class UserRepository {
 
   /**
    * Get user's booking history with pagination
+   * Includes open games the user was accepted into
    */
   async getBookingHistory(params: BookingHistoryParams) {
     const { userId, page = 1, limit = 10, status } = params;
     const skip = (page - 1) * limit;
 
-    const where: Prisma.BookingWhereInput = { userId };
+    const where: Prisma.BookingWhereInput = {
+      OR: [
+        { userId },
+        { openGame: { players: { some: { userId, status: 'accepted' } } } },
+      ],
+    };
     if (status) {
       where.status = status;
     }
@@ -226,6 +242,11 @@ export class UserRepository {
               amount: true,
             },
           },
+          openGame: {
+            select: {
+              id: true,
+            },
+          },
         },
       }),
       prisma.booking.count({ where }),
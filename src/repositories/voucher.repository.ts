@@ -0,0 +1,136 @@
+import { prisma } from '../config/database.js';
+import { Prisma } from '@prisma/client';
+import type { CreateVoucherDto } from '../types/index.js';
+
+// Bookings that hold a use of their voucher; cancelled and failed bookings give it back
+const USING_STATUSES = ['pending', 'confirmed', 'completed'];
+
+export class VoucherRepository {
+  /**
+   * Get vouchers, newest first, paginated
+   */
+  async findAll(params: { page: number; limit: number; active?: boolean }) {
+    const where = params.active !== undefined ? { isActive: params.active } : {};
+    const [vouchers, total] = await Promise.all([
+      prisma.voucher.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (params.page - 1) * params.limit,
+        take: params.limit,
+      }),
+      prisma.voucher.count({ where }),
+    ]);
+    return { vouchers, total };
+  }
+
+  /**
+   * Find voucher by ID
+   */
+  async findById(id: string) {
+    return prisma.voucher.findUnique({ where: { id } });
+  }
+
+  /**
+   * Find voucher by its (uppercase) code
+   */
+  async findByCode(code: string) {
+    return prisma.voucher.findUnique({ where: { code } });
+  }
+
+  /**
+   * Create a voucher
+   */
+  async create(data: Required<CreateVoucherDto>) {
+    return prisma.voucher.create({ data: this.toRecord(data) });
+  }
+
+  /**
+   * Replace all fields of a voucher
+   * The service merges partial updates with the existing voucher before calling this
+   */
+  async update(id: string, data: Required<CreateVoucherDto>) {
+    return prisma.voucher.update({ where: { id }, data: this.toRecord(data) });
+  }
+
+  /**
+   * Delete a voucher (bookings made with it keep their discount)
+   */
+  async delete(id: string) {
+    return prisma.voucher.delete({ where: { id } });
+  }
+
+  /**
+   * Lock a voucher until the transaction ends and get its usage limits
+   * Bookings using the voucher then count its uses one at a time
+   */
+  async lockForUse(id: string, tx: Prisma.TransactionClient) {
+    const rows = await tx.$queryRaw<
+      { id: string; code: string; usageLimit: number | null; perUserLimit: number | null }[]
+    >`
+      SELECT id, code, usage_limit as "usageLimit", per_user_limit as "perUserLimit"
+      FROM vouchers
+      WHERE id = ${id}::uuid
+      FOR UPDATE
+    `;
+    return rows[0] ?? null;
+  }
+
+  /**
+   * Count the uses of a voucher, optionally by one user
+   * A use is one booking request: the bookings created together share a group ID
+   */
+  async countUses(voucherId: string, userId?: string, tx?: Prisma.TransactionClient): Promise<number> {
+    const client = tx || prisma;
+    const userClause = userId ? Prisma.sql`AND user_id = ${userId}::uuid` : Prisma.empty;
+    const result = await client.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(DISTINCT COALESCE(group_id, id)) as count
+      FROM bookings
+      WHERE voucher_id = ${voucherId}::uuid
+        AND status IN (${Prisma.join(USING_STATUSES)})
+        ${userClause}
+    `;
+    return result[0] ? Number(result[0].count) : 0;
+  }
+
+  /**
+   * Count the uses of each of the given vouchers
+   */
+  async countUsesByIds(voucherIds: string[]): Promise<Map<string, number>> {
+    if (voucherIds.length === 0) {
+      return new Map();
+    }
+    const rows = await prisma.$queryRaw<{ voucher_id: string; count: bigint }[]>`
+      SELECT voucher_id, COUNT(DISTINCT COALESCE(group_id, id)) as count
+      FROM bookings
+      WHERE voucher_id IN (${Prisma.join(voucherIds.map((id) => Prisma.sql`${id}::uuid`))})
+        AND status IN (${Prisma.join(USING_STATUSES)})
+      GROUP BY voucher_id
+    `;
+    return new Map(rows.map((row) => [row.voucher_id, Number(row.count)]));
+  }
+
+  /**
+   * Check whether a user has ever had a booking confirmed
+   */
+  async hasPaidBooking(userId: string): Promise<boolean> {
+    const count = await prisma.booking.count({
+      where: { userId, status: { in: ['confirmed', 'completed'] } },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Map a voucher DTO to its columns; "HH:mm" times are stored as TIME
+   */
+  private toRecord(data: Required<CreateVoucherDto>) {
+    return {
+      ...data,
+      startTime: data.startTime ? new Date(`1970-01-01T${data.startTime}:00.000Z`) : null,
+      endTime: data.endTime ? new Date(`1970-01-01T${data.endTime}:00.000Z`) : null,
+      validFrom: data.validFrom ? new Date(data.validFrom) : null,
+      validUntil: data.validUntil ? new Date(data.validUntil) : null,
+    };
+  }
+}
+
+export const voucherRepository = new VoucherRepository();
@@ -0,0 +1,207 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../config/database.js';
+import type { RawWaitlistEntry } from '../types/index.js';
+
+// Entries still in the queue
+const ACTIVE_STATUSES = ['waiting', 'offered'];
+
+const SELECT_ENTRY = Prisma.sql`
+  SELECT w.id, w.court_id, c.name as court_name,
+         w.sub_court_id, sc.name as sub_court_name,
+         w.user_id, w.guest_name, w.guest_phone, w.date,
+         TO_CHAR(w.start_time, 'HH24:MI') as start_time,
+         TO_CHAR(w.end_time, 'HH24:MI') as end_time,
+         w.status, w.offered_sub_court_id, osc.name as offered_sub_court_name,
+         w.offer_expires_at, w.booking_id, w.created_at
+  FROM waitlist_entries w
+  JOIN courts c ON w.court_id = c.id
+  LEFT JOIN sub_courts sc ON w.sub_court_id = sc.id
+  LEFT JOIN sub_courts osc ON w.offered_sub_court_id = osc.id
+`;
+
+export class WaitlistRepository {
+  /**
+   * Create a waitlist entry
+   * Returns the new entry ID
+   */
+  async create(data: {
+    courtId: string;
+    subCourtId: string | null;
+    userId: string;
+    guestName: string;
+    guestPhone: string;
+    date: string;
+    startTime: string;
+    endTime: string;
+  }): Promise<string> {
+    const result = await prisma.$queryRaw<{ id: string }[]>`
+      INSERT INTO waitlist_entries (
+        court_id, sub_court_id, user_id, guest_name, guest_phone, date, start_time, end_time
+      ) VALUES (
+        ${data.courtId}::uuid,
+        ${data.subCourtId}::uuid,
+        ${data.userId}::uuid,
+        ${data.guestName},
+        ${data.guestPhone},
+        ${data.date}::date,
+        ${data.startTime}::time,
+        ${data.endTime}::time
+      )
+      RETURNING id
+    `;
+    return result[0]!.id;
+  }
+
+  /**
+   * Find entry by ID with court and sub-court names
+   */
+  async findById(id: string): Promise<RawWaitlistEntry | null> {
+    const results = await prisma.$queryRaw<RawWaitlistEntry[]>`
+      ${SELECT_ENTRY}
+      WHERE w.id = ${id}::uuid
+    `;
+    return results[0] ?? null;
+  }
+
+  /**
+   * Get a user's entries, soonest slot first
+   */
+  async findByUserId(userId: string): Promise<RawWaitlistEntry[]> {
+    return prisma.$queryRaw<RawWaitlistEntry[]>`
+      ${SELECT_ENTRY}
+      WHERE w.user_id = ${userId}::uuid
+      ORDER BY w.date, w.start_time, w.created_at
+    `;
+  }
+
+  /**
+   * Check whether a user already queues for the same slot
+   */
+  async hasActiveEntry(data: {
+    userId: string;
+    courtId: string;
+    subCourtId: string | null;
+    date: string;
+    startTime: string;
+    endTime: string;
+  }): Promise<boolean> {
+    const result = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) as count
+      FROM waitlist_entries
+      WHERE user_id = ${data.userId}::uuid
+        AND court_id = ${data.courtId}::uuid
+        AND sub_court_id IS NOT DISTINCT FROM ${data.subCourtId}::uuid
+        AND date = ${data.date}::date
+        AND start_time = ${data.startTime}::time
+        AND end_time = ${data.endTime}::time
+        AND status = ANY(${ACTIVE_STATUSES})
+    `;
+    return result[0] ? Number(result[0].count) > 0 : false;
+  }
+
+  /**
+   * Position of a waiting entry: 1 + waiting entries for an overlapping slot of the court created before it
+   */
+  async getPosition(entry: RawWaitlistEntry): Promise<number> {
+    const result = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) as count
+      FROM waitlist_entries
+      WHERE court_id = ${entry.court_id}::uuid
+        AND date = ${entry.date}::date
+        AND status = 'waiting'
+        AND start_time < ${entry.end_time}::time
+        AND end_time > ${entry.start_time}::time
+        AND created_at < ${entry.created_at}
+    `;
+    return (result[0] ? Number(result[0].count) : 0) + 1;
+  }
+
+  /**
+   * Get waiting entries a released slot could serve, oldest first
+   * Matches entries for the slot's sub-court or for any sub-court of its court
+   */
+  async findWaitingForSlot(
+    courtId: string,
+    subCourtId: string,
+    date: string,
+    startTime: string,
+    endTime: string
+  ): Promise<RawWaitlistEntry[]> {
+    return prisma.$queryRaw<RawWaitlistEntry[]>`
+      ${SELECT_ENTRY}
+      WHERE w.court_id = ${courtId}::uuid
+        AND (w.sub_court_id IS NULL OR w.sub_court_id = ${subCourtId}::uuid)
+        AND w.date = ${date}::date
+        AND w.status = 'waiting'
+        AND w.start_time < ${endTime}::time
+        AND w.end_time > ${startTime}::time
+      ORDER BY w.created_at
+    `;
+  }
+
+  /**
+   * Check whether an unexpired offer holds an overlapping slot of a sub-court
+   */
+  async hasActiveOffer(subCourtId: string, date: string, startTime: string, endTime: string): Promise<boolean> {
+    const result = await prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) as count
+      FROM waitlist_entries
+      WHERE offered_sub_court_id = ${subCourtId}::uuid
+        AND date = ${date}::date
+        AND status = 'offered'
+        AND offer_expires_at > NOW()
+        AND start_time < ${endTime}::time
+        AND end_time > ${startTime}::time
+    `;
+    return result[0] ? Number(result[0].count) > 0 : false;
+  }
+
+  /**
+   * Get offers that were not claimed in time
+   */
+  async findExpiredOffers(now: Date, limit: number = 50): Promise<RawWaitlistEntry[]> {
+    return prisma.$queryRaw<RawWaitlistEntry[]>`
+      ${SELECT_ENTRY}
+      WHERE w.status = 'offered' AND w.offer_expires_at <= ${now}
+      ORDER BY w.offer_expires_at
+      LIMIT ${limit}
+    `;
+  }
+
+  /**
+   * Offer a slot to a waiting entry
+   * Returns false if the entry is no longer waiting
+   */
+  async markOffered(id: string, subCourtId: string, expiresAt: Date): Promise<boolean> {
+    const count = await prisma.$executeRaw`
+      UPDATE waitlist_entries
+      SET status = 'offered',
+          offered_sub_court_id = ${subCourtId}::uuid,
+          offer_expires_at = ${expiresAt},
+          updated_at = NOW()
+      WHERE id = ${id}::uuid AND status = 'waiting'
+    `;
+    return count > 0;
+  }
+
+  /**
+   * Move an entry from one status to another
+   * Returns false if the entry was not in the expected status
+   */
+  async updateStatus(
+    id: string,
+    from: string[],
+    data: { status: string; bookingId?: string }
+  ): Promise<boolean> {
+    const count = await prisma.$executeRaw`
+      UPDATE waitlist_entries
+      SET status = ${data.status},
+          booking_id = COALESCE(${data.bookingId ?? null}::uuid, booking_id),
+          updated_at = NOW()
+      WHERE id = ${id}::uuid AND status = ANY(${from})
+    `;
+    return count > 0;
+  }
+}
+
+export const waitlistRepository = new WaitlistRepository();
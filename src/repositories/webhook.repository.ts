@@ -0,0 +1,151 @@
+import { prisma } from '../config/database.js';
+import type { Prisma } from '@prisma/client';
+import type { WebhookDeliveryStatus } from '../types/index.js';
+
+export class WebhookRepository {
+  // ==================== Subscriptions ====================
+
+  /**
+   * Get the webhooks of a court, oldest first
+   */
+  async findByCourtId(courtId: string) {
+    return prisma.webhookSubscription.findMany({
+      where: { courtId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Get the active webhooks of a court subscribed to an event
+   */
+  async findActiveByEvent(courtId: string, event: string) {
+    return prisma.webhookSubscription.findMany({
+      where: { courtId, isActive: true, events: { has: event } },
+    });
+  }
+
+  /**
+   * Find webhook by ID
+   */
+  async findById(id: string) {
+    return prisma.webhookSubscription.findUnique({ where: { id } });
+  }
+
+  /**
+   * Count the webhooks of a court
+   */
+  async countByCourtId(courtId: string): Promise<number> {
+    return prisma.webhookSubscription.count({ where: { courtId } });
+  }
+
+  /**
+   * Create a webhook
+   */
+  async create(data: { courtId: string; url: string; secret: string; events: string[]; isActive: boolean }) {
+    return prisma.webhookSubscription.create({ data });
+  }
+
+  /**
+   * Update a webhook
+   */
+  async update(id: string, data: { url?: string; secret?: string; events?: string[]; isActive?: boolean }) {
+    return prisma.webhookSubscription.update({ where: { id }, data });
+  }
+
+  /**
+   * Delete a webhook with its delivery log
+   */
+  async delete(id: string): Promise<void> {
+    await prisma.webhookSubscription.delete({ where: { id } });
+  }
+
+  // ==================== Deliveries ====================
+
+  /**
+   * Create a pending delivery of an event to each webhook, due at once
+   */
+  async createDeliveries(
+    subscriptionIds: string[],
+    data: { eventId: string; event: string; payload: Prisma.InputJsonValue }
+  ) {
+    return prisma.$transaction(
+      subscriptionIds.map((subscriptionId) =>
+        prisma.webhookDelivery.create({
+          data: { ...data, subscriptionId, status: 'pending', nextAttemptAt: new Date() },
+          include: { subscription: true },
+        })
+      )
+    );
+  }
+
+  /**
+   * Find delivery by ID, with its webhook
+   */
+  async findDeliveryById(id: string) {
+    return prisma.webhookDelivery.findUnique({
+      where: { id },
+      include: { subscription: true },
+    });
+  }
+
+  /**
+   * Get the deliveries of a webhook, newest first
+   */
+  async findDeliveries(subscriptionId: string, params: { status?: WebhookDeliveryStatus; limit: number }) {
+    return prisma.webhookDelivery.findMany({
+      where: { subscriptionId, ...(params.status && { status: params.status }) },
+      orderBy: { createdAt: 'desc' },
+      take: params.limit,
+    });
+  }
+
+  /**
+   * Claim pending deliveries of active webhooks that are due
+   * Claimed deliveries are pushed back by the lease so another instance does not send them too
+   */
+  async claimDue(leaseSeconds: number, limit: number = 50) {
+    const claimed = await prisma.$queryRaw<{ id: string }[]>`
+      UPDATE webhook_deliveries
+      SET next_attempt_at = NOW() + make_interval(secs => ${leaseSeconds}), updated_at = NOW()
+      WHERE id IN (
+        SELECT d.id
+        FROM webhook_deliveries d
+        JOIN webhook_subscriptions s ON d.subscription_id = s.id
+        WHERE d.status = 'pending'
+          AND d.next_attempt_at <= NOW()
+          AND s.is_active = true
+        ORDER BY d.next_attempt_at
+        LIMIT ${limit}
+        FOR UPDATE OF d SKIP LOCKED
+      )
+      RETURNING id
+    `;
+    if (claimed.length === 0) {
+      return [];
+    }
+
+    return prisma.webhookDelivery.findMany({
+      where: { id: { in: claimed.map((row) => row.id) } },
+      include: { subscription: true },
+    });
+  }
+
+  /**
+   * Record the result of a delivery attempt
+   */
+  async recordAttempt(
+    id: string,
+    data: {
+      status: WebhookDeliveryStatus;
+      attempts: number;
+      nextAttemptAt: Date | null;
+      responseStatus: number | null;
+      error: string | null;
+      deliveredAt: Date | null;
+    }
+  ) {
+    return prisma.webhookDelivery.update({ where: { id }, data });
+  }
+}
+
+export const webhookRepository = new WebhookRepository();
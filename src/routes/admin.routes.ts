@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import { adminController } from '../controllers/index.js';
+
+// Admin routes - mounted under /admin behind requireAuth + requireRole('platform_admin')
+const router = Router();
+
+// PUT /admin/users/:id/role
+// Change a user's platform role
+router.put('/users/:id/role', (req, res, next) => adminController.updateUserRole(req, res, next));
+
+export { router as adminRoutes };
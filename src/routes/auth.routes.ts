@@ -61,6 +61,47 @@ router.get('/me/bookings', requireAuth, (req, res, next) =>
   authController.getBookingHistory(req, res, next)
 );
 
+/**
+ * GET /auth/me/devices
+ * Get devices registered for push notifications
+ * Requires: authenticated user (anonymous or registered)
+ */
+router.get('/me/devices', requireAuth, (req, res, next) => authController.getDevices(req, res, next));
+
+/**
+ * POST /auth/me/devices
+ * Register a device's FCM token
+ * Requires: authenticated user (anonymous or registered)
+ */
+router.post('/me/devices', requireAuth, (req, res, next) => authController.registerDevice(req, res, next));
+
+/**
+ * DELETE /auth/me/devices/:deviceId
+ * Unregister a device (on sign out)
+ * Requires: authenticated user (anonymous or registered)
+ */
+router.delete('/me/devices/:deviceId', requireAuth, (req, res, next) =>
+  authController.removeDevice(req, res, next)
+);
+
+/**
+ * GET /auth/me/notification-preferences
+ * Get which push notifications the user gets
+ * Requires: authenticated user (anonymous or registered)
+ */
+router.get('/me/notification-preferences', requireAuth, (req, res, next) =>
+  authController.getNotificationPreferences(req, res, next)
+);
+
+/**
+ * PUT /auth/me/notification-preferences
+ * Turn push notifications on or off
+ * Requires: authenticated user (anonymous or registered)
+ */
+router.put('/me/notification-preferences', requireAuth, (req, res, next) =>
+  authController.updateNotificationPreferences(req, res, next)
+);
+
 /**
  * POST /auth/link-bookings
  * Link existing bookings to user by phone or email
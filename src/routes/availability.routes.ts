@@ -10,5 +10,19 @@ router.get(
   (req, res, next) => availabilityController.getCourtAvailability(req, res, next)
 );
 
+// GET /courts/:courtId/availability/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD
+// Get availability for a court over up to 14 days
+router.get(
+  '/courts/:courtId/availability/calendar',
+  (req, res, next) => availabilityController.getCourtAvailabilityCalendar(req, res, next)
+);
+
+// GET /availability/search?latitude=x&longitude=y&date=YYYY-MM-DD&startTime=HH:mm&endTime=HH:mm
+// Find venues near a location with a sub-court free for the whole window
+router.get(
+  '/availability/search',
+  (req, res, next) => availabilityController.searchSlots(req, res, next)
+);
+
 export { router as availabilityRoutes };
 
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { bookingPolicyController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /courts/:courtId/booking-policy
+// Public - customers see the booking rules before booking
+router.get('/courts/:courtId/booking-policy', (req, res, next) =>
+  bookingPolicyController.get(req, res, next)
+);
+
+// PUT /courts/:courtId/booking-policy
+// Requires: court owner or platform admin
+router.put(
+  '/courts/:courtId/booking-policy',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => bookingPolicyController.update(req, res, next)
+);
+
+// DELETE /courts/:courtId/booking-policy
+// Reset to the platform default policy
+// Requires: court owner or platform admin
+router.delete(
+  '/courts/:courtId/booking-policy',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => bookingPolicyController.reset(req, res, next)
+);
+
+export { router as bookingPolicyRoutes };
@@ -0,0 +1,31 @@
+import { Router } from 'express';
+import { bookingSeriesController } from '../controllers/index.js';
+import { requireAuth } from '../middlewares/index.js';
+
+const router = Router();
+
+// Series are managed by their creator, the court's owners/staff or platform admins
+router.use(requireAuth);
+
+// POST /booking-series
+router.post('/', (req, res, next) => bookingSeriesController.create(req, res, next));
+
+// GET /booking-series/:id
+router.get('/:id', (req, res, next) => bookingSeriesController.getById(req, res, next));
+
+// DELETE /booking-series/:id
+// Cancel every upcoming occurrence
+router.delete('/:id', (req, res, next) => bookingSeriesController.cancel(req, res, next));
+
+// PUT /booking-series/:id/occurrences/:bookingId
+// Move a single occurrence
+router.put('/:id/occurrences/:bookingId', (req, res, next) =>
+  bookingSeriesController.moveOccurrence(req, res, next)
+);
+
+// DELETE /booking-series/:id/occurrences/:bookingId?scope=this|future
+router.delete('/:id/occurrences/:bookingId', (req, res, next) =>
+  bookingSeriesController.cancelOccurrence(req, res, next)
+);
+
+export { router as bookingSeriesRoutes };
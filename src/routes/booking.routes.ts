@@ -1,30 +1,62 @@
 import { Router } from 'express';
-import { availabilityController, paymentController } from '../controllers/index.js';
-import { requireAuth } from '../middlewares/index.js';
+import { availabilityController, paymentController, refundController, splitPaymentController } from '../controllers/index.js';
+import { requireAuth, optionalAuth, requireBookingAccess, requireVerifiedPhone } from '../middlewares/index.js';
 
 const router = Router();
 
 // GET /bookings?phone=xxx
-// Get bookings by phone number
-router.get('/', (req, res, next) => availabilityController.getBookingsByPhone(req, res, next));
+// Get bookings by phone number (requires an OTP-verified phone)
+router.get('/', requireVerifiedPhone, (req, res, next) =>
+  availabilityController.getBookingsByPhone(req, res, next)
+);
 
 // GET /bookings/:id
-// Get booking by ID
-router.get('/:id', (req, res, next) => availabilityController.getBookingById(req, res, next));
+// Get booking by ID (booking owner, court staff or guest access token)
+router.get('/:id', optionalAuth, requireBookingAccess(), (req, res, next) =>
+  availabilityController.getBookingById(req, res, next)
+);
 
 // POST /bookings
 // Create a new booking (requires authenticated user - registered or anonymous)
 router.post('/', requireAuth, (req, res, next) => availabilityController.createBooking(req, res, next));
 
 // DELETE /bookings/:id
-// Cancel a booking
-router.delete('/:id', (req, res, next) => availabilityController.cancelBooking(req, res, next));
+// Cancel a booking (paid bookings are refunded per the court's cancellation policy)
+// Booking owner, court staff or guest access token
+router.delete('/:id', optionalAuth, requireBookingAccess(), (req, res, next) =>
+  availabilityController.cancelBooking(req, res, next)
+);
+
+// PATCH /bookings/:id
+// Move a booking to another time or sub-court (a dearer slot is paid through ZaloPay, a cheaper one refunded)
+// Booking owner, court staff or guest access token
+router.patch('/:id', optionalAuth, requireBookingAccess(), (req, res, next) =>
+  availabilityController.changeBooking(req, res, next)
+);
 
 // GET /bookings/:bookingId/payment
 // Get payment info for a booking
-router.get('/:bookingId/payment', (req, res, next) =>
+router.get('/:bookingId/payment', optionalAuth, requireBookingAccess('bookingId'), (req, res, next) =>
   paymentController.getPaymentByBookingId(req, res, next)
 );
 
+// POST /bookings/:bookingId/split-payment
+// Split the payment of a pending booking into shares, one ZaloPay order per share
+router.post('/:bookingId/split-payment', optionalAuth, requireBookingAccess('bookingId'), (req, res, next) =>
+  splitPaymentController.createSplitPayment(req, res, next)
+);
+
+// POST /bookings/:bookingId/split-payment/cover
+// Pay whatever the shares have not covered yet
+router.post('/:bookingId/split-payment/cover', optionalAuth, requireBookingAccess('bookingId'), (req, res, next) =>
+  splitPaymentController.coverRemaining(req, res, next)
+);
+
+// GET /bookings/:bookingId/refunds
+// Get refunds for a booking
+router.get('/:bookingId/refunds', optionalAuth, requireBookingAccess('bookingId'), (req, res, next) =>
+  refundController.getRefundsByBookingId(req, res, next)
+);
+
 export { router as bookingRoutes };
 
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { cancellationPolicyController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /courts/:courtId/cancellation-policy
+// Public - customers see the refund rules before booking
+router.get('/courts/:courtId/cancellation-policy', (req, res, next) =>
+  cancellationPolicyController.get(req, res, next)
+);
+
+// PUT /courts/:courtId/cancellation-policy
+// Requires: court owner or platform admin
+router.put(
+  '/courts/:courtId/cancellation-policy',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => cancellationPolicyController.update(req, res, next)
+);
+
+// DELETE /courts/:courtId/cancellation-policy
+// Reset to the platform default policy
+// Requires: court owner or platform admin
+router.delete(
+  '/courts/:courtId/cancellation-policy',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => cancellationPolicyController.reset(req, res, next)
+);
+
+export { router as cancellationPolicyRoutes };
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { closureController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// Closures are managed by court owners/staff (or platform admins)
+router.use('/courts/:courtId/closures', requireRegisteredUser, requireCourtPermission());
+
+// GET /courts/:courtId/closures?from=YYYY-MM-DD&to=YYYY-MM-DD
+router.get('/courts/:courtId/closures', (req, res, next) => closureController.getAll(req, res, next));
+
+// POST /courts/:courtId/closures
+router.post('/courts/:courtId/closures', (req, res, next) => closureController.create(req, res, next));
+
+// DELETE /courts/:courtId/closures/series/:seriesId
+router.delete('/courts/:courtId/closures/series/:seriesId', (req, res, next) =>
+  closureController.deleteSeries(req, res, next)
+);
+
+// DELETE /courts/:courtId/closures/:closureId
+router.delete('/courts/:courtId/closures/:closureId', (req, res, next) =>
+  closureController.delete(req, res, next)
+);
+
+export { router as closureRoutes };
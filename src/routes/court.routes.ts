@@ -1,5 +1,10 @@
 import { Router } from 'express';
 import { courtController } from '../controllers/index.js';
+import {
+  requireRegisteredUser,
+  requireRole,
+  requireCourtPermission,
+} from '../middlewares/index.js';
 
 const router = Router();
 
@@ -13,13 +18,44 @@ router.get('/', (req, res, next) => courtController.getAll(req, res, next));
 router.get('/:id', (req, res, next) => courtController.getById(req, res, next));
 
 // POST /courts
-router.post('/', (req, res, next) => courtController.create(req, res, next));
+// Requires: venue owner or platform admin
+router.post('/', requireRegisteredUser, requireRole('venue_owner'), (req, res, next) =>
+  courtController.create(req, res, next)
+);
 
 // PUT /courts/:id
-router.put('/:id', (req, res, next) => courtController.update(req, res, next));
+// Requires: court owner or platform admin
+router.put('/:id', requireRegisteredUser, requireCourtPermission(['owner'], 'id'), (req, res, next) =>
+  courtController.update(req, res, next)
+);
 
 // DELETE /courts/:id
-router.delete('/:id', (req, res, next) => courtController.delete(req, res, next));
+// Requires: court owner or platform admin
+router.delete('/:id', requireRegisteredUser, requireCourtPermission(['owner'], 'id'), (req, res, next) =>
+  courtController.delete(req, res, next)
+);
+
+// ==================== Court Members ====================
+
+// GET /courts/:courtId/members
+// Requires: court owner/staff or platform admin
+router.get('/:courtId/members', requireRegisteredUser, requireCourtPermission(), (req, res, next) =>
+  courtController.getMembers(req, res, next)
+);
+
+// POST /courts/:courtId/members
+// Requires: court owner or platform admin
+router.post('/:courtId/members', requireRegisteredUser, requireCourtPermission(['owner']), (req, res, next) =>
+  courtController.addMember(req, res, next)
+);
+
+// DELETE /courts/:courtId/members/:userId
+// Requires: court owner or platform admin
+router.delete(
+  '/:courtId/members/:userId',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => courtController.removeMember(req, res, next)
+);
 
 export { router as courtRoutes };
-
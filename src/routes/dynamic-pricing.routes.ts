@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { dynamicPricingController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /courts/:courtId/dynamic-pricing
+// Public - customers see why slot prices change
+router.get('/courts/:courtId/dynamic-pricing', (req, res, next) =>
+  dynamicPricingController.get(req, res, next)
+);
+
+// PUT /courts/:courtId/dynamic-pricing
+// Requires: court owner or platform admin
+router.put(
+  '/courts/:courtId/dynamic-pricing',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => dynamicPricingController.update(req, res, next)
+);
+
+// DELETE /courts/:courtId/dynamic-pricing
+// Back to static pricing
+// Requires: court owner or platform admin
+router.delete(
+  '/courts/:courtId/dynamic-pricing',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => dynamicPricingController.reset(req, res, next)
+);
+
+export { router as dynamicPricingRoutes };
@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { holidayController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+// Global holiday calendar - mounted under /admin behind requireAuth + requireRole('platform_admin')
+const adminRouter = Router();
+
+// GET /admin/holidays?year=2026
+adminRouter.get('/holidays', (req, res, next) => holidayController.getAll(req, res, next));
+
+// POST /admin/holidays/generate
+// Must be declared before /holidays/:id
+adminRouter.post('/holidays/generate', (req, res, next) => holidayController.generate(req, res, next));
+
+// POST /admin/holidays
+adminRouter.post('/holidays', (req, res, next) => holidayController.create(req, res, next));
+
+// PUT /admin/holidays/:id
+adminRouter.put('/holidays/:id', (req, res, next) => holidayController.update(req, res, next));
+
+// DELETE /admin/holidays/:id
+adminRouter.delete('/holidays/:id', (req, res, next) => holidayController.delete(req, res, next));
+
+// Per-court holiday overrides - mounted at /
+const courtRouter = Router();
+
+// GET /courts/:courtId/holiday-overrides?year=2026
+// Requires: court owner/staff or platform admin
+courtRouter.get(
+  '/courts/:courtId/holiday-overrides',
+  requireRegisteredUser,
+  requireCourtPermission(),
+  (req, res, next) => holidayController.getCourtOverrides(req, res, next)
+);
+
+// PUT /courts/:courtId/holiday-overrides/:date
+// Requires: court owner or platform admin
+courtRouter.put(
+  '/courts/:courtId/holiday-overrides/:date',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => holidayController.setCourtOverride(req, res, next)
+);
+
+// DELETE /courts/:courtId/holiday-overrides/:date
+// Requires: court owner or platform admin
+courtRouter.delete(
+  '/courts/:courtId/holiday-overrides/:date',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => holidayController.deleteCourtOverride(req, res, next)
+);
+
+export { adminRouter as holidayAdminRoutes, courtRouter as courtHolidayRoutes };
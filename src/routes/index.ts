@@ -2,20 +2,62 @@ import { Router } from 'express';
 import { courtRoutes } from './court.routes.js';
 import { mapTilesRoutes } from './map-tiles.routes.js';
 import { availabilityRoutes } from './availability.routes.js';
+import { subCourtRoutes } from './sub-court.routes.js';
+import { pricingRuleRoutes } from './pricing-rule.routes.js';
+import { closureRoutes } from './closure.routes.js';
+import { holidayAdminRoutes, courtHolidayRoutes } from './holiday.routes.js';
+import { cancellationPolicyRoutes } from './cancellation-policy.routes.js';
+import { dynamicPricingRoutes } from './dynamic-pricing.routes.js';
+import { bookingPolicyRoutes } from './booking-policy.routes.js';
 import { bookingRoutes } from './booking.routes.js';
+import { bookingSeriesRoutes } from './booking-series.routes.js';
+import { waitlistRoutes } from './waitlist.routes.js';
+import { reviewRoutes, courtReviewRoutes, reviewAdminRoutes } from './review.routes.js';
+import { openGameRoutes } from './open-game.routes.js';
 import { paymentRoutes } from './payment.routes.js';
+import { refundRoutes } from './refund.routes.js';
+import { splitPaymentRoutes } from './split-payment.routes.js';
 import { searchRoutes, searchAdminRoutes } from './search.routes.js';
 import { authRoutes } from './auth.routes.js';
+import { voucherAdminRoutes } from './voucher.routes.js';
+import { packageRoutes, courtPackageRoutes } from './package.routes.js';
+import { webhookRoutes } from './webhook.routes.js';
+import { notificationRoutes } from './notification.routes.js';
+import { adminRoutes } from './admin.routes.js';
+import { requireAuth, requireRole } from '../middlewares/index.js';
 
 const router = Router();
 
 router.use('/auth', authRoutes);
 router.use('/courts', courtRoutes);
 router.use('/map-tiles', mapTilesRoutes);
-router.use('/', availabilityRoutes); // /courts/:courtId/availability
+router.use('/', availabilityRoutes); // /courts/:courtId/availability, /availability/search
+router.use('/', subCourtRoutes); // /courts/:courtId/sub-courts
+router.use('/', pricingRuleRoutes); // /courts/:courtId/pricing-rules
+router.use('/', closureRoutes); // /courts/:courtId/closures
+router.use('/', courtHolidayRoutes); // /courts/:courtId/holiday-overrides
+router.use('/', cancellationPolicyRoutes); // /courts/:courtId/cancellation-policy
+router.use('/', dynamicPricingRoutes); // /courts/:courtId/dynamic-pricing
+router.use('/', bookingPolicyRoutes); // /courts/:courtId/booking-policy
+router.use('/', courtReviewRoutes); // /courts/:courtId/reviews
+router.use('/', courtPackageRoutes); // /courts/:courtId/package-plans, /courts/:courtId/packages
+router.use('/', webhookRoutes); // /courts/:courtId/webhooks
 router.use('/bookings', bookingRoutes);
+router.use('/booking-series', bookingSeriesRoutes);
+router.use('/waitlist', waitlistRoutes);
+router.use('/reviews', reviewRoutes);
+router.use('/open-games', openGameRoutes);
 router.use('/payments', paymentRoutes);
+router.use('/refunds', refundRoutes);
+router.use('/split-payments', splitPaymentRoutes);
+router.use('/packages', packageRoutes);
+router.use('/notifications', notificationRoutes);
 router.use('/search', searchRoutes);
+router.use('/admin', requireAuth, requireRole('platform_admin')); // Guards every /admin/* route
 router.use('/admin/search', searchAdminRoutes);
+router.use('/admin', holidayAdminRoutes);
+router.use('/admin', reviewAdminRoutes);
+router.use('/admin', voucherAdminRoutes);
+router.use('/admin', adminRoutes);
 
 export { router as apiRoutes };
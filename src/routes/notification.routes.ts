@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { notificationController } from '../controllers/index.js';
+import { requireAuth } from '../middlewares/index.js';
+
+// Outbox of the notifications sent to the user - mounted at /notifications
+// Clients that were offline read what they missed here, or replay it over WebSocket
+const router = Router();
+
+// GET /notifications
+router.get('/', requireAuth, (req, res, next) => notificationController.getMine(req, res, next));
+
+export { router as notificationRoutes };
@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import { openGameController } from '../controllers/index.js';
+import { requireAuth } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /open-games/nearby?latitude=x&longitude=y&radius=5&date=YYYY-MM-DD&skillLevel=3
+// Must be declared before /:id
+router.get('/nearby', (req, res, next) => openGameController.getNearby(req, res, next));
+
+// GET /open-games/:id
+router.get('/:id', (req, res, next) => openGameController.getById(req, res, next));
+
+// POST /open-games
+// Requires: the booking's owner
+router.post('/', requireAuth, (req, res, next) => openGameController.create(req, res, next));
+
+// PUT /open-games/:id
+// Requires: host or platform admin
+router.put('/:id', requireAuth, (req, res, next) => openGameController.update(req, res, next));
+
+// DELETE /open-games/:id
+// Stop taking players. Requires: host or platform admin
+router.delete('/:id', requireAuth, (req, res, next) => openGameController.close(req, res, next));
+
+// POST /open-games/:id/join
+router.post('/:id/join', requireAuth, (req, res, next) => openGameController.join(req, res, next));
+
+// DELETE /open-games/:id/join
+router.delete('/:id/join', requireAuth, (req, res, next) => openGameController.withdraw(req, res, next));
+
+// GET /open-games/:id/players
+// Requires: host or platform admin
+router.get('/:id/players', requireAuth, (req, res, next) => openGameController.getPlayers(req, res, next));
+
+// PUT /open-games/:id/players/:playerId
+// Accept or decline a join request. Requires: host or platform admin
+router.put('/:id/players/:playerId', requireAuth, (req, res, next) =>
+  openGameController.respond(req, res, next)
+);
+
+export { router as openGameRoutes };
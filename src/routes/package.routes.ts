@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { packageController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+// Prepaid court time bought by players - mounted at /packages
+// Players pay a booking with packageId when creating it
+const router = Router();
+
+// Packages belong to registered users
+router.use(requireRegisteredUser);
+
+// GET /packages
+router.get('/', (req, res, next) => packageController.getMine(req, res, next));
+
+// POST /packages
+// Buy a plan; the package is activated once its ZaloPay order is paid
+router.post('/', (req, res, next) => packageController.purchase(req, res, next));
+
+// GET /packages/:id
+// Requires: package holder, court owner/staff or platform admin
+router.get('/:id', (req, res, next) => packageController.getById(req, res, next));
+
+// GET /packages/:id/transactions
+// Requires: package holder, court owner/staff or platform admin
+router.get('/:id/transactions', (req, res, next) => packageController.getTransactions(req, res, next));
+
+// Court package plans - mounted at /
+const courtRouter = Router();
+
+// GET /courts/:courtId/package-plans
+// Public - players see what the court sells
+courtRouter.get('/courts/:courtId/package-plans', (req, res, next) => packageController.getPlans(req, res, next));
+
+// POST /courts/:courtId/package-plans
+// Requires: court owner or platform admin
+courtRouter.post(
+  '/courts/:courtId/package-plans',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => packageController.createPlan(req, res, next)
+);
+
+// PUT /courts/:courtId/package-plans/:planId
+// Requires: court owner or platform admin
+courtRouter.put(
+  '/courts/:courtId/package-plans/:planId',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => packageController.updatePlan(req, res, next)
+);
+
+// POST /courts/:courtId/packages
+// Record a package sold at the venue
+// Requires: court owner/staff or platform admin
+courtRouter.post(
+  '/courts/:courtId/packages',
+  requireRegisteredUser,
+  requireCourtPermission(),
+  (req, res, next) => packageController.grant(req, res, next)
+);
+
+export { router as packageRoutes, courtRouter as courtPackageRoutes };
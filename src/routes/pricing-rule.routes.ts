@@ -0,0 +1,36 @@
+import { Router } from 'express';
+import { pricingRuleController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// Pricing rules are managed by court owners/staff (or platform admins)
+router.use('/courts/:courtId/pricing-rules', requireRegisteredUser, requireCourtPermission());
+
+// GET /courts/:courtId/pricing-rules
+router.get('/courts/:courtId/pricing-rules', (req, res, next) => pricingRuleController.getAll(req, res, next));
+
+// GET /courts/:courtId/pricing-rules/coverage
+router.get('/courts/:courtId/pricing-rules/coverage', (req, res, next) =>
+  pricingRuleController.getCoverage(req, res, next)
+);
+
+// POST /courts/:courtId/pricing-rules/preview
+router.post('/courts/:courtId/pricing-rules/preview', (req, res, next) =>
+  pricingRuleController.preview(req, res, next)
+);
+
+// POST /courts/:courtId/pricing-rules
+router.post('/courts/:courtId/pricing-rules', (req, res, next) => pricingRuleController.create(req, res, next));
+
+// PUT /courts/:courtId/pricing-rules/:ruleId
+router.put('/courts/:courtId/pricing-rules/:ruleId', (req, res, next) =>
+  pricingRuleController.update(req, res, next)
+);
+
+// DELETE /courts/:courtId/pricing-rules/:ruleId
+router.delete('/courts/:courtId/pricing-rules/:ruleId', (req, res, next) =>
+  pricingRuleController.delete(req, res, next)
+);
+
+export { router as pricingRuleRoutes };
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { refundController } from '../controllers/index.js';
+import { optionalAuth, requireRefundAccess } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /refunds/:id
+// Get refund by ID, synced with ZaloPay while processing (booking owner, court staff or guest access token)
+router.get('/:id', optionalAuth, requireRefundAccess(), (req, res, next) =>
+  refundController.getRefund(req, res, next)
+);
+
+export { router as refundRoutes };
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { reviewController } from '../controllers/index.js';
+import { requireAuth } from '../middlewares/index.js';
+
+// Reviews written by players - mounted at /reviews
+const router = Router();
+
+// Reviews are written by the player of a completed booking; replies by the court's owners/staff
+router.use(requireAuth);
+
+// POST /reviews
+router.post('/', (req, res, next) => reviewController.create(req, res, next));
+
+// PUT /reviews/:id
+router.put('/:id', (req, res, next) => reviewController.update(req, res, next));
+
+// DELETE /reviews/:id
+// Requires: review author or platform admin
+router.delete('/:id', (req, res, next) => reviewController.delete(req, res, next));
+
+// PUT /reviews/:id/reply
+// Requires: court owner/staff or platform admin
+router.put('/:id/reply', (req, res, next) => reviewController.reply(req, res, next));
+
+// DELETE /reviews/:id/reply
+// Requires: court owner/staff or platform admin
+router.delete('/:id/reply', (req, res, next) => reviewController.deleteReply(req, res, next));
+
+// POST /reviews/:id/flag
+router.post('/:id/flag', (req, res, next) => reviewController.flag(req, res, next));
+
+// Public court reviews - mounted at /
+const courtRouter = Router();
+
+// GET /courts/:courtId/reviews?page=1&limit=10&sort=newest
+courtRouter.get('/courts/:courtId/reviews', (req, res, next) => reviewController.getByCourt(req, res, next));
+
+// Moderation - mounted under /admin behind requireAuth + requireRole('platform_admin')
+const adminRouter = Router();
+
+// GET /admin/reviews/flagged
+adminRouter.get('/reviews/flagged', (req, res, next) => reviewController.getFlagged(req, res, next));
+
+// PUT /admin/reviews/:id/moderation
+adminRouter.put('/reviews/:id/moderation', (req, res, next) => reviewController.moderate(req, res, next));
+
+export { router as reviewRoutes, courtRouter as courtReviewRoutes, adminRouter as reviewAdminRoutes };
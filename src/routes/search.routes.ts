@@ -23,7 +23,7 @@ router.get('/popular', (req, res, next) =>
 
 export { router as searchRoutes };
 
-// Admin routes - should be mounted separately with auth middleware
+// Admin routes - mounted under /admin, which requires the platform_admin role
 const adminRouter = Router();
 
 // POST /admin/search/reindex
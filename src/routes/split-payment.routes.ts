@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { splitPaymentController } from '../controllers/index.js';
+import { optionalAuth, requireSplitPaymentAccess } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /split-payments/:id
+// Get a split payment with the state of each share (share token or booking access required)
+router.get('/:id', optionalAuth, requireSplitPaymentAccess(), (req, res, next) =>
+  splitPaymentController.getSplitPayment(req, res, next)
+);
+
+// POST /split-payments/:id/shares/:shareNumber
+// Get the ZaloPay order and QR code of one share (share token or booking access required)
+router.post('/:id/shares/:shareNumber', optionalAuth, requireSplitPaymentAccess(), (req, res, next) =>
+  splitPaymentController.payShare(req, res, next)
+);
+
+export { router as splitPaymentRoutes };
@@ -0,0 +1,41 @@
+import { Router } from 'express';
+import { subCourtController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// GET /courts/:courtId/sub-courts
+router.get('/courts/:courtId/sub-courts', (req, res, next) => subCourtController.getAll(req, res, next));
+
+// POST /courts/:courtId/sub-courts
+// Requires: court owner/staff or platform admin
+router.post('/courts/:courtId/sub-courts', requireRegisteredUser, requireCourtPermission(), (req, res, next) =>
+  subCourtController.create(req, res, next)
+);
+
+// PUT /courts/:courtId/sub-courts/order
+// Requires: court owner/staff or platform admin
+// Must be declared before /:subCourtId so "order" is not treated as an ID
+router.put('/courts/:courtId/sub-courts/order', requireRegisteredUser, requireCourtPermission(), (req, res, next) =>
+  subCourtController.reorder(req, res, next)
+);
+
+// PUT /courts/:courtId/sub-courts/:subCourtId?force=true
+// Requires: court owner/staff or platform admin
+router.put(
+  '/courts/:courtId/sub-courts/:subCourtId',
+  requireRegisteredUser,
+  requireCourtPermission(),
+  (req, res, next) => subCourtController.update(req, res, next)
+);
+
+// DELETE /courts/:courtId/sub-courts/:subCourtId
+// Requires: court owner or platform admin
+router.delete(
+  '/courts/:courtId/sub-courts/:subCourtId',
+  requireRegisteredUser,
+  requireCourtPermission(['owner']),
+  (req, res, next) => subCourtController.delete(req, res, next)
+);
+
+export { router as subCourtRoutes };
@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import { voucherController } from '../controllers/index.js';
+
+// Vouchers - mounted under /admin behind requireAuth + requireRole('platform_admin')
+// Players apply a voucher with voucherCode when creating a booking
+const router = Router();
+
+// GET /admin/vouchers?page=1&limit=20&active=true
+router.get('/vouchers', (req, res, next) => voucherController.getAll(req, res, next));
+
+// GET /admin/vouchers/:id
+router.get('/vouchers/:id', (req, res, next) => voucherController.getById(req, res, next));
+
+// POST /admin/vouchers
+router.post('/vouchers', (req, res, next) => voucherController.create(req, res, next));
+
+// PUT /admin/vouchers/:id
+router.put('/vouchers/:id', (req, res, next) => voucherController.update(req, res, next));
+
+// DELETE /admin/vouchers/:id
+router.delete('/vouchers/:id', (req, res, next) => voucherController.delete(req, res, next));
+
+export { router as voucherAdminRoutes };
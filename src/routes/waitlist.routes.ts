@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { waitlistController } from '../controllers/index.js';
+import { requireAuth } from '../middlewares/index.js';
+
+const router = Router();
+
+// Entries belong to the user who joined; offers are sent to their websocket subscription
+router.use(requireAuth);
+
+// POST /waitlist
+router.post('/', (req, res, next) => waitlistController.join(req, res, next));
+
+// GET /waitlist
+router.get('/', (req, res, next) => waitlistController.getMine(req, res, next));
+
+// GET /waitlist/:id
+router.get('/:id', (req, res, next) => waitlistController.getById(req, res, next));
+
+// DELETE /waitlist/:id
+// Leave the waitlist (a held slot goes to the next person)
+router.delete('/:id', (req, res, next) => waitlistController.leave(req, res, next));
+
+// POST /waitlist/:id/claim
+// Book the held slot before the offer expires
+router.post('/:id/claim', (req, res, next) => waitlistController.claim(req, res, next));
+
+export { router as waitlistRoutes };
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { webhookController } from '../controllers/index.js';
+import { requireRegisteredUser, requireCourtPermission } from '../middlewares/index.js';
+
+const router = Router();
+
+// Webhooks hold signing secrets, so they are managed by court owners (or platform admins)
+router.use('/courts/:courtId/webhooks', requireRegisteredUser, requireCourtPermission(['owner']));
+
+// GET /courts/:courtId/webhooks
+router.get('/courts/:courtId/webhooks', (req, res, next) => webhookController.getAll(req, res, next));
+
+// POST /courts/:courtId/webhooks
+router.post('/courts/:courtId/webhooks', (req, res, next) => webhookController.create(req, res, next));
+
+// PUT /courts/:courtId/webhooks/:webhookId
+router.put('/courts/:courtId/webhooks/:webhookId', (req, res, next) => webhookController.update(req, res, next));
+
+// DELETE /courts/:courtId/webhooks/:webhookId
+router.delete('/courts/:courtId/webhooks/:webhookId', (req, res, next) => webhookController.delete(req, res, next));
+
+// GET /courts/:courtId/webhooks/:webhookId/deliveries?status=failed&limit=50
+router.get('/courts/:courtId/webhooks/:webhookId/deliveries', (req, res, next) =>
+  webhookController.getDeliveries(req, res, next)
+);
+
+// POST /courts/:courtId/webhooks/:webhookId/deliveries/:deliveryId/redeliver
+router.post('/courts/:courtId/webhooks/:webhookId/deliveries/:deliveryId/redeliver', (req, res, next) =>
+  webhookController.redeliver(req, res, next)
+);
+
+export { router as webhookRoutes };
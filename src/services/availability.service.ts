@@ -1,20 +1,85 @@
-import { availabilityRepository, courtRepository } from '../repositories/index.js';
+import { prisma } from '../config/database.js';
+import {
+  availabilityRepository,
+  bookingChangeRepository,
+  courtRepository,
+  packageRepository,
+  paymentRepository,
+  splitPaymentRepository,
+} from '../repositories/index.js';
 import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
 import { randomUUID } from 'crypto';
+import { refundService } from './refund.service.js';
+import { splitPaymentService } from './split-payment.service.js';
+import { waitlistService } from './waitlist.service.js';
+import { voucherService } from './voucher.service.js';
+import { packageService } from './package.service.js';
+import { bookingChangeService } from './booking-change.service.js';
+import { webhookService } from './webhook.service.js';
+import { websocketService } from './websocket.service.js';
+import { pushService } from './push.service.js';
+import { redisService } from './redis.service.js';
+import { createBookingAccessToken, normalizePhone } from '../utils/booking-access.js';
+import { getHoursBeforeStart } from '../utils/cancellation-policy.js';
+import { getOccupancyPercent, getPriceAdjustments, getAdjustmentMultiplier } from '../utils/dynamic-pricing.js';
+import { resolveBookingPolicy, isWithinBookingWindow } from '../utils/booking-policy.js';
+import {
+  isValidDateFormat,
+  isValidTimeFormat,
+  addMinutes,
+  getMinutesBetween,
+  getDayOfWeek,
+} from '../utils/date-time.js';
 import type {
   CourtAvailabilityResponse,
+  CourtAvailabilityCalendarResponse,
+  DayAvailability,
+  DayAvailabilitySummary,
+  CheapestSlot,
   SubCourtAvailability,
   TimeSlot,
+  RawSubCourt,
   RawBooking,
   RawPricingRule,
   RawClosure,
   CreateBookingDto,
   BookingResponse,
+  CreatedBookingResponse,
+  CancelBookingResponse,
   OpeningHours,
+  DayType,
+  VoucherBookingLine,
+  DynamicPricing,
+  PriceAdjustment,
+  BookingPolicy,
+  SlotSearchParams,
+  SlotSearchResult,
+  BookingMove,
+  ChangeBookingDto,
+  ChangeBookingResponse,
 } from '../types/index.js';
+import { SLOT_SEARCH_SORTS } from '../types/index.js';
 
-// Day name mapping for opening hours
-const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+// Longest range the availability calendar returns
+const MAX_CALENDAR_DAYS = 14;
+
+// Widest radius of the cross-venue slot search
+const MAX_SEARCH_RADIUS_KM = 50;
+
+// What a court's booking policy and dynamic pricing need to build the slots of a date
+interface SlotContext {
+  date: string;
+  now: Date;
+  policy: BookingPolicy;
+  pricing: DynamicPricing | null;
+  occupancyPercent: number;
+}
+
+// Price of a time range with the dynamic adjustments applied to any of its slots
+interface PriceQuote {
+  totalPrice: number;
+  adjustments: PriceAdjustment[];
+}
 
 export class AvailabilityService {
   /**
@@ -22,7 +87,7 @@ export class AvailabilityService {
    */
   async getCourtAvailability(courtId: string, date: string): Promise<CourtAvailabilityResponse> {
     // Validate date format
-    if (!this.isValidDateFormat(date)) {
+    if (!isValidDateFormat(date)) {
       throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
     }
 
@@ -33,8 +98,7 @@ export class AvailabilityService {
     }
 
     // Parse opening hours for the specific day
-    const dateObj = new Date(date);
-    const dayOfWeek = DAY_NAMES[dateObj.getDay()]!;
+    const dayOfWeek = getDayOfWeek(date);
     const openingHours = court.openingHours as OpeningHours;
     const dayHours = openingHours[dayOfWeek];
 
@@ -45,8 +109,8 @@ export class AvailabilityService {
     const [openingTime = '00:00', closingTime = '23:59'] = dayHours.split('-');
 
     // Determine day type (holiday, weekend, or weekday)
-    const isHoliday = await availabilityRepository.isHoliday(date);
-    const isWeekend = dateObj.getDay() === 0 || dateObj.getDay() === 6;
+    const isHoliday = await availabilityRepository.isHoliday(date, courtId);
+    const isWeekend = dayOfWeek === 'sat' || dayOfWeek === 'sun';
     const dayType: 'holiday' | 'weekend' | 'weekday' = isHoliday 
       ? 'holiday' 
       : isWeekend 
@@ -59,52 +123,285 @@ export class AvailabilityService {
       availabilityRepository.getBookingsByCourtAndDate(courtId, date),
       availabilityRepository.getPricingRulesByCourtId(courtId),
       availabilityRepository.getClosuresByCourtAndDate(courtId, date),
-      availabilityRepository.getHolidayMultiplier(date),
+      availabilityRepository.getHolidayMultiplier(date, courtId),
     ]);
 
     // Group bookings and closures by sub-court
     const bookingsBySubCourt = this.groupBySubCourt(bookings);
     const closuresBySubCourt = this.groupClosuresBySubCourt(closures);
 
+    const occupancyPercent = this.calculateOccupancy(subCourts, bookings, openingTime, closingTime);
+    const bookingPolicy = resolveBookingPolicy(court.bookingPolicy);
+    const context: SlotContext = {
+      date,
+      now: new Date(),
+      policy: bookingPolicy,
+      pricing: court.dynamicPricing as DynamicPricing | null,
+      occupancyPercent,
+    };
+
     // Generate availability for each sub-court
-    const subCourtAvailability: SubCourtAvailability[] = subCourts.map(subCourt => {
-      const subCourtBookings = bookingsBySubCourt.get(subCourt.id) ?? [];
-      const subCourtClosures = closuresBySubCourt.get(subCourt.id) ?? [];
+    const subCourtAvailability = this.buildSubCourtAvailability(
+      subCourts,
+      bookingsBySubCourt,
+      closuresBySubCourt,
+      openingTime,
+      closingTime,
+      pricingRules,
+      dayType,
+      holidayMultiplier,
+      context
+    );
+
+    return {
+      courtId: court.id,
+      courtName: court.name,
+      date,
+      dayType,
+      openingTime,
+      closingTime,
+      occupancyPercent: Math.round(occupancyPercent),
+      bookingPolicy,
+      subCourts: subCourtAvailability,
+    };
+  }
+
+  /**
+   * Get availability for a court over a range of dates (inclusive, at most MAX_CALENDAR_DAYS)
+   * Bookings, closures and holidays of the whole range are fetched in one query each
+   * Days the court is closed are listed with isOpen = false and no sub-courts
+   */
+  async getCourtAvailabilityRange(courtId: string, from: string, to: string): Promise<CourtAvailabilityCalendarResponse> {
+    if (!isValidDateFormat(from) || !isValidDateFormat(to)) {
+      throw new BadRequestError('Invalid date format for from/to. Use YYYY-MM-DD');
+    }
+    const dates = this.getDatesBetween(from, to);
+    if (dates.length === 0) {
+      throw new BadRequestError('from must not be after to');
+    }
+    if (dates.length > MAX_CALENDAR_DAYS) {
+      throw new BadRequestError(`The calendar covers at most ${MAX_CALENDAR_DAYS} days`);
+    }
+
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+
+    const [subCourts, bookings, pricingRules, closures, holidays] = await Promise.all([
+      availabilityRepository.getSubCourtsByCourtId(courtId),
+      availabilityRepository.getBookingsByCourtAndDateRange(courtId, from, to),
+      availabilityRepository.getPricingRulesByCourtId(courtId),
+      availabilityRepository.getClosuresByCourtAndDateRange(courtId, from, to),
+      availabilityRepository.getHolidayInfoByDateRange(from, to, courtId),
+    ]);
+
+    const bookingsByDate = this.groupByDate(bookings);
+    const closuresByDate = this.groupByDate(closures);
+    const openingHours = court.openingHours as OpeningHours;
+    const bookingPolicy = resolveBookingPolicy(court.bookingPolicy);
+    const pricing = court.dynamicPricing as DynamicPricing | null;
+    const now = new Date();
+
+    const days = dates.map((date): DayAvailability => {
+      const dayOfWeek = getDayOfWeek(date);
+      const holiday = holidays.get(date) ?? { isHoliday: false, multiplier: 1.0 };
+      const isWeekend = dayOfWeek === 'sat' || dayOfWeek === 'sun';
+      const dayType: DayType = holiday.isHoliday ? 'holiday' : isWeekend ? 'weekend' : 'weekday';
+
+      const dayHours = openingHours[dayOfWeek];
+      if (!dayHours) {
+        return {
+          date,
+          dayType,
+          isOpen: false,
+          openingTime: null,
+          closingTime: null,
+          occupancyPercent: 0,
+          summary: { freeHours: 0, cheapestSlot: null },
+          subCourts: [],
+        };
+      }
+      const [openingTime = '00:00', closingTime = '23:59'] = dayHours.split('-');
 
-      const slots = this.generateTimeSlots(
+      const dayBookings = bookingsByDate.get(date) ?? [];
+      const occupancyPercent = this.calculateOccupancy(subCourts, dayBookings, openingTime, closingTime);
+      const subCourtAvailability = this.buildSubCourtAvailability(
+        subCourts,
+        this.groupBySubCourt(dayBookings),
+        this.groupClosuresBySubCourt(closuresByDate.get(date) ?? []),
         openingTime,
         closingTime,
-        subCourtBookings,
-        subCourtClosures,
         pricingRules,
         dayType,
-        holidayMultiplier
+        holiday.multiplier,
+        { date, now, policy: bookingPolicy, pricing, occupancyPercent }
       );
 
       return {
-        id: subCourt.id,
-        name: subCourt.name,
-        description: subCourt.description,
-        isActive: subCourt.is_active,
-        slots,
+        date,
+        dayType,
+        isOpen: true,
+        openingTime,
+        closingTime,
+        occupancyPercent: Math.round(occupancyPercent),
+        summary: this.summarizeDay(subCourtAvailability),
+        subCourts: subCourtAvailability,
       };
     });
 
     return {
       courtId: court.id,
       courtName: court.name,
-      date,
-      dayType,
-      openingTime,
-      closingTime,
-      subCourts: subCourtAvailability,
+      from,
+      to,
+      bookingPolicy,
+      days,
     };
   }
 
+  /**
+   * Find venues near a location with at least one sub-court free for a whole time window
+   * Sub-courts, pricing rules, bookings, closures and holidays of all nearby courts are fetched in one query each
+   * Venues whose opening hours or booking policy do not allow the window are left out
+   */
+  async searchAvailableSlots(params: SlotSearchParams): Promise<SlotSearchResult[]> {
+    const { date, startTime, endTime } = params;
+    const radiusKm = params.radius ?? 5;
+    if (radiusKm <= 0 || radiusKm > MAX_SEARCH_RADIUS_KM) {
+      throw new BadRequestError(`radius must be between 0 and ${MAX_SEARCH_RADIUS_KM} km`);
+    }
+    if (!isValidDateFormat(date)) {
+      throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
+    }
+    if (!isValidTimeFormat(startTime) || !isValidTimeFormat(endTime)) {
+      throw new BadRequestError('Invalid time format for startTime/endTime. Use HH:mm');
+    }
+    if (startTime >= endTime) {
+      throw new BadRequestError('startTime must be before endTime');
+    }
+    if (params.maxPricePerHour !== undefined && !(params.maxPricePerHour > 0)) {
+      throw new BadRequestError('maxPricePerHour must be a positive number');
+    }
+    if (params.sort !== undefined && !SLOT_SEARCH_SORTS.includes(params.sort)) {
+      throw new BadRequestError(`sort must be one of: ${SLOT_SEARCH_SORTS.join(', ')}`);
+    }
+
+    const nearby = await courtRepository.findNearby(
+      { latitude: params.latitude, longitude: params.longitude },
+      radiusKm
+    );
+    if (nearby.length === 0) {
+      return [];
+    }
+    const courtIds = nearby.map(court => court.id);
+
+    const [courts, subCourts, pricingRules, bookings, closures, holidays] = await Promise.all([
+      courtRepository.findByIds(courtIds),
+      availabilityRepository.getSubCourtsByCourtIds(courtIds),
+      availabilityRepository.getPricingRulesByCourtIds(courtIds),
+      availabilityRepository.getBookingsByCourtIdsAndDate(courtIds, date),
+      availabilityRepository.getClosuresByCourtIdsAndDate(courtIds, date),
+      availabilityRepository.getHolidayInfoByCourtIds(date, courtIds),
+    ]);
+
+    const courtsById = new Map(courts.map(court => [court.id, court]));
+    const subCourtsByCourt = this.groupByCourt(subCourts);
+    const pricingRulesByCourt = this.groupByCourt(pricingRules);
+    const bookingsBySubCourt = this.groupBySubCourt(bookings);
+    const closuresBySubCourt = this.groupClosuresBySubCourt(closures);
+
+    const now = new Date();
+    const dayOfWeek = getDayOfWeek(date);
+    const isWeekend = dayOfWeek === 'sat' || dayOfWeek === 'sun';
+    const durationMinutes = getMinutesBetween(startTime, endTime);
+    const results: SlotSearchResult[] = [];
+
+    for (const venue of nearby) {
+      const court = courtsById.get(venue.id);
+      const dayHours = (court?.openingHours as OpeningHours | undefined)?.[dayOfWeek];
+      if (!court || !dayHours) {
+        continue;
+      }
+      const [openingTime = '00:00', closingTime = '23:59'] = dayHours.split('-');
+      if (startTime < openingTime || endTime > closingTime) {
+        continue;
+      }
+      const policy = resolveBookingPolicy(court.bookingPolicy);
+      if (this.getBookingPolicyViolation(policy, openingTime, { date, startTime }, durationMinutes, now)) {
+        continue;
+      }
+
+      // Sub-courts with no confirmed booking or closure overlapping the window
+      const courtSubCourts = subCourtsByCourt.get(court.id) ?? [];
+      const freeSubCourts = courtSubCourts.filter(subCourt => {
+        const isBooked = (bookingsBySubCourt.get(subCourt.id) ?? []).some(booking =>
+          this.isTimeOverlapping(startTime, endTime, booking.start_time, booking.end_time)
+        );
+        const isClosed = (closuresBySubCourt.get(subCourt.id) ?? []).some(closure =>
+          !closure.start_time || !closure.end_time ||
+          this.isTimeOverlapping(startTime, endTime, closure.start_time, closure.end_time)
+        );
+        return !isBooked && !isClosed;
+      });
+      if (freeSubCourts.length === 0) {
+        continue;
+      }
+
+      // Price the window as POST /bookings would charge it
+      const holiday = holidays.get(court.id) ?? { isHoliday: false, multiplier: 1.0 };
+      const dayType: DayType = holiday.isHoliday ? 'holiday' : isWeekend ? 'weekend' : 'weekday';
+      const pricing = court.dynamicPricing as DynamicPricing | null;
+      const occupancyPercent = pricing?.surge
+        ? this.calculateOccupancy(
+          courtSubCourts,
+          courtSubCourts.flatMap(subCourt => bookingsBySubCourt.get(subCourt.id) ?? []),
+          openingTime,
+          closingTime
+        )
+        : 0;
+      const { totalPrice, adjustments } = this.calculateTotalPrice(
+        startTime,
+        endTime,
+        pricingRulesByCourt.get(court.id) ?? [],
+        dayType,
+        holiday.multiplier,
+        { date, now, policy, pricing, occupancyPercent }
+      );
+      const pricePerHour = Math.round((totalPrice * 60) / durationMinutes);
+      if (params.maxPricePerHour !== undefined && pricePerHour > params.maxPricePerHour) {
+        continue;
+      }
+
+      results.push({
+        courtId: court.id,
+        courtName: court.name,
+        addressStreet: court.addressStreet,
+        addressDistrict: court.addressDistrict,
+        distance: Math.round(Number(venue.distance)),
+        totalPrice,
+        pricePerHour,
+        adjustments,
+        subCourts: freeSubCourts.map(subCourt => ({
+          id: subCourt.id,
+          name: subCourt.name,
+          surfaceType: subCourt.surface_type,
+        })),
+      });
+    }
+
+    // findNearby already orders by distance
+    if (params.sort === 'price') {
+      results.sort((a, b) => a.pricePerHour - b.pricePerHour || a.distance - b.distance);
+    }
+    return results;
+  }
+
   /**
    * Create a new booking (supports multiple sub-courts)
+   * Each booking comes with a guest access token for reading or cancelling it later
    */
-  async createBooking(data: CreateBookingDto): Promise<BookingResponse[]> {
+  async createBooking(data: CreateBookingDto): Promise<CreatedBookingResponse[]> {
     if (!data.userId) {
       throw new BadRequestError('User context is required to create a booking');
     }
@@ -124,15 +421,34 @@ export class AvailabilityService {
       throw new BadRequestError('Invalid booking data: provide either bookings array or single booking details');
     }
 
+    if (data.voucherCode !== undefined && typeof data.voucherCode !== 'string') {
+      throw new BadRequestError('voucherCode must be a string');
+    }
+    if (data.packageId !== undefined && typeof data.packageId !== 'string') {
+      throw new BadRequestError('packageId must be a string');
+    }
+    if (data.packageId && data.voucherCode) {
+      throw new BadRequestError('A voucher cannot be used when paying with a package');
+    }
+
     const groupId = randomUUID();
-    const preparedBookings = [];
+    const preparedBookings: Parameters<typeof availabilityRepository.createBookings>[0] = [];
+    const voucherLines: VoucherBookingLine[] = [];
+    const priceAdjustments: PriceAdjustment[][] = [];
+    const courtIds = new Set<string>();
+    const courts = new Map<
+      string,
+      { policy: BookingPolicy; openingHours: OpeningHours; activeBookings: number | null; newBookings: number }
+    >();
+    const now = new Date();
+    let packageMinutes = 0;
 
     for (const item of bookingsToProcess) {
       // Validate date and time formats
-      if (!this.isValidDateFormat(item.date)) {
+      if (!isValidDateFormat(item.date)) {
         throw new BadRequestError(`Invalid date format for ${item.date}. Use YYYY-MM-DD`);
       }
-      if (!this.isValidTimeFormat(item.startTime) || !this.isValidTimeFormat(item.endTime)) {
+      if (!isValidTimeFormat(item.startTime) || !isValidTimeFormat(item.endTime)) {
         throw new BadRequestError(`Invalid time format for ${item.startTime}-${item.endTime}. Use HH:mm`);
       }
 
@@ -141,17 +457,6 @@ export class AvailabilityService {
         throw new BadRequestError(`Start time must be before end time for ${item.startTime}-${item.endTime}`);
       }
 
-      // Validate minimum booking duration (1 hour)
-      const durationMinutes = this.getMinutesBetween(item.startTime, item.endTime);
-      if (durationMinutes < 60) {
-        throw new BadRequestError('Minimum booking duration is 1 hour');
-      }
-
-      // Validate 30-minute increment
-      if (durationMinutes % 30 !== 0) {
-        throw new BadRequestError('Booking duration must be in 30-minute increments');
-      }
-
       // Get sub-court with court info
       const subCourt = await availabilityRepository.getSubCourtWithCourt(item.subCourtId);
       if (!subCourt) {
@@ -161,6 +466,27 @@ export class AvailabilityService {
         throw new BadRequestError(`Sub-court ${subCourt.name} is not active`);
       }
 
+      // Validate duration, slot grid and booking window against the court's policy
+      let court = courts.get(subCourt.court_id);
+      if (!court) {
+        court = { ...(await this.getCourtBookingRules(subCourt.court_id)), activeBookings: null, newBookings: 0 };
+        courts.set(subCourt.court_id, court);
+      }
+      const durationMinutes = getMinutesBetween(item.startTime, item.endTime);
+      this.validateBookingPolicy(court.policy, court.openingHours, item, durationMinutes, now);
+
+      // Limit the upcoming bookings a user holds at the court
+      court.newBookings++;
+      const { maxActiveBookingsPerUser } = court.policy;
+      if (maxActiveBookingsPerUser !== null) {
+        court.activeBookings ??= await availabilityRepository.countActiveBookingsByUser(data.userId, subCourt.court_id);
+        if (court.activeBookings + court.newBookings > maxActiveBookingsPerUser) {
+          throw new BadRequestError(
+            `You can hold at most ${maxActiveBookingsPerUser} upcoming bookings at this court (${court.activeBookings} already)`
+          );
+        }
+      }
+
       // Check for overlapping bookings
       const hasOverlap = await availabilityRepository.hasOverlappingBooking(
         item.subCourtId,
@@ -173,25 +499,11 @@ export class AvailabilityService {
       }
 
       // Calculate total price
-      const dateObj = new Date(item.date);
-      const [isHoliday, holidayMultiplier] = await Promise.all([
-        availabilityRepository.isHoliday(item.date),
-        availabilityRepository.getHolidayMultiplier(item.date),
-      ]);
-      const isWeekend = dateObj.getDay() === 0 || dateObj.getDay() === 6;
-      const dayType: 'holiday' | 'weekend' | 'weekday' = isHoliday 
-        ? 'holiday' 
-        : isWeekend 
-          ? 'weekend' 
-          : 'weekday';
-
-      const pricingRules = await availabilityRepository.getPricingRulesByCourtId(subCourt.court_id);
-      const totalPrice = this.calculateTotalPrice(
+      const { totalPrice, adjustments } = await this.getPriceQuote(
+        subCourt.court_id,
+        item.date,
         item.startTime,
-        item.endTime,
-        pricingRules,
-        dayType,
-        holidayMultiplier
+        item.endTime
       );
 
       preparedBookings.push({
@@ -199,23 +511,222 @@ export class AvailabilityService {
         date: item.date,
         startTime: item.startTime,
         endTime: item.endTime,
+        originalPrice: totalPrice,
+        discountAmount: 0,
         totalPrice
       });
+      priceAdjustments.push(adjustments);
+      courtIds.add(subCourt.court_id);
+      packageMinutes += durationMinutes;
+      if (data.voucherCode) {
+        voucherLines.push({
+          courtId: subCourt.court_id,
+          dayType: await this.getDayType(subCourt.court_id, item.date),
+          startTime: item.startTime,
+          endTime: item.endTime,
+          price: totalPrice
+        });
+      }
     }
 
-    // Create bookings
-    const createdIds = await availabilityRepository.createBookings(preparedBookings, {
+    // Apply the voucher: each booking keeps its original price and pays the discounted one
+    const voucher = data.voucherCode
+      ? await voucherService.applyVoucher(data.voucherCode, voucherLines, data.userId)
+      : null;
+    if (voucher) {
+      preparedBookings.forEach((booking, i) => {
+        booking.discountAmount = voucher.discounts[i] ?? 0;
+        booking.totalPrice = booking.originalPrice - booking.discountAmount;
+      });
+    }
+
+    const commonData = {
       guestName: data.guestName,
       guestPhone: data.guestPhone,
       guestEmail: data.guestEmail,
       userId: data.userId,
       notes: data.notes,
-      groupId
-    });
+      groupId,
+      voucherId: voucher?.voucherId
+    };
+
+    // Create bookings
+    let createdIds: string[];
+    if (data.packageId) {
+      // Paid with court time: confirmed at once, debiting the package in the same transaction
+      if (courtIds.size > 1) {
+        throw new BadRequestError('A package can only pay for bookings at its own court');
+      }
+      const userPackage = await packageService.getUsablePackage(
+        data.packageId,
+        data.userId,
+        [...courtIds][0]!,
+        packageMinutes
+      );
+
+      // Hold the slots like a payment does, so a slot being paid for or offered to the waitlist is not taken
+      const slotsToLock = preparedBookings.map(booking => ({ ...booking, bookingId: groupId }));
+      if (!(await redisService.acquireSlotLocks(slotsToLock))) {
+        throw new ConflictError('One or more time slots are no longer available');
+      }
+      try {
+        // Another booking may have been confirmed before the locks were taken
+        for (const booking of preparedBookings) {
+          if (await availabilityRepository.hasOverlappingBooking(
+            booking.subCourtId,
+            booking.date,
+            booking.startTime,
+            booking.endTime
+          )) {
+            throw new ConflictError(`Time slot ${booking.startTime}-${booking.endTime} is already booked`);
+          }
+        }
+
+        createdIds = await prisma.$transaction(async (tx) => {
+          const ids = await availabilityRepository.createBookings(
+            preparedBookings,
+            { ...commonData, userPackageId: userPackage.id, status: 'confirmed' },
+            tx
+          );
+          const debited = await packageRepository.debit(
+            userPackage.id,
+            ids.map((id, i) => {
+              const booking = preparedBookings[i]!;
+              return {
+                bookingId: id,
+                minutes: getMinutesBetween(booking.startTime, booking.endTime),
+                note: `Booking ${booking.date} ${booking.startTime}-${booking.endTime}`,
+              };
+            }),
+            tx
+          );
+          if (!debited) {
+            throw new ConflictError('Not enough time left on the package');
+          }
+          return ids;
+        });
+      } finally {
+        await redisService.releaseSlotLocks(slotsToLock);
+      }
+    } else if (voucher) {
+      // The voucher's limits are checked again while it is locked, in the transaction creating the bookings
+      const userId = data.userId;
+      createdIds = await prisma.$transaction(async (tx) => {
+        await voucherService.claimVoucher(voucher.voucherId, userId, tx);
+        return availabilityRepository.createBookings(preparedBookings, commonData, tx);
+      });
+    } else {
+      createdIds = await availabilityRepository.createBookings(preparedBookings, commonData);
+    }
+
+    // Bookings paid with a package are confirmed as they are created
+    for (const id of createdIds) {
+      webhookService.emit('booking.created', id);
+      if (data.packageId) {
+        webhookService.emit('booking.confirmed', id);
+      }
+    }
 
     // Get full booking details
     const responses = await Promise.all(createdIds.map(id => this.getBookingById(id)));
-    return responses;
+    websocketService.notifySlotUpdates('booking_created', false, responses);
+    return responses.map((booking, i) => ({
+      ...booking,
+      accessToken: createBookingAccessToken(booking.id),
+      priceAdjustments: priceAdjustments[i] ?? [],
+    }));
+  }
+
+  /**
+   * Price of a booking on a court for a date and time range
+   * Uses the court's pricing rules for the date's day type, its holiday multiplier and its dynamic pricing
+   */
+  async quotePrice(courtId: string, date: string, startTime: string, endTime: string): Promise<number> {
+    const { totalPrice } = await this.getPriceQuote(courtId, date, startTime, endTime);
+    return totalPrice;
+  }
+
+  /**
+   * Why each slot of a court cannot be booked, or null for slots that can
+   * Checks opening hours, the booking policy and, with a user, how many upcoming bookings they may hold
+   * For bookings made outside createBooking, such as the occurrences of a series
+   */
+  async getBookingRuleViolations(
+    courtId: string,
+    items: { date: string; startTime: string; endTime: string }[],
+    userId?: string
+  ): Promise<(string | null)[]> {
+    const { policy, openingHours } = await this.getCourtBookingRules(courtId);
+    const { maxActiveBookingsPerUser } = policy;
+    let activeBookings =
+      userId && maxActiveBookingsPerUser !== null
+        ? await availabilityRepository.countActiveBookingsByUser(userId, courtId)
+        : 0;
+    const now = new Date();
+
+    return items.map((item) => {
+      const dayHours = openingHours[getDayOfWeek(item.date)];
+      if (!dayHours) {
+        return `The court is closed on ${item.date}`;
+      }
+      const [openingTime = '00:00', closingTime = '24:00'] = dayHours.split('-');
+      if (item.startTime < openingTime || item.endTime > closingTime) {
+        return `Bookings must be within opening hours (${dayHours})`;
+      }
+
+      const durationMinutes = getMinutesBetween(item.startTime, item.endTime);
+      const violation = this.getBookingPolicyViolation(policy, openingTime, item, durationMinutes, now);
+      if (violation) {
+        return violation;
+      }
+      if (userId && maxActiveBookingsPerUser !== null && ++activeBookings > maxActiveBookingsPerUser) {
+        return `You can hold at most ${maxActiveBookingsPerUser} upcoming bookings at this court`;
+      }
+      return null;
+    });
+  }
+
+  /**
+   * Price of a booking with the dynamic pricing adjustments it got
+   * Slots are priced as getCourtAvailability shows them right now
+   */
+  async getPriceQuote(courtId: string, date: string, startTime: string, endTime: string): Promise<PriceQuote> {
+    const [court, dayType, holidayMultiplier] = await Promise.all([
+      courtRepository.findById(courtId),
+      this.getDayType(courtId, date),
+      availabilityRepository.getHolidayMultiplier(date, courtId),
+    ]);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+
+    const pricing = court.dynamicPricing as DynamicPricing | null;
+    const occupancyPercent = pricing?.surge
+      ? await this.getOccupancyPercent(courtId, court.openingHours as OpeningHours, date)
+      : 0;
+
+    const pricingRules = await availabilityRepository.getPricingRulesByCourtId(courtId);
+    return this.calculateTotalPrice(startTime, endTime, pricingRules, dayType, holidayMultiplier, {
+      date,
+      now: new Date(),
+      policy: resolveBookingPolicy(court.bookingPolicy),
+      pricing,
+      occupancyPercent,
+    });
+  }
+
+  /**
+   * Day type of a date for a court: its holidays (after overrides) first, then weekends
+   */
+  async getDayType(courtId: string, date: string): Promise<DayType> {
+    const isHoliday = await availabilityRepository.isHoliday(date, courtId);
+    const day = getDayOfWeek(date);
+    const isWeekend = day === 'sat' || day === 'sun';
+    return isHoliday 
+      ? 'holiday' 
+      : isWeekend 
+        ? 'weekend' 
+        : 'weekday';
   }
 
   /**
@@ -230,9 +741,27 @@ export class AvailabilityService {
   }
 
   /**
-   * Cancel a booking
+   * Get the user and court a booking belongs to (for access checks)
+   */
+  async getBookingOwnership(bookingId: string): Promise<{ userId: string | null; courtId: string }> {
+    const ownership = await availabilityRepository.getBookingOwnership(bookingId);
+    if (!ownership) {
+      throw new NotFoundError('Booking not found');
+    }
+    return { userId: ownership.user_id, courtId: ownership.court_id };
+  }
+
+  /**
+   * Cancel a booking, refunding it if it was paid
+   * Court time of a booking paid with a package is credited back to the package instead
+   * The freed slot is offered to the waitlist
+   * @param options.enforceDeadline - Apply the court's cancellation deadline (cancellations by players)
+   * @param options.cancelledByVenue - Court staff or platform admin cancelling; the booker gets a push notification
    */
-  async cancelBooking(bookingId: string): Promise<BookingResponse> {
+  async cancelBooking(
+    bookingId: string,
+    options: { enforceDeadline?: boolean; cancelledByVenue?: string } = {}
+  ): Promise<CancelBookingResponse> {
     const booking = await availabilityRepository.getBookingById(bookingId);
     if (!booking) {
       throw new NotFoundError('Booking not found');
@@ -246,17 +775,219 @@ export class AvailabilityService {
       throw new BadRequestError('Cannot cancel a completed booking');
     }
 
-    await availabilityRepository.updateBookingStatus(bookingId, 'cancelled');
-    
+    // Confirmed bookings cannot be cancelled by players past the court's deadline (unpaid ones always can)
+    if (options.enforceDeadline && booking.status === 'confirmed') {
+      const { policy } = await this.getCourtBookingRules(booking.court_id);
+      const date = booking.date.toISOString().split('T')[0] ?? '';
+      if (
+        policy.cancellationDeadlineHours !== null &&
+        getHoursBeforeStart(date, booking.start_time) < policy.cancellationDeadlineHours
+      ) {
+        throw new BadRequestError(
+          `Bookings can no longer be cancelled less than ${policy.cancellationDeadlineHours} hours before they start`
+        );
+      }
+    }
+
+    const freedSlot = {
+      subCourtId: booking.sub_court_id,
+      date: booking.date.toISOString().split('T')[0] ?? '',
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+    };
+
+    // Only the request that cancels the booking refunds it, credits its package and frees its slot
+    const previousStatus = await availabilityRepository.cancelBooking(bookingId);
+    if (!previousStatus) {
+      throw new ConflictError('Booking was already cancelled or completed');
+    }
+
+    webhookService.emit('booking.cancelled', bookingId);
+    if (options.cancelledByVenue) {
+      pushService.notifyBooking('venue_cancellation', bookingId, { exceptUserId: options.cancelledByVenue });
+    }
+    websocketService.notifySlotUpdates('booking_cancelled', true, [{ ...freedSlot, courtId: booking.court_id }]);
+
+    // An unfinished split payment is called off and its paid shares are refunded in full;
+    // paid bookings are refunded according to the court's cancellation policy
+    let refunds;
+    if (previousStatus === 'pending') {
+      const groupBookings = booking.group_id ? await availabilityRepository.getBookingsByGroupId(booking.group_id) : [];
+      refunds = await splitPaymentService.cancelForBookings(
+        [booking.id, ...groupBookings.map((b) => b.id)],
+        'Booking cancelled before every share was paid'
+      );
+    } else {
+      refunds = await refundService.refundCancelledBooking(booking);
+    }
+    const creditedMinutes = booking.user_package_id && previousStatus === 'confirmed'
+      ? await packageService.creditCancelledBooking(booking, booking.user_package_id)
+      : 0;
+
+    await waitlistService.releaseSlots([freedSlot]);
+
     const updatedBooking = await availabilityRepository.getBookingById(bookingId);
-    return this.formatBookingResponse(updatedBooking!);
+    return { ...this.formatBookingResponse(updatedBooking!), refund: refunds[0] ?? null, refunds, creditedMinutes };
+  }
+
+  /**
+   * Move a booking to another time or sub-court of the same court
+   * The new slot is priced again, keeping the voucher discount. A paid booking that gets dearer
+   * only moves once the difference is paid through ZaloPay; one that gets cheaper is refunded the difference.
+   * A booking paid with a package can only move to a slot of the same length.
+   * @param options.enforceDeadline - Apply the court's change deadline (changes by players)
+   * @param options.changedBy - User making the change
+   */
+  async changeBooking(
+    bookingId: string,
+    data: ChangeBookingDto,
+    options: { enforceDeadline?: boolean; changedBy?: string } = {}
+  ): Promise<ChangeBookingResponse> {
+    const booking = await availabilityRepository.getBookingById(bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    if (booking.status !== 'pending' && booking.status !== 'confirmed') {
+      throw new BadRequestError(`Cannot change a booking with status: ${booking.status}`);
+    }
+
+    for (const field of ['subCourtId', 'date', 'startTime', 'endTime'] as const) {
+      if (data[field] !== undefined && typeof data[field] !== 'string') {
+        throw new BadRequestError(`${field} must be a string`);
+      }
+    }
+
+    const from = {
+      subCourtId: booking.sub_court_id,
+      date: booking.date.toISOString().split('T')[0] ?? '',
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+    };
+    const to = {
+      subCourtId: data.subCourtId ?? from.subCourtId,
+      date: data.date ?? from.date,
+      startTime: data.startTime ?? from.startTime,
+      endTime: data.endTime ?? from.endTime,
+    };
+    if (
+      to.subCourtId === from.subCourtId &&
+      to.date === from.date &&
+      to.startTime === from.startTime &&
+      to.endTime === from.endTime
+    ) {
+      throw new BadRequestError('Provide a new sub-court, date or time for the booking');
+    }
+
+    if (!isValidDateFormat(to.date)) {
+      throw new BadRequestError(`Invalid date format for ${to.date}. Use YYYY-MM-DD`);
+    }
+    if (!isValidTimeFormat(to.startTime) || !isValidTimeFormat(to.endTime)) {
+      throw new BadRequestError(`Invalid time format for ${to.startTime}-${to.endTime}. Use HH:mm`);
+    }
+    if (to.startTime >= to.endTime) {
+      throw new BadRequestError(`Start time must be before end time for ${to.startTime}-${to.endTime}`);
+    }
+
+    let subCourtName = booking.sub_court_name;
+    if (to.subCourtId !== from.subCourtId) {
+      const subCourt = await availabilityRepository.getSubCourtWithCourt(to.subCourtId);
+      if (!subCourt || subCourt.court_id !== booking.court_id) {
+        throw new NotFoundError('Sub-court not found in this court');
+      }
+      if (!subCourt.is_active) {
+        throw new BadRequestError(`Sub-court ${subCourt.name} is not active`);
+      }
+      subCourtName = subCourt.name;
+    }
+
+    // The new slot follows the court's policy like a new booking
+    const { policy, openingHours } = await this.getCourtBookingRules(booking.court_id);
+    const durationMinutes = getMinutesBetween(to.startTime, to.endTime);
+    this.validateBookingPolicy(policy, openingHours, to, durationMinutes, new Date());
+
+    // Confirmed bookings cannot be moved by players past the court's deadline (unpaid ones always can)
+    if (
+      options.enforceDeadline &&
+      booking.status === 'confirmed' &&
+      policy.changeDeadlineHours !== null &&
+      getHoursBeforeStart(from.date, from.startTime) < policy.changeDeadlineHours
+    ) {
+      throw new BadRequestError(
+        `Bookings can no longer be changed less than ${policy.changeDeadlineHours} hours before they start`
+      );
+    }
+
+    // Court time taken from a package is not re-debited
+    if (booking.user_package_id && durationMinutes !== getMinutesBetween(from.startTime, from.endTime)) {
+      throw new BadRequestError('A booking paid with a package can only move to a slot of the same length');
+    }
+
+    // A booking being paid keeps its slot until the payment settles
+    if (booking.status === 'pending') {
+      const groupBookings = booking.group_id ? await availabilityRepository.getBookingsByGroupId(booking.group_id) : [];
+      const bookingIds = [booking.id, ...groupBookings.map((b) => b.id)];
+      const openSplits = await splitPaymentRepository.findOpenByBookingIds(bookingIds);
+      if (openSplits.length > 0 || (await paymentRepository.hasPendingByBookingIds(bookingIds))) {
+        throw new ConflictError('Booking is being paid, cancel the payment before changing it');
+      }
+    }
+
+    if (await bookingChangeRepository.findPendingByBookingId(booking.id)) {
+      throw new ConflictError('Booking already has a change waiting for payment');
+    }
+
+    const hasOverlap = await availabilityRepository.hasOverlappingBooking(
+      to.subCourtId,
+      to.date,
+      to.startTime,
+      to.endTime,
+      booking.id
+    );
+    if (hasOverlap) {
+      throw new ConflictError(`Time slot ${to.startTime}-${to.endTime} for ${subCourtName} is already booked`);
+    }
+
+    const closures = await availabilityRepository.getClosuresByCourtAndDate(booking.court_id, to.date);
+    const isClosed = closures.some(closure =>
+      closure.sub_court_id === to.subCourtId &&
+      (!closure.start_time || !closure.end_time ||
+        this.isTimeOverlapping(to.startTime, to.endTime, closure.start_time, closure.end_time))
+    );
+    if (isClosed) {
+      throw new ConflictError(`${subCourtName} is closed on ${to.date} ${to.startTime}-${to.endTime}`);
+    }
+
+    // Price the new slot; the voucher discount carries over
+    const { totalPrice: newOriginalPrice } = await this.getPriceQuote(booking.court_id, to.date, to.startTime, to.endTime);
+    const move: BookingMove = {
+      from,
+      to,
+      oldPrice: booking.total_price,
+      newOriginalPrice,
+      newPrice: Math.max(newOriginalPrice - booking.discount_amount, 0),
+      changedBy: options.changedBy ?? null,
+    };
+
+    const isPaid = booking.status === 'confirmed' && !booking.user_package_id;
+    if (isPaid && move.newPrice > move.oldPrice) {
+      const { change, payment } = await bookingChangeService.requestPayment(booking, move);
+      return { booking: this.formatBookingResponse(booking), change, payment, refunds: [] };
+    }
+
+    const { change, refunds } = await bookingChangeService.applyChange(booking, move);
+    const updatedBooking = await availabilityRepository.getBookingById(bookingId);
+    return { booking: this.formatBookingResponse(updatedBooking!), change, payment: null, refunds };
   }
 
   /**
    * Get bookings by phone number
+   * Matches bookings made with either the local (0xxx) or international (+84xxx) form
    */
   async getBookingsByPhone(phone: string): Promise<BookingResponse[]> {
-    const bookings = await availabilityRepository.getBookingsByPhone(phone);
+    const localPhone = normalizePhone(phone);
+    const phones = localPhone.startsWith('0') ? [localPhone, `+84${localPhone.slice(1)}`] : [localPhone];
+    const bookings = await availabilityRepository.getBookingsByPhone(phones);
     return bookings.map(b => {
       const dateStr = b.date.toISOString().split('T')[0];
       return {
@@ -266,12 +997,16 @@ export class AvailabilityService {
         courtId: '',
         courtName: b.court_name,
         guestName: '',
-        guestPhone: phone,
+        guestPhone: localPhone,
         guestEmail: null,
         date: dateStr ?? '',
         startTime: b.start_time,
         endTime: b.end_time,
+        originalPrice: b.original_price ?? b.total_price,
+        discountAmount: b.discount_amount,
         totalPrice: b.total_price,
+        voucherCode: b.voucher_code,
+        packageId: b.user_package_id,
         status: b.status as BookingResponse['status'],
         notes: null,
         createdAt: '',
@@ -281,6 +1016,67 @@ export class AvailabilityService {
 
   // ==================== Private Helper Methods ====================
 
+  /**
+   * Build the slots of every sub-court for one day
+   */
+  private buildSubCourtAvailability(
+    subCourts: RawSubCourt[],
+    bookingsBySubCourt: Map<string, RawBooking[]>,
+    closuresBySubCourt: Map<string, RawClosure[]>,
+    openingTime: string,
+    closingTime: string,
+    pricingRules: RawPricingRule[],
+    dayType: 'weekday' | 'weekend' | 'holiday',
+    holidayMultiplier: number,
+    context: SlotContext
+  ): SubCourtAvailability[] {
+    return subCourts.map(subCourt => ({
+      id: subCourt.id,
+      name: subCourt.name,
+      description: subCourt.description,
+      isActive: subCourt.is_active,
+      surfaceType: subCourt.surface_type,
+      slots: this.generateTimeSlots(
+        openingTime,
+        closingTime,
+        bookingsBySubCourt.get(subCourt.id) ?? [],
+        closuresBySubCourt.get(subCourt.id) ?? [],
+        pricingRules,
+        dayType,
+        holidayMultiplier,
+        context
+      ),
+    }));
+  }
+
+  /**
+   * Free court time and cheapest bookable slot of a day
+   */
+  private summarizeDay(subCourts: SubCourtAvailability[]): DayAvailabilitySummary {
+    let freeMinutes = 0;
+    let cheapestSlot: CheapestSlot | null = null;
+
+    for (const subCourt of subCourts) {
+      for (const slot of subCourt.slots) {
+        if (!slot.isAvailable) {
+          continue;
+        }
+        freeMinutes += getMinutesBetween(slot.startTime, slot.endTime);
+        if (!cheapestSlot || slot.price < cheapestSlot.price) {
+          cheapestSlot = {
+            subCourtId: subCourt.id,
+            subCourtName: subCourt.name,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            price: slot.price,
+          };
+        }
+      }
+    }
+
+    return { freeHours: freeMinutes / 60, cheapestSlot };
+  }
+
   /**
    * Generate time slots for a sub-court
    */
@@ -291,14 +1087,16 @@ export class AvailabilityService {
     closures: RawClosure[],
     pricingRules: RawPricingRule[],
     dayType: 'weekday' | 'weekend' | 'holiday',
-    holidayMultiplier: number = 1.0
+    holidayMultiplier: number = 1.0,
+    context?: SlotContext
   ): TimeSlot[] {
     const slots: TimeSlot[] = [];
+    const slotMinutes = context?.policy.slotMinutes ?? 30;
     let currentTime = openingTime;
 
-    // Generate 30-minute slots
+    // Generate slots on the court's grid (30 or 60 minutes)
     while (currentTime < closingTime) {
-      const nextTime = this.addMinutes(currentTime, 30);
+      const nextTime = addMinutes(currentTime, slotMinutes);
       
       // Check if slot is booked
       const isBooked = bookings.some(booking => 
@@ -314,14 +1112,31 @@ export class AvailabilityService {
         return this.isTimeOverlapping(currentTime, nextTime, closure.start_time, closure.end_time);
       });
 
-      // Get price for this time slot (base price × holiday multiplier)
-      const price = this.getPriceForSlot(currentTime, pricingRules, dayType, holidayMultiplier);
+      // Check if the policy lets the slot be booked now (minimum notice, how far ahead booking opens)
+      const isBookable = !context ||
+        isWithinBookingWindow(context.policy, getHoursBeforeStart(context.date, currentTime, context.now));
+
+      // Get price for this time slot (base price × holiday multiplier × dynamic adjustments)
+      const isAvailable = !isBooked && !isClosed && isBookable;
+      const adjustments = this.getSlotAdjustments(currentTime, context, isAvailable);
+      const basePrice = this.getPriceForSlot(currentTime, pricingRules, dayType, holidayMultiplier, slotMinutes);
+      const price = adjustments.length > 0
+        ? this.getPriceForSlot(
+          currentTime,
+          pricingRules,
+          dayType,
+          holidayMultiplier * getAdjustmentMultiplier(adjustments),
+          slotMinutes
+        )
+        : basePrice;
 
       slots.push({
         startTime: currentTime,
         endTime: nextTime,
-        isAvailable: !isBooked && !isClosed,
+        isAvailable,
         price,
+        basePrice,
+        adjustments,
       });
 
       currentTime = nextTime;
@@ -332,13 +1147,14 @@ export class AvailabilityService {
 
   /**
    * Get price for a specific time slot
-   * Applies holiday multiplier to the base price
+   * Applies the multiplier (holiday and dynamic adjustments combined) to the base price
    */
   private getPriceForSlot(
     time: string,
     pricingRules: RawPricingRule[],
     dayType: 'weekday' | 'weekend' | 'holiday',
-    holidayMultiplier: number = 1.0
+    multiplier: number = 1.0,
+    slotMinutes: number = 30
   ): number {
     // Find matching pricing rule for the day type and time
     const rule = pricingRules.find(r => 
@@ -352,34 +1168,153 @@ export class AvailabilityService {
       return 0;
     }
 
-    // Calculate base price for 30-minute slot (hourly rate / 2)
-    const basePrice = rule.price_per_hour / 2;
+    // Calculate base price for the slot (hourly rate × slot share of an hour)
+    const basePrice = (rule.price_per_hour * slotMinutes) / 60;
     
-    // Apply holiday multiplier and round to nearest integer
-    return Math.round(basePrice * holidayMultiplier);
+    // Apply multiplier and round to nearest integer
+    return Math.round(basePrice * multiplier);
   }
 
   /**
    * Calculate total price for a booking
-   * Applies holiday multiplier to each slot price
+   * Prices each slot like generateTimeSlots does for an available slot, so the total matches the slots shown
    */
   private calculateTotalPrice(
     startTime: string,
     endTime: string,
     pricingRules: RawPricingRule[],
     dayType: 'weekday' | 'weekend' | 'holiday',
-    holidayMultiplier: number = 1.0
-  ): number {
+    holidayMultiplier: number = 1.0,
+    context?: SlotContext
+  ): PriceQuote {
     let total = 0;
     let currentTime = startTime;
+    const slotMinutes = context?.policy.slotMinutes ?? 30;
+    const applied = new Map<string, PriceAdjustment>();
 
     while (currentTime < endTime) {
-      const price = this.getPriceForSlot(currentTime, pricingRules, dayType, holidayMultiplier);
+      const adjustments = this.getSlotAdjustments(currentTime, context, true);
+      const price = this.getPriceForSlot(
+        currentTime,
+        pricingRules,
+        dayType,
+        holidayMultiplier * getAdjustmentMultiplier(adjustments),
+        slotMinutes
+      );
       total += price;
-      currentTime = this.addMinutes(currentTime, 30);
+      adjustments.forEach(adjustment => applied.set(adjustment.type, adjustment));
+      currentTime = addMinutes(currentTime, slotMinutes);
+    }
+
+    return { totalPrice: total, adjustments: [...applied.values()] };
+  }
+
+  /**
+   * Dynamic pricing adjustments for a slot starting at the given time
+   */
+  private getSlotAdjustments(time: string, context: SlotContext | undefined, isAvailable: boolean): PriceAdjustment[] {
+    if (!context?.pricing) {
+      return [];
+    }
+    const hoursBeforeStart = getHoursBeforeStart(context.date, time, context.now);
+    return getPriceAdjustments(context.pricing, context.occupancyPercent, hoursBeforeStart, isAvailable);
+  }
+
+  /**
+   * Booking policy and opening hours of a court
+   */
+  private async getCourtBookingRules(courtId: string): Promise<{ policy: BookingPolicy; openingHours: OpeningHours }> {
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+    return { policy: resolveBookingPolicy(court.bookingPolicy), openingHours: court.openingHours as OpeningHours };
+  }
+
+  /**
+   * Check a booking against its court's policy: duration limits, slot grid and booking window
+   * The grid starts at the day's opening time
+   */
+  private validateBookingPolicy(
+    policy: BookingPolicy,
+    openingHours: OpeningHours,
+    item: { date: string; startTime: string; endTime: string },
+    durationMinutes: number,
+    now: Date
+  ): void {
+    const dayHours = openingHours[getDayOfWeek(item.date)];
+    const [openingTime = '00:00'] = dayHours ? dayHours.split('-') : [];
+
+    const violation = this.getBookingPolicyViolation(policy, openingTime, item, durationMinutes, now);
+    if (violation) {
+      throw new BadRequestError(violation);
+    }
+  }
+
+  /**
+   * Why a booking breaks its court's policy, or null when it does not
+   */
+  private getBookingPolicyViolation(
+    policy: BookingPolicy,
+    openingTime: string,
+    item: { date: string; startTime: string },
+    durationMinutes: number,
+    now: Date
+  ): string | null {
+    if (durationMinutes < policy.minDurationMinutes) {
+      return `Minimum booking duration is ${policy.minDurationMinutes} minutes`;
+    }
+    if (policy.maxDurationMinutes !== null && durationMinutes > policy.maxDurationMinutes) {
+      return `Maximum booking duration is ${policy.maxDurationMinutes} minutes`;
+    }
+    if (
+      durationMinutes % policy.slotMinutes !== 0 ||
+      getMinutesBetween(openingTime, item.startTime) % policy.slotMinutes !== 0
+    ) {
+      return `Bookings must start and end on the ${policy.slotMinutes}-minute grid from opening time (${openingTime})`;
+    }
+
+    const hoursBeforeStart = getHoursBeforeStart(item.date, item.startTime, now);
+    if (policy.minNoticeMinutes !== null && hoursBeforeStart * 60 < policy.minNoticeMinutes) {
+      return `Bookings must be made at least ${policy.minNoticeMinutes} minutes before they start`;
+    }
+    if (policy.maxAdvanceDays !== null && hoursBeforeStart > policy.maxAdvanceDays * 24) {
+      return `Bookings open ${policy.maxAdvanceDays} days ahead`;
+    }
+    return null;
+  }
+
+  /**
+   * Occupancy of a court on a date, from its opening hours and confirmed bookings
+   */
+  private async getOccupancyPercent(courtId: string, openingHours: OpeningHours, date: string): Promise<number> {
+    const dayHours = openingHours[getDayOfWeek(date)];
+    if (!dayHours) {
+      return 0;
     }
+    const [openingTime = '00:00', closingTime = '23:59'] = dayHours.split('-');
 
-    return total;
+    const [subCourts, bookings] = await Promise.all([
+      availabilityRepository.getSubCourtsByCourtId(courtId),
+      availabilityRepository.getBookingsByCourtAndDate(courtId, date),
+    ]);
+    return this.calculateOccupancy(subCourts, bookings, openingTime, closingTime);
+  }
+
+  /**
+   * Share of the active sub-courts' opening hours taken by bookings
+   */
+  private calculateOccupancy(
+    subCourts: RawSubCourt[],
+    bookings: RawBooking[],
+    openingTime: string,
+    closingTime: string
+  ): number {
+    const activeIds = new Set(subCourts.filter(subCourt => subCourt.is_active).map(subCourt => subCourt.id));
+    const bookedMinutes = bookings
+      .filter(booking => activeIds.has(booking.sub_court_id))
+      .reduce((sum, booking) => sum + getMinutesBetween(booking.start_time, booking.end_time), 0);
+    return getOccupancyPercent(bookedMinutes, activeIds.size * getMinutesBetween(openingTime, closingTime));
   }
 
   /**
@@ -395,6 +1330,33 @@ export class AvailabilityService {
     return map;
   }
 
+  /**
+   * Group sub-courts or pricing rules by court ID
+   */
+  private groupByCourt<T extends { court_id: string }>(rows: T[]): Map<string, T[]> {
+    const map = new Map<string, T[]>();
+    for (const row of rows) {
+      const list = map.get(row.court_id) ?? [];
+      list.push(row);
+      map.set(row.court_id, list);
+    }
+    return map;
+  }
+
+  /**
+   * Group bookings or closures by date ("YYYY-MM-DD")
+   */
+  private groupByDate<T extends { date: Date }>(rows: T[]): Map<string, T[]> {
+    const map = new Map<string, T[]>();
+    for (const row of rows) {
+      const date = row.date.toISOString().split('T')[0] ?? '';
+      const list = map.get(date) ?? [];
+      list.push(row);
+      map.set(date, list);
+    }
+    return map;
+  }
+
   /**
    * Group closures by sub-court ID
    */
@@ -421,47 +1383,18 @@ export class AvailabilityService {
   }
 
   /**
-   * Add minutes to a time string
+   * Dates from one date to another (inclusive), as "YYYY-MM-DD"
+   * Stops past MAX_CALENDAR_DAYS + 1 so a huge range is not expanded
    */
-  private addMinutes(time: string, minutes: number): string {
-    const parts = time.split(':').map(Number);
-    const hours = parts[0] ?? 0;
-    const mins = parts[1] ?? 0;
-    const totalMinutes = hours * 60 + mins + minutes;
-    const newHours = Math.floor(totalMinutes / 60);
-    const newMins = totalMinutes % 60;
-    return `${String(newHours).padStart(2, '0')}:${String(newMins).padStart(2, '0')}`;
-  }
-
-  /**
-   * Get minutes between two times
-   */
-  private getMinutesBetween(start: string, end: string): number {
-    const startParts = start.split(':').map(Number);
-    const endParts = end.split(':').map(Number);
-    const startH = startParts[0] ?? 0;
-    const startM = startParts[1] ?? 0;
-    const endH = endParts[0] ?? 0;
-    const endM = endParts[1] ?? 0;
-    return (endH * 60 + endM) - (startH * 60 + startM);
-  }
-
-  /**
-   * Validate date format (YYYY-MM-DD)
-   */
-  private isValidDateFormat(date: string): boolean {
-    const regex = /^\d{4}-\d{2}-\d{2}$/;
-    if (!regex.test(date)) return false;
-    const dateObj = new Date(date);
-    return !isNaN(dateObj.getTime());
-  }
-
-  /**
-   * Validate time format (HH:mm)
-   */
-  private isValidTimeFormat(time: string): boolean {
-    const regex = /^([01]\d|2[0-3]):([0-5]\d)$/;
-    return regex.test(time);
+  private getDatesBetween(from: string, to: string): string[] {
+    const dates: string[] = [];
+    const current = new Date(from);
+    const end = new Date(to);
+    while (current <= end && dates.length <= MAX_CALENDAR_DAYS) {
+      dates.push(current.toISOString().split('T')[0]!);
+      current.setUTCDate(current.getUTCDate() + 1);
+    }
+    return dates;
   }
 
   /**
@@ -480,6 +1413,10 @@ export class AvailabilityService {
     start_time: string;
     end_time: string;
     total_price: number;
+    original_price: number | null;
+    discount_amount: number;
+    voucher_code: string | null;
+    user_package_id: string | null;
     status: string;
     notes: string | null;
     created_at: Date;
@@ -497,7 +1434,11 @@ export class AvailabilityService {
       date: dateStr,
       startTime: booking.start_time,
       endTime: booking.end_time,
+      originalPrice: booking.original_price ?? booking.total_price,
+      discountAmount: booking.discount_amount,
       totalPrice: booking.total_price,
+      voucherCode: booking.voucher_code,
+      packageId: booking.user_package_id,
       status: booking.status as BookingResponse['status'],
       notes: booking.notes,
       createdAt: booking.created_at.toISOString(),
@@ -0,0 +1,378 @@
+import { prisma } from '../config/database.js';
+import { availabilityRepository, bookingChangeRepository, paymentRepository } from '../repositories/index.js';
+import { zaloPayService } from './zalopay.service.js';
+import { paymentService } from './payment.service.js';
+import { redisService } from './redis.service.js';
+import { websocketService } from './websocket.service.js';
+import { refundService } from './refund.service.js';
+import { waitlistService } from './waitlist.service.js';
+import { webhookService } from './webhook.service.js';
+import { notificationService } from './notification.service.js';
+import { BadRequestError, ConflictError } from '../utils/errors.js';
+import type { Prisma } from '@prisma/client';
+import type { PaymentNotification } from './websocket.service.js';
+import type {
+  BookingChangeResponse,
+  BookingChangeStatus,
+  BookingMove,
+  BookingMoveSlot,
+  CreatePaymentResponse,
+  RawBookingChange,
+  RefundResponse,
+} from '../types/index.js';
+
+type BookingRecord = NonNullable<Awaited<ReturnType<typeof availabilityRepository.getBookingById>>>;
+type PaymentRecord = Awaited<ReturnType<typeof paymentRepository.create>>;
+
+export class BookingChangeService {
+  /**
+   * Move a booking at once
+   * The new slot is locked while the booking moves; when a paid booking gets cheaper
+   * the difference is refunded. The old slot is offered to the waitlist.
+   */
+  async applyChange(
+    booking: BookingRecord,
+    move: BookingMove
+  ): Promise<{ change: BookingChangeResponse; refunds: RefundResponse[] }> {
+    const slotLock = this.toSlotLock(booking.id, move.to);
+    if (!(await redisService.acquireSlotLocks([slotLock]))) {
+      throw new ConflictError('The new time slot is no longer available');
+    }
+
+    let changeId: string;
+    try {
+      changeId = await prisma.$transaction(async (tx) => {
+        const moved = await availabilityRepository.moveBooking(
+          booking.id,
+          booking.status,
+          { ...move.to, originalPrice: move.newOriginalPrice, totalPrice: move.newPrice },
+          tx
+        );
+        if (!moved) {
+          throw new ConflictError('The new time slot is no longer available');
+        }
+
+        return bookingChangeRepository.create({ bookingId: booking.id, ...move, status: 'completed' }, tx);
+      });
+    } finally {
+      await redisService.releaseSlotLocks([slotLock]);
+    }
+    this.notifyMove(booking.court_id, move.from, move.to);
+
+    const isPaid = booking.status === 'confirmed' && !booking.user_package_id;
+    const refunds = isPaid && move.newPrice < move.oldPrice
+      ? await refundService.refundBookingAmount(
+        booking,
+        move.oldPrice - move.newPrice,
+        move.oldPrice,
+        `Moved booking ${move.from.date} ${move.from.startTime} to ${move.to.date} ${move.to.startTime}, price difference refunded`
+      )
+      : [];
+
+    if (booking.status === 'confirmed') {
+      await waitlistService.releaseSlots([move.from]);
+    }
+
+    const change = (await bookingChangeRepository.findById(changeId))!;
+    return { change: this.formatChange(change), refunds };
+  }
+
+  /**
+   * Hold the new slot and create a ZaloPay order for the price difference
+   * The booking keeps its current slot until the order is paid (see settlePayment)
+   */
+  async requestPayment(
+    booking: BookingRecord,
+    move: BookingMove
+  ): Promise<{ change: BookingChangeResponse; payment: CreatePaymentResponse }> {
+    if (!zaloPayService.isConfigured()) {
+      throw new BadRequestError('Payment service is not configured');
+    }
+
+    const slotLock = this.toSlotLock(booking.id, move.to);
+    if (!(await redisService.acquireSlotLocks([slotLock]))) {
+      throw new ConflictError('The new time slot is no longer available');
+    }
+    websocketService.notifySlotUpdates('slot_locked', false, [{ ...move.to, courtId: booking.court_id }]);
+
+    let result: { changeId: string; payment: PaymentRecord };
+    try {
+      // The order is created before the rows: an order whose row is never saved just expires unpaid
+      const order = await this.createOrder(booking, move);
+
+      result = await prisma.$transaction(async (tx) => {
+        const changeId = await bookingChangeRepository.create(
+          { bookingId: booking.id, ...move, status: 'pending' },
+          tx
+        );
+        const payment = await paymentRepository.create({ bookingId: booking.id, ...order, bookingChangeId: changeId }, tx);
+        return { changeId, payment };
+      });
+    } catch (error) {
+      // Release Redis lock on failure
+      await redisService.releaseSlotLocks([slotLock]);
+      websocketService.notifySlotUpdates('slot_released', true, [{ ...move.to, courtId: booking.court_id }]);
+
+      if (error instanceof Error) {
+        throw new BadRequestError(error.message);
+      }
+      throw error;
+    }
+
+    const change = (await bookingChangeRepository.findById(result.changeId))!;
+    return { change: this.formatChange(change), payment: await paymentService.formatOrder(result.payment) };
+  }
+
+  /**
+   * Record the result of a price difference payment (ZaloPay callback or status query)
+   * The booking moves once the difference is paid. A payment made after the change
+   * was closed, or when the new slot was taken meanwhile, is refunded in full.
+   */
+  async settlePayment(
+    payment: {
+      id: string;
+      bookingId: string;
+      bookingChangeId: string | null;
+      status: string;
+      booking: { userId: string | null };
+    },
+    result: { status: 'success' | 'failed'; zpTransId?: string; callbackData?: object }
+  ): Promise<void> {
+    // Repeated callbacks and late failures of a closed payment change nothing
+    if (payment.status === result.status || (result.status === 'failed' && payment.status !== 'pending')) {
+      return;
+    }
+
+    const change = await bookingChangeRepository.findById(payment.bookingChangeId!);
+    if (!change) {
+      await paymentRepository.updateStatus(payment.id, result.status, result.zpTransId, result.callbackData);
+      return;
+    }
+
+    // The payment, the move and the booker's notification are saved together
+    const { updated, moved, notification } = await prisma.$transaction(async (tx) => {
+      const updated = await paymentRepository.updateStatus(
+        payment.id,
+        result.status,
+        result.zpTransId,
+        result.callbackData,
+        tx
+      );
+
+      const moved =
+        result.status === 'success' &&
+        payment.status === 'pending' &&
+        change.status === 'pending' &&
+        (await this.moveBooking(change, tx));
+
+      const message =
+        result.status === 'failed'
+          ? 'Payment failed. Your booking keeps its current time slot.'
+          : moved
+            ? 'Payment successful! Your booking has been moved.'
+            : 'The new time slot is no longer available. Your payment is refunded and your booking keeps its current time slot.';
+      const notification = await this.recordPayment(payment, result.status, message, tx, result.zpTransId);
+
+      return { updated, moved, notification };
+    });
+
+    if (result.status === 'failed') {
+      await this.closeChange(change, 'failed');
+      websocketService.notifyPaymentStatus(notification);
+      return;
+    }
+
+    if (!moved) {
+      console.error(`Booking change payment ${payment.id} could not move booking ${change.booking_id}, refunding it`);
+      await this.closeChange(change, 'failed');
+      await refundService.refundPayment(updated, 'Booking could not be moved after the price difference was paid');
+      websocketService.notifyPaymentStatus(notification);
+      this.emitPaymentSucceeded(updated);
+      return;
+    }
+
+    // Release Redis lock (payment completed) and offer the old slot to the waitlist
+    await redisService.releaseSlotLocks([this.toSlotLock(change.booking_id, this.getSlot(change, 'to'))]);
+    this.notifyMove(change.court_id, this.getSlot(change, 'from'), this.getSlot(change, 'to'));
+    await waitlistService.releaseSlots([this.getSlot(change, 'from')]);
+
+    websocketService.notifyPaymentStatus(notification);
+    this.emitPaymentSucceeded(updated);
+  }
+
+  /**
+   * Cancel a pending price difference payment (user-initiated)
+   * The change is called off and the booking keeps its current slot
+   */
+  async cancelPayment(payment: {
+    id: string;
+    bookingId: string;
+    bookingChangeId: string | null;
+    booking: { userId: string | null };
+  }): Promise<void> {
+    const notification = await prisma.$transaction(async (tx) => {
+      await paymentRepository.updateStatus(payment.id, 'failed', undefined, undefined, tx);
+      return this.recordPayment(payment, 'cancelled', 'Payment cancelled', tx);
+    });
+
+    const change = await bookingChangeRepository.findById(payment.bookingChangeId!);
+    if (change) {
+      await this.closeChange(change, 'failed');
+    }
+
+    websocketService.notifyPaymentStatus(notification);
+  }
+
+  /**
+   * Expire changes whose price difference was not paid before the cutoff and release their slots
+   * Their payments are failed by the caller along with the other expired payments
+   */
+  async expireChanges(cutoff: Date): Promise<number> {
+    const changes = await bookingChangeRepository.expirePending(cutoff);
+
+    await redisService.releaseSlotLocks(
+      changes.map((change) => this.toSlotLock(change.booking_id, this.getSlot(change, 'to')))
+    );
+    websocketService.notifySlotUpdates(
+      'slot_released',
+      true,
+      changes.map((change) => ({ ...this.getSlot(change, 'to'), courtId: change.court_id }))
+    );
+
+    return changes.length;
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Move the booking of a paid change and complete the change, in the settlement's transaction
+   * Returns false when the change was closed, the booking was no longer confirmed or the slot was taken
+   */
+  private async moveBooking(change: RawBookingChange, tx: Prisma.TransactionClient): Promise<boolean> {
+    // Keeps the change from expiring while the booking moves
+    if (!(await bookingChangeRepository.lockPending(change.id, tx))) {
+      return false;
+    }
+
+    const moved = await availabilityRepository.moveBooking(
+      change.booking_id,
+      'confirmed',
+      {
+        ...this.getSlot(change, 'to'),
+        originalPrice: change.new_original_price,
+        totalPrice: change.new_price,
+      },
+      tx
+    );
+    return moved && (await bookingChangeRepository.close(change.id, 'completed', tx));
+  }
+
+  /**
+   * Close a pending change and release the new slot it was holding
+   */
+  private async closeChange(change: RawBookingChange, status: Exclude<BookingChangeStatus, 'pending'>): Promise<void> {
+    const closed = await bookingChangeRepository.close(change.id, status);
+    if (closed) {
+      await redisService.releaseSlotLocks([this.toSlotLock(change.booking_id, this.getSlot(change, 'to'))]);
+      websocketService.notifySlotUpdates('slot_released', true, [{ ...this.getSlot(change, 'to'), courtId: change.court_id }]);
+    }
+  }
+
+  /**
+   * Show a moved booking's old slot as free and its new one as taken on live grids
+   */
+  private notifyMove(courtId: string, from: BookingMoveSlot, to: BookingMoveSlot): void {
+    websocketService.notifySlotUpdates('booking_moved', true, [{ ...from, courtId }]);
+    websocketService.notifySlotUpdates('booking_moved', false, [{ ...to, courtId }]);
+  }
+
+  private getSlot(change: RawBookingChange, side: 'from' | 'to'): BookingMoveSlot {
+    return side === 'from'
+      ? {
+        subCourtId: change.from_sub_court_id,
+        date: this.formatDate(change.from_date),
+        startTime: change.from_start_time,
+        endTime: change.from_end_time,
+      }
+      : {
+        subCourtId: change.to_sub_court_id,
+        date: this.formatDate(change.to_date),
+        startTime: change.to_start_time,
+        endTime: change.to_end_time,
+      };
+  }
+
+  private toSlotLock(bookingId: string, slot: BookingMoveSlot) {
+    return { ...slot, bookingId };
+  }
+
+  /**
+   * Create a ZaloPay order for the price difference of a move
+   */
+  private async createOrder(booking: BookingRecord, move: BookingMove) {
+    const appTransId = zaloPayService.generateAppTransId(booking.id);
+    const amount = move.newPrice - move.oldPrice;
+
+    return paymentService.createOrder({
+      bookingId: booking.id,
+      appTransId,
+      amount,
+      guestName: booking.guest_name || 'Guest',
+      guestPhone: booking.guest_phone || '',
+      description: `Arc Badminton - ${booking.court_name} - move to ${move.to.date} ${move.to.startTime}-${move.to.endTime}`,
+    });
+  }
+
+  /**
+   * Keep a payment status notification in the booker's outbox, ready to send
+   */
+  private recordPayment(
+    payment: { id: string; bookingId: string; booking: { userId: string | null } },
+    status: 'success' | 'failed' | 'cancelled',
+    message: string,
+    tx: Prisma.TransactionClient,
+    zpTransId?: string
+  ): Promise<PaymentNotification> {
+    return notificationService.recordPaymentStatus(payment.booking.userId, {
+      type: 'payment_status',
+      paymentId: payment.id,
+      status,
+      bookingId: payment.bookingId,
+      ...(zpTransId && { zpTransId }),
+      message,
+    }, tx);
+  }
+
+  private emitPaymentSucceeded(payment: { id: string; bookingId: string; amount: number; zpTransId: string | null }): void {
+    webhookService.emit('payment.succeeded', payment.bookingId, {
+      payment: { id: payment.id, amount: payment.amount, zpTransId: payment.zpTransId },
+    });
+  }
+
+  private formatChange(change: RawBookingChange): BookingChangeResponse {
+    return {
+      id: change.id,
+      bookingId: change.booking_id,
+      from: {
+        ...this.getSlot(change, 'from'),
+        subCourtName: change.from_sub_court_name,
+      },
+      to: {
+        ...this.getSlot(change, 'to'),
+        subCourtName: change.to_sub_court_name,
+      },
+      oldPrice: change.old_price,
+      newPrice: change.new_price,
+      priceDifference: change.new_price - change.old_price,
+      status: change.status as BookingChangeStatus,
+      createdAt: change.created_at.toISOString(),
+      updatedAt: change.updated_at.toISOString(),
+    };
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0] ?? '';
+  }
+}
+
+export const bookingChangeService = new BookingChangeService();
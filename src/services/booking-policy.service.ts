@@ -0,0 +1,126 @@
+import { courtRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { DEFAULT_BOOKING_POLICY, resolveBookingPolicy } from '../utils/booking-policy.js';
+import type { BookingPolicy, BookingPolicyResponse, SlotMinutes, UpdateBookingPolicyDto } from '../types/index.js';
+
+const SLOT_MINUTES: readonly SlotMinutes[] = [30, 60];
+const MAX_DURATION_MINUTES = 24 * 60;
+const MAX_ADVANCE_DAYS = 365;
+const MAX_NOTICE_MINUTES = 7 * 24 * 60; // 1 week
+const MAX_ACTIVE_BOOKINGS = 100;
+const MAX_CANCELLATION_DEADLINE_HOURS = 30 * 24; // 30 days, also for the change deadline
+
+export class BookingPolicyService {
+  /**
+   * Get a court's booking policy, falling back to the platform default
+   */
+  async getPolicy(courtId: string): Promise<BookingPolicyResponse> {
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+
+    return this.formatPolicy(courtId, court.bookingPolicy ? resolveBookingPolicy(court.bookingPolicy) : null);
+  }
+
+  /**
+   * Replace a court's booking policy
+   * Fields left out take the platform default
+   */
+  async updatePolicy(courtId: string, data: UpdateBookingPolicyDto): Promise<BookingPolicyResponse> {
+    await ensureCourtExists(courtId);
+    const policy = this.validatePolicy({ ...DEFAULT_BOOKING_POLICY, ...data });
+
+    await courtRepository.updateBookingPolicy(courtId, policy);
+    return this.formatPolicy(courtId, policy);
+  }
+
+  /**
+   * Reset a court to the platform default policy
+   */
+  async resetPolicy(courtId: string): Promise<BookingPolicyResponse> {
+    await ensureCourtExists(courtId);
+    await courtRepository.updateBookingPolicy(courtId, null);
+    return this.formatPolicy(courtId, null);
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Validate a policy and return only its known fields
+   * Durations must fit the slot grid and the maximum must not be below the minimum
+   */
+  private validatePolicy(data: BookingPolicy): BookingPolicy {
+    if (!SLOT_MINUTES.includes(data.slotMinutes)) {
+      throw new BadRequestError(`slotMinutes must be one of: ${SLOT_MINUTES.join(', ')}`);
+    }
+    const slotMinutes = data.slotMinutes;
+
+    const minDurationMinutes = this.validateInteger('minDurationMinutes', data.minDurationMinutes, slotMinutes, MAX_DURATION_MINUTES);
+    const maxDurationMinutes = this.validateOptionalInteger(
+      'maxDurationMinutes',
+      data.maxDurationMinutes,
+      slotMinutes,
+      MAX_DURATION_MINUTES
+    );
+    for (const [field, value] of [['minDurationMinutes', minDurationMinutes], ['maxDurationMinutes', maxDurationMinutes]] as const) {
+      if (value !== null && value % slotMinutes !== 0) {
+        throw new BadRequestError(`${field} must be a multiple of ${slotMinutes}`);
+      }
+    }
+    if (maxDurationMinutes !== null && maxDurationMinutes < minDurationMinutes) {
+      throw new BadRequestError('maxDurationMinutes must not be less than minDurationMinutes');
+    }
+
+    return {
+      minDurationMinutes,
+      maxDurationMinutes,
+      slotMinutes,
+      maxAdvanceDays: this.validateOptionalInteger('maxAdvanceDays', data.maxAdvanceDays, 1, MAX_ADVANCE_DAYS),
+      minNoticeMinutes: this.validateOptionalInteger('minNoticeMinutes', data.minNoticeMinutes, 0, MAX_NOTICE_MINUTES),
+      maxActiveBookingsPerUser: this.validateOptionalInteger(
+        'maxActiveBookingsPerUser',
+        data.maxActiveBookingsPerUser,
+        1,
+        MAX_ACTIVE_BOOKINGS
+      ),
+      cancellationDeadlineHours: this.validateOptionalInteger(
+        'cancellationDeadlineHours',
+        data.cancellationDeadlineHours,
+        0,
+        MAX_CANCELLATION_DEADLINE_HOURS
+      ),
+      changeDeadlineHours: this.validateOptionalInteger(
+        'changeDeadlineHours',
+        data.changeDeadlineHours,
+        0,
+        MAX_CANCELLATION_DEADLINE_HOURS
+      ),
+    };
+  }
+
+  private validateInteger(field: string, value: unknown, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new BadRequestError(`${field} must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  private validateOptionalInteger(field: string, value: unknown, min: number, max: number): number | null {
+    return value === null ? null : this.validateInteger(field, value, min, max);
+  }
+
+  /**
+   * Format policy response
+   */
+  private formatPolicy(courtId: string, policy: BookingPolicy | null): BookingPolicyResponse {
+    return {
+      courtId,
+      isDefault: policy === null,
+      ...(policy ?? DEFAULT_BOOKING_POLICY),
+    };
+  }
+}
+
+export const bookingPolicyService = new BookingPolicyService();
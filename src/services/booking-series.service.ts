@@ -0,0 +1,526 @@
+import { randomUUID } from 'crypto';
+import { config } from '../config/index.js';
+import { availabilityRepository, bookingSeriesRepository } from '../repositories/index.js';
+import { availabilityService } from './availability.service.js';
+import { courtService } from './court.service.js';
+import { webhookService } from './webhook.service.js';
+import { websocketService } from './websocket.service.js';
+import { redisService } from './redis.service.js';
+import { NotFoundError, BadRequestError, ConflictError, ForbiddenError } from '../utils/errors.js';
+import { isValidDateFormat, isValidTimeFormat, addDays, todayInVietnam } from '../utils/date-time.js';
+import { DAYS_OF_WEEK } from '../types/index.js';
+import type {
+  DayOfWeek,
+  CreateBookingSeriesDto,
+  CreateBookingSeriesResponse,
+  BookingSeriesResponse,
+  BookingSeriesStatus,
+  MoveOccurrenceDto,
+  OccurrenceCancelScope,
+  CancelOccurrencesResponse,
+  CancelBookingResponse,
+  SeriesOccurrenceConflict,
+  RawBookingSeries,
+  RawSeriesOccurrence,
+  RawSlotBlock,
+  UserProfileDto,
+} from '../types/index.js';
+
+// Day name mapping (Date.getUTCDay() index)
+const DAY_NAMES: readonly DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MAX_OCCURRENCES = 104; // Two per week for a year
+const MAX_RANGE_DAYS = 366;
+
+// Occurrences in these statuses still hold the slot
+const ACTIVE_STATUSES = ['pending', 'confirmed'];
+
+export class BookingSeriesService {
+  /**
+   * Create a recurring series and book every occurrence that is free
+   * Occurrences clashing with a confirmed booking, a closure, a held slot or the court's rules are reported, not booked
+   */
+  async createSeries(data: CreateBookingSeriesDto): Promise<CreateBookingSeriesResponse> {
+    if (!data.userId) {
+      throw new BadRequestError('User context is required to create a booking series');
+    }
+    if (!data.guestName || !data.guestPhone) {
+      throw new BadRequestError('guestName and guestPhone are required');
+    }
+    this.validateTimeRange(data.startTime, data.endTime);
+
+    const subCourt = await availabilityRepository.getSubCourtWithCourt(data.subCourtId);
+    if (!subCourt) {
+      throw new NotFoundError(`Sub-court ${data.subCourtId} not found`);
+    }
+    if (!subCourt.is_active) {
+      throw new BadRequestError(`Sub-court ${subCourt.name} is not active`);
+    }
+
+    const dates = this.expandDates(data);
+    const blocks = await bookingSeriesRepository.findSlotBlocks(data.subCourtId, dates[0]!, dates.at(-1)!);
+
+    const conflicts: SeriesOccurrenceConflict[] = [];
+    const freeDates: string[] = [];
+    for (const date of dates) {
+      const block = this.findBlock(blocks, date, data.startTime, data.endTime);
+      if (block) {
+        conflicts.push({ date, startTime: data.startTime, endTime: data.endTime, reason: block.kind });
+      } else if (await redisService.isSlotLocked(data.subCourtId, date, data.startTime, data.endTime)) {
+        // Being paid for or offered to the waitlist
+        conflicts.push({ date, startTime: data.startTime, endTime: data.endTime, reason: 'locked' });
+      } else {
+        freeDates.push(date);
+      }
+    }
+
+    // Opening hours, booking policy and the user's booking limit, counted over the free occurrences only
+    const violations = await availabilityService.getBookingRuleViolations(
+      subCourt.court_id,
+      freeDates.map((date) => ({ date, startTime: data.startTime, endTime: data.endTime })),
+      data.userId
+    );
+    const occurrences: { date: string; totalPrice: number }[] = [];
+    for (const [i, date] of freeDates.entries()) {
+      const message = violations[i];
+      if (message) {
+        conflicts.push({ date, startTime: data.startTime, endTime: data.endTime, reason: 'policy', message });
+        continue;
+      }
+      const totalPrice = await availabilityService.quotePrice(subCourt.court_id, date, data.startTime, data.endTime);
+      occurrences.push({ date, totalPrice });
+    }
+    conflicts.sort((a, b) => a.date.localeCompare(b.date));
+
+    const totalPrice = occurrences.reduce((sum, occurrence) => sum + occurrence.totalPrice, 0);
+    const dryRun = data.dryRun === true;
+    if (dryRun) {
+      return { series: null, occurrences, conflicts, totalPrice, expiresAt: null, dryRun };
+    }
+
+    if (occurrences.length === 0) {
+      throw new ConflictError('Every occurrence of the series conflicts with a booking, a closure or the court rules');
+    }
+
+    // Hold the slots like a payment does while the occurrences are written
+    const lockId = randomUUID();
+    const slotsToLock = occurrences.map(({ date }) => ({
+      subCourtId: data.subCourtId,
+      date,
+      startTime: data.startTime,
+      endTime: data.endTime,
+      bookingId: lockId,
+    }));
+    if (!(await redisService.acquireSlotLocks(slotsToLock))) {
+      throw new ConflictError('One or more time slots are no longer available');
+    }
+    let seriesId: string;
+    try {
+      // Another booking may have been confirmed before the locks were taken
+      const latestBlocks = await bookingSeriesRepository.findSlotBlocks(
+        data.subCourtId,
+        occurrences[0]!.date,
+        occurrences.at(-1)!.date
+      );
+      const taken = occurrences.find(({ date }) => this.findBlock(latestBlocks, date, data.startTime, data.endTime));
+      if (taken) {
+        throw new ConflictError(`Time slot ${data.startTime}-${data.endTime} on ${taken.date} is no longer available`);
+      }
+
+      seriesId = await bookingSeriesRepository.create(
+        {
+          subCourtId: data.subCourtId,
+          userId: data.userId,
+          guestName: data.guestName,
+          guestPhone: data.guestPhone,
+          guestEmail: data.guestEmail ?? null,
+          daysOfWeek: [...new Set(data.daysOfWeek)],
+          startTime: data.startTime,
+          endTime: data.endTime,
+          startDate: data.startDate,
+          untilDate: data.until ?? null,
+          count: data.count ?? null,
+          notes: data.notes ?? null,
+        },
+        occurrences
+      );
+    } finally {
+      await redisService.releaseSlotLocks(slotsToLock);
+    }
+
+    const series = await this.loadSeries(seriesId);
+    for (const occurrence of series.occurrences) {
+      webhookService.emit('booking.created', occurrence.bookingId);
+    }
+    websocketService.notifySlotUpdates(
+      'booking_created',
+      false,
+      series.occurrences.map((occurrence) => ({ ...occurrence, courtId: series.courtId }))
+    );
+    // Unpaid occurrences expire like any pending booking, so the series is paid for as one group payment
+    const expiresAt = new Date(Date.now() + config.payment.slotLockTtlSeconds * 1000).toISOString();
+    return { series, occurrences, conflicts, totalPrice, expiresAt, dryRun };
+  }
+
+  /**
+   * Get a series with its occurrences
+   */
+  async getSeries(seriesId: string, user: UserProfileDto): Promise<BookingSeriesResponse> {
+    const series = await this.getAccessibleSeries(seriesId, user);
+    const occurrences = await bookingSeriesRepository.findOccurrences(seriesId);
+    return this.formatSeries(series, occurrences);
+  }
+
+  /**
+   * Move a single occurrence to another date, time or sub-court of the same court
+   * Paid occurrences keep the price they were paid at; unpaid ones are re-priced
+   */
+  async moveOccurrence(
+    seriesId: string,
+    bookingId: string,
+    data: MoveOccurrenceDto,
+    user: UserProfileDto
+  ): Promise<BookingSeriesResponse> {
+    const series = await this.getAccessibleSeries(seriesId, user);
+    const occurrences = await bookingSeriesRepository.findOccurrences(seriesId);
+    const occurrence = this.getActiveOccurrence(occurrences, bookingId);
+
+    const subCourtId = data.subCourtId ?? occurrence.sub_court_id;
+    const date = data.date ?? this.formatDate(occurrence.date);
+    const startTime = data.startTime ?? occurrence.start_time;
+    const endTime = data.endTime ?? occurrence.end_time;
+
+    if (!isValidDateFormat(date)) {
+      throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
+    }
+    if (date < todayInVietnam()) {
+      throw new BadRequestError('Cannot move an occurrence into the past');
+    }
+    this.validateTimeRange(startTime, endTime);
+
+    if (subCourtId !== occurrence.sub_court_id) {
+      const subCourt = await availabilityRepository.getSubCourtWithCourt(subCourtId);
+      if (!subCourt || subCourt.court_id !== series.court_id) {
+        throw new NotFoundError('Sub-court not found in this court');
+      }
+      if (!subCourt.is_active) {
+        throw new BadRequestError(`Sub-court ${subCourt.name} is not active`);
+      }
+    }
+
+    const [violation] = await availabilityService.getBookingRuleViolations(series.court_id, [
+      { date, startTime, endTime },
+    ]);
+    if (violation) {
+      throw new BadRequestError(violation);
+    }
+
+    const blocks = await bookingSeriesRepository.findSlotBlocks(subCourtId, date, date);
+    const block = this.findBlock(
+      blocks.filter((b) => b.id !== bookingId),
+      date,
+      startTime,
+      endTime
+    );
+    if (block) {
+      throw new ConflictError(
+        block.kind === 'closure'
+          ? `The sub-court is closed on ${date} ${startTime}-${endTime}`
+          : `Time slot ${startTime}-${endTime} on ${date} is already booked`
+      );
+    }
+    if (await redisService.isSlotLocked(subCourtId, date, startTime, endTime)) {
+      throw new ConflictError(`Time slot ${startTime}-${endTime} on ${date} is being held for another booking`);
+    }
+
+    const totalPrice =
+      occurrence.status === 'confirmed'
+        ? occurrence.total_price
+        : await availabilityService.quotePrice(series.court_id, date, startTime, endTime);
+
+    await bookingSeriesRepository.moveOccurrence(bookingId, { subCourtId, date, startTime, endTime, totalPrice });
+    websocketService.notifySlotUpdates('booking_moved', true, [
+      {
+        courtId: series.court_id,
+        subCourtId: occurrence.sub_court_id,
+        date: this.formatDate(occurrence.date),
+        startTime: occurrence.start_time,
+        endTime: occurrence.end_time,
+      },
+    ]);
+    websocketService.notifySlotUpdates('booking_moved', false, [
+      { courtId: series.court_id, subCourtId, date, startTime, endTime },
+    ]);
+    return this.loadSeries(seriesId);
+  }
+
+  /**
+   * Cancel one occurrence ("this", i.e. skip it) or it and every later one ("future")
+   * Cancelled occurrences are refunded like any booking
+   */
+  async cancelOccurrences(
+    seriesId: string,
+    bookingId: string,
+    scope: OccurrenceCancelScope,
+    user: UserProfileDto
+  ): Promise<CancelOccurrencesResponse> {
+    const series = await this.getAccessibleSeries(seriesId, user);
+    const occurrences = await bookingSeriesRepository.findOccurrences(seriesId);
+    const occurrence = this.getActiveOccurrence(occurrences, bookingId);
+
+    const fromDate = this.formatDate(occurrence.date);
+    const toCancel =
+      scope === 'future'
+        ? occurrences.filter((o) => ACTIVE_STATUSES.includes(o.status) && this.formatDate(o.date) >= fromDate)
+        : [occurrence];
+
+    const cancelled = await this.cancelAll(toCancel);
+
+    if (scope === 'future') {
+      await this.endSeries(series, occurrences, toCancel, addDays(fromDate, -1));
+    } else if (occurrences.every((o) => o.id === bookingId || !ACTIVE_STATUSES.includes(o.status))) {
+      await bookingSeriesRepository.update(seriesId, {
+        untilDate: series.until_date ? this.formatDate(series.until_date) : null,
+        status: 'cancelled',
+      });
+    }
+
+    return { cancelled, series: await this.loadSeries(seriesId) };
+  }
+
+  /**
+   * Cancel every upcoming occurrence of a series
+   */
+  async cancelSeries(seriesId: string, user: UserProfileDto): Promise<CancelOccurrencesResponse> {
+    const series = await this.getAccessibleSeries(seriesId, user);
+    const occurrences = await bookingSeriesRepository.findOccurrences(seriesId);
+
+    const today = todayInVietnam();
+    const toCancel = occurrences.filter(
+      (o) => ACTIVE_STATUSES.includes(o.status) && this.formatDate(o.date) >= today
+    );
+    if (toCancel.length === 0) {
+      throw new BadRequestError('Series has no upcoming occurrences to cancel');
+    }
+
+    const cancelled = await this.cancelAll(toCancel);
+    await this.endSeries(series, occurrences, toCancel, addDays(today, -1));
+
+    return { cancelled, series: await this.loadSeries(seriesId) };
+  }
+
+  /**
+   * Cancel the series whose occurrences all expired unpaid
+   * Called by the scheduler with the group IDs of the bookings it expired
+   */
+  async cancelExpiredSeries(groupIds: string[]): Promise<number> {
+    return bookingSeriesRepository.cancelWithoutActiveOccurrences([...new Set(groupIds)]);
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Load a series that must exist (after a write)
+   */
+  private async loadSeries(seriesId: string): Promise<BookingSeriesResponse> {
+    const series = await bookingSeriesRepository.findById(seriesId);
+    if (!series) {
+      throw new NotFoundError('Booking series not found');
+    }
+    const occurrences = await bookingSeriesRepository.findOccurrences(seriesId);
+    return this.formatSeries(series, occurrences);
+  }
+
+  /**
+   * Get a series the user may manage: its creator, the court's owner/staff or a platform admin
+   */
+  private async getAccessibleSeries(seriesId: string, user: UserProfileDto): Promise<RawBookingSeries> {
+    const series = await bookingSeriesRepository.findById(seriesId);
+    if (!series) {
+      throw new NotFoundError('Booking series not found');
+    }
+
+    if (series.user_id === user.id || user.role === 'platform_admin') {
+      return series;
+    }
+    const memberRole = await courtService.getMemberRole(series.court_id, user.id);
+    if (!memberRole) {
+      throw new ForbiddenError('You do not have access to this booking series');
+    }
+    return series;
+  }
+
+  /**
+   * Find an occurrence of the series that can still be changed
+   */
+  private getActiveOccurrence(occurrences: RawSeriesOccurrence[], bookingId: string): RawSeriesOccurrence {
+    const occurrence = occurrences.find((o) => o.id === bookingId);
+    if (!occurrence) {
+      throw new NotFoundError('Occurrence not found in this series');
+    }
+    if (!ACTIVE_STATUSES.includes(occurrence.status)) {
+      throw new BadRequestError(`Cannot change an occurrence with status: ${occurrence.status}`);
+    }
+    return occurrence;
+  }
+
+  /**
+   * Cancel occurrences one by one (each paid one is refunded)
+   */
+  private async cancelAll(occurrences: RawSeriesOccurrence[]): Promise<CancelBookingResponse[]> {
+    const cancelled: CancelBookingResponse[] = [];
+    for (const occurrence of occurrences) {
+      cancelled.push(await availabilityService.cancelBooking(occurrence.id));
+    }
+    return cancelled;
+  }
+
+  /**
+   * End a series the day before its first cancelled occurrence
+   * The series is cancelled when no occurrence is left active
+   */
+  private async endSeries(
+    series: RawBookingSeries,
+    occurrences: RawSeriesOccurrence[],
+    cancelled: RawSeriesOccurrence[],
+    untilDate: string
+  ): Promise<void> {
+    const cancelledIds = new Set(cancelled.map((o) => o.id));
+    const hasActive = occurrences.some((o) => !cancelledIds.has(o.id) && ACTIVE_STATUSES.includes(o.status));
+    const status: BookingSeriesStatus = hasActive ? 'active' : 'cancelled';
+
+    const currentUntil = series.until_date ? this.formatDate(series.until_date) : null;
+    await bookingSeriesRepository.update(series.id, {
+      untilDate: currentUntil && currentUntil < untilDate ? currentUntil : untilDate,
+      status,
+    });
+  }
+
+  /**
+   * Expand the weekly recurrence into dates
+   */
+  private expandDates(data: CreateBookingSeriesDto): string[] {
+    if (!isValidDateFormat(data.startDate)) {
+      throw new BadRequestError('Invalid startDate format. Use YYYY-MM-DD');
+    }
+    if (data.startDate < todayInVietnam()) {
+      throw new BadRequestError('startDate must not be in the past');
+    }
+    if (
+      !Array.isArray(data.daysOfWeek) ||
+      data.daysOfWeek.length === 0 ||
+      !data.daysOfWeek.every((day) => DAYS_OF_WEEK.includes(day))
+    ) {
+      throw new BadRequestError(`daysOfWeek must be a non-empty array of: ${DAYS_OF_WEEK.join(', ')}`);
+    }
+    if ((data.until === undefined) === (data.count === undefined)) {
+      throw new BadRequestError('Provide either until or count');
+    }
+
+    const lastAllowed = addDays(data.startDate, MAX_RANGE_DAYS - 1);
+    let until = lastAllowed;
+    if (data.until !== undefined) {
+      if (!isValidDateFormat(data.until)) {
+        throw new BadRequestError('Invalid until format. Use YYYY-MM-DD');
+      }
+      if (data.until < data.startDate) {
+        throw new BadRequestError('until must not be before startDate');
+      }
+      if (data.until > lastAllowed) {
+        throw new BadRequestError(`A series may span at most ${MAX_RANGE_DAYS} days`);
+      }
+      until = data.until;
+    }
+
+    const maxCount = data.count ?? MAX_OCCURRENCES;
+    if (!Number.isInteger(maxCount) || maxCount < 1 || maxCount > MAX_OCCURRENCES) {
+      throw new BadRequestError(`count must be an integer between 1 and ${MAX_OCCURRENCES}`);
+    }
+
+    const days = new Set(data.daysOfWeek);
+    const dates: string[] = [];
+    for (let date = data.startDate; date <= until && dates.length < maxCount; date = addDays(date, 1)) {
+      if (days.has(DAY_NAMES[new Date(date).getUTCDay()]!)) {
+        dates.push(date);
+      }
+    }
+
+    if (dates.length === 0) {
+      throw new BadRequestError('No dates in the range match daysOfWeek');
+    }
+    if (data.count === undefined && dates.length === MAX_OCCURRENCES && addDays(dates.at(-1)!, 1) <= until) {
+      throw new BadRequestError(`A series may have at most ${MAX_OCCURRENCES} occurrences`);
+    }
+    return dates;
+  }
+
+  /**
+   * Find a confirmed booking or closure overlapping a slot
+   */
+  private findBlock(blocks: RawSlotBlock[], date: string, startTime: string, endTime: string): RawSlotBlock | undefined {
+    return blocks.find(
+      (block) =>
+        this.formatDate(block.date) === date &&
+        (block.start_time === null ||
+          block.end_time === null ||
+          (startTime < block.end_time && endTime > block.start_time))
+    );
+  }
+
+  /**
+   * Validate a booking time range (HH:mm, start before end)
+   * Duration and slot grid follow the court's booking policy
+   */
+  private validateTimeRange(startTime: unknown, endTime: unknown): asserts startTime is string {
+    if (!isValidTimeFormat(startTime) || !isValidTimeFormat(endTime)) {
+      throw new BadRequestError('Invalid time format. Use HH:mm');
+    }
+    if (startTime >= endTime) {
+      throw new BadRequestError('Start time must be before end time');
+    }
+  }
+
+  /**
+   * Format a date column as YYYY-MM-DD
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0] ?? '';
+  }
+
+  /**
+   * Format series response
+   */
+  private formatSeries(series: RawBookingSeries, occurrences: RawSeriesOccurrence[]): BookingSeriesResponse {
+    return {
+      id: series.id,
+      subCourtId: series.sub_court_id,
+      subCourtName: series.sub_court_name,
+      courtId: series.court_id,
+      courtName: series.court_name,
+      guestName: series.guest_name,
+      guestPhone: series.guest_phone,
+      guestEmail: series.guest_email,
+      daysOfWeek: series.days_of_week as DayOfWeek[],
+      startTime: series.start_time,
+      endTime: series.end_time,
+      startDate: this.formatDate(series.start_date),
+      until: series.until_date ? this.formatDate(series.until_date) : null,
+      count: series.count,
+      status: series.status as BookingSeriesStatus,
+      notes: series.notes,
+      occurrences: occurrences.map((o) => ({
+        bookingId: o.id,
+        subCourtId: o.sub_court_id,
+        subCourtName: o.sub_court_name,
+        date: this.formatDate(o.date),
+        startTime: o.start_time,
+        endTime: o.end_time,
+        totalPrice: o.total_price,
+        status: o.status,
+      })),
+      createdAt: series.created_at.toISOString(),
+    };
+  }
+}
+
+export const bookingSeriesService = new BookingSeriesService();
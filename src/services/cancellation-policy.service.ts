@@ -0,0 +1,104 @@
+import { courtRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { DEFAULT_CANCELLATION_POLICY } from '../utils/cancellation-policy.js';
+import type {
+  CancellationPolicy,
+  CancellationPolicyTier,
+  CancellationPolicyResponse,
+  UpdateCancellationPolicyDto,
+} from '../types/index.js';
+
+const MAX_TIERS = 10;
+const MAX_HOURS_BEFORE = 30 * 24; // 30 days
+
+export class CancellationPolicyService {
+  /**
+   * Get a court's cancellation policy, falling back to the platform default
+   */
+  async getPolicy(courtId: string): Promise<CancellationPolicyResponse> {
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+
+    const policy = court.cancellationPolicy as CancellationPolicy | null;
+    return this.formatPolicy(courtId, policy);
+  }
+
+  /**
+   * Replace a court's cancellation policy
+   */
+  async updatePolicy(courtId: string, data: UpdateCancellationPolicyDto): Promise<CancellationPolicyResponse> {
+    await ensureCourtExists(courtId);
+    const tiers = this.validateTiers(data.tiers);
+
+    await courtRepository.updateCancellationPolicy(courtId, { tiers });
+    return this.formatPolicy(courtId, { tiers });
+  }
+
+  /**
+   * Reset a court to the platform default policy
+   */
+  async resetPolicy(courtId: string): Promise<CancellationPolicyResponse> {
+    await ensureCourtExists(courtId);
+    await courtRepository.updateCancellationPolicy(courtId, null);
+    return this.formatPolicy(courtId, null);
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Validate policy tiers and return them sorted by minHoursBefore (descending)
+   * A later cancellation must never refund more than an earlier one
+   */
+  private validateTiers(tiers: unknown): CancellationPolicyTier[] {
+    if (!Array.isArray(tiers) || tiers.length === 0 || tiers.length > MAX_TIERS) {
+      throw new BadRequestError(`tiers must be an array of 1 to ${MAX_TIERS} tiers`);
+    }
+
+    const parsed = tiers.map((tier: Partial<CancellationPolicyTier> | null) => {
+      const minHoursBefore = tier?.minHoursBefore;
+      const refundPercent = tier?.refundPercent;
+      if (
+        typeof minHoursBefore !== 'number' ||
+        !Number.isFinite(minHoursBefore) ||
+        minHoursBefore < 0 ||
+        minHoursBefore > MAX_HOURS_BEFORE
+      ) {
+        throw new BadRequestError(`minHoursBefore must be a number between 0 and ${MAX_HOURS_BEFORE}`);
+      }
+      if (typeof refundPercent !== 'number' || !Number.isInteger(refundPercent) || refundPercent < 0 || refundPercent > 100) {
+        throw new BadRequestError('refundPercent must be an integer between 0 and 100');
+      }
+      return { minHoursBefore, refundPercent };
+    });
+
+    parsed.sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+    for (let i = 1; i < parsed.length; i++) {
+      const earlier = parsed[i - 1]!;
+      const later = parsed[i]!;
+      if (earlier.minHoursBefore === later.minHoursBefore) {
+        throw new BadRequestError(`Duplicate tier for minHoursBefore ${later.minHoursBefore}`);
+      }
+      if (later.refundPercent > earlier.refundPercent) {
+        throw new BadRequestError('refundPercent must not increase as the booking gets closer');
+      }
+    }
+
+    return parsed;
+  }
+
+  /**
+   * Format policy response
+   */
+  private formatPolicy(courtId: string, policy: CancellationPolicy | null): CancellationPolicyResponse {
+    return {
+      courtId,
+      isDefault: policy === null,
+      tiers: (policy ?? DEFAULT_CANCELLATION_POLICY).tiers,
+    };
+  }
+}
+
+export const cancellationPolicyService = new CancellationPolicyService();
@@ -0,0 +1,227 @@
+import { randomUUID } from 'crypto';
+import { closureRepository, subCourtRepository } from '../repositories/index.js';
+import { websocketService } from './websocket.service.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { isValidDateFormat, isValidTimeFormat } from '../utils/date-time.js';
+import { mapBookingConflict, DAYS_OF_WEEK } from '../types/index.js';
+import type {
+  CreateClosureDto,
+  CreateClosureResponse,
+  ClosureQueryParams,
+  ClosureResponse,
+  RawClosure,
+  RawClosureDetail,
+  DayOfWeek,
+} from '../types/index.js';
+
+// Day name mapping (index = Date#getUTCDay)
+const DAY_NAMES: readonly DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Longest range a single request may span, to keep recurring closures bounded
+const MAX_RANGE_DAYS = 366;
+
+export class ClosureService {
+  /**
+   * List closures of a court, optionally within a date range
+   */
+  async getClosures(courtId: string, params: ClosureQueryParams): Promise<ClosureResponse[]> {
+    await ensureCourtExists(courtId);
+
+    if (params.from !== undefined && !isValidDateFormat(params.from)) {
+      throw new BadRequestError('Invalid from date. Use YYYY-MM-DD');
+    }
+    if (params.to !== undefined && !isValidDateFormat(params.to)) {
+      throw new BadRequestError('Invalid to date. Use YYYY-MM-DD');
+    }
+
+    const closures = await closureRepository.findByCourtId(courtId, params.from, params.to);
+    return closures.map((closure) => this.formatClosure(closure));
+  }
+
+  /**
+   * Create single-day, date-range or recurring closures for one or many sub-courts
+   * Existing pending/confirmed bookings are not cancelled; they are returned as
+   * conflicts so staff can contact or cancel them
+   */
+  async createClosures(courtId: string, data: CreateClosureDto): Promise<CreateClosureResponse> {
+    await ensureCourtExists(courtId);
+
+    const { startTime, endTime } = this.resolveTimeWindow(data);
+    const dates = this.resolveDates(data);
+    const subCourtIds = await this.resolveSubCourtIds(courtId, data.subCourtIds);
+
+    const rows = subCourtIds.flatMap((subCourtId) => dates.map((date) => ({ subCourtId, date })));
+    const seriesId = randomUUID();
+
+    await closureRepository.createMany(rows, {
+      startTime,
+      endTime,
+      reason: data.reason?.trim() || null,
+      seriesId,
+    });
+
+    const [closures, conflicts] = await Promise.all([
+      closureRepository.findBySeriesId(seriesId),
+      closureRepository.findBookingConflictsBySeries(seriesId),
+    ]);
+    this.notifyClosures('closure_added', courtId, closures);
+
+    return {
+      seriesId,
+      closures: closures.map((closure) => this.formatClosure(closure)),
+      conflicts: conflicts.map(mapBookingConflict),
+    };
+  }
+
+  /**
+   * Delete a single closure
+   */
+  async deleteClosure(courtId: string, closureId: string): Promise<void> {
+    const closure = await closureRepository.findById(closureId);
+    if (!closure || closure.court_id !== courtId) {
+      throw new NotFoundError('Closure not found');
+    }
+    await closureRepository.delete(closureId);
+    this.notifyClosures('closure_removed', courtId, [closure]);
+  }
+
+  /**
+   * Delete every closure created together in one request
+   */
+  async deleteSeries(courtId: string, seriesId: string): Promise<{ deleted: number }> {
+    const deleted = await closureRepository.deleteSeries(courtId, seriesId);
+    if (deleted.length === 0) {
+      throw new NotFoundError('Closure series not found');
+    }
+    this.notifyClosures('closure_removed', courtId, deleted);
+    return { deleted: deleted.length };
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Push closed or reopened ranges to the court's live availability grids
+   */
+  private notifyClosures(event: 'closure_added' | 'closure_removed', courtId: string, closures: RawClosure[]): void {
+    websocketService.notifySlotUpdates(
+      event,
+      event === 'closure_removed',
+      closures.map((closure) => ({
+        courtId,
+        subCourtId: closure.sub_court_id,
+        date: closure.date.toISOString().split('T')[0] ?? '',
+        startTime: closure.start_time,
+        endTime: closure.end_time,
+      }))
+    );
+  }
+
+  /**
+   * Validate the optional time window (both or neither; neither = full day)
+   */
+  private resolveTimeWindow(data: CreateClosureDto): { startTime: string | null; endTime: string | null } {
+    if (data.startTime === undefined && data.endTime === undefined) {
+      return { startTime: null, endTime: null };
+    }
+    if (!isValidTimeFormat(data.startTime) || !isValidTimeFormat(data.endTime)) {
+      throw new BadRequestError('startTime and endTime must both be given in HH:mm format, or both omitted');
+    }
+    if (data.startTime >= data.endTime) {
+      throw new BadRequestError('Start time must be before end time');
+    }
+    return { startTime: data.startTime, endTime: data.endTime };
+  }
+
+  /**
+   * Expand the request into the list of closure dates
+   */
+  private resolveDates(data: CreateClosureDto): string[] {
+    if (data.date !== undefined) {
+      if (data.startDate !== undefined || data.endDate !== undefined || data.daysOfWeek !== undefined) {
+        throw new BadRequestError('Use either date, or startDate/endDate (with optional daysOfWeek)');
+      }
+      if (!isValidDateFormat(data.date)) {
+        throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
+      }
+      return [data.date];
+    }
+
+    if (!isValidDateFormat(data.startDate) || !isValidDateFormat(data.endDate)) {
+      throw new BadRequestError('Provide date, or startDate and endDate in YYYY-MM-DD format');
+    }
+    if (data.startDate > data.endDate) {
+      throw new BadRequestError('startDate must not be after endDate');
+    }
+
+    const start = new Date(data.startDate);
+    const end = new Date(data.endDate);
+    const span = Math.round((end.getTime() - start.getTime()) / 86_400_000) + 1;
+    if (span > MAX_RANGE_DAYS) {
+      throw new BadRequestError(`A closure range may span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    let days: Set<DayOfWeek> | null = null;
+    if (data.daysOfWeek !== undefined) {
+      if (
+        !Array.isArray(data.daysOfWeek) ||
+        data.daysOfWeek.length === 0 ||
+        !data.daysOfWeek.every((day) => DAYS_OF_WEEK.includes(day))
+      ) {
+        throw new BadRequestError(`daysOfWeek must be a non-empty array of: ${DAYS_OF_WEEK.join(', ')}`);
+      }
+      days = new Set(data.daysOfWeek);
+    }
+
+    const dates: string[] = [];
+    for (let current = start; current <= end; current.setUTCDate(current.getUTCDate() + 1)) {
+      if (!days || days.has(DAY_NAMES[current.getUTCDay()]!)) {
+        dates.push(current.toISOString().split('T')[0]!);
+      }
+    }
+
+    if (dates.length === 0) {
+      throw new BadRequestError('No dates in the range match daysOfWeek');
+    }
+    return dates;
+  }
+
+  /**
+   * Validate requested sub-courts belong to the court (defaults to all of them)
+   */
+  private async resolveSubCourtIds(courtId: string, subCourtIds?: string[]): Promise<string[]> {
+    const subCourts = await subCourtRepository.findByCourtId(courtId);
+    if (subCourtIds === undefined) {
+      if (subCourts.length === 0) {
+        throw new BadRequestError('Court has no sub-courts');
+      }
+      return subCourts.map((subCourt) => subCourt.id);
+    }
+
+    const courtSubCourtIds = new Set(subCourts.map((subCourt) => subCourt.id));
+    const unknown = subCourtIds.filter((id) => !courtSubCourtIds.has(id));
+    if (unknown.length > 0) {
+      throw new NotFoundError(`Sub-court(s) not found in this court: ${unknown.join(', ')}`);
+    }
+    return [...new Set(subCourtIds)];
+  }
+
+  /**
+   * Format closure response
+   */
+  private formatClosure(closure: RawClosureDetail): ClosureResponse {
+    return {
+      id: closure.id,
+      subCourtId: closure.sub_court_id,
+      subCourtName: closure.sub_court_name,
+      date: closure.date.toISOString().split('T')[0] ?? '',
+      startTime: closure.start_time,
+      endTime: closure.end_time,
+      reason: closure.reason,
+      seriesId: closure.series_id,
+      createdAt: closure.created_at.toISOString(),
+    };
+  }
+}
+
+export const closureService = new ClosureService();
@@ -1,7 +1,18 @@
-import { courtRepository } from '../repositories/index.js';
+import { prisma } from '../config/database.js';
+import { courtRepository, courtMemberRepository } from '../repositories/index.js';
 import { searchService } from './search.service.js';
-import type { CreateCourtDto, UpdateCourtDto, CourtQueryParams, CourtLocation } from '../types/index.js';
-import { NotFoundError } from '../utils/errors.js';
+import { userService } from './user.service.js';
+import type {
+  CreateCourtDto,
+  UpdateCourtDto,
+  CourtQueryParams,
+  CourtLocation,
+  AddCourtMemberDto,
+  CourtMemberResponse,
+  CourtMemberRole,
+  UserRole,
+} from '../types/index.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
 
 export class CourtService {
   async getAllCourts(params: CourtQueryParams) {
@@ -16,8 +27,15 @@ export class CourtService {
     return court;
   }
 
-  async createCourt(data: CreateCourtDto) {
-    const court = await courtRepository.create(data);
+  async createCourt(data: CreateCourtDto, ownerId?: string) {
+    // The creating venue owner manages the new court; a court is never left without its owner
+    const court = await prisma.$transaction(async (tx) => {
+      const created = await courtRepository.create(data, tx);
+      if (created && ownerId) {
+        await courtMemberRepository.upsert(created.id, ownerId, 'owner', tx);
+      }
+      return created;
+    });
 
     // Sync to Redis autocomplete index (non-blocking)
     if (court) {
@@ -57,6 +75,101 @@ export class CourtService {
     return courtRepository.findNearby(location, radiusKm);
   }
 
+  /**
+   * List owners and staff of a court
+   */
+  async getMembers(courtId: string): Promise<CourtMemberResponse[]> {
+    await this.getCourtById(courtId);
+    const members = await courtMemberRepository.findByCourtId(courtId);
+    return members.map((member) => this.formatMember(member));
+  }
+
+  /**
+   * Add a user as owner or staff of a court (or change their membership role)
+   * Promotes the user's platform role so it matches the membership
+   */
+  async addMember(courtId: string, data: AddCourtMemberDto): Promise<CourtMemberResponse> {
+    await this.getCourtById(courtId);
+
+    const existing = await courtMemberRepository.findByCourtAndUser(courtId, data.userId);
+    if (existing?.role === 'owner' && data.role !== 'owner') {
+      await this.ensureAnotherOwner(courtId);
+    }
+
+    const platformRole: UserRole = data.role === 'owner' ? 'venue_owner' : 'venue_staff';
+    await userService.ensureRoleAtLeast(data.userId, platformRole);
+
+    const member = await courtMemberRepository.upsert(courtId, data.userId, data.role);
+    return this.formatMember(member);
+  }
+
+  /**
+   * Remove a user from a court's members
+   */
+  async removeMember(courtId: string, userId: string): Promise<void> {
+    const member = await courtMemberRepository.findByCourtAndUser(courtId, userId);
+    if (!member) {
+      throw new NotFoundError('Court member not found');
+    }
+
+    if (member.role === 'owner') {
+      await this.ensureAnotherOwner(courtId);
+    }
+
+    await courtMemberRepository.delete(courtId, userId);
+  }
+
+  /**
+   * Get a user's membership role on a court, or null if not a member
+   */
+  async getMemberRole(courtId: string, userId: string): Promise<CourtMemberRole | null> {
+    const member = await courtMemberRepository.findByCourtAndUser(courtId, userId);
+    return (member?.role as CourtMemberRole | undefined) ?? null;
+  }
+
+  /**
+   * Prevent a court from being left without any owner
+   */
+  private async ensureAnotherOwner(courtId: string): Promise<void> {
+    const ownerCount = await courtMemberRepository.countOwners(courtId);
+    if (ownerCount <= 1) {
+      throw new BadRequestError('A court must keep at least one owner');
+    }
+  }
+
+  /**
+   * Format court member response
+   */
+  private formatMember(member: {
+    id: string;
+    courtId: string;
+    userId: string;
+    role: string;
+    createdAt: Date;
+    user: {
+      email: string | null;
+      username: string | null;
+      firstName: string | null;
+      lastName: string | null;
+      role: string;
+    };
+  }): CourtMemberResponse {
+    return {
+      id: member.id,
+      courtId: member.courtId,
+      userId: member.userId,
+      role: member.role as CourtMemberRole,
+      user: {
+        email: member.user.email,
+        username: member.user.username,
+        firstName: member.user.firstName,
+        lastName: member.user.lastName,
+        role: member.user.role as UserRole,
+      },
+      createdAt: member.createdAt.toISOString(),
+    };
+  }
+
   /**
    * Sync a court to the search index
    * Private helper method for indexing operations
@@ -70,6 +183,7 @@ export class CourtService {
         addressDistrict: court.addressDistrict,
         addressWard: court.addressWard,
         addressCity: court.addressCity,
+        ratingAverage: court.ratingAverage,
       });
     }
   }
@@ -0,0 +1,118 @@
+import { courtRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import type { DynamicPricing, DynamicPricingResponse, UpdateDynamicPricingDto } from '../types/index.js';
+
+const MAX_SURGE_PERCENT = 100;
+const MAX_DISCOUNT_PERCENT = 90;
+const MAX_LAST_MINUTE_HOURS = 72;
+const MAX_EARLY_BIRD_DAYS = 90;
+
+export class DynamicPricingService {
+  /**
+   * Get a court's dynamic pricing
+   */
+  async getPricing(courtId: string): Promise<DynamicPricingResponse> {
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+
+    return this.formatPricing(courtId, court.dynamicPricing as DynamicPricing | null);
+  }
+
+  /**
+   * Replace a court's dynamic pricing
+   */
+  async updatePricing(courtId: string, data: UpdateDynamicPricingDto): Promise<DynamicPricingResponse> {
+    await ensureCourtExists(courtId);
+    const pricing = this.validatePricing(data);
+
+    await courtRepository.updateDynamicPricing(courtId, pricing);
+    return this.formatPricing(courtId, pricing);
+  }
+
+  /**
+   * Turn dynamic pricing off for a court
+   */
+  async resetPricing(courtId: string): Promise<DynamicPricingResponse> {
+    await ensureCourtExists(courtId);
+    await courtRepository.updateDynamicPricing(courtId, null);
+    return this.formatPricing(courtId, null);
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Validate the adjustments and keep only the known ones
+   * Last-minute and early-bird windows must not overlap, so a slot gets at most one discount
+   */
+  private validatePricing(data: UpdateDynamicPricingDto): DynamicPricing {
+    const pricing: DynamicPricing = {};
+
+    if (data.surge !== undefined) {
+      pricing.surge = {
+        occupancyPercent: this.validateNumber('surge.occupancyPercent', data.surge?.occupancyPercent, 1, 100),
+        increasePercent: this.validateInteger('surge.increasePercent', data.surge?.increasePercent, 1, MAX_SURGE_PERCENT),
+      };
+    }
+    if (data.lastMinute !== undefined) {
+      pricing.lastMinute = {
+        hoursBefore: this.validateNumber('lastMinute.hoursBefore', data.lastMinute?.hoursBefore, 0.5, MAX_LAST_MINUTE_HOURS),
+        discountPercent: this.validateInteger(
+          'lastMinute.discountPercent',
+          data.lastMinute?.discountPercent,
+          1,
+          MAX_DISCOUNT_PERCENT
+        ),
+      };
+    }
+    if (data.earlyBird !== undefined) {
+      pricing.earlyBird = {
+        daysBefore: this.validateInteger('earlyBird.daysBefore', data.earlyBird?.daysBefore, 1, MAX_EARLY_BIRD_DAYS),
+        discountPercent: this.validateInteger(
+          'earlyBird.discountPercent',
+          data.earlyBird?.discountPercent,
+          1,
+          MAX_DISCOUNT_PERCENT
+        ),
+      };
+    }
+
+    if (!pricing.surge && !pricing.lastMinute && !pricing.earlyBird) {
+      throw new BadRequestError('Provide at least one of surge, lastMinute or earlyBird');
+    }
+    if (pricing.lastMinute && pricing.earlyBird && pricing.lastMinute.hoursBefore >= pricing.earlyBird.daysBefore * 24) {
+      throw new BadRequestError('lastMinute.hoursBefore must end before the earlyBird window starts');
+    }
+
+    return pricing;
+  }
+
+  private validateNumber(field: string, value: unknown, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new BadRequestError(`${field} must be a number between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  private validateInteger(field: string, value: unknown, min: number, max: number): number {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      throw new BadRequestError(`${field} must be an integer between ${min} and ${max}`);
+    }
+    return value;
+  }
+
+  /**
+   * Format dynamic pricing response
+   */
+  private formatPricing(courtId: string, pricing: DynamicPricing | null): DynamicPricingResponse {
+    return {
+      courtId,
+      isEnabled: pricing !== null,
+      ...pricing,
+    };
+  }
+}
+
+export const dynamicPricingService = new DynamicPricingService();
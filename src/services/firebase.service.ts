@@ -23,6 +23,7 @@ export class FirebaseService {
         phone_number: decodedToken.phone_number,
         name: decodedToken.name,
         picture: decodedToken.picture,
+        exp: decodedToken.exp,
         firebase: {
           sign_in_provider: decodedToken.firebase.sign_in_provider,
           identities: decodedToken.firebase.identities,
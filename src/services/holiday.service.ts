@@ -0,0 +1,246 @@
+import { holidayRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { isValidDateFormat } from '../utils/date-time.js';
+import { getVietnameseHolidays } from '../utils/vietnamese-holidays.js';
+import type {
+  HolidayResponse,
+  CreateHolidayDto,
+  UpdateHolidayDto,
+  GenerateHolidaysDto,
+  GenerateHolidaysResponse,
+  HolidayEntry,
+  CourtHolidayOverrideDto,
+  CourtHolidayOverrideResponse,
+} from '../types/index.js';
+
+// Years the lunar calendar generator is trusted for
+const MIN_GENERATOR_YEAR = 2000;
+const MAX_GENERATOR_YEAR = 2100;
+
+export class HolidayService {
+  /**
+   * List global holidays, optionally for one year
+   */
+  async getHolidays(year?: number): Promise<HolidayResponse[]> {
+    if (year !== undefined && !Number.isInteger(year)) {
+      throw new BadRequestError('year must be an integer');
+    }
+    const holidays = await holidayRepository.findAll(year);
+    return holidays.map((holiday) => this.formatHoliday(holiday));
+  }
+
+  /**
+   * Create a global holiday
+   */
+  async createHoliday(data: CreateHolidayDto): Promise<HolidayResponse> {
+    this.validateDate(data.date);
+    const multiplier = data.multiplier ?? 1.0;
+    this.validateMultiplier(multiplier);
+
+    await this.ensureDateAvailable(data.date);
+
+    const holiday = await holidayRepository.create({
+      date: data.date,
+      name: data.name?.trim() || null,
+      multiplier,
+    });
+    return this.formatHoliday(holiday);
+  }
+
+  /**
+   * Update a global holiday
+   */
+  async updateHoliday(id: string, data: UpdateHolidayDto): Promise<HolidayResponse> {
+    const existing = await holidayRepository.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Holiday not found');
+    }
+
+    if (data.date !== undefined) {
+      this.validateDate(data.date);
+      if (data.date !== this.formatDate(existing.date)) {
+        await this.ensureDateAvailable(data.date);
+      }
+    }
+    if (data.multiplier !== undefined) {
+      this.validateMultiplier(data.multiplier);
+    }
+
+    const holiday = await holidayRepository.update(id, {
+      ...data,
+      ...(data.name !== undefined && { name: data.name?.trim() || null }),
+    });
+    return this.formatHoliday(holiday);
+  }
+
+  /**
+   * Delete a global holiday
+   */
+  async deleteHoliday(id: string): Promise<void> {
+    const existing = await holidayRepository.findById(id);
+    if (!existing) {
+      throw new NotFoundError('Holiday not found');
+    }
+    await holidayRepository.delete(id);
+  }
+
+  /**
+   * Generate Vietnamese public holidays (including lunar ones) for a year
+   * Existing holidays are kept unless overwrite is requested
+   */
+  async generateHolidays(data: GenerateHolidaysDto): Promise<GenerateHolidaysResponse> {
+    if (!Number.isInteger(data.year) || data.year < MIN_GENERATOR_YEAR || data.year > MAX_GENERATOR_YEAR) {
+      throw new BadRequestError(`year must be an integer between ${MIN_GENERATOR_YEAR} and ${MAX_GENERATOR_YEAR}`);
+    }
+
+    const generated = getVietnameseHolidays(data.year);
+    const existing = await holidayRepository.findByDates(generated.map((holiday) => holiday.date));
+    const existingDates = new Set(existing.map((holiday) => this.formatDate(holiday.date)));
+
+    const created: HolidayEntry[] = [];
+    const updated: HolidayEntry[] = [];
+    const skipped: HolidayEntry[] = [];
+    for (const holiday of generated) {
+      if (!existingDates.has(holiday.date)) {
+        created.push(holiday);
+      } else if (data.overwrite) {
+        updated.push(holiday);
+      } else {
+        skipped.push(holiday);
+      }
+    }
+
+    const dryRun = data.dryRun === true;
+    if (!dryRun) {
+      await holidayRepository.saveGenerated(created, updated);
+    }
+
+    return { year: data.year, created, updated, skipped, dryRun };
+  }
+
+  // ==================== Court Overrides ====================
+
+  /**
+   * List a court's holiday overrides, optionally for one year
+   */
+  async getCourtOverrides(courtId: string, year?: number): Promise<CourtHolidayOverrideResponse[]> {
+    await ensureCourtExists(courtId);
+    if (year !== undefined && !Number.isInteger(year)) {
+      throw new BadRequestError('year must be an integer');
+    }
+    const overrides = await holidayRepository.findOverridesByCourtId(courtId, year);
+    return overrides.map((override) => this.formatOverride(override));
+  }
+
+  /**
+   * Create or replace a court's holiday override for a date
+   */
+  async setCourtOverride(
+    courtId: string,
+    date: string,
+    data: CourtHolidayOverrideDto
+  ): Promise<CourtHolidayOverrideResponse> {
+    await ensureCourtExists(courtId);
+    this.validateDate(date);
+
+    const isHoliday = data.isHoliday ?? true;
+    const multiplier = data.multiplier ?? null;
+    if (multiplier !== null) {
+      if (!isHoliday) {
+        throw new BadRequestError('multiplier only applies when isHoliday is true');
+      }
+      this.validateMultiplier(multiplier);
+    }
+
+    const override = await holidayRepository.upsertOverride(courtId, date, {
+      isHoliday,
+      name: data.name?.trim() || null,
+      multiplier,
+    });
+    return this.formatOverride(override);
+  }
+
+  /**
+   * Remove a court's holiday override, falling back to the global calendar
+   */
+  async deleteCourtOverride(courtId: string, date: string): Promise<void> {
+    this.validateDate(date);
+    const deleted = await holidayRepository.deleteOverride(courtId, date);
+    if (deleted === 0) {
+      throw new NotFoundError('Holiday override not found');
+    }
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Ensure no global holiday exists on a date
+   */
+  private async ensureDateAvailable(date: string): Promise<void> {
+    const existing = await holidayRepository.findByDate(date);
+    if (existing) {
+      throw new ConflictError(`A holiday already exists on ${date}`);
+    }
+  }
+
+  /**
+   * Validate date format (YYYY-MM-DD)
+   */
+  private validateDate(date: unknown): asserts date is string {
+    if (!isValidDateFormat(date)) {
+      throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
+    }
+  }
+
+  /**
+   * Validate a price multiplier
+   */
+  private validateMultiplier(multiplier: unknown): void {
+    if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier <= 0) {
+      throw new BadRequestError('multiplier must be a positive number');
+    }
+  }
+
+  /**
+   * Format a date column as YYYY-MM-DD
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0] ?? '';
+  }
+
+  /**
+   * Format holiday response
+   */
+  private formatHoliday(holiday: { id: string; date: Date; name: string | null; multiplier: number }): HolidayResponse {
+    return {
+      id: holiday.id,
+      date: this.formatDate(holiday.date),
+      name: holiday.name,
+      multiplier: holiday.multiplier,
+    };
+  }
+
+  /**
+   * Format court holiday override response
+   */
+  private formatOverride(override: {
+    id: string;
+    courtId: string;
+    date: Date;
+    name: string | null;
+    isHoliday: boolean;
+    multiplier: number | null;
+  }): CourtHolidayOverrideResponse {
+    return {
+      id: override.id,
+      courtId: override.courtId,
+      date: this.formatDate(override.date),
+      name: override.name,
+      isHoliday: override.isHoliday,
+      multiplier: override.multiplier,
+    };
+  }
+}
+
+export const holidayService = new HolidayService();
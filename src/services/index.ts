@@ -9,4 +9,23 @@ export * from './search.service.js';
 export * from './firebase.service.js';
 export * from './user.service.js';
 export * from './scheduler.service.js';
+export * from './sub-court.service.js';
+export * from './pricing-rule.service.js';
+export * from './closure.service.js';
+export * from './holiday.service.js';
+export * from './cancellation-policy.service.js';
+export * from './dynamic-pricing.service.js';
+export * from './booking-policy.service.js';
+export * from './refund.service.js';
+export * from './split-payment.service.js';
 
+export * from './booking-series.service.js';
+export * from './waitlist.service.js';
+export * from './review.service.js';
+export * from './open-game.service.js';
+export * from './voucher.service.js';
+export * from './package.service.js';
+export * from './booking-change.service.js';
+export * from './webhook.service.js';
+export * from './notification.service.js';
+export * from './push.service.js';
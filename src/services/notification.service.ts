@@ -0,0 +1,123 @@
+import type { Prisma } from '@prisma/client';
+import { notificationRepository } from '../repositories/index.js';
+import { BadRequestError } from '../utils/errors.js';
+import type { NotificationQueryParams, NotificationResponse, NotificationType } from '../types/index.js';
+import type { PaymentNotification } from './websocket.service.js';
+
+type NotificationRecord = Awaited<ReturnType<typeof notificationRepository.findSince>>[number];
+
+const DEFAULT_NOTIFICATION_LIMIT = 20;
+const MAX_NOTIFICATION_LIMIT = 100;
+
+// Notifications replayed per resume; clients resume again from the last one while hasMore is set
+const REPLAY_LIMIT = 100;
+
+// Seqs are taken when a notification is written but become visible when its transaction commits, so a lower seq
+// can show up after a higher one was read. A resume replays the notifications created this long before the last one
+// seen again, at most REPLAY_OVERLAP_LIMIT of them, and clients drop the seqs they already have.
+const REPLAY_OVERLAP_MS = 60 * 1000;
+const REPLAY_OVERLAP_LIMIT = 50;
+
+// Notifications older than this are pruned, and can no longer be replayed
+const RETENTION_DAYS = 7;
+
+export class NotificationService {
+  /**
+   * Keep a payment status notification in the booker's outbox
+   * Returns the notification with its seq, ready to send. Guest bookings have nobody to
+   * replay it to, so their notification is returned unchanged and only sent live.
+   */
+  async recordPaymentStatus(
+    userId: string | null,
+    notification: PaymentNotification,
+    tx?: Prisma.TransactionClient
+  ): Promise<PaymentNotification> {
+    if (!userId) {
+      return notification;
+    }
+
+    const { seq } = await notificationRepository.create(
+      { userId, type: notification.type, payload: { ...notification } },
+      tx
+    );
+    return { ...notification, seq };
+  }
+
+  /**
+   * Get a user's latest notifications, newest first
+   */
+  async getNotifications(userId: string, params: NotificationQueryParams): Promise<NotificationResponse[]> {
+    const since = params.since === undefined ? undefined : Number(params.since);
+    if (since !== undefined && (!Number.isInteger(since) || since < 0)) {
+      throw new BadRequestError('since must be a non-negative integer');
+    }
+    const limit = params.limit === undefined ? DEFAULT_NOTIFICATION_LIMIT : Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_NOTIFICATION_LIMIT) {
+      throw new BadRequestError(`limit must be an integer between 1 and ${MAX_NOTIFICATION_LIMIT}`);
+    }
+
+    const notifications = await notificationRepository.findRecent(userId, {
+      ...(since !== undefined && { since: await this.getReplayStart(userId, since) }),
+      limit,
+    });
+    return notifications.map((notification) => this.formatNotification(notification));
+  }
+
+  /**
+   * Get the messages a user missed after a seq, oldest first, as they were sent over WebSocket
+   * Notifications created shortly before the one at since are sent again, in case one committed late
+   * lastSeq is the highest seq returned, or since when there was none after it
+   */
+  async getMissed(
+    userId: string,
+    since: number
+  ): Promise<{ messages: Record<string, unknown>[]; lastSeq: number; hasMore: boolean }> {
+    const replayStart = await this.getReplayStart(userId, since);
+    const notifications = await notificationRepository.findSince(userId, replayStart, REPLAY_LIMIT + 1);
+    const replayed = notifications.slice(0, REPLAY_LIMIT);
+
+    return {
+      messages: replayed.map((notification) => this.formatNotification(notification).payload),
+      lastSeq: Math.max(since, replayed[replayed.length - 1]?.seq ?? since),
+      hasMore: notifications.length > REPLAY_LIMIT,
+    };
+  }
+
+  /**
+   * Delete notifications past the retention period
+   */
+  async pruneNotifications(): Promise<number> {
+    return notificationRepository.deleteOlderThan(new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000));
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Seq to read after for a client that has seen up to since
+   * Goes back to the oldest notification created within the overlap window before the one at since
+   */
+  private async getReplayStart(userId: string, since: number): Promise<number> {
+    const lastSeen = since > 0 ? await notificationRepository.findBySeq(userId, since) : null;
+    if (!lastSeen) {
+      return since;
+    }
+
+    const seqs = await notificationRepository.findSeqsCreatedSince(userId, {
+      before: since,
+      createdSince: new Date(lastSeen.createdAt.getTime() - REPLAY_OVERLAP_MS),
+      limit: REPLAY_OVERLAP_LIMIT,
+    });
+    return Math.min(since, ...seqs.map((seq) => seq - 1));
+  }
+
+  private formatNotification(notification: NotificationRecord): NotificationResponse {
+    return {
+      seq: notification.seq,
+      type: notification.type as NotificationType,
+      payload: { ...(notification.payload as Prisma.JsonObject), seq: notification.seq },
+      createdAt: notification.createdAt.toISOString(),
+    };
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,382 @@
+import { openGameRepository, courtRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError, ConflictError, ForbiddenError } from '../utils/errors.js';
+import { isValidDateFormat, todayInVietnam } from '../utils/date-time.js';
+import { MIN_SKILL_LEVEL, MAX_SKILL_LEVEL } from '../types/index.js';
+import type {
+  CreateOpenGameDto,
+  UpdateOpenGameDto,
+  JoinOpenGameDto,
+  OpenGameQueryParams,
+  OpenGameResponse,
+  OpenGameStatus,
+  OpenGamePlayerResponse,
+  OpenGamePlayerStatus,
+  UserProfileDto,
+} from '../types/index.js';
+
+const MAX_SPOTS = 10;
+const MAX_RADIUS_KM = 50;
+const MAX_MESSAGE_LENGTH = 500;
+
+type OpenGameRecord = NonNullable<Awaited<ReturnType<typeof openGameRepository.findById>>>;
+type OpenGamePlayerRecord = NonNullable<Awaited<ReturnType<typeof openGameRepository.findPlayerById>>>;
+
+export class OpenGameService {
+  /**
+   * Open a confirmed upcoming booking to other players
+   */
+  async createOpenGame(data: CreateOpenGameDto): Promise<OpenGameResponse> {
+    if (!data.userId) {
+      throw new BadRequestError('User context is required to open a game');
+    }
+
+    const booking = await openGameRepository.findBooking(data.bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+    if (booking.userId !== data.userId) {
+      throw new ForbiddenError('You can only open your own bookings');
+    }
+    if (booking.status !== 'confirmed') {
+      throw new BadRequestError('Only confirmed bookings can be opened to other players');
+    }
+    if (this.formatDate(booking.date) < todayInVietnam()) {
+      throw new BadRequestError('Cannot open a past booking');
+    }
+    if (await openGameRepository.findByBookingId(booking.id)) {
+      throw new ConflictError('This booking is already an open game');
+    }
+
+    this.validateSkillRange(data.skillMin, data.skillMax);
+    this.validateSpots(data.spots);
+    this.validateCost(data.costPerPlayer, booking.totalPrice);
+
+    const game = await openGameRepository.create({
+      bookingId: booking.id,
+      hostUserId: data.userId,
+      skillMin: data.skillMin,
+      skillMax: data.skillMax,
+      spots: data.spots,
+      costPerPlayer: data.costPerPlayer,
+      notes: data.notes?.trim() || null,
+    });
+    return this.formatGame(game);
+  }
+
+  /**
+   * Find open games with free spots at courts near a location
+   */
+  async getNearbyGames(params: OpenGameQueryParams): Promise<OpenGameResponse[]> {
+    const radiusKm = params.radius ?? 5;
+    if (radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      throw new BadRequestError(`radius must be between 0 and ${MAX_RADIUS_KM} km`);
+    }
+    if (params.date !== undefined && !isValidDateFormat(params.date)) {
+      throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
+    }
+    if (params.date !== undefined && params.date < todayInVietnam()) {
+      throw new BadRequestError('Cannot search games on a past date');
+    }
+    if (params.skillLevel !== undefined) {
+      this.validateSkillLevel(params.skillLevel, 'skillLevel');
+    }
+
+    const courts = await courtRepository.findNearby(
+      { latitude: params.latitude, longitude: params.longitude },
+      radiusKm
+    );
+    if (courts.length === 0) {
+      return [];
+    }
+    const distances = new Map(courts.map((court) => [court.id, Number(court.distance)]));
+
+    const games = await openGameRepository.findOpenByCourtIds([...distances.keys()], {
+      fromDate: new Date(todayInVietnam()),
+      date: params.date ? new Date(params.date) : undefined,
+      skillLevel: params.skillLevel,
+    });
+
+    return games
+      .filter((game) => game._count.players < game.spots)
+      .map((game) => ({
+        ...this.formatGame(game),
+        distance: Math.round(distances.get(game.booking.subCourt.court.id) ?? 0),
+      }));
+  }
+
+  /**
+   * Get a game
+   */
+  async getOpenGame(id: string): Promise<OpenGameResponse> {
+    return this.formatGame(await this.getGameOrThrow(id));
+  }
+
+  /**
+   * Change a game's skill range, spots, cost share or notes (host)
+   */
+  async updateOpenGame(id: string, data: UpdateOpenGameDto, user: UserProfileDto): Promise<OpenGameResponse> {
+    const game = await this.getHostedGame(id, user);
+    if (game.status !== 'open') {
+      throw new BadRequestError('Cannot update a closed game');
+    }
+
+    const skillMin = data.skillMin ?? game.skillMin;
+    const skillMax = data.skillMax ?? game.skillMax;
+    this.validateSkillRange(skillMin, skillMax);
+
+    if (data.spots !== undefined) {
+      this.validateSpots(data.spots);
+      if (data.spots < game._count.players) {
+        throw new BadRequestError(`${game._count.players} player(s) already joined; spots cannot be lower`);
+      }
+    }
+    if (data.costPerPlayer !== undefined) {
+      const booking = await openGameRepository.findBooking(game.bookingId);
+      this.validateCost(data.costPerPlayer, booking?.totalPrice ?? 0);
+    }
+
+    const updated = await openGameRepository.update(id, {
+      skillMin,
+      skillMax,
+      spots: data.spots,
+      costPerPlayer: data.costPerPlayer,
+      ...(data.notes !== undefined && { notes: data.notes?.trim() || null }),
+    });
+    return this.formatGame(updated);
+  }
+
+  /**
+   * Stop looking for players (host); accepted players stay in the game
+   */
+  async closeOpenGame(id: string, user: UserProfileDto): Promise<OpenGameResponse> {
+    const game = await this.getHostedGame(id, user);
+    if (game.status === 'closed') {
+      return this.formatGame(game);
+    }
+    return this.formatGame(await openGameRepository.update(id, { status: 'closed' }));
+  }
+
+  /**
+   * Ask to join a game
+   */
+  async requestToJoin(id: string, data: JoinOpenGameDto, user: UserProfileDto): Promise<OpenGamePlayerResponse> {
+    const game = await this.getGameOrThrow(id);
+    if (game.hostUserId === user.id) {
+      throw new BadRequestError('You are hosting this game');
+    }
+    this.ensureJoinable(game);
+
+    if (data.skillLevel !== undefined) {
+      this.validateSkillLevel(data.skillLevel, 'skillLevel');
+      if (data.skillLevel < game.skillMin || data.skillLevel > game.skillMax) {
+        throw new BadRequestError(`This game is for skill levels ${game.skillMin}-${game.skillMax}`);
+      }
+    }
+    if (data.message !== undefined && (typeof data.message !== 'string' || data.message.length > MAX_MESSAGE_LENGTH)) {
+      throw new BadRequestError(`message must be a string of at most ${MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const existing = await openGameRepository.findPlayer(id, user.id);
+    if (existing?.status === 'requested' || existing?.status === 'accepted') {
+      throw new ConflictError('You have already asked to join this game');
+    }
+    if (existing?.status === 'declined') {
+      throw new ForbiddenError('The host declined your request');
+    }
+
+    const player = await openGameRepository.upsertRequest(id, user.id, {
+      skillLevel: data.skillLevel ?? null,
+      message: data.message?.trim() || null,
+    });
+    return this.formatPlayer(player);
+  }
+
+  /**
+   * Withdraw a join request or leave the game
+   */
+  async withdraw(id: string, user: UserProfileDto): Promise<OpenGamePlayerResponse> {
+    const player = await openGameRepository.findPlayer(id, user.id);
+    if (!player) {
+      throw new NotFoundError('You have not asked to join this game');
+    }
+    if (player.status !== 'requested' && player.status !== 'accepted') {
+      throw new BadRequestError(`Cannot withdraw a request with status: ${player.status}`);
+    }
+    return this.formatPlayer(await openGameRepository.updatePlayerStatus(player.id, 'withdrawn'));
+  }
+
+  /**
+   * Get a game's join requests (host)
+   */
+  async getPlayers(id: string, user: UserProfileDto): Promise<OpenGamePlayerResponse[]> {
+    await this.getHostedGame(id, user);
+    const players = await openGameRepository.findPlayers(id);
+    return players.map((player) => this.formatPlayer(player));
+  }
+
+  /**
+   * Accept or decline a join request (host)
+   * Accepted players can still be declined later, which frees their spot
+   */
+  async respondToRequest(
+    id: string,
+    playerId: string,
+    status: unknown,
+    user: UserProfileDto
+  ): Promise<OpenGamePlayerResponse> {
+    const game = await this.getHostedGame(id, user);
+
+    if (status !== 'accepted' && status !== 'declined') {
+      throw new BadRequestError('status must be one of: accepted, declined');
+    }
+
+    const player = await openGameRepository.findPlayerById(playerId);
+    if (!player || player.openGameId !== id) {
+      throw new NotFoundError('Join request not found');
+    }
+
+    if (status === 'accepted') {
+      if (player.status !== 'requested') {
+        throw new BadRequestError(`Cannot accept a request with status: ${player.status}`);
+      }
+      this.ensureJoinable(game);
+      if ((await openGameRepository.countAccepted(id)) >= game.spots) {
+        throw new ConflictError('The game is full');
+      }
+    } else if (player.status !== 'requested' && player.status !== 'accepted') {
+      throw new BadRequestError(`Cannot decline a request with status: ${player.status}`);
+    }
+
+    return this.formatPlayer(await openGameRepository.updatePlayerStatus(player.id, status));
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Get game or throw NotFoundError
+   */
+  private async getGameOrThrow(id: string): Promise<OpenGameRecord> {
+    const game = await openGameRepository.findById(id);
+    if (!game) {
+      throw new NotFoundError('Open game not found');
+    }
+    return game;
+  }
+
+  /**
+   * Get a game hosted by the user (platform admins may manage any game)
+   */
+  private async getHostedGame(id: string, user: UserProfileDto): Promise<OpenGameRecord> {
+    const game = await this.getGameOrThrow(id);
+    if (game.hostUserId !== user.id && user.role !== 'platform_admin') {
+      throw new ForbiddenError('Only the host can manage this game');
+    }
+    return game;
+  }
+
+  /**
+   * A game takes players while it is open, its booking is confirmed and upcoming, and it has free spots
+   */
+  private ensureJoinable(game: OpenGameRecord): void {
+    if (game.status !== 'open' || game.booking.status !== 'confirmed') {
+      throw new BadRequestError('This game is not open');
+    }
+    if (this.formatDate(game.booking.date) < todayInVietnam()) {
+      throw new BadRequestError('This game has already been played');
+    }
+    if (game._count.players >= game.spots) {
+      throw new ConflictError('The game is full');
+    }
+  }
+
+  private validateSkillLevel(level: unknown, field: string): void {
+    if (typeof level !== 'number' || !Number.isInteger(level) || level < MIN_SKILL_LEVEL || level > MAX_SKILL_LEVEL) {
+      throw new BadRequestError(`${field} must be a whole number from ${MIN_SKILL_LEVEL} to ${MAX_SKILL_LEVEL}`);
+    }
+  }
+
+  private validateSkillRange(skillMin: unknown, skillMax: unknown): void {
+    this.validateSkillLevel(skillMin, 'skillMin');
+    this.validateSkillLevel(skillMax, 'skillMax');
+    if ((skillMin as number) > (skillMax as number)) {
+      throw new BadRequestError('skillMin must not be greater than skillMax');
+    }
+  }
+
+  private validateSpots(spots: unknown): void {
+    if (typeof spots !== 'number' || !Number.isInteger(spots) || spots < 1 || spots > MAX_SPOTS) {
+      throw new BadRequestError(`spots must be a whole number from 1 to ${MAX_SPOTS}`);
+    }
+  }
+
+  private validateCost(costPerPlayer: unknown, totalPrice: number): void {
+    if (typeof costPerPlayer !== 'number' || !Number.isInteger(costPerPlayer) || costPerPlayer < 0) {
+      throw new BadRequestError('costPerPlayer must be a non-negative whole number (VND)');
+    }
+    if (costPerPlayer > totalPrice) {
+      throw new BadRequestError('costPerPlayer cannot exceed the booking price');
+    }
+  }
+
+  /**
+   * Format a date column as YYYY-MM-DD
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0] ?? '';
+  }
+
+  /**
+   * Format a time column as HH:mm
+   */
+  private formatTime(time: Date): string {
+    return time.toISOString().substring(11, 16);
+  }
+
+  private formatName(user: { firstName: string | null; lastName: string | null; username: string | null }): string | null {
+    return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.username;
+  }
+
+  /**
+   * Format open game response
+   */
+  private formatGame(game: OpenGameRecord): OpenGameResponse {
+    return {
+      id: game.id,
+      bookingId: game.bookingId,
+      hostUserId: game.hostUserId,
+      hostName: this.formatName(game.host),
+      court: game.booking.subCourt.court,
+      subCourt: { id: game.booking.subCourt.id, name: game.booking.subCourt.name },
+      date: this.formatDate(game.booking.date),
+      startTime: this.formatTime(game.booking.startTime),
+      endTime: this.formatTime(game.booking.endTime),
+      skillMin: game.skillMin,
+      skillMax: game.skillMax,
+      spots: game.spots,
+      spotsLeft: Math.max(game.spots - game._count.players, 0),
+      costPerPlayer: game.costPerPlayer,
+      notes: game.notes,
+      status: game.status as OpenGameStatus,
+      createdAt: game.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Format join request response
+   */
+  private formatPlayer(player: OpenGamePlayerRecord): OpenGamePlayerResponse {
+    return {
+      id: player.id,
+      openGameId: player.openGameId,
+      userId: player.userId,
+      name: this.formatName(player.user),
+      photoUrl: player.user.photoUrl,
+      skillLevel: player.skillLevel,
+      message: player.message,
+      status: player.status as OpenGamePlayerStatus,
+      createdAt: player.createdAt.toISOString(),
+    };
+  }
+}
+
+export const openGameService = new OpenGameService();
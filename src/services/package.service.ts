@@ -0,0 +1,401 @@
+import { prisma } from '../config/database.js';
+import { packageRepository, userRepository } from '../repositories/index.js';
+import { zaloPayService } from './zalopay.service.js';
+import { paymentService } from './payment.service.js';
+import { courtService } from './court.service.js';
+import { cancellationPolicyService } from './cancellation-policy.service.js';
+import { NotFoundError, BadRequestError, ForbiddenError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { getMinutesBetween } from '../utils/date-time.js';
+import { getHoursBeforeStart, getRefundPercent } from '../utils/cancellation-policy.js';
+import type {
+  CreatePackagePlanDto,
+  UpdatePackagePlanDto,
+  PackagePlanResponse,
+  PurchasePackageDto,
+  PurchasePackageResponse,
+  GrantPackageDto,
+  UserPackageResponse,
+  PackageTransactionResponse,
+  PackageStatus,
+  PackageSource,
+  PackageTransactionType,
+  UserProfileDto,
+} from '../types/index.js';
+
+type PlanRecord = NonNullable<Awaited<ReturnType<typeof packageRepository.findPlanById>>>;
+type PackageRecord = NonNullable<Awaited<ReturnType<typeof packageRepository.findById>>>;
+
+// Court time is booked in 30-minute steps
+const MINUTES_STEP = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PackageService {
+  // ==================== Plans ====================
+
+  /**
+   * List the plans a court currently sells
+   */
+  async getPlans(courtId: string): Promise<PackagePlanResponse[]> {
+    await ensureCourtExists(courtId);
+    const plans = await packageRepository.findPlansByCourtId(courtId, true);
+    return plans.map((plan) => this.formatPlan(plan));
+  }
+
+  /**
+   * Create a plan for a court (court owner)
+   */
+  async createPlan(courtId: string, data: CreatePackagePlanDto): Promise<PackagePlanResponse> {
+    await ensureCourtExists(courtId);
+    this.validatePlan(data);
+
+    const plan = await packageRepository.createPlan(courtId, {
+      name: data.name.trim(),
+      minutes: data.minutes,
+      validityDays: data.validityDays,
+      price: data.price,
+      isActive: data.isActive ?? true,
+    });
+    return this.formatPlan(plan);
+  }
+
+  /**
+   * Update a court's plan (court owner)
+   * Packages already sold keep their minutes, price and validity
+   */
+  async updatePlan(courtId: string, planId: string, data: UpdatePackagePlanDto): Promise<PackagePlanResponse> {
+    const current = await this.getCourtPlan(courtId, planId);
+    const merged = {
+      name: data.name ?? current.name,
+      minutes: data.minutes ?? current.minutes,
+      validityDays: data.validityDays ?? current.validityDays,
+      price: data.price ?? current.price,
+    };
+    this.validatePlan(merged);
+
+    const plan = await packageRepository.updatePlan(planId, {
+      ...merged,
+      name: merged.name.trim(),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+    });
+    return this.formatPlan(plan);
+  }
+
+  // ==================== Packages ====================
+
+  /**
+   * Buy a plan: creates a pending package and its ZaloPay order
+   * The package is activated by the ZaloPay callback (or when its status is checked)
+   */
+  async purchasePackage(data: PurchasePackageDto, user: UserProfileDto): Promise<PurchasePackageResponse> {
+    if (!zaloPayService.isConfigured()) {
+      throw new BadRequestError('Payment service is not configured');
+    }
+
+    const plan = await packageRepository.findPlanById(data.planId);
+    if (!plan || !plan.isActive) {
+      throw new NotFoundError('Package plan not found');
+    }
+
+    let userPackage;
+    try {
+      userPackage = await prisma.$transaction(async (tx) => {
+        const created = await packageRepository.create(this.fromPlan(plan, user.id, 'online'), tx);
+        const appTransId = zaloPayService.generateAppTransId(created.id);
+
+        const order = await paymentService.createOrder({
+          packageId: created.id,
+          appTransId,
+          amount: plan.price,
+          guestName: [user.firstName, user.lastName].filter(Boolean).join(' ') || 'Player',
+          guestPhone: user.phoneNumber ?? '',
+          description: `Arc Badminton - ${created.court.name} - ${plan.name}`,
+        });
+
+        return packageRepository.setOrder(
+          created.id,
+          { appTransId, orderUrl: order.orderUrl ?? null, zpTransToken: order.zpTransToken },
+          tx
+        );
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new BadRequestError(error.message);
+      }
+      throw error;
+    }
+
+    const orderUrl = userPackage.orderUrl || '';
+    return {
+      package: this.formatPackage(userPackage),
+      orderUrl,
+      qrCode: await paymentService.generateQrCode(orderUrl),
+      zpTransToken: userPackage.zpTransToken,
+    };
+  }
+
+  /**
+   * Record a package the venue sold offline (court owner or staff); it is active at once
+   */
+  async grantPackage(courtId: string, data: GrantPackageDto): Promise<UserPackageResponse> {
+    const plan = await this.getCourtPlan(courtId, data.planId);
+    if (!plan.isActive) {
+      throw new BadRequestError('Package plan is not active');
+    }
+
+    const user = await userRepository.findById(data.userId);
+    if (!user) {
+      throw new NotFoundError('User not found');
+    }
+    if (user.isAnonymous) {
+      throw new BadRequestError('Packages can only be given to registered users');
+    }
+
+    const id = await prisma.$transaction(async (tx) => {
+      const created = await packageRepository.create(this.fromPlan(plan, user.id, 'offline'), tx);
+      await packageRepository.activate(created.id, { expiresAt: this.getExpiry(plan.validityDays) }, tx);
+      return created.id;
+    });
+
+    return this.formatPackage((await packageRepository.findById(id))!);
+  }
+
+  /**
+   * List the caller's packages
+   */
+  async getMyPackages(userId: string): Promise<UserPackageResponse[]> {
+    const packages = await packageRepository.findByUserId(userId);
+    return packages.map((userPackage) => this.formatPackage(userPackage));
+  }
+
+  /**
+   * Get a package, checking a pending purchase with ZaloPay first
+   */
+  async getPackage(id: string, user: UserProfileDto): Promise<UserPackageResponse> {
+    let userPackage = await this.getAccessiblePackage(id, user);
+
+    if (userPackage.status === 'pending' && userPackage.appTransId) {
+      const queryResult = await zaloPayService.queryOrder(userPackage.appTransId);
+      if (queryResult.return_code === 1 || queryResult.return_code === 2) {
+        await this.settlePurchase(userPackage.appTransId, {
+          status: queryResult.return_code === 1 ? 'success' : 'failed',
+          zpTransId: String(queryResult.zp_trans_id),
+        });
+        userPackage = (await packageRepository.findById(id))!;
+      }
+    }
+
+    return this.formatPackage(userPackage);
+  }
+
+  /**
+   * Get the balance history of a package
+   */
+  async getTransactions(id: string, user: UserProfileDto): Promise<PackageTransactionResponse[]> {
+    await this.getAccessiblePackage(id, user);
+    const transactions = await packageRepository.findTransactions(id);
+    return transactions.map((transaction) => ({
+      id: transaction.id,
+      bookingId: transaction.bookingId,
+      type: transaction.type as PackageTransactionType,
+      minutes: transaction.minutes,
+      balanceAfter: transaction.balanceAfter,
+      note: transaction.note,
+      createdAt: transaction.createdAt.toISOString(),
+    }));
+  }
+
+  /**
+   * Settle the ZaloPay payment of a package purchase
+   * Returns false when no package was bought with this app_trans_id
+   */
+  async settlePurchase(
+    appTransId: string,
+    result: { status: 'success' | 'failed'; zpTransId?: string }
+  ): Promise<boolean> {
+    const userPackage = await packageRepository.findByAppTransId(appTransId);
+    if (!userPackage) {
+      return false;
+    }
+
+    if (result.status === 'success') {
+      await packageRepository.activate(userPackage.id, {
+        expiresAt: this.getExpiry(userPackage.validityDays),
+        zpTransId: result.zpTransId,
+      });
+    } else {
+      await packageRepository.cancelPending(userPackage.id);
+    }
+    return true;
+  }
+
+  /**
+   * Get a package the user can book with at a court, for the given minutes
+   */
+  async getUsablePackage(id: string, userId: string, courtId: string, minutes: number): Promise<PackageRecord> {
+    const userPackage = await packageRepository.findById(id);
+    if (!userPackage || userPackage.userId !== userId) {
+      throw new NotFoundError('Package not found');
+    }
+    if (userPackage.courtId !== courtId) {
+      throw new BadRequestError(`Package can only be used at ${userPackage.court.name}`);
+    }
+    if (userPackage.status !== 'active' || !userPackage.expiresAt || userPackage.expiresAt <= new Date()) {
+      throw new BadRequestError('Package is not active');
+    }
+    if (userPackage.remainingMinutes < minutes) {
+      throw new BadRequestError(
+        `Not enough time left on the package: ${userPackage.remainingMinutes} minutes left, ${minutes} needed`
+      );
+    }
+    return userPackage;
+  }
+
+  /**
+   * Credit the minutes of a cancelled package booking back, according to the court's cancellation policy
+   * Returns the minutes credited (0 when the policy refunds nothing or the package has expired)
+   */
+  async creditCancelledBooking(
+    booking: { id: string; court_id: string; date: Date; start_time: string; end_time: string },
+    userPackageId: string,
+    now: Date = new Date()
+  ): Promise<number> {
+    const date = booking.date.toISOString().split('T')[0]!;
+    const policy = await cancellationPolicyService.getPolicy(booking.court_id);
+    const refundPercent = getRefundPercent(policy, getHoursBeforeStart(date, booking.start_time, now));
+    const minutes = Math.floor((getMinutesBetween(booking.start_time, booking.end_time) * refundPercent) / 100);
+    if (minutes === 0) {
+      return 0;
+    }
+
+    const credited = await packageRepository.credit(userPackageId, {
+      bookingId: booking.id,
+      minutes,
+      note: `Cancelled booking ${date} ${booking.start_time}-${booking.end_time}, ${refundPercent}% credited`,
+    });
+    return credited ? minutes : 0;
+  }
+
+  /**
+   * Expire packages past their validity and cancel purchases never paid
+   * @param pendingCutoff - Purchases still pending since before this are cancelled
+   */
+  async expirePackages(pendingCutoff: Date): Promise<{ expired: number; cancelled: number }> {
+    const expired = await packageRepository.expireDue(new Date());
+    const cancelled = await packageRepository.cancelStalePending(pendingCutoff);
+    return { expired, cancelled };
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Get a package its owner, a member of its court or a platform admin may see
+   */
+  private async getAccessiblePackage(id: string, user: UserProfileDto): Promise<PackageRecord> {
+    const userPackage = await packageRepository.findById(id);
+    if (!userPackage) {
+      throw new NotFoundError('Package not found');
+    }
+    if (userPackage.userId !== user.id && user.role !== 'platform_admin') {
+      const courtRole = await courtService.getMemberRole(userPackage.courtId, user.id);
+      if (!courtRole) {
+        throw new ForbiddenError('You do not have access to this package');
+      }
+    }
+    return userPackage;
+  }
+
+  /**
+   * Get a plan and check it belongs to the court
+   */
+  private async getCourtPlan(courtId: string, planId: string): Promise<PlanRecord> {
+    const plan = await packageRepository.findPlanById(planId);
+    if (!plan || plan.courtId !== courtId) {
+      throw new NotFoundError('Package plan not found');
+    }
+    return plan;
+  }
+
+  /**
+   * Validate a plan's fields
+   */
+  private validatePlan(plan: CreatePackagePlanDto): void {
+    if (typeof plan.name !== 'string' || !plan.name.trim()) {
+      throw new BadRequestError('name is required');
+    }
+    if (!Number.isInteger(plan.minutes) || plan.minutes <= 0 || plan.minutes % MINUTES_STEP !== 0) {
+      throw new BadRequestError(`minutes must be a positive multiple of ${MINUTES_STEP}`);
+    }
+    if (!Number.isInteger(plan.validityDays) || plan.validityDays <= 0 || plan.validityDays > 366) {
+      throw new BadRequestError('validityDays must be an integer between 1 and 366');
+    }
+    if (!Number.isInteger(plan.price) || plan.price <= 0) {
+      throw new BadRequestError('price must be a positive integer');
+    }
+  }
+
+  /**
+   * Package fields copied from its plan
+   */
+  private fromPlan(plan: PlanRecord, userId: string, source: PackageSource) {
+    return {
+      userId,
+      courtId: plan.courtId,
+      planId: plan.id,
+      name: plan.name,
+      totalMinutes: plan.minutes,
+      validityDays: plan.validityDays,
+      price: plan.price,
+      source,
+    };
+  }
+
+  /**
+   * Expiry of a package activated now
+   */
+  private getExpiry(validityDays: number): Date {
+    return new Date(Date.now() + validityDays * DAY_MS);
+  }
+
+  /**
+   * Format plan response
+   */
+  private formatPlan(plan: PlanRecord): PackagePlanResponse {
+    return {
+      id: plan.id,
+      courtId: plan.courtId,
+      name: plan.name,
+      minutes: plan.minutes,
+      validityDays: plan.validityDays,
+      price: plan.price,
+      isActive: plan.isActive,
+      createdAt: plan.createdAt.toISOString(),
+      updatedAt: plan.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Format package response
+   */
+  private formatPackage(userPackage: PackageRecord): UserPackageResponse {
+    return {
+      id: userPackage.id,
+      userId: userPackage.userId,
+      courtId: userPackage.courtId,
+      courtName: userPackage.court.name,
+      planId: userPackage.planId,
+      name: userPackage.name,
+      totalMinutes: userPackage.totalMinutes,
+      remainingMinutes: userPackage.remainingMinutes,
+      validityDays: userPackage.validityDays,
+      price: userPackage.price,
+      status: userPackage.status as PackageStatus,
+      source: userPackage.source as PackageSource,
+      activatedAt: userPackage.activatedAt?.toISOString() ?? null,
+      expiresAt: userPackage.expiresAt?.toISOString() ?? null,
+      createdAt: userPackage.createdAt.toISOString(),
+    };
+  }
+}
+
+export const packageService = new PackageService();
@@ -1,11 +1,18 @@
 import { prisma } from '../config/database.js';
 import { config } from '../config/index.js';
-import { paymentRepository } from '../repositories/index.js';
+import { paymentRepository, splitPaymentRepository } from '../repositories/index.js';
 import { availabilityRepository } from '../repositories/index.js';
 import { zaloPayService } from './zalopay.service.js';
 import { redisService } from './redis.service.js';
 import { qrcodeService } from './qrcode.service.js';
 import { websocketService } from './websocket.service.js';
+import { waitlistService } from './waitlist.service.js';
+import { splitPaymentService } from './split-payment.service.js';
+import { packageService } from './package.service.js';
+import { bookingChangeService } from './booking-change.service.js';
+import { webhookService } from './webhook.service.js';
+import { notificationService } from './notification.service.js';
+import { pushService } from './push.service.js';
 import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
 import type {
   CreatePaymentDto,
@@ -16,8 +23,24 @@ import type {
   ZaloPayCallbackResponse,
   PaymentStatus,
   QRCodeData,
+  ZaloPayOrder,
 } from '../types/index.js';
 
+interface PaymentRecord {
+  id: string;
+  bookingId: string;
+  appTransId: string;
+  zpTransId: string | null;
+  amount: number;
+  status: string;
+  orderUrl: string | null;
+  splitPaymentId: string | null;
+  shareNumber: number | null;
+  bookingChangeId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 export class PaymentService {
   /**
    * Create a payment for a booking
@@ -49,6 +72,7 @@ export class PaymentService {
     // Determine bookings to pay (single or group)
     let bookingsToPay: {
       id: string;
+      courtId: string;
       subCourtId: string;
       date: Date;
       startTime: string;
@@ -60,6 +84,7 @@ export class PaymentService {
 
     bookingsToPay.push({
       id: booking.id,
+      courtId: booking.court_id,
       subCourtId: booking.sub_court_id,
       date: booking.date,
       startTime: booking.start_time,
@@ -74,6 +99,7 @@ export class PaymentService {
       if (groupBookings.length > 0) {
         bookingsToPay = groupBookings.map(b => ({
           id: b.id,
+          courtId: b.court_id,
           subCourtId: b.sub_court_id,
           date: new Date(b.date),
           startTime: b.start_time,
@@ -87,6 +113,12 @@ export class PaymentService {
 
     const totalAmount = bookingsToPay.reduce((sum, b) => sum + b.totalPrice, 0);
 
+    // A split booking is paid through its shares
+    const openSplits = await splitPaymentRepository.findOpenByBookingIds(bookingsToPay.map(b => b.id));
+    if (openSplits.length > 0) {
+      throw new ConflictError('Booking is being paid in shares');
+    }
+
     // Check if there's already a successful payment
     const hasSuccessful = await paymentRepository.hasSuccessfulPayment(data.bookingId);
     if (hasSuccessful) {
@@ -97,35 +129,12 @@ export class PaymentService {
     const existingPending = await paymentRepository.findLatestPendingByBookingId(data.bookingId);
     if (existingPending) {
       // Return existing pending payment info with QR code
-      const expireAt = new Date(
-        existingPending.createdAt.getTime() + config.payment.slotLockTtlSeconds * 1000
-      );
-
-      const orderUrl = existingPending.orderUrl || '';
-      let qrCode: QRCodeData;
-      try {
-        const base64 = await qrcodeService.generateBase64(orderUrl, { width: 300 });
-        const rawBase64 = await qrcodeService.generateRawBase64(orderUrl, { width: 300 });
-        qrCode = { base64, rawBase64 };
-      } catch {
-        qrCode = { base64: '', rawBase64: '' };
-      }
-
-      const wsProtocol = config.nodeEnv === 'production' ? 'wss' : 'ws';
-      const wsSubscribeUrl = `${wsProtocol}://localhost:${config.port}/ws/payments`;
-
-      return {
-        payment: this.formatPaymentResponse(existingPending),
-        orderUrl,
-        qrCode,
-        zpTransToken: (existingPending as { zpTransToken?: string }).zpTransToken ?? null,
-        expireAt: expireAt.toISOString(),
-        wsSubscribeUrl,
-      };
+      return this.formatOrder(existingPending);
     }
 
     // Acquire Redis locks for all slots
     const slotsToLock = bookingsToPay.map(b => ({
+      courtId: b.courtId,
       subCourtId: b.subCourtId,
       date: b.date.toISOString().split('T')[0]!,
       startTime: b.startTime,
@@ -138,13 +147,13 @@ export class PaymentService {
     if (!lockAcquired) {
       throw new ConflictError('One or more time slots are no longer available');
     }
+    websocketService.notifySlotUpdates('slot_locked', false, slotsToLock);
 
     // Generate app_trans_id for ZaloPay
     const appTransId = zaloPayService.generateAppTransId(data.bookingId);
 
     // Create payment record in database
     let payment;
-    let zpTransToken: string | null = null;
     try {
       payment = await prisma.$transaction(async (tx) => {
         // Create payment record
@@ -162,7 +171,7 @@ export class PaymentService {
           ? `Arc Badminton - ${bookingsToPay.length} bookings`
           : `Arc Badminton - ${booking.court_name} - ${booking.sub_court_name} - ${booking.date.toISOString().split('T')[0]}`;
 
-        const zaloPayResponse = await zaloPayService.createOrder({
+        const order = await this.createOrder({
           bookingId: data.bookingId,
           appTransId,
           amount: totalAmount,
@@ -171,22 +180,12 @@ export class PaymentService {
           description,
         });
 
-        // Check ZaloPay response
-        if (zaloPayResponse.return_code !== 1) {
-          throw new Error(
-            `ZaloPay order creation failed: ${zaloPayResponse.return_message} (${zaloPayResponse.sub_return_message})`
-          );
-        }
-
-        // Store zpTransToken for mobile SDK
-        zpTransToken = zaloPayResponse.zp_trans_token ?? null;
-
-        // Update payment with order URL and token
+        // Update payment with order URL and token (for mobile SDK)
         const updatedPayment = await tx.payment.update({
           where: { id: newPayment.id },
           data: {
-            orderUrl: zaloPayResponse.order_url,
-            zpTransToken: zpTransToken,
+            orderUrl: order.orderUrl,
+            zpTransToken: order.zpTransToken,
           },
         });
 
@@ -203,43 +202,7 @@ export class PaymentService {
       throw error;
     }
 
-    // Generate QR code from order URL
-    const orderUrl = payment.orderUrl || '';
-    let qrCode: QRCodeData;
-    try {
-      const base64 = await qrcodeService.generateBase64(orderUrl, { width: 300 });
-      const rawBase64 = await qrcodeService.generateRawBase64(orderUrl, { width: 300 });
-      qrCode = { base64, rawBase64 };
-    } catch {
-      // Fallback if QR generation fails
-      qrCode = { base64: '', rawBase64: '' };
-    }
-
-    // Calculate expiration time
-    const expireAt = new Date(Date.now() + config.payment.slotLockTtlSeconds * 1000);
-
-    // Build WebSocket subscribe URL
-    const wsProtocol = config.nodeEnv === 'production' ? 'wss' : 'ws';
-    const wsSubscribeUrl = `${wsProtocol}://localhost:${config.port}/ws/payments`;
-
-    return {
-      payment: {
-        id: payment.id,
-        bookingId: payment.bookingId,
-        appTransId: payment.appTransId,
-        zpTransId: payment.zpTransId,
-        amount: payment.amount,
-        status: payment.status as PaymentStatus,
-        orderUrl: payment.orderUrl,
-        createdAt: payment.createdAt.toISOString(),
-        updatedAt: payment.updatedAt.toISOString(),
-      },
-      orderUrl,
-      qrCode,
-      zpTransToken,
-      expireAt: expireAt.toISOString(),
-      wsSubscribeUrl,
-    };
+    return this.formatOrder(payment);
   }
 
   /**
@@ -259,6 +222,18 @@ export class PaymentService {
     // Find payment by app_trans_id
     const payment = await paymentRepository.findByAppTransId(callbackData.app_trans_id);
     if (!payment) {
+      // Prepaid package purchases are paid through the same callback
+      const settled = await packageService.settlePurchase(callbackData.app_trans_id, {
+        status: callbackRequest.type === 1 ? 'success' : 'failed',
+        zpTransId: String(callbackData.zp_trans_id),
+      });
+      if (settled) {
+        return {
+          return_code: 1,
+          return_message: callbackRequest.type === 1 ? 'Success' : 'Processed',
+        };
+      }
+
       console.error(`Payment not found for app_trans_id: ${callbackData.app_trans_id}`);
       return {
         return_code: 2,
@@ -266,11 +241,37 @@ export class PaymentService {
       };
     }
 
+    // Shares of a split payment only confirm the booking once they cover the total
+    if (payment.splitPaymentId) {
+      await splitPaymentService.settleShare(payment, {
+        status: callbackRequest.type === 1 ? 'success' : 'failed',
+        ...(callbackRequest.type === 1 && { zpTransId: String(callbackData.zp_trans_id) }),
+        callbackData,
+      });
+      return {
+        return_code: 1,
+        return_message: callbackRequest.type === 1 ? 'Success' : 'Processed',
+      };
+    }
+
+    // A booking change payment only moves the booking; the booking itself stays confirmed
+    if (payment.bookingChangeId) {
+      await bookingChangeService.settlePayment(payment, {
+        status: callbackRequest.type === 1 ? 'success' : 'failed',
+        ...(callbackRequest.type === 1 && { zpTransId: String(callbackData.zp_trans_id) }),
+        callbackData,
+      });
+      return {
+        return_code: 1,
+        return_message: callbackRequest.type === 1 ? 'Success' : 'Processed',
+      };
+    }
+
     // Update payment status based on callback type
     // type: 1 = payment success, 2 = payment refund
     if (callbackRequest.type === 1) {
       // Payment successful
-      await prisma.$transaction(async (tx) => {
+      const notification = await prisma.$transaction(async (tx) => {
         // Update payment status
         await tx.payment.update({
           where: { id: payment.id },
@@ -299,6 +300,16 @@ export class PaymentService {
              data: { status: 'confirmed', updatedAt: new Date() }
            });
         }
+
+        // Keep the notification so the booker gets it even if the app was closed
+        return notificationService.recordPaymentStatus(payment.booking.userId, {
+          type: 'payment_status',
+          paymentId: payment.id,
+          status: 'success',
+          bookingId: payment.bookingId,
+          zpTransId: String(callbackData.zp_trans_id),
+          message: 'Payment successful! Your booking has been confirmed.',
+        }, tx);
       });
 
       // Release Redis lock (payment completed)
@@ -342,16 +353,18 @@ export class PaymentService {
         }));
 
         await redisService.releaseSlotLocks(slotsToRelease);
+
+        // Tell the court's webhooks about every booking the payment confirmed
+        for (const slot of slotsToRelease) {
+          webhookService.emit('booking.confirmed', slot.bookingId);
+        }
       }
 
-      // Notify connected clients via WebSocket
-      websocketService.notifyPaymentStatus({
-        type: 'payment_status',
-        paymentId: payment.id,
-        status: 'success',
-        bookingId: payment.bookingId,
-        zpTransId: String(callbackData.zp_trans_id),
-        message: 'Payment successful! Your booking has been confirmed.',
+      // Notify connected clients via WebSocket, and the booker's devices
+      websocketService.notifyPaymentStatus(notification);
+      pushService.notifyBooking('booking_confirmed', payment.bookingId);
+      webhookService.emit('payment.succeeded', payment.bookingId, {
+        payment: { id: payment.id, amount: payment.amount, zpTransId: String(callbackData.zp_trans_id) },
       });
 
       return {
@@ -362,7 +375,7 @@ export class PaymentService {
 
     // Payment failed, refund, or unknown type (type 2 or others)
     // Update payment and booking status to failed
-    await prisma.$transaction(async (tx) => {
+    const notification = await prisma.$transaction(async (tx) => {
       await tx.payment.update({
         where: { id: payment.id },
         data: {
@@ -388,6 +401,14 @@ export class PaymentService {
            data: { status: 'failed', updatedAt: new Date() }
          });
       }
+
+      return notificationService.recordPaymentStatus(payment.booking.userId, {
+        type: 'payment_status',
+        paymentId: payment.id,
+        status: 'failed',
+        bookingId: payment.bookingId,
+        message: 'Payment failed. Please try again.',
+      }, tx);
     });
 
     // Release Redis lock
@@ -395,6 +416,7 @@ export class PaymentService {
     if (booking) {
       let bookingsToRelease: {
           id: string;
+          courtId: string;
           subCourtId: string;
           date: Date;
           startTime: string;
@@ -403,6 +425,7 @@ export class PaymentService {
 
       bookingsToRelease.push({
           id: booking.id,
+          courtId: booking.subCourt.courtId,
           subCourtId: booking.subCourtId,
           date: booking.date,
           startTime: typeof booking.startTime === 'string' ? booking.startTime : booking.startTime.toISOString().slice(11, 16),
@@ -414,6 +437,7 @@ export class PaymentService {
          if (groupBookings.length > 0) {
            bookingsToRelease = groupBookings.map(b => ({
              id: b.id,
+             courtId: b.court_id,
              subCourtId: b.sub_court_id,
              date: new Date(b.date),
              startTime: b.start_time,
@@ -423,6 +447,7 @@ export class PaymentService {
       }
 
       const slotsToRelease = bookingsToRelease.map(b => ({
+        courtId: b.courtId,
         subCourtId: b.subCourtId,
         date: b.date.toISOString().split('T')[0]!,
         startTime: b.startTime,
@@ -431,15 +456,15 @@ export class PaymentService {
       }));
 
       await redisService.releaseSlotLocks(slotsToRelease);
+
+      websocketService.notifySlotUpdates('booking_failed', true, slotsToRelease);
+
+      // Offer the freed slots to the waitlist
+      await waitlistService.releaseSlots(slotsToRelease);
     }
 
-    websocketService.notifyPaymentStatus({
-      type: 'payment_status',
-      paymentId: payment.id,
-      status: 'failed',
-      bookingId: payment.bookingId,
-      message: 'Payment failed. Please try again.',
-    });
+    websocketService.notifyPaymentStatus(notification);
+    pushService.notifyBooking('payment_failed', payment.bookingId);
 
     return {
       return_code: 1,
@@ -467,13 +492,33 @@ export class PaymentService {
     let newStatus: PaymentStatus = payment.status as PaymentStatus;
     let zpTransId: string | undefined;
 
+    if (payment.splitPaymentId) {
+      if (queryResult.return_code === 1) {
+        await splitPaymentService.settleShare(payment, { status: 'success', zpTransId: String(queryResult.zp_trans_id) });
+      } else if (queryResult.return_code === 2) {
+        await splitPaymentService.settleShare(payment, { status: 'failed' });
+      }
+      const updatedShare = await paymentRepository.findById(paymentId);
+      return this.formatPaymentResponse(updatedShare!);
+    }
+
+    if (payment.bookingChangeId) {
+      if (queryResult.return_code === 1) {
+        await bookingChangeService.settlePayment(payment, { status: 'success', zpTransId: String(queryResult.zp_trans_id) });
+      } else if (queryResult.return_code === 2) {
+        await bookingChangeService.settlePayment(payment, { status: 'failed' });
+      }
+      const updatedChangePayment = await paymentRepository.findById(paymentId);
+      return this.formatPaymentResponse(updatedChangePayment!);
+    }
+
     switch (queryResult.return_code) {
       case 1: // Success
         newStatus = 'success';
         zpTransId = String(queryResult.zp_trans_id);
 
         // Update booking status to confirmed
-        await prisma.$transaction(async (tx) => {
+        const confirmed = await prisma.$transaction(async (tx) => {
           await tx.payment.update({
             where: { id: payment.id },
             data: {
@@ -499,6 +544,15 @@ export class PaymentService {
                data: { status: 'confirmed', updatedAt: new Date() }
              });
           }
+
+          return notificationService.recordPaymentStatus(payment.booking.userId, {
+            type: 'payment_status',
+            paymentId: payment.id,
+            status: 'success',
+            bookingId: payment.bookingId,
+            zpTransId,
+            message: 'Payment successful! Your booking has been confirmed.',
+          }, tx);
         });
 
         // Release Redis lock
@@ -542,14 +596,24 @@ export class PaymentService {
           }));
 
           await redisService.releaseSlotLocks(slotsToRelease);
+
+          // Tell the court's webhooks about every booking the payment confirmed
+          for (const slot of slotsToRelease) {
+            webhookService.emit('booking.confirmed', slot.bookingId);
+          }
         }
+        websocketService.notifyPaymentStatus(confirmed);
+        pushService.notifyBooking('booking_confirmed', payment.bookingId);
+        webhookService.emit('payment.succeeded', payment.bookingId, {
+          payment: { id: payment.id, amount: payment.amount, zpTransId },
+        });
         break;
 
       case 2: // Failed
         newStatus = 'failed';
         
         // Update payment and booking status to failed
-        await prisma.$transaction(async (tx) => {
+        const failed = await prisma.$transaction(async (tx) => {
           await tx.payment.update({
             where: { id: payment.id },
             data: {
@@ -574,6 +638,14 @@ export class PaymentService {
                data: { status: 'failed', updatedAt: new Date() }
              });
           }
+
+          return notificationService.recordPaymentStatus(payment.booking.userId, {
+            type: 'payment_status',
+            paymentId: payment.id,
+            status: 'failed',
+            bookingId: payment.bookingId,
+            message: 'Payment failed. Please try again.',
+          }, tx);
         });
 
         // Release Redis lock
@@ -581,6 +653,7 @@ export class PaymentService {
           const booking = payment.booking as any;
           let bookingsToRelease: {
               id: string;
+              courtId: string;
               subCourtId: string;
               date: Date;
               startTime: string;
@@ -589,6 +662,7 @@ export class PaymentService {
 
           bookingsToRelease.push({
               id: booking.id,
+              courtId: booking.subCourt.courtId,
               subCourtId: booking.subCourtId,
               date: booking.date,
               startTime: typeof booking.startTime === 'string' ? booking.startTime : booking.startTime.toISOString().slice(11, 16),
@@ -600,6 +674,7 @@ export class PaymentService {
              if (groupBookings.length > 0) {
                bookingsToRelease = groupBookings.map(b => ({
                  id: b.id,
+                 courtId: b.court_id,
                  subCourtId: b.sub_court_id,
                  date: new Date(b.date),
                  startTime: b.start_time,
@@ -609,6 +684,7 @@ export class PaymentService {
           }
 
           const slotsToRelease = bookingsToRelease.map(b => ({
+            courtId: b.courtId,
             subCourtId: b.subCourtId,
             date: b.date.toISOString().split('T')[0]!,
             startTime: b.startTime,
@@ -617,7 +693,14 @@ export class PaymentService {
           }));
 
           await redisService.releaseSlotLocks(slotsToRelease);
+
+          websocketService.notifySlotUpdates('booking_failed', true, slotsToRelease);
+
+          // Offer the freed slots to the waitlist
+          await waitlistService.releaseSlots(slotsToRelease);
         }
+        websocketService.notifyPaymentStatus(failed);
+        pushService.notifyBooking('payment_failed', payment.bookingId);
         break;
 
       case 3: // Processing
@@ -680,8 +763,22 @@ export class PaymentService {
       throw new BadRequestError(`Cannot cancel payment with status: ${payment.status}`);
     }
 
+    // Cancelling a share leaves the booking and the other shares alone
+    if (payment.splitPaymentId) {
+      await splitPaymentService.cancelShare(payment);
+      const cancelledShare = await paymentRepository.findById(paymentId);
+      return this.formatPaymentResponse(cancelledShare!);
+    }
+
+    // Cancelling a booking change payment leaves the booking at its current slot
+    if (payment.bookingChangeId) {
+      await bookingChangeService.cancelPayment(payment);
+      const cancelledChangePayment = await paymentRepository.findById(paymentId);
+      return this.formatPaymentResponse(cancelledChangePayment!);
+    }
+
     // Update payment and booking status to cancelled
-    await prisma.$transaction(async (tx) => {
+    const notification = await prisma.$transaction(async (tx) => {
       await tx.payment.update({
         where: { id: payment.id },
         data: {
@@ -706,6 +803,14 @@ export class PaymentService {
            data: { status: 'cancelled', updatedAt: new Date() }
          });
       }
+
+      return notificationService.recordPaymentStatus(payment.booking.userId, {
+        type: 'payment_status',
+        paymentId: payment.id,
+        status: 'cancelled',
+        bookingId: payment.bookingId,
+        message: 'Payment cancelled',
+      }, tx);
     });
 
     // Release Redis locks
@@ -713,6 +818,7 @@ export class PaymentService {
     if (booking) {
       let bookingsToRelease: {
           id: string;
+          courtId: string;
           subCourtId: string;
           date: Date;
           startTime: string;
@@ -721,6 +827,7 @@ export class PaymentService {
 
       bookingsToRelease.push({
           id: booking.id,
+          courtId: booking.subCourt.courtId,
           subCourtId: booking.subCourtId,
           date: booking.date,
           startTime: typeof booking.startTime === 'string' ? booking.startTime : booking.startTime.toISOString().slice(11, 16),
@@ -732,6 +839,7 @@ export class PaymentService {
          if (groupBookings.length > 0) {
            bookingsToRelease = groupBookings.map(b => ({
              id: b.id,
+             courtId: b.court_id,
              subCourtId: b.sub_court_id,
              date: new Date(b.date),
              startTime: b.start_time,
@@ -741,6 +849,7 @@ export class PaymentService {
       }
 
       const slotsToRelease = bookingsToRelease.map(b => ({
+        courtId: b.courtId,
         subCourtId: b.subCourtId,
         date: b.date.toISOString().split('T')[0]!,
         startTime: b.startTime,
@@ -749,36 +858,85 @@ export class PaymentService {
       }));
 
       await redisService.releaseSlotLocks(slotsToRelease);
+
+      websocketService.notifySlotUpdates('booking_cancelled', true, slotsToRelease);
+
+      // Tell the court's webhooks about every cancelled booking of the group
+      for (const slot of slotsToRelease) {
+        webhookService.emit('booking.cancelled', slot.bookingId);
+      }
+
+      // Offer the freed slots to the waitlist
+      await waitlistService.releaseSlots(slotsToRelease);
     }
 
     // Notify via WebSocket
-    websocketService.notifyPaymentStatus({
-      type: 'payment_status',
-      paymentId: payment.id,
-      status: 'cancelled',
-      bookingId: payment.bookingId,
-      message: 'Payment cancelled',
-    });
+    websocketService.notifyPaymentStatus(notification);
 
     // Fetch and return updated payment
     const updatedPayment = await paymentRepository.findById(paymentId);
     return this.formatPaymentResponse(updatedPayment!);
   }
 
+  /**
+   * Create a ZaloPay order for a payment (or a package purchase)
+   * Throws when ZaloPay refuses it; callers clean up and turn it into a BadRequestError
+   */
+  async createOrder(params: Parameters<typeof zaloPayService.createOrder>[0]): Promise<ZaloPayOrder> {
+    const zaloPayResponse = await zaloPayService.createOrder(params);
+    if (zaloPayResponse.return_code !== 1) {
+      throw new Error(
+        `ZaloPay order creation failed: ${zaloPayResponse.return_message} (${zaloPayResponse.sub_return_message})`
+      );
+    }
+
+    return {
+      appTransId: params.appTransId,
+      amount: params.amount,
+      orderUrl: zaloPayResponse.order_url,
+      zpTransToken: zaloPayResponse.zp_trans_token ?? null,
+    };
+  }
+
+  /**
+   * Format a pending payment as it is returned when created: with its QR code, when its
+   * slot lock expires and where to follow it over WebSocket
+   * Also used for split payment shares and booking change payments
+   */
+  async formatOrder(payment: PaymentRecord & { zpTransToken: string | null }): Promise<CreatePaymentResponse> {
+    const orderUrl = payment.orderUrl || '';
+    const expireAt = new Date(payment.createdAt.getTime() + config.payment.slotLockTtlSeconds * 1000);
+    const wsProtocol = config.nodeEnv === 'production' ? 'wss' : 'ws';
+
+    return {
+      payment: this.formatPaymentResponse(payment),
+      orderUrl,
+      qrCode: await this.generateQrCode(orderUrl),
+      zpTransToken: payment.zpTransToken,
+      expireAt: expireAt.toISOString(),
+      wsSubscribeUrl: `${wsProtocol}://localhost:${config.port}/ws/payments`,
+    };
+  }
+
+  /**
+   * QR code of a ZaloPay order URL, empty when it cannot be generated
+   */
+  async generateQrCode(orderUrl: string): Promise<QRCodeData> {
+    try {
+      const base64 = await qrcodeService.generateBase64(orderUrl, { width: 300 });
+      const rawBase64 = await qrcodeService.generateRawBase64(orderUrl, { width: 300 });
+      return { base64, rawBase64 };
+    } catch {
+      return { base64: '', rawBase64: '' };
+    }
+  }
+
+  // ==================== Private Helper Methods ====================
+
   /**
    * Format payment response
    */
-  private formatPaymentResponse(payment: {
-    id: string;
-    bookingId: string;
-    appTransId: string;
-    zpTransId: string | null;
-    amount: number;
-    status: string;
-    orderUrl: string | null;
-    createdAt: Date;
-    updatedAt: Date;
-  }): PaymentResponse {
+  private formatPaymentResponse(payment: PaymentRecord): PaymentResponse {
     return {
       id: payment.id,
       bookingId: payment.bookingId,
@@ -787,6 +945,9 @@ export class PaymentService {
       amount: payment.amount,
       status: payment.status as PaymentStatus,
       orderUrl: payment.orderUrl,
+      splitPaymentId: payment.splitPaymentId,
+      shareNumber: payment.shareNumber,
+      bookingChangeId: payment.bookingChangeId,
       createdAt: payment.createdAt.toISOString(),
       updatedAt: payment.updatedAt.toISOString(),
     };
@@ -795,16 +956,7 @@ export class PaymentService {
   /**
    * Format payment with booking details
    */
-  private formatPaymentWithBooking(payment: {
-    id: string;
-    bookingId: string;
-    appTransId: string;
-    zpTransId: string | null;
-    amount: number;
-    status: string;
-    orderUrl: string | null;
-    createdAt: Date;
-    updatedAt: Date;
+  private formatPaymentWithBooking(payment: PaymentRecord & {
     booking: {
       id: string;
       subCourtId: string;
@@ -0,0 +1,383 @@
+import { availabilityRepository, courtRepository, pricingRuleRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
+import { isValidDateFormat, isValidTimeFormat, addDays, addMinutes, getDayOfWeek } from '../utils/date-time.js';
+import { DAY_TYPES } from '../types/index.js';
+import type {
+  RawPricingRule,
+  OpeningHours,
+  DayType,
+  CreatePricingRuleDto,
+  UpdatePricingRuleDto,
+  PricingRuleResponse,
+  PricingRuleMutationResponse,
+  PricingCoverageResponse,
+  PricingPreviewDto,
+  PricingPreviewDay,
+  PricingPreviewResponse,
+  PricingPreviewSlot,
+  PricingRuleOverlap,
+  UncoveredHours,
+} from '../types/index.js';
+
+// Order days are reported in
+const WEEK_ORDER = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'] as const;
+
+// Slots are priced in 30-minute steps, so rule boundaries must fall on them
+const SLOT_MINUTES = 30;
+
+export class PricingRuleService {
+  /**
+   * List all pricing rules of a court
+   */
+  async getRules(courtId: string): Promise<PricingRuleResponse[]> {
+    await this.getCourt(courtId);
+    const rules = await pricingRuleRepository.findByCourtId(courtId);
+    return rules.map((rule) => this.formatRule(rule));
+  }
+
+  /**
+   * Report opening hours that no active pricing rule covers
+   */
+  async getCoverage(courtId: string): Promise<PricingCoverageResponse> {
+    const court = await this.getCourt(courtId);
+    const rules = await pricingRuleRepository.findByCourtId(courtId);
+
+    return {
+      courtId,
+      uncoveredHours: this.findUncoveredHours(court.openingHours as OpeningHours, rules),
+    };
+  }
+
+  /**
+   * Create a pricing rule
+   * Active rules may not overlap other active rules of the same day type
+   */
+  async createRule(courtId: string, data: CreatePricingRuleDto): Promise<PricingRuleMutationResponse> {
+    const court = await this.getCourt(courtId);
+    this.validateRule(data);
+
+    const existing = await pricingRuleRepository.findByCourtId(courtId);
+    if (data.isActive !== false) {
+      this.ensureNoOverlap(data, existing);
+    }
+
+    const rule = await pricingRuleRepository.create(courtId, data);
+
+    return {
+      rule: this.formatRule(rule),
+      uncoveredHours: this.findUncoveredHours(court.openingHours as OpeningHours, [...existing, rule]),
+    };
+  }
+
+  /**
+   * Update a pricing rule (partial)
+   */
+  async updateRule(
+    courtId: string,
+    ruleId: string,
+    data: UpdatePricingRuleDto
+  ): Promise<PricingRuleMutationResponse> {
+    const court = await this.getCourt(courtId);
+    const current = await this.getCourtRule(courtId, ruleId);
+
+    const merged: Required<CreatePricingRuleDto> = {
+      name: data.name ?? current.name,
+      dayType: data.dayType ?? (current.day_type as DayType),
+      startTime: data.startTime ?? current.start_time,
+      endTime: data.endTime ?? current.end_time,
+      pricePerHour: data.pricePerHour ?? current.price_per_hour,
+      isActive: data.isActive ?? current.is_active,
+    };
+    this.validateRule(merged);
+
+    const others = (await pricingRuleRepository.findByCourtId(courtId)).filter((rule) => rule.id !== ruleId);
+    if (merged.isActive) {
+      this.ensureNoOverlap(merged, others);
+    }
+
+    const rule = await pricingRuleRepository.update(ruleId, merged);
+
+    return {
+      rule: this.formatRule(rule),
+      uncoveredHours: this.findUncoveredHours(court.openingHours as OpeningHours, [...others, rule]),
+    };
+  }
+
+  /**
+   * Delete a pricing rule
+   */
+  async deleteRule(courtId: string, ruleId: string): Promise<void> {
+    await this.getCourtRule(courtId, ruleId);
+    await pricingRuleRepository.delete(ruleId);
+  }
+
+  /**
+   * Render the price grid of a week for a proposed rule set without saving it
+   * Uses the court's saved rules when no rules are given
+   */
+  async previewWeek(courtId: string, data: PricingPreviewDto): Promise<PricingPreviewResponse> {
+    if (!isValidDateFormat(data.weekStart)) {
+      throw new BadRequestError('Invalid weekStart format. Use YYYY-MM-DD');
+    }
+
+    const court = await this.getCourt(courtId);
+    const openingHours = court.openingHours as OpeningHours;
+
+    let rules: RawPricingRule[];
+    if (data.rules) {
+      data.rules.forEach((rule) => this.validateRule(rule));
+      rules = data.rules.map((rule, index) => ({
+        id: `preview-${index + 1}`,
+        court_id: courtId,
+        name: rule.name,
+        day_type: rule.dayType,
+        start_time: rule.startTime,
+        end_time: rule.endTime,
+        price_per_hour: rule.pricePerHour,
+        is_active: rule.isActive ?? true,
+      }));
+    } else {
+      rules = await pricingRuleRepository.findByCourtId(courtId);
+    }
+    const activeRules = rules.filter((rule) => rule.is_active);
+
+    const days: PricingPreviewDay[] = [];
+    for (let offset = 0; offset < 7; offset++) {
+      const date = addDays(data.weekStart, offset);
+      const day = getDayOfWeek(date);
+
+      const { isHoliday, multiplier: holidayMultiplier } = await availabilityRepository.getHolidayInfo(date, courtId);
+      const dayType: DayType = isHoliday ? 'holiday' : this.getRegularDayType(day);
+
+      const hours = this.parseDayHours(openingHours[day]);
+      days.push({
+        date,
+        day,
+        dayType,
+        openingTime: hours?.openingTime ?? null,
+        closingTime: hours?.closingTime ?? null,
+        holidayMultiplier,
+        slots: hours
+          ? this.renderSlots(hours.openingTime, hours.closingTime, activeRules, dayType, holidayMultiplier)
+          : [],
+      });
+    }
+
+    return {
+      courtId,
+      weekStart: data.weekStart,
+      days,
+      overlaps: this.findOverlaps(activeRules),
+      uncoveredHours: this.findUncoveredHours(openingHours, activeRules),
+    };
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Get the court or throw 404
+   */
+  private async getCourt(courtId: string) {
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+    return court;
+  }
+
+  /**
+   * Get a pricing rule and ensure it belongs to the given court
+   */
+  private async getCourtRule(courtId: string, ruleId: string): Promise<RawPricingRule> {
+    const rule = await pricingRuleRepository.findById(ruleId);
+    if (!rule || rule.court_id !== courtId) {
+      throw new NotFoundError('Pricing rule not found');
+    }
+    return rule;
+  }
+
+  /**
+   * Validate a single rule's fields
+   */
+  private validateRule(rule: CreatePricingRuleDto): void {
+    if (typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+      throw new BadRequestError('name is required');
+    }
+    if (!DAY_TYPES.includes(rule.dayType)) {
+      throw new BadRequestError(`dayType must be one of: ${DAY_TYPES.join(', ')}`);
+    }
+    if (!this.isValidSlotTime(rule.startTime) || !this.isValidSlotTime(rule.endTime)) {
+      throw new BadRequestError(
+        `Invalid time range ${rule.startTime}-${rule.endTime}. Use HH:mm on a ${SLOT_MINUTES}-minute boundary`
+      );
+    }
+    if (rule.startTime >= rule.endTime) {
+      throw new BadRequestError(`Start time must be before end time for ${rule.startTime}-${rule.endTime}`);
+    }
+    if (!Number.isInteger(rule.pricePerHour) || rule.pricePerHour < 0) {
+      throw new BadRequestError('pricePerHour must be a non-negative integer');
+    }
+  }
+
+  /**
+   * Throw 409 if the rule overlaps an active rule of the same day type
+   */
+  private ensureNoOverlap(rule: CreatePricingRuleDto, others: RawPricingRule[]): void {
+    const conflicts = others.filter(
+      (other) =>
+        other.is_active &&
+        other.day_type === rule.dayType &&
+        this.isTimeOverlapping(rule.startTime, rule.endTime, other.start_time, other.end_time)
+    );
+
+    if (conflicts.length > 0) {
+      const names = conflicts.map((c) => `${c.name} (${c.start_time}-${c.end_time})`).join(', ');
+      throw new ConflictError(`Pricing rule ${rule.startTime}-${rule.endTime} overlaps ${rule.dayType} rule(s): ${names}`);
+    }
+  }
+
+  /**
+   * Find pairs of active rules that overlap on the same day type
+   */
+  private findOverlaps(rules: RawPricingRule[]): PricingRuleOverlap[] {
+    const overlaps: PricingRuleOverlap[] = [];
+    const active = rules.filter((rule) => rule.is_active);
+
+    for (let i = 0; i < active.length; i++) {
+      for (let j = i + 1; j < active.length; j++) {
+        const a = active[i]!;
+        const b = active[j]!;
+        if (a.day_type === b.day_type && this.isTimeOverlapping(a.start_time, a.end_time, b.start_time, b.end_time)) {
+          overlaps.push({ dayType: a.day_type as DayType, first: a.name, second: b.name });
+        }
+      }
+    }
+
+    return overlaps;
+  }
+
+  /**
+   * Find opening hours, per day and day type, that no active rule prices
+   * Holiday rules are checked against every open day since a holiday can fall on any of them
+   */
+  private findUncoveredHours(openingHours: OpeningHours, rules: RawPricingRule[]): UncoveredHours[] {
+    const uncovered: UncoveredHours[] = [];
+
+    for (const day of WEEK_ORDER) {
+      const hours = this.parseDayHours(openingHours[day]);
+      if (!hours) continue;
+
+      for (const dayType of [this.getRegularDayType(day), 'holiday'] as DayType[]) {
+        let gapStart: string | null = null;
+        let time = hours.openingTime;
+
+        while (time < hours.closingTime) {
+          const covered = this.findRuleForSlot(time, rules, dayType) !== undefined;
+          if (!covered && gapStart === null) {
+            gapStart = time;
+          } else if (covered && gapStart !== null) {
+            uncovered.push({ day, dayType, startTime: gapStart, endTime: time });
+            gapStart = null;
+          }
+          time = addMinutes(time, SLOT_MINUTES);
+        }
+
+        if (gapStart !== null) {
+          uncovered.push({ day, dayType, startTime: gapStart, endTime: hours.closingTime });
+        }
+      }
+    }
+
+    return uncovered;
+  }
+
+  /**
+   * Render priced 30-minute slots for one day, matching AvailabilityService pricing
+   */
+  private renderSlots(
+    openingTime: string,
+    closingTime: string,
+    rules: RawPricingRule[],
+    dayType: DayType,
+    holidayMultiplier: number
+  ): PricingPreviewSlot[] {
+    const slots: PricingPreviewSlot[] = [];
+    let time = openingTime;
+
+    while (time < closingTime) {
+      const next = addMinutes(time, SLOT_MINUTES);
+      const rule = this.findRuleForSlot(time, rules, dayType);
+
+      slots.push({
+        startTime: time,
+        endTime: next,
+        price: rule ? Math.round((rule.price_per_hour / 2) * holidayMultiplier) : null,
+        ruleName: rule?.name ?? null,
+      });
+
+      time = next;
+    }
+
+    return slots;
+  }
+
+  /**
+   * Find the active rule pricing a slot starting at the given time
+   */
+  private findRuleForSlot(time: string, rules: RawPricingRule[], dayType: DayType): RawPricingRule | undefined {
+    return rules.find(
+      (rule) => rule.day_type === dayType && rule.is_active && time >= rule.start_time && time < rule.end_time
+    );
+  }
+
+  /**
+   * Parse an opening hours entry ("06:00-22:00")
+   */
+  private parseDayHours(value: string | undefined): { openingTime: string; closingTime: string } | null {
+    if (!value) return null;
+    const [openingTime = '00:00', closingTime = '23:59'] = value.split('-');
+    return { openingTime, closingTime };
+  }
+
+  /**
+   * Weekend for Saturday/Sunday, weekday otherwise
+   */
+  private getRegularDayType(day: string): DayType {
+    return day === 'sat' || day === 'sun' ? 'weekend' : 'weekday';
+  }
+
+  /**
+   * Check if two time ranges overlap
+   */
+  private isTimeOverlapping(start1: string, end1: string, start2: string, end2: string): boolean {
+    return start1 < end2 && end1 > start2;
+  }
+
+  /**
+   * Validate time format (HH:mm) on a slot boundary
+   * 24:00 is allowed so a rule can run until a midnight closing
+   */
+  private isValidSlotTime(time: unknown): time is string {
+    if (time === '24:00') return true;
+    if (!isValidTimeFormat(time)) return false;
+    return Number(time.slice(3)) % SLOT_MINUTES === 0;
+  }
+
+  /**
+   * Format pricing rule response
+   */
+  private formatRule(rule: RawPricingRule): PricingRuleResponse {
+    return {
+      id: rule.id,
+      courtId: rule.court_id,
+      name: rule.name,
+      dayType: rule.day_type as DayType,
+      startTime: rule.start_time,
+      endTime: rule.end_time,
+      pricePerHour: rule.price_per_hour,
+      isActive: rule.is_active,
+    };
+  }
+}
+
+export const pricingRuleService = new PricingRuleService();
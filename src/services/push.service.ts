@@ -0,0 +1,329 @@
+import { config, getFirebaseMessaging } from '../config/index.js';
+import { availabilityRepository, pushRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { renderPushTemplate } from '../utils/push-templates.js';
+import { DEVICE_PLATFORMS, PUSH_LOCALES } from '../types/index.js';
+import type {
+  DevicePlatform,
+  DeviceResponse,
+  NotificationPreferencesResponse,
+  PushContent,
+  PushEvent,
+  PushLocale,
+  RegisterDeviceDto,
+  UpdateNotificationPreferencesDto,
+} from '../types/index.js';
+
+type DeviceRecord = Awaited<ReturnType<typeof pushRepository.findDevicesByUserId>>[number];
+
+// A notification addressed to one device
+export interface PushMessage {
+  token: string;
+  title: string;
+  body: string;
+  data: Record<string, string>;   // FCM data values must be strings
+}
+
+export interface PushSendResult {
+  success: boolean;
+  invalidToken: boolean;   // The token is unregistered or malformed, and the device should be forgotten
+}
+
+/**
+ * Sends push messages; FCM in production, a fake in tests
+ */
+export interface PushTransport {
+  send(messages: PushMessage[]): Promise<PushSendResult[]>;
+}
+
+const MAX_DEVICES_PER_USER = 10;
+const MAX_TOKEN_LENGTH = 512;
+
+// FCM accepts at most 500 messages per batch
+const FCM_BATCH_SIZE = 500;
+const INVALID_TOKEN_ERRORS = ['messaging/registration-token-not-registered', 'messaging/invalid-registration-token'];
+
+// Preference that turns each notification off
+const PREFERENCE_KEYS: Record<PushEvent, keyof NotificationPreferencesResponse> = {
+  booking_confirmed: 'bookingConfirmed',
+  payment_failed: 'paymentFailed',
+  game_reminder: 'gameReminder',
+  venue_cancellation: 'venueCancellation',
+  waitlist_offer: 'waitlistOffer',
+};
+
+/**
+ * Sends through Firebase Cloud Messaging with the Firebase service account
+ */
+class FcmPushTransport implements PushTransport {
+  async send(messages: PushMessage[]): Promise<PushSendResult[]> {
+    const messaging = getFirebaseMessaging();
+    const results: PushSendResult[] = [];
+
+    for (let i = 0; i < messages.length; i += FCM_BATCH_SIZE) {
+      const batch = messages.slice(i, i + FCM_BATCH_SIZE);
+      const response = await messaging.sendEach(
+        batch.map((message) => ({
+          token: message.token,
+          notification: { title: message.title, body: message.body },
+          data: message.data,
+          android: { priority: 'high' as const },
+          apns: { payload: { aps: { sound: 'default' } } },
+        }))
+      );
+      results.push(
+        ...response.responses.map((result) => ({
+          success: result.success,
+          invalidToken: !!result.error && INVALID_TOKEN_ERRORS.includes(result.error.code),
+        }))
+      );
+    }
+
+    return results;
+  }
+}
+
+export class PushService {
+  private transport: PushTransport = new FcmPushTransport();
+
+  /**
+   * Replace how messages are sent (tests use a fake transport)
+   */
+  setTransport(transport: PushTransport): void {
+    this.transport = transport;
+  }
+
+  // ==================== Devices ====================
+
+  /**
+   * List the devices of a user
+   */
+  async getDevices(userId: string): Promise<DeviceResponse[]> {
+    const devices = await pushRepository.findDevicesByUserId(userId);
+    return devices.map((device) => this.formatDevice(device));
+  }
+
+  /**
+   * Register a device for push notifications
+   * Registering a known token again updates it; a token registered by another account moves to this user
+   */
+  async registerDevice(userId: string, data: RegisterDeviceDto): Promise<DeviceResponse> {
+    if (typeof data.token !== 'string' || !data.token.trim() || data.token.length > MAX_TOKEN_LENGTH) {
+      throw new BadRequestError(`token must be a non-empty string of at most ${MAX_TOKEN_LENGTH} characters`);
+    }
+    if (!DEVICE_PLATFORMS.includes(data.platform)) {
+      throw new BadRequestError(`platform must be one of: ${DEVICE_PLATFORMS.join(', ')}`);
+    }
+    if (data.locale !== undefined && !PUSH_LOCALES.includes(data.locale)) {
+      throw new BadRequestError(`locale must be one of: ${PUSH_LOCALES.join(', ')}`);
+    }
+
+    const devices = await pushRepository.findDevicesByUserId(userId);
+    if (devices.length >= MAX_DEVICES_PER_USER && !devices.some((device) => device.token === data.token)) {
+      throw new BadRequestError(`A user can register at most ${MAX_DEVICES_PER_USER} devices`);
+    }
+
+    const device = await pushRepository.upsertDevice({
+      userId,
+      token: data.token,
+      platform: data.platform,
+      locale: data.locale ?? 'vi',
+    });
+    return this.formatDevice(device);
+  }
+
+  /**
+   * Stop sending push notifications to a device (on sign out)
+   */
+  async removeDevice(userId: string, deviceId: string): Promise<void> {
+    const device = await pushRepository.findDeviceById(deviceId);
+    if (!device || device.userId !== userId) {
+      throw new NotFoundError('Device not found');
+    }
+
+    await pushRepository.deleteDevice(deviceId);
+  }
+
+  // ==================== Preferences ====================
+
+  /**
+   * Get which notifications a user gets
+   */
+  async getPreferences(userId: string): Promise<NotificationPreferencesResponse> {
+    const preferences = await pushRepository.findPreferences(userId);
+    return this.formatPreferences(preferences);
+  }
+
+  /**
+   * Turn notifications on or off; notifications left out keep their setting
+   */
+  async updatePreferences(
+    userId: string,
+    data: UpdateNotificationPreferencesDto
+  ): Promise<NotificationPreferencesResponse> {
+    const keys = Object.values(PREFERENCE_KEYS);
+    const update: UpdateNotificationPreferencesDto = {};
+    for (const [key, value] of Object.entries(data)) {
+      if (!keys.includes(key as keyof NotificationPreferencesResponse)) {
+        throw new BadRequestError(`Unknown notification preference: ${key}. Use one of: ${keys.join(', ')}`);
+      }
+      if (typeof value !== 'boolean') {
+        throw new BadRequestError(`${key} must be a boolean`);
+      }
+      update[key as keyof NotificationPreferencesResponse] = value;
+    }
+
+    const preferences = await pushRepository.upsertPreferences(userId, update);
+    return this.formatPreferences(preferences);
+  }
+
+  // ==================== Sending ====================
+
+  /**
+   * Send a notification about a booking to the user who made it
+   * Fire-and-forget: failures are logged, never thrown. Guest bookings get nothing.
+   * @param options.exceptUserId - Skip it when this user made the booking (staff cancelling their own booking)
+   */
+  notifyBooking(event: PushEvent, bookingId: string, options: { exceptUserId?: string } = {}): void {
+    this.sendForBooking(event, bookingId, options.exceptUserId).catch((error) => {
+      console.error(`Error sending ${event} push for booking ${bookingId}:`, error);
+    });
+  }
+
+  /**
+   * Send a notification to a user
+   * Fire-and-forget: failures are logged, never thrown
+   */
+  notify(userId: string, event: PushEvent, content: PushContent): void {
+    this.send(userId, event, content).catch((error) => {
+      console.error(`Error sending ${event} push to user ${userId}:`, error);
+    });
+  }
+
+  /**
+   * Send a notification to every device of a user, in each device's language
+   * Skipped when the user turned the notification off. Devices FCM no longer knows are forgotten.
+   * Returns the number of devices it reached
+   */
+  async send(userId: string, event: PushEvent, content: PushContent): Promise<number> {
+    const preferences = await this.getPreferences(userId);
+    if (!preferences[PREFERENCE_KEYS[event]]) {
+      return 0;
+    }
+
+    const devices = await pushRepository.findDevicesByUserId(userId);
+    if (devices.length === 0) {
+      return 0;
+    }
+
+    const data: Record<string, string> = {
+      type: event,
+      date: content.date,
+      startTime: content.startTime,
+      endTime: content.endTime,
+      ...(content.bookingId && { bookingId: content.bookingId }),
+      ...(content.waitlistEntryId && { waitlistEntryId: content.waitlistEntryId }),
+    };
+    const results = await this.transport.send(
+      devices.map((device) => ({
+        token: device.token,
+        ...renderPushTemplate(event, device.locale as PushLocale, content),
+        data,
+      }))
+    );
+
+    const invalidTokens = devices.filter((_, i) => results[i]?.invalidToken).map((device) => device.token);
+    if (invalidTokens.length > 0) {
+      await pushRepository.deleteDevicesByToken(invalidTokens);
+    }
+
+    return results.filter((result) => result.success).length;
+  }
+
+  /**
+   * Remind players of their games starting within the lead time
+   * A group booking is reminded once, with its first court time
+   * A reminder that fails is released, so the next run tries it again
+   * Returns the number of reminders sent
+   */
+  async sendGameReminders(): Promise<number> {
+    const bookings = await pushRepository.claimDueReminders(config.push.reminderMinutesBefore);
+
+    const startsAt = (booking: (typeof bookings)[number]) => `${this.formatDate(booking.date)} ${booking.start_time}`;
+    const groups = new Map<string, typeof bookings>();
+    for (const booking of bookings.sort((a, b) => startsAt(a).localeCompare(startsAt(b)))) {
+      const key = booking.group_id ?? booking.id;
+      groups.set(key, [...(groups.get(key) ?? []), booking]);
+    }
+
+    let sent = 0;
+    for (const group of groups.values()) {
+      const first = group[0]!;
+      try {
+        await this.send(first.user_id, 'game_reminder', {
+          courtName: first.court_name,
+          date: this.formatDate(first.date),
+          startTime: first.start_time,
+          endTime: first.end_time,
+          bookingId: first.id,
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Error sending game reminder for booking ${first.id}:`, error);
+        await pushRepository.releaseReminders(group.map((booking) => booking.id)).catch((releaseError) => {
+          console.error(`Error releasing game reminder for booking ${first.id}:`, releaseError);
+        });
+      }
+    }
+    return sent;
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  private async sendForBooking(event: PushEvent, bookingId: string, exceptUserId?: string): Promise<void> {
+    const [booking, ownership] = await Promise.all([
+      availabilityRepository.getBookingById(bookingId),
+      availabilityRepository.getBookingOwnership(bookingId),
+    ]);
+    if (!booking || !ownership?.user_id || ownership.user_id === exceptUserId) {
+      return;
+    }
+
+    await this.send(ownership.user_id, event, {
+      courtName: booking.court_name,
+      date: this.formatDate(booking.date),
+      startTime: booking.start_time,
+      endTime: booking.end_time,
+      bookingId: booking.id,
+    });
+  }
+
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0]!;
+  }
+
+  private formatDevice(device: DeviceRecord): DeviceResponse {
+    return {
+      id: device.id,
+      token: device.token,
+      platform: device.platform as DevicePlatform,
+      locale: device.locale as PushLocale,
+      createdAt: device.createdAt.toISOString(),
+      updatedAt: device.updatedAt.toISOString(),
+    };
+  }
+
+  private formatPreferences(
+    preferences: Awaited<ReturnType<typeof pushRepository.findPreferences>>
+  ): NotificationPreferencesResponse {
+    return {
+      bookingConfirmed: preferences?.bookingConfirmed ?? true,
+      paymentFailed: preferences?.paymentFailed ?? true,
+      gameReminder: preferences?.gameReminder ?? true,
+      venueCancellation: preferences?.venueCancellation ?? true,
+      waitlistOffer: preferences?.waitlistOffer ?? true,
+    };
+  }
+}
+
+export const pushService = new PushService();
@@ -8,6 +8,7 @@ import type { AutocompleteSuggestion } from '../types/search.types.js';
  * - search:autocomplete - Main autocomplete sorted set (persistent)
  * - search:cache:* - Search result cache (TTL: 300s) - evict first
  * - search:popular - Popular searches tracking (TTL: 86400s)
+ * - ws:notifications - Pub/sub channel fanning WebSocket notifications out to every instance
  */
 const REDIS_KEYS = {
   BOOKING_LOCK_PREFIX: 'booking:lock',
@@ -22,33 +23,15 @@ const SEARCH_POPULAR_TTL_SECONDS = 86400; // 24 hours
 
 class RedisService {
   private client: Redis | null = null;
+  private subscriber: Redis | null = null; // Connection in subscriber mode, used for nothing else
+  private messageHandlers: Map<string, (message: string) => void> = new Map(); // channel -> handler
 
   /**
    * Get Redis client instance (lazy initialization)
    */
   getClient(): Redis {
     if (!this.client) {
-      this.client = new Redis({
-        host: config.redis.host,
-        port: config.redis.port,
-        password: config.redis.password,
-        tls: config.redis.tlsEnabled ? {} : undefined,
-        retryStrategy: (times: number) => {
-          if (times > 3) {
-            console.error('Redis connection failed after 3 retries');
-            return null;
-          }
-          return Math.min(times * 200, 2000);
-        },
-      });
-
-      this.client.on('error', (err: Error) => {
-        console.error('Redis Client Error:', err);
-      });
-
-      this.client.on('connect', () => {
-        console.log('Redis connected successfully');
-      });
+      this.client = this.createConnection('Redis');
     }
     return this.client;
   }
@@ -473,10 +456,66 @@ class RedisService {
     ));
   }
 
+  // ============================================
+  // PUB/SUB
+  // ============================================
+
+  /**
+   * Publish a message to every instance subscribed to the channel
+   */
+  async publish(channel: string, message: string): Promise<void> {
+    await this.getClient().publish(channel, message);
+  }
+
+  /**
+   * Subscribe to a channel; messages published by any instance (this one included) reach the handler
+   * Subscriptions share one dedicated connection, since a subscribed connection cannot run other commands
+   */
+  async subscribe(channel: string, onMessage: (message: string) => void): Promise<void> {
+    if (!this.subscriber) {
+      this.subscriber = this.createConnection('Redis subscriber');
+      this.subscriber.on('message', (messageChannel: string, message: string) => {
+        this.messageHandlers.get(messageChannel)?.(message);
+      });
+    }
+
+    this.messageHandlers.set(channel, onMessage);
+    await this.subscriber.subscribe(channel);
+  }
+
   // ============================================
   // UTILITY METHODS
   // ============================================
 
+  /**
+   * Open a connection with the configured host, credentials and retry strategy
+   */
+  private createConnection(name: string): Redis {
+    const connection = new Redis({
+      host: config.redis.host,
+      port: config.redis.port,
+      password: config.redis.password,
+      tls: config.redis.tlsEnabled ? {} : undefined,
+      retryStrategy: (times: number) => {
+        if (times > 3) {
+          console.error(`${name} connection failed after 3 retries`);
+          return null;
+        }
+        return Math.min(times * 200, 2000);
+      },
+    });
+
+    connection.on('error', (err: Error) => {
+      console.error(`${name} Client Error:`, err);
+    });
+
+    connection.on('connect', () => {
+      console.log(`${name} connected successfully`);
+    });
+
+    return connection;
+  }
+
   /**
    * Normalize search term for consistent matching
    * Lowercase and trim whitespace
@@ -486,9 +525,14 @@ class RedisService {
   }
 
   /**
-   * Close Redis connection
+   * Close Redis connections
    */
   async close(): Promise<void> {
+    if (this.subscriber) {
+      await this.subscriber.quit();
+      this.subscriber = null;
+      this.messageHandlers.clear();
+    }
     if (this.client) {
       await this.client.quit();
       this.client = null;
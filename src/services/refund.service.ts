@@ -0,0 +1,378 @@
+import { randomUUID } from 'crypto';
+import { prisma } from '../config/database.js';
+import { availabilityRepository, paymentRepository, refundRepository } from '../repositories/index.js';
+import { zaloPayService } from './zalopay.service.js';
+import { websocketService } from './websocket.service.js';
+import { cancellationPolicyService } from './cancellation-policy.service.js';
+import { webhookService } from './webhook.service.js';
+import { NotFoundError } from '../utils/errors.js';
+import { getHoursBeforeStart, getRefundPercent, calculateRefundAmount } from '../utils/cancellation-policy.js';
+import type { RefundResponse, RefundStatus } from '../types/index.js';
+
+// ZaloPay return_code -> refund status
+const REFUND_STATUS_BY_RETURN_CODE: Record<number, RefundStatus> = {
+  1: 'success',
+  2: 'failed',
+  3: 'processing',
+};
+
+const REFUND_MESSAGES: Record<RefundStatus, string> = {
+  pending: 'Refund is waiting to be sent to ZaloPay',
+  processing: 'Refund is being processed by ZaloPay',
+  success: 'Refund completed',
+  failed: 'Refund failed',
+};
+
+type RefundRecord = NonNullable<Awaited<ReturnType<typeof refundRepository.findById>>>;
+type PaymentRecord = RefundRecord['payment'];
+
+export class RefundService {
+  /**
+   * Refund a cancelled booking according to its court's cancellation policy
+   * A booking paid in shares is refunded share by share, in proportion to what each share paid;
+   * what was paid to move the booking is refunded along with it
+   * Returns no refunds when the booking was not paid or the policy refunds nothing
+   * ZaloPay errors leave the refund pending so the scheduler can retry it
+   */
+  async refundCancelledBooking(
+    booking: {
+      id: string;
+      court_id: string;
+      group_id: string | null;
+      date: Date;
+      start_time: string;
+      end_time: string;
+      total_price: number;
+    },
+    now: Date = new Date()
+  ): Promise<RefundResponse[]> {
+    const payments = await this.getBookingPayments(booking);
+    if (payments.length === 0) {
+      return [];
+    }
+
+    const date = booking.date.toISOString().split('T')[0]!;
+    const policy = await cancellationPolicyService.getPolicy(booking.court_id);
+    const refundPercent = getRefundPercent(policy, getHoursBeforeStart(date, booking.start_time, now));
+
+    return this.refundAcrossPayments(payments, {
+      bookingId: booking.id,
+      amount: calculateRefundAmount(booking.total_price, refundPercent),
+      refundPercent,
+      reason: `Cancelled booking ${date} ${booking.start_time}-${booking.end_time}, ${refundPercent}% refund`,
+    });
+  }
+
+  /**
+   * Refund part of what was paid for a booking, e.g. the price difference of a move to a cheaper slot
+   * The amount is spread over the booking's payments like a cancellation refund
+   * @param paidPrice - Booking price the amount is a part of (for the refund percent)
+   */
+  async refundBookingAmount(
+    booking: { id: string; group_id: string | null },
+    amount: number,
+    paidPrice: number,
+    reason: string
+  ): Promise<RefundResponse[]> {
+    const payments = await this.getBookingPayments(booking);
+    if (payments.length === 0 || amount <= 0) {
+      return [];
+    }
+
+    return this.refundAcrossPayments(payments, {
+      bookingId: booking.id,
+      amount,
+      refundPercent: paidPrice > 0 ? Math.min(Math.round((amount * 100) / paidPrice), 100) : 100,
+      reason,
+    });
+  }
+
+  /**
+   * Refund what is left of a payment in full
+   * Used for shares of a split payment that never confirmed its booking
+   */
+  async refundPayment(payment: PaymentRecord, reason: string): Promise<RefundResponse | null> {
+    return this.createRefund(payment, {
+      bookingId: payment.bookingId,
+      amount: payment.amount,
+      refundPercent: 100,
+      reason,
+    });
+  }
+
+  /**
+   * Get a refund, syncing its status with ZaloPay while it is processing
+   */
+  async getRefund(refundId: string): Promise<RefundResponse> {
+    const refund = await refundRepository.findById(refundId);
+    if (!refund) {
+      throw new NotFoundError('Refund not found');
+    }
+
+    if (refund.status === 'processing') {
+      return this.syncRefund(refund);
+    }
+    return this.formatRefund(refund);
+  }
+
+  /**
+   * Get the booking a refund belongs to (for access checks)
+   */
+  async getRefundBookingId(refundId: string): Promise<string> {
+    const refund = await refundRepository.findById(refundId);
+    if (!refund) {
+      throw new NotFoundError('Refund not found');
+    }
+    return refund.bookingId;
+  }
+
+  /**
+   * Get refunds for a booking
+   */
+  async getRefundsByBookingId(bookingId: string): Promise<RefundResponse[]> {
+    const refunds = await refundRepository.findByBookingId(bookingId);
+    return refunds.map((refund) => this.formatRefund(refund));
+  }
+
+  /**
+   * Settle unsettled refunds: resend pending ones and query processing ones
+   * Returns the number of refunds that reached a final status
+   */
+  async syncUnsettledRefunds(): Promise<number> {
+    const refunds = await refundRepository.findUnsettled();
+    let settled = 0;
+
+    for (const refund of refunds) {
+      try {
+        const result =
+          refund.status === 'pending'
+            ? await this.submitRefund(refund)
+            : await this.syncRefund(refund);
+        if (result.status === 'success' || result.status === 'failed') {
+          settled++;
+        }
+      } catch (error) {
+        console.error(`Error syncing refund ${refund.id}:`, error);
+      }
+    }
+
+    return settled;
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Successful payments of a booking: its payment (or the shares of its split payment)
+   * and the price differences paid to move it
+   */
+  private async getBookingPayments(booking: { id: string; group_id: string | null }): Promise<PaymentRecord[]> {
+    // A group is paid once, against one of its bookings
+    let bookingIds = [booking.id];
+    if (booking.group_id) {
+      const groupBookings = await availabilityRepository.getBookingsByGroupId(booking.group_id);
+      if (groupBookings.length > 0) {
+        bookingIds = groupBookings.map((b) => b.id);
+      }
+    }
+
+    const payment = await paymentRepository.findSuccessfulByBookingIds(bookingIds);
+    if (!payment) {
+      return [];
+    }
+    const payments = payment.splitPaymentId
+      ? await paymentRepository.findSuccessfulBySplitPaymentId(payment.splitPaymentId)
+      : [payment];
+
+    return [...payments, ...(await paymentRepository.findSuccessfulChangePayments([booking.id]))];
+  }
+
+  /**
+   * Refund an amount split across payments in proportion to what each one paid
+   */
+  private async refundAcrossPayments(
+    payments: PaymentRecord[],
+    data: { bookingId: string; amount: number; refundPercent: number; reason: string }
+  ): Promise<RefundResponse[]> {
+    const amounts = this.allocateRefund(data.amount, payments.map((p) => p.amount));
+
+    const refunds: RefundResponse[] = [];
+    for (const [index, paid] of payments.entries()) {
+      const refund = await this.createRefund(paid, { ...data, amount: amounts[index] ?? 0 });
+      if (refund) {
+        refunds.push(refund);
+      }
+    }
+
+    return refunds;
+  }
+
+  /**
+   * Create a refund against a payment and send it to ZaloPay
+   * The amount is capped at what is left of the payment; returns null when nothing is left
+   */
+  private async createRefund(
+    payment: PaymentRecord,
+    data: { bookingId: string; amount: number; refundPercent: number; reason: string }
+  ): Promise<RefundResponse | null> {
+    if (!payment.zpTransId) {
+      console.error(`Payment ${payment.id} has no ZaloPay transaction ID, cannot refund booking ${data.bookingId}`);
+      return null;
+    }
+
+    // Never refund more than what is left of the payment; the payment stays locked until the refund is saved
+    const refund = await prisma.$transaction(async (tx) => {
+      await paymentRepository.lockForRefund(payment.id, tx);
+      const alreadyRefunded = await refundRepository.sumActiveAmountByPaymentId(payment.id, tx);
+      const amount = Math.min(data.amount, payment.amount - alreadyRefunded);
+      if (amount <= 0) {
+        return null;
+      }
+
+      const id = randomUUID();
+      return refundRepository.create(
+        {
+          id,
+          paymentId: payment.id,
+          bookingId: data.bookingId,
+          mRefundId: zaloPayService.generateMRefundId(id),
+          amount,
+          refundPercent: data.refundPercent,
+          reason: data.reason,
+        },
+        tx
+      );
+    });
+    if (!refund) {
+      return null;
+    }
+
+    return this.submitRefund({ ...refund, payment });
+  }
+
+  /**
+   * Split a refund across payments in proportion to their amounts
+   * Rounding leftovers go to the last payment
+   */
+  private allocateRefund(total: number, paidAmounts: number[]): number[] {
+    const paidTotal = paidAmounts.reduce((sum, amount) => sum + amount, 0);
+    if (paidTotal === 0) {
+      return paidAmounts.map(() => 0);
+    }
+
+    let allocated = 0;
+    return paidAmounts.map((amount, index) => {
+      const share = index === paidAmounts.length - 1
+        ? total - allocated
+        : Math.floor((total * amount) / paidTotal);
+      allocated += share;
+      return share;
+    });
+  }
+
+  /**
+   * Send a refund to ZaloPay and record the result
+   * Resending the same m_refund_id is idempotent on ZaloPay's side
+   */
+  private async submitRefund(refund: RefundRecord): Promise<RefundResponse> {
+    try {
+      const result = await zaloPayService.refund({
+        mRefundId: refund.mRefundId,
+        zpTransId: refund.payment.zpTransId!,
+        amount: refund.amount,
+        description: `Arc Badminton - ${refund.reason ?? 'Refund'}`,
+      });
+
+      const status = REFUND_STATUS_BY_RETURN_CODE[result.return_code] ?? 'failed';
+      return this.updateRefund(refund, {
+        status,
+        ...(result.refund_id !== undefined && { zpRefundId: String(result.refund_id) }),
+        returnMessage: result.sub_return_message || result.return_message,
+      });
+    } catch (error) {
+      console.error(`ZaloPay refund request failed for refund ${refund.id}:`, error);
+      return this.updateRefund(refund, {
+        status: 'pending',
+        returnMessage: error instanceof Error ? error.message : 'ZaloPay refund request failed',
+      });
+    }
+  }
+
+  /**
+   * Query ZaloPay for a processing refund and record the result
+   */
+  private async syncRefund(refund: RefundRecord): Promise<RefundResponse> {
+    const result = await zaloPayService.queryRefund(refund.mRefundId);
+    const status = REFUND_STATUS_BY_RETURN_CODE[result.return_code] ?? 'processing';
+    if (status === refund.status) {
+      return this.formatRefund(refund);
+    }
+
+    return this.updateRefund(refund, {
+      status,
+      returnMessage: result.sub_return_message || result.return_message,
+    });
+  }
+
+  /**
+   * Save a refund status change and push it to the payment's subscribers
+   * Completed refunds are also sent to the court's webhooks
+   */
+  private async updateRefund(
+    refund: RefundRecord,
+    data: { status: RefundStatus; zpRefundId?: string; returnMessage?: string }
+  ): Promise<RefundResponse> {
+    const updated = await refundRepository.updateStatus(refund.id, data);
+
+    websocketService.notifyRefundStatus({
+      type: 'refund_status',
+      paymentId: updated.paymentId,
+      refundId: updated.id,
+      bookingId: updated.bookingId,
+      status: data.status,
+      amount: updated.amount,
+      message: REFUND_MESSAGES[data.status],
+    });
+    if (data.status === 'success') {
+      webhookService.emit('refund.completed', updated.bookingId, {
+        refund: { id: updated.id, paymentId: updated.paymentId, amount: updated.amount },
+      });
+    }
+
+    return this.formatRefund(updated);
+  }
+
+  /**
+   * Format refund response
+   */
+  private formatRefund(refund: {
+    id: string;
+    paymentId: string;
+    bookingId: string;
+    mRefundId: string;
+    zpRefundId: string | null;
+    amount: number;
+    refundPercent: number;
+    status: string;
+    reason: string | null;
+    returnMessage: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): RefundResponse {
+    return {
+      id: refund.id,
+      paymentId: refund.paymentId,
+      bookingId: refund.bookingId,
+      mRefundId: refund.mRefundId,
+      zpRefundId: refund.zpRefundId,
+      amount: refund.amount,
+      refundPercent: refund.refundPercent,
+      status: refund.status as RefundStatus,
+      reason: refund.reason,
+      returnMessage: refund.returnMessage,
+      createdAt: refund.createdAt.toISOString(),
+      updatedAt: refund.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const refundService = new RefundService();
@@ -0,0 +1,348 @@
+import { reviewRepository, courtRepository, searchRepository } from '../repositories/index.js';
+import { courtService } from './court.service.js';
+import { searchService } from './search.service.js';
+import { NotFoundError, BadRequestError, ConflictError, ForbiddenError } from '../utils/errors.js';
+import { REVIEW_DIMENSIONS, REVIEW_SORTS } from '../types/index.js';
+import type {
+  CreateReviewDto,
+  UpdateReviewDto,
+  ReviewQueryParams,
+  ReviewResponse,
+  ReviewRatings,
+  ReviewSort,
+  UserProfileDto,
+} from '../types/index.js';
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_REASON_LENGTH = 255;
+
+type ReviewRecord = NonNullable<Awaited<ReturnType<typeof reviewRepository.findById>>>;
+
+export class ReviewService {
+  /**
+   * Review a completed booking
+   * Only the player who made the booking may review it, once
+   */
+  async createReview(data: CreateReviewDto): Promise<ReviewResponse> {
+    if (!data.userId) {
+      throw new BadRequestError('User context is required to write a review');
+    }
+    const ratings = this.validateRatings(data.ratings, true) as ReviewRatings;
+    const comment = this.validateComment(data.comment);
+
+    const booking = await reviewRepository.findBooking(data.bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+    if (booking.userId !== data.userId) {
+      throw new ForbiddenError('You can only review your own bookings');
+    }
+    if (booking.status !== 'completed') {
+      throw new BadRequestError('Only completed bookings can be reviewed');
+    }
+    if (await reviewRepository.findByBookingId(booking.id)) {
+      throw new ConflictError('This booking has already been reviewed');
+    }
+
+    const review = await reviewRepository.create({
+      bookingId: booking.id,
+      courtId: booking.subCourt.courtId,
+      userId: data.userId,
+      ...this.toRatingColumns(ratings),
+      comment: comment ?? null,
+    });
+
+    await this.refreshCourtRating(review.courtId);
+    return this.formatReview(review);
+  }
+
+  /**
+   * Get a court's visible reviews
+   */
+  async getCourtReviews(
+    courtId: string,
+    params: ReviewQueryParams
+  ): Promise<{ reviews: ReviewResponse[]; total: number; page: number; limit: number }> {
+    const court = await courtRepository.findById(courtId);
+    if (!court) {
+      throw new NotFoundError('Court not found');
+    }
+
+    const sort: ReviewSort = params.sort ?? 'newest';
+    if (!REVIEW_SORTS.includes(sort)) {
+      throw new BadRequestError(`sort must be one of: ${REVIEW_SORTS.join(', ')}`);
+    }
+    const { page, limit } = this.getPagination(params);
+
+    const { reviews, total } = await reviewRepository.findByCourtId(courtId, { page, limit, sort });
+    return { reviews: reviews.map((review) => this.formatReview(review)), total, page, limit };
+  }
+
+  /**
+   * Edit ratings or comment of the caller's review
+   */
+  async updateReview(id: string, data: UpdateReviewDto, user: UserProfileDto): Promise<ReviewResponse> {
+    const review = await this.getReviewOrThrow(id);
+    if (review.userId !== user.id) {
+      throw new ForbiddenError('You can only edit your own reviews');
+    }
+
+    const current: ReviewRatings = {
+      floor: review.floorRating,
+      lighting: review.lightingRating,
+      cleanliness: review.cleanlinessRating,
+      value: review.valueRating,
+    };
+    const ratings: ReviewRatings = { ...current, ...this.validateRatings(data.ratings ?? {}, false) };
+    const comment = data.comment === null ? null : this.validateComment(data.comment);
+
+    const updated = await reviewRepository.update(id, {
+      ...this.toRatingColumns(ratings),
+      ...(comment !== undefined && { comment }),
+    });
+
+    await this.refreshCourtRating(updated.courtId);
+    return this.formatReview(updated);
+  }
+
+  /**
+   * Delete a review (its author or a platform admin)
+   */
+  async deleteReview(id: string, user: UserProfileDto): Promise<void> {
+    const review = await this.getReviewOrThrow(id);
+    if (review.userId !== user.id && user.role !== 'platform_admin') {
+      throw new ForbiddenError('You can only delete your own reviews');
+    }
+
+    await reviewRepository.delete(id);
+    await this.refreshCourtRating(review.courtId);
+  }
+
+  /**
+   * Reply to a review of a court as its owner/staff (replaces any earlier reply)
+   */
+  async replyToReview(id: string, reply: unknown, user: UserProfileDto): Promise<ReviewResponse> {
+    const review = await this.getReviewOrThrow(id);
+    await this.ensureCourtMember(review.courtId, user);
+
+    if (typeof reply !== 'string' || reply.trim().length === 0) {
+      throw new BadRequestError('reply is required');
+    }
+    if (reply.length > MAX_COMMENT_LENGTH) {
+      throw new BadRequestError(`reply must be at most ${MAX_COMMENT_LENGTH} characters`);
+    }
+
+    const updated = await reviewRepository.update(id, {
+      reply: reply.trim(),
+      replyUserId: user.id,
+      replyUpdatedAt: new Date(),
+    });
+    return this.formatReview(updated);
+  }
+
+  /**
+   * Remove the owner reply of a review
+   */
+  async deleteReply(id: string, user: UserProfileDto): Promise<ReviewResponse> {
+    const review = await this.getReviewOrThrow(id);
+    await this.ensureCourtMember(review.courtId, user);
+
+    const updated = await reviewRepository.update(id, {
+      reply: null,
+      replyUserId: null,
+      replyUpdatedAt: null,
+    });
+    return this.formatReview(updated);
+  }
+
+  /**
+   * Flag a review for moderation
+   */
+  async flagReview(id: string, reason: unknown): Promise<ReviewResponse> {
+    const review = await this.getReviewOrThrow(id);
+
+    if (typeof reason !== 'string' || reason.trim().length === 0) {
+      throw new BadRequestError('reason is required');
+    }
+    if (reason.length > MAX_REASON_LENGTH) {
+      throw new BadRequestError(`reason must be at most ${MAX_REASON_LENGTH} characters`);
+    }
+
+    const updated = await reviewRepository.update(review.id, {
+      isFlagged: true,
+      flagReason: reason.trim(),
+      flaggedAt: new Date(),
+    });
+    return this.formatReview(updated);
+  }
+
+  /**
+   * Get flagged reviews waiting for moderation (platform admin)
+   */
+  async getFlaggedReviews(
+    params: ReviewQueryParams
+  ): Promise<{ reviews: ReviewResponse[]; total: number; page: number; limit: number }> {
+    const { page, limit } = this.getPagination(params);
+    const { reviews, total } = await reviewRepository.findFlagged({ page, limit });
+    return { reviews: reviews.map((review) => this.formatReview(review)), total, page, limit };
+  }
+
+  /**
+   * Hide or restore a review and clear its flag (platform admin)
+   * Hidden reviews are not listed and don't count towards the court rating
+   */
+  async moderateReview(id: string, isHidden: unknown): Promise<ReviewResponse> {
+    const review = await this.getReviewOrThrow(id);
+
+    if (typeof isHidden !== 'boolean') {
+      throw new BadRequestError('isHidden must be a boolean');
+    }
+
+    const updated = await reviewRepository.update(review.id, {
+      isHidden,
+      isFlagged: false,
+      moderatedAt: new Date(),
+    });
+
+    if (isHidden !== review.isHidden) {
+      await this.refreshCourtRating(review.courtId);
+    }
+    return this.formatReview(updated);
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Get review or throw NotFoundError
+   */
+  private async getReviewOrThrow(id: string): Promise<ReviewRecord> {
+    const review = await reviewRepository.findById(id);
+    if (!review) {
+      throw new NotFoundError('Review not found');
+    }
+    return review;
+  }
+
+  /**
+   * Only the court's owners/staff and platform admins may reply
+   */
+  private async ensureCourtMember(courtId: string, user: UserProfileDto): Promise<void> {
+    if (user.role === 'platform_admin') {
+      return;
+    }
+    const role = await courtService.getMemberRole(courtId, user.id);
+    if (!role) {
+      throw new ForbiddenError('Only the court owner or staff can reply to reviews');
+    }
+  }
+
+  /**
+   * Recalculate the court's aggregate rating and re-rank it in autocomplete
+   */
+  private async refreshCourtRating(courtId: string): Promise<void> {
+    await reviewRepository.refreshCourtRating(courtId);
+
+    // Sync to Redis autocomplete index (non-blocking)
+    searchRepository
+      .findForIndex(courtId)
+      .then((court) => (court ? searchService.indexCourt(court) : undefined))
+      .catch((err) => {
+        console.error('Failed to sync court to search index:', err);
+      });
+  }
+
+  /**
+   * Validate star ratings (whole numbers 1-5)
+   * All dimensions are required when creating a review
+   */
+  private validateRatings(ratings: unknown, requireAll: boolean): Partial<ReviewRatings> {
+    if (typeof ratings !== 'object' || ratings === null) {
+      throw new BadRequestError(`ratings must be an object with: ${REVIEW_DIMENSIONS.join(', ')}`);
+    }
+
+    const result: Partial<ReviewRatings> = {};
+    for (const dimension of REVIEW_DIMENSIONS) {
+      const value = (ratings as Record<string, unknown>)[dimension];
+      if (value === undefined) {
+        if (requireAll) {
+          throw new BadRequestError(`ratings.${dimension} is required`);
+        }
+        continue;
+      }
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > 5) {
+        throw new BadRequestError(`ratings.${dimension} must be a whole number from 1 to 5`);
+      }
+      result[dimension] = value;
+    }
+    return result;
+  }
+
+  /**
+   * Validate an optional comment
+   */
+  private validateComment(comment: unknown): string | undefined {
+    if (comment === undefined) {
+      return undefined;
+    }
+    if (typeof comment !== 'string') {
+      throw new BadRequestError('comment must be a string');
+    }
+    if (comment.length > MAX_COMMENT_LENGTH) {
+      throw new BadRequestError(`comment must be at most ${MAX_COMMENT_LENGTH} characters`);
+    }
+    return comment.trim();
+  }
+
+  /**
+   * Map dimension ratings to columns, with the overall rating as their average
+   */
+  private toRatingColumns(ratings: ReviewRatings) {
+    return {
+      floorRating: ratings.floor,
+      lightingRating: ratings.lighting,
+      cleanlinessRating: ratings.cleanliness,
+      valueRating: ratings.value,
+      rating: (ratings.floor + ratings.lighting + ratings.cleanliness + ratings.value) / REVIEW_DIMENSIONS.length,
+    };
+  }
+
+  /**
+   * Normalize pagination (default 10 per page, at most 50)
+   */
+  private getPagination(params: ReviewQueryParams): { page: number; limit: number } {
+    const page = Number.isInteger(params.page) && params.page! > 0 ? params.page! : 1;
+    const limit = Number.isInteger(params.limit) && params.limit! > 0 ? Math.min(params.limit!, 50) : 10;
+    return { page, limit };
+  }
+
+  /**
+   * Format review response
+   */
+  private formatReview(review: ReviewRecord): ReviewResponse {
+    const fullName = [review.user.firstName, review.user.lastName].filter(Boolean).join(' ');
+    return {
+      id: review.id,
+      courtId: review.courtId,
+      bookingId: review.bookingId,
+      userId: review.userId,
+      authorName: fullName || review.user.username,
+      ratings: {
+        floor: review.floorRating,
+        lighting: review.lightingRating,
+        cleanliness: review.cleanlinessRating,
+        value: review.valueRating,
+      },
+      rating: review.rating,
+      comment: review.comment,
+      reply: review.reply,
+      replyUpdatedAt: review.replyUpdatedAt?.toISOString() ?? null,
+      isFlagged: review.isFlagged,
+      flagReason: review.flagReason,
+      isHidden: review.isHidden,
+      createdAt: review.createdAt.toISOString(),
+      updatedAt: review.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const reviewService = new ReviewService();
@@ -1,5 +1,15 @@
 import { prisma } from '../config/database.js';
 import { config } from '../config/index.js';
+import { refundService } from './refund.service.js';
+import { waitlistService } from './waitlist.service.js';
+import { splitPaymentService } from './split-payment.service.js';
+import { packageService } from './package.service.js';
+import { bookingChangeService } from './booking-change.service.js';
+import { bookingSeriesService } from './booking-series.service.js';
+import { webhookService } from './webhook.service.js';
+import { notificationService } from './notification.service.js';
+import { pushService } from './push.service.js';
+import { websocketService } from './websocket.service.js';
 
 /**
  * Scheduler Service
@@ -8,8 +18,20 @@ import { config } from '../config/index.js';
 export class SchedulerService {
   private completionInterval: NodeJS.Timeout | null = null;
   private expiredPendingInterval: NodeJS.Timeout | null = null;
+  private refundSyncInterval: NodeJS.Timeout | null = null;
+  private waitlistOfferInterval: NodeJS.Timeout | null = null;
+  private packageExpiryInterval: NodeJS.Timeout | null = null;
+  private webhookRetryInterval: NodeJS.Timeout | null = null;
+  private notificationPruneInterval: NodeJS.Timeout | null = null;
+  private gameReminderInterval: NodeJS.Timeout | null = null;
   private readonly COMPLETION_CHECK_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
   private readonly EXPIRED_PENDING_CHECK_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
+  private readonly REFUND_SYNC_INTERVAL_MS = 2 * 60 * 1000; // 2 minutes
+  private readonly WAITLIST_OFFER_CHECK_INTERVAL_MS = 60 * 1000; // 1 minute
+  private readonly PACKAGE_EXPIRY_CHECK_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+  private readonly WEBHOOK_RETRY_INTERVAL_MS = 60 * 1000; // 1 minute
+  private readonly NOTIFICATION_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+  private readonly GAME_REMINDER_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
 
   /**
    * Start all scheduled tasks
@@ -18,6 +40,12 @@ export class SchedulerService {
     console.log('📅 Starting scheduler service...');
     this.startBookingCompletionChecker();
     this.startExpiredPendingChecker();
+    this.startRefundSync();
+    this.startWaitlistOfferChecker();
+    this.startPackageExpiryChecker();
+    this.startWebhookRetry();
+    this.startNotificationPrune();
+    this.startGameReminders();
   }
 
   /**
@@ -33,6 +61,30 @@ export class SchedulerService {
       clearInterval(this.expiredPendingInterval);
       this.expiredPendingInterval = null;
     }
+    if (this.refundSyncInterval) {
+      clearInterval(this.refundSyncInterval);
+      this.refundSyncInterval = null;
+    }
+    if (this.waitlistOfferInterval) {
+      clearInterval(this.waitlistOfferInterval);
+      this.waitlistOfferInterval = null;
+    }
+    if (this.packageExpiryInterval) {
+      clearInterval(this.packageExpiryInterval);
+      this.packageExpiryInterval = null;
+    }
+    if (this.webhookRetryInterval) {
+      clearInterval(this.webhookRetryInterval);
+      this.webhookRetryInterval = null;
+    }
+    if (this.notificationPruneInterval) {
+      clearInterval(this.notificationPruneInterval);
+      this.notificationPruneInterval = null;
+    }
+    if (this.gameReminderInterval) {
+      clearInterval(this.gameReminderInterval);
+      this.gameReminderInterval = null;
+    }
   }
 
   /**
@@ -67,6 +119,102 @@ export class SchedulerService {
     console.log(`✅ Expired pending checker started (runs every ${this.EXPIRED_PENDING_CHECK_INTERVAL_MS / 1000 / 60} minutes)`);
   }
 
+  /**
+   * Start the refund sync
+   * Runs every 2 minutes to resend pending refunds and settle processing ones with ZaloPay
+   */
+  private startRefundSync(): void {
+    // Run immediately on startup
+    this.syncRefunds().catch(console.error);
+
+    // Then run every 2 minutes
+    this.refundSyncInterval = setInterval(() => {
+      this.syncRefunds().catch(console.error);
+    }, this.REFUND_SYNC_INTERVAL_MS);
+
+    console.log(`✅ Refund sync started (runs every ${this.REFUND_SYNC_INTERVAL_MS / 1000 / 60} minutes)`);
+  }
+
+  /**
+   * Start the waitlist offer checker
+   * Runs every minute to expire unclaimed offers and pass their slots to the next person
+   */
+  private startWaitlistOfferChecker(): void {
+    // Run immediately on startup
+    this.expireWaitlistOffers().catch(console.error);
+
+    // Then run every minute
+    this.waitlistOfferInterval = setInterval(() => {
+      this.expireWaitlistOffers().catch(console.error);
+    }, this.WAITLIST_OFFER_CHECK_INTERVAL_MS);
+
+    console.log(`✅ Waitlist offer checker started (runs every ${this.WAITLIST_OFFER_CHECK_INTERVAL_MS / 1000 / 60} minutes)`);
+  }
+
+  /**
+   * Start the package expiry checker
+   * Runs every 10 minutes to expire prepaid packages and cancel unpaid purchases
+   */
+  private startPackageExpiryChecker(): void {
+    // Run immediately on startup
+    this.expirePackages().catch(console.error);
+
+    // Then run every 10 minutes
+    this.packageExpiryInterval = setInterval(() => {
+      this.expirePackages().catch(console.error);
+    }, this.PACKAGE_EXPIRY_CHECK_INTERVAL_MS);
+
+    console.log(`✅ Package expiry checker started (runs every ${this.PACKAGE_EXPIRY_CHECK_INTERVAL_MS / 1000 / 60} minutes)`);
+  }
+
+  /**
+   * Start the webhook retry
+   * Runs every minute to send webhook deliveries whose backoff has passed
+   */
+  private startWebhookRetry(): void {
+    // Run immediately on startup
+    this.retryWebhooks().catch(console.error);
+
+    // Then run every minute
+    this.webhookRetryInterval = setInterval(() => {
+      this.retryWebhooks().catch(console.error);
+    }, this.WEBHOOK_RETRY_INTERVAL_MS);
+
+    console.log(`✅ Webhook retry started (runs every ${this.WEBHOOK_RETRY_INTERVAL_MS / 1000 / 60} minutes)`);
+  }
+
+  /**
+   * Start the notification prune
+   * Runs every hour to delete outbox notifications past their retention period
+   */
+  private startNotificationPrune(): void {
+    // Run immediately on startup
+    this.pruneNotifications().catch(console.error);
+
+    // Then run every hour
+    this.notificationPruneInterval = setInterval(() => {
+      this.pruneNotifications().catch(console.error);
+    }, this.NOTIFICATION_PRUNE_INTERVAL_MS);
+
+    console.log(`✅ Notification prune started (runs every ${this.NOTIFICATION_PRUNE_INTERVAL_MS / 1000 / 60} minutes)`);
+  }
+
+  /**
+   * Start the game reminders
+   * Runs every 5 minutes to push a reminder to players whose game starts soon
+   */
+  private startGameReminders(): void {
+    // Run immediately on startup
+    this.sendGameReminders().catch(console.error);
+
+    // Then run every 5 minutes
+    this.gameReminderInterval = setInterval(() => {
+      this.sendGameReminders().catch(console.error);
+    }, this.GAME_REMINDER_INTERVAL_MS);
+
+    console.log(`✅ Game reminders started (runs every ${this.GAME_REMINDER_INTERVAL_MS / 1000 / 60} minutes)`);
+  }
+
   /**
    * Mark all confirmed bookings that have passed their end time as completed
    * 
@@ -107,6 +255,10 @@ export class SchedulerService {
    * - Uses the slot lock TTL from config (default 10 minutes) + 5 minutes buffer
    * - Booking status: 'cancelled' (user abandonment)
    * - Payment status: 'failed' (payment timeout)
+   * - Split payments of expired bookings are cancelled and their paid shares refunded
+   * - Court webhooks are told about each cancelled booking
+   * - Booking changes whose price difference was not paid expire and release the slot they held
+   * - Freed slots are offered to the waitlist
    */
   async markExpiredPendingBookings(): Promise<number> {
     try {
@@ -115,7 +267,7 @@ export class SchedulerService {
       const cutoffTime = new Date(Date.now() - timeoutSeconds * 1000);
       
       // Update both bookings and their associated payments in a transaction
-      await prisma.$transaction(async (tx) => {
+      const expired = await prisma.$transaction(async (tx) => {
         // First, mark expired pending payments as failed
         await tx.$executeRaw`
           UPDATE payments
@@ -125,34 +277,195 @@ export class SchedulerService {
         `;
 
         // Then, mark the corresponding bookings as cancelled
-        await tx.$executeRaw`
+        return tx.$queryRaw<
+          {
+            id: string;
+            court_id: string;
+            sub_court_id: string;
+            group_id: string | null;
+            date: string;
+            start_time: string;
+            end_time: string;
+          }[]
+        >`
           UPDATE bookings
           SET status = 'cancelled', updated_at = NOW()
           WHERE status = 'pending'
             AND created_at < ${cutoffTime}
+          RETURNING id,
+                    (SELECT court_id FROM sub_courts WHERE id = bookings.sub_court_id) as court_id,
+                    sub_court_id,
+                    group_id,
+                    TO_CHAR(date, 'YYYY-MM-DD') as date,
+                    TO_CHAR(start_time, 'HH24:MI') as start_time,
+                    TO_CHAR(end_time, 'HH24:MI') as end_time
         `;
       });
 
-      // Count the updated bookings for logging
-      const result = await prisma.$queryRaw<{ count: bigint }[]>`
-        SELECT COUNT(*) as count
-        FROM bookings
-        WHERE status = 'cancelled'
-          AND updated_at > NOW() - INTERVAL '5 seconds'
-      `;
+      const count = expired.length;
 
-      const count = result[0] ? Number(result[0].count) : 0;
-      
       if (count > 0) {
         console.log(`⏰ Marked ${count} expired pending booking(s) as cancelled and their payments as failed`);
       }
 
+      await splitPaymentService.cancelForBookings(
+        expired.map((b) => b.id),
+        'Booking expired before every share was paid'
+      );
+      for (const booking of expired) {
+        webhookService.emit('booking.cancelled', booking.id);
+      }
+      websocketService.notifySlotUpdates(
+        'booking_cancelled',
+        true,
+        expired.map((b) => ({
+          courtId: b.court_id,
+          subCourtId: b.sub_court_id,
+          date: b.date,
+          startTime: b.start_time,
+          endTime: b.end_time,
+        }))
+      );
+
+      // A booking series whose occurrences all expired unpaid is cancelled with them
+      const cancelledSeries = await bookingSeriesService.cancelExpiredSeries(
+        expired.flatMap((b) => (b.group_id ? [b.group_id] : []))
+      );
+      if (cancelledSeries > 0) {
+        console.log(`⏰ Cancelled ${cancelledSeries} unpaid booking series`);
+      }
+
+      // Booking changes whose price difference was not paid keep their booking at its current slot
+      const expiredChanges = await bookingChangeService.expireChanges(cutoffTime);
+      if (expiredChanges > 0) {
+        console.log(`⏰ Expired ${expiredChanges} unpaid booking change(s)`);
+      }
+
+      await waitlistService.releaseSlots(
+        expired.map((b) => ({
+          subCourtId: b.sub_court_id,
+          date: b.date,
+          startTime: b.start_time,
+          endTime: b.end_time,
+        }))
+      );
+
       return count;
     } catch (error) {
       console.error('Error marking expired pending bookings:', error);
       return 0;
     }
   }
+
+  /**
+   * Settle refunds that are still pending or processing
+   */
+  async syncRefunds(): Promise<number> {
+    try {
+      const settled = await refundService.syncUnsettledRefunds();
+
+      if (settled > 0) {
+        console.log(`💸 Settled ${settled} refund(s)`);
+      }
+
+      return settled;
+    } catch (error) {
+      console.error('Error syncing refunds:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Expire waitlist offers that were not claimed in time
+   */
+  async expireWaitlistOffers(): Promise<number> {
+    try {
+      const expired = await waitlistService.expireOffers();
+
+      if (expired > 0) {
+        console.log(`⏳ Expired ${expired} unclaimed waitlist offer(s)`);
+      }
+
+      return expired;
+    } catch (error) {
+      console.error('Error expiring waitlist offers:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Expire prepaid packages past their validity, forfeiting their remaining time,
+   * and cancel package purchases never paid within the payment timeout
+   */
+  async expirePackages(): Promise<number> {
+    try {
+      const timeoutSeconds = config.payment.slotLockTtlSeconds + 300; // 5 min buffer, as for bookings
+      const { expired, cancelled } = await packageService.expirePackages(new Date(Date.now() - timeoutSeconds * 1000));
+
+      if (expired > 0 || cancelled > 0) {
+        console.log(`🎫 Expired ${expired} package(s) and cancelled ${cancelled} unpaid package purchase(s)`);
+      }
+
+      return expired;
+    } catch (error) {
+      console.error('Error expiring packages:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Send webhook deliveries that are due for another attempt
+   */
+  async retryWebhooks(): Promise<number> {
+    try {
+      const delivered = await webhookService.retryDueDeliveries();
+
+      if (delivered > 0) {
+        console.log(`🔔 Delivered ${delivered} webhook(s) on retry`);
+      }
+
+      return delivered;
+    } catch (error) {
+      console.error('Error retrying webhooks:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Delete outbox notifications too old to be replayed
+   */
+  async pruneNotifications(): Promise<number> {
+    try {
+      const deleted = await notificationService.pruneNotifications();
+
+      if (deleted > 0) {
+        console.log(`🧹 Pruned ${deleted} old notification(s)`);
+      }
+
+      return deleted;
+    } catch (error) {
+      console.error('Error pruning notifications:', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Push a reminder for each confirmed booking starting within the reminder lead time
+   */
+  async sendGameReminders(): Promise<number> {
+    try {
+      const sent = await pushService.sendGameReminders();
+
+      if (sent > 0) {
+        console.log(`⏰ Sent ${sent} game reminder(s)`);
+      }
+
+      return sent;
+    } catch (error) {
+      console.error('Error sending game reminders:', error);
+      return 0;
+    }
+  }
 }
 
 export const schedulerService = new SchedulerService();
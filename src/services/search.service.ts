@@ -153,6 +153,8 @@ export class SearchService {
       addressStreet: r.address_street,
       nameScore: Number(r.name_score),
       districtScore: Number(r.district_score),
+      rating: r.rating_average === null ? null : Number(r.rating_average),
+      reviewCount: Number(r.review_count),
     }));
 
     const response: SearchResultsResponse = {
@@ -180,8 +182,8 @@ export class SearchService {
     // Remove existing entries for this court
     await redisService.removeFromAutocomplete(court.id);
 
-    // Add new entries with court name for display
-    await redisService.addToAutocomplete(court.id, court.name, searchTerms, 0);
+    // Add new entries with court name for display, ranked by rating
+    await redisService.addToAutocomplete(court.id, court.name, searchTerms, court.ratingAverage ?? 0);
   }
 
   /**
@@ -205,10 +207,10 @@ export class SearchService {
     // Clear existing autocomplete data
     await redisService.clearAutocomplete();
 
-    // Index each court with name for display
+    // Index each court with name for display, ranked by rating
     for (const court of courts) {
       const searchTerms = this.buildSearchTerms(court);
-      await redisService.addToAutocomplete(court.id, court.name, searchTerms, 0);
+      await redisService.addToAutocomplete(court.id, court.name, searchTerms, court.ratingAverage ?? 0);
     }
 
     // Clear search cache since data has changed
@@ -296,6 +298,8 @@ export class SearchService {
       limit: params.limit || 10,
       district: params.district || null,
       minSimilarity: params.minSimilarity || 0.3,
+      minRating: params.minRating ?? null,
+      sortBy: params.sortBy || 'relevance',
     });
 
     return createHash('md5').update(keyData).digest('hex');
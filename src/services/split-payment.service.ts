@@ -0,0 +1,580 @@
+import { prisma } from '../config/database.js';
+import { availabilityRepository, paymentRepository, splitPaymentRepository } from '../repositories/index.js';
+import { zaloPayService } from './zalopay.service.js';
+import { paymentService } from './payment.service.js';
+import { redisService } from './redis.service.js';
+import { websocketService } from './websocket.service.js';
+import { refundService } from './refund.service.js';
+import { webhookService } from './webhook.service.js';
+import { pushService } from './push.service.js';
+import { notificationService } from './notification.service.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
+import { createSplitAccessToken } from '../utils/booking-access.js';
+import { COVER_SHARE_NUMBER, MAX_SPLIT_SHARES, MIN_SPLIT_SHARES } from '../types/index.js';
+import type {
+  CreatePaymentResponse,
+  CreateSplitPaymentDto,
+  CreateSplitPaymentResponse,
+  PaymentStatus,
+  RefundResponse,
+  SplitPaymentResponse,
+  SplitPaymentStatus,
+  SplitShareResponse,
+  ZaloPayOrder,
+} from '../types/index.js';
+import type { Prisma } from '@prisma/client';
+
+type SplitRecord = NonNullable<Awaited<ReturnType<typeof splitPaymentRepository.findById>>>;
+type PaymentRecord = SplitRecord['payments'][number];
+type BookingRecord = NonNullable<Awaited<ReturnType<typeof availabilityRepository.getBookingById>>>;
+
+interface SlotToPay {
+  id: string;
+  courtId: string;
+  subCourtId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  totalPrice: number;
+}
+
+export class SplitPaymentService {
+  /**
+   * Split the payment of a pending booking into equal shares
+   * Each share gets its own payment and ZaloPay order. The slots are locked
+   * like a regular payment, so every share has to be paid (or the booker has
+   * to cover the rest) before the lock expires.
+   */
+  async createSplitPayment(bookingId: string, data: CreateSplitPaymentDto): Promise<CreateSplitPaymentResponse> {
+    if (!zaloPayService.isConfigured()) {
+      throw new BadRequestError('Payment service is not configured');
+    }
+
+    const shareCount = data.shares;
+    if (!Number.isInteger(shareCount) || shareCount < MIN_SPLIT_SHARES || shareCount > MAX_SPLIT_SHARES) {
+      throw new BadRequestError(`shares must be an integer from ${MIN_SPLIT_SHARES} to ${MAX_SPLIT_SHARES}`);
+    }
+
+    const booking = await availabilityRepository.getBookingById(bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    if (booking.status !== 'pending') {
+      throw new BadRequestError(`Cannot split the payment of a booking with status: ${booking.status}`);
+    }
+
+    const slots = await this.getSlotsToPay(booking);
+    const openSplits = await splitPaymentRepository.findOpenByBookingIds(slots.map((s) => s.id));
+    if (openSplits.length > 0) {
+      throw new ConflictError('Booking payment is already split');
+    }
+
+    if (await paymentRepository.hasSuccessfulPayment(bookingId)) {
+      throw new BadRequestError('Booking already has a successful payment');
+    }
+
+    if (await paymentRepository.findLatestPendingByBookingId(bookingId)) {
+      throw new ConflictError('Booking already has a pending payment, cancel it before splitting');
+    }
+
+    const totalAmount = slots.reduce((sum, s) => sum + s.totalPrice, 0);
+    const amounts = this.getShareAmounts(totalAmount, shareCount);
+
+    const slotsToLock = this.toSlotLocks(slots);
+    const lockAcquired = await redisService.acquireSlotLocks(slotsToLock);
+    if (!lockAcquired) {
+      throw new ConflictError('One or more time slots are no longer available');
+    }
+    websocketService.notifySlotUpdates('slot_locked', false, slots);
+
+    let splitPaymentId: string;
+    try {
+      // Orders are created before the rows: an order whose row is never saved just expires unpaid
+      const appTransIds = new Set<string>();
+      const orders: ZaloPayOrder[] = [];
+      for (const [index, amount] of amounts.entries()) {
+        orders.push(await this.createOrder(booking, amount, `share ${index + 1}/${shareCount}`, appTransIds));
+      }
+
+      splitPaymentId = await prisma.$transaction(async (tx) => {
+        const split = await splitPaymentRepository.create({ bookingId, shareCount, totalAmount }, tx);
+
+        for (const [index, order] of orders.entries()) {
+          await paymentRepository.create(
+            {
+              bookingId,
+              ...order,
+              splitPaymentId: split.id,
+              shareNumber: index + 1,
+            },
+            tx
+          );
+        }
+
+        return split.id;
+      });
+    } catch (error) {
+      // Release Redis locks on failure
+      await redisService.releaseSlotLocks(slotsToLock);
+
+      if (error instanceof Error) {
+        throw new BadRequestError(error.message);
+      }
+      throw error;
+    }
+
+    const split = (await splitPaymentRepository.findById(splitPaymentId))!;
+    return {
+      split: this.formatSplit(split),
+      shares: await Promise.all(split.payments.map((payment) => paymentService.formatOrder(payment))),
+      shareToken: createSplitAccessToken(split.id),
+    };
+  }
+
+  /**
+   * Get a split payment with the state of each share
+   */
+  async getSplitPayment(id: string): Promise<SplitPaymentResponse> {
+    const split = await splitPaymentRepository.findById(id);
+    if (!split) {
+      throw new NotFoundError('Split payment not found');
+    }
+
+    return this.formatSplit(split);
+  }
+
+  /**
+   * Get the booking a split payment is paid against, for access checks
+   */
+  async getSplitBookingId(id: string): Promise<string> {
+    const split = await splitPaymentRepository.findById(id);
+    if (!split) {
+      throw new NotFoundError('Split payment not found');
+    }
+    return split.bookingId;
+  }
+
+  /**
+   * Get the ZaloPay order for one share
+   * Returns the share's pending order, or a new one when the last attempt failed
+   */
+  async payShare(id: string, shareNumber: number): Promise<CreatePaymentResponse> {
+    const split = await this.getOpenSplit(id);
+
+    if (!Number.isInteger(shareNumber) || shareNumber < 1 || shareNumber > split.shareCount) {
+      throw new BadRequestError(`shareNumber must be from 1 to ${split.shareCount}`);
+    }
+
+    const cover = this.getLatestShares(split).get(COVER_SHARE_NUMBER);
+    if (cover && (cover.status === 'pending' || cover.status === 'success')) {
+      throw new ConflictError('The booker is paying the rest of this booking');
+    }
+
+    const share = this.getLatestShares(split).get(shareNumber);
+    if (share?.status === 'success') {
+      throw new BadRequestError('Share is already paid');
+    }
+    if (share?.status === 'pending') {
+      return paymentService.formatOrder(share);
+    }
+
+    const booking = await this.getPendingBooking(split.bookingId);
+    const amount = this.getShareAmounts(split.totalAmount, split.shareCount)[shareNumber - 1]!;
+    return this.createSharePayment(split, booking, shareNumber, amount, `share ${shareNumber}/${split.shareCount}`);
+  }
+
+  /**
+   * Let the booker pay whatever the shares have not covered yet
+   * Unpaid shares are expired first so nobody pays twice
+   */
+  async coverRemaining(bookingId: string): Promise<CreatePaymentResponse> {
+    const booking = await this.getPendingBooking(bookingId);
+    const slots = await this.getSlotsToPay(booking);
+
+    const [split] = await splitPaymentRepository.findOpenByBookingIds(slots.map((s) => s.id));
+    if (!split) {
+      throw new NotFoundError('Booking has no open split payment');
+    }
+
+    const cover = this.getLatestShares(split).get(COVER_SHARE_NUMBER);
+    if (cover?.status === 'pending') {
+      return paymentService.formatOrder(cover);
+    }
+
+    const remaining = split.totalAmount - this.getPaidAmount(split);
+    if (remaining <= 0) {
+      throw new BadRequestError('Split payment is already covered');
+    }
+
+    await splitPaymentRepository.expirePendingShares(split.id, COVER_SHARE_NUMBER);
+
+    return this.createSharePayment(split, booking, COVER_SHARE_NUMBER, remaining, 'remaining amount');
+  }
+
+  /**
+   * Record the result of a share payment (ZaloPay callback or status query)
+   * The booking is confirmed once the paid shares cover the total.
+   * A share paid after it expired or after the split was closed is refunded in full.
+   */
+  async settleShare(
+    payment: {
+      id: string;
+      bookingId: string;
+      splitPaymentId: string | null;
+      status: string;
+      booking: { userId: string | null };
+    },
+    result: { status: 'success' | 'failed'; zpTransId?: string; callbackData?: object }
+  ): Promise<void> {
+    // Repeated callbacks and late failures of a closed share change nothing
+    if (payment.status === result.status || (result.status === 'failed' && payment.status !== 'pending')) {
+      return;
+    }
+
+    const { updated, notification, split, coversTotal, slots } = await prisma.$transaction(async (tx) => {
+      // Shares of a split settle one at a time, so the last one paid sees every other paid share
+      await splitPaymentRepository.lock(payment.splitPaymentId!, tx);
+
+      const updated = await paymentRepository.updateStatus(
+        payment.id,
+        result.status,
+        result.zpTransId,
+        result.callbackData,
+        tx
+      );
+
+      // Keep the notification so the booker gets it even if the app was closed
+      const notification = await notificationService.recordPaymentStatus(payment.booking.userId, {
+        type: 'payment_status',
+        paymentId: payment.id,
+        status: result.status,
+        bookingId: payment.bookingId,
+        ...(result.zpTransId && { zpTransId: result.zpTransId }),
+        message: result.status === 'success' ? 'Payment successful! Your share is paid.' : 'Payment failed. Please try again.',
+      }, tx);
+
+      const split = await splitPaymentRepository.findById(payment.splitPaymentId!, tx);
+      const coversTotal =
+        split !== null &&
+        result.status === 'success' &&
+        payment.status === 'pending' &&
+        split.status === 'open' &&
+        this.getPaidAmount(split) >= split.totalAmount;
+      const slots = coversTotal ? await this.completeSplit(split!, tx) : null;
+
+      return { updated, notification, split, coversTotal, slots };
+    });
+
+    websocketService.notifyPaymentStatus(notification);
+    if (result.status === 'success') {
+      webhookService.emit('payment.succeeded', payment.bookingId, {
+        payment: { id: updated.id, amount: updated.amount, zpTransId: updated.zpTransId },
+      });
+    }
+
+    if (!split) {
+      return;
+    }
+
+    if (result.status === 'success' && (payment.status !== 'pending' || split.status !== 'open')) {
+      console.error(`Share payment ${payment.id} was paid after it was closed, refunding it`);
+      await refundService.refundPayment(updated, 'Share paid after the split payment was closed');
+      return;
+    }
+
+    if (coversTotal) {
+      if (!slots) {
+        await this.cancelSplit(split, 'Booking was no longer waiting for payment');
+        return;
+      }
+
+      // Release Redis locks (payment completed)
+      await redisService.releaseSlotLocks(this.toSlotLocks(slots));
+
+      for (const slot of slots) {
+        webhookService.emit('booking.confirmed', slot.id);
+      }
+      this.notifySplit(split, 'completed', 'Every share is paid! The booking has been confirmed.');
+      pushService.notifyBooking('booking_confirmed', split.bookingId);
+      return;
+    }
+
+    this.notifySplit(split, split.status as SplitPaymentStatus, result.status === 'success' ? 'A share was paid' : 'A share payment failed');
+  }
+
+  /**
+   * Cancel a pending share payment (user-initiated)
+   * Only the share is cancelled; it can be paid again while the split is open
+   */
+  async cancelShare(payment: { id: string; bookingId: string; booking: { userId: string | null } }): Promise<void> {
+    const notification = await prisma.$transaction(async (tx) => {
+      await paymentRepository.updateStatus(payment.id, 'failed', undefined, undefined, tx);
+
+      return notificationService.recordPaymentStatus(payment.booking.userId, {
+        type: 'payment_status',
+        paymentId: payment.id,
+        status: 'cancelled',
+        bookingId: payment.bookingId,
+        message: 'Payment cancelled',
+      }, tx);
+    });
+
+    websocketService.notifyPaymentStatus(notification);
+  }
+
+  /**
+   * Cancel the open split payments of bookings that expired or were cancelled unpaid
+   * Shares that were already paid are refunded in full
+   */
+  async cancelForBookings(bookingIds: string[], reason: string): Promise<RefundResponse[]> {
+    if (bookingIds.length === 0) {
+      return [];
+    }
+
+    const splits = await splitPaymentRepository.findOpenByBookingIds(bookingIds);
+    const refunds: RefundResponse[] = [];
+    for (const split of splits) {
+      refunds.push(...(await this.cancelSplit(split, reason)));
+    }
+
+    return refunds;
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Close the split and confirm the booking (and its group), in the transaction of the share that covered the total
+   * Returns the confirmed slots, or null when the booking was no longer waiting for payment
+   */
+  private async completeSplit(split: SplitRecord, tx: Prisma.TransactionClient): Promise<SlotToPay[] | null> {
+    const booking = await availabilityRepository.getBookingById(split.bookingId);
+    if (!booking || booking.status !== 'pending') {
+      return null;
+    }
+
+    // The split is locked and open, so it closes
+    await splitPaymentRepository.close(split.id, 'completed', tx);
+
+    const slots = await this.getSlotsToPay(booking);
+    await availabilityRepository.confirmPendingBookings(slots.map((s) => s.id), tx);
+    return slots;
+  }
+
+  /**
+   * Close a split as cancelled, expire its unpaid shares and refund the paid ones
+   */
+  private async cancelSplit(split: SplitRecord, reason: string): Promise<RefundResponse[]> {
+    const closed = await splitPaymentRepository.close(split.id, 'cancelled');
+    if (!closed) {
+      return [];
+    }
+
+    await splitPaymentRepository.expirePendingShares(split.id);
+
+    const refunds: RefundResponse[] = [];
+    for (const payment of split.payments.filter((p) => p.status === 'success')) {
+      const refund = await refundService.refundPayment(payment, reason);
+      if (refund) {
+        refunds.push(refund);
+      }
+    }
+
+    this.notifySplit(split, 'cancelled', 'Split payment cancelled. Paid shares are refunded.');
+    return refunds;
+  }
+
+  private async getOpenSplit(id: string): Promise<SplitRecord> {
+    const split = await splitPaymentRepository.findById(id);
+    if (!split) {
+      throw new NotFoundError('Split payment not found');
+    }
+
+    if (split.status !== 'open') {
+      throw new BadRequestError(`Split payment is ${split.status}`);
+    }
+
+    return split;
+  }
+
+  private async getPendingBooking(bookingId: string): Promise<BookingRecord> {
+    const booking = await availabilityRepository.getBookingById(bookingId);
+    if (!booking) {
+      throw new NotFoundError('Booking not found');
+    }
+
+    if (booking.status !== 'pending') {
+      throw new BadRequestError(`Booking is no longer waiting for payment (status: ${booking.status})`);
+    }
+
+    return booking;
+  }
+
+  /**
+   * The booking, or every booking of its group (a group is paid together)
+   */
+  private async getSlotsToPay(booking: BookingRecord): Promise<SlotToPay[]> {
+    if (booking.group_id) {
+      const groupBookings = await availabilityRepository.getBookingsByGroupId(booking.group_id);
+      if (groupBookings.length > 0) {
+        return groupBookings.map((b) => ({
+          id: b.id,
+          courtId: b.court_id,
+          subCourtId: b.sub_court_id,
+          date: new Date(b.date).toISOString().split('T')[0]!,
+          startTime: b.start_time,
+          endTime: b.end_time,
+          totalPrice: b.total_price,
+        }));
+      }
+    }
+
+    return [
+      {
+        id: booking.id,
+        courtId: booking.court_id,
+        subCourtId: booking.sub_court_id,
+        date: booking.date.toISOString().split('T')[0]!,
+        startTime: booking.start_time,
+        endTime: booking.end_time,
+        totalPrice: booking.total_price,
+      },
+    ];
+  }
+
+  private toSlotLocks(slots: SlotToPay[]) {
+    return slots.map((s) => ({
+      subCourtId: s.subCourtId,
+      date: s.date,
+      startTime: s.startTime,
+      endTime: s.endTime,
+      bookingId: s.id,
+    }));
+  }
+
+  /**
+   * Equal shares in whole dong; the first share takes the rounding leftover
+   */
+  private getShareAmounts(totalAmount: number, shareCount: number): number[] {
+    const base = Math.floor(totalAmount / shareCount);
+    return Array.from({ length: shareCount }, (_, index) =>
+      index === 0 ? totalAmount - base * (shareCount - 1) : base
+    );
+  }
+
+  private getPaidAmount(split: SplitRecord): number {
+    return split.payments
+      .filter((p) => p.status === 'success')
+      .reduce((sum, p) => sum + p.amount, 0);
+  }
+
+  /**
+   * Latest payment of each share number (payments are ordered oldest first)
+   */
+  private getLatestShares(split: SplitRecord): Map<number, PaymentRecord> {
+    const latest = new Map<number, PaymentRecord>();
+    for (const payment of split.payments) {
+      if (payment.shareNumber !== null) {
+        latest.set(payment.shareNumber, payment);
+      }
+    }
+    return latest;
+  }
+
+  /**
+   * Create a ZaloPay order for one share
+   * @param usedAppTransIds - app_trans_ids already taken by this split (they only have a short random suffix)
+   */
+  private async createOrder(
+    booking: BookingRecord,
+    amount: number,
+    label: string,
+    usedAppTransIds: Set<string> = new Set()
+  ): Promise<ZaloPayOrder> {
+    let appTransId = zaloPayService.generateAppTransId(booking.id);
+    while (usedAppTransIds.has(appTransId)) {
+      appTransId = zaloPayService.generateAppTransId(booking.id);
+    }
+    usedAppTransIds.add(appTransId);
+
+    return paymentService.createOrder({
+      bookingId: booking.id,
+      appTransId,
+      amount,
+      guestName: booking.guest_name || 'Guest',
+      guestPhone: booking.guest_phone || '',
+      description: `Arc Badminton - ${booking.court_name} - ${booking.date.toISOString().split('T')[0]} - ${label}`,
+    });
+  }
+
+  private async createSharePayment(
+    split: SplitRecord,
+    booking: BookingRecord,
+    shareNumber: number,
+    amount: number,
+    label: string
+  ): Promise<CreatePaymentResponse> {
+    let payment;
+    try {
+      const order = await this.createOrder(booking, amount, label);
+      payment = await paymentRepository.create({
+        bookingId: split.bookingId,
+        ...order,
+        splitPaymentId: split.id,
+        shareNumber,
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new BadRequestError(error.message);
+      }
+      throw error;
+    }
+
+    return paymentService.formatOrder(payment);
+  }
+
+  private notifySplit(split: SplitRecord, status: SplitPaymentStatus, message: string): void {
+    const formatted = this.formatSplit(split);
+    websocketService.notifySplitPaymentStatus({
+      type: 'split_payment_status',
+      splitPaymentId: split.id,
+      bookingId: split.bookingId,
+      status,
+      paidShares: formatted.paidShares,
+      shareCount: split.shareCount,
+      paidAmount: formatted.paidAmount,
+      totalAmount: split.totalAmount,
+      message,
+    });
+  }
+
+  private formatSplit(split: SplitRecord): SplitPaymentResponse {
+    const paidAmount = this.getPaidAmount(split);
+    const shares: SplitShareResponse[] = [...this.getLatestShares(split).values()]
+      // Shares in order, the booker's cover last
+      .sort((a, b) => (a.shareNumber || Infinity) - (b.shareNumber || Infinity))
+      .map((payment) => ({
+        shareNumber: payment.shareNumber!,
+        amount: payment.amount,
+        paymentId: payment.id,
+        status: payment.status as PaymentStatus,
+        orderUrl: payment.orderUrl,
+      }));
+
+    return {
+      id: split.id,
+      bookingId: split.bookingId,
+      shareCount: split.shareCount,
+      totalAmount: split.totalAmount,
+      paidAmount,
+      remainingAmount: Math.max(split.totalAmount - paidAmount, 0),
+      paidShares: shares.filter((s) => s.shareNumber !== COVER_SHARE_NUMBER && s.status === 'success').length,
+      status: split.status as SplitPaymentStatus,
+      shares,
+      createdAt: split.createdAt.toISOString(),
+      updatedAt: split.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const splitPaymentService = new SplitPaymentService();
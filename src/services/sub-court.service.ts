@@ -0,0 +1,161 @@
+import { subCourtRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError, ConflictError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { mapBookingConflict } from '../types/index.js';
+import type {
+  CreateSubCourtDto,
+  UpdateSubCourtDto,
+  SubCourtResponse,
+  UpdateSubCourtResponse,
+  SubCourtAttributes,
+  SurfaceType,
+} from '../types/index.js';
+
+export class SubCourtService {
+  /**
+   * List all sub-courts of a court in display order
+   */
+  async getSubCourts(courtId: string): Promise<SubCourtResponse[]> {
+    await ensureCourtExists(courtId);
+    const subCourts = await subCourtRepository.findByCourtId(courtId);
+    return subCourts.map((subCourt) => this.formatSubCourt(subCourt));
+  }
+
+  /**
+   * Get a single sub-court of a court
+   */
+  async getSubCourt(courtId: string, subCourtId: string): Promise<SubCourtResponse> {
+    const subCourt = await this.getCourtSubCourt(courtId, subCourtId);
+    return this.formatSubCourt(subCourt);
+  }
+
+  /**
+   * Create a sub-court
+   * Appended to the end of the display order unless an order is given
+   */
+  async createSubCourt(courtId: string, data: CreateSubCourtDto): Promise<SubCourtResponse> {
+    await ensureCourtExists(courtId);
+
+    const displayOrder = data.displayOrder ?? (await subCourtRepository.getMaxDisplayOrder(courtId)) + 1;
+    const subCourt = await subCourtRepository.create(courtId, { ...data, displayOrder });
+
+    return this.formatSubCourt(subCourt);
+  }
+
+  /**
+   * Update a sub-court (rename, change surface/attributes, activate or deactivate)
+   * Deactivating a sub-court with upcoming bookings is refused unless forced,
+   * in which case the remaining bookings are returned as warnings
+   */
+  async updateSubCourt(
+    courtId: string,
+    subCourtId: string,
+    data: UpdateSubCourtDto,
+    force: boolean = false
+  ): Promise<UpdateSubCourtResponse> {
+    const existing = await this.getCourtSubCourt(courtId, subCourtId);
+
+    let warnings: UpdateSubCourtResponse['warnings'] = [];
+    if (data.isActive === false && existing.isActive) {
+      const upcoming = await subCourtRepository.findUpcomingBookings(subCourtId);
+      if (upcoming.length > 0 && !force) {
+        throw new ConflictError(
+          `Sub-court ${existing.name} has ${upcoming.length} upcoming booking(s). ` +
+            'Cancel or move them first, or retry with force=true to deactivate anyway'
+        );
+      }
+      warnings = upcoming.map(mapBookingConflict);
+    }
+
+    const subCourt = await subCourtRepository.update(subCourtId, data);
+
+    return {
+      subCourt: this.formatSubCourt(subCourt),
+      warnings,
+    };
+  }
+
+  /**
+   * Reorder sub-courts
+   * The list must contain every sub-court of the court exactly once
+   */
+  async reorderSubCourts(courtId: string, subCourtIds: string[]): Promise<SubCourtResponse[]> {
+    await ensureCourtExists(courtId);
+
+    const subCourts = await subCourtRepository.findByCourtId(courtId);
+    const existingIds = new Set(subCourts.map((subCourt) => subCourt.id));
+    const requestedIds = new Set(subCourtIds);
+
+    if (
+      requestedIds.size !== subCourtIds.length ||
+      requestedIds.size !== existingIds.size ||
+      subCourtIds.some((id) => !existingIds.has(id))
+    ) {
+      throw new BadRequestError('subCourtIds must list every sub-court of this court exactly once');
+    }
+
+    await subCourtRepository.updateDisplayOrder(subCourtIds);
+
+    return this.getSubCourts(courtId);
+  }
+
+  /**
+   * Delete a sub-court
+   * Sub-courts with booking history must be deactivated instead, since deleting
+   * would cascade to their bookings and payments
+   */
+  async deleteSubCourt(courtId: string, subCourtId: string): Promise<void> {
+    const subCourt = await this.getCourtSubCourt(courtId, subCourtId);
+
+    const bookingCount = await subCourtRepository.countBookings(subCourtId);
+    if (bookingCount > 0) {
+      throw new ConflictError(
+        `Sub-court ${subCourt.name} has ${bookingCount} booking(s) and cannot be deleted. Deactivate it instead`
+      );
+    }
+
+    await subCourtRepository.delete(subCourtId);
+  }
+
+  /**
+   * Get a sub-court and ensure it belongs to the given court
+   */
+  private async getCourtSubCourt(courtId: string, subCourtId: string) {
+    const subCourt = await subCourtRepository.findById(subCourtId);
+    if (!subCourt || subCourt.courtId !== courtId) {
+      throw new NotFoundError('Sub-court not found');
+    }
+    return subCourt;
+  }
+
+  /**
+   * Format sub-court response
+   */
+  private formatSubCourt(subCourt: {
+    id: string;
+    courtId: string;
+    name: string;
+    description: string | null;
+    isActive: boolean;
+    displayOrder: number;
+    surfaceType: string;
+    attributes: unknown;
+    createdAt: Date;
+    updatedAt: Date;
+  }): SubCourtResponse {
+    return {
+      id: subCourt.id,
+      courtId: subCourt.courtId,
+      name: subCourt.name,
+      description: subCourt.description,
+      isActive: subCourt.isActive,
+      displayOrder: subCourt.displayOrder,
+      surfaceType: subCourt.surfaceType as SurfaceType,
+      attributes: (subCourt.attributes ?? {}) as SubCourtAttributes,
+      createdAt: subCourt.createdAt.toISOString(),
+      updatedAt: subCourt.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const subCourtService = new SubCourtService();
@@ -10,10 +10,19 @@ import type {
   BookingHistoryItemDto,
   BookingHistoryResponseDto,
   UserProfileDto,
+  UserRole,
   mapUserToDto,
 } from '../types/auth.types.js';
 import { mapUserToDto as mapUser } from '../types/auth.types.js';
 
+// Role precedence used when promoting users (higher index = more privileges)
+const ROLE_RANK: Record<UserRole, number> = {
+  player: 0,
+  venue_staff: 1,
+  venue_owner: 2,
+  platform_admin: 3,
+};
+
 export class UserService {
   /**
    * Verify token and create/get user
@@ -243,6 +252,8 @@ export class UserService {
       status: booking.status,
       notes: booking.notes,
       createdAt: booking.createdAt.toISOString(),
+      role: booking.userId === userId ? 'owner' : 'player',
+      openGameId: booking.openGame?.id ?? null,
       court: {
         id: booking.subCourt.court.id,
         name: booking.subCourt.court.name,
@@ -275,6 +286,56 @@ export class UserService {
     return userRepository.linkBookingsByEmail(userId, email);
   }
 
+  /**
+   * Change a user's platform role and mirror it into Firebase custom claims
+   */
+  async updateRole(userId: string, role: UserRole): Promise<User> {
+    const user = await userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    if (user.isAnonymous && role !== 'player') {
+      throw new AppError('Anonymous users can only have the player role', 400, 'ANONYMOUS_NOT_ALLOWED');
+    }
+
+    const updatedUser = await userRepository.updateRole(userId, role);
+    await this.syncRoleClaims(updatedUser);
+
+    return updatedUser;
+  }
+
+  /**
+   * Promote a user to at least the given role (never demotes)
+   * Used when granting court memberships
+   */
+  async ensureRoleAtLeast(userId: string, role: UserRole): Promise<User> {
+    const user = await userRepository.findById(userId);
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    if (ROLE_RANK[user.role as UserRole] >= ROLE_RANK[role]) {
+      return user;
+    }
+
+    return this.updateRole(userId, role);
+  }
+
+  /**
+   * Mirror the user's role into Firebase custom claims so clients can gate UI
+   * The database stays the source of truth, so sync failures are only logged
+   */
+  private async syncRoleClaims(user: User): Promise<void> {
+    try {
+      await firebaseService.setCustomClaims(user.firebaseUid, { role: user.role });
+    } catch (error) {
+      console.error(`Failed to sync role claims for user ${user.id}:`, error);
+    }
+  }
+
   /**
    * Format time from Date to HH:mm string
    */
@@ -0,0 +1,404 @@
+import type { Prisma } from '@prisma/client';
+import { courtRepository, userRepository, voucherRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError, ConflictError, ForbiddenError } from '../utils/errors.js';
+import { isValidTimeFormat } from '../utils/date-time.js';
+import { DAY_TYPES, VOUCHER_DISCOUNT_TYPES } from '../types/index.js';
+import type {
+  AppliedVoucher,
+  CreateVoucherDto,
+  UpdateVoucherDto,
+  VoucherBookingLine,
+  VoucherQueryParams,
+  VoucherResponse,
+  VoucherDiscountType,
+  DayType,
+} from '../types/index.js';
+
+type VoucherRecord = NonNullable<Awaited<ReturnType<typeof voucherRepository.findById>>>;
+type VoucherLimits = Pick<VoucherRecord, 'id' | 'code' | 'usageLimit' | 'perUserLimit'>;
+
+// Codes are matched case-insensitively and stored uppercase
+const CODE_PATTERN = /^[A-Z0-9_-]{3,50}$/;
+
+export class VoucherService {
+  /**
+   * List vouchers with how many times each was used (platform admin)
+   */
+  async listVouchers(
+    params: VoucherQueryParams
+  ): Promise<{ vouchers: VoucherResponse[]; total: number; page: number; limit: number }> {
+    const page = Number.isInteger(params.page) && params.page! > 0 ? params.page! : 1;
+    const limit = Number.isInteger(params.limit) && params.limit! > 0 ? Math.min(params.limit!, 50) : 20;
+
+    const { vouchers, total } = await voucherRepository.findAll({ page, limit, active: params.active });
+    const usage = await voucherRepository.countUsesByIds(vouchers.map((voucher) => voucher.id));
+    return {
+      vouchers: vouchers.map((voucher) => this.formatVoucher(voucher, usage.get(voucher.id) ?? 0)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get a voucher with its usage count (platform admin)
+   */
+  async getVoucher(id: string): Promise<VoucherResponse> {
+    const voucher = await this.getExisting(id);
+    return this.formatVoucher(voucher, await voucherRepository.countUses(id));
+  }
+
+  /**
+   * Create a voucher (platform admin)
+   */
+  async createVoucher(data: CreateVoucherDto): Promise<VoucherResponse> {
+    const voucher = await this.normalize(data);
+    if (await voucherRepository.findByCode(voucher.code)) {
+      throw new ConflictError(`Voucher ${voucher.code} already exists`);
+    }
+
+    const created = await voucherRepository.create(voucher);
+    return this.formatVoucher(created, 0);
+  }
+
+  /**
+   * Update a voucher (platform admin)
+   * Bookings already made with it keep the discount they got
+   */
+  async updateVoucher(id: string, data: UpdateVoucherDto): Promise<VoucherResponse> {
+    const existing = await this.getExisting(id);
+    const changes = Object.fromEntries(Object.entries(data).filter(([, value]) => value !== undefined));
+    const voucher = await this.normalize({ ...this.toDto(existing), ...changes });
+
+    if (voucher.code !== existing.code && (await voucherRepository.findByCode(voucher.code))) {
+      throw new ConflictError(`Voucher ${voucher.code} already exists`);
+    }
+
+    const updated = await voucherRepository.update(id, voucher);
+    return this.formatVoucher(updated, await voucherRepository.countUses(id));
+  }
+
+  /**
+   * Delete a voucher that was never used (platform admin)
+   * Used vouchers are deactivated instead, so their bookings still show the code
+   */
+  async deleteVoucher(id: string): Promise<void> {
+    await this.getExisting(id);
+    if ((await voucherRepository.countUses(id)) > 0) {
+      throw new ConflictError('Voucher has been used; deactivate it instead');
+    }
+    await voucherRepository.delete(id);
+  }
+
+  /**
+   * Apply a voucher code to the bookings of one request
+   * Bookings outside the voucher's courts, day types or time window are not discounted;
+   * the discount is shared between the others in proportion to their price
+   */
+  async applyVoucher(code: string, bookings: VoucherBookingLine[], userId: string): Promise<AppliedVoucher> {
+    const voucher = await voucherRepository.findByCode(code.trim().toUpperCase());
+    if (!voucher) {
+      throw new NotFoundError('Voucher not found');
+    }
+
+    const now = new Date();
+    if (!voucher.isActive || (voucher.validUntil && voucher.validUntil <= now)) {
+      throw new BadRequestError(`Voucher ${voucher.code} is no longer valid`);
+    }
+    if (voucher.validFrom && voucher.validFrom > now) {
+      throw new BadRequestError(`Voucher ${voucher.code} is not valid yet`);
+    }
+
+    const eligible = bookings.map((booking) => this.isEligible(voucher, booking));
+    const eligibleTotal = bookings.reduce((sum, booking, i) => (eligible[i] ? sum + booking.price : sum), 0);
+    if (!eligible.some(Boolean)) {
+      throw new BadRequestError(`Voucher ${voucher.code} does not apply to the selected courts, days or times`);
+    }
+    if (voucher.minOrderAmount !== null && eligibleTotal < voucher.minOrderAmount) {
+      throw new BadRequestError(`Voucher ${voucher.code} requires a booking of at least ${voucher.minOrderAmount} VND`);
+    }
+
+    await this.checkUsage(voucher, userId);
+
+    return {
+      voucherId: voucher.id,
+      code: voucher.code,
+      discounts: this.allocateDiscount(
+        this.getDiscount(voucher, eligibleTotal),
+        bookings.map((booking, i) => (eligible[i] ? booking.price : 0))
+      ),
+    };
+  }
+
+  /**
+   * Take a use of an applied voucher, in the transaction that creates its bookings
+   * The limits are checked again with the voucher locked, so concurrent bookings cannot all pass them
+   */
+  async claimVoucher(voucherId: string, userId: string, tx: Prisma.TransactionClient): Promise<void> {
+    const voucher = await voucherRepository.lockForUse(voucherId, tx);
+    if (!voucher) {
+      throw new BadRequestError('Voucher is no longer valid');
+    }
+    await this.checkLimits(voucher, userId, tx);
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Get a voucher or throw
+   */
+  private async getExisting(id: string): Promise<VoucherRecord> {
+    const voucher = await voucherRepository.findById(id);
+    if (!voucher) {
+      throw new NotFoundError('Voucher not found');
+    }
+    return voucher;
+  }
+
+  /**
+   * Check the usage limits and first-booking restriction for a user
+   * Per-user restrictions need a registered account, as anonymous accounts are free to recreate
+   */
+  private async checkUsage(voucher: VoucherRecord, userId: string): Promise<void> {
+    if (voucher.perUserLimit !== null || voucher.firstBookingOnly) {
+      const user = await userRepository.findById(userId);
+      if (!user || user.isAnonymous) {
+        throw new ForbiddenError(`Sign in with an account to use voucher ${voucher.code}`);
+      }
+      if (voucher.firstBookingOnly && (await voucherRepository.hasPaidBooking(userId))) {
+        throw new BadRequestError(`Voucher ${voucher.code} is only for a first booking`);
+      }
+    }
+
+    await this.checkLimits(voucher, userId);
+  }
+
+  /**
+   * Check the total and per-user usage limits
+   */
+  private async checkLimits(voucher: VoucherLimits, userId: string, tx?: Prisma.TransactionClient): Promise<void> {
+    if (
+      voucher.usageLimit !== null &&
+      (await voucherRepository.countUses(voucher.id, undefined, tx)) >= voucher.usageLimit
+    ) {
+      throw new BadRequestError(`Voucher ${voucher.code} has been fully used`);
+    }
+    if (
+      voucher.perUserLimit !== null &&
+      (await voucherRepository.countUses(voucher.id, userId, tx)) >= voucher.perUserLimit
+    ) {
+      throw new BadRequestError(`You have already used voucher ${voucher.code}`);
+    }
+  }
+
+  /**
+   * Check whether a booking matches the voucher's court, day type and time window
+   */
+  private isEligible(voucher: VoucherRecord, booking: VoucherBookingLine): boolean {
+    if (voucher.courtIds.length > 0 && !voucher.courtIds.includes(booking.courtId)) {
+      return false;
+    }
+    if (voucher.dayTypes.length > 0 && !voucher.dayTypes.includes(booking.dayType)) {
+      return false;
+    }
+    if (voucher.startTime && voucher.endTime) {
+      return booking.startTime >= this.formatTime(voucher.startTime) && booking.endTime <= this.formatTime(voucher.endTime);
+    }
+    return true;
+  }
+
+  /**
+   * Discount on an eligible amount
+   */
+  private getDiscount(voucher: VoucherRecord, amount: number): number {
+    if (voucher.discountType === 'percent') {
+      const discount = Math.floor((amount * voucher.discountValue) / 100);
+      return voucher.maxDiscount !== null ? Math.min(discount, voucher.maxDiscount) : discount;
+    }
+    return Math.min(voucher.discountValue, amount);
+  }
+
+  /**
+   * Share a discount between bookings in proportion to their eligible price
+   * The last eligible booking takes the rounding remainder so the shares add up
+   */
+  private allocateDiscount(discount: number, prices: number[]): number[] {
+    const total = prices.reduce((sum, price) => sum + price, 0);
+    const lastEligible = prices.reduce((last, price, i) => (price > 0 ? i : last), -1);
+    let allocated = 0;
+    return prices.map((price, i) => {
+      if (price === 0 || total === 0) {
+        return 0;
+      }
+      const share = i === lastEligible ? discount - allocated : Math.floor((discount * price) / total);
+      allocated += share;
+      return share;
+    });
+  }
+
+  /**
+   * Validate a voucher and fill in defaults
+   */
+  private async normalize(data: CreateVoucherDto): Promise<Required<CreateVoucherDto>> {
+    if (typeof data.code !== 'string' || !CODE_PATTERN.test(data.code.trim().toUpperCase())) {
+      throw new BadRequestError('code must be 3-50 letters, digits, "-" or "_"');
+    }
+    if (!VOUCHER_DISCOUNT_TYPES.includes(data.discountType)) {
+      throw new BadRequestError(`discountType must be one of: ${VOUCHER_DISCOUNT_TYPES.join(', ')}`);
+    }
+    this.validateDiscount(data.discountType, data.discountValue, data.maxDiscount ?? null);
+    for (const field of ['minOrderAmount', 'usageLimit', 'perUserLimit'] as const) {
+      const value = data[field];
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value <= 0)) {
+        throw new BadRequestError(`${field} must be a positive integer`);
+      }
+    }
+
+    const validFrom = this.parseTimestamp('validFrom', data.validFrom);
+    const validUntil = this.parseTimestamp('validUntil', data.validUntil);
+    if (validFrom && validUntil && validFrom >= validUntil) {
+      throw new BadRequestError('validFrom must be before validUntil');
+    }
+
+    const startTime = data.startTime ?? null;
+    const endTime = data.endTime ?? null;
+    if ((startTime === null) !== (endTime === null)) {
+      throw new BadRequestError('startTime and endTime must be set together');
+    }
+    if (startTime !== null && endTime !== null) {
+      if (!isValidTimeFormat(startTime) || !isValidTimeFormat(endTime)) {
+        throw new BadRequestError(`Invalid time window ${startTime}-${endTime}. Use HH:mm`);
+      }
+      if (startTime >= endTime) {
+        throw new BadRequestError(`Start time must be before end time for ${startTime}-${endTime}`);
+      }
+    }
+
+    const dayTypes = [...new Set(data.dayTypes ?? [])];
+    if (dayTypes.some((dayType) => !DAY_TYPES.includes(dayType))) {
+      throw new BadRequestError(`dayTypes must only contain: ${DAY_TYPES.join(', ')}`);
+    }
+
+    const courtIds = [...new Set(data.courtIds ?? [])];
+    for (const courtId of courtIds) {
+      if (!(await courtRepository.findById(courtId))) {
+        throw new NotFoundError(`Court ${courtId} not found`);
+      }
+    }
+
+    return {
+      code: data.code.trim().toUpperCase(),
+      description: data.description?.trim() || null,
+      discountType: data.discountType,
+      discountValue: data.discountValue,
+      maxDiscount: data.maxDiscount ?? null,
+      minOrderAmount: data.minOrderAmount ?? null,
+      validFrom: validFrom?.toISOString() ?? null,
+      validUntil: validUntil?.toISOString() ?? null,
+      usageLimit: data.usageLimit ?? null,
+      perUserLimit: data.perUserLimit ?? null,
+      courtIds,
+      dayTypes,
+      startTime,
+      endTime,
+      firstBookingOnly: data.firstBookingOnly ?? false,
+      isActive: data.isActive ?? true,
+    };
+  }
+
+  /**
+   * Validate the discount amount: 1-100 percent, or a positive VND amount
+   */
+  private validateDiscount(type: VoucherDiscountType, value: number, maxDiscount: number | null): void {
+    if (!Number.isInteger(value) || value <= 0) {
+      throw new BadRequestError('discountValue must be a positive integer');
+    }
+    if (type === 'percent' && value > 100) {
+      throw new BadRequestError('A percent discount cannot exceed 100');
+    }
+    if (maxDiscount !== null) {
+      if (type !== 'percent') {
+        throw new BadRequestError('maxDiscount only applies to percent discounts');
+      }
+      if (!Number.isInteger(maxDiscount) || maxDiscount <= 0) {
+        throw new BadRequestError('maxDiscount must be a positive integer');
+      }
+    }
+  }
+
+  /**
+   * Parse an optional ISO 8601 timestamp
+   */
+  private parseTimestamp(field: string, value: string | null | undefined): Date | null {
+    if (value === undefined || value === null) {
+      return null;
+    }
+    const date = new Date(value);
+    if (typeof value !== 'string' || isNaN(date.getTime())) {
+      throw new BadRequestError(`${field} must be an ISO 8601 timestamp`);
+    }
+    return date;
+  }
+
+  /**
+   * Format a TIME column as "HH:mm"
+   */
+  private formatTime(time: Date): string {
+    return time.toISOString().slice(11, 16);
+  }
+
+  /**
+   * Voucher as a DTO, to merge partial updates into
+   */
+  private toDto(voucher: VoucherRecord): Required<CreateVoucherDto> {
+    const response = this.formatVoucher(voucher, 0);
+    return {
+      code: response.code,
+      description: response.description,
+      discountType: response.discountType,
+      discountValue: response.discountValue,
+      maxDiscount: response.maxDiscount,
+      minOrderAmount: response.minOrderAmount,
+      validFrom: response.validFrom,
+      validUntil: response.validUntil,
+      usageLimit: response.usageLimit,
+      perUserLimit: response.perUserLimit,
+      courtIds: response.courtIds,
+      dayTypes: response.dayTypes,
+      startTime: response.startTime,
+      endTime: response.endTime,
+      firstBookingOnly: response.firstBookingOnly,
+      isActive: response.isActive,
+    };
+  }
+
+  /**
+   * Format voucher response
+   */
+  private formatVoucher(voucher: VoucherRecord, usageCount: number): VoucherResponse {
+    return {
+      id: voucher.id,
+      code: voucher.code,
+      description: voucher.description,
+      discountType: voucher.discountType as VoucherDiscountType,
+      discountValue: voucher.discountValue,
+      maxDiscount: voucher.maxDiscount,
+      minOrderAmount: voucher.minOrderAmount,
+      validFrom: voucher.validFrom?.toISOString() ?? null,
+      validUntil: voucher.validUntil?.toISOString() ?? null,
+      usageLimit: voucher.usageLimit,
+      perUserLimit: voucher.perUserLimit,
+      usageCount,
+      courtIds: voucher.courtIds,
+      dayTypes: voucher.dayTypes as DayType[],
+      startTime: voucher.startTime ? this.formatTime(voucher.startTime) : null,
+      endTime: voucher.endTime ? this.formatTime(voucher.endTime) : null,
+      firstBookingOnly: voucher.firstBookingOnly,
+      isActive: voucher.isActive,
+      createdAt: voucher.createdAt.toISOString(),
+      updatedAt: voucher.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const voucherService = new VoucherService();
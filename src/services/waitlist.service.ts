@@ -0,0 +1,374 @@
+import { config } from '../config/index.js';
+import {
+  availabilityRepository,
+  bookingSeriesRepository,
+  courtRepository,
+  waitlistRepository,
+} from '../repositories/index.js';
+import { availabilityService } from './availability.service.js';
+import { redisService } from './redis.service.js';
+import { websocketService } from './websocket.service.js';
+import { pushService } from './push.service.js';
+import { NotFoundError, BadRequestError, ConflictError, ForbiddenError } from '../utils/errors.js';
+import { isValidDateFormat, isValidTimeFormat, toMinutes, todayInVietnam } from '../utils/date-time.js';
+import type {
+  JoinWaitlistDto,
+  WaitlistEntryResponse,
+  WaitlistStatus,
+  ClaimWaitlistOfferResponse,
+  ReleasedSlot,
+  RawWaitlistEntry,
+  UserProfileDto,
+} from '../types/index.js';
+
+export class WaitlistService {
+  /**
+   * Join the waitlist for a slot that is currently unavailable
+   */
+  async joinWaitlist(data: JoinWaitlistDto): Promise<WaitlistEntryResponse> {
+    if (!data.userId) {
+      throw new BadRequestError('User context is required to join a waitlist');
+    }
+    if (!data.guestName || !data.guestPhone) {
+      throw new BadRequestError('guestName and guestPhone are required');
+    }
+    this.validateSlot(data.date, data.startTime, data.endTime);
+
+    let courtId: string;
+    let subCourtIds: string[];
+    if (data.subCourtId) {
+      const subCourt = await availabilityRepository.getSubCourtWithCourt(data.subCourtId);
+      if (!subCourt || (data.courtId && subCourt.court_id !== data.courtId)) {
+        throw new NotFoundError('Sub-court not found');
+      }
+      if (!subCourt.is_active) {
+        throw new BadRequestError(`Sub-court ${subCourt.name} is not active`);
+      }
+      courtId = subCourt.court_id;
+      subCourtIds = [subCourt.id];
+    } else if (data.courtId) {
+      const court = await courtRepository.findById(data.courtId);
+      if (!court) {
+        throw new NotFoundError('Court not found');
+      }
+      courtId = court.id;
+      subCourtIds = (await availabilityRepository.getSubCourtsByCourtId(court.id)).map((sc) => sc.id);
+    } else {
+      throw new BadRequestError('Provide subCourtId or courtId');
+    }
+
+    // Only full slots can be queued for; free ones should be booked directly
+    for (const subCourtId of subCourtIds) {
+      if (await this.isSlotFree(subCourtId, data.date, data.startTime, data.endTime)) {
+        throw new BadRequestError('The slot is available; book it directly');
+      }
+    }
+
+    const entryData = {
+      courtId,
+      subCourtId: data.subCourtId ?? null,
+      userId: data.userId,
+      date: data.date,
+      startTime: data.startTime,
+      endTime: data.endTime,
+    };
+    if (await waitlistRepository.hasActiveEntry(entryData)) {
+      throw new ConflictError('You are already on the waitlist for this slot');
+    }
+
+    const id = await waitlistRepository.create({
+      ...entryData,
+      guestName: data.guestName,
+      guestPhone: data.guestPhone,
+    });
+    return this.getEntryResponse(id);
+  }
+
+  /**
+   * Get the caller's waitlist entries
+   */
+  async getMyEntries(userId: string): Promise<WaitlistEntryResponse[]> {
+    const entries = await waitlistRepository.findByUserId(userId);
+    return Promise.all(entries.map((entry) => this.formatEntry(entry)));
+  }
+
+  /**
+   * Get one of the caller's entries
+   */
+  async getEntry(id: string, user: UserProfileDto): Promise<WaitlistEntryResponse> {
+    const entry = await this.getOwnEntry(id, user);
+    return this.formatEntry(entry);
+  }
+
+  /**
+   * Leave the waitlist; a slot held for the entry is passed on to the next person
+   */
+  async leaveWaitlist(id: string, user: UserProfileDto): Promise<WaitlistEntryResponse> {
+    const entry = await this.getOwnEntry(id, user);
+    if (entry.status !== 'waiting' && entry.status !== 'offered') {
+      throw new BadRequestError(`Cannot leave a waitlist entry with status: ${entry.status}`);
+    }
+
+    const updated = await waitlistRepository.updateStatus(id, [entry.status], { status: 'cancelled' });
+    if (!updated) {
+      throw new ConflictError('Waitlist entry changed, please retry');
+    }
+
+    if (entry.status === 'offered') {
+      await this.releaseOffer(entry);
+    }
+    return this.getEntryResponse(id);
+  }
+
+  /**
+   * Claim a held slot: book it for the user, who then pays as for any booking
+   */
+  async claimOffer(id: string, user: UserProfileDto): Promise<ClaimWaitlistOfferResponse> {
+    const entry = await this.getOwnEntry(id, user);
+    if (entry.status !== 'offered' || !entry.offered_sub_court_id) {
+      throw new BadRequestError(`Cannot claim a waitlist entry with status: ${entry.status}`);
+    }
+    if (!entry.offer_expires_at || entry.offer_expires_at.getTime() <= Date.now()) {
+      throw new BadRequestError('The offer has expired');
+    }
+
+    const [booking] = await availabilityService.createBooking({
+      subCourtId: entry.offered_sub_court_id,
+      date: this.formatDate(entry.date),
+      startTime: entry.start_time,
+      endTime: entry.end_time,
+      guestName: entry.guest_name,
+      guestPhone: entry.guest_phone,
+      userId: entry.user_id,
+    });
+
+    await waitlistRepository.updateStatus(id, ['offered'], { status: 'claimed', bookingId: booking!.id });
+
+    // Release the hold so the payment can lock the slot for the new booking
+    await redisService.releaseSlotLocks([this.toSlotLock(entry)]);
+
+    return { entry: await this.getEntryResponse(id), booking: booking! };
+  }
+
+  /**
+   * Offer released slots to the waitlist
+   * Called when bookings are cancelled, fail or expire; never throws
+   */
+  async releaseSlots(slots: ReleasedSlot[]): Promise<void> {
+    for (const slot of slots) {
+      try {
+        await this.offerSlot(slot);
+      } catch (error) {
+        console.error(`Error offering slot ${slot.subCourtId} ${slot.date} ${slot.startTime}-${slot.endTime}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Expire offers that were not claimed in time and pass their slots on
+   */
+  async expireOffers(now: Date = new Date()): Promise<number> {
+    const entries = await waitlistRepository.findExpiredOffers(now);
+    let expired = 0;
+
+    for (const entry of entries) {
+      const updated = await waitlistRepository.updateStatus(entry.id, ['offered'], { status: 'expired' });
+      if (updated) {
+        expired++;
+        await this.releaseOffer(entry);
+      }
+    }
+
+    return expired;
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Hold a released slot for the first waiting entry it can serve
+   * Later entries are tried too: they may want a part of the slot the first one does not
+   */
+  private async offerSlot(slot: ReleasedSlot): Promise<void> {
+    const subCourt = await availabilityRepository.getSubCourtWithCourt(slot.subCourtId);
+    if (!subCourt || !subCourt.is_active) {
+      return;
+    }
+
+    const candidates = await waitlistRepository.findWaitingForSlot(
+      subCourt.court_id,
+      slot.subCourtId,
+      slot.date,
+      slot.startTime,
+      slot.endTime
+    );
+
+    for (const entry of candidates) {
+      if (!(await this.isSlotFree(slot.subCourtId, slot.date, entry.start_time, entry.end_time))) {
+        continue;
+      }
+
+      const lock = { ...this.toSlotLock(entry), subCourtId: slot.subCourtId };
+      if (!(await redisService.acquireSlotLocks([lock]))) {
+        continue;
+      }
+
+      const expiresAt = new Date(Date.now() + config.payment.slotLockTtlSeconds * 1000);
+      if (!(await waitlistRepository.markOffered(entry.id, slot.subCourtId, expiresAt))) {
+        await redisService.releaseSlotLocks([lock]);
+        continue;
+      }
+      websocketService.notifySlotUpdates('slot_locked', false, [{ ...lock, courtId: entry.court_id }]);
+
+      websocketService.notifyWaitlistOffer({
+        type: 'waitlist_offer',
+        waitlistEntryId: entry.id,
+        courtId: entry.court_id,
+        subCourtId: slot.subCourtId,
+        date: slot.date,
+        startTime: entry.start_time,
+        endTime: entry.end_time,
+        expiresAt: expiresAt.toISOString(),
+        message: `${subCourt.name} is free on ${slot.date} ${entry.start_time}-${entry.end_time}. Claim it before it goes to the next person.`,
+      });
+      pushService.notify(entry.user_id, 'waitlist_offer', {
+        courtName: subCourt.court_name,
+        date: slot.date,
+        startTime: entry.start_time,
+        endTime: entry.end_time,
+        waitlistEntryId: entry.id,
+      });
+    }
+  }
+
+  /**
+   * Release the hold of an offer that ended and pass the slot on
+   */
+  private async releaseOffer(entry: RawWaitlistEntry): Promise<void> {
+    if (!entry.offered_sub_court_id) {
+      return;
+    }
+    const slot = {
+      subCourtId: entry.offered_sub_court_id,
+      date: this.formatDate(entry.date),
+      startTime: entry.start_time,
+      endTime: entry.end_time,
+    };
+
+    await redisService.releaseSlotLocks([this.toSlotLock(entry)]);
+    websocketService.notifySlotUpdates('slot_released', true, [{ ...slot, courtId: entry.court_id }]);
+    await this.releaseSlots([slot]);
+  }
+
+  /**
+   * A slot is free when no confirmed booking, closure or waitlist offer overlaps it
+   */
+  private async isSlotFree(subCourtId: string, date: string, startTime: string, endTime: string): Promise<boolean> {
+    const blocks = await bookingSeriesRepository.findSlotBlocks(subCourtId, date, date);
+    const blocked = blocks.some(
+      (block) =>
+        block.start_time === null ||
+        block.end_time === null ||
+        (startTime < block.end_time && endTime > block.start_time)
+    );
+    if (blocked) {
+      return false;
+    }
+    return !(await waitlistRepository.hasActiveOffer(subCourtId, date, startTime, endTime));
+  }
+
+  /**
+   * Redis slot lock held for an offered entry (the entry ID is the lock holder)
+   */
+  private toSlotLock(entry: RawWaitlistEntry) {
+    return {
+      subCourtId: entry.offered_sub_court_id ?? entry.sub_court_id ?? '',
+      date: this.formatDate(entry.date),
+      startTime: entry.start_time,
+      endTime: entry.end_time,
+      bookingId: entry.id,
+    };
+  }
+
+  /**
+   * Get an entry that belongs to the user
+   */
+  private async getOwnEntry(id: string, user: UserProfileDto): Promise<RawWaitlistEntry> {
+    const entry = await waitlistRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundError('Waitlist entry not found');
+    }
+    if (entry.user_id !== user.id && user.role !== 'platform_admin') {
+      throw new ForbiddenError('You do not have access to this waitlist entry');
+    }
+    return entry;
+  }
+
+  /**
+   * Load and format an entry that must exist (after a write)
+   */
+  private async getEntryResponse(id: string): Promise<WaitlistEntryResponse> {
+    const entry = await waitlistRepository.findById(id);
+    if (!entry) {
+      throw new NotFoundError('Waitlist entry not found');
+    }
+    return this.formatEntry(entry);
+  }
+
+  /**
+   * Validate a requested slot (future date, HH:mm times on the 30-minute grid, at least 1 hour)
+   */
+  private validateSlot(date: unknown, startTime: unknown, endTime: unknown): void {
+    if (!isValidDateFormat(date)) {
+      throw new BadRequestError('Invalid date format. Use YYYY-MM-DD');
+    }
+    if (date < todayInVietnam()) {
+      throw new BadRequestError('Cannot join a waitlist for a past date');
+    }
+    if (!isValidTimeFormat(startTime) || !isValidTimeFormat(endTime)) {
+      throw new BadRequestError('Invalid time format. Use HH:mm');
+    }
+    if (startTime >= endTime) {
+      throw new BadRequestError('Start time must be before end time');
+    }
+    const duration = toMinutes(endTime) - toMinutes(startTime);
+    if (duration < 60) {
+      throw new BadRequestError('Minimum booking duration is 1 hour');
+    }
+    if (duration % 30 !== 0) {
+      throw new BadRequestError('Booking duration must be in 30-minute increments');
+    }
+  }
+
+  /**
+   * Format a date column as YYYY-MM-DD
+   */
+  private formatDate(date: Date): string {
+    return date.toISOString().split('T')[0] ?? '';
+  }
+
+  /**
+   * Format waitlist entry response
+   */
+  private async formatEntry(entry: RawWaitlistEntry): Promise<WaitlistEntryResponse> {
+    const position = entry.status === 'waiting' ? await waitlistRepository.getPosition(entry) : null;
+    return {
+      id: entry.id,
+      courtId: entry.court_id,
+      courtName: entry.court_name,
+      subCourtId: entry.sub_court_id,
+      subCourtName: entry.sub_court_name,
+      date: this.formatDate(entry.date),
+      startTime: entry.start_time,
+      endTime: entry.end_time,
+      status: entry.status as WaitlistStatus,
+      position,
+      offeredSubCourtId: entry.offered_sub_court_id,
+      offeredSubCourtName: entry.offered_sub_court_name,
+      offerExpiresAt: entry.offer_expires_at?.toISOString() ?? null,
+      bookingId: entry.booking_id,
+      createdAt: entry.created_at.toISOString(),
+    };
+  }
+}
+
+export const waitlistService = new WaitlistService();
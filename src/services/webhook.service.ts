@@ -0,0 +1,375 @@
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { availabilityRepository, webhookRepository } from '../repositories/index.js';
+import { NotFoundError, BadRequestError } from '../utils/errors.js';
+import { ensureCourtExists } from '../utils/court.js';
+import { isPublicHost } from '../utils/public-host.js';
+import { WEBHOOK_EVENTS } from '../types/index.js';
+import type {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookResponse,
+  WebhookDeliveryQueryParams,
+  WebhookDeliveryResponse,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+  WebhookPayload,
+} from '../types/index.js';
+
+type SubscriptionRecord = NonNullable<Awaited<ReturnType<typeof webhookRepository.findById>>>;
+type DeliveryRecord = NonNullable<Awaited<ReturnType<typeof webhookRepository.findDeliveryById>>>;
+
+const MAX_WEBHOOKS_PER_COURT = 10;
+const MIN_SECRET_LENGTH = 16;
+const MAX_SECRET_LENGTH = 255;
+const MAX_URL_LENGTH = 2048;
+
+// Attempt n waits RETRY_BASE_SECONDS * 2^(n-1) before the next one: 1, 2, 4 ... 64 minutes
+const MAX_ATTEMPTS = 8;
+const RETRY_BASE_SECONDS = 60;
+const REQUEST_TIMEOUT_MS = 10_000;
+const RETRY_LEASE_SECONDS = 60; // Longer than an attempt can take
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+const DELIVERY_STATUSES: readonly WebhookDeliveryStatus[] = ['pending', 'success', 'failed'];
+
+export class WebhookService {
+  // ==================== Subscriptions ====================
+
+  /**
+   * List the webhooks of a court
+   */
+  async getWebhooks(courtId: string): Promise<WebhookResponse[]> {
+    await ensureCourtExists(courtId);
+    const webhooks = await webhookRepository.findByCourtId(courtId);
+    return webhooks.map((webhook) => this.formatWebhook(webhook));
+  }
+
+  /**
+   * Register a webhook for a court
+   */
+  async createWebhook(courtId: string, data: CreateWebhookDto): Promise<WebhookResponse> {
+    await ensureCourtExists(courtId);
+
+    const url = await this.validateUrl(data.url);
+    const secret = this.validateSecret(data.secret);
+    const events = this.validateEvents(data.events);
+
+    if ((await webhookRepository.countByCourtId(courtId)) >= MAX_WEBHOOKS_PER_COURT) {
+      throw new BadRequestError(`A court can have at most ${MAX_WEBHOOKS_PER_COURT} webhooks`);
+    }
+
+    const webhook = await webhookRepository.create({
+      courtId,
+      url,
+      secret,
+      events,
+      isActive: data.isActive ?? true,
+    });
+    return this.formatWebhook(webhook);
+  }
+
+  /**
+   * Update a webhook; fields left out keep their current value
+   */
+  async updateWebhook(courtId: string, webhookId: string, data: UpdateWebhookDto): Promise<WebhookResponse> {
+    await this.getCourtWebhook(courtId, webhookId);
+
+    const webhook = await webhookRepository.update(webhookId, {
+      ...(data.url !== undefined && { url: await this.validateUrl(data.url) }),
+      ...(data.secret !== undefined && { secret: this.validateSecret(data.secret) }),
+      ...(data.events !== undefined && { events: this.validateEvents(data.events) }),
+      ...(data.isActive !== undefined && { isActive: data.isActive }),
+    });
+    return this.formatWebhook(webhook);
+  }
+
+  /**
+   * Delete a webhook and its delivery log
+   */
+  async deleteWebhook(courtId: string, webhookId: string): Promise<void> {
+    await this.getCourtWebhook(courtId, webhookId);
+    await webhookRepository.delete(webhookId);
+  }
+
+  // ==================== Deliveries ====================
+
+  /**
+   * List the deliveries of a webhook, newest first
+   */
+  async getDeliveries(
+    courtId: string,
+    webhookId: string,
+    params: WebhookDeliveryQueryParams
+  ): Promise<WebhookDeliveryResponse[]> {
+    await this.getCourtWebhook(courtId, webhookId);
+
+    if (params.status !== undefined && !DELIVERY_STATUSES.includes(params.status as WebhookDeliveryStatus)) {
+      throw new BadRequestError(`status must be one of: ${DELIVERY_STATUSES.join(', ')}`);
+    }
+    const limit = params.limit === undefined ? DEFAULT_DELIVERY_LIMIT : Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DELIVERY_LIMIT) {
+      throw new BadRequestError(`limit must be an integer between 1 and ${MAX_DELIVERY_LIMIT}`);
+    }
+
+    const deliveries = await webhookRepository.findDeliveries(webhookId, {
+      ...(params.status !== undefined && { status: params.status as WebhookDeliveryStatus }),
+      limit,
+    });
+    return deliveries.map((delivery) => this.formatDelivery(delivery));
+  }
+
+  /**
+   * Send a delivery again now, as a new delivery with the same payload
+   * The webhook's current URL and secret are used, even when it is disabled
+   */
+  async redeliver(courtId: string, webhookId: string, deliveryId: string): Promise<WebhookDeliveryResponse> {
+    await this.getCourtWebhook(courtId, webhookId);
+
+    const delivery = await webhookRepository.findDeliveryById(deliveryId);
+    if (!delivery || delivery.subscriptionId !== webhookId) {
+      throw new NotFoundError('Webhook delivery not found');
+    }
+
+    const [copy] = await webhookRepository.createDeliveries([webhookId], {
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload as object,
+    });
+    return this.formatDelivery(await this.deliver(copy!));
+  }
+
+  /**
+   * Tell the court's webhooks about a booking event
+   * Returns at once; deliveries are sent in the background and retried by the scheduler
+   */
+  emit(
+    event: WebhookEvent,
+    bookingId: string,
+    data: Omit<WebhookPayload['data'], 'booking'> = {}
+  ): void {
+    this.enqueue(event, bookingId, data).catch((error) => {
+      console.error(`Error sending ${event} webhooks for booking ${bookingId}:`, error);
+    });
+  }
+
+  /**
+   * Send deliveries that are due for another attempt
+   * Returns the number of deliveries that succeeded
+   */
+  async retryDueDeliveries(): Promise<number> {
+    const deliveries = await webhookRepository.claimDue(RETRY_LEASE_SECONDS);
+
+    let delivered = 0;
+    for (const delivery of deliveries) {
+      const result = await this.deliver(delivery);
+      if (result.status === 'success') {
+        delivered++;
+      }
+    }
+    return delivered;
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Record a delivery of the event for each subscribed webhook and send them
+   */
+  private async enqueue(
+    event: WebhookEvent,
+    bookingId: string,
+    data: Omit<WebhookPayload['data'], 'booking'>
+  ): Promise<void> {
+    const booking = await availabilityRepository.getBookingById(bookingId);
+    if (!booking) {
+      return;
+    }
+
+    const webhooks = await webhookRepository.findActiveByEvent(booking.court_id, event);
+    if (webhooks.length === 0) {
+      return;
+    }
+
+    const payload: WebhookPayload = {
+      id: crypto.randomUUID(),
+      event,
+      createdAt: new Date().toISOString(),
+      courtId: booking.court_id,
+      data: {
+        booking: {
+          id: booking.id,
+          groupId: booking.group_id,
+          subCourtId: booking.sub_court_id,
+          subCourtName: booking.sub_court_name,
+          date: booking.date.toISOString().split('T')[0] ?? '',
+          startTime: booking.start_time,
+          endTime: booking.end_time,
+          status: booking.status,
+          totalPrice: booking.total_price,
+          guestName: booking.guest_name,
+          guestPhone: booking.guest_phone,
+          notes: booking.notes,
+        },
+        ...data,
+      },
+    };
+
+    const deliveries = await webhookRepository.createDeliveries(
+      webhooks.map((webhook) => webhook.id),
+      { eventId: payload.id, event, payload: payload as object }
+    );
+    await Promise.all(deliveries.map((delivery) => this.deliver(delivery)));
+  }
+
+  /**
+   * POST a delivery to its webhook and record the attempt
+   * Failed attempts are retried with exponential backoff until MAX_ATTEMPTS
+   * Only the response status is kept: the body is never stored or shown to the venue
+   */
+  private async deliver(delivery: DeliveryRecord) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      // The host is resolved again: its DNS may have changed since the webhook was registered
+      if (!(await isPublicHost(new URL(delivery.subscription.url).hostname))) {
+        throw new Error('Webhook host does not resolve to a public address');
+      }
+
+      const response = await fetch(delivery.subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': delivery.id,
+          'X-Webhook-Event': delivery.event,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': `sha256=${this.sign(delivery.subscription.secret, timestamp, body)}`,
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      await response.body?.cancel();
+    } catch (err) {
+      error = err instanceof Error ? err.message : 'Webhook request failed';
+    }
+
+    const attempts = delivery.attempts + 1;
+    const succeeded = responseStatus !== null && responseStatus >= 200 && responseStatus < 300;
+    const gaveUp = !succeeded && attempts >= MAX_ATTEMPTS;
+
+    return webhookRepository.recordAttempt(delivery.id, {
+      status: succeeded ? 'success' : gaveUp ? 'failed' : 'pending',
+      attempts,
+      nextAttemptAt:
+        succeeded || gaveUp ? null : new Date(Date.now() + RETRY_BASE_SECONDS * 2 ** (attempts - 1) * 1000),
+      responseStatus,
+      error,
+      deliveredAt: succeeded ? new Date() : null,
+    });
+  }
+
+  /**
+   * HMAC-SHA256 of "{timestamp}.{body}" with the webhook secret, hex encoded
+   * Signing the timestamp lets receivers reject replayed requests
+   */
+  private sign(secret: string, timestamp: number, body: string): string {
+    return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  }
+
+  /**
+   * Get a webhook, ensuring it belongs to the court
+   */
+  private async getCourtWebhook(courtId: string, webhookId: string): Promise<SubscriptionRecord> {
+    const webhook = await webhookRepository.findById(webhookId);
+    if (!webhook || webhook.courtId !== courtId) {
+      throw new NotFoundError('Webhook not found');
+    }
+    return webhook;
+  }
+
+  /**
+   * Validate the endpoint URL (https only, plain http is allowed outside production)
+   * The host must resolve to public addresses only, never to loopback, private or metadata ones
+   */
+  private async validateUrl(url: unknown): Promise<string> {
+    if (typeof url !== 'string' || url.length > MAX_URL_LENGTH || !URL.canParse(url)) {
+      throw new BadRequestError('url must be a valid URL');
+    }
+    const { protocol, hostname } = new URL(url);
+    const allowed = config.nodeEnv === 'production' ? ['https:'] : ['https:', 'http:'];
+    if (!allowed.includes(protocol)) {
+      throw new BadRequestError('url must use https');
+    }
+    if (!(await isPublicHost(hostname))) {
+      throw new BadRequestError('url must point to a public host');
+    }
+    return url;
+  }
+
+  /**
+   * Validate the signing secret
+   */
+  private validateSecret(secret: unknown): string {
+    if (typeof secret !== 'string' || secret.length < MIN_SECRET_LENGTH || secret.length > MAX_SECRET_LENGTH) {
+      throw new BadRequestError(`secret must be a string of ${MIN_SECRET_LENGTH} to ${MAX_SECRET_LENGTH} characters`);
+    }
+    return secret;
+  }
+
+  /**
+   * Validate the subscribed events
+   */
+  private validateEvents(events: unknown): WebhookEvent[] {
+    if (
+      !Array.isArray(events) ||
+      events.length === 0 ||
+      !events.every((event) => WEBHOOK_EVENTS.includes(event as WebhookEvent))
+    ) {
+      throw new BadRequestError(`events must be a non-empty array of: ${WEBHOOK_EVENTS.join(', ')}`);
+    }
+    return [...new Set(events as WebhookEvent[])];
+  }
+
+  /**
+   * Format webhook response
+   */
+  private formatWebhook(webhook: SubscriptionRecord): WebhookResponse {
+    return {
+      id: webhook.id,
+      courtId: webhook.courtId,
+      url: webhook.url,
+      events: webhook.events as WebhookEvent[],
+      isActive: webhook.isActive,
+      createdAt: webhook.createdAt.toISOString(),
+      updatedAt: webhook.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * Format delivery response
+   */
+  private formatDelivery(delivery: Omit<DeliveryRecord, 'subscription'>): WebhookDeliveryResponse {
+    return {
+      id: delivery.id,
+      webhookId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      event: delivery.event as WebhookEvent,
+      status: delivery.status as WebhookDeliveryStatus,
+      attempts: delivery.attempts,
+      nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+      responseStatus: delivery.responseStatus,
+      error: delivery.error,
+      deliveredAt: delivery.deliveredAt?.toISOString() ?? null,
+      payload: delivery.payload as unknown as WebhookPayload,
+      createdAt: delivery.createdAt.toISOString(),
+      updatedAt: delivery.updatedAt.toISOString(),
+    };
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -1,5 +1,22 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import type { Server } from 'http';
+import type { Server, IncomingMessage } from 'http';
+import type { Duplex } from 'stream';
+import { randomUUID } from 'crypto';
+import { redisService } from './redis.service.js';
+import { firebaseService } from './firebase.service.js';
+import { userService } from './user.service.js';
+import { notificationService } from './notification.service.js';
+import {
+  availabilityRepository,
+  courtMemberRepository,
+  paymentRepository,
+  splitPaymentRepository,
+  waitlistRepository,
+} from '../repositories/index.js';
+import { isUUID } from '../middlewares/validate.middleware.js';
+import { AppError } from '../utils/errors.js';
+import { mapUserToDto } from '../types/index.js';
+import type { UserProfileDto } from '../types/index.js';
 
 interface PaymentSubscription {
   paymentId: string;
@@ -14,29 +31,199 @@ export interface PaymentNotification {
   bookingId: string;
   zpTransId?: string;
   message: string;
+  seq?: number;       // Position in the booker's notification outbox; absent for guest bookings
 }
 
+// Refund updates are pushed to subscribers of the refunded payment
+export interface RefundNotification {
+  type: 'refund_status';
+  paymentId: string;
+  refundId: string;
+  bookingId: string;
+  status: 'pending' | 'processing' | 'success' | 'failed';
+  amount: number;
+  message: string;
+}
+
+// Waitlist offers are pushed to subscribers of the waitlist entry
+export interface WaitlistOfferNotification {
+  type: 'waitlist_offer';
+  waitlistEntryId: string;
+  courtId: string;
+  subCourtId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  expiresAt: string;
+  message: string;
+}
+
+// Split payment progress is pushed to subscribers of the split payment
+export interface SplitPaymentNotification {
+  type: 'split_payment_status';
+  splitPaymentId: string;
+  bookingId: string;
+  status: 'open' | 'completed' | 'cancelled';
+  paidShares: number;
+  shareCount: number;
+  paidAmount: number;
+  totalAmount: number;
+  message: string;
+}
+
+// What changed a slot on a court's availability grid
+export type SlotUpdateEvent =
+  | 'booking_created'
+  | 'booking_cancelled'
+  | 'booking_failed'
+  | 'booking_moved'
+  | 'slot_locked'
+  | 'slot_released'
+  | 'closure_added'
+  | 'closure_removed';
+
+export interface SlotUpdate {
+  courtId: string;
+  subCourtId: string;
+  date: string;                 // "YYYY-MM-DD"
+  startTime: string | null;     // "HH:mm", null with endTime for a whole-day closure
+  endTime: string | null;
+}
+
+// Slot changes are pushed to subscribers of the court:{courtId}:{date} channel
+export interface SlotUpdateNotification extends SlotUpdate {
+  type: 'slot_update';
+  channel: string;
+  event: SlotUpdateEvent;
+  isAvailable: boolean;
+}
+
+// Paths the server accepts connections on; /ws/payments is kept for existing clients
+const WS_PATHS = ['/ws', '/ws/payments'];
+
+// court:{courtId}:{date}
+const COURT_CHANNEL_PATTERN =
+  /^court:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}):(\d{4}-\d{2}-\d{2})$/i;
+
+// Court channels a single connection may follow at once
+const MAX_CHANNELS_PER_CONNECTION = 50;
+
+// Redis channel every instance publishes its notifications on
+const NOTIFICATION_CHANNEL = 'ws:notifications';
+
+// Connections that miss a ping for this long are terminated
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+type WebSocketNotification =
+  | PaymentNotification
+  | RefundNotification
+  | WaitlistOfferNotification
+  | SplitPaymentNotification
+  | SlotUpdateNotification;
+
+// Notification as published to the other instances
+interface FanOutMessage {
+  origin: string;     // Instance that published it, which already delivered it
+  notification: WebSocketNotification;
+}
+
+// Connections must authenticate this soon after connecting
+const AUTH_TIMEOUT_MS = 10 * 1000;
+
+// Close code of connections that failed or skipped authentication
+const AUTH_FAILED_CLOSE_CODE = 4401;
+
+export type WebSocketErrorCode =
+  | 'INVALID_MESSAGE'
+  | 'UNKNOWN_ACTION'
+  | 'UNAUTHENTICATED'
+  | 'AUTHENTICATION_FAILED'
+  | 'TOKEN_EXPIRED'
+  | 'SUBSCRIPTION_DENIED'
+  | 'INVALID_CHANNEL'
+  | 'TOO_MANY_CHANNELS';
+
+// Sent when a message is refused; `error` is a readable message
+export interface WebSocketErrorFrame {
+  type: 'error';
+  code: WebSocketErrorCode;
+  error: string;
+  action?: string;    // Action that was refused
+}
+
+interface SubscriptionOwner {
+  userId: string | null;
+  courtId: string;
+}
+
+type ClientMessage = {
+  action: string;
+  token?: string;
+  since?: number;
+  channel?: string;
+  paymentId?: string;
+  waitlistEntryId?: string;
+  splitPaymentId?: string;
+};
+
 class WebSocketService {
   private wss: WebSocketServer | null = null;
   private subscriptions: Map<string, Set<WebSocket>> = new Map(); // paymentId -> Set of WebSocket connections
-  private wsToPaymentIds: WeakMap<WebSocket, Set<string>> = new WeakMap(); // Track which payments each WebSocket is subscribed to
+  private waitlistSubscriptions: Map<string, Set<WebSocket>> = new Map(); // waitlistEntryId -> Set of WebSocket connections
+  private splitSubscriptions: Map<string, Set<WebSocket>> = new Map(); // splitPaymentId -> Set of WebSocket connections
+  private channelSubscriptions: Map<string, Set<WebSocket>> = new Map(); // court:{courtId}:{date} -> Set of WebSocket connections
+  private wsToChannels: WeakMap<WebSocket, Set<string>> = new WeakMap(); // Track which channels each WebSocket follows
+  private server: Server | null = null;
+  private aliveConnections: WeakSet<WebSocket> = new WeakSet(); // Connections that answered the last ping
+  private connectionUsers: WeakMap<WebSocket, UserProfileDto> = new WeakMap(); // User each connection authenticated as
+  private connectionExpiries: WeakMap<WebSocket, number> = new WeakMap(); // When each connection's token expires (ms)
+  private heartbeat: NodeJS.Timeout | null = null;
+  private readonly instanceId = randomUUID();
 
   /**
    * Initialize WebSocket server attached to HTTP server
    */
   initialize(server: Server): void {
-    this.wss = new WebSocketServer({ server, path: '/ws/payments' });
+    this.wss = new WebSocketServer({ noServer: true });
+    this.server = server;
+    server.on('upgrade', this.handleUpgrade);
 
-    this.wss.on('connection', (ws: WebSocket) => {
+    this.wss.on('connection', (ws: WebSocket, request: IncomingMessage) => {
       console.log('WebSocket client connected');
+      this.aliveConnections.add(ws);
+
+      // The token comes in the URL (?token=) or in a first auth message
+      const authTimeout = setTimeout(() => {
+        if (!this.connectionUsers.has(ws)) {
+          ws.close(AUTH_FAILED_CLOSE_CODE, 'Authentication required');
+        }
+      }, AUTH_TIMEOUT_MS);
+      ws.once('close', () => clearTimeout(authTimeout));
+
+      const token = new URL(request.url ?? '/', 'http://localhost').searchParams.get('token');
+      if (token) {
+        void this.authenticate(ws, token);
+      }
+
+      ws.on('pong', () => {
+        this.aliveConnections.add(ws);
+      });
 
       ws.on('message', (message: Buffer) => {
+        this.aliveConnections.add(ws);
+        let data: ClientMessage | null;
         try {
-          const data = JSON.parse(message.toString()) as { action: string; paymentId?: string };
-          this.handleMessage(ws, data);
+          data = JSON.parse(message.toString()) as ClientMessage | null;
         } catch (error) {
-          ws.send(JSON.stringify({ error: 'Invalid message format' }));
+          data = null;
+        }
+        if (typeof data !== 'object' || data === null) {
+          this.sendError(ws, 'INVALID_MESSAGE', 'Invalid message format');
+          return;
         }
+        this.handleMessage(ws, data).catch((error) => {
+          console.error('Error handling WebSocket message:', error);
+        });
       });
 
       ws.on('close', () => {
@@ -50,48 +237,256 @@ class WebSocketService {
       });
 
       // Send welcome message
-      ws.send(JSON.stringify({ type: 'connected', message: 'Connected to payment notification service' }));
+      ws.send(JSON.stringify({ type: 'connected', message: 'Connected to notification service' }));
     });
 
-    console.log('WebSocket server initialized on /ws/payments');
+    this.heartbeat = setInterval(() => this.checkConnections(), HEARTBEAT_INTERVAL_MS);
+
+    // Receive the notifications of the other instances
+    redisService.subscribe(NOTIFICATION_CHANNEL, this.handleFanOutMessage).catch((error) => {
+      console.error('Could not subscribe to WebSocket notifications, only this instance will notify its clients:', error);
+    });
+
+    console.log(`WebSocket server initialized on ${WS_PATHS.join(', ')}`);
   }
 
+  /**
+   * Accept upgrades on the WebSocket paths, reject anything else
+   */
+  private handleUpgrade = (request: IncomingMessage, socket: Duplex, head: Buffer): void => {
+    const wss = this.wss;
+    const pathname = new URL(request.url ?? '/', 'http://localhost').pathname;
+    if (!wss || !WS_PATHS.includes(pathname)) {
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(request, socket, head, (ws) => {
+      wss.emit('connection', ws, request);
+    });
+  };
+
   /**
    * Handle incoming WebSocket messages
+   * Anything but auth and ping needs an authenticated connection
    */
-  private handleMessage(ws: WebSocket, data: { action: string; paymentId?: string }): void {
-    switch (data.action) {
-      case 'subscribe':
-        if (data.paymentId) {
-          this.subscribe(data.paymentId, ws);
-          ws.send(JSON.stringify({ 
-            type: 'subscribed', 
-            paymentId: data.paymentId,
-            message: `Subscribed to payment ${data.paymentId}` 
-          }));
-        } else {
-          ws.send(JSON.stringify({ error: 'paymentId is required for subscribe action' }));
-        }
-        break;
+  private async handleMessage(ws: WebSocket, data: ClientMessage): Promise<void> {
+    if (data.action === 'auth') {
+      await this.authenticate(ws, data.token);
+      return;
+    }
+    if (data.action === 'ping') {
+      ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
+      return;
+    }
+    if (data.action !== 'subscribe' && data.action !== 'unsubscribe' && data.action !== 'resume') {
+      this.sendError(ws, 'UNKNOWN_ACTION', `Unknown action: ${data.action}`, data.action);
+      return;
+    }
 
-      case 'unsubscribe':
-        if (data.paymentId) {
-          this.unsubscribe(data.paymentId, ws);
-          ws.send(JSON.stringify({ 
-            type: 'unsubscribed', 
-            paymentId: data.paymentId,
-            message: `Unsubscribed from payment ${data.paymentId}` 
-          }));
-        }
-        break;
+    const user = this.connectionUsers.get(ws);
+    if (!user) {
+      this.sendError(ws, 'UNAUTHENTICATED', 'Authenticate with a Firebase ID token first', data.action);
+      return;
+    }
+    if (this.closeIfExpired(ws)) {
+      return;
+    }
 
-      case 'ping':
-        ws.send(JSON.stringify({ type: 'pong', timestamp: Date.now() }));
-        break;
+    if (data.action === 'resume') {
+      await this.handleResume(ws, user, data);
+    } else if (data.action === 'subscribe') {
+      await this.handleSubscribe(ws, user, data);
+    } else {
+      this.handleUnsubscribe(ws, data);
+    }
+  }
+
+  /**
+   * Replay the outbox notifications the user missed after the seq they last saw
+   */
+  private async handleResume(ws: WebSocket, user: UserProfileDto, data: ClientMessage): Promise<void> {
+    const since = data.since;
+    if (typeof since !== 'number' || !Number.isInteger(since) || since < 0) {
+      this.sendError(ws, 'INVALID_MESSAGE', 'since must be a non-negative integer', data.action);
+      return;
+    }
+
+    const { messages, lastSeq, hasMore } = await notificationService.getMissed(user.id, since);
+    for (const message of messages) {
+      ws.send(JSON.stringify(message));
+    }
+    ws.send(JSON.stringify({ type: 'resumed', since, lastSeq, hasMore }));
+  }
+
+  /**
+   * Subscribe to a court channel, or to a payment, split payment or waitlist entry the user may follow
+   */
+  private async handleSubscribe(ws: WebSocket, user: UserProfileDto, data: ClientMessage): Promise<void> {
+    if (data.channel !== undefined) {
+      const error = this.subscribeChannel(data.channel, ws);
+      if (error) {
+        this.sendError(ws, error.code, error.message, data.action);
+        return;
+      }
+      ws.send(JSON.stringify({ type: 'subscribed', channel: data.channel, message: `Subscribed to ${data.channel}` }));
+      return;
+    }
+
+    if (!data.paymentId && !data.splitPaymentId && !data.waitlistEntryId) {
+      this.sendError(
+        ws,
+        'INVALID_MESSAGE',
+        'channel, paymentId, splitPaymentId or waitlistEntryId is required for subscribe action',
+        data.action
+      );
+      return;
+    }
+
+    // The user's role may have changed since the connection authenticated
+    const current = await userService.getUserById(user.id);
+    const owner = await this.findSubscriptionOwner(data);
+    if (!current || !owner || !(await this.canFollow(mapUserToDto(current), owner))) {
+      this.sendError(ws, 'SUBSCRIPTION_DENIED', 'You do not have access to these notifications', data.action);
+      return;
+    }
+
+    if (data.waitlistEntryId) {
+      this.subscribeWaitlist(data.waitlistEntryId, ws);
+      ws.send(JSON.stringify({
+        type: 'subscribed',
+        waitlistEntryId: data.waitlistEntryId,
+        message: `Subscribed to waitlist entry ${data.waitlistEntryId}`
+      }));
+    } else if (data.splitPaymentId) {
+      this.subscribeSplit(data.splitPaymentId, ws);
+      ws.send(JSON.stringify({
+        type: 'subscribed',
+        splitPaymentId: data.splitPaymentId,
+        message: `Subscribed to split payment ${data.splitPaymentId}`
+      }));
+    } else if (data.paymentId) {
+      this.subscribe(data.paymentId, ws);
+      ws.send(JSON.stringify({ 
+        type: 'subscribed', 
+        paymentId: data.paymentId,
+        message: `Subscribed to payment ${data.paymentId}` 
+      }));
+    }
+  }
+
+  private handleUnsubscribe(ws: WebSocket, data: ClientMessage): void {
+    if (data.channel !== undefined) {
+      this.unsubscribeChannel(data.channel, ws);
+      ws.send(JSON.stringify({
+        type: 'unsubscribed',
+        channel: data.channel,
+        message: `Unsubscribed from ${data.channel}`
+      }));
+    } else if (data.waitlistEntryId) {
+      this.unsubscribeWaitlist(data.waitlistEntryId, ws);
+      ws.send(JSON.stringify({
+        type: 'unsubscribed',
+        waitlistEntryId: data.waitlistEntryId,
+        message: `Unsubscribed from waitlist entry ${data.waitlistEntryId}`
+      }));
+    } else if (data.splitPaymentId) {
+      this.unsubscribeSplit(data.splitPaymentId, ws);
+      ws.send(JSON.stringify({
+        type: 'unsubscribed',
+        splitPaymentId: data.splitPaymentId,
+        message: `Unsubscribed from split payment ${data.splitPaymentId}`
+      }));
+    } else if (data.paymentId) {
+      this.unsubscribe(data.paymentId, ws);
+      ws.send(JSON.stringify({ 
+        type: 'unsubscribed', 
+        paymentId: data.paymentId,
+        message: `Unsubscribed from payment ${data.paymentId}` 
+      }));
+    }
+  }
+
+  /**
+   * Verify a Firebase ID token and attach its user to the connection
+   * A connection that fails to authenticate is closed
+   */
+  private async authenticate(ws: WebSocket, token: unknown): Promise<void> {
+    try {
+      if (typeof token !== 'string' || !token) {
+        throw new AppError('token is required', 401, 'MISSING_TOKEN');
+      }
+
+      const decodedToken = await firebaseService.verifyIdToken(token);
+      const user = await userService.getUserByFirebaseUid(decodedToken.uid);
+      if (!user) {
+        throw new AppError('User not found. Please verify your account first.', 401, 'USER_NOT_FOUND');
+      }
+
+      const profile = mapUserToDto(user);
+      this.connectionUsers.set(ws, profile);
+      this.connectionExpiries.set(ws, decodedToken.exp * 1000);
+      ws.send(JSON.stringify({ type: 'authenticated', userId: profile.id }));
+    } catch (error) {
+      const message = error instanceof AppError ? error.message : 'Failed to verify token';
+      this.sendError(ws, 'AUTHENTICATION_FAILED', message, 'auth');
+      ws.close(AUTH_FAILED_CLOSE_CODE, 'Authentication failed');
+    }
+  }
+
+  /**
+   * Close a connection whose token has expired
+   * Clients renew the token by sending a new auth message before it expires
+   */
+  private closeIfExpired(ws: WebSocket): boolean {
+    const expiresAt = this.connectionExpiries.get(ws);
+    if (expiresAt === undefined || expiresAt > Date.now()) {
+      return false;
+    }
+
+    this.sendError(ws, 'TOKEN_EXPIRED', 'The token has expired, reconnect with a new one');
+    ws.close(AUTH_FAILED_CLOSE_CODE, 'Token expired');
+    return true;
+  }
+
+  /**
+   * User and court a payment, split payment or waitlist entry belongs to
+   * Unknown IDs give null and are denied like foreign ones, so a client cannot probe which exist
+   */
+  private async findSubscriptionOwner(data: ClientMessage): Promise<SubscriptionOwner | null> {
+    if (data.waitlistEntryId) {
+      const entry = isUUID(data.waitlistEntryId) ? await waitlistRepository.findById(data.waitlistEntryId) : null;
+      return entry && { userId: entry.user_id, courtId: entry.court_id };
+    }
+    if (data.splitPaymentId) {
+      const split = isUUID(data.splitPaymentId) ? await splitPaymentRepository.findById(data.splitPaymentId) : null;
+      const ownership = split && (await availabilityRepository.getBookingOwnership(split.bookingId));
+      return ownership && { userId: ownership.user_id, courtId: ownership.court_id };
+    }
+    if (data.paymentId) {
+      const payment = isUUID(data.paymentId) ? await paymentRepository.findById(data.paymentId) : null;
+      return payment && { userId: payment.booking.userId, courtId: payment.booking.subCourt.courtId };
+    }
+    return null;
+  }
 
-      default:
-        ws.send(JSON.stringify({ error: `Unknown action: ${data.action}` }));
+  /**
+   * A user may follow what is their own or belongs to a court they are a member of
+   * Platform admins may follow anything
+   */
+  private async canFollow(user: UserProfileDto, owner: SubscriptionOwner): Promise<boolean> {
+    if (user.role === 'platform_admin' || owner.userId === user.id) {
+      return true;
     }
+    return (await courtMemberRepository.findByCourtAndUser(owner.courtId, user.id)) !== null;
+  }
+
+  /**
+   * Send a typed error frame
+   */
+  private sendError(ws: WebSocket, code: WebSocketErrorCode, message: string, action?: string): void {
+    const frame: WebSocketErrorFrame = { type: 'error', code, error: message, ...(action && { action }) };
+    ws.send(JSON.stringify(frame));
   }
 
   /**
@@ -103,14 +498,6 @@ class WebSocketService {
     }
     this.subscriptions.get(paymentId)!.add(ws);
     
-    // Track this subscription for the WebSocket
-    let wsPaymentIds = this.wsToPaymentIds.get(ws);
-    if (!wsPaymentIds) {
-      wsPaymentIds = new Set();
-      this.wsToPaymentIds.set(ws, wsPaymentIds);
-    }
-    wsPaymentIds.add(paymentId);
-    
     console.log(`Client subscribed to payment ${paymentId}`);
   }
 
@@ -126,37 +513,110 @@ class WebSocketService {
       }
     }
     
-    // Remove from tracking
-    const wsPaymentIds = this.wsToPaymentIds.get(ws);
-    if (wsPaymentIds) {
-      wsPaymentIds.delete(paymentId);
-    }
-    
     console.log(`Client unsubscribed from payment ${paymentId}`);
   }
 
   /**
-   * Handle WebSocket disconnect - cancel any pending payments
+   * Subscribe a WebSocket connection to offers for a waitlist entry
    */
-  private handleDisconnect(ws: WebSocket): void {
-    const paymentIds = this.wsToPaymentIds.get(ws);
-    
-    if (paymentIds && paymentIds.size > 0) {
-      // Use dynamic import to avoid circular dependency
-      import('./payment.service.js').then(({ paymentService }) => {
-        for (const paymentId of paymentIds) {
-          paymentService.cancelPayment(paymentId)
-            .then(() => {
-              console.log(`Auto-cancelled payment ${paymentId} due to client disconnect`);
-            })
-            .catch((error: Error) => {
-              // Payment might already be completed/failed, ignore errors
-              console.log(`Could not auto-cancel payment ${paymentId}:`, error.message);
-            });
-        }
-      }).catch(console.error);
+  subscribeWaitlist(waitlistEntryId: string, ws: WebSocket): void {
+    if (!this.waitlistSubscriptions.has(waitlistEntryId)) {
+      this.waitlistSubscriptions.set(waitlistEntryId, new Set());
     }
-    
+    this.waitlistSubscriptions.get(waitlistEntryId)!.add(ws);
+  }
+
+  /**
+   * Unsubscribe a WebSocket connection from a waitlist entry
+   */
+  unsubscribeWaitlist(waitlistEntryId: string, ws: WebSocket): void {
+    const subscribers = this.waitlistSubscriptions.get(waitlistEntryId);
+    if (subscribers) {
+      subscribers.delete(ws);
+      if (subscribers.size === 0) {
+        this.waitlistSubscriptions.delete(waitlistEntryId);
+      }
+    }
+  }
+
+  /**
+   * Subscribe a WebSocket connection to the progress of a split payment
+   */
+  subscribeSplit(splitPaymentId: string, ws: WebSocket): void {
+    if (!this.splitSubscriptions.has(splitPaymentId)) {
+      this.splitSubscriptions.set(splitPaymentId, new Set());
+    }
+    this.splitSubscriptions.get(splitPaymentId)!.add(ws);
+  }
+
+  /**
+   * Unsubscribe a WebSocket connection from a split payment
+   */
+  unsubscribeSplit(splitPaymentId: string, ws: WebSocket): void {
+    const subscribers = this.splitSubscriptions.get(splitPaymentId);
+    if (subscribers) {
+      subscribers.delete(ws);
+      if (subscribers.size === 0) {
+        this.splitSubscriptions.delete(splitPaymentId);
+      }
+    }
+  }
+
+  /**
+   * Subscribe a WebSocket connection to a court:{courtId}:{date} channel
+   * Returns the reason when the channel is refused
+   */
+  subscribeChannel(channel: string, ws: WebSocket): { code: WebSocketErrorCode; message: string } | null {
+    if (typeof channel !== 'string' || !COURT_CHANNEL_PATTERN.test(channel)) {
+      return { code: 'INVALID_CHANNEL', message: 'channel must be court:{courtId}:{YYYY-MM-DD}' };
+    }
+    const key = channel.toLowerCase();
+
+    let wsChannels = this.wsToChannels.get(ws);
+    if (!wsChannels) {
+      wsChannels = new Set();
+      this.wsToChannels.set(ws, wsChannels);
+    }
+    if (!wsChannels.has(key) && wsChannels.size >= MAX_CHANNELS_PER_CONNECTION) {
+      return {
+        code: 'TOO_MANY_CHANNELS',
+        message: `A connection can follow at most ${MAX_CHANNELS_PER_CONNECTION} channels`,
+      };
+    }
+    wsChannels.add(key);
+
+    if (!this.channelSubscriptions.has(key)) {
+      this.channelSubscriptions.set(key, new Set());
+    }
+    this.channelSubscriptions.get(key)!.add(ws);
+    return null;
+  }
+
+  /**
+   * Unsubscribe a WebSocket connection from a channel
+   */
+  unsubscribeChannel(channel: string, ws: WebSocket): void {
+    if (typeof channel !== 'string') {
+      return;
+    }
+    const key = channel.toLowerCase();
+
+    const subscribers = this.channelSubscriptions.get(key);
+    if (subscribers) {
+      subscribers.delete(ws);
+      if (subscribers.size === 0) {
+        this.channelSubscriptions.delete(key);
+      }
+    }
+    this.wsToChannels.get(ws)?.delete(key);
+  }
+
+  /**
+   * Handle WebSocket disconnect
+   * Pending payments are left alone: the app may be in the background paying in ZaloPay.
+   * It resumes from the outbox on reconnect, and unpaid slots are freed when their lock expires.
+   */
+  private handleDisconnect(ws: WebSocket): void {
     this.removeFromAllSubscriptions(ws);
   }
 
@@ -170,18 +630,164 @@ class WebSocketService {
         this.subscriptions.delete(paymentId);
       }
     }
-    this.wsToPaymentIds.delete(ws);
+    for (const [waitlistEntryId, subscribers] of this.waitlistSubscriptions.entries()) {
+      subscribers.delete(ws);
+      if (subscribers.size === 0) {
+        this.waitlistSubscriptions.delete(waitlistEntryId);
+      }
+    }
+    for (const [splitPaymentId, subscribers] of this.splitSubscriptions.entries()) {
+      subscribers.delete(ws);
+      if (subscribers.size === 0) {
+        this.splitSubscriptions.delete(splitPaymentId);
+      }
+    }
+    for (const channel of this.wsToChannels.get(ws) ?? []) {
+      const subscribers = this.channelSubscriptions.get(channel);
+      subscribers?.delete(ws);
+      if (subscribers?.size === 0) {
+        this.channelSubscriptions.delete(channel);
+      }
+    }
+    this.wsToChannels.delete(ws);
   }
 
   /**
    * Notify all subscribers of a payment status change
    */
   notifyPaymentStatus(notification: PaymentNotification): void {
-    const subscribers = this.subscriptions.get(notification.paymentId);
-    if (!subscribers || subscribers.size === 0) {
-      console.log(`No subscribers for payment ${notification.paymentId}`);
+    this.broadcast(notification);
+  }
+
+  /**
+   * Notify all subscribers of a payment about one of its refunds
+   */
+  notifyRefundStatus(notification: RefundNotification): void {
+    this.broadcast(notification);
+  }
+
+  /**
+   * Notify subscribers of a waitlist entry that a slot is held for them
+   */
+  notifyWaitlistOffer(notification: WaitlistOfferNotification): void {
+    this.broadcast(notification);
+  }
+
+  /**
+   * Notify subscribers of a split payment about its progress
+   */
+  notifySplitPaymentStatus(notification: SplitPaymentNotification): void {
+    this.broadcast(notification);
+  }
+
+  /**
+   * Notify the court:{courtId}:{date} channels that slots became free or taken
+   * Safe to call from any booking flow: updates nobody follows are dropped by each instance
+   */
+  notifySlotUpdates(event: SlotUpdateEvent, isAvailable: boolean, slots: SlotUpdate[]): void {
+    for (const slot of slots) {
+      this.broadcast({
+        type: 'slot_update',
+        channel: `court:${slot.courtId}:${slot.date}`.toLowerCase(),
+        event,
+        isAvailable,
+        courtId: slot.courtId,
+        subCourtId: slot.subCourtId,
+        date: slot.date,
+        startTime: slot.startTime,
+        endTime: slot.endTime,
+      });
+    }
+  }
+
+  /**
+   * Deliver a notification to this instance's clients and publish it to the other instances
+   * Publishing starts with the server; if Redis is down, local clients are still notified
+   */
+  private broadcast(notification: WebSocketNotification): void {
+    this.deliver(notification);
+
+    if (!this.wss) {
       return;
     }
+    const message: FanOutMessage = { origin: this.instanceId, notification };
+    redisService.publish(NOTIFICATION_CHANNEL, JSON.stringify(message)).catch((error) => {
+      console.error('Error publishing WebSocket notification:', error);
+    });
+  }
+
+  /**
+   * Deliver a notification published by another instance
+   */
+  private handleFanOutMessage = (message: string): void => {
+    try {
+      const { origin, notification } = JSON.parse(message) as FanOutMessage;
+      if (origin !== this.instanceId) {
+        this.deliver(notification);
+      }
+    } catch (error) {
+      console.error('Invalid WebSocket notification received from Redis:', error);
+    }
+  };
+
+  /**
+   * Send a notification to the clients of this instance that follow it
+   */
+  private deliver(notification: WebSocketNotification): void {
+    switch (notification.type) {
+      case 'payment_status': {
+        const notifiedCount = this.send(this.subscriptions.get(notification.paymentId), notification);
+        if (notifiedCount > 0) {
+          console.log(`Notified ${notifiedCount} subscribers for payment ${notification.paymentId}`);
+        }
+        // Clean up subscription after notification (payment is complete)
+        this.subscriptions.delete(notification.paymentId);
+        break;
+      }
+
+      // Subscriptions are kept: a payment can have several refunds (one per cancelled booking of a group)
+      case 'refund_status': {
+        const notifiedCount = this.send(this.subscriptions.get(notification.paymentId), notification);
+        if (notifiedCount > 0) {
+          console.log(`Notified ${notifiedCount} subscribers of refund ${notification.refundId}`);
+        }
+        break;
+      }
+
+      case 'waitlist_offer': {
+        const notifiedCount = this.send(this.waitlistSubscriptions.get(notification.waitlistEntryId), notification);
+        if (notifiedCount > 0) {
+          console.log(`Notified ${notifiedCount} subscribers of waitlist offer ${notification.waitlistEntryId}`);
+        }
+        break;
+      }
+
+      // Subscriptions are kept until the split is completed or cancelled
+      case 'split_payment_status': {
+        const notifiedCount = this.send(this.splitSubscriptions.get(notification.splitPaymentId), notification);
+        if (notifiedCount > 0) {
+          console.log(`Notified ${notifiedCount} subscribers of split payment ${notification.splitPaymentId}`);
+        }
+        if (notification.status !== 'open') {
+          this.splitSubscriptions.delete(notification.splitPaymentId);
+        }
+        break;
+      }
+
+      case 'slot_update':
+        this.send(this.channelSubscriptions.get(notification.channel), notification);
+        break;
+    }
+  }
+
+  /**
+   * Send a notification to every open connection of a subscriber set
+   * Returns the number of connections notified
+   */
+  private send(subscribers: Set<WebSocket> | undefined, notification: WebSocketNotification): number {
+    if (!subscribers || subscribers.size === 0) {
+      return 0;
+    }
 
     const message = JSON.stringify(notification);
     let notifiedCount = 0;
@@ -193,10 +799,27 @@ class WebSocketService {
       }
     }
 
-    console.log(`Notified ${notifiedCount} subscribers for payment ${notification.paymentId}`);
+    return notifiedCount;
+  }
+
+  /**
+   * Terminate connections that did not answer the last ping, close those whose token expired, then ping the others
+   * Terminated connections are cleaned up by their close handler like any disconnect
+   */
+  private checkConnections(): void {
+    for (const ws of this.wss?.clients ?? []) {
+      if (!this.aliveConnections.has(ws)) {
+        console.log('Terminating unresponsive WebSocket client');
+        ws.terminate();
+        continue;
+      }
+      if (this.closeIfExpired(ws)) {
+        continue;
+      }
 
-    // Clean up subscription after notification (payment is complete)
-    this.subscriptions.delete(notification.paymentId);
+      this.aliveConnections.delete(ws);
+      ws.ping();
+    }
   }
 
   /**
@@ -217,11 +840,20 @@ class WebSocketService {
    * Close all connections and shutdown
    */
   close(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.server?.off('upgrade', this.handleUpgrade);
+    this.server = null;
     if (this.wss) {
       this.wss.close();
       this.wss = null;
     }
     this.subscriptions.clear();
+    this.waitlistSubscriptions.clear();
+    this.splitSubscriptions.clear();
+    this.channelSubscriptions.clear();
   }
 }
 
@@ -8,21 +8,27 @@ import type {
   ZaloPayQueryOrderRequest,
   ZaloPayQueryOrderResponse,
   ZaloPayEmbedData,
+  ZaloPayRefundRequest,
+  ZaloPayRefundResponse,
+  ZaloPayQueryRefundRequest,
+  ZaloPayQueryRefundResponse,
 } from '../types/index.js';
 
-class ZaloPayService {
+type ZaloPaySettings = typeof config.zalopay;
+
+export class ZaloPayService {
   private readonly endpoint: string;
   private readonly appId: number;
   private readonly key1: string;
   private readonly key2: string;
   private readonly callbackUrl: string;
 
-  constructor() {
-    this.endpoint = config.zalopay.endpoint;
-    this.appId = Number(config.zalopay.appId);
-    this.key1 = config.zalopay.key1;
-    this.key2 = config.zalopay.key2;
-    this.callbackUrl = config.zalopay.callbackUrl;
+  constructor(settings: ZaloPaySettings = config.zalopay) {
+    this.endpoint = settings.endpoint;
+    this.appId = Number(settings.appId);
+    this.key1 = settings.key1;
+    this.key2 = settings.key2;
+    this.callbackUrl = settings.callbackUrl;
   }
 
   /**
@@ -47,6 +53,22 @@ class ZaloPayService {
     return `${datePrefix}_${bookingSuffix}${randomSuffix}`;
   }
 
+  /**
+   * Generate m_refund_id in format: yymmdd_appid_refundId
+   * ZaloPay requires the yymmdd prefix (Vietnam timezone GMT+7) and the app ID.
+   * The refund row's UUID, in base 36, keeps the ID unique and within 45 characters
+   */
+  generateMRefundId(refundId: string): string {
+    const vietnamTime = new Date(Date.now() + 7 * 60 * 60 * 1000);
+    const year = String(vietnamTime.getUTCFullYear()).slice(-2);
+    const month = String(vietnamTime.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(vietnamTime.getUTCDate()).padStart(2, '0');
+
+    const refundSuffix = BigInt(`0x${refundId.replace(/-/g, '')}`).toString(36);
+
+    return `${year}${month}${day}_${this.appId}_${refundSuffix}`;
+  }
+
   /**
    * Create MAC for order creation
    * hmacinput: app_id|app_trans_id|app_user|amount|app_time|embed_data|item
@@ -81,11 +103,35 @@ class ZaloPayService {
     return crypto.createHmac('sha256', this.key1).update(hmacInput).digest('hex');
   }
 
+  /**
+   * Create MAC for refund
+   * hmacinput: app_id|zp_trans_id|amount|description|timestamp
+   */
+  private createRefundMac(params: {
+    zpTransId: string;
+    amount: number;
+    description: string;
+    timestamp: number;
+  }): string {
+    const hmacInput = `${this.appId}|${params.zpTransId}|${params.amount}|${params.description}|${params.timestamp}`;
+    return crypto.createHmac('sha256', this.key1).update(hmacInput).digest('hex');
+  }
+
+  /**
+   * Create MAC for query refund
+   * hmacinput: app_id|m_refund_id|timestamp
+   */
+  private createQueryRefundMac(mRefundId: string, timestamp: number): string {
+    const hmacInput = `${this.appId}|${mRefundId}|${timestamp}`;
+    return crypto.createHmac('sha256', this.key1).update(hmacInput).digest('hex');
+  }
+
   /**
    * Create a ZaloPay order
    */
   async createOrder(params: {
-    bookingId: string;
+    bookingId?: string;
+    packageId?: string;
     appTransId: string;
     amount: number;
     guestName: string;
@@ -99,10 +145,10 @@ class ZaloPayService {
       .replace(/[^a-zA-Z0-9_]/g, '')
       .slice(0, 50);
 
-    // Create embed_data with booking ID for callback
-    const embedData: ZaloPayEmbedData = {
-      bookingId: params.bookingId,
-    };
+    // Create embed_data with booking (or package) ID for callback
+    const embedData: ZaloPayEmbedData = params.packageId
+      ? { packageId: params.packageId }
+      : { bookingId: params.bookingId };
     const embedDataStr = JSON.stringify(embedData);
 
     // Item data (empty array as string)
@@ -210,6 +256,73 @@ class ZaloPayService {
     return result;
   }
 
+  /**
+   * Refund (part of) a successful transaction
+   * ZaloPay allows several partial refunds per zp_trans_id up to the paid amount
+   */
+  async refund(params: {
+    mRefundId: string;
+    zpTransId: string;
+    amount: number;
+    description: string;
+  }): Promise<ZaloPayRefundResponse> {
+    const timestamp = Date.now();
+
+    const mac = this.createRefundMac({
+      zpTransId: params.zpTransId,
+      amount: params.amount,
+      description: params.description,
+      timestamp,
+    });
+
+    const requestBody: ZaloPayRefundRequest = {
+      app_id: this.appId,
+      m_refund_id: params.mRefundId,
+      zp_trans_id: params.zpTransId,
+      amount: params.amount,
+      timestamp,
+      description: params.description,
+      mac,
+    };
+
+    const response = await fetch(`${this.endpoint}/v2/refund`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    const result = (await response.json()) as ZaloPayRefundResponse;
+    return result;
+  }
+
+  /**
+   * Query refund status from ZaloPay
+   */
+  async queryRefund(mRefundId: string): Promise<ZaloPayQueryRefundResponse> {
+    const timestamp = Date.now();
+    const mac = this.createQueryRefundMac(mRefundId, timestamp);
+
+    const requestBody: ZaloPayQueryRefundRequest = {
+      app_id: this.appId,
+      m_refund_id: mRefundId,
+      timestamp,
+      mac,
+    };
+
+    const response = await fetch(`${this.endpoint}/v2/query_refund`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(requestBody),
+    });
+
+    const result = (await response.json()) as ZaloPayQueryRefundResponse;
+    return result;
+  }
+
   /**
    * Check if ZaloPay is properly configured
    */
@@ -37,12 +37,16 @@ export const mockInvalidIdToken = 'mock-invalid-id-token';
 
 // ==================== Decoded Firebase Tokens ====================
 
+// Decoded tokens expire an hour from when the tests start
+const tokenExpiry = Math.floor(Date.now() / 1000) + 60 * 60;
+
 export const decodedGoogleToken: DecodedFirebaseToken = {
   uid: googleFirebaseUid,
   email: 'googleuser@gmail.com',
   email_verified: true,
   name: 'Google User',
   picture: 'https://lh3.googleusercontent.com/photo.jpg',
+  exp: tokenExpiry,
   firebase: {
     sign_in_provider: 'google.com',
     identities: {
@@ -58,6 +62,7 @@ export const decodedFacebookToken: DecodedFirebaseToken = {
   email_verified: true,
   name: 'Facebook User',
   picture: 'https://graph.facebook.com/photo.jpg',
+  exp: tokenExpiry,
   firebase: {
     sign_in_provider: 'facebook.com',
     identities: {
@@ -71,6 +76,7 @@ export const decodedPasswordToken: DecodedFirebaseToken = {
   uid: passwordFirebaseUid,
   email: 'emailuser@example.com',
   email_verified: false,
+  exp: tokenExpiry,
   firebase: {
     sign_in_provider: 'password',
     identities: {
@@ -81,6 +87,7 @@ export const decodedPasswordToken: DecodedFirebaseToken = {
 
 export const decodedAnonymousToken: DecodedFirebaseToken = {
   uid: anonymousFirebaseUid,
+  exp: tokenExpiry,
   firebase: {
     sign_in_provider: 'anonymous',
     identities: {},
@@ -99,6 +106,7 @@ export const sampleGoogleUser: User = {
   username: 'googleuser',
   provider: 'google',
   isAnonymous: false,
+  role: 'player',
   firstName: 'Google',
   lastName: 'User',
   gender: 'male',
@@ -119,6 +127,7 @@ export const sampleFacebookUser: User = {
   username: 'fbuser',
   provider: 'facebook',
   isAnonymous: false,
+  role: 'player',
   firstName: 'Facebook',
   lastName: 'User',
   gender: 'female',
@@ -139,6 +148,7 @@ export const samplePasswordUser: User = {
   username: 'emailuser',
   provider: 'password',
   isAnonymous: false,
+  role: 'player',
   firstName: 'Email',
   lastName: 'User',
   gender: null,
@@ -159,6 +169,7 @@ export const sampleAnonymousUser: User = {
   username: null,
   provider: 'anonymous',
   isAnonymous: true,
+  role: 'player',
   firstName: null,
   lastName: null,
   gender: null,
@@ -181,6 +192,7 @@ export const googleUserProfileDto: UserProfileDto = {
   username: 'googleuser',
   provider: 'google',
   isAnonymous: false,
+  role: 'player',
   firstName: 'Google',
   lastName: 'User',
   gender: 'male',
@@ -203,6 +215,7 @@ export const anonymousUserProfileDto: UserProfileDto = {
   username: null,
   provider: 'anonymous',
   isAnonymous: true,
+  role: 'player',
   firstName: null,
   lastName: null,
   gender: null,
@@ -345,6 +358,7 @@ export function createMockDecodedToken(
     uid,
     email,
     name,
+    exp: tokenExpiry,
     firebase: {
       sign_in_provider: signInProvider,
       identities: email ? { email: [email] } : {},
@@ -363,6 +377,7 @@ export function createMockUser(overrides: Partial<User> = {}): User {
     username: 'testuser',
     provider: 'google',
     isAnonymous: false,
+    role: 'player',
     firstName: 'Test',
     lastName: 'User',
     gender: null,
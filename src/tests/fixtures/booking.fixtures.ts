@@ -78,6 +78,10 @@ export const sampleBooking = {
   start_time: '10:00',
   end_time: '12:00',
   total_price: 140000,
+  original_price: 140000,
+  discount_amount: 0,
+  voucher_code: null,
+  user_package_id: null,
   status: 'pending',
   notes: 'Test booking',
   created_at: new Date('2025-12-01T08:00:00.000Z'),
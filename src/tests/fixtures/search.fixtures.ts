@@ -19,6 +19,7 @@ export const sampleCourtForIndex: CourtIndexData = {
   addressDistrict: 'Quận Ba Đình',
   addressWard: 'Phường Ngọc Khánh',
   addressCity: 'Hà Nội',
+  ratingAverage: 4.5,
 };
 
 export const sampleCourtsForIndex: CourtIndexData[] = [
@@ -29,6 +30,7 @@ export const sampleCourtsForIndex: CourtIndexData[] = [
     addressDistrict: 'Quận Hoàn Kiếm',
     addressWard: 'Phường Hàng Bạc',
     addressCity: 'Hà Nội',
+    ratingAverage: null,
   },
   {
     id: 'c2ggde11-1e2d-6gh0-dd8f-8dd1df502c33',
@@ -36,6 +38,7 @@ export const sampleCourtsForIndex: CourtIndexData[] = [
     addressDistrict: 'Quận Long Biên',
     addressWard: 'Phường Ngọc Lâm',
     addressCity: 'Hà Nội',
+    ratingAverage: null,
   },
   {
     id: 'd3hhef22-2f3e-7hi1-ee9g-9ee2eg613d44',
@@ -43,6 +46,7 @@ export const sampleCourtsForIndex: CourtIndexData[] = [
     addressDistrict: 'Quận Cầu Giấy',
     addressWard: 'Phường Mai Dịch',
     addressCity: 'Hà Nội',
+    ratingAverage: null,
   },
 ];
 
@@ -148,6 +152,8 @@ export const sampleSearchResult: CourtSearchResult = {
   addressStreet: '123 Đường Ngọc Khánh',
   nameScore: 0.85,
   districtScore: 0.75,
+  rating: 4.5,
+  reviewCount: 12,
 };
 
 export const sampleSearchResults: CourtSearchResult[] = [
@@ -161,6 +167,8 @@ export const sampleSearchResults: CourtSearchResult[] = [
     addressStreet: '45 Đường Hàng Bạc',
     nameScore: 0.82,
     districtScore: 0.70,
+    rating: null,
+    reviewCount: 0,
   },
 ];
 
@@ -91,6 +91,7 @@ function mapUserToDto(user: typeof sampleGoogleUser): UserProfileDto {
     username: user.username,
     provider: user.provider as UserProfileDto['provider'],
     isAnonymous: user.isAnonymous,
+    role: user.role as UserProfileDto['role'],
     firstName: user.firstName,
     lastName: user.lastName,
     gender: user.gender as UserProfileDto['gender'],
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, afterAll } from '@jest/globals';
+import { randomUUID } from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import { ZaloPayService } from '../../../services/zalopay.service.js';
+import { ZaloPaySandbox } from '../../setup/zalopay-sandbox.js';
+
+/**
+ * ZaloPay refund API against the local ZaloPay sandbox
+ */
+
+const appId = 2553;
+const key1 = 'sandbox-key1';
+const key2 = 'sandbox-key2';
+const refundId = 'e0eebc99-9c0b-4ef8-bb6d-6bb9bd380a55';
+
+describe('ZaloPayService refunds (sandbox)', () => {
+  const sandbox = new ZaloPaySandbox({ appId, key1, key2 });
+  let server: Server;
+  let zaloPay: ZaloPayService;
+
+  beforeAll(async () => {
+    server = await new Promise<Server>((resolve) => {
+      const listening = sandbox.app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+    zaloPay = new ZaloPayService({
+      appId: String(appId),
+      key1,
+      key2,
+      endpoint: `http://127.0.0.1:${port}`,
+      callbackUrl: '',
+    });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should generate m_refund_id as yymmdd_appid_xxx from the refund ID', () => {
+    expect(zaloPay.generateMRefundId(refundId)).toMatch(/^\d{6}_2553_dbe928a2cij6q21gwrp3xnyad$/);
+    expect(zaloPay.generateMRefundId('ffffffff-ffff-ffff-ffff-ffffffffffff').length).toBeLessThanOrEqual(45);
+  });
+
+  it('should accept a signed refund and settle it on query', async () => {
+    const transaction = sandbox.seedTransaction({ appTransId: '251201_refund1', amount: 140000 });
+    const mRefundId = zaloPay.generateMRefundId(randomUUID());
+
+    const refund = await zaloPay.refund({
+      mRefundId,
+      zpTransId: transaction.zpTransId,
+      amount: 70000,
+      description: 'Arc Badminton - Cancelled booking, 50% refund',
+    });
+    expect(refund.return_code).toBe(3);
+    expect(refund.refund_id).toBeDefined();
+
+    const query = await zaloPay.queryRefund(mRefundId);
+    expect(query.return_code).toBe(1);
+    expect(sandbox.getRefund(mRefundId)?.status).toBe('success');
+  });
+
+  it('should treat a resent m_refund_id as the same refund', async () => {
+    const transaction = sandbox.seedTransaction({ appTransId: '251201_refund2', amount: 100000 });
+    const params = {
+      mRefundId: zaloPay.generateMRefundId(randomUUID()),
+      zpTransId: transaction.zpTransId,
+      amount: 100000,
+      description: 'Arc Badminton - Full refund',
+    };
+
+    const first = await zaloPay.refund(params);
+    const second = await zaloPay.refund(params);
+
+    expect(second.return_code).toBe(first.return_code);
+    expect(second.refund_id).toBe(first.refund_id);
+  });
+
+  it('should reject refunds above the remaining transaction amount', async () => {
+    const transaction = sandbox.seedTransaction({ appTransId: '251201_refund3', amount: 100000 });
+    await zaloPay.refund({
+      mRefundId: zaloPay.generateMRefundId(randomUUID()),
+      zpTransId: transaction.zpTransId,
+      amount: 60000,
+      description: 'Arc Badminton - Partial refund',
+    });
+
+    const result = await zaloPay.refund({
+      mRefundId: zaloPay.generateMRefundId(randomUUID()),
+      zpTransId: transaction.zpTransId,
+      amount: 60000,
+      description: 'Arc Badminton - Partial refund',
+    });
+
+    expect(result.return_code).toBe(2);
+  });
+
+  it('should reject requests signed with the wrong key', async () => {
+    const transaction = sandbox.seedTransaction({ appTransId: '251201_refund4', amount: 100000 });
+    const wrongKey = new ZaloPayService({
+      appId: String(appId),
+      key1: 'wrong-key',
+      key2,
+      endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      callbackUrl: '',
+    });
+
+    const result = await wrongKey.refund({
+      mRefundId: wrongKey.generateMRefundId(randomUUID()),
+      zpTransId: transaction.zpTransId,
+      amount: 1000,
+      description: 'Arc Badminton - Refund',
+    });
+
+    expect(result.return_code).toBe(2);
+    expect(result.sub_return_message).toBe('Invalid mac');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * ZaloPay Sandbox
+ * Local stand-in for the ZaloPay OpenAPI (v2) used by the integration tests.
+ * Implements create/query order and refund/query refund with the same MAC
+ * signing as ZaloPay, keeping all state in memory.
+ */
+
+import crypto from 'crypto';
+import express, { type Express, type Request, type Response } from 'express';
+
+export interface ZaloPaySandboxOptions {
+  appId: number;
+  key1: string;
+  key2: string;
+  // Result of POST /v2/refund; processing refunds settle as success on the next query
+  refundResult?: 'success' | 'processing' | 'failed';
+}
+
+interface SandboxTransaction {
+  appTransId: string;
+  zpTransId: string;
+  amount: number;
+  status: 'pending' | 'success';
+  embedData: string;
+  callbackUrl?: string;
+}
+
+interface SandboxRefund {
+  mRefundId: string;
+  refundId: number;
+  zpTransId: string;
+  amount: number;
+  status: 'success' | 'processing' | 'failed';
+}
+
+// ZaloPay return codes
+const SUCCESS = 1;
+const FAIL = 2;
+const PROCESSING = 3;
+
+export class ZaloPaySandbox {
+  readonly app: Express;
+  private readonly transactions = new Map<string, SandboxTransaction>(); // appTransId -> transaction
+  private readonly refunds = new Map<string, SandboxRefund>(); // mRefundId -> refund
+  private nextId = 240000000001;
+
+  constructor(private readonly options: ZaloPaySandboxOptions) {
+    this.app = express();
+    this.app.use(express.json());
+    this.app.use(express.urlencoded({ extended: true }));
+
+    this.app.post('/v2/create', (req, res) => this.createOrder(req, res));
+    this.app.post('/v2/query', (req, res) => this.queryOrder(req, res));
+    this.app.post('/v2/refund', (req, res) => this.refund(req, res));
+    this.app.post('/v2/query_refund', (req, res) => this.queryRefund(req, res));
+
+    // Sandbox-only: simulate the customer paying an order (sends the callback when configured)
+    this.app.post('/sandbox/orders/:appTransId/pay', (req, res) => this.payOrder(req, res));
+  }
+
+  /**
+   * Add an already paid transaction, e.g. to test refunds without going through an order
+   */
+  seedTransaction(data: { appTransId: string; amount: number; zpTransId?: string }): SandboxTransaction {
+    const transaction: SandboxTransaction = {
+      appTransId: data.appTransId,
+      zpTransId: data.zpTransId ?? this.generateId(),
+      amount: data.amount,
+      status: 'success',
+      embedData: '{}',
+    };
+    this.transactions.set(transaction.appTransId, transaction);
+    return transaction;
+  }
+
+  /**
+   * Get a refund by merchant refund ID
+   */
+  getRefund(mRefundId: string): SandboxRefund | undefined {
+    return this.refunds.get(mRefundId);
+  }
+
+  // ==================== Handlers ====================
+
+  private createOrder(req: Request, res: Response): void {
+    const body = req.body;
+    const hmacInput = `${body.app_id}|${body.app_trans_id}|${body.app_user}|${body.amount}|${body.app_time}|${body.embed_data}|${body.item}`;
+    if (!this.verifyRequest(body, hmacInput, res)) return;
+
+    if (this.transactions.has(body.app_trans_id)) {
+      this.fail(res, -68, 'Duplicate app_trans_id');
+      return;
+    }
+
+    const transaction: SandboxTransaction = {
+      appTransId: body.app_trans_id,
+      zpTransId: this.generateId(),
+      amount: Number(body.amount),
+      status: 'pending',
+      embedData: body.embed_data,
+      callbackUrl: body.callback_url,
+    };
+    this.transactions.set(transaction.appTransId, transaction);
+
+    const host = `${req.protocol}://${req.get('host')}`;
+    res.json({
+      return_code: SUCCESS,
+      return_message: 'Giao dịch thành công',
+      sub_return_code: 1,
+      sub_return_message: 'Giao dịch thành công',
+      order_url: `${host}/sandbox/orders/${transaction.appTransId}`,
+      zp_trans_token: crypto.randomBytes(16).toString('hex'),
+      order_token: crypto.randomBytes(16).toString('hex'),
+    });
+  }
+
+  private queryOrder(req: Request, res: Response): void {
+    const body = req.body;
+    const hmacInput = `${body.app_id}|${body.app_trans_id}|${this.options.key1}`;
+    if (!this.verifyRequest(body, hmacInput, res)) return;
+
+    const transaction = this.transactions.get(body.app_trans_id);
+    if (!transaction) {
+      this.fail(res, -92, 'Transaction not found');
+      return;
+    }
+
+    const paid = transaction.status === 'success';
+    res.json({
+      return_code: paid ? SUCCESS : PROCESSING,
+      return_message: paid ? 'Giao dịch thành công' : 'Giao dịch chưa được thanh toán',
+      sub_return_code: paid ? 1 : 3,
+      sub_return_message: '',
+      is_processing: !paid,
+      amount: transaction.amount,
+      discount_amount: 0,
+      zp_trans_id: paid ? Number(transaction.zpTransId) : 0,
+    });
+  }
+
+  private refund(req: Request, res: Response): void {
+    const body = req.body;
+    const hmacInput = `${body.app_id}|${body.zp_trans_id}|${body.amount}|${body.description}|${body.timestamp}`;
+    if (!this.verifyRequest(body, hmacInput, res)) return;
+
+    // m_refund_id must be yymmdd_appid_xxx
+    if (typeof body.m_refund_id !== 'string' || !new RegExp(`^\\d{6}_${this.options.appId}_\\w+$`).test(body.m_refund_id)) {
+      this.fail(res, -401, 'Invalid m_refund_id');
+      return;
+    }
+
+    // Resending a refund returns its current result
+    const existing = this.refunds.get(body.m_refund_id);
+    if (existing) {
+      this.sendRefundResult(res, existing);
+      return;
+    }
+
+    const transaction = [...this.transactions.values()].find(
+      (t) => t.zpTransId === String(body.zp_trans_id) && t.status === 'success'
+    );
+    if (!transaction) {
+      this.fail(res, -13, 'Transaction not found or not paid');
+      return;
+    }
+
+    const amount = Number(body.amount);
+    const refunded = [...this.refunds.values()]
+      .filter((r) => r.zpTransId === transaction.zpTransId && r.status !== 'failed')
+      .reduce((sum, r) => sum + r.amount, 0);
+    if (!Number.isInteger(amount) || amount <= 0 || refunded + amount > transaction.amount) {
+      this.fail(res, -14, 'Refund amount exceeds the transaction amount');
+      return;
+    }
+
+    const refund: SandboxRefund = {
+      mRefundId: body.m_refund_id,
+      refundId: Number(this.generateId()),
+      zpTransId: transaction.zpTransId,
+      amount,
+      status: this.options.refundResult ?? 'processing',
+    };
+    this.refunds.set(refund.mRefundId, refund);
+    this.sendRefundResult(res, refund);
+  }
+
+  private queryRefund(req: Request, res: Response): void {
+    const body = req.body;
+    const hmacInput = `${body.app_id}|${body.m_refund_id}|${body.timestamp}`;
+    if (!this.verifyRequest(body, hmacInput, res)) return;
+
+    const refund = this.refunds.get(body.m_refund_id);
+    if (!refund) {
+      this.fail(res, -101, 'Refund not found');
+      return;
+    }
+
+    // Processing refunds complete once they are queried
+    if (refund.status === 'processing') {
+      refund.status = 'success';
+    }
+
+    res.json({
+      return_code: refund.status === 'success' ? SUCCESS : FAIL,
+      return_message: refund.status === 'success' ? 'Hoàn tiền thành công' : 'Hoàn tiền thất bại',
+      sub_return_code: refund.status === 'success' ? 1 : -1,
+      sub_return_message: '',
+    });
+  }
+
+  private async payOrder(req: Request, res: Response): Promise<void> {
+    const transaction = this.transactions.get(String(req.params.appTransId));
+    if (!transaction) {
+      res.status(404).json({ error: 'Order not found' });
+      return;
+    }
+    transaction.status = 'success';
+
+    if (transaction.callbackUrl) {
+      const data = JSON.stringify({
+        app_id: this.options.appId,
+        app_trans_id: transaction.appTransId,
+        app_time: Date.now(),
+        app_user: 'sandbox',
+        amount: transaction.amount,
+        embed_data: transaction.embedData,
+        item: '[]',
+        zp_trans_id: Number(transaction.zpTransId),
+        server_time: Date.now(),
+        channel: 38,
+        merchant_user_id: 'sandbox',
+        user_fee_amount: 0,
+        discount_amount: 0,
+      });
+      const mac = crypto.createHmac('sha256', this.options.key2).update(data).digest('hex');
+      await fetch(transaction.callbackUrl, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ data, mac, type: 1 }),
+      }).catch((error) => console.error('ZaloPay sandbox callback failed:', error));
+    }
+
+    res.json({ appTransId: transaction.appTransId, zpTransId: transaction.zpTransId, status: transaction.status });
+  }
+
+  // ==================== Private Helper Methods ====================
+
+  /**
+   * Check app_id and MAC (HMAC-SHA256 with key1), answering with a failure when invalid
+   */
+  private verifyRequest(body: Record<string, unknown>, hmacInput: string, res: Response): boolean {
+    if (Number(body.app_id) !== this.options.appId) {
+      this.fail(res, -2, 'Invalid app_id');
+      return false;
+    }
+    const expectedMac = crypto.createHmac('sha256', this.options.key1).update(hmacInput).digest('hex');
+    if (body.mac !== expectedMac) {
+      this.fail(res, -402, 'Invalid mac');
+      return false;
+    }
+    return true;
+  }
+
+  private sendRefundResult(res: Response, refund: SandboxRefund): void {
+    const returnCode = refund.status === 'success' ? SUCCESS : refund.status === 'processing' ? PROCESSING : FAIL;
+    res.json({
+      return_code: returnCode,
+      return_message: returnCode === FAIL ? 'Hoàn tiền thất bại' : 'Giao dịch hoàn tiền đã được tiếp nhận',
+      sub_return_code: returnCode === FAIL ? -1 : returnCode,
+      sub_return_message: '',
+      refund_id: refund.refundId,
+    });
+  }
+
+  private fail(res: Response, subReturnCode: number, message: string): void {
+    res.json({
+      return_code: FAIL,
+      return_message: message,
+      sub_return_code: subReturnCode,
+      sub_return_message: message,
+    });
+  }
+
+  private generateId(): string {
+    return String(this.nextId++);
+  }
+}
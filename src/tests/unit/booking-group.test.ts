@@ -1,6 +1,8 @@
 import { jest, describe, it, expect, beforeEach } from '@jest/globals';
 import { availabilityService } from '../../services/availability.service.js';
+import { webhookService } from '../../services/webhook.service.js';
 import { availabilityRepository } from '../../repositories/availability.repository.js';
+import { courtRepository } from '../../repositories/court.repository.js';
 import { BadRequestError } from '../../utils/errors.js';
 
 jest.mock('../../config/database.js', () => ({
@@ -14,6 +16,7 @@ jest.mock('../../config/database.js', () => ({
 describe('AvailabilityService - Group Booking', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
   });
 
   it('should create multiple bookings with same groupId', async () => {
@@ -31,6 +34,7 @@ describe('AvailabilityService - Group Booking', () => {
     jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue({
       id: 'sc1', court_id: 'c1', name: 'Sub Court 1', is_active: true
     } as any);
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue({ id: 'c1', openingHours: {}, dynamicPricing: null } as any);
     jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
     jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
     jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
@@ -42,6 +46,10 @@ describe('AvailabilityService - Group Booking', () => {
       id,
       sub_court_id: id === 'id1' ? 'sc1' : 'sc2',
       total_price: 50000,
+      original_price: 50000,
+      discount_amount: 0,
+      voucher_code: null,
+      user_package_id: null,
       status: 'pending',
       created_at: new Date(),
       date: new Date('2025-12-25'),
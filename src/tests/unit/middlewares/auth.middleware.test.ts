@@ -0,0 +1,347 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import type { Response, NextFunction } from 'express';
+import {
+  requireRole,
+  requireCourtPermission,
+  requireBookingAccess,
+  requireRefundAccess,
+  requireSplitPaymentAccess,
+  requireVerifiedPhone,
+  type AuthRequest,
+} from '../../../middlewares/auth.middleware.js';
+import { courtService } from '../../../services/court.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { refundService } from '../../../services/refund.service.js';
+import { splitPaymentService } from '../../../services/split-payment.service.js';
+import { firebaseService } from '../../../services/firebase.service.js';
+import { AppError } from '../../../utils/errors.js';
+import { createBookingAccessToken, createSplitAccessToken } from '../../../utils/booking-access.js';
+import {
+  googleUserProfileDto,
+  decodedGoogleToken,
+  validCourtId,
+  validBookingId,
+  validUserId2,
+} from '../../fixtures/index.js';
+import type { UserProfileDto } from '../../../types/auth.types.js';
+
+function createRequest(
+  user?: Partial<UserProfileDto>,
+  params: Record<string, string> = {},
+  headers: Record<string, string> = {}
+): AuthRequest {
+  return {
+    user: user ? { ...googleUserProfileDto, ...user } : undefined,
+    params,
+    headers,
+  } as unknown as AuthRequest;
+}
+
+function getError(next: jest.Mock): AppError | undefined {
+  return next.mock.calls[0]?.[0] as AppError | undefined;
+}
+
+describe('Role Middleware', () => {
+  let mockRes: Response;
+  let mockNext: jest.Mock;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockRes = {} as Response;
+    mockNext = jest.fn();
+  });
+
+  describe('requireRole', () => {
+    it('should reject unauthenticated requests with 401', () => {
+      requireRole('venue_owner')(createRequest(), mockRes, mockNext as unknown as NextFunction);
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+
+    it('should reject users without an allowed role with 403', () => {
+      requireRole('venue_owner')(createRequest({ role: 'player' }), mockRes, mockNext as unknown as NextFunction);
+
+      expect(getError(mockNext)?.statusCode).toBe(403);
+      expect(getError(mockNext)?.code).toBe('INSUFFICIENT_ROLE');
+    });
+
+    it('should allow users with an allowed role', () => {
+      requireRole('venue_owner', 'venue_staff')(
+        createRequest({ role: 'venue_staff' }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should always allow platform admins', () => {
+      requireRole('venue_owner')(createRequest({ role: 'platform_admin' }), mockRes, mockNext as unknown as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('requireCourtPermission', () => {
+    it('should reject unauthenticated requests with 401', async () => {
+      await requireCourtPermission()(
+        createRequest(undefined, { courtId: validCourtId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+
+    it('should reject users who are not members of the court', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue(null);
+
+      await requireCourtPermission()(
+        createRequest({ role: 'venue_owner' }, { courtId: validCourtId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(403);
+      expect(getError(mockNext)?.code).toBe('COURT_PERMISSION_DENIED');
+    });
+
+    it('should reject staff on owner-only routes', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue('staff');
+
+      await requireCourtPermission(['owner'], 'id')(
+        createRequest({ role: 'venue_staff' }, { id: validCourtId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(403);
+    });
+
+    it('should allow members with an allowed role and expose their court role', async () => {
+      const getMemberRole = jest.spyOn(courtService, 'getMemberRole').mockResolvedValue('staff');
+      const req = createRequest({ role: 'venue_staff' }, { courtId: validCourtId });
+
+      await requireCourtPermission()(req, mockRes, mockNext as unknown as NextFunction);
+
+      expect(getMemberRole).toHaveBeenCalledWith(validCourtId, googleUserProfileDto.id);
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(req.courtRole).toBe('staff');
+    });
+
+    it('should allow platform admins without a membership lookup', async () => {
+      const getMemberRole = jest.spyOn(courtService, 'getMemberRole');
+
+      await requireCourtPermission(['owner'])(
+        createRequest({ role: 'platform_admin' }, { courtId: validCourtId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getMemberRole).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+  });
+
+  describe('requireBookingAccess', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(availabilityService, 'getBookingOwnership')
+        .mockResolvedValue({ userId: googleUserProfileDto.id, courtId: validCourtId });
+    });
+
+    it('should allow a valid guest access token without signing in', async () => {
+      const getOwnership = jest.spyOn(availabilityService, 'getBookingOwnership');
+
+      await requireBookingAccess()(
+        createRequest(undefined, { id: validBookingId }, { 'x-booking-token': createBookingAccessToken(validBookingId) }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getOwnership).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject an access token issued for another booking', async () => {
+      await requireBookingAccess()(
+        createRequest(
+          undefined,
+          { id: validBookingId },
+          { 'x-booking-token': createBookingAccessToken('e0eebc99-9c0b-4ef8-bb6d-6bb9bd380a56') }
+        ),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+
+    it('should reject an expired access token', async () => {
+      const issuedLongAgo = createBookingAccessToken(validBookingId, new Date('2020-01-01T00:00:00.000Z'));
+
+      await requireBookingAccess()(
+        createRequest(undefined, { id: validBookingId }, { 'x-booking-token': issuedLongAgo }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+
+    it('should allow the booking owner', async () => {
+      await requireBookingAccess()(
+        createRequest({}, { id: validBookingId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should allow staff of the booking court', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue('staff');
+
+      await requireBookingAccess()(
+        createRequest({ id: validUserId2, role: 'venue_staff' }, { id: validBookingId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should reject other users with 403', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue(null);
+
+      await requireBookingAccess()(
+        createRequest({ id: validUserId2 }, { id: validBookingId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(403);
+      expect(getError(mockNext)?.code).toBe('BOOKING_ACCESS_DENIED');
+    });
+  });
+
+  describe('requireRefundAccess', () => {
+    const refundId = 'e7eebc99-9c0b-4ef8-bb6d-6bb9bd380a57';
+
+    beforeEach(() => {
+      jest.spyOn(refundService, 'getRefundBookingId').mockResolvedValue(validBookingId);
+    });
+
+    it('should allow the access token of the refunded booking', async () => {
+      await requireRefundAccess()(
+        createRequest(undefined, { id: refundId }, { 'x-booking-token': createBookingAccessToken(validBookingId) }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(refundService.getRefundBookingId).toHaveBeenCalledWith(refundId);
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should require signing in without an access token', async () => {
+      await requireRefundAccess()(
+        createRequest(undefined, { id: refundId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+
+    it('should reject users without access to the refunded booking', async () => {
+      jest
+        .spyOn(availabilityService, 'getBookingOwnership')
+        .mockResolvedValue({ userId: googleUserProfileDto.id, courtId: validCourtId });
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue(null);
+
+      await requireRefundAccess()(
+        createRequest({ id: validUserId2 }, { id: refundId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.code).toBe('BOOKING_ACCESS_DENIED');
+    });
+  });
+
+  describe('requireSplitPaymentAccess', () => {
+    const splitPaymentId = 'c1eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+
+    beforeEach(() => {
+      jest.spyOn(splitPaymentService, 'getSplitBookingId').mockResolvedValue(validBookingId);
+    });
+
+    it('should allow the share token of the split without signing in', async () => {
+      await requireSplitPaymentAccess()(
+        createRequest(undefined, { id: splitPaymentId }, { 'x-share-token': createSplitAccessToken(splitPaymentId) }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(splitPaymentService.getSplitBookingId).not.toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should allow the access token of the booking the split is paid against', async () => {
+      await requireSplitPaymentAccess()(
+        createRequest(undefined, { id: splitPaymentId }, { 'x-booking-token': createBookingAccessToken(validBookingId) }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should not take a share token as a booking access token', async () => {
+      await requireBookingAccess()(
+        createRequest(undefined, { id: splitPaymentId }, { 'x-booking-token': createSplitAccessToken(splitPaymentId) }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+
+    it('should require a token or signing in', async () => {
+      await requireSplitPaymentAccess()(
+        createRequest(undefined, { id: splitPaymentId }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(401);
+    });
+  });
+
+  describe('requireVerifiedPhone', () => {
+    it('should expose the verified phone in local form', async () => {
+      jest
+        .spyOn(firebaseService, 'verifyIdToken')
+        .mockResolvedValue({ ...decodedGoogleToken, phone_number: '+84901234567' });
+      const req = createRequest(undefined, {}, { authorization: 'Bearer phone-token' });
+
+      await requireVerifiedPhone(req, mockRes, mockNext as unknown as NextFunction);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(req.verifiedPhone).toBe('0901234567');
+    });
+
+    it('should reject tokens without a verified phone', async () => {
+      jest.spyOn(firebaseService, 'verifyIdToken').mockResolvedValue({ ...decodedGoogleToken, phone_number: undefined });
+
+      await requireVerifiedPhone(
+        createRequest(undefined, {}, { authorization: 'Bearer google-token' }),
+        mockRes,
+        mockNext as unknown as NextFunction
+      );
+
+      expect(getError(mockNext)?.statusCode).toBe(403);
+      expect(getError(mockNext)?.code).toBe('PHONE_NOT_VERIFIED');
+    });
+  });
+});
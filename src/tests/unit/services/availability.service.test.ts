@@ -0,0 +1,220 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { availabilityService } from '../../../services/availability.service.js';
+import { availabilityRepository, courtRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleCourt, validCourtId } from '../../fixtures/index.js';
+
+const subCourtId = 'f1eebc99-9c0b-4ef8-bb6d-6bb9bd380a71';
+
+// Open 08:00-10:00 on weekdays and closed at the weekend
+const court = {
+  ...sampleCourt,
+  openingHours: Object.fromEntries(['mon', 'tue', 'wed', 'thu', 'fri'].map((day) => [day, '08:00-10:00'])),
+  bookingPolicy: null,
+  dynamicPricing: null,
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('AvailabilityService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(court as never);
+    jest.spyOn(availabilityRepository, 'getSubCourtsByCourtId').mockResolvedValue([
+      { id: subCourtId, court_id: validCourtId, name: 'Sân 1', description: null, is_active: true, surface_type: 'wooden' },
+    ] as never);
+    jest.spyOn(availabilityRepository, 'getBookingsByCourtAndDateRange').mockResolvedValue([
+      { id: 'booking-1', sub_court_id: subCourtId, date: new Date('2099-12-15'), start_time: '08:00', end_time: '09:00', status: 'confirmed' },
+    ] as never);
+    jest.spyOn(availabilityRepository, 'getClosuresByCourtAndDateRange').mockResolvedValue([
+      { id: 'closure-1', sub_court_id: subCourtId, date: new Date('2099-12-16'), start_time: null, end_time: null, reason: 'Maintenance' },
+    ]);
+    jest.spyOn(availabilityRepository, 'getHolidayInfoByDateRange').mockResolvedValue(
+      new Map([['2099-12-17', { isHoliday: true, multiplier: 1.5 }]])
+    );
+    jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([
+      { start_time: '08:00', end_time: '09:00', price_per_hour: 80000, day_type: 'weekday', is_active: true },
+      { start_time: '09:00', end_time: '10:00', price_per_hour: 60000, day_type: 'weekday', is_active: true },
+      { start_time: '00:00', end_time: '23:59', price_per_hour: 100000, day_type: 'holiday', is_active: true },
+    ] as never);
+  });
+
+  describe('getCourtAvailabilityRange', () => {
+    it('should build each day from the range queries without per-day lookups', async () => {
+      const isHoliday = jest.spyOn(availabilityRepository, 'isHoliday');
+      const getBookings = jest.spyOn(availabilityRepository, 'getBookingsByCourtAndDate');
+
+      // Tue 15 to Sun 20 December 2099
+      const calendar = await availabilityService.getCourtAvailabilityRange(validCourtId, '2099-12-15', '2099-12-20');
+
+      expect(calendar.days.map((day) => [day.date, day.dayType, day.isOpen])).toEqual([
+        ['2099-12-15', 'weekday', true],
+        ['2099-12-16', 'weekday', true],
+        ['2099-12-17', 'holiday', true],
+        ['2099-12-18', 'weekday', true],
+        ['2099-12-19', 'weekend', false],
+        ['2099-12-20', 'weekend', false],
+      ]);
+      expect(availabilityRepository.getBookingsByCourtAndDateRange).toHaveBeenCalledTimes(1);
+      expect(isHoliday).not.toHaveBeenCalled();
+      expect(getBookings).not.toHaveBeenCalled();
+    });
+
+    it('should summarize the free hours and cheapest slot of each day', async () => {
+      const calendar = await availabilityService.getCourtAvailabilityRange(validCourtId, '2099-12-15', '2099-12-17');
+      const [booked, closed, holiday] = calendar.days;
+
+      expect(booked).toMatchObject({
+        occupancyPercent: 50,
+        summary: {
+          freeHours: 1,
+          cheapestSlot: { subCourtId, subCourtName: 'Sân 1', startTime: '09:00', endTime: '09:30', price: 30000 },
+        },
+      });
+      expect(closed?.summary).toEqual({ freeHours: 0, cheapestSlot: null });
+      expect(holiday?.summary).toMatchObject({ freeHours: 2, cheapestSlot: { startTime: '08:00', price: 75000 } });
+    });
+
+    it('should reject ranges longer than 14 days', async () => {
+      const error = await getError(availabilityService.getCourtAvailabilityRange(validCourtId, '2099-12-01', '2099-12-15'));
+
+      expect(error?.statusCode).toBe(400);
+      expect(courtRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should reject a range ending before it starts', async () => {
+      const error = await getError(availabilityService.getCourtAvailabilityRange(validCourtId, '2099-12-15', '2099-12-14'));
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('searchAvailableSlots', () => {
+    const nearCourtId = 'f2eebc99-9c0b-4ef8-bb6d-6bb9bd380a72';
+    const farCourtId = 'f3eebc99-9c0b-4ef8-bb6d-6bb9bd380a73';
+    const hourlyCourtId = 'f4eebc99-9c0b-4ef8-bb6d-6bb9bd380a74';
+    const openAllWeek = Object.fromEntries(
+      ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].map((day) => [day, '06:00-22:00'])
+    );
+    // Saturday 18:00-20:00
+    const params = { latitude: 21.03, longitude: 105.85, date: '2099-12-19', startTime: '18:00', endTime: '20:00' };
+
+    beforeEach(() => {
+      jest.spyOn(courtRepository, 'findNearby').mockResolvedValue([
+        { id: nearCourtId, distance: 450.4 },
+        { id: farCourtId, distance: 2100 },
+        { id: hourlyCourtId, distance: 3000 },
+      ] as never);
+      jest.spyOn(courtRepository, 'findByIds').mockResolvedValue([
+        { ...court, id: nearCourtId, name: 'Near', openingHours: openAllWeek },
+        { ...court, id: farCourtId, name: 'Far', openingHours: openAllWeek },
+        // Opens at 06:30 on a 60-minute grid, so 18:00 is off the grid
+        {
+          ...court,
+          id: hourlyCourtId,
+          name: 'Hourly',
+          openingHours: { sat: '06:30-22:30' },
+          bookingPolicy: { slotMinutes: 60 },
+        },
+      ] as never);
+      jest.spyOn(availabilityRepository, 'getSubCourtsByCourtIds').mockResolvedValue([
+        { id: 'near-1', court_id: nearCourtId, name: 'Sân 1', description: null, is_active: true, surface_type: 'wooden' },
+        { id: 'near-2', court_id: nearCourtId, name: 'Sân 2', description: null, is_active: true, surface_type: 'wooden' },
+        { id: 'far-1', court_id: farCourtId, name: 'Sân A', description: null, is_active: true, surface_type: 'pu' },
+        { id: 'hourly-1', court_id: hourlyCourtId, name: 'Sân 1', description: null, is_active: true, surface_type: 'pu' },
+      ]);
+      jest.spyOn(availabilityRepository, 'getPricingRulesByCourtIds').mockResolvedValue([
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 160000, day_type: 'weekend', is_active: true, court_id: nearCourtId },
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 120000, day_type: 'weekend', is_active: true, court_id: farCourtId },
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 90000, day_type: 'weekend', is_active: true, court_id: hourlyCourtId },
+      ] as never);
+      jest.spyOn(availabilityRepository, 'getBookingsByCourtIdsAndDate').mockResolvedValue([
+        { id: 'booking-1', sub_court_id: 'near-1', date: new Date('2099-12-19'), start_time: '19:00', end_time: '21:00', status: 'confirmed' },
+      ] as never);
+      jest.spyOn(availabilityRepository, 'getClosuresByCourtIdsAndDate').mockResolvedValue([]);
+      jest.spyOn(availabilityRepository, 'getHolidayInfoByCourtIds').mockResolvedValue(new Map());
+    });
+
+    it('should return venues with the sub-courts free for the whole window, nearest first', async () => {
+      const results = await availabilityService.searchAvailableSlots(params);
+
+      expect(results).toEqual([
+        expect.objectContaining({
+          courtId: nearCourtId,
+          distance: 450,
+          totalPrice: 320000,
+          pricePerHour: 160000,
+          subCourts: [{ id: 'near-2', name: 'Sân 2', surfaceType: 'wooden' }],
+        }),
+        expect.objectContaining({ courtId: farCourtId, pricePerHour: 120000 }),
+      ]);
+    });
+
+    it('should filter by hourly price and sort by price', async () => {
+      jest.spyOn(availabilityRepository, 'getBookingsByCourtIdsAndDate').mockResolvedValue([]);
+
+      const results = await availabilityService.searchAvailableSlots({
+        ...params,
+        startTime: '18:30',
+        endTime: '20:30',
+        maxPricePerHour: 150000,
+        sort: 'price',
+      });
+
+      expect(results.map((result) => result.courtId)).toEqual([hourlyCourtId, farCourtId]);
+    });
+
+    it('should return nothing when no court is nearby', async () => {
+      jest.spyOn(courtRepository, 'findNearby').mockResolvedValue([]);
+      const findByIds = jest.spyOn(courtRepository, 'findByIds');
+
+      const results = await availabilityService.searchAvailableSlots(params);
+
+      expect(results).toEqual([]);
+      expect(findByIds).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown sort', async () => {
+      const error = await getError(availabilityService.searchAvailableSlots({ ...params, sort: 'rating' as never }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('getBookingRuleViolations', () => {
+    it('should check opening hours, the policy and how many bookings the user holds', async () => {
+      jest
+        .spyOn(courtRepository, 'findById')
+        .mockResolvedValue({ ...court, bookingPolicy: { maxActiveBookingsPerUser: 2 } } as never);
+      jest.spyOn(availabilityRepository, 'countActiveBookingsByUser').mockResolvedValue(1);
+      const slot = { date: '2099-12-15', startTime: '08:00', endTime: '09:00' };
+
+      const violations = await availabilityService.getBookingRuleViolations(
+        validCourtId,
+        [
+          { date: '2099-12-19', startTime: '08:00', endTime: '09:00' },
+          { date: '2099-12-15', startTime: '09:00', endTime: '11:00' },
+          { date: '2099-12-15', startTime: '08:00', endTime: '08:30' },
+          slot,
+          { ...slot, date: '2099-12-22' },
+        ],
+        'user-1'
+      );
+
+      expect(violations).toEqual([
+        'The court is closed on 2099-12-19',
+        'Bookings must be within opening hours (08:00-10:00)',
+        'Minimum booking duration is 60 minutes',
+        null,
+        'You can hold at most 2 upcoming bookings at this court',
+      ]);
+    });
+  });
+});
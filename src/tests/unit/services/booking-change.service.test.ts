@@ -0,0 +1,256 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { prisma } from '../../../config/database.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { bookingChangeService } from '../../../services/booking-change.service.js';
+import { zaloPayService } from '../../../services/zalopay.service.js';
+import { redisService } from '../../../services/redis.service.js';
+import { refundService } from '../../../services/refund.service.js';
+import { waitlistService } from '../../../services/waitlist.service.js';
+import { websocketService } from '../../../services/websocket.service.js';
+import { webhookService } from '../../../services/webhook.service.js';
+import {
+  availabilityRepository,
+  bookingChangeRepository,
+  courtRepository,
+  notificationRepository,
+  paymentRepository,
+} from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleBooking, sampleCourt, validUserId } from '../../fixtures/index.js';
+
+const changeId = 'd1eebc99-9c0b-4ef8-bb6d-6bb9bd380a91';
+const paymentId = 'd2eebc99-9c0b-4ef8-bb6d-6bb9bd380a92';
+
+// Confirmed booking on Tue 15 December 2099, 10:00-12:00
+const booking = {
+  ...sampleBooking,
+  group_id: null,
+  status: 'confirmed',
+  date: new Date('2099-12-15'),
+};
+
+const court = { ...sampleCourt, bookingPolicy: { changeDeadlineHours: 24 }, dynamicPricing: null };
+
+function change(status: string = 'pending') {
+  return {
+    id: changeId,
+    booking_id: booking.id,
+    court_id: booking.court_id,
+    from_sub_court_id: booking.sub_court_id,
+    from_sub_court_name: 'Sân 1',
+    from_date: new Date('2099-12-15'),
+    from_start_time: '10:00',
+    from_end_time: '12:00',
+    to_sub_court_id: booking.sub_court_id,
+    to_sub_court_name: 'Sân 1',
+    to_date: new Date('2099-12-16'),
+    to_start_time: '18:00',
+    to_end_time: '20:00',
+    old_price: 140000,
+    new_original_price: 200000,
+    new_price: 200000,
+    status,
+    changed_by: null,
+    created_at: new Date('2099-12-01T08:00:00.000Z'),
+    updated_at: new Date('2099-12-01T08:00:00.000Z'),
+  };
+}
+
+const changePayment = {
+  id: paymentId,
+  bookingId: booking.id,
+  appTransId: '991201_bd380a55123',
+  zpTransId: null,
+  zpTransToken: null,
+  amount: 60000,
+  status: 'pending',
+  orderUrl: 'https://sb-openapi.zalopay.vn/order',
+  callbackData: null,
+  splitPaymentId: null,
+  shareNumber: null,
+  bookingChangeId: changeId,
+  createdAt: new Date('2099-12-01T08:00:00.000Z'),
+  updatedAt: new Date('2099-12-01T08:00:00.000Z'),
+  booking: { userId: null as string | null },
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('BookingChangeService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
+    jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue(booking);
+    jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
+    jest.spyOn(availabilityRepository, 'getClosuresByCourtAndDate').mockResolvedValue([]);
+    jest.spyOn(availabilityRepository, 'moveBooking').mockResolvedValue(true);
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(court as never);
+    jest.spyOn(bookingChangeRepository, 'findPendingByBookingId').mockResolvedValue(null);
+    jest.spyOn(bookingChangeRepository, 'create').mockResolvedValue(changeId);
+    jest.spyOn(bookingChangeRepository, 'close').mockResolvedValue(true);
+    jest.spyOn(bookingChangeRepository, 'lockPending').mockResolvedValue(true);
+    jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(true);
+    jest.spyOn(redisService, 'releaseSlotLocks').mockResolvedValue();
+    jest.spyOn(waitlistService, 'releaseSlots').mockResolvedValue();
+    jest.spyOn(websocketService, 'notifyPaymentStatus').mockImplementation(() => undefined);
+    jest.spyOn(prisma, '$transaction').mockImplementation((async (fn: (tx: unknown) => unknown) => fn({})) as never);
+  });
+
+  describe('changeBooking', () => {
+    it('should hold the new slot and charge the difference when the move costs more', async () => {
+      jest.spyOn(availabilityService, 'getPriceQuote').mockResolvedValue({ totalPrice: 200000, adjustments: [] });
+      jest.spyOn(bookingChangeRepository, 'findById').mockResolvedValue(change());
+      jest.spyOn(zaloPayService, 'isConfigured').mockReturnValue(true);
+      const createOrder = jest.spyOn(zaloPayService, 'createOrder').mockResolvedValue({
+        return_code: 1,
+        return_message: 'Success',
+        sub_return_code: 1,
+        sub_return_message: '',
+        order_url: 'https://sb-openapi.zalopay.vn/order',
+      });
+      const createPayment = jest.spyOn(paymentRepository, 'create').mockResolvedValue(changePayment as never);
+
+      const result = await availabilityService.changeBooking(booking.id, { date: '2099-12-16', startTime: '18:00', endTime: '20:00' });
+
+      expect(createOrder).toHaveBeenCalledWith(expect.objectContaining({ amount: 60000 }));
+      expect(createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ bookingId: booking.id, amount: 60000, bookingChangeId: changeId }),
+        {}
+      );
+      expect(redisService.acquireSlotLocks).toHaveBeenCalledWith([
+        expect.objectContaining({ date: '2099-12-16', startTime: '18:00', endTime: '20:00' }),
+      ]);
+      expect(redisService.releaseSlotLocks).not.toHaveBeenCalled();
+      expect(availabilityRepository.moveBooking).not.toHaveBeenCalled();
+      expect(result.booking.date).toBe('2099-12-15');
+      expect(result.change).toMatchObject({ status: 'pending', priceDifference: 60000 });
+      expect(result.payment?.payment.bookingChangeId).toBe(changeId);
+    });
+
+    it('should move the booking at once and refund the difference when the move costs less', async () => {
+      jest.spyOn(availabilityService, 'getPriceQuote').mockResolvedValue({ totalPrice: 100000, adjustments: [] });
+      jest.spyOn(bookingChangeRepository, 'findById').mockResolvedValue({ ...change('completed'), new_price: 100000 });
+      const refund = jest.spyOn(refundService, 'refundBookingAmount').mockResolvedValue([]);
+
+      const result = await availabilityService.changeBooking(booking.id, { date: '2099-12-16', startTime: '08:00', endTime: '10:00' });
+
+      expect(availabilityRepository.moveBooking).toHaveBeenCalledWith(
+        booking.id,
+        'confirmed',
+        expect.objectContaining({ date: '2099-12-16', startTime: '08:00', totalPrice: 100000 }),
+        {}
+      );
+      expect(refund).toHaveBeenCalledWith(booking, 40000, 140000, expect.any(String));
+      expect(redisService.releaseSlotLocks).toHaveBeenCalled();
+      expect(waitlistService.releaseSlots).toHaveBeenCalledWith([
+        { subCourtId: booking.sub_court_id, date: '2099-12-15', startTime: '10:00', endTime: '12:00' },
+      ]);
+      expect(result.payment).toBeNull();
+      expect(result.change.priceDifference).toBe(-40000);
+    });
+
+    it('should stop players moving a confirmed booking past the change deadline', async () => {
+      const start = new Date(Date.now() + (2 + 7) * 60 * 60 * 1000).toISOString();
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue({
+        ...booking,
+        date: new Date(start.slice(0, 10)),
+        start_time: start.slice(11, 16),
+        end_time: '23:59',
+      });
+
+      const error = await getError(
+        availabilityService.changeBooking(booking.id, { date: '2099-12-16', startTime: '08:00', endTime: '10:00' }, { enforceDeadline: true })
+      );
+
+      expect(error?.message).toBe('Bookings can no longer be changed less than 24 hours before they start');
+      expect(redisService.acquireSlotLocks).not.toHaveBeenCalled();
+    });
+
+    it('should keep bookings paid with a package to the same length', async () => {
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue({
+        ...booking,
+        user_package_id: 'd3eebc99-9c0b-4ef8-bb6d-6bb9bd380a93',
+      });
+
+      const error = await getError(availabilityService.changeBooking(booking.id, { endTime: '13:00' }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject a slot that is already booked', async () => {
+      jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(true);
+
+      const error = await getError(availabilityService.changeBooking(booking.id, { startTime: '14:00', endTime: '16:00' }));
+
+      expect(availabilityRepository.hasOverlappingBooking).toHaveBeenCalledWith(
+        booking.sub_court_id,
+        '2099-12-15',
+        '14:00',
+        '16:00',
+        booking.id
+      );
+      expect(error?.statusCode).toBe(409);
+    });
+  });
+
+  describe('settlePayment', () => {
+    it('should move the booking once the difference is paid', async () => {
+      jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue({ ...changePayment, status: 'success' } as never);
+      jest.spyOn(bookingChangeRepository, 'findById').mockResolvedValue(change());
+
+      await bookingChangeService.settlePayment(changePayment, { status: 'success', zpTransId: '240000000001' });
+
+      expect(availabilityRepository.moveBooking).toHaveBeenCalledWith(
+        booking.id,
+        'confirmed',
+        expect.objectContaining({ date: '2099-12-16', startTime: '18:00', originalPrice: 200000, totalPrice: 200000 }),
+        {}
+      );
+      expect(bookingChangeRepository.close).toHaveBeenCalledWith(changeId, 'completed', {});
+      expect(waitlistService.releaseSlots).toHaveBeenCalled();
+    });
+
+    it("should keep the payment status in the booker's outbox with the move", async () => {
+      const payment = { ...changePayment, booking: { userId: validUserId } };
+      jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue({ ...changePayment, status: 'success' } as never);
+      jest.spyOn(bookingChangeRepository, 'findById').mockResolvedValue(change());
+      const record = jest.spyOn(notificationRepository, 'create').mockResolvedValue({ seq: 12 } as never);
+
+      await bookingChangeService.settlePayment(payment, { status: 'success', zpTransId: '240000000001' });
+
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: validUserId,
+          payload: expect.objectContaining({ message: 'Payment successful! Your booking has been moved.' }),
+        }),
+        {}
+      );
+      expect(websocketService.notifyPaymentStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId, status: 'success', seq: 12 })
+      );
+    });
+
+    it('should refund a difference paid after the change expired', async () => {
+      const updated = { ...changePayment, status: 'success', zpTransId: '240000000001' };
+      jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue(updated as never);
+      jest.spyOn(bookingChangeRepository, 'findById').mockResolvedValue(change('expired'));
+      const refund = jest.spyOn(refundService, 'refundPayment').mockResolvedValue(null);
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      await bookingChangeService.settlePayment(
+        { ...changePayment, status: 'failed' },
+        { status: 'success', zpTransId: '240000000001' }
+      );
+
+      expect(availabilityRepository.moveBooking).not.toHaveBeenCalled();
+      expect(refund).toHaveBeenCalledWith(updated, expect.any(String));
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { bookingPolicyService } from '../../../services/booking-policy.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { refundService } from '../../../services/refund.service.js';
+import { availabilityRepository, courtRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { DEFAULT_BOOKING_POLICY } from '../../../utils/booking-policy.js';
+import { sampleBooking, sampleCourt, validCourtId, validUserId } from '../../fixtures/index.js';
+import type { BookingPolicy } from '../../../types/index.js';
+
+const policy: BookingPolicy = {
+  minDurationMinutes: 60,
+  maxDurationMinutes: 120,
+  slotMinutes: 60,
+  maxAdvanceDays: 30,
+  minNoticeMinutes: 60,
+  maxActiveBookingsPerUser: 2,
+  cancellationDeadlineHours: 12,
+  changeDeadlineHours: 6,
+};
+
+const court = { ...sampleCourt, bookingPolicy: policy, dynamicPricing: null };
+
+const booking = {
+  subCourtId: sampleBooking.sub_court_id,
+  guestName: 'Nguyễn Văn A',
+  guestPhone: '0901234567',
+  userId: validUserId,
+};
+
+// Vietnam local date and time a number of hours from now
+function getLocalDateTime(hoursFromNow: number): { date: string; time: string } {
+  const local = new Date(Date.now() + (hoursFromNow + 7) * 60 * 60 * 1000).toISOString();
+  return { date: local.slice(0, 10), time: local.slice(11, 16) };
+}
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('BookingPolicyService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(court as never);
+  });
+
+  describe('updatePolicy', () => {
+    it('should fill fields left out with the platform default', async () => {
+      const update = jest.spyOn(courtRepository, 'updateBookingPolicy').mockResolvedValue(court as never);
+
+      const result = await bookingPolicyService.updatePolicy(validCourtId, { maxActiveBookingsPerUser: 3 });
+
+      expect(update).toHaveBeenCalledWith(validCourtId, { ...DEFAULT_BOOKING_POLICY, maxActiveBookingsPerUser: 3 });
+      expect(result).toMatchObject({ courtId: validCourtId, isDefault: false, maxActiveBookingsPerUser: 3 });
+    });
+
+    it('should reject a slot size other than 30 or 60 minutes', async () => {
+      const error = await getError(bookingPolicyService.updatePolicy(validCourtId, { slotMinutes: 45 as never }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject durations off the slot grid', async () => {
+      const error = await getError(
+        bookingPolicyService.updatePolicy(validCourtId, { slotMinutes: 60, minDurationMinutes: 90 })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject a maximum duration below the minimum', async () => {
+      const error = await getError(
+        bookingPolicyService.updatePolicy(validCourtId, { minDurationMinutes: 120, maxDurationMinutes: 60 })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('createBooking', () => {
+    beforeEach(() => {
+      jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue({
+        id: sampleBooking.sub_court_id,
+        court_id: validCourtId,
+        name: 'Sân 1',
+        is_active: true,
+      } as never);
+      jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
+    });
+
+    it('should reject bookings longer than the maximum duration', async () => {
+      const { date } = getLocalDateTime(48);
+
+      const error = await getError(
+        availabilityService.createBooking({ ...booking, date, startTime: '08:00', endTime: '11:00' })
+      );
+
+      expect(error?.message).toBe('Maximum booking duration is 120 minutes');
+    });
+
+    it('should reject bookings off the 60-minute grid', async () => {
+      const { date } = getLocalDateTime(48);
+
+      const error = await getError(
+        availabilityService.createBooking({ ...booking, date, startTime: '08:30', endTime: '09:30' })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject bookings beyond how far ahead booking opens', async () => {
+      const error = await getError(
+        availabilityService.createBooking({ ...booking, date: '2099-12-15', startTime: '08:00', endTime: '09:00' })
+      );
+
+      expect(error?.message).toBe('Bookings open 30 days ahead');
+    });
+
+    it('should reject users holding the maximum number of upcoming bookings', async () => {
+      const { date } = getLocalDateTime(48);
+      jest.spyOn(availabilityRepository, 'countActiveBookingsByUser').mockResolvedValue(2);
+      const createBookings = jest.spyOn(availabilityRepository, 'createBookings');
+
+      const error = await getError(
+        availabilityService.createBooking({ ...booking, date, startTime: '08:00', endTime: '09:00' })
+      );
+
+      expect(availabilityRepository.countActiveBookingsByUser).toHaveBeenCalledWith(validUserId, validCourtId);
+      expect(error?.statusCode).toBe(400);
+      expect(createBookings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cancelBooking', () => {
+    it('should stop players cancelling a confirmed booking past the deadline', async () => {
+      const { date, time } = getLocalDateTime(2);
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue({
+        ...sampleBooking,
+        group_id: null,
+        status: 'confirmed',
+        date: new Date(date),
+        start_time: time,
+      });
+      const cancel = jest.spyOn(availabilityRepository, 'cancelBooking');
+
+      const error = await getError(availabilityService.cancelBooking(sampleBooking.id, { enforceDeadline: true }));
+
+      expect(error?.statusCode).toBe(400);
+      expect(cancel).not.toHaveBeenCalled();
+    });
+
+    it('should leave refunds to the request that cancelled the booking first', async () => {
+      const { date, time } = getLocalDateTime(48);
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue({
+        ...sampleBooking,
+        group_id: null,
+        status: 'confirmed',
+        date: new Date(date),
+        start_time: time,
+      });
+      jest.spyOn(availabilityRepository, 'cancelBooking').mockResolvedValue(null);
+      const refund = jest.spyOn(refundService, 'refundCancelledBooking');
+
+      const error = await getError(availabilityService.cancelBooking(sampleBooking.id));
+
+      expect(error?.statusCode).toBe(409);
+      expect(refund).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getCourtAvailability', () => {
+    it('should build the slot grid from the policy', async () => {
+      const { date } = getLocalDateTime(48);
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({
+        ...court,
+        openingHours: Object.fromEntries(['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'].map((day) => [day, '08:00-12:00'])),
+      } as never);
+      jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
+      jest.spyOn(availabilityRepository, 'getSubCourtsByCourtId').mockResolvedValue([
+        { id: sampleBooking.sub_court_id, court_id: validCourtId, name: 'Sân 1', description: null, is_active: true, surface_type: 'wooden' },
+      ] as never);
+      jest.spyOn(availabilityRepository, 'getBookingsByCourtAndDate').mockResolvedValue([]);
+      jest.spyOn(availabilityRepository, 'getClosuresByCourtAndDate').mockResolvedValue([]);
+      jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 100000, day_type: 'weekday', is_active: true },
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 100000, day_type: 'weekend', is_active: true },
+      ] as never);
+
+      const availability = await availabilityService.getCourtAvailability(validCourtId, date);
+
+      expect(availability.bookingPolicy).toEqual(policy);
+      expect(availability.subCourts[0]!.slots.map((slot) => [slot.startTime, slot.endTime, slot.price])).toEqual([
+        ['08:00', '09:00', 100000],
+        ['09:00', '10:00', 100000],
+        ['10:00', '11:00', 100000],
+        ['11:00', '12:00', 100000],
+      ]);
+    });
+  });
+});
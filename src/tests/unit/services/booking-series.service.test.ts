@@ -0,0 +1,289 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { bookingSeriesService } from '../../../services/booking-series.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { courtService } from '../../../services/court.service.js';
+import { webhookService } from '../../../services/webhook.service.js';
+import { redisService } from '../../../services/redis.service.js';
+import { availabilityRepository, bookingSeriesRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { googleUserProfileDto, validCourtId, validUserId2 } from '../../fixtures/index.js';
+import type { RawBookingSeries, RawSeriesOccurrence } from '../../../types/index.js';
+
+const seriesId = 'd1eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+const subCourtId = 'd2eebc99-9c0b-4ef8-bb6d-6bb9bd380a82';
+const otherUser = { ...googleUserProfileDto, id: validUserId2 };
+
+const subCourt = {
+  id: subCourtId,
+  name: 'Court 1',
+  court_id: validCourtId,
+  court_name: 'Arc Badminton',
+  is_active: true,
+};
+
+const series: RawBookingSeries = {
+  id: seriesId,
+  sub_court_id: subCourtId,
+  sub_court_name: 'Court 1',
+  court_id: validCourtId,
+  court_name: 'Arc Badminton',
+  user_id: googleUserProfileDto.id,
+  guest_name: 'Tuesday Club',
+  guest_phone: '0901234567',
+  guest_email: null,
+  days_of_week: ['tue'],
+  start_time: '19:00',
+  end_time: '21:00',
+  start_date: new Date('2027-01-05'),
+  until_date: null,
+  count: 3,
+  status: 'active',
+  notes: null,
+  created_at: new Date('2026-10-19T00:00:00.000Z'),
+};
+
+// Three Tuesdays starting 2027-01-05
+const occurrences: RawSeriesOccurrence[] = ['2027-01-05', '2027-01-12', '2027-01-19'].map((date, i) => ({
+  id: `d3eebc99-9c0b-4ef8-bb6d-6bb9bd380a9${i}`,
+  sub_court_id: subCourtId,
+  sub_court_name: 'Court 1',
+  date: new Date(date),
+  start_time: '19:00',
+  end_time: '21:00',
+  total_price: 200000,
+  status: 'pending',
+}));
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('BookingSeriesService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
+    jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue(subCourt);
+    jest.spyOn(availabilityService, 'quotePrice').mockResolvedValue(200000);
+    jest
+      .spyOn(availabilityService, 'getBookingRuleViolations')
+      .mockImplementation(async (_courtId, items) => items.map(() => null));
+    jest.spyOn(redisService, 'isSlotLocked').mockResolvedValue(false);
+    jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(true);
+    jest.spyOn(redisService, 'releaseSlotLocks').mockResolvedValue();
+    jest.spyOn(bookingSeriesRepository, 'findById').mockResolvedValue(series);
+    jest.spyOn(bookingSeriesRepository, 'findOccurrences').mockResolvedValue(occurrences);
+    jest.spyOn(bookingSeriesRepository, 'update').mockResolvedValue();
+  });
+
+  describe('createSeries', () => {
+    const dto = {
+      subCourtId,
+      daysOfWeek: ['tue' as const],
+      startTime: '19:00',
+      endTime: '21:00',
+      startDate: '2027-01-01',
+      count: 3,
+      guestName: 'Tuesday Club',
+      guestPhone: '0901234567',
+      userId: googleUserProfileDto.id,
+    };
+
+    it('should expand weekly occurrences and report conflicting ones without booking them', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([
+        { id: 'x', kind: 'closure', date: new Date('2027-01-12'), start_time: null, end_time: null },
+      ]);
+      const create = jest.spyOn(bookingSeriesRepository, 'create').mockResolvedValue(seriesId);
+
+      const result = await bookingSeriesService.createSeries(dto);
+
+      expect(result.conflicts).toEqual([
+        { date: '2027-01-12', startTime: '19:00', endTime: '21:00', reason: 'closure' },
+      ]);
+      expect(result.occurrences.map((o) => o.date)).toEqual(['2027-01-05', '2027-01-19']);
+      expect(result.totalPrice).toBe(400000);
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ daysOfWeek: ['tue'], count: 3, untilDate: null }),
+        result.occurrences
+      );
+      expect(result.series?.occurrences).toHaveLength(3);
+    });
+
+    it('should report occurrences that are held or break the court rules', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([]);
+      jest.spyOn(redisService, 'isSlotLocked').mockImplementation(async (_subCourtId, date) => date === '2027-01-12');
+      jest
+        .spyOn(availabilityService, 'getBookingRuleViolations')
+        .mockResolvedValue([null, 'Bookings open 30 days ahead']);
+      jest.spyOn(bookingSeriesRepository, 'create').mockResolvedValue(seriesId);
+
+      const result = await bookingSeriesService.createSeries(dto);
+
+      expect(availabilityService.getBookingRuleViolations).toHaveBeenCalledWith(
+        validCourtId,
+        [
+          { date: '2027-01-05', startTime: '19:00', endTime: '21:00' },
+          { date: '2027-01-19', startTime: '19:00', endTime: '21:00' },
+        ],
+        googleUserProfileDto.id
+      );
+      expect(result.conflicts).toEqual([
+        { date: '2027-01-12', startTime: '19:00', endTime: '21:00', reason: 'locked' },
+        {
+          date: '2027-01-19',
+          startTime: '19:00',
+          endTime: '21:00',
+          reason: 'policy',
+          message: 'Bookings open 30 days ahead',
+        },
+      ]);
+      expect(result.occurrences.map((o) => o.date)).toEqual(['2027-01-05']);
+      expect(result.expiresAt).not.toBeNull();
+      expect(redisService.releaseSlotLocks).toHaveBeenCalled();
+    });
+
+    it('should not book when a slot is taken while the series is being created', async () => {
+      jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(false);
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([]);
+      const create = jest.spyOn(bookingSeriesRepository, 'create');
+
+      const error = await getError(bookingSeriesService.createSeries(dto));
+
+      expect(error?.statusCode).toBe(409);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should not book anything on a dry run', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([]);
+      const create = jest.spyOn(bookingSeriesRepository, 'create');
+
+      const result = await bookingSeriesService.createSeries({ ...dto, until: '2027-01-31', count: undefined, dryRun: true });
+
+      expect(create).not.toHaveBeenCalled();
+      expect(result.series).toBeNull();
+      expect(result.occurrences).toHaveLength(4);
+    });
+
+    it('should require exactly one of until and count', async () => {
+      const error = await getError(bookingSeriesService.createSeries({ ...dto, until: '2027-02-01' }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should throw 409 when every occurrence conflicts', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue(
+        ['2027-01-05', '2027-01-12', '2027-01-19'].map((date) => ({
+          id: 'b',
+          kind: 'booking' as const,
+          date: new Date(date),
+          start_time: '20:00',
+          end_time: '22:00',
+        }))
+      );
+
+      const error = await getError(bookingSeriesService.createSeries(dto));
+
+      expect(error?.statusCode).toBe(409);
+    });
+  });
+
+  describe('moveOccurrence', () => {
+    it('should reject moving onto a confirmed booking', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([
+        { id: 'other', kind: 'booking', date: new Date('2027-01-13'), start_time: '18:00', end_time: '20:00' },
+      ]);
+      const move = jest.spyOn(bookingSeriesRepository, 'moveOccurrence');
+
+      const error = await getError(
+        bookingSeriesService.moveOccurrence(seriesId, occurrences[1]!.id, { date: '2027-01-13' }, googleUserProfileDto)
+      );
+
+      expect(error?.statusCode).toBe(409);
+      expect(move).not.toHaveBeenCalled();
+    });
+
+    it('should reject moving outside opening hours or onto a held slot', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([]);
+      const move = jest.spyOn(bookingSeriesRepository, 'moveOccurrence');
+      jest
+        .spyOn(availabilityService, 'getBookingRuleViolations')
+        .mockResolvedValueOnce(['Bookings must be within opening hours (06:00-22:00)']);
+
+      const outsideHours = await getError(
+        bookingSeriesService.moveOccurrence(
+          seriesId,
+          occurrences[1]!.id,
+          { startTime: '21:00', endTime: '23:00' },
+          googleUserProfileDto
+        )
+      );
+      jest.spyOn(redisService, 'isSlotLocked').mockResolvedValue(true);
+      const held = await getError(
+        bookingSeriesService.moveOccurrence(seriesId, occurrences[1]!.id, { date: '2027-01-13' }, googleUserProfileDto)
+      );
+
+      expect(outsideHours?.message).toBe('Bookings must be within opening hours (06:00-22:00)');
+      expect(held?.statusCode).toBe(409);
+      expect(move).not.toHaveBeenCalled();
+    });
+
+    it('should re-price an unpaid occurrence', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([]);
+      jest.spyOn(availabilityService, 'quotePrice').mockResolvedValue(150000);
+      const move = jest.spyOn(bookingSeriesRepository, 'moveOccurrence').mockResolvedValue();
+
+      await bookingSeriesService.moveOccurrence(
+        seriesId,
+        occurrences[1]!.id,
+        { startTime: '18:00', endTime: '19:30' },
+        googleUserProfileDto
+      );
+
+      expect(move).toHaveBeenCalledWith(occurrences[1]!.id, {
+        subCourtId,
+        date: '2027-01-12',
+        startTime: '18:00',
+        endTime: '19:30',
+        totalPrice: 150000,
+      });
+    });
+  });
+
+  describe('cancelOccurrences', () => {
+    it('should cancel this and all future occurrences and end the series the day before', async () => {
+      const cancel = jest
+        .spyOn(availabilityService, 'cancelBooking')
+        .mockImplementation(async (id) => ({ id, status: 'cancelled', refund: null }) as never);
+
+      const result = await bookingSeriesService.cancelOccurrences(
+        seriesId,
+        occurrences[1]!.id,
+        'future',
+        googleUserProfileDto
+      );
+
+      expect(cancel.mock.calls.map(([id]) => id)).toEqual([occurrences[1]!.id, occurrences[2]!.id]);
+      expect(result.cancelled).toHaveLength(2);
+      expect(bookingSeriesRepository.update).toHaveBeenCalledWith(seriesId, {
+        untilDate: '2027-01-11',
+        status: 'active',
+      });
+    });
+
+    it('should forbid users who are neither the creator nor court members', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue(null);
+      const cancel = jest.spyOn(availabilityService, 'cancelBooking');
+
+      const error = await getError(
+        bookingSeriesService.cancelOccurrences(seriesId, occurrences[0]!.id, 'this', otherUser)
+      );
+
+      expect(error?.statusCode).toBe(403);
+      expect(cancel).not.toHaveBeenCalled();
+    });
+  });
+});
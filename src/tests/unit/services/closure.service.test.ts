@@ -0,0 +1,149 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { closureService } from '../../../services/closure.service.js';
+import { websocketService } from '../../../services/websocket.service.js';
+import { closureRepository, courtRepository, subCourtRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleCourt, validCourtId, validSubCourtId, validBookingId } from '../../fixtures/index.js';
+
+const otherSubCourtId = 'd0eebc99-9c0b-4ef8-bb6d-6bb9bd380a45';
+
+const subCourts = [validSubCourtId, otherSubCourtId].map((id, index) => ({
+  id,
+  courtId: validCourtId,
+  name: `Sân ${index + 1}`,
+  description: null,
+  isActive: true,
+  displayOrder: index + 1,
+  surfaceType: 'synthetic_mat',
+  attributes: {},
+  createdAt: new Date('2025-01-01T00:00:00Z'),
+  updatedAt: new Date('2025-01-01T00:00:00Z'),
+}));
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('ClosureService', () => {
+  let createMany: jest.SpiedFunction<typeof closureRepository.createMany>;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(sampleCourt as never);
+    jest.spyOn(subCourtRepository, 'findByCourtId').mockResolvedValue(subCourts);
+    jest.spyOn(closureRepository, 'findBySeriesId').mockResolvedValue([]);
+    jest.spyOn(closureRepository, 'findBookingConflictsBySeries').mockResolvedValue([]);
+    createMany = jest.spyOn(closureRepository, 'createMany').mockResolvedValue(0);
+  });
+
+  describe('createClosures', () => {
+    it('should close every sub-court for the whole day when none are given', async () => {
+      await closureService.createClosures(validCourtId, { date: '2025-12-01', reason: 'Sơn lại sân' });
+
+      expect(createMany).toHaveBeenCalledWith(
+        [
+          { subCourtId: validSubCourtId, date: '2025-12-01' },
+          { subCourtId: otherSubCourtId, date: '2025-12-01' },
+        ],
+        expect.objectContaining({ startTime: null, endTime: null, reason: 'Sơn lại sân' })
+      );
+    });
+
+    it('should expand recurring closures to matching weekdays in the range', async () => {
+      await closureService.createClosures(validCourtId, {
+        subCourtIds: [validSubCourtId],
+        startDate: '2025-12-01',
+        endDate: '2025-12-31',
+        daysOfWeek: ['mon'],
+        startTime: '06:00',
+        endTime: '08:00',
+      });
+
+      const rows = createMany.mock.calls[0]![0];
+      expect(rows.map((row) => row.date)).toEqual(['2025-12-01', '2025-12-08', '2025-12-15', '2025-12-22', '2025-12-29']);
+      expect(createMany.mock.calls[0]![1]).toMatchObject({ startTime: '06:00', endTime: '08:00' });
+    });
+
+    it('should return colliding bookings as conflicts', async () => {
+      jest.spyOn(closureRepository, 'findBookingConflictsBySeries').mockResolvedValue([
+        {
+          id: validBookingId,
+          sub_court_id: validSubCourtId,
+          sub_court_name: 'Sân 1',
+          date: new Date('2025-12-01'),
+          start_time: '07:00',
+          end_time: '08:00',
+          status: 'pending',
+          guest_name: 'Nguyễn Văn A',
+          guest_phone: '0901234567',
+        },
+      ]);
+
+      const result = await closureService.createClosures(validCourtId, {
+        date: '2025-12-01',
+        startTime: '06:00',
+        endTime: '08:00',
+      });
+
+      expect(result.conflicts).toEqual([
+        expect.objectContaining({ bookingId: validBookingId, date: '2025-12-01', startTime: '07:00', status: 'pending' }),
+      ]);
+    });
+
+    it('should push the closed ranges to live availability grids', async () => {
+      const notify = jest.spyOn(websocketService, 'notifySlotUpdates');
+      jest.spyOn(closureRepository, 'findBySeriesId').mockResolvedValue([
+        {
+          id: 'c1eebc99-9c0b-4ef8-bb6d-6bb9bd380a01',
+          sub_court_id: validSubCourtId,
+          sub_court_name: 'Sân 1',
+          date: new Date('2025-12-01'),
+          start_time: null,
+          end_time: null,
+          reason: null,
+          series_id: 'c2eebc99-9c0b-4ef8-bb6d-6bb9bd380a02',
+          created_at: new Date('2025-11-20T08:00:00Z'),
+        },
+      ]);
+
+      await closureService.createClosures(validCourtId, { subCourtIds: [validSubCourtId], date: '2025-12-01' });
+
+      expect(notify).toHaveBeenCalledWith('closure_added', false, [
+        { courtId: validCourtId, subCourtId: validSubCourtId, date: '2025-12-01', startTime: null, endTime: null },
+      ]);
+    });
+
+    it('should reject sub-courts from another court', async () => {
+      const error = await getError(
+        closureService.createClosures(validCourtId, {
+          subCourtIds: ['d0eebc99-9c0b-4ef8-bb6d-6bb9bd380a99'],
+          date: '2025-12-01',
+        })
+      );
+
+      expect(error?.statusCode).toBe(404);
+      expect(createMany).not.toHaveBeenCalled();
+    });
+
+    it('should reject a time window with only one end', async () => {
+      const error = await getError(
+        closureService.createClosures(validCourtId, { date: '2025-12-01', startTime: '06:00' })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject ranges longer than a year', async () => {
+      const error = await getError(
+        closureService.createClosures(validCourtId, { startDate: '2025-01-01', endDate: '2026-06-01' })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { dynamicPricingService } from '../../../services/dynamic-pricing.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { availabilityRepository, courtRepository } from '../../../repositories/index.js';
+import { getPriceAdjustments } from '../../../utils/dynamic-pricing.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleCourt, validCourtId } from '../../fixtures/index.js';
+import type { DynamicPricing } from '../../../types/index.js';
+
+const subCourtId = 'f1eebc99-9c0b-4ef8-bb6d-6bb9bd380a71';
+
+const pricing: DynamicPricing = {
+  surge: { occupancyPercent: 50, increasePercent: 20 },
+  lastMinute: { hoursBefore: 3, discountPercent: 30 },
+  earlyBird: { daysBefore: 14, discountPercent: 10 },
+};
+
+// Open 08:00-12:00 with one sub-court: a 2-hour booking fills half the day
+const court = {
+  ...sampleCourt,
+  openingHours: { tue: '08:00-12:00' },
+  dynamicPricing: pricing,
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('DynamicPricingService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(court as never);
+    jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
+    jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
+    jest.spyOn(availabilityRepository, 'getSubCourtsByCourtId').mockResolvedValue([
+      { id: subCourtId, court_id: validCourtId, name: 'Sân 1', description: null, is_active: true, surface_type: 'wooden' },
+    ] as never);
+    jest.spyOn(availabilityRepository, 'getBookingsByCourtAndDate').mockResolvedValue([
+      { id: 'booking-1', sub_court_id: subCourtId, date: new Date('2099-12-15'), start_time: '10:00', end_time: '12:00', status: 'confirmed' },
+    ] as never);
+    jest.spyOn(availabilityRepository, 'getClosuresByCourtAndDate').mockResolvedValue([]);
+    jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([
+      { start_time: '00:00', end_time: '23:59', price_per_hour: 100000, day_type: 'weekday', is_active: true },
+    ] as never);
+  });
+
+  describe('getCourtAvailability', () => {
+    it('should price slots with the surge and early-bird adjustments that apply', async () => {
+      const availability = await availabilityService.getCourtAvailability(validCourtId, '2099-12-15');
+
+      const [slot] = availability.subCourts[0]!.slots;
+      expect(availability.occupancyPercent).toBe(50);
+      expect(slot).toMatchObject({
+        startTime: '08:00',
+        basePrice: 50000,
+        price: 54000,
+        adjustments: [
+          { type: 'surge', percent: 20 },
+          { type: 'early_bird', percent: -10 },
+        ],
+      });
+    });
+
+    it('should keep static prices for courts without dynamic pricing', async () => {
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({ ...court, dynamicPricing: null } as never);
+
+      const availability = await availabilityService.getCourtAvailability(validCourtId, '2099-12-15');
+
+      expect(availability.subCourts[0]!.slots[0]).toMatchObject({ basePrice: 50000, price: 50000, adjustments: [] });
+    });
+  });
+
+  describe('getPriceQuote', () => {
+    it('should charge the sum of the slot prices shown in availability', async () => {
+      const quote = await availabilityService.getPriceQuote(validCourtId, '2099-12-15', '08:00', '10:00');
+
+      expect(quote).toEqual({
+        totalPrice: 4 * 54000,
+        adjustments: [
+          { type: 'surge', percent: 20 },
+          { type: 'early_bird', percent: -10 },
+        ],
+      });
+    });
+  });
+
+  describe('getPriceAdjustments', () => {
+    it('should discount unbooked slots starting within the last-minute window', () => {
+      expect(getPriceAdjustments(pricing, 0, 2)).toEqual([{ type: 'last_minute', percent: -30 }]);
+      expect(getPriceAdjustments(pricing, 0, 2, false)).toEqual([]);
+      expect(getPriceAdjustments(pricing, 0, 4)).toEqual([]);
+      expect(getPriceAdjustments(pricing, 0, -1)).toEqual([]);
+    });
+  });
+
+  describe('updatePricing', () => {
+    it('should store only the known adjustments', async () => {
+      const update = jest.spyOn(courtRepository, 'updateDynamicPricing').mockResolvedValue(court as never);
+
+      const result = await dynamicPricingService.updatePricing(validCourtId, {
+        surge: { occupancyPercent: 80, increasePercent: 15 },
+        unknown: true,
+      } as never);
+
+      expect(update).toHaveBeenCalledWith(validCourtId, { surge: { occupancyPercent: 80, increasePercent: 15 } });
+      expect(result).toMatchObject({ courtId: validCourtId, isEnabled: true });
+    });
+
+    it('should reject an empty configuration', async () => {
+      const error = await getError(dynamicPricingService.updatePricing(validCourtId, {}));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject last-minute and early-bird windows that overlap', async () => {
+      const error = await getError(
+        dynamicPricingService.updatePricing(validCourtId, {
+          lastMinute: { hoursBefore: 48, discountPercent: 20 },
+          earlyBird: { daysBefore: 1, discountPercent: 10 },
+        })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+});
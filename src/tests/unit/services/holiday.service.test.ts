@@ -0,0 +1,120 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { holidayService } from '../../../services/holiday.service.js';
+import { courtRepository, holidayRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleCourt, validCourtId } from '../../fixtures/index.js';
+
+const holidayId = 'f1eebc99-9c0b-4ef8-bb6d-6bb9bd380a71';
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('HolidayService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(sampleCourt as never);
+  });
+
+  describe('generateHolidays', () => {
+    beforeEach(() => {
+      jest.spyOn(holidayRepository, 'findByDates').mockResolvedValue([
+        {
+          id: holidayId,
+          date: new Date('2026-01-01'),
+          name: 'Tết Dương lịch',
+          multiplier: 1.2,
+          createdAt: new Date(),
+        },
+      ]);
+    });
+
+    it('should create missing holidays and skip existing ones', async () => {
+      const saveGenerated = jest.spyOn(holidayRepository, 'saveGenerated').mockResolvedValue();
+
+      const result = await holidayService.generateHolidays({ year: 2026 });
+
+      expect(result.skipped.map((holiday) => holiday.date)).toEqual(['2026-01-01']);
+      expect(result.created.map((holiday) => holiday.date)).toContain('2026-02-17');
+      expect(result.updated).toEqual([]);
+      expect(saveGenerated).toHaveBeenCalledWith(result.created, []);
+    });
+
+    it('should overwrite existing holidays when requested', async () => {
+      jest.spyOn(holidayRepository, 'saveGenerated').mockResolvedValue();
+
+      const result = await holidayService.generateHolidays({ year: 2026, overwrite: true });
+
+      expect(result.updated.map((holiday) => holiday.date)).toEqual(['2026-01-01']);
+      expect(result.skipped).toEqual([]);
+    });
+
+    it('should not save anything on a dry run', async () => {
+      const saveGenerated = jest.spyOn(holidayRepository, 'saveGenerated');
+
+      const result = await holidayService.generateHolidays({ year: 2026, dryRun: true });
+
+      expect(result.dryRun).toBe(true);
+      expect(saveGenerated).not.toHaveBeenCalled();
+    });
+
+    it('should reject years outside the supported range', async () => {
+      const error = await getError(holidayService.generateHolidays({ year: 1850 }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('createHoliday', () => {
+    it('should reject a second holiday on the same date', async () => {
+      jest.spyOn(holidayRepository, 'findByDate').mockResolvedValue({
+        id: holidayId,
+        date: new Date('2026-05-01'),
+        name: 'Ngày Quốc tế Lao động',
+        multiplier: 1.5,
+        createdAt: new Date(),
+      });
+
+      const error = await getError(holidayService.createHoliday({ date: '2026-05-01', multiplier: 1.5 }));
+
+      expect(error?.statusCode).toBe(409);
+    });
+  });
+
+  describe('setCourtOverride', () => {
+    it('should opt a court out of a global holiday', async () => {
+      const upsertOverride = jest.spyOn(holidayRepository, 'upsertOverride').mockResolvedValue({
+        id: holidayId,
+        courtId: validCourtId,
+        date: new Date('2026-09-02'),
+        name: null,
+        isHoliday: false,
+        multiplier: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      const result = await holidayService.setCourtOverride(validCourtId, '2026-09-02', { isHoliday: false });
+
+      expect(upsertOverride).toHaveBeenCalledWith(validCourtId, '2026-09-02', {
+        isHoliday: false,
+        name: null,
+        multiplier: null,
+      });
+      expect(result).toMatchObject({ date: '2026-09-02', isHoliday: false, multiplier: null });
+    });
+
+    it('should reject a multiplier on a non-holiday override', async () => {
+      const error = await getError(
+        holidayService.setCourtOverride(validCourtId, '2026-09-02', { isHoliday: false, multiplier: 2 })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+});
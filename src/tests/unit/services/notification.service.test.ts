@@ -0,0 +1,126 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { notificationService } from '../../../services/notification.service.js';
+import { notificationRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { validUserId } from '../../fixtures/index.js';
+
+const paymentNotification = {
+  type: 'payment_status' as const,
+  paymentId: 'f1eebc99-9c0b-4ef8-bb6d-6bb9bd380a01',
+  status: 'success' as const,
+  bookingId: 'f2eebc99-9c0b-4ef8-bb6d-6bb9bd380a02',
+  message: 'Payment successful! Your booking has been confirmed.',
+};
+
+function stored(seq: number, createdAt = '2025-12-15T03:00:00.000Z') {
+  return {
+    id: `f3eebc99-9c0b-4ef8-bb6d-6bb9bd380a${String(seq).padStart(2, '0')}`,
+    seq,
+    userId: validUserId,
+    type: 'payment_status',
+    payload: paymentNotification,
+    createdAt: new Date(createdAt),
+  };
+}
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('NotificationService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('recordPaymentStatus', () => {
+    it('should add the notification to the outbox and return it with its seq', async () => {
+      const create = jest.spyOn(notificationRepository, 'create').mockResolvedValue(stored(42));
+      const tx = {} as never;
+
+      const result = await notificationService.recordPaymentStatus(validUserId, paymentNotification, tx);
+
+      expect(create).toHaveBeenCalledWith(
+        { userId: validUserId, type: 'payment_status', payload: paymentNotification },
+        tx
+      );
+      expect(result).toEqual({ ...paymentNotification, seq: 42 });
+    });
+
+    it('should only send notifications of guest bookings live', async () => {
+      const create = jest.spyOn(notificationRepository, 'create');
+
+      const result = await notificationService.recordPaymentStatus(null, paymentNotification);
+
+      expect(create).not.toHaveBeenCalled();
+      expect(result).toEqual(paymentNotification);
+    });
+  });
+
+  describe('getNotifications', () => {
+    it('should reject an invalid since or limit', async () => {
+      const badSince = await getError(notificationService.getNotifications(validUserId, { since: '-1' }));
+      const badLimit = await getError(notificationService.getNotifications(validUserId, { limit: '500' }));
+
+      expect(badSince?.statusCode).toBe(400);
+      expect(badLimit?.message).toBe('limit must be an integer between 1 and 100');
+    });
+
+    it('should return notifications with the seq in their payload', async () => {
+      jest.spyOn(notificationRepository, 'findBySeq').mockResolvedValue(null);
+      const findRecent = jest.spyOn(notificationRepository, 'findRecent').mockResolvedValue([stored(43), stored(42)]);
+
+      const result = await notificationService.getNotifications(validUserId, { since: '41' });
+
+      expect(findRecent).toHaveBeenCalledWith(validUserId, { since: 41, limit: 20 });
+      expect(result[0]).toEqual({
+        seq: 43,
+        type: 'payment_status',
+        payload: { ...paymentNotification, seq: 43 },
+        createdAt: '2025-12-15T03:00:00.000Z',
+      });
+    });
+  });
+
+  describe('getMissed', () => {
+    it('should replay at most 100 messages and tell the client to resume again', async () => {
+      const missed = Array.from({ length: 101 }, (_, i) => stored(i + 1));
+      jest.spyOn(notificationRepository, 'findSince').mockResolvedValue(missed);
+
+      const result = await notificationService.getMissed(validUserId, 0);
+
+      expect(notificationRepository.findSince).toHaveBeenCalledWith(validUserId, 0, 101);
+      expect(result.messages).toHaveLength(100);
+      expect(result).toMatchObject({ lastSeq: 100, hasMore: true });
+    });
+
+    it('should keep since as the last seq when nothing was missed', async () => {
+      jest.spyOn(notificationRepository, 'findBySeq').mockResolvedValue(stored(42));
+      jest.spyOn(notificationRepository, 'findSeqsCreatedSince').mockResolvedValue([]);
+      jest.spyOn(notificationRepository, 'findSince').mockResolvedValue([]);
+
+      expect(await notificationService.getMissed(validUserId, 42)).toEqual({ messages: [], lastSeq: 42, hasMore: false });
+    });
+
+    it('should replay the notifications created shortly before the last one seen, in case one committed late', async () => {
+      jest.spyOn(notificationRepository, 'findBySeq').mockResolvedValue(stored(42, '2025-12-15T03:00:30.000Z'));
+      const findSeqs = jest.spyOn(notificationRepository, 'findSeqsCreatedSince').mockResolvedValue([41, 40]);
+      jest.spyOn(notificationRepository, 'findSince').mockResolvedValue([stored(40), stored(41), stored(42), stored(43)]);
+
+      const result = await notificationService.getMissed(validUserId, 42);
+
+      expect(findSeqs).toHaveBeenCalledWith(validUserId, {
+        before: 42,
+        createdSince: new Date('2025-12-15T02:59:30.000Z'),
+        limit: 50,
+      });
+      expect(notificationRepository.findSince).toHaveBeenCalledWith(validUserId, 39, 101);
+      expect(result.messages.map((message) => message.seq)).toEqual([40, 41, 42, 43]);
+      expect(result).toMatchObject({ lastSeq: 43, hasMore: false });
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { openGameService } from '../../../services/open-game.service.js';
+import { openGameRepository, courtRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { googleUserProfileDto, validBookingId, validCourtId, validUserId2 } from '../../fixtures/index.js';
+
+const gameId = 'a7eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+const playerId = 'a8eebc99-9c0b-4ef8-bb6d-6bb9bd380a82';
+const subCourtId = 'a9eebc99-9c0b-4ef8-bb6d-6bb9bd380a83';
+const player = { ...googleUserProfileDto, id: validUserId2 };
+
+const confirmedBooking = {
+  id: validBookingId,
+  userId: googleUserProfileDto.id,
+  status: 'confirmed',
+  date: new Date('2027-04-10'),
+  totalPrice: 240000,
+};
+
+const game = {
+  id: gameId,
+  bookingId: validBookingId,
+  hostUserId: googleUserProfileDto.id,
+  skillMin: 2,
+  skillMax: 4,
+  spots: 2,
+  costPerPlayer: 60000,
+  notes: null,
+  status: 'open',
+  createdAt: new Date('2026-10-19T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-19T00:00:00.000Z'),
+  booking: {
+    date: new Date('2027-04-10'),
+    startTime: new Date('1970-01-01T18:00:00.000Z'),
+    endTime: new Date('1970-01-01T20:00:00.000Z'),
+    status: 'confirmed',
+    subCourt: {
+      id: subCourtId,
+      name: 'Court 1',
+      court: { id: validCourtId, name: 'Arc Badminton', addressDistrict: 'Cầu Giấy' },
+    },
+  },
+  host: { firstName: 'Nguyen', lastName: 'Van A', username: null },
+  _count: { players: 0 },
+};
+
+const joinRequest = {
+  id: playerId,
+  openGameId: gameId,
+  userId: validUserId2,
+  skillLevel: 3,
+  message: null,
+  status: 'requested',
+  createdAt: new Date('2026-10-19T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-19T00:00:00.000Z'),
+  user: { firstName: 'Tran', lastName: 'Thi B', username: null, photoUrl: null },
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('OpenGameService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(openGameRepository, 'findBooking').mockResolvedValue(confirmedBooking);
+    jest.spyOn(openGameRepository, 'findByBookingId').mockResolvedValue(null);
+    jest.spyOn(openGameRepository, 'findById').mockResolvedValue(game);
+  });
+
+  describe('createOpenGame', () => {
+    const dto = {
+      bookingId: validBookingId,
+      skillMin: 2,
+      skillMax: 4,
+      spots: 2,
+      costPerPlayer: 60000,
+      userId: googleUserProfileDto.id,
+    };
+
+    it('should open a confirmed booking of the caller', async () => {
+      const create = jest.spyOn(openGameRepository, 'create').mockResolvedValue(game);
+
+      const result = await openGameService.createOpenGame(dto);
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ hostUserId: googleUserProfileDto.id, spots: 2 }));
+      expect(result).toMatchObject({ spotsLeft: 2, startTime: '18:00', endTime: '20:00', hostName: 'Nguyen Van A' });
+    });
+
+    it('should reject a pending booking', async () => {
+      jest.spyOn(openGameRepository, 'findBooking').mockResolvedValue({ ...confirmedBooking, status: 'pending' });
+
+      const error = await getError(openGameService.createOpenGame(dto));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it("should reject someone else's booking", async () => {
+      const error = await getError(openGameService.createOpenGame({ ...dto, userId: validUserId2 }));
+
+      expect(error?.statusCode).toBe(403);
+    });
+
+    it('should reject an inverted skill range', async () => {
+      const error = await getError(openGameService.createOpenGame({ ...dto, skillMin: 4, skillMax: 2 }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('getNearbyGames', () => {
+    it('should return games with free spots at nearby courts with their distance', async () => {
+      jest.spyOn(courtRepository, 'findNearby').mockResolvedValue([
+        { id: validCourtId, name: 'Arc Badminton', distance: 1234.5 } as never,
+      ]);
+      const findOpen = jest.spyOn(openGameRepository, 'findOpenByCourtIds').mockResolvedValue([
+        game,
+        { ...game, id: 'b7eebc99-9c0b-4ef8-bb6d-6bb9bd380a81', _count: { players: 2 } },
+      ]);
+
+      const result = await openGameService.getNearbyGames({ latitude: 21.03, longitude: 105.8, skillLevel: 3 });
+
+      expect(findOpen).toHaveBeenCalledWith([validCourtId], expect.objectContaining({ skillLevel: 3 }));
+      expect(result).toHaveLength(1);
+      expect(result[0]).toMatchObject({ id: gameId, distance: 1235 });
+    });
+  });
+
+  describe('requestToJoin', () => {
+    it('should create a join request', async () => {
+      jest.spyOn(openGameRepository, 'findPlayer').mockResolvedValue(null);
+      const upsert = jest.spyOn(openGameRepository, 'upsertRequest').mockResolvedValue(joinRequest);
+
+      const result = await openGameService.requestToJoin(gameId, { skillLevel: 3 }, player);
+
+      expect(upsert).toHaveBeenCalledWith(gameId, validUserId2, { skillLevel: 3, message: null });
+      expect(result.status).toBe('requested');
+    });
+
+    it('should reject a full game', async () => {
+      jest.spyOn(openGameRepository, 'findById').mockResolvedValue({ ...game, _count: { players: 2 } });
+
+      const error = await getError(openGameService.requestToJoin(gameId, {}, player));
+
+      expect(error?.statusCode).toBe(409);
+    });
+
+    it('should reject a skill level outside the range', async () => {
+      const error = await getError(openGameService.requestToJoin(gameId, { skillLevel: 5 }, player));
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('respondToRequest', () => {
+    it('should let the host accept a request while spots are free', async () => {
+      jest.spyOn(openGameRepository, 'findPlayerById').mockResolvedValue(joinRequest);
+      jest.spyOn(openGameRepository, 'countAccepted').mockResolvedValue(1);
+      const update = jest
+        .spyOn(openGameRepository, 'updatePlayerStatus')
+        .mockResolvedValue({ ...joinRequest, status: 'accepted' });
+
+      const result = await openGameService.respondToRequest(gameId, playerId, 'accepted', googleUserProfileDto);
+
+      expect(update).toHaveBeenCalledWith(playerId, 'accepted');
+      expect(result.status).toBe('accepted');
+    });
+
+    it('should only let the host respond', async () => {
+      const error = await getError(openGameService.respondToRequest(gameId, playerId, 'accepted', player));
+
+      expect(error?.statusCode).toBe(403);
+    });
+  });
+});
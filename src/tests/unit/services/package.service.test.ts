@@ -0,0 +1,263 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { packageService } from '../../../services/package.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { cancellationPolicyService } from '../../../services/cancellation-policy.service.js';
+import { webhookService } from '../../../services/webhook.service.js';
+import { redisService } from '../../../services/redis.service.js';
+import { availabilityRepository, courtRepository, packageRepository } from '../../../repositories/index.js';
+import { prisma } from '../../../config/database.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleBooking, sampleCourt, validCourtId, validUserId, validUserId2 } from '../../fixtures/index.js';
+
+const packageId = 'e1eebc99-9c0b-4ef8-bb6d-6bb9bd380a91';
+const otherCourtId = 'e2eebc99-9c0b-4ef8-bb6d-6bb9bd380a92';
+
+const userPackage = {
+  id: packageId,
+  userId: validUserId,
+  courtId: validCourtId,
+  planId: 'e3eebc99-9c0b-4ef8-bb6d-6bb9bd380a93',
+  name: '20 hours',
+  totalMinutes: 1200,
+  remainingMinutes: 300,
+  validityDays: 90,
+  price: 1500000,
+  status: 'active',
+  source: 'online',
+  appTransId: '261019_ABCDEF12',
+  zpTransId: null as string | null,
+  zpTransToken: null as string | null,
+  orderUrl: null as string | null,
+  activatedAt: new Date('2026-10-01T00:00:00.000Z') as Date | null,
+  expiresAt: new Date('2099-01-01T00:00:00.000Z') as Date | null,
+  createdAt: new Date('2026-10-01T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-01T00:00:00.000Z'),
+  court: { name: 'Sân Cầu Lông ABC' },
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('PackageService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
+    jest.spyOn(packageRepository, 'findById').mockResolvedValue(userPackage);
+  });
+
+  describe('getUsablePackage', () => {
+    it('should return an active package with enough time at the court', async () => {
+      const result = await packageService.getUsablePackage(packageId, validUserId, validCourtId, 120);
+
+      expect(result.id).toBe(packageId);
+    });
+
+    it('should hide packages of other users', async () => {
+      const error = await getError(packageService.getUsablePackage(packageId, validUserId2, validCourtId, 120));
+
+      expect(error?.statusCode).toBe(404);
+    });
+
+    it('should reject a package from another court', async () => {
+      const error = await getError(packageService.getUsablePackage(packageId, validUserId, otherCourtId, 120));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject an expired package', async () => {
+      jest.spyOn(packageRepository, 'findById').mockResolvedValue({
+        ...userPackage,
+        expiresAt: new Date('2026-01-01T00:00:00.000Z'),
+      });
+
+      const error = await getError(packageService.getUsablePackage(packageId, validUserId, validCourtId, 120));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject bookings longer than the time left', async () => {
+      const error = await getError(packageService.getUsablePackage(packageId, validUserId, validCourtId, 360));
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('settlePurchase', () => {
+    it('should activate the package of a paid order', async () => {
+      jest.spyOn(packageRepository, 'findByAppTransId').mockResolvedValue({ ...userPackage, status: 'pending' });
+      const activate = jest.spyOn(packageRepository, 'activate').mockResolvedValue(true);
+
+      const settled = await packageService.settlePurchase('261019_ABCDEF12', { status: 'success', zpTransId: '1234' });
+
+      expect(settled).toBe(true);
+      expect(activate).toHaveBeenCalledWith(packageId, expect.objectContaining({ zpTransId: '1234' }));
+    });
+
+    it('should cancel the package of a failed order', async () => {
+      jest.spyOn(packageRepository, 'findByAppTransId').mockResolvedValue({ ...userPackage, status: 'pending' });
+      const cancel = jest.spyOn(packageRepository, 'cancelPending').mockResolvedValue(true);
+
+      await packageService.settlePurchase('261019_ABCDEF12', { status: 'failed' });
+
+      expect(cancel).toHaveBeenCalledWith(packageId);
+    });
+
+    it('should report orders that are not package purchases', async () => {
+      jest.spyOn(packageRepository, 'findByAppTransId').mockResolvedValue(null);
+
+      const settled = await packageService.settlePurchase('261019_UNKNOWN', { status: 'success' });
+
+      expect(settled).toBe(false);
+    });
+  });
+
+  describe('creditCancelledBooking', () => {
+    it('should credit back the policy share of the booked minutes', async () => {
+      jest.spyOn(cancellationPolicyService, 'getPolicy').mockResolvedValue({
+        tiers: [
+          { minHoursBefore: 24, refundPercent: 100 },
+          { minHoursBefore: 2, refundPercent: 50 },
+        ],
+      } as never);
+      const credit = jest.spyOn(packageRepository, 'credit').mockResolvedValue(true);
+
+      // 10:00-12:00 on 2026-12-15 (UTC+7), cancelled 5 hours before
+      const minutes = await packageService.creditCancelledBooking(
+        { ...sampleBooking, date: new Date('2026-12-15'), start_time: '10:00', end_time: '12:00' },
+        packageId,
+        new Date('2026-12-15T00:00:00.000Z')
+      );
+
+      expect(minutes).toBe(60);
+      expect(credit).toHaveBeenCalledWith(packageId, expect.objectContaining({ bookingId: sampleBooking.id, minutes: 60 }));
+    });
+  });
+
+  describe('createBooking with a package', () => {
+    beforeEach(() => {
+      jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(true);
+      jest.spyOn(redisService, 'releaseSlotLocks').mockResolvedValue();
+    });
+
+    it('should confirm the booking and debit its minutes', async () => {
+      jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue({
+        id: sampleBooking.sub_court_id,
+        court_id: validCourtId,
+        name: 'Sân 1',
+        is_active: true,
+      } as never);
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({ ...sampleCourt, dynamicPricing: null } as never);
+      jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
+      jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 70000, day_type: 'weekday', is_active: true },
+      ] as never);
+      jest.spyOn(prisma, '$transaction').mockImplementation((async (fn: (tx: unknown) => unknown) => fn({})) as never);
+      const createBookings = jest.spyOn(availabilityRepository, 'createBookings').mockResolvedValue([sampleBooking.id]);
+      const debit = jest.spyOn(packageRepository, 'debit').mockResolvedValue(true);
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue({
+        ...sampleBooking,
+        group_id: null,
+        status: 'confirmed',
+        user_package_id: packageId,
+      });
+
+      const [booking] = await availabilityService.createBooking({
+        subCourtId: sampleBooking.sub_court_id,
+        date: '2026-12-15',
+        startTime: '10:00',
+        endTime: '12:00',
+        guestName: 'Nguyễn Văn A',
+        guestPhone: '0901234567',
+        userId: validUserId,
+        packageId,
+      });
+
+      expect(createBookings).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.objectContaining({ userPackageId: packageId, status: 'confirmed' }),
+        expect.anything()
+      );
+      expect(debit).toHaveBeenCalledWith(
+        packageId,
+        [expect.objectContaining({ bookingId: sampleBooking.id, minutes: 120 })],
+        expect.anything()
+      );
+      expect(booking).toMatchObject({ status: 'confirmed', packageId });
+    });
+
+    it('should reject the booking when the package runs out meanwhile', async () => {
+      jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue({
+        id: sampleBooking.sub_court_id,
+        court_id: validCourtId,
+        name: 'Sân 1',
+        is_active: true,
+      } as never);
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({ ...sampleCourt, dynamicPricing: null } as never);
+      jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
+      jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([] as never);
+      jest.spyOn(prisma, '$transaction').mockImplementation((async (fn: (tx: unknown) => unknown) => fn({})) as never);
+      jest.spyOn(availabilityRepository, 'createBookings').mockResolvedValue([sampleBooking.id]);
+      jest.spyOn(packageRepository, 'debit').mockResolvedValue(false);
+
+      const error = await getError(
+        availabilityService.createBooking({
+          subCourtId: sampleBooking.sub_court_id,
+          date: '2026-12-15',
+          startTime: '10:00',
+          endTime: '12:00',
+          guestName: 'Nguyễn Văn A',
+          guestPhone: '0901234567',
+          userId: validUserId,
+          packageId,
+        })
+      );
+
+      expect(error?.statusCode).toBe(409);
+      expect(redisService.releaseSlotLocks).toHaveBeenCalledWith([
+        expect.objectContaining({ subCourtId: sampleBooking.sub_court_id, startTime: '10:00', endTime: '12:00' }),
+      ]);
+    });
+
+    it('should not take a slot another player is paying for', async () => {
+      jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue({
+        id: sampleBooking.sub_court_id,
+        court_id: validCourtId,
+        name: 'Sân 1',
+        is_active: true,
+      } as never);
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({ ...sampleCourt, dynamicPricing: null } as never);
+      jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
+      jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([] as never);
+      jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(false);
+      const createBookings = jest.spyOn(availabilityRepository, 'createBookings');
+
+      const error = await getError(
+        availabilityService.createBooking({
+          subCourtId: sampleBooking.sub_court_id,
+          date: '2026-12-15',
+          startTime: '10:00',
+          endTime: '12:00',
+          guestName: 'Nguyễn Văn A',
+          guestPhone: '0901234567',
+          userId: validUserId,
+          packageId,
+        })
+      );
+
+      expect(error?.statusCode).toBe(409);
+      expect(createBookings).not.toHaveBeenCalled();
+    });
+  });
+});
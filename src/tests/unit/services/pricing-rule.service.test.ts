@@ -0,0 +1,201 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { pricingRuleService } from '../../../services/pricing-rule.service.js';
+import { availabilityRepository, courtRepository, pricingRuleRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleCourt, validCourtId } from '../../fixtures/index.js';
+import type { RawPricingRule } from '../../../types/index.js';
+
+const morningRuleId = 'f0eebc99-9c0b-4ef8-bb6d-6bb9bd380a61';
+const eveningRuleId = 'f0eebc99-9c0b-4ef8-bb6d-6bb9bd380a62';
+
+function createRule(overrides: Partial<RawPricingRule> = {}): RawPricingRule {
+  return {
+    id: morningRuleId,
+    court_id: validCourtId,
+    name: 'Weekday Morning',
+    day_type: 'weekday',
+    start_time: '06:00',
+    end_time: '17:00',
+    price_per_hour: 70000,
+    is_active: true,
+    ...overrides,
+  };
+}
+
+const savedRules = [
+  createRule(),
+  createRule({ id: eveningRuleId, name: 'Weekday Evening', start_time: '17:00', end_time: '22:00', price_per_hour: 100000 }),
+];
+
+const court = {
+  ...sampleCourt,
+  openingHours: { mon: '06:00-22:00', sat: '06:00-22:00' },
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('PricingRuleService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(court as never);
+    jest.spyOn(pricingRuleRepository, 'findByCourtId').mockResolvedValue(savedRules);
+  });
+
+  describe('createRule', () => {
+    it('should reject rules overlapping an active rule of the same day type', async () => {
+      const create = jest.spyOn(pricingRuleRepository, 'create');
+
+      const error = await getError(
+        pricingRuleService.createRule(validCourtId, {
+          name: 'Lunch',
+          dayType: 'weekday',
+          startTime: '11:00',
+          endTime: '13:00',
+          pricePerHour: 60000,
+        })
+      );
+
+      expect(error?.statusCode).toBe(409);
+      expect(error?.message).toContain('Weekday Morning');
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should allow the same hours on another day type and report uncovered hours', async () => {
+      const created = createRule({ id: 'new', name: 'Weekend Day', day_type: 'weekend', end_time: '12:00' });
+      jest.spyOn(pricingRuleRepository, 'create').mockResolvedValue(created);
+
+      const result = await pricingRuleService.createRule(validCourtId, {
+        name: 'Weekend Day',
+        dayType: 'weekend',
+        startTime: '06:00',
+        endTime: '12:00',
+        pricePerHour: 70000,
+      });
+
+      expect(result.rule.dayType).toBe('weekend');
+      expect(result.uncoveredHours).toContainEqual({
+        day: 'sat',
+        dayType: 'weekend',
+        startTime: '12:00',
+        endTime: '22:00',
+      });
+      expect(result.uncoveredHours).toContainEqual({
+        day: 'mon',
+        dayType: 'holiday',
+        startTime: '06:00',
+        endTime: '22:00',
+      });
+      expect(result.uncoveredHours.some((gap) => gap.day === 'mon' && gap.dayType === 'weekday')).toBe(false);
+    });
+
+    it('should reject times off the 30-minute grid', async () => {
+      const error = await getError(
+        pricingRuleService.createRule(validCourtId, {
+          name: 'Odd',
+          dayType: 'holiday',
+          startTime: '06:15',
+          endTime: '08:00',
+          pricePerHour: 60000,
+        })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should accept a rule running until a midnight closing', async () => {
+      const create = jest
+        .spyOn(pricingRuleRepository, 'create')
+        .mockResolvedValue(createRule({ id: 'new', name: 'Late', day_type: 'holiday', start_time: '22:00', end_time: '24:00' }));
+
+      await pricingRuleService.createRule(validCourtId, {
+        name: 'Late',
+        dayType: 'holiday',
+        startTime: '22:00',
+        endTime: '24:00',
+        pricePerHour: 90000,
+      });
+
+      expect(create).toHaveBeenCalledWith(validCourtId, expect.objectContaining({ endTime: '24:00' }));
+    });
+  });
+
+  describe('updateRule', () => {
+    it('should not treat the rule being updated as an overlap', async () => {
+      jest.spyOn(pricingRuleRepository, 'findById').mockResolvedValue(savedRules[0]!);
+      const update = jest
+        .spyOn(pricingRuleRepository, 'update')
+        .mockResolvedValue(createRule({ end_time: '16:00' }));
+
+      await pricingRuleService.updateRule(validCourtId, morningRuleId, { endTime: '16:00' });
+
+      expect(update).toHaveBeenCalledWith(morningRuleId, expect.objectContaining({ startTime: '06:00', endTime: '16:00' }));
+    });
+
+    it('should throw 404 when the rule belongs to another court', async () => {
+      jest
+        .spyOn(pricingRuleRepository, 'findById')
+        .mockResolvedValue(createRule({ court_id: 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a99' }));
+
+      const error = await getError(pricingRuleService.updateRule(validCourtId, morningRuleId, { pricePerHour: 1 }));
+
+      expect(error?.statusCode).toBe(404);
+    });
+  });
+
+  describe('previewWeek', () => {
+    beforeEach(() => {
+      // 2025-12-01 is a Monday; treat it as a holiday with a 1.5x multiplier
+      jest
+        .spyOn(availabilityRepository, 'getHolidayInfo')
+        .mockImplementation(async (date) =>
+          date === '2025-12-01' ? { isHoliday: true, multiplier: 1.5 } : { isHoliday: false, multiplier: 1.0 }
+        );
+    });
+
+    it('should render proposed rules without saving them', async () => {
+      const create = jest.spyOn(pricingRuleRepository, 'create');
+
+      const result = await pricingRuleService.previewWeek(validCourtId, {
+        weekStart: '2025-12-01',
+        rules: [
+          { name: 'Holiday', dayType: 'holiday', startTime: '06:00', endTime: '22:00', pricePerHour: 100000 },
+          { name: 'Weekend', dayType: 'weekend', startTime: '06:00', endTime: '20:00', pricePerHour: 80000 },
+        ],
+      });
+
+      expect(create).not.toHaveBeenCalled();
+      expect(result.days).toHaveLength(7);
+
+      const monday = result.days[0]!;
+      expect(monday).toMatchObject({ date: '2025-12-01', day: 'mon', dayType: 'holiday', holidayMultiplier: 1.5 });
+      expect(monday.slots[0]).toEqual({ startTime: '06:00', endTime: '06:30', price: 75000, ruleName: 'Holiday' });
+
+      const tuesday = result.days[1]!;
+      expect(tuesday.openingTime).toBeNull();
+      expect(tuesday.slots).toEqual([]);
+
+      const saturday = result.days[5]!;
+      expect(saturday.day).toBe('sat');
+      expect(saturday.slots.at(-1)).toEqual({ startTime: '21:30', endTime: '22:00', price: null, ruleName: null });
+    });
+
+    it('should report overlapping proposed rules', async () => {
+      const result = await pricingRuleService.previewWeek(validCourtId, {
+        weekStart: '2025-12-01',
+        rules: [
+          { name: 'A', dayType: 'weekday', startTime: '06:00', endTime: '12:00', pricePerHour: 1000 },
+          { name: 'B', dayType: 'weekday', startTime: '11:00', endTime: '22:00', pricePerHour: 1000 },
+        ],
+      });
+
+      expect(result.overlaps).toEqual([{ dayType: 'weekday', first: 'A', second: 'B' }]);
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { pushService } from '../../../services/push.service.js';
+import type { PushMessage, PushSendResult, PushTransport } from '../../../services/push.service.js';
+import { availabilityRepository, pushRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleBooking, validUserId, validUserId2 } from '../../fixtures/index.js';
+
+const deviceId = 'f4eebc99-9c0b-4ef8-bb6d-6bb9bd380a04';
+
+function device(data: { id?: string; token?: string; locale?: string } = {}) {
+  return {
+    id: deviceId,
+    userId: validUserId,
+    token: 'fcm-token-android',
+    platform: 'android',
+    locale: 'vi',
+    createdAt: new Date('2025-12-01T08:00:00.000Z'),
+    updatedAt: new Date('2025-12-01T08:00:00.000Z'),
+    ...data,
+  };
+}
+
+const content = {
+  courtName: 'Sân cầu lông Ngọc Khánh',
+  date: '2025-12-15',
+  startTime: '10:00',
+  endTime: '12:00',
+  bookingId: sampleBooking.id,
+};
+
+/**
+ * Records messages instead of sending them to FCM
+ */
+class FakePushTransport implements PushTransport {
+  sent: PushMessage[] = [];
+  results: Partial<PushSendResult>[] = [];
+
+  async send(messages: PushMessage[]): Promise<PushSendResult[]> {
+    this.sent.push(...messages);
+    return messages.map((_, i) => ({ success: true, invalidToken: false, ...this.results[i] }));
+  }
+}
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('PushService', () => {
+  let transport: FakePushTransport;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    transport = new FakePushTransport();
+    pushService.setTransport(transport);
+    jest.spyOn(pushRepository, 'findPreferences').mockResolvedValue(null);
+  });
+
+  describe('registerDevice', () => {
+    it('should reject an unknown platform or locale', async () => {
+      const badPlatform = await getError(
+        pushService.registerDevice(validUserId, { token: 'fcm-token', platform: 'windows' as never })
+      );
+      const badLocale = await getError(
+        pushService.registerDevice(validUserId, { token: 'fcm-token', platform: 'ios', locale: 'fr' as never })
+      );
+
+      expect(badPlatform?.message).toBe('platform must be one of: android, ios, web');
+      expect(badLocale?.statusCode).toBe(400);
+    });
+
+    it('should register the token in Vietnamese by default', async () => {
+      jest.spyOn(pushRepository, 'findDevicesByUserId').mockResolvedValue([]);
+      const upsert = jest.spyOn(pushRepository, 'upsertDevice').mockResolvedValue(device());
+
+      const result = await pushService.registerDevice(validUserId, { token: 'fcm-token-android', platform: 'android' });
+
+      expect(upsert).toHaveBeenCalledWith({
+        userId: validUserId,
+        token: 'fcm-token-android',
+        platform: 'android',
+        locale: 'vi',
+      });
+      expect(result).toMatchObject({ id: deviceId, platform: 'android', locale: 'vi' });
+    });
+  });
+
+  describe('removeDevice', () => {
+    it("should not find another user's device", async () => {
+      jest.spyOn(pushRepository, 'findDeviceById').mockResolvedValue(device());
+
+      const error = await getError(pushService.removeDevice(validUserId2, deviceId));
+
+      expect(error?.statusCode).toBe(404);
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('should reject unknown preferences and values that are not booleans', async () => {
+      const unknown = await getError(pushService.updatePreferences(validUserId, { marketing: false } as never));
+      const notBoolean = await getError(pushService.updatePreferences(validUserId, { gameReminder: 'no' } as never));
+
+      expect(unknown?.message).toContain('Unknown notification preference: marketing');
+      expect(notBoolean?.message).toBe('gameReminder must be a boolean');
+    });
+  });
+
+  describe('send', () => {
+    it('should send each device the notification in its own language', async () => {
+      jest
+        .spyOn(pushRepository, 'findDevicesByUserId')
+        .mockResolvedValue([device(), device({ token: 'fcm-token-ios', locale: 'en' })]);
+
+      const sent = await pushService.send(validUserId, 'booking_confirmed', content);
+
+      expect(sent).toBe(2);
+      expect(transport.sent).toEqual([
+        {
+          token: 'fcm-token-android',
+          title: 'Đặt sân thành công',
+          body: 'Lịch 10:00-12:00 ngày 15/12/2025 tại Sân cầu lông Ngọc Khánh đã được xác nhận.',
+          data: {
+            type: 'booking_confirmed',
+            date: '2025-12-15',
+            startTime: '10:00',
+            endTime: '12:00',
+            bookingId: sampleBooking.id,
+          },
+        },
+        expect.objectContaining({
+          token: 'fcm-token-ios',
+          title: 'Booking confirmed',
+          body: 'Your booking at Sân cầu lông Ngọc Khánh, 10:00-12:00 on 15/12/2025, is confirmed.',
+        }),
+      ]);
+    });
+
+    it('should not send notifications the user turned off', async () => {
+      jest.spyOn(pushRepository, 'findPreferences').mockResolvedValue({ gameReminder: false } as never);
+      const findDevices = jest.spyOn(pushRepository, 'findDevicesByUserId');
+
+      const sent = await pushService.send(validUserId, 'game_reminder', content);
+
+      expect(sent).toBe(0);
+      expect(findDevices).not.toHaveBeenCalled();
+      expect(transport.sent).toHaveLength(0);
+    });
+
+    it('should forget devices whose token FCM no longer accepts', async () => {
+      jest
+        .spyOn(pushRepository, 'findDevicesByUserId')
+        .mockResolvedValue([device(), device({ token: 'fcm-token-stale' })]);
+      const deleteDevices = jest.spyOn(pushRepository, 'deleteDevicesByToken').mockResolvedValue(1);
+      transport.results = [{}, { success: false, invalidToken: true }];
+
+      const sent = await pushService.send(validUserId, 'payment_failed', content);
+
+      expect(sent).toBe(1);
+      expect(deleteDevices).toHaveBeenCalledWith(['fcm-token-stale']);
+    });
+  });
+
+  describe('notifyBooking', () => {
+    it('should not tell staff about a booking of their own they cancelled', async () => {
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue(sampleBooking as never);
+      const ownership = Promise.resolve({ user_id: validUserId, court_id: sampleBooking.court_id });
+      jest.spyOn(availabilityRepository, 'getBookingOwnership').mockReturnValue(ownership);
+      const findDevices = jest.spyOn(pushRepository, 'findDevicesByUserId');
+
+      pushService.notifyBooking('venue_cancellation', sampleBooking.id, { exceptUserId: validUserId });
+      await ownership;
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(findDevices).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('sendGameReminders', () => {
+    const reminder = {
+      id: sampleBooking.id,
+      user_id: validUserId,
+      group_id: 'f5eebc99-9c0b-4ef8-bb6d-6bb9bd380a05',
+      court_name: content.courtName,
+      date: new Date('2025-12-15'),
+      start_time: '10:00',
+      end_time: '12:00',
+    };
+
+    it('should remind a group booking once', async () => {
+      jest
+        .spyOn(pushRepository, 'claimDueReminders')
+        .mockResolvedValue([{ ...reminder, id: 'f6eebc99-9c0b-4ef8-bb6d-6bb9bd380a06', start_time: '12:00' }, reminder]);
+      jest.spyOn(pushRepository, 'findDevicesByUserId').mockResolvedValue([device({ locale: 'en' })]);
+
+      const sent = await pushService.sendGameReminders();
+
+      expect(sent).toBe(1);
+      expect(pushRepository.claimDueReminders).toHaveBeenCalledWith(60);
+      expect(transport.sent).toEqual([
+        expect.objectContaining({
+          title: 'Your game starts soon',
+          body: 'Your game at Sân cầu lông Ngọc Khánh starts at 10:00 on 15/12/2025.',
+        }),
+      ]);
+    });
+
+    it('should keep reminding other players when one reminder fails and release the failed one', async () => {
+      const otherReminder = {
+        ...reminder,
+        id: 'f6eebc99-9c0b-4ef8-bb6d-6bb9bd380a06',
+        user_id: validUserId2,
+        group_id: null,
+      };
+      jest.spyOn(pushRepository, 'claimDueReminders').mockResolvedValue([reminder, otherReminder]);
+      jest
+        .spyOn(pushRepository, 'findDevicesByUserId')
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValue([device()]);
+      const release = jest.spyOn(pushRepository, 'releaseReminders').mockResolvedValue();
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const sent = await pushService.sendGameReminders();
+
+      expect(sent).toBe(1);
+      expect(release).toHaveBeenCalledWith([reminder.id]);
+      expect(transport.sent).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { prisma } from '../../../config/database.js';
+import { refundService } from '../../../services/refund.service.js';
+import { zaloPayService } from '../../../services/zalopay.service.js';
+import { websocketService } from '../../../services/websocket.service.js';
+import { webhookService } from '../../../services/webhook.service.js';
+import {
+  availabilityRepository,
+  courtRepository,
+  paymentRepository,
+  refundRepository,
+} from '../../../repositories/index.js';
+import { sampleBooking, sampleCourt } from '../../fixtures/index.js';
+
+const paymentId = 'b1eebc99-9c0b-4ef8-bb6d-6bb9bd380a71';
+const refundId = 'b2eebc99-9c0b-4ef8-bb6d-6bb9bd380a72';
+
+// sampleBooking starts 2025-12-15 10:00 Vietnam time (03:00 UTC)
+const booking = { ...sampleBooking, group_id: null, total_price: 140000 };
+const hoursBefore = (hours: number) => new Date(Date.UTC(2025, 11, 15, 3) - hours * 60 * 60 * 1000);
+
+const payment = {
+  id: paymentId,
+  bookingId: booking.id,
+  appTransId: '251201_bd380a55123',
+  zpTransId: '240000000001',
+  zpTransToken: null,
+  amount: 140000,
+  status: 'success',
+  orderUrl: null,
+  callbackData: null,
+  createdAt: new Date('2025-12-01T08:00:00.000Z'),
+  updatedAt: new Date('2025-12-01T08:00:00.000Z'),
+};
+
+function refundRecord(data: { amount: number; refundPercent: number; reason: string | null; status?: string }) {
+  return {
+    id: refundId,
+    paymentId,
+    bookingId: booking.id,
+    mRefundId: '251214_2553_dbe928a2cij6q21gwrp3xnyad',
+    zpRefundId: null,
+    returnMessage: null,
+    createdAt: new Date('2025-12-14T00:00:00.000Z'),
+    updatedAt: new Date('2025-12-14T00:00:00.000Z'),
+    status: 'pending',
+    ...data,
+  };
+}
+
+describe('RefundService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
+    jest.spyOn(paymentRepository, 'findSuccessfulByBookingIds').mockResolvedValue(payment as never);
+    jest.spyOn(paymentRepository, 'findSuccessfulChangePayments').mockResolvedValue([]);
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue({ ...sampleCourt, cancellationPolicy: null } as never);
+    jest.spyOn(prisma, '$transaction').mockImplementation((async (fn: (tx: unknown) => unknown) => fn({})) as never);
+    jest.spyOn(paymentRepository, 'lockForRefund').mockResolvedValue();
+    jest.spyOn(refundRepository, 'sumActiveAmountByPaymentId').mockResolvedValue(0);
+    jest.spyOn(refundRepository, 'create').mockImplementation(async ({ id: _id, ...data }) => refundRecord(data) as never);
+    jest
+      .spyOn(refundRepository, 'updateStatus')
+      .mockImplementation(async (_id, data) => refundRecord({ amount: 140000, refundPercent: 100, reason: null, ...data }) as never);
+    jest.spyOn(websocketService, 'notifyRefundStatus').mockImplementation(() => undefined);
+  });
+
+  describe('refundCancelledBooking', () => {
+    it('should refund in full more than 24 hours before start', async () => {
+      const refund = jest.spyOn(zaloPayService, 'refund').mockResolvedValue({
+        return_code: 3,
+        return_message: 'Processing',
+        sub_return_code: 3,
+        sub_return_message: '',
+        refund_id: 99,
+      });
+
+      const result = await refundService.refundCancelledBooking(booking, hoursBefore(27));
+
+      expect(refundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId, amount: 140000, refundPercent: 100 }),
+        {}
+      );
+      const [created] = jest.mocked(refundRepository.create).mock.calls[0]!;
+      expect(created.mRefundId).toBe(zaloPayService.generateMRefundId(created.id));
+      expect(refund).toHaveBeenCalledWith(expect.objectContaining({ zpTransId: '240000000001', amount: 140000 }));
+      expect(result).toHaveLength(1);
+      expect(result[0]?.status).toBe('processing');
+      expect(websocketService.notifyRefundStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'refund_status', paymentId, status: 'processing' })
+      );
+    });
+
+    it('should refund half within 24 hours and nothing within 2 hours', async () => {
+      jest.spyOn(zaloPayService, 'refund').mockResolvedValue({
+        return_code: 1,
+        return_message: 'Success',
+        sub_return_code: 1,
+        sub_return_message: '',
+      });
+
+      await refundService.refundCancelledBooking(booking, hoursBefore(24));
+      expect(refundRepository.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 70000, refundPercent: 50 }), {});
+
+      jest.mocked(refundRepository.create).mockClear();
+      const result = await refundService.refundCancelledBooking(booking, hoursBefore(2));
+      expect(result).toEqual([]);
+      expect(refundRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should use the court policy and cap the refund at what is left of the payment', async () => {
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({
+        ...sampleCourt,
+        cancellationPolicy: { tiers: [{ minHoursBefore: 1, refundPercent: 100 }] },
+      } as never);
+      jest.spyOn(refundRepository, 'sumActiveAmountByPaymentId').mockResolvedValue(100000);
+      jest.spyOn(zaloPayService, 'refund').mockResolvedValue({
+        return_code: 1,
+        return_message: 'Success',
+        sub_return_code: 1,
+        sub_return_message: '',
+      });
+
+      await refundService.refundCancelledBooking(booking, hoursBefore(1.5));
+
+      expect(refundRepository.create).toHaveBeenCalledWith(expect.objectContaining({ amount: 40000, refundPercent: 100 }), {});
+    });
+
+    it('should look up the group payment for a booking in a group', async () => {
+      const groupId = 'b3eebc99-9c0b-4ef8-bb6d-6bb9bd380a73';
+      const siblingId = 'b4eebc99-9c0b-4ef8-bb6d-6bb9bd380a74';
+      jest.spyOn(availabilityRepository, 'getBookingsByGroupId').mockResolvedValue([
+        { id: booking.id } as never,
+        { id: siblingId } as never,
+      ]);
+      const findPayment = jest.spyOn(paymentRepository, 'findSuccessfulByBookingIds').mockResolvedValue(null);
+
+      const result = await refundService.refundCancelledBooking({ ...booking, group_id: groupId }, hoursBefore(27));
+
+      expect(findPayment).toHaveBeenCalledWith([booking.id, siblingId]);
+      expect(result).toEqual([]);
+    });
+
+    it('should refund each share of a split payment in proportion to what it paid', async () => {
+      const splitPaymentId = 'b5eebc99-9c0b-4ef8-bb6d-6bb9bd380a75';
+      const shares = [
+        { ...payment, splitPaymentId, shareNumber: 1, amount: 80000 },
+        { ...payment, id: 'b6eebc99-9c0b-4ef8-bb6d-6bb9bd380a76', splitPaymentId, shareNumber: 0, amount: 60000 },
+      ];
+      jest.spyOn(paymentRepository, 'findSuccessfulByBookingIds').mockResolvedValue(shares[0] as never);
+      jest.spyOn(paymentRepository, 'findSuccessfulBySplitPaymentId').mockResolvedValue(shares as never);
+      jest.spyOn(zaloPayService, 'refund').mockResolvedValue({
+        return_code: 1,
+        return_message: 'Success',
+        sub_return_code: 1,
+        sub_return_message: '',
+      });
+
+      const result = await refundService.refundCancelledBooking(booking, hoursBefore(24));
+
+      expect(result).toHaveLength(2);
+      expect(refundRepository.create).toHaveBeenCalledWith(expect.objectContaining({ paymentId, amount: 40000 }), {});
+      expect(refundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId: shares[1]!.id, amount: 30000, refundPercent: 50 }),
+        {}
+      );
+    });
+
+    it('should refund what was paid to move the booking along with its payment', async () => {
+      const changePayment = { ...payment, id: 'b7eebc99-9c0b-4ef8-bb6d-6bb9bd380a77', amount: 60000 };
+      jest.spyOn(paymentRepository, 'findSuccessfulByBookingIds').mockResolvedValue({ ...payment, amount: 80000 } as never);
+      jest.spyOn(paymentRepository, 'findSuccessfulChangePayments').mockResolvedValue([changePayment] as never);
+      jest.spyOn(zaloPayService, 'refund').mockResolvedValue({
+        return_code: 1,
+        return_message: 'Success',
+        sub_return_code: 1,
+        sub_return_message: '',
+      });
+
+      const result = await refundService.refundCancelledBooking(booking, hoursBefore(27));
+
+      expect(result).toHaveLength(2);
+      expect(refundRepository.create).toHaveBeenCalledWith(expect.objectContaining({ paymentId, amount: 80000 }), {});
+      expect(refundRepository.create).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId: changePayment.id, amount: 60000 }),
+        {}
+      );
+    });
+
+    it('should keep the refund pending when ZaloPay cannot be reached', async () => {
+      jest.spyOn(zaloPayService, 'refund').mockRejectedValue(new Error('fetch failed'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const result = await refundService.refundCancelledBooking(booking, hoursBefore(27));
+
+      expect(refundRepository.updateStatus).toHaveBeenCalledWith(refundId, {
+        status: 'pending',
+        returnMessage: 'fetch failed',
+      });
+      expect(result[0]?.status).toBe('pending');
+    });
+  });
+});
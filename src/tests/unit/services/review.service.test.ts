@@ -0,0 +1,145 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { reviewService } from '../../../services/review.service.js';
+import { courtService } from '../../../services/court.service.js';
+import { reviewRepository, searchRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { googleUserProfileDto, validBookingId, validCourtId, validUserId2 } from '../../fixtures/index.js';
+
+const reviewId = 'f1eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+const otherUser = { ...googleUserProfileDto, id: validUserId2 };
+const ratings = { floor: 5, lighting: 4, cleanliness: 4, value: 3 };
+
+const completedBooking = {
+  id: validBookingId,
+  userId: googleUserProfileDto.id,
+  status: 'completed',
+  subCourt: { courtId: validCourtId },
+};
+
+const review = {
+  id: reviewId,
+  bookingId: validBookingId,
+  courtId: validCourtId,
+  userId: googleUserProfileDto.id,
+  floorRating: 5,
+  lightingRating: 4,
+  cleanlinessRating: 4,
+  valueRating: 3,
+  rating: 4,
+  comment: 'Good floor, a bit pricey',
+  reply: null,
+  replyUserId: null,
+  replyUpdatedAt: null,
+  isFlagged: false,
+  flagReason: null,
+  flaggedAt: null,
+  isHidden: false,
+  moderatedAt: null,
+  createdAt: new Date('2026-10-19T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-19T00:00:00.000Z'),
+  user: { firstName: 'Nguyen', lastName: 'Van A', username: 'nguyenvana' },
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('ReviewService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(reviewRepository, 'findBooking').mockResolvedValue(completedBooking);
+    jest.spyOn(reviewRepository, 'findByBookingId').mockResolvedValue(null);
+    jest.spyOn(reviewRepository, 'findById').mockResolvedValue(review);
+    jest.spyOn(reviewRepository, 'refreshCourtRating').mockResolvedValue({ ratingAverage: 4, reviewCount: 1 });
+    jest.spyOn(searchRepository, 'findForIndex').mockResolvedValue(null);
+  });
+
+  describe('createReview', () => {
+    const dto = { bookingId: validBookingId, ratings, comment: 'Good floor, a bit pricey', userId: googleUserProfileDto.id };
+
+    it('should create a review with the average rating and refresh the court rating', async () => {
+      const create = jest.spyOn(reviewRepository, 'create').mockResolvedValue(review);
+
+      const result = await reviewService.createReview(dto);
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          courtId: validCourtId,
+          floorRating: 5,
+          valueRating: 3,
+          rating: 4,
+        })
+      );
+      expect(reviewRepository.refreshCourtRating).toHaveBeenCalledWith(validCourtId);
+      expect(result.ratings).toEqual(ratings);
+      expect(result.authorName).toBe('Nguyen Van A');
+    });
+
+    it('should reject a booking that is not completed', async () => {
+      jest.spyOn(reviewRepository, 'findBooking').mockResolvedValue({ ...completedBooking, status: 'confirmed' });
+
+      const error = await getError(reviewService.createReview(dto));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it("should reject another user's booking", async () => {
+      const error = await getError(reviewService.createReview({ ...dto, userId: validUserId2 }));
+
+      expect(error?.statusCode).toBe(403);
+    });
+
+    it('should reject a second review of the same booking', async () => {
+      jest.spyOn(reviewRepository, 'findByBookingId').mockResolvedValue(review);
+
+      const error = await getError(reviewService.createReview(dto));
+
+      expect(error?.statusCode).toBe(409);
+    });
+
+    it('should reject ratings outside 1-5', async () => {
+      const error = await getError(reviewService.createReview({ ...dto, ratings: { ...ratings, lighting: 6 } }));
+
+      expect(error?.statusCode).toBe(400);
+      expect(error?.message).toContain('ratings.lighting');
+    });
+  });
+
+  describe('replyToReview', () => {
+    it('should let court staff reply', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue('staff');
+      const update = jest.spyOn(reviewRepository, 'update').mockResolvedValue({ ...review, reply: 'Thanks!' });
+
+      const result = await reviewService.replyToReview(reviewId, 'Thanks!', otherUser);
+
+      expect(update).toHaveBeenCalledWith(reviewId, expect.objectContaining({ reply: 'Thanks!', replyUserId: validUserId2 }));
+      expect(result.reply).toBe('Thanks!');
+    });
+
+    it('should reject users who do not manage the court', async () => {
+      jest.spyOn(courtService, 'getMemberRole').mockResolvedValue(null);
+
+      const error = await getError(reviewService.replyToReview(reviewId, 'Thanks!', otherUser));
+
+      expect(error?.statusCode).toBe(403);
+    });
+  });
+
+  describe('moderateReview', () => {
+    it('should hide a flagged review and refresh the court rating', async () => {
+      jest.spyOn(reviewRepository, 'findById').mockResolvedValue({ ...review, isFlagged: true, flagReason: 'Spam' });
+      const update = jest.spyOn(reviewRepository, 'update').mockResolvedValue({ ...review, isHidden: true });
+
+      const result = await reviewService.moderateReview(reviewId, true);
+
+      expect(update).toHaveBeenCalledWith(reviewId, expect.objectContaining({ isHidden: true, isFlagged: false }));
+      expect(reviewRepository.refreshCourtRating).toHaveBeenCalledWith(validCourtId);
+      expect(result.isHidden).toBe(true);
+    });
+  });
+});
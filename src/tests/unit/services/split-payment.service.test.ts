@@ -0,0 +1,232 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { prisma } from '../../../config/database.js';
+import { splitPaymentService } from '../../../services/split-payment.service.js';
+import { zaloPayService } from '../../../services/zalopay.service.js';
+import { redisService } from '../../../services/redis.service.js';
+import { refundService } from '../../../services/refund.service.js';
+import { websocketService } from '../../../services/websocket.service.js';
+import { webhookService } from '../../../services/webhook.service.js';
+import { pushService } from '../../../services/push.service.js';
+import {
+  availabilityRepository,
+  notificationRepository,
+  paymentRepository,
+  splitPaymentRepository,
+} from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { verifySplitAccessToken } from '../../../utils/booking-access.js';
+import { sampleBooking, validUserId } from '../../fixtures/index.js';
+
+const splitPaymentId = 'c1eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+const booking = { ...sampleBooking, group_id: null, total_price: 140000 };
+
+let paymentSeq = 0;
+function sharePayment(shareNumber: number, amount: number, status: string = 'pending') {
+  paymentSeq++;
+  return {
+    id: `c2eebc99-9c0b-4ef8-bb6d-6bb9bd38${String(paymentSeq).padStart(4, '0')}`,
+    bookingId: booking.id,
+    appTransId: `251201_bd380a55${paymentSeq}`,
+    zpTransId: status === 'success' ? '240000000001' : null,
+    zpTransToken: null,
+    amount,
+    status,
+    orderUrl: 'https://sb-openapi.zalopay.vn/order',
+    callbackData: null,
+    splitPaymentId,
+    shareNumber,
+    bookingChangeId: null,
+    createdAt: new Date('2025-12-01T08:00:00.000Z'),
+    updatedAt: new Date('2025-12-01T08:00:00.000Z'),
+    booking: { userId: null as string | null },
+  };
+}
+
+function split(payments: ReturnType<typeof sharePayment>[], status: string = 'open') {
+  return {
+    id: splitPaymentId,
+    bookingId: booking.id,
+    shareCount: 2,
+    totalAmount: 140000,
+    status,
+    createdAt: new Date('2025-12-01T08:00:00.000Z'),
+    updatedAt: new Date('2025-12-01T08:00:00.000Z'),
+    payments,
+  };
+}
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('SplitPaymentService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
+    jest.spyOn(pushService, 'notifyBooking').mockImplementation(() => undefined);
+    jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue(booking);
+    jest.spyOn(splitPaymentRepository, 'findOpenByBookingIds').mockResolvedValue([]);
+    jest.spyOn(splitPaymentRepository, 'close').mockResolvedValue(true);
+    jest.spyOn(splitPaymentRepository, 'lock').mockResolvedValue();
+    jest.spyOn(splitPaymentRepository, 'expirePendingShares').mockResolvedValue({ count: 0 });
+    jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(true);
+    jest.spyOn(redisService, 'releaseSlotLocks').mockResolvedValue();
+    jest.spyOn(zaloPayService, 'isConfigured').mockReturnValue(true);
+    jest.spyOn(zaloPayService, 'createOrder').mockResolvedValue({
+      return_code: 1,
+      return_message: 'Success',
+      sub_return_code: 1,
+      sub_return_message: '',
+      order_url: 'https://sb-openapi.zalopay.vn/order',
+    });
+    jest.spyOn(websocketService, 'notifyPaymentStatus').mockImplementation(() => undefined);
+    jest.spyOn(websocketService, 'notifySplitPaymentStatus').mockImplementation(() => undefined);
+    jest.spyOn(prisma, '$transaction').mockImplementation((async (fn: (tx: unknown) => unknown) => fn({})) as never);
+  });
+
+  describe('createSplitPayment', () => {
+    it('should create one payment and ZaloPay order per share', async () => {
+      jest.spyOn(paymentRepository, 'hasSuccessfulPayment').mockResolvedValue(false);
+      jest.spyOn(paymentRepository, 'findLatestPendingByBookingId').mockResolvedValue(null);
+      jest.spyOn(splitPaymentRepository, 'create').mockResolvedValue(split([]) as never);
+      const createPayment = jest.spyOn(paymentRepository, 'create').mockResolvedValue(sharePayment(1, 0) as never);
+      const shares = [sharePayment(1, 46668), sharePayment(2, 46666), sharePayment(3, 46666)];
+      jest.spyOn(splitPaymentRepository, 'findById').mockResolvedValue({ ...split(shares), shareCount: 3 });
+
+      const result = await splitPaymentService.createSplitPayment(booking.id, { shares: 3 });
+
+      expect(zaloPayService.createOrder).toHaveBeenCalledTimes(3);
+      expect(createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 46668, splitPaymentId, shareNumber: 1 }),
+        expect.anything()
+      );
+      expect(createPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 46666, shareNumber: 3 }),
+        expect.anything()
+      );
+      expect(redisService.acquireSlotLocks).toHaveBeenCalledWith([
+        expect.objectContaining({ subCourtId: booking.sub_court_id, bookingId: booking.id }),
+      ]);
+      expect(result.shares).toHaveLength(3);
+      expect(result.split).toMatchObject({ totalAmount: 140000, paidAmount: 0, remainingAmount: 140000 });
+      expect(verifySplitAccessToken(splitPaymentId, result.shareToken)).toBe(true);
+    });
+
+    it('should reject a share count outside 2-10', async () => {
+      const error = await getError(splitPaymentService.createSplitPayment(booking.id, { shares: 11 }));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject a booking that is already split', async () => {
+      jest.spyOn(splitPaymentRepository, 'findOpenByBookingIds').mockResolvedValue([split([])]);
+
+      const error = await getError(splitPaymentService.createSplitPayment(booking.id, { shares: 2 }));
+
+      expect(error?.statusCode).toBe(409);
+      expect(redisService.acquireSlotLocks).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('settleShare', () => {
+    it('should report progress while shares are still unpaid', async () => {
+      const first = sharePayment(1, 70000);
+      const second = sharePayment(2, 70000);
+      jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue({ ...first, status: 'success' });
+      jest.spyOn(splitPaymentRepository, 'findById').mockResolvedValue(split([{ ...first, status: 'success' }, second]));
+      const confirm = jest.spyOn(availabilityRepository, 'confirmPendingBookings');
+
+      await splitPaymentService.settleShare(first, { status: 'success', zpTransId: '240000000001' });
+
+      expect(confirm).not.toHaveBeenCalled();
+      expect(websocketService.notifySplitPaymentStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'open', paidShares: 1, paidAmount: 70000, totalAmount: 140000 })
+      );
+    });
+
+    it('should confirm the booking once the shares cover the total', async () => {
+      const first = sharePayment(1, 70000, 'success');
+      const second = sharePayment(2, 70000);
+      jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue({ ...second, status: 'success' });
+      jest.spyOn(splitPaymentRepository, 'findById').mockResolvedValue(split([first, { ...second, status: 'success' }]));
+      const confirm = jest.spyOn(availabilityRepository, 'confirmPendingBookings').mockResolvedValue(1);
+
+      await splitPaymentService.settleShare(second, { status: 'success', zpTransId: '240000000002' });
+
+      expect(splitPaymentRepository.lock).toHaveBeenCalledWith(splitPaymentId, {});
+      expect(splitPaymentRepository.close).toHaveBeenCalledWith(splitPaymentId, 'completed', {});
+      expect(confirm).toHaveBeenCalledWith([booking.id], {});
+      expect(redisService.releaseSlotLocks).toHaveBeenCalled();
+      expect(websocketService.notifySplitPaymentStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ status: 'completed', paidShares: 2 })
+      );
+      expect(pushService.notifyBooking).toHaveBeenCalledWith('booking_confirmed', booking.id);
+    });
+
+    it("should keep the share's status in the booker's outbox with the status change", async () => {
+      const first = { ...sharePayment(1, 70000), booking: { userId: validUserId } };
+      const updateStatus = jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue({ ...first, status: 'success' });
+      jest.spyOn(splitPaymentRepository, 'findById').mockResolvedValue(split([{ ...first, status: 'success' }]));
+      const record = jest.spyOn(notificationRepository, 'create').mockResolvedValue({ seq: 7 } as never);
+
+      await splitPaymentService.settleShare(first, { status: 'success', zpTransId: '240000000001' });
+
+      expect(updateStatus).toHaveBeenCalledWith(first.id, 'success', '240000000001', undefined, {});
+      expect(record).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: validUserId, type: 'payment_status' }),
+        {}
+      );
+      expect(websocketService.notifyPaymentStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ paymentId: first.id, status: 'success', seq: 7 })
+      );
+    });
+
+    it('should refund a share paid after it expired', async () => {
+      const expired = sharePayment(2, 70000, 'expired');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      jest.spyOn(paymentRepository, 'updateStatus').mockResolvedValue({ ...expired, status: 'success' });
+      jest.spyOn(splitPaymentRepository, 'findById').mockResolvedValue(split([{ ...expired, status: 'success' }]));
+      const refund = jest.spyOn(refundService, 'refundPayment').mockResolvedValue(null);
+
+      await splitPaymentService.settleShare(expired, { status: 'success', zpTransId: '240000000003' });
+
+      expect(refund).toHaveBeenCalledWith(expect.objectContaining({ id: expired.id }), expect.any(String));
+      expect(splitPaymentRepository.close).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('coverRemaining', () => {
+    it('should expire unpaid shares and charge the booker what is left', async () => {
+      const paid = sharePayment(1, 70000, 'success');
+      const unpaid = sharePayment(2, 70000);
+      jest.spyOn(splitPaymentRepository, 'findOpenByBookingIds').mockResolvedValue([split([paid, unpaid])]);
+      const createPayment = jest.spyOn(paymentRepository, 'create').mockResolvedValue(sharePayment(0, 70000));
+
+      const result = await splitPaymentService.coverRemaining(booking.id);
+
+      expect(splitPaymentRepository.expirePendingShares).toHaveBeenCalledWith(splitPaymentId, 0);
+      expect(createPayment).toHaveBeenCalledWith(expect.objectContaining({ amount: 70000, shareNumber: 0 }));
+      expect(result.payment.shareNumber).toBe(0);
+    });
+  });
+
+  describe('cancelForBookings', () => {
+    it('should cancel open splits and refund their paid shares in full', async () => {
+      const paid = sharePayment(1, 70000, 'success');
+      jest.spyOn(splitPaymentRepository, 'findOpenByBookingIds').mockResolvedValue([split([paid, sharePayment(2, 70000)])]);
+      const refund = jest.spyOn(refundService, 'refundPayment').mockResolvedValue(null);
+
+      await splitPaymentService.cancelForBookings([booking.id], 'Booking expired before every share was paid');
+
+      expect(splitPaymentRepository.close).toHaveBeenCalledWith(splitPaymentId, 'cancelled');
+      expect(splitPaymentRepository.expirePendingShares).toHaveBeenCalledWith(splitPaymentId);
+      expect(refund).toHaveBeenCalledTimes(1);
+      expect(refund).toHaveBeenCalledWith(paid, 'Booking expired before every share was paid');
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { subCourtService } from '../../../services/sub-court.service.js';
+import { courtRepository, subCourtRepository } from '../../../repositories/index.js';
+import { prisma } from '../../../config/database.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleCourt, validCourtId, validSubCourtId, validBookingId } from '../../fixtures/index.js';
+import type { RawBookingConflict } from '../../../types/index.js';
+
+type SubCourtRecord = Awaited<ReturnType<typeof subCourtRepository.findById>>;
+
+const otherSubCourtId = 'd0eebc99-9c0b-4ef8-bb6d-6bb9bd380a45';
+
+function createSubCourt(overrides: Partial<NonNullable<SubCourtRecord>> = {}): NonNullable<SubCourtRecord> {
+  return {
+    id: validSubCourtId,
+    courtId: validCourtId,
+    name: 'Sân 1',
+    description: null,
+    isActive: true,
+    displayOrder: 1,
+    surfaceType: 'synthetic_mat',
+    attributes: {},
+    createdAt: new Date('2025-01-01T00:00:00Z'),
+    updatedAt: new Date('2025-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const upcomingBooking: RawBookingConflict = {
+  id: validBookingId,
+  sub_court_id: validSubCourtId,
+  sub_court_name: 'Sân 1',
+  date: new Date('2099-12-01'),
+  start_time: '18:00',
+  end_time: '19:00',
+  status: 'confirmed',
+  guest_name: 'Nguyễn Văn A',
+  guest_phone: '0901234567',
+};
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('SubCourtService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(sampleCourt as never);
+  });
+
+  describe('createSubCourt', () => {
+    it('should append new sub-courts to the end of the display order', async () => {
+      jest.spyOn(subCourtRepository, 'getMaxDisplayOrder').mockResolvedValue(4);
+      const create = jest.spyOn(subCourtRepository, 'create').mockResolvedValue(createSubCourt({ displayOrder: 5 }));
+
+      const result = await subCourtService.createSubCourt(validCourtId, { name: 'Sân 5' });
+
+      expect(create).toHaveBeenCalledWith(validCourtId, { name: 'Sân 5', displayOrder: 5 });
+      expect(result.displayOrder).toBe(5);
+    });
+
+    it('should throw 404 when the court does not exist', async () => {
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue(null);
+
+      const error = await getError(subCourtService.createSubCourt(validCourtId, { name: 'Sân 5' }));
+
+      expect(error?.statusCode).toBe(404);
+    });
+  });
+
+  describe('updateSubCourt', () => {
+    it('should throw 404 when the sub-court belongs to another court', async () => {
+      jest
+        .spyOn(subCourtRepository, 'findById')
+        .mockResolvedValue(createSubCourt({ courtId: 'c0eebc99-9c0b-4ef8-bb6d-6bb9bd380a99' }));
+
+      const error = await getError(subCourtService.updateSubCourt(validCourtId, validSubCourtId, { name: 'X' }));
+
+      expect(error?.statusCode).toBe(404);
+    });
+
+    it('should refuse to deactivate a sub-court with upcoming bookings', async () => {
+      jest.spyOn(subCourtRepository, 'findById').mockResolvedValue(createSubCourt());
+      jest.spyOn(subCourtRepository, 'findUpcomingBookings').mockResolvedValue([upcomingBooking]);
+      const update = jest.spyOn(subCourtRepository, 'update');
+
+      const error = await getError(
+        subCourtService.updateSubCourt(validCourtId, validSubCourtId, { isActive: false })
+      );
+
+      expect(error?.statusCode).toBe(409);
+      expect(update).not.toHaveBeenCalled();
+    });
+
+    it('should deactivate with force and return upcoming bookings as warnings', async () => {
+      jest.spyOn(subCourtRepository, 'findById').mockResolvedValue(createSubCourt());
+      jest.spyOn(subCourtRepository, 'findUpcomingBookings').mockResolvedValue([upcomingBooking]);
+      jest.spyOn(subCourtRepository, 'update').mockResolvedValue(createSubCourt({ isActive: false }));
+
+      const result = await subCourtService.updateSubCourt(validCourtId, validSubCourtId, { isActive: false }, true);
+
+      expect(result.subCourt.isActive).toBe(false);
+      expect(result.warnings).toEqual([
+        expect.objectContaining({
+          bookingId: validBookingId,
+          date: '2099-12-01',
+          startTime: '18:00',
+          status: 'confirmed',
+        }),
+      ]);
+    });
+  });
+
+  describe('subCourtRepository.update', () => {
+    it('should not let the request body move the sub-court or change its display order', async () => {
+      const update = jest.spyOn(prisma.subCourt, 'update').mockResolvedValue(createSubCourt() as never);
+
+      await subCourtRepository.update(validSubCourtId, {
+        name: 'Sân 1',
+        courtId: otherSubCourtId,
+        displayOrder: 9,
+        createdAt: '2020-01-01T00:00:00Z',
+      } as never);
+
+      expect(update).toHaveBeenCalledWith({
+        where: { id: validSubCourtId },
+        data: {
+          name: 'Sân 1',
+          description: undefined,
+          surfaceType: undefined,
+          isActive: undefined,
+          attributes: undefined,
+        },
+      });
+    });
+  });
+
+  describe('reorderSubCourts', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(subCourtRepository, 'findByCourtId')
+        .mockResolvedValue([createSubCourt(), createSubCourt({ id: otherSubCourtId, displayOrder: 2 })]);
+    });
+
+    it('should reject lists that do not contain every sub-court exactly once', async () => {
+      const updateDisplayOrder = jest.spyOn(subCourtRepository, 'updateDisplayOrder');
+
+      const missing = await getError(subCourtService.reorderSubCourts(validCourtId, [validSubCourtId]));
+      const duplicated = await getError(
+        subCourtService.reorderSubCourts(validCourtId, [validSubCourtId, validSubCourtId])
+      );
+
+      expect(missing?.statusCode).toBe(400);
+      expect(duplicated?.statusCode).toBe(400);
+      expect(updateDisplayOrder).not.toHaveBeenCalled();
+    });
+
+    it('should save the new order', async () => {
+      const updateDisplayOrder = jest.spyOn(subCourtRepository, 'updateDisplayOrder').mockResolvedValue();
+
+      await subCourtService.reorderSubCourts(validCourtId, [otherSubCourtId, validSubCourtId]);
+
+      expect(updateDisplayOrder).toHaveBeenCalledWith([otherSubCourtId, validSubCourtId]);
+    });
+  });
+
+  describe('deleteSubCourt', () => {
+    it('should refuse to delete a sub-court with bookings', async () => {
+      jest.spyOn(subCourtRepository, 'findById').mockResolvedValue(createSubCourt());
+      jest.spyOn(subCourtRepository, 'countBookings').mockResolvedValue(3);
+      const remove = jest.spyOn(subCourtRepository, 'delete');
+
+      const error = await getError(subCourtService.deleteSubCourt(validCourtId, validSubCourtId));
+
+      expect(error?.statusCode).toBe(409);
+      expect(remove).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { voucherService } from '../../../services/voucher.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { webhookService } from '../../../services/webhook.service.js';
+import { availabilityRepository, courtRepository, userRepository, voucherRepository } from '../../../repositories/index.js';
+import { prisma } from '../../../config/database.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleAnonymousUser, sampleBooking, sampleCourt, sampleGoogleUser, validCourtId, validUserId } from '../../fixtures/index.js';
+import type { VoucherBookingLine } from '../../../types/index.js';
+
+const voucherId = 'd1eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+const otherCourtId = 'd2eebc99-9c0b-4ef8-bb6d-6bb9bd380a82';
+
+const voucher = {
+  id: voucherId,
+  code: 'SUMMER20',
+  description: null,
+  discountType: 'percent',
+  discountValue: 20,
+  maxDiscount: null as number | null,
+  minOrderAmount: null as number | null,
+  validFrom: new Date('2026-01-01T00:00:00.000Z'),
+  validUntil: new Date('2099-01-01T00:00:00.000Z'),
+  usageLimit: null as number | null,
+  perUserLimit: null as number | null,
+  courtIds: [] as string[],
+  dayTypes: [] as string[],
+  startTime: null as Date | null,
+  endTime: null as Date | null,
+  firstBookingOnly: false,
+  isActive: true,
+  createdAt: new Date('2026-10-19T00:00:00.000Z'),
+  updatedAt: new Date('2026-10-19T00:00:00.000Z'),
+};
+
+const morning: VoucherBookingLine = {
+  courtId: validCourtId,
+  dayType: 'weekday',
+  startTime: '08:00',
+  endTime: '10:00',
+  price: 100000,
+};
+const evening: VoucherBookingLine = { ...morning, startTime: '18:00', endTime: '20:00', price: 200000 };
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('VoucherService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(webhookService, 'emit').mockImplementation(() => undefined);
+    jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue(voucher);
+    jest.spyOn(voucherRepository, 'countUses').mockResolvedValue(0);
+    jest.spyOn(userRepository, 'findById').mockResolvedValue(sampleGoogleUser);
+  });
+
+  describe('applyVoucher', () => {
+    it('should share a capped percent discount between bookings by price', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({ ...voucher, maxDiscount: 50000 });
+
+      const result = await voucherService.applyVoucher('summer20', [morning, evening], validUserId);
+
+      expect(voucherRepository.findByCode).toHaveBeenCalledWith('SUMMER20');
+      expect(result).toEqual({ voucherId, code: 'SUMMER20', discounts: [16666, 33334] });
+    });
+
+    it('should only discount bookings inside the court and time window', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({
+        ...voucher,
+        discountType: 'fixed',
+        discountValue: 150000,
+        courtIds: [validCourtId],
+        startTime: new Date('1970-01-01T06:00:00.000Z'),
+        endTime: new Date('1970-01-01T12:00:00.000Z'),
+      });
+
+      const result = await voucherService.applyVoucher(
+        'SUMMER20',
+        [evening, morning, { ...morning, courtId: otherCourtId }],
+        validUserId
+      );
+
+      // A fixed discount never exceeds the eligible price
+      expect(result.discounts).toEqual([0, 100000, 0]);
+    });
+
+    it('should reject bookings the voucher does not apply to', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({ ...voucher, dayTypes: ['weekend'] });
+
+      const error = await getError(voucherService.applyVoucher('SUMMER20', [morning], validUserId));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject an expired voucher', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({
+        ...voucher,
+        validUntil: new Date('2026-02-01T00:00:00.000Z'),
+      });
+
+      const error = await getError(voucherService.applyVoucher('SUMMER20', [morning], validUserId));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject a voucher that has been fully used', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({ ...voucher, usageLimit: 100 });
+      jest.spyOn(voucherRepository, 'countUses').mockResolvedValue(100);
+
+      const error = await getError(voucherService.applyVoucher('SUMMER20', [morning], validUserId));
+
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should reject a user who reached the per-user limit', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({ ...voucher, perUserLimit: 1 });
+      jest.spyOn(voucherRepository, 'countUses').mockResolvedValue(1);
+
+      const error = await getError(voucherService.applyVoucher('SUMMER20', [morning], validUserId));
+
+      expect(voucherRepository.countUses).toHaveBeenCalledWith(voucherId, validUserId, undefined);
+      expect(error?.statusCode).toBe(400);
+    });
+
+    it('should keep first-booking vouchers to registered users without a paid booking', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({ ...voucher, firstBookingOnly: true });
+      jest.spyOn(voucherRepository, 'hasPaidBooking').mockResolvedValue(true);
+
+      const returning = await getError(voucherService.applyVoucher('SUMMER20', [morning], validUserId));
+      jest.spyOn(userRepository, 'findById').mockResolvedValue(sampleAnonymousUser);
+      const anonymous = await getError(voucherService.applyVoucher('SUMMER20', [morning], validUserId));
+
+      expect(returning?.statusCode).toBe(400);
+      expect(anonymous?.statusCode).toBe(403);
+    });
+  });
+
+  describe('claimVoucher', () => {
+    it('should count the uses again with the voucher locked', async () => {
+      const tx = {} as never;
+      const lock = jest
+        .spyOn(voucherRepository, 'lockForUse')
+        .mockResolvedValue({ id: voucherId, code: 'SUMMER20', usageLimit: 100, perUserLimit: null });
+      jest.spyOn(voucherRepository, 'countUses').mockResolvedValue(100);
+
+      const error = await getError(voucherService.claimVoucher(voucherId, validUserId, tx));
+
+      expect(lock).toHaveBeenCalledWith(voucherId, tx);
+      expect(voucherRepository.countUses).toHaveBeenCalledWith(voucherId, undefined, tx);
+      expect(error?.message).toBe('Voucher SUMMER20 has been fully used');
+    });
+  });
+
+  describe('createVoucher', () => {
+    it('should store the code uppercase', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue(null);
+      const create = jest.spyOn(voucherRepository, 'create').mockResolvedValue(voucher);
+
+      await voucherService.createVoucher({ code: ' summer20 ', discountType: 'percent', discountValue: 20 });
+
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ code: 'SUMMER20', courtIds: [], dayTypes: [], isActive: true })
+      );
+    });
+
+    it('should reject a duplicate code', async () => {
+      const error = await getError(
+        voucherService.createVoucher({ code: 'SUMMER20', discountType: 'fixed', discountValue: 20000 })
+      );
+
+      expect(error?.statusCode).toBe(409);
+    });
+
+    it('should reject a percent discount above 100', async () => {
+      const error = await getError(
+        voucherService.createVoucher({ code: 'HALF', discountType: 'percent', discountValue: 150 })
+      );
+
+      expect(error?.statusCode).toBe(400);
+    });
+  });
+
+  describe('createBooking with a voucher', () => {
+    it('should persist the original price, discount and price to pay', async () => {
+      jest.spyOn(voucherRepository, 'findByCode').mockResolvedValue({ ...voucher, discountType: 'fixed', discountValue: 30000 });
+      jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue({
+        id: sampleBooking.sub_court_id,
+        court_id: validCourtId,
+        name: 'Sân 1',
+        is_active: true,
+      } as never);
+      jest.spyOn(courtRepository, 'findById').mockResolvedValue({ ...sampleCourt, dynamicPricing: null } as never);
+      jest.spyOn(availabilityRepository, 'hasOverlappingBooking').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'isHoliday').mockResolvedValue(false);
+      jest.spyOn(availabilityRepository, 'getHolidayMultiplier').mockResolvedValue(1.0);
+      jest.spyOn(availabilityRepository, 'getPricingRulesByCourtId').mockResolvedValue([
+        { start_time: '00:00', end_time: '23:59', price_per_hour: 70000, day_type: 'weekday', is_active: true },
+      ] as never);
+      jest.spyOn(prisma, '$transaction').mockImplementation((async (fn: (tx: unknown) => unknown) => fn({})) as never);
+      const claim = jest.spyOn(voucherService, 'claimVoucher').mockResolvedValue();
+      const createBookings = jest.spyOn(availabilityRepository, 'createBookings').mockResolvedValue([sampleBooking.id]);
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue({
+        ...sampleBooking,
+        group_id: null,
+        original_price: 140000,
+        discount_amount: 30000,
+        total_price: 110000,
+        voucher_code: 'SUMMER20',
+      });
+
+      const [booking] = await availabilityService.createBooking({
+        subCourtId: sampleBooking.sub_court_id,
+        date: '2026-12-15',
+        startTime: '10:00',
+        endTime: '12:00',
+        guestName: 'Nguyễn Văn A',
+        guestPhone: '0901234567',
+        userId: validUserId,
+        voucherCode: 'summer20',
+      });
+
+      expect(createBookings).toHaveBeenCalledWith(
+        [expect.objectContaining({ originalPrice: 140000, discountAmount: 30000, totalPrice: 110000 })],
+        expect.objectContaining({ voucherId }),
+        expect.anything()
+      );
+      expect(claim).toHaveBeenCalledWith(voucherId, validUserId, expect.anything());
+      expect(booking).toMatchObject({ originalPrice: 140000, discountAmount: 30000, totalPrice: 110000, voucherCode: 'SUMMER20' });
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { waitlistService } from '../../../services/waitlist.service.js';
+import { availabilityService } from '../../../services/availability.service.js';
+import { redisService } from '../../../services/redis.service.js';
+import { websocketService } from '../../../services/websocket.service.js';
+import { pushService } from '../../../services/push.service.js';
+import {
+  availabilityRepository,
+  bookingSeriesRepository,
+  waitlistRepository,
+} from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { googleUserProfileDto, validCourtId, validUserId2 } from '../../fixtures/index.js';
+import type { RawWaitlistEntry } from '../../../types/index.js';
+
+const entryId = 'e1eebc99-9c0b-4ef8-bb6d-6bb9bd380a81';
+const nextEntryId = 'e1eebc99-9c0b-4ef8-bb6d-6bb9bd380a82';
+const subCourtId = 'e2eebc99-9c0b-4ef8-bb6d-6bb9bd380a82';
+const bookingId = 'e3eebc99-9c0b-4ef8-bb6d-6bb9bd380a83';
+const otherUser = { ...googleUserProfileDto, id: validUserId2 };
+
+const subCourt = {
+  id: subCourtId,
+  name: 'Court 1',
+  court_id: validCourtId,
+  court_name: 'Arc Badminton',
+  is_active: true,
+};
+
+const waitingEntry: RawWaitlistEntry = {
+  id: entryId,
+  court_id: validCourtId,
+  court_name: 'Arc Badminton',
+  sub_court_id: null,
+  sub_court_name: null,
+  user_id: googleUserProfileDto.id,
+  guest_name: 'Nguyen Van A',
+  guest_phone: '0901234567',
+  date: new Date('2027-03-02'),
+  start_time: '18:00',
+  end_time: '20:00',
+  status: 'waiting',
+  offered_sub_court_id: null,
+  offered_sub_court_name: null,
+  offer_expires_at: null,
+  booking_id: null,
+  created_at: new Date('2026-10-19T00:00:00.000Z'),
+};
+
+const offeredEntry: RawWaitlistEntry = {
+  ...waitingEntry,
+  status: 'offered',
+  offered_sub_court_id: subCourtId,
+  offered_sub_court_name: 'Court 1',
+  offer_expires_at: new Date(Date.now() + 10 * 60 * 1000),
+};
+
+const releasedSlot = { subCourtId, date: '2027-03-02', startTime: '18:00', endTime: '20:00' };
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('WaitlistService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(availabilityRepository, 'getSubCourtWithCourt').mockResolvedValue(subCourt);
+    jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([]);
+    jest.spyOn(waitlistRepository, 'hasActiveOffer').mockResolvedValue(false);
+    jest.spyOn(waitlistRepository, 'getPosition').mockResolvedValue(1);
+    jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValue(true);
+    jest.spyOn(redisService, 'releaseSlotLocks').mockResolvedValue();
+    jest.spyOn(websocketService, 'notifyWaitlistOffer').mockImplementation(() => {});
+    jest.spyOn(pushService, 'notify').mockImplementation(() => {});
+  });
+
+  describe('joinWaitlist', () => {
+    const dto = {
+      subCourtId,
+      date: '2027-03-02',
+      startTime: '18:00',
+      endTime: '20:00',
+      guestName: 'Nguyen Van A',
+      guestPhone: '0901234567',
+      userId: googleUserProfileDto.id,
+    };
+
+    it('should reject a slot that can be booked directly', async () => {
+      const create = jest.spyOn(waitlistRepository, 'create');
+
+      const error = await getError(waitlistService.joinWaitlist(dto));
+
+      expect(error?.statusCode).toBe(400);
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should queue for a booked slot', async () => {
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([
+        { id: bookingId, kind: 'booking', date: new Date('2027-03-02'), start_time: '17:00', end_time: '19:00' },
+      ]);
+      jest.spyOn(waitlistRepository, 'hasActiveEntry').mockResolvedValue(false);
+      const create = jest.spyOn(waitlistRepository, 'create').mockResolvedValue(entryId);
+      jest.spyOn(waitlistRepository, 'findById').mockResolvedValue({ ...waitingEntry, sub_court_id: subCourtId });
+
+      const entry = await waitlistService.joinWaitlist(dto);
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ courtId: validCourtId, subCourtId }));
+      expect(entry.status).toBe('waiting');
+      expect(entry.position).toBe(1);
+    });
+  });
+
+  describe('releaseSlots', () => {
+    it('should hold the slot for the first waiting entry and notify it', async () => {
+      jest.spyOn(waitlistRepository, 'findWaitingForSlot').mockResolvedValue([
+        waitingEntry,
+        { ...waitingEntry, id: nextEntryId },
+      ]);
+      jest.spyOn(redisService, 'acquireSlotLocks').mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      const markOffered = jest.spyOn(waitlistRepository, 'markOffered').mockResolvedValue(true);
+
+      await waitlistService.releaseSlots([releasedSlot]);
+
+      expect(redisService.acquireSlotLocks).toHaveBeenCalledWith([
+        { subCourtId, date: '2027-03-02', startTime: '18:00', endTime: '20:00', bookingId: entryId },
+      ]);
+      expect(markOffered).toHaveBeenCalledTimes(1);
+      expect(markOffered).toHaveBeenCalledWith(entryId, subCourtId, expect.any(Date));
+      expect(websocketService.notifyWaitlistOffer).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'waitlist_offer', waitlistEntryId: entryId, subCourtId })
+      );
+      expect(pushService.notify).toHaveBeenCalledWith(
+        waitingEntry.user_id,
+        'waitlist_offer',
+        expect.objectContaining({ courtName: 'Arc Badminton', waitlistEntryId: entryId })
+      );
+    });
+
+    it('should not offer a slot that was booked again', async () => {
+      jest.spyOn(waitlistRepository, 'findWaitingForSlot').mockResolvedValue([waitingEntry]);
+      jest.spyOn(bookingSeriesRepository, 'findSlotBlocks').mockResolvedValue([
+        { id: bookingId, kind: 'booking', date: new Date('2027-03-02'), start_time: '18:00', end_time: '20:00' },
+      ]);
+      const markOffered = jest.spyOn(waitlistRepository, 'markOffered');
+
+      await waitlistService.releaseSlots([releasedSlot]);
+
+      expect(redisService.acquireSlotLocks).not.toHaveBeenCalled();
+      expect(markOffered).not.toHaveBeenCalled();
+    });
+
+    it('should not throw when offering fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+      jest.spyOn(waitlistRepository, 'findWaitingForSlot').mockRejectedValue(new Error('db down'));
+
+      await expect(waitlistService.releaseSlots([releasedSlot])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('claimOffer', () => {
+    it('should book the held sub-court and release the hold', async () => {
+      jest.spyOn(waitlistRepository, 'findById')
+        .mockResolvedValueOnce(offeredEntry)
+        .mockResolvedValueOnce({ ...offeredEntry, status: 'claimed', booking_id: bookingId });
+      const createBooking = jest.spyOn(availabilityService, 'createBooking').mockResolvedValue([
+        { id: bookingId, accessToken: 'token' } as never,
+      ]);
+      const updateStatus = jest.spyOn(waitlistRepository, 'updateStatus').mockResolvedValue(true);
+
+      const result = await waitlistService.claimOffer(entryId, googleUserProfileDto);
+
+      expect(createBooking).toHaveBeenCalledWith(
+        expect.objectContaining({ subCourtId, date: '2027-03-02', startTime: '18:00', endTime: '20:00' })
+      );
+      expect(updateStatus).toHaveBeenCalledWith(entryId, ['offered'], { status: 'claimed', bookingId });
+      expect(redisService.releaseSlotLocks).toHaveBeenCalledWith([
+        { subCourtId, date: '2027-03-02', startTime: '18:00', endTime: '20:00', bookingId: entryId },
+      ]);
+      expect(result.entry.status).toBe('claimed');
+      expect(result.booking.id).toBe(bookingId);
+    });
+
+    it('should reject an expired offer', async () => {
+      jest.spyOn(waitlistRepository, 'findById').mockResolvedValue({
+        ...offeredEntry,
+        offer_expires_at: new Date(Date.now() - 1000),
+      });
+      const createBooking = jest.spyOn(availabilityService, 'createBooking');
+
+      const error = await getError(waitlistService.claimOffer(entryId, googleUserProfileDto));
+
+      expect(error?.statusCode).toBe(400);
+      expect(createBooking).not.toHaveBeenCalled();
+    });
+
+    it("should reject another user's entry", async () => {
+      jest.spyOn(waitlistRepository, 'findById').mockResolvedValue(offeredEntry);
+
+      const error = await getError(waitlistService.claimOffer(entryId, otherUser));
+
+      expect(error?.statusCode).toBe(403);
+    });
+  });
+
+  describe('expireOffers', () => {
+    it('should expire unclaimed offers and pass the slot to the next person', async () => {
+      jest.spyOn(waitlistRepository, 'findExpiredOffers').mockResolvedValue([offeredEntry]);
+      const updateStatus = jest.spyOn(waitlistRepository, 'updateStatus').mockResolvedValue(true);
+      jest.spyOn(waitlistRepository, 'findWaitingForSlot').mockResolvedValue([{ ...waitingEntry, id: nextEntryId }]);
+      const markOffered = jest.spyOn(waitlistRepository, 'markOffered').mockResolvedValue(true);
+
+      const expired = await waitlistService.expireOffers();
+
+      expect(expired).toBe(1);
+      expect(updateStatus).toHaveBeenCalledWith(entryId, ['offered'], { status: 'expired' });
+      expect(redisService.releaseSlotLocks).toHaveBeenCalledWith([
+        { subCourtId, date: '2027-03-02', startTime: '18:00', endTime: '20:00', bookingId: entryId },
+      ]);
+      expect(markOffered).toHaveBeenCalledWith(nextEntryId, subCourtId, expect.any(Date));
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import dns from 'dns';
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { webhookService } from '../../../services/webhook.service.js';
+import { availabilityRepository, courtRepository, webhookRepository } from '../../../repositories/index.js';
+import { AppError } from '../../../utils/errors.js';
+import { sampleBooking, sampleCourt, validCourtId } from '../../fixtures/index.js';
+
+const webhookId = 'e1eebc99-9c0b-4ef8-bb6d-6bb9bd380aa1';
+const deliveryId = 'e2eebc99-9c0b-4ef8-bb6d-6bb9bd380aa2';
+const eventId = 'e3eebc99-9c0b-4ef8-bb6d-6bb9bd380aa3';
+const secret = 'venue-pos-signing-secret';
+
+const booking = { ...sampleBooking, group_id: null };
+
+const webhook = {
+  id: webhookId,
+  courtId: validCourtId,
+  url: 'https://pos.example.com/hooks',
+  secret,
+  events: ['booking.created', 'payment.succeeded'],
+  isActive: true,
+  createdAt: new Date('2025-12-01T08:00:00.000Z'),
+  updatedAt: new Date('2025-12-01T08:00:00.000Z'),
+};
+
+function delivery(data: { attempts?: number; status?: string } = {}) {
+  return {
+    id: deliveryId,
+    subscriptionId: webhookId,
+    eventId,
+    event: 'booking.created',
+    payload: { id: eventId, event: 'booking.created', courtId: validCourtId, data: { booking: { id: booking.id } } },
+    status: 'pending',
+    attempts: 0,
+    nextAttemptAt: new Date('2025-12-01T08:00:00.000Z'),
+    responseStatus: null,
+    error: null,
+    deliveredAt: null,
+    createdAt: new Date('2025-12-01T08:00:00.000Z'),
+    updatedAt: new Date('2025-12-01T08:00:00.000Z'),
+    subscription: webhook,
+    ...data,
+  };
+}
+
+function mockRecordAttempt() {
+  return jest
+    .spyOn(webhookRepository, 'recordAttempt')
+    .mockImplementation(async (_id, data) => ({ ...delivery(), ...data }) as never);
+}
+
+async function getError(promise: Promise<unknown>): Promise<AppError | undefined> {
+  try {
+    await promise;
+    return undefined;
+  } catch (error) {
+    return error as AppError;
+  }
+}
+
+describe('WebhookService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(courtRepository, 'findById').mockResolvedValue(sampleCourt as never);
+    jest.spyOn(webhookRepository, 'findById').mockResolvedValue(webhook);
+    jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '93.184.216.34', family: 4 }] as never);
+  });
+
+  describe('createWebhook', () => {
+    it('should reject a URL that is not https and unknown events', async () => {
+      jest.spyOn(webhookRepository, 'countByCourtId').mockResolvedValue(0);
+
+      const badUrl = await getError(
+        webhookService.createWebhook(validCourtId, { url: 'ftp://pos.example.com', secret, events: ['booking.created'] })
+      );
+      const badEvents = await getError(
+        webhookService.createWebhook(validCourtId, {
+          url: webhook.url,
+          secret,
+          events: ['booking.updated' as never],
+        })
+      );
+
+      expect(badUrl?.statusCode).toBe(400);
+      expect(badEvents?.message).toContain('events must be a non-empty array of');
+    });
+
+    it('should reject hosts that resolve to internal addresses', async () => {
+      jest.spyOn(webhookRepository, 'countByCourtId').mockResolvedValue(0);
+      const create = jest.spyOn(webhookRepository, 'create');
+
+      for (const address of ['127.0.0.1', '10.0.0.5', '169.254.169.254', '::1', '::ffff:192.168.1.1']) {
+        const family = address.includes(':') ? 6 : 4;
+        jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address, family }] as never);
+
+        const error = await getError(
+          webhookService.createWebhook(validCourtId, {
+            url: 'https://internal.example.com',
+            secret,
+            events: ['booking.created'],
+          })
+        );
+
+        expect(error?.message).toBe('url must point to a public host');
+      }
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('should never return the secret', async () => {
+      jest.spyOn(webhookRepository, 'countByCourtId').mockResolvedValue(0);
+      const create = jest.spyOn(webhookRepository, 'create').mockResolvedValue(webhook);
+
+      const result = await webhookService.createWebhook(validCourtId, {
+        url: webhook.url,
+        secret,
+        events: ['booking.created', 'booking.created'],
+      });
+
+      expect(create).toHaveBeenCalledWith(expect.objectContaining({ secret, events: ['booking.created'] }));
+      expect(result).not.toHaveProperty('secret');
+    });
+  });
+
+  describe('emit', () => {
+    it('should send a signed payload to every subscribed webhook', async () => {
+      jest.spyOn(availabilityRepository, 'getBookingById').mockResolvedValue(booking);
+      jest.spyOn(webhookRepository, 'findActiveByEvent').mockResolvedValue([webhook]);
+      const createDeliveries = jest
+        .spyOn(webhookRepository, 'createDeliveries')
+        .mockImplementation(async (_ids, data) => [{ ...delivery(), ...data }] as never);
+      const fetch = jest.spyOn(global, 'fetch').mockResolvedValue(new Response('ok', { status: 200 }));
+      const recorded = new Promise((resolve) => {
+        jest.spyOn(webhookRepository, 'recordAttempt').mockImplementation(async (_id, data) => {
+          resolve(data);
+          return { ...delivery(), ...data } as never;
+        });
+      });
+
+      webhookService.emit('payment.succeeded', booking.id, {
+        payment: { id: 'payment-1', amount: 140000, zpTransId: '240000000001' },
+      });
+
+      expect(await recorded).toMatchObject({ status: 'success', attempts: 1, nextAttemptAt: null, responseStatus: 200 });
+      expect(webhookRepository.findActiveByEvent).toHaveBeenCalledWith(validCourtId, 'payment.succeeded');
+      expect(createDeliveries).toHaveBeenCalledWith([webhookId], expect.objectContaining({ event: 'payment.succeeded' }));
+
+      const [url, init] = fetch.mock.calls[0]!;
+      const headers = init!.headers as Record<string, string>;
+      const body = init!.body as string;
+      const expected = crypto.createHmac('sha256', secret).update(`${headers['X-Webhook-Timestamp']}.${body}`).digest('hex');
+      expect(url).toBe(webhook.url);
+      expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+      expect(JSON.parse(body)).toMatchObject({
+        event: 'payment.succeeded',
+        courtId: validCourtId,
+        data: {
+          booking: { id: booking.id, date: '2025-12-15', startTime: '10:00', status: 'pending' },
+          payment: { id: 'payment-1', amount: 140000 },
+        },
+      });
+    });
+  });
+
+  describe('retryDueDeliveries', () => {
+    it('should back off exponentially after a failed attempt', async () => {
+      jest.spyOn(webhookRepository, 'claimDue').mockResolvedValue([delivery({ attempts: 2 })]);
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response('down', { status: 503 }));
+      const record = mockRecordAttempt();
+      const before = Date.now();
+
+      const delivered = await webhookService.retryDueDeliveries();
+
+      const data = record.mock.calls[0]![1];
+      expect(delivered).toBe(0);
+      expect(data).toMatchObject({ status: 'pending', attempts: 3, responseStatus: 503 });
+      expect(data).not.toHaveProperty('responseBody');
+      // Third attempt waits 4 minutes
+      expect(data.nextAttemptAt!.getTime() - before).toBeGreaterThanOrEqual(4 * 60 * 1000);
+      expect(data.nextAttemptAt!.getTime() - before).toBeLessThan(5 * 60 * 1000);
+    });
+
+    it('should give up after the last attempt', async () => {
+      jest.spyOn(webhookRepository, 'claimDue').mockResolvedValue([delivery({ attempts: 7 })]);
+      jest.spyOn(global, 'fetch').mockRejectedValue(new Error('connect ECONNREFUSED'));
+      const record = mockRecordAttempt();
+
+      await webhookService.retryDueDeliveries();
+
+      expect(record).toHaveBeenCalledWith(
+        deliveryId,
+        expect.objectContaining({ status: 'failed', attempts: 8, nextAttemptAt: null, error: 'connect ECONNREFUSED' })
+      );
+    });
+
+    it('should not send to a host that now resolves to an internal address', async () => {
+      jest.spyOn(webhookRepository, 'claimDue').mockResolvedValue([delivery()]);
+      jest.spyOn(dns.promises, 'lookup').mockResolvedValue([{ address: '10.0.0.5', family: 4 }] as never);
+      const fetch = jest.spyOn(global, 'fetch');
+      const record = mockRecordAttempt();
+
+      await webhookService.retryDueDeliveries();
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(record).toHaveBeenCalledWith(
+        deliveryId,
+        expect.objectContaining({
+          status: 'pending',
+          responseStatus: null,
+          error: 'Webhook host does not resolve to a public address',
+        })
+      );
+    });
+  });
+
+  describe('redeliver', () => {
+    it('should send the same event again as a new delivery', async () => {
+      jest.spyOn(webhookRepository, 'findDeliveryById').mockResolvedValue(delivery({ attempts: 8, status: 'failed' }));
+      const createDeliveries = jest.spyOn(webhookRepository, 'createDeliveries').mockResolvedValue([delivery()] as never);
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response(null, { status: 204 }));
+      mockRecordAttempt();
+
+      const result = await webhookService.redeliver(validCourtId, webhookId, deliveryId);
+
+      expect(createDeliveries).toHaveBeenCalledWith([webhookId], expect.objectContaining({ eventId }));
+      expect(result).toMatchObject({ status: 'success', attempts: 1, eventId });
+    });
+
+    it('should not find a webhook of another court', async () => {
+      const error = await getError(
+        webhookService.redeliver('a0eebc99-9c0b-4ef8-bb6d-6bb9bd380a12', webhookId, deliveryId)
+      );
+
+      expect(error?.statusCode).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { WebSocket } from 'ws';
+import { websocketService } from '../../../services/websocket.service.js';
+import { redisService } from '../../../services/redis.service.js';
+import { firebaseService } from '../../../services/firebase.service.js';
+import { userService } from '../../../services/user.service.js';
+import { notificationService } from '../../../services/notification.service.js';
+import { paymentService } from '../../../services/payment.service.js';
+import { courtMemberRepository, paymentRepository } from '../../../repositories/index.js';
+import {
+  validCourtId,
+  validSubCourtId,
+  validUserId,
+  validUserId2,
+  sampleGoogleUser,
+  decodedGoogleToken,
+  mockGoogleIdToken,
+} from '../../fixtures/index.js';
+
+const channel = `court:${validCourtId}:2025-12-15`;
+
+function client() {
+  return { readyState: WebSocket.OPEN, send: jest.fn() };
+}
+
+function sent(ws: ReturnType<typeof client>) {
+  return ws.send.mock.calls.map(([message]) => JSON.parse(message as string));
+}
+
+const paymentNotification = {
+  type: 'payment_status' as const,
+  paymentId: 'f1eebc99-9c0b-4ef8-bb6d-6bb9bd380a01',
+  status: 'success' as const,
+  bookingId: 'f2eebc99-9c0b-4ef8-bb6d-6bb9bd380a02',
+  message: 'Payment successful! Your booking has been confirmed.',
+};
+
+function paymentOf(userId: string) {
+  return {
+    id: paymentNotification.paymentId,
+    booking: { userId, subCourt: { courtId: validCourtId } },
+  };
+}
+
+/**
+ * Open a connection and collect the frames it receives
+ */
+async function connect(server: Server, query: string = '') {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(`ws://localhost:${port}/ws${query}`, { autoPong: false });
+  const frames: Record<string, unknown>[] = [];
+  const waiters: (() => void)[] = [];
+  socket.on('message', (message) => {
+    frames.push(JSON.parse(message.toString()));
+    waiters.splice(0).forEach((resolve) => resolve());
+  });
+
+  // Resolves with the next frame of the given type
+  const next = async (type: string) => {
+    for (;;) {
+      const index = frames.findIndex((frame) => frame.type === type);
+      if (index !== -1) {
+        return frames.splice(index, 1)[0]!;
+      }
+      await new Promise<void>((resolve) => waiters.push(resolve));
+    }
+  };
+
+  await next('connected');
+  return { socket, next, send: (data: object) => socket.send(JSON.stringify(data)) };
+}
+
+describe('WebSocketService', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    websocketService.close();
+  });
+
+  describe('subscribeChannel', () => {
+    it('should only accept court channels with a court ID and a date', () => {
+      const ws = client();
+
+      expect(websocketService.subscribeChannel('court:not-a-uuid:2025-12-15', ws as never)?.code).toBe('INVALID_CHANNEL');
+      expect(websocketService.subscribeChannel(`court:${validCourtId}:15-12-2025`, ws as never)?.code).toBe(
+        'INVALID_CHANNEL'
+      );
+      expect(websocketService.subscribeChannel(`payment:${validCourtId}`, ws as never)?.code).toBe('INVALID_CHANNEL');
+      expect(websocketService.subscribeChannel(channel, ws as never)).toBeNull();
+    });
+  });
+
+  describe('notifySlotUpdates', () => {
+    it('should send slot updates to subscribers of the court and date only', () => {
+      const watching = client();
+      const otherDay = client();
+      websocketService.subscribeChannel(channel, watching as never);
+      websocketService.subscribeChannel(`court:${validCourtId}:2025-12-16`, otherDay as never);
+
+      websocketService.notifySlotUpdates('booking_created', false, [
+        { courtId: validCourtId, subCourtId: validSubCourtId, date: '2025-12-15', startTime: '10:00', endTime: '12:00' },
+      ]);
+
+      expect(sent(watching)).toEqual([
+        {
+          type: 'slot_update',
+          channel,
+          event: 'booking_created',
+          isAvailable: false,
+          courtId: validCourtId,
+          subCourtId: validSubCourtId,
+          date: '2025-12-15',
+          startTime: '10:00',
+          endTime: '12:00',
+        },
+      ]);
+      expect(otherDay.send).not.toHaveBeenCalled();
+    });
+
+    it('should stop sending once a client unsubscribes', () => {
+      const ws = client();
+      websocketService.subscribeChannel(channel, ws as never);
+      websocketService.unsubscribeChannel(channel, ws as never);
+
+      websocketService.notifySlotUpdates('closure_added', false, [
+        { courtId: validCourtId, subCourtId: validSubCourtId, date: '2025-12-15', startTime: null, endTime: null },
+      ]);
+
+      expect(ws.send).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('with a running server', () => {
+    let server: Server;
+    let onMessage: (message: string) => void;
+    let heartbeat: () => void;
+
+    beforeEach(async () => {
+      jest.spyOn(redisService, 'subscribe').mockImplementation(async (_channel, handler) => {
+        onMessage = handler;
+      });
+      jest.spyOn(global, 'setInterval').mockImplementation(((callback: () => void) => {
+        heartbeat = callback;
+        return 0;
+      }) as never);
+      jest.spyOn(firebaseService, 'verifyIdToken').mockResolvedValue(decodedGoogleToken);
+      jest.spyOn(userService, 'getUserByFirebaseUid').mockResolvedValue(sampleGoogleUser);
+      jest.spyOn(userService, 'getUserById').mockResolvedValue(sampleGoogleUser);
+      jest.spyOn(courtMemberRepository, 'findByCourtAndUser').mockResolvedValue(null);
+      server = createServer();
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+      websocketService.initialize(server);
+    });
+
+    afterEach(async () => {
+      websocketService.close();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    describe('authentication', () => {
+      it('should refuse subscriptions until the connection is authenticated', async () => {
+        const { socket, next, send } = await connect(server);
+
+        send({ action: 'subscribe', channel });
+        expect(await next('error')).toEqual({
+          type: 'error',
+          code: 'UNAUTHENTICATED',
+          error: 'Authenticate with a Firebase ID token first',
+          action: 'subscribe',
+        });
+
+        send({ action: 'auth', token: mockGoogleIdToken });
+        expect(await next('authenticated')).toEqual({ type: 'authenticated', userId: validUserId });
+        send({ action: 'subscribe', channel });
+        expect(await next('subscribed')).toMatchObject({ channel });
+        expect(firebaseService.verifyIdToken).toHaveBeenCalledWith(mockGoogleIdToken);
+        socket.close();
+      });
+
+      it('should close connections with an invalid token', async () => {
+        jest.spyOn(firebaseService, 'verifyIdToken').mockRejectedValue(new Error('auth/invalid-id-token'));
+        const { socket, next } = await connect(server, '?token=forged');
+        const closed = new Promise((resolve) => socket.once('close', (code) => resolve(code)));
+
+        expect(await next('error')).toMatchObject({ code: 'AUTHENTICATION_FAILED', action: 'auth' });
+        expect(await closed).toBe(4401);
+      });
+
+      it('should close connections once their token expires', async () => {
+        jest
+          .spyOn(firebaseService, 'verifyIdToken')
+          .mockResolvedValue({ ...decodedGoogleToken, exp: Math.floor(Date.now() / 1000) - 1 });
+        const { socket, next } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+        const closed = new Promise((resolve) => socket.once('close', (code) => resolve(code)));
+
+        heartbeat();
+
+        expect(await next('error')).toMatchObject({ code: 'TOKEN_EXPIRED' });
+        expect(await closed).toBe(4401);
+      });
+
+      it("should deny subscribing to another user's payment", async () => {
+        jest.spyOn(paymentRepository, 'findById').mockResolvedValue(paymentOf(validUserId2) as never);
+        const { socket, next, send } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+
+        send({ action: 'subscribe', paymentId: paymentNotification.paymentId });
+
+        expect(await next('error')).toMatchObject({ code: 'SUBSCRIPTION_DENIED', action: 'subscribe' });
+        expect(websocketService.getSubscriptionCount(paymentNotification.paymentId)).toBe(0);
+        socket.close();
+      });
+
+      it('should let court staff subscribe to payments of their court', async () => {
+        jest.spyOn(paymentRepository, 'findById').mockResolvedValue(paymentOf(validUserId2) as never);
+        jest.spyOn(courtMemberRepository, 'findByCourtAndUser').mockResolvedValue({ role: 'staff' } as never);
+        const { socket, next, send } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+
+        send({ action: 'subscribe', paymentId: paymentNotification.paymentId });
+
+        expect(await next('subscribed')).toMatchObject({ paymentId: paymentNotification.paymentId });
+        expect(courtMemberRepository.findByCourtAndUser).toHaveBeenCalledWith(validCourtId, validUserId);
+        socket.close();
+      });
+
+      it('should check the current role of the user when subscribing', async () => {
+        jest.spyOn(paymentRepository, 'findById').mockResolvedValue(paymentOf(validUserId2) as never);
+        jest.spyOn(userService, 'getUserByFirebaseUid').mockResolvedValue({ ...sampleGoogleUser, role: 'platform_admin' });
+        const { socket, next, send } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+
+        send({ action: 'subscribe', paymentId: paymentNotification.paymentId });
+
+        expect(await next('error')).toMatchObject({ code: 'SUBSCRIPTION_DENIED', action: 'subscribe' });
+        expect(userService.getUserById).toHaveBeenCalledWith(validUserId);
+        socket.close();
+      });
+    });
+
+    describe('resume', () => {
+      it('should replay the notifications missed after the given seq', async () => {
+        const getMissed = jest
+          .spyOn(notificationService, 'getMissed')
+          .mockResolvedValue({ messages: [{ ...paymentNotification, seq: 43 }], lastSeq: 43, hasMore: false });
+        const { socket, next, send } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+
+        send({ action: 'resume', since: 42 });
+
+        expect(await next('payment_status')).toEqual({ ...paymentNotification, seq: 43 });
+        expect(await next('resumed')).toEqual({ type: 'resumed', since: 42, lastSeq: 43, hasMore: false });
+        expect(getMissed).toHaveBeenCalledWith(validUserId, 42);
+        socket.close();
+      });
+
+      it('should reject a missing since', async () => {
+        const { socket, next, send } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+
+        send({ action: 'resume' });
+
+        expect(await next('error')).toMatchObject({ code: 'INVALID_MESSAGE', action: 'resume' });
+        socket.close();
+      });
+    });
+
+    describe('fan-out across instances', () => {
+      it('should publish notifications for the other instances', () => {
+        const publish = jest.spyOn(redisService, 'publish').mockResolvedValue();
+        const ws = client();
+        websocketService.subscribe(paymentNotification.paymentId, ws as never);
+
+        websocketService.notifyPaymentStatus(paymentNotification);
+
+        expect(sent(ws)).toEqual([paymentNotification]);
+        expect(publish).toHaveBeenCalledWith('ws:notifications', expect.any(String));
+        const published = JSON.parse(publish.mock.calls[0]![1]);
+        expect(published.notification).toEqual(paymentNotification);
+
+        // Its own message coming back from Redis is not delivered twice
+        websocketService.subscribe(paymentNotification.paymentId, ws as never);
+        onMessage(publish.mock.calls[0]![1]);
+        expect(ws.send).toHaveBeenCalledTimes(1);
+      });
+
+      it('should deliver notifications published by another instance', () => {
+        const ws = client();
+        websocketService.subscribeChannel(channel, ws as never);
+        const notification = {
+          type: 'slot_update',
+          channel,
+          event: 'booking_cancelled',
+          isAvailable: true,
+          courtId: validCourtId,
+          subCourtId: validSubCourtId,
+          date: '2025-12-15',
+          startTime: '10:00',
+          endTime: '12:00',
+        };
+
+        onMessage(JSON.stringify({ origin: 'other-instance', notification }));
+
+        expect(sent(ws)).toEqual([notification]);
+      });
+    });
+
+    describe('heartbeat', () => {
+      it('should terminate connections that stop answering pings', async () => {
+        const { socket } = await connect(server, `?token=${mockGoogleIdToken}`);
+        const closed = new Promise((resolve) => socket.once('close', resolve));
+
+        heartbeat(); // Pinged, never answered
+        heartbeat();
+
+        await closed;
+        expect(websocketService.getConnectionCount()).toBe(0);
+      });
+
+      it('should keep the payment of a terminated connection pending', async () => {
+        jest.spyOn(paymentRepository, 'findById').mockResolvedValue(paymentOf(validUserId) as never);
+        const cancelPayment = jest.spyOn(paymentService, 'cancelPayment');
+        const { socket, next, send } = await connect(server, `?token=${mockGoogleIdToken}`);
+        await next('authenticated');
+        send({ action: 'subscribe', paymentId: paymentNotification.paymentId });
+        await next('subscribed');
+        const closed = new Promise((resolve) => socket.once('close', resolve));
+
+        heartbeat(); // The app went to the background to pay in ZaloPay
+        heartbeat();
+
+        await closed;
+        expect(websocketService.getSubscriptionCount(paymentNotification.paymentId)).toBe(0);
+        expect(cancelPayment).not.toHaveBeenCalled();
+      });
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  isValidDateFormat,
+  isValidTimeFormat,
+  toMinutes,
+  addMinutes,
+  getMinutesBetween,
+  addDays,
+  getDayOfWeek,
+} from '../../../utils/date-time.js';
+
+describe('Date and Time', () => {
+  it('should accept only real YYYY-MM-DD dates', () => {
+    expect(isValidDateFormat('2027-01-05')).toBe(true);
+    expect(isValidDateFormat('2027-1-5')).toBe(false);
+    expect(isValidDateFormat('2027-13-01')).toBe(false);
+    expect(isValidDateFormat(20270105)).toBe(false);
+  });
+
+  it('should accept only HH:mm times within a day', () => {
+    expect(isValidTimeFormat('06:30')).toBe(true);
+    expect(isValidTimeFormat('24:00')).toBe(false);
+    expect(isValidTimeFormat('6:30')).toBe(false);
+    expect(isValidTimeFormat(null)).toBe(false);
+  });
+
+  it('should do arithmetic on times and add days across months', () => {
+    expect(toMinutes('19:30')).toBe(1170);
+    expect(addMinutes('23:30', 30)).toBe('24:00');
+    expect(getMinutesBetween('06:30', '08:00')).toBe(90);
+    expect(addDays('2027-01-31', 1)).toBe('2027-02-01');
+    expect(addDays('2027-03-01', -1)).toBe('2027-02-28');
+  });
+
+  it('should name the day of the week of a date', () => {
+    expect(getDayOfWeek('2027-01-04')).toBe('mon');
+    expect(getDayOfWeek('2027-01-10')).toBe('sun');
+  });
+});
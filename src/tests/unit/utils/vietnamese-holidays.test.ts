@@ -0,0 +1,54 @@
+import { describe, it, expect } from '@jest/globals';
+import { lunarToSolar, formatSolarDate } from '../../../utils/lunar-calendar.js';
+import { getVietnameseHolidays, TET_MULTIPLIER, PUBLIC_HOLIDAY_MULTIPLIER } from '../../../utils/vietnamese-holidays.js';
+
+describe('Lunar Calendar', () => {
+  describe('lunarToSolar', () => {
+    it.each([
+      [2023, '2023-01-22'],
+      [2024, '2024-02-10'],
+      [2025, '2025-01-29'],
+      [2026, '2026-02-17'],
+      [2027, '2027-02-06'],
+      [2028, '2028-01-26'],
+    ])('should find Tết Nguyên Đán %i on %s', (year, expected) => {
+      expect(formatSolarDate(lunarToSolar(1, 1, year)!)).toBe(expected);
+    });
+
+    it('should account for leap months earlier in the year', () => {
+      // 2023 has a leap 2nd month, pushing 10/3 to late April
+      expect(formatSolarDate(lunarToSolar(10, 3, 2023)!)).toBe('2023-04-29');
+      expect(formatSolarDate(lunarToSolar(1, 2, 2023, true)!)).toBe('2023-03-22');
+    });
+
+    it('should return null for a leap month the year does not have', () => {
+      expect(lunarToSolar(1, 2, 2025, true)).toBeNull();
+    });
+  });
+});
+
+describe('Vietnamese Holidays', () => {
+  it('should include fixed and lunar holidays sorted by date', () => {
+    const holidays = getVietnameseHolidays(2026);
+    const dates = holidays.map((holiday) => holiday.date);
+
+    expect(dates).toEqual([...dates].sort());
+    expect(holidays).toContainEqual({ date: '2026-01-01', name: 'Tết Dương lịch', multiplier: PUBLIC_HOLIDAY_MULTIPLIER });
+    expect(holidays).toContainEqual({ date: '2026-04-26', name: 'Giỗ Tổ Hùng Vương', multiplier: PUBLIC_HOLIDAY_MULTIPLIER });
+    expect(holidays).toContainEqual({ date: '2026-09-02', name: 'Quốc khánh', multiplier: PUBLIC_HOLIDAY_MULTIPLIER });
+  });
+
+  it('should cover Tết from New Year\'s Eve through Mùng 5', () => {
+    const tet = getVietnameseHolidays(2025).filter((holiday) => holiday.name.startsWith('Tết Nguyên đán'));
+
+    expect(tet.map((holiday) => holiday.date)).toEqual([
+      '2025-01-28',
+      '2025-01-29',
+      '2025-01-30',
+      '2025-01-31',
+      '2025-02-01',
+      '2025-02-02',
+    ]);
+    expect(tet.every((holiday) => holiday.multiplier === TET_MULTIPLIER)).toBe(true);
+  });
+});
@@ -6,6 +6,16 @@ export type AuthProvider = 'google' | 'facebook' | 'password' | 'anonymous';
 
 export type Gender = 'male' | 'female' | 'other' | 'prefer_not_to_say';
 
+// ==================== Role Types ====================
+
+/**
+ * Platform-wide user role
+ * Venue roles are granted per court through CourtMember rows
+ */
+export type UserRole = 'player' | 'venue_staff' | 'venue_owner' | 'platform_admin';
+
+export const USER_ROLES: readonly UserRole[] = ['player', 'venue_staff', 'venue_owner', 'platform_admin'];
+
 // ==================== Request DTOs ====================
 
 /**
@@ -57,6 +67,13 @@ export interface UpdateProfileDto {
   addressCity?: string;
 }
 
+/**
+ * Update user role request (platform admin only)
+ */
+export interface UpdateUserRoleDto {
+  role: UserRole;
+}
+
 /**
  * Check username availability request
  */
@@ -83,6 +100,7 @@ export interface UserProfileDto {
   username: string | null;
   provider: AuthProvider;
   isAnonymous: boolean;
+  role: UserRole;
   firstName: string | null;
   lastName: string | null;
   gender: Gender | null;
@@ -139,6 +157,8 @@ export interface BookingHistoryItemDto {
   status: string;
   notes: string | null;
   createdAt: string;
+  role: 'owner' | 'player';       // player = joined someone else's open game
+  openGameId: string | null;
   court: {
     id: string;
     name: string;
@@ -176,6 +196,7 @@ export interface DecodedFirebaseToken {
   phone_number?: string;
   name?: string;
   picture?: string;
+  exp: number; // Expiry, in seconds since the epoch
   firebase: {
     sign_in_provider: string;
     identities: Record<string, unknown>;
@@ -212,6 +233,7 @@ export function mapUserToDto(user: User): UserProfileDto {
     username: user.username,
     provider: user.provider as AuthProvider,
     isAnonymous: user.isAnonymous,
+    role: user.role as UserRole,
     firstName: user.firstName,
     lastName: user.lastName,
     gender: user.gender as Gender | null,
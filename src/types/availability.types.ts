@@ -1,9 +1,13 @@
+import type { PriceAdjustment } from './pricing-rule.types.js';
+
 // Time slot for availability
 export interface TimeSlot {
   startTime: string; // "HH:mm" format
   endTime: string;   // "HH:mm" format
   isAvailable: boolean;
   price: number;     // Price in VND for this slot
+  basePrice: number; // Price before the dynamic pricing adjustments
+  adjustments: PriceAdjustment[];
 }
 
 // Sub-court with availability
@@ -12,9 +16,35 @@ export interface SubCourtAvailability {
   name: string;
   description: string | null;
   isActive: boolean;
+  surfaceType: string;
   slots: TimeSlot[];
 }
 
+// Slot granularity a court books in
+export type SlotMinutes = 30 | 60;
+
+/**
+ * Booking policy
+ * Per-court rules for new bookings and cancellations; null limits are not enforced
+ */
+export interface BookingPolicy {
+  minDurationMinutes: number;
+  maxDurationMinutes: number | null;
+  slotMinutes: SlotMinutes;               // Bookings start and end on this grid, from opening time
+  maxAdvanceDays: number | null;          // How far ahead booking opens
+  minNoticeMinutes: number | null;        // Minimum time between booking and start
+  maxActiveBookingsPerUser: number | null; // Upcoming pending/confirmed bookings per user at the court
+  cancellationDeadlineHours: number | null; // Players cannot cancel later than this before start
+  changeDeadlineHours: number | null;       // Players cannot move a confirmed booking later than this before start
+}
+
+export type UpdateBookingPolicyDto = Partial<BookingPolicy>;
+
+export interface BookingPolicyResponse extends BookingPolicy {
+  courtId: string;
+  isDefault: boolean;     // True when the court uses the platform default policy
+}
+
 // Full availability response for a court on a specific date
 export interface CourtAvailabilityResponse {
   courtId: string;
@@ -23,14 +53,96 @@ export interface CourtAvailabilityResponse {
   dayType: 'weekday' | 'weekend' | 'holiday';
   openingTime: string;    // "HH:mm"
   closingTime: string;    // "HH:mm"
+  occupancyPercent: number; // Share of the day's court time already booked (drives surge pricing)
+  bookingPolicy: BookingPolicy;
+  subCourts: SubCourtAvailability[];
+}
+
+// Cheapest bookable slot of a day
+export interface CheapestSlot {
+  subCourtId: string;
+  subCourtName: string;
+  startTime: string;  // "HH:mm"
+  endTime: string;    // "HH:mm"
+  price: number;
+}
+
+// Compact summary of a day in the availability calendar
+export interface DayAvailabilitySummary {
+  freeHours: number;  // Bookable court time, summed over sub-courts
+  cheapestSlot: CheapestSlot | null;
+}
+
+// One day of the availability calendar; closed days have no sub-courts
+export interface DayAvailability {
+  date: string;           // "YYYY-MM-DD" format
+  dayType: 'weekday' | 'weekend' | 'holiday';
+  isOpen: boolean;
+  openingTime: string | null;
+  closingTime: string | null;
+  occupancyPercent: number;
+  summary: DayAvailabilitySummary;
   subCourts: SubCourtAvailability[];
 }
 
+// Availability of a court over a range of dates
+export interface CourtAvailabilityCalendarResponse {
+  courtId: string;
+  courtName: string;
+  from: string;           // "YYYY-MM-DD" format
+  to: string;             // "YYYY-MM-DD" format, inclusive
+  bookingPolicy: BookingPolicy;
+  days: DayAvailability[];
+}
+
 // Query params for availability
 export interface AvailabilityQueryParams {
   date: string; // "YYYY-MM-DD" format
 }
 
+// Query params for the availability calendar
+export interface AvailabilityCalendarQueryParams {
+  from: string; // "YYYY-MM-DD" format
+  to: string;   // "YYYY-MM-DD" format, inclusive
+}
+
+// Order of the cross-venue slot search results
+export type SlotSearchSort = 'distance' | 'price';
+
+export const SLOT_SEARCH_SORTS: readonly SlotSearchSort[] = ['distance', 'price'];
+
+// Query params for the cross-venue slot search
+export interface SlotSearchParams {
+  latitude: number;
+  longitude: number;
+  radius?: number;            // km, default 5
+  date: string;               // "YYYY-MM-DD" format
+  startTime: string;          // "HH:mm"
+  endTime: string;            // "HH:mm"
+  maxPricePerHour?: number;   // VND
+  sort?: SlotSearchSort;      // Default distance
+}
+
+// Sub-court free for the whole requested window
+export interface FreeSubCourt {
+  id: string;
+  name: string;
+  surfaceType: string;
+}
+
+// Venue with at least one sub-court free for the requested window
+export interface SlotSearchResult {
+  courtId: string;
+  courtName: string;
+  addressStreet: string | null;
+  addressDistrict: string | null;
+  distance: number;           // Meters
+  totalPrice: number;         // Price of the window on any of the sub-courts
+  pricePerHour: number;
+  adjustments: PriceAdjustment[];
+  subCourts: FreeSubCourt[];
+}
+
 // Booking status
 export type BookingStatus = 'pending' | 'confirmed' | 'cancelled' | 'completed' | 'failed';
 
@@ -51,6 +163,8 @@ export interface CreateBookingDto {
   startTime?: string; // "HH:mm"
   endTime?: string;   // "HH:mm"
   notes?: string;
+  voucherCode?: string;
+  packageId?: string;   // Pay with court time from this package instead of ZaloPay
 }
 
 // Booking response
@@ -66,12 +180,63 @@ export interface BookingResponse {
   date: string;
   startTime: string;
   endTime: string;
-  totalPrice: number;
+  originalPrice: number;    // Before the voucher discount
+  discountAmount: number;
+  totalPrice: number;       // Price to pay
+  voucherCode: string | null;
+  packageId: string | null;   // Paid with court time from this package
   status: BookingStatus;
   notes: string | null;
   createdAt: string;
 }
 
+// Newly created booking with the guest access token for reading/cancelling it without an account
+export interface CreatedBookingResponse extends BookingResponse {
+  accessToken: string;
+  priceAdjustments: PriceAdjustment[];  // Dynamic pricing applied to the booking's slots
+}
+
+// Existing booking that collides with a requested change (deactivation, closure, ...)
+export interface BookingConflict {
+  bookingId: string;
+  subCourtId: string;
+  subCourtName: string;
+  date: string;       // "YYYY-MM-DD"
+  startTime: string;  // "HH:mm"
+  endTime: string;    // "HH:mm"
+  status: BookingStatus;
+  guestName: string | null;
+  guestPhone: string | null;
+}
+
+// Raw booking conflict from database
+export interface RawBookingConflict {
+  id: string;
+  sub_court_id: string;
+  sub_court_name: string;
+  date: Date;
+  start_time: string;
+  end_time: string;
+  status: string;
+  guest_name: string | null;
+  guest_phone: string | null;
+}
+
+// Map raw booking conflict row to response shape
+export function mapBookingConflict(raw: RawBookingConflict): BookingConflict {
+  return {
+    bookingId: raw.id,
+    subCourtId: raw.sub_court_id,
+    subCourtName: raw.sub_court_name,
+    date: raw.date.toISOString().split('T')[0] ?? '',
+    startTime: raw.start_time,
+    endTime: raw.end_time,
+    status: raw.status as BookingStatus,
+    guestName: raw.guest_name,
+    guestPhone: raw.guest_phone,
+  };
+}
+
 // Pricing rule
 export interface PricingRule {
   id: string;
@@ -111,6 +276,7 @@ export interface RawSubCourt {
   name: string;
   description: string | null;
   is_active: boolean;
+  surface_type: string;
 }
 
 // Raw pricing rule from database
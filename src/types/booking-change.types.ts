@@ -0,0 +1,91 @@
+import type { BookingResponse } from './availability.types.js';
+import type { CreatePaymentResponse } from './payment.types.js';
+import type { RefundResponse } from './refund.types.js';
+
+// Booking change status
+// - pending: the move costs more, waiting for the difference to be paid (the new slot stays locked)
+// - completed: the booking was moved
+// - failed: the difference payment failed or was cancelled, the booking kept its slot
+// - expired: the difference was not paid before the slot lock expired
+export type BookingChangeStatus = 'pending' | 'completed' | 'failed' | 'expired';
+
+// DTO for moving a booking; fields left out keep their current value
+export interface ChangeBookingDto {
+  subCourtId?: string;
+  date?: string;      // "YYYY-MM-DD"
+  startTime?: string; // "HH:mm"
+  endTime?: string;   // "HH:mm"
+}
+
+// Slot a booking is moved from or to
+export interface BookingSlot {
+  subCourtId: string;
+  subCourtName: string;
+  date: string;       // "YYYY-MM-DD"
+  startTime: string;  // "HH:mm"
+  endTime: string;    // "HH:mm"
+}
+
+// Sub-court, date and time of a booking, without names
+export interface BookingMoveSlot {
+  subCourtId: string;
+  date: string;       // "YYYY-MM-DD"
+  startTime: string;  // "HH:mm"
+  endTime: string;    // "HH:mm"
+}
+
+// A validated and priced move of a booking
+export interface BookingMove {
+  from: BookingMoveSlot;
+  to: BookingMoveSlot;
+  oldPrice: number;           // Booking total price before the move
+  newOriginalPrice: number;   // Price of the new slot, before the voucher discount
+  newPrice: number;           // Price after the move (the voucher discount is kept)
+  changedBy: string | null;
+}
+
+export interface BookingChangeResponse {
+  id: string;
+  bookingId: string;
+  from: BookingSlot;
+  to: BookingSlot;
+  oldPrice: number;
+  newPrice: number;
+  priceDifference: number;  // Positive: charged through ZaloPay, negative: refunded
+  status: BookingChangeStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response when moving a booking
+// A move that costs more returns the ZaloPay order for the difference and is applied once it is paid
+export interface ChangeBookingResponse {
+  booking: BookingResponse;
+  change: BookingChangeResponse;
+  payment: CreatePaymentResponse | null;
+  refunds: RefundResponse[];
+}
+
+// Raw booking change from database
+export interface RawBookingChange {
+  id: string;
+  booking_id: string;
+  court_id: string;
+  from_sub_court_id: string;
+  from_sub_court_name: string;
+  from_date: Date;
+  from_start_time: string;
+  from_end_time: string;
+  to_sub_court_id: string;
+  to_sub_court_name: string;
+  to_date: Date;
+  to_start_time: string;
+  to_end_time: string;
+  old_price: number;
+  new_original_price: number;
+  new_price: number;
+  status: string;
+  changed_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
@@ -0,0 +1,134 @@
+import type { DayOfWeek } from './closure.types.js';
+import type { CancelBookingResponse } from './refund.types.js';
+
+export type BookingSeriesStatus = 'active' | 'cancelled';
+
+/**
+ * Create a recurring booking series
+ * Repeats weekly on `daysOfWeek` from `startDate` until `until` (inclusive)
+ * or for `count` occurrences - exactly one of the two is required
+ */
+export interface CreateBookingSeriesDto {
+  subCourtId: string;
+  daysOfWeek: DayOfWeek[];
+  startTime: string;      // "HH:mm"
+  endTime: string;        // "HH:mm"
+  startDate: string;      // "YYYY-MM-DD"
+  until?: string;         // "YYYY-MM-DD"
+  count?: number;
+  guestName: string;
+  guestPhone: string;
+  guestEmail?: string;
+  notes?: string;
+  userId?: string;
+  dryRun?: boolean;       // Report occurrences and conflicts without booking
+}
+
+// Move a single occurrence to another date, time or sub-court of the same court
+export interface MoveOccurrenceDto {
+  subCourtId?: string;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+// "this" cancels one occurrence (skip), "future" cancels it and every later one
+export type OccurrenceCancelScope = 'this' | 'future';
+
+export interface BookingSeriesOccurrence {
+  bookingId: string;
+  subCourtId: string;
+  subCourtName: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+  totalPrice: number;
+  status: string;
+}
+
+// Occurrence that could not be booked
+export interface SeriesOccurrenceConflict {
+  date: string;
+  startTime: string;
+  endTime: string;
+  reason: 'booking' | 'closure' | 'locked' | 'policy';
+  message?: string;       // Why the court's opening hours or booking policy rule it out
+}
+
+export interface BookingSeriesResponse {
+  id: string;
+  subCourtId: string;
+  subCourtName: string;
+  courtId: string;
+  courtName: string;
+  guestName: string;
+  guestPhone: string;
+  guestEmail: string | null;
+  daysOfWeek: DayOfWeek[];
+  startTime: string;
+  endTime: string;
+  startDate: string;
+  until: string | null;
+  count: number | null;
+  status: BookingSeriesStatus;
+  notes: string | null;
+  occurrences: BookingSeriesOccurrence[];
+  createdAt: string;
+}
+
+export interface CreateBookingSeriesResponse {
+  series: BookingSeriesResponse | null;   // Null on dry run
+  occurrences: { date: string; totalPrice: number }[];
+  conflicts: SeriesOccurrenceConflict[];
+  totalPrice: number;
+  expiresAt: string | null;   // Unpaid occurrences are cancelled after this; null on dry run
+  dryRun: boolean;
+}
+
+export interface CancelOccurrencesResponse {
+  cancelled: CancelBookingResponse[];
+  series: BookingSeriesResponse;
+}
+
+// Raw booking series from database
+export interface RawBookingSeries {
+  id: string;
+  sub_court_id: string;
+  sub_court_name: string;
+  court_id: string;
+  court_name: string;
+  user_id: string | null;
+  guest_name: string;
+  guest_phone: string;
+  guest_email: string | null;
+  days_of_week: string[];
+  start_time: string;
+  end_time: string;
+  start_date: Date;
+  until_date: Date | null;
+  count: number | null;
+  status: string;
+  notes: string | null;
+  created_at: Date;
+}
+
+// Raw series occurrence (booking) from database
+export interface RawSeriesOccurrence {
+  id: string;
+  sub_court_id: string;
+  sub_court_name: string;
+  date: Date;
+  start_time: string;
+  end_time: string;
+  total_price: number;
+  status: string;
+}
+
+// Raw booking or closure blocking a sub-court slot
+export interface RawSlotBlock {
+  id: string;
+  kind: 'booking' | 'closure';
+  date: Date;
+  start_time: string | null;    // NULL = full day closure
+  end_time: string | null;
+}
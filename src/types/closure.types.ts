@@ -0,0 +1,56 @@
+import type { BookingConflict, RawClosure } from './availability.types.js';
+import type { OpeningHours } from './court.types.js';
+
+// Day of week, using the same keys as opening hours
+export type DayOfWeek = keyof OpeningHours;
+
+export const DAYS_OF_WEEK: readonly DayOfWeek[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+/**
+ * Create closure request
+ * - Single day: `date`
+ * - Date range: `startDate` + `endDate` (inclusive)
+ * - Recurring: `startDate` + `endDate` + `daysOfWeek` (e.g. every Monday)
+ * Omitting `startTime`/`endTime` closes the whole day
+ */
+export interface CreateClosureDto {
+  subCourtIds?: string[];     // Defaults to every sub-court of the court
+  date?: string;              // "YYYY-MM-DD"
+  startDate?: string;         // "YYYY-MM-DD"
+  endDate?: string;           // "YYYY-MM-DD"
+  daysOfWeek?: DayOfWeek[];
+  startTime?: string;         // "HH:mm"
+  endTime?: string;           // "HH:mm"
+  reason?: string;
+}
+
+export interface ClosureQueryParams {
+  from?: string;
+  to?: string;
+}
+
+export interface ClosureResponse {
+  id: string;
+  subCourtId: string;
+  subCourtName: string;
+  date: string;
+  startTime: string | null;
+  endTime: string | null;
+  reason: string | null;
+  seriesId: string | null;
+  createdAt: string;
+}
+
+// Create result, with pending/confirmed bookings that fall inside the new closures
+export interface CreateClosureResponse {
+  seriesId: string;
+  closures: ClosureResponse[];
+  conflicts: BookingConflict[];
+}
+
+// Raw closure with sub-court name from database
+export interface RawClosureDetail extends RawClosure {
+  sub_court_name: string;
+  series_id: string | null;
+  created_at: Date;
+}
@@ -1,3 +1,5 @@
+import type { UserRole } from './auth.types.js';
+
 export interface CourtDetails {
   amenities?: string[];
   payments?: string[];
@@ -36,9 +38,49 @@ export interface CreateCourtDto {
 
 export interface UpdateCourtDto extends Partial<CreateCourtDto> {}
 
+// Court within a search radius (raw row of the PostGIS nearby query)
+export interface NearbyCourtResult {
+  id: string;
+  name: string;
+  description: string | null;
+  phone_numbers: string[];
+  address_street: string | null;
+  address_ward: string | null;
+  address_district: string | null;
+  address_city: string | null;
+  details: CourtDetails;
+  opening_hours: OpeningHours;
+  distance: number;       // Meters
+}
+
 export interface CourtQueryParams {
   district?: string;
   page?: number;
   limit?: number;
 }
 
+
+// Court membership role (per court)
+export type CourtMemberRole = 'owner' | 'staff';
+
+export const COURT_MEMBER_ROLES: readonly CourtMemberRole[] = ['owner', 'staff'];
+
+export interface AddCourtMemberDto {
+  userId: string;
+  role: CourtMemberRole;
+}
+
+export interface CourtMemberResponse {
+  id: string;
+  courtId: string;
+  userId: string;
+  role: CourtMemberRole;
+  user: {
+    email: string | null;
+    username: string | null;
+    firstName: string | null;
+    lastName: string | null;
+    role: UserRole;
+  };
+  createdAt: string;
+}
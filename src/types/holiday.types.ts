@@ -0,0 +1,71 @@
+export interface HolidayResponse {
+  id: string;
+  date: string;
+  name: string | null;
+  multiplier: number;
+}
+
+export interface CreateHolidayDto {
+  date: string;           // "YYYY-MM-DD"
+  name?: string;
+  multiplier?: number;    // Defaults to 1.0
+}
+
+export interface UpdateHolidayDto {
+  date?: string;
+  name?: string | null;
+  multiplier?: number;
+}
+
+export interface HolidayQueryParams {
+  year?: number;
+}
+
+// Holiday produced by the generator
+export interface HolidayEntry {
+  date: string;
+  name: string;
+  multiplier: number;
+}
+
+// Generate the Vietnamese public holiday calendar for a year
+export interface GenerateHolidaysDto {
+  year: number;
+  overwrite?: boolean;    // Replace name/multiplier of holidays that already exist on a generated date
+  dryRun?: boolean;       // Return what would be saved without saving
+}
+
+export interface GenerateHolidaysResponse {
+  year: number;
+  created: HolidayEntry[];
+  updated: HolidayEntry[];
+  skipped: HolidayEntry[];    // Already existed and overwrite was not requested
+  dryRun: boolean;
+}
+
+/**
+ * Per-court holiday override
+ * - isHoliday=false: the court treats a global holiday as a regular day
+ * - isHoliday=true: the date is a holiday for this court, using `multiplier`
+ *   (or the global multiplier when null)
+ */
+export interface CourtHolidayOverrideDto {
+  isHoliday?: boolean;
+  name?: string | null;
+  multiplier?: number | null;
+}
+
+export interface CourtHolidayOverrideResponse {
+  id: string;
+  courtId: string;
+  date: string;
+  name: string | null;
+  isHoliday: boolean;
+  multiplier: number | null;
+}
+
+// Holiday status of a date for a court, after applying overrides
+export interface HolidayInfo {
+  isHoliday: boolean;
+  multiplier: number;
+}
@@ -3,6 +3,22 @@ export * from './availability.types.js';
 export * from './payment.types.js';
 export * from './search.types.js';
 export * from './auth.types.js';
+export * from './sub-court.types.js';
+export * from './pricing-rule.types.js';
+export * from './closure.types.js';
+export * from './holiday.types.js';
+export * from './refund.types.js';
+export * from './split-payment.types.js';
+export * from './booking-series.types.js';
+export * from './waitlist.types.js';
+export * from './review.types.js';
+export * from './open-game.types.js';
+export * from './voucher.types.js';
+export * from './package.types.js';
+export * from './booking-change.types.js';
+export * from './webhook.types.js';
+export * from './notification.types.js';
+export * from './push.types.js';
 
 // Opening hours type for court
 export interface OpeningHours {
@@ -0,0 +1,15 @@
+// Kinds of notification kept in the outbox
+export type NotificationType = 'payment_status';
+
+export interface NotificationQueryParams {
+  since?: string;   // Only notifications after this seq
+  limit?: string;
+}
+
+// A notification from the outbox; payload is the WebSocket message as it was sent
+export interface NotificationResponse {
+  seq: number;
+  type: NotificationType;
+  payload: Record<string, unknown>;
+  createdAt: string;
+}
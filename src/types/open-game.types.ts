@@ -0,0 +1,85 @@
+// Skill levels: 1 beginner, 2 casual, 3 intermediate, 4 advanced, 5 competitive
+export const MIN_SKILL_LEVEL = 1;
+export const MAX_SKILL_LEVEL = 5;
+
+export type OpenGameStatus = 'open' | 'closed';
+
+// Join request status
+// - requested: waiting for the host
+// - withdrawn: cancelled by the player (may request again)
+export type OpenGamePlayerStatus = 'requested' | 'accepted' | 'declined' | 'withdrawn';
+
+export interface CreateOpenGameDto {
+  bookingId: string;
+  skillMin: number;
+  skillMax: number;
+  spots: number;
+  costPerPlayer: number;  // VND, paid to the host
+  notes?: string;
+  userId?: string;
+}
+
+export interface UpdateOpenGameDto {
+  skillMin?: number;
+  skillMax?: number;
+  spots?: number;
+  costPerPlayer?: number;
+  notes?: string | null;
+}
+
+export interface JoinOpenGameDto {
+  skillLevel?: number;
+  message?: string;
+}
+
+export interface RespondToJoinRequestDto {
+  status: 'accepted' | 'declined';
+}
+
+export interface OpenGameQueryParams {
+  latitude: number;
+  longitude: number;
+  radius?: number;        // km, default 5
+  date?: string;          // YYYY-MM-DD
+  skillLevel?: number;    // Only games whose range includes this level
+}
+
+export interface OpenGameResponse {
+  id: string;
+  bookingId: string;
+  hostUserId: string;
+  hostName: string | null;
+  court: {
+    id: string;
+    name: string;
+    addressDistrict: string | null;
+  };
+  subCourt: {
+    id: string;
+    name: string;
+  };
+  date: string;
+  startTime: string;
+  endTime: string;
+  skillMin: number;
+  skillMax: number;
+  spots: number;
+  spotsLeft: number;
+  costPerPlayer: number;
+  notes: string | null;
+  status: OpenGameStatus;
+  distance?: number;      // Meters, in nearby results
+  createdAt: string;
+}
+
+export interface OpenGamePlayerResponse {
+  id: string;
+  openGameId: string;
+  userId: string;
+  name: string | null;
+  photoUrl: string | null;
+  skillLevel: number | null;
+  message: string | null;
+  status: OpenGamePlayerStatus;
+  createdAt: string;
+}
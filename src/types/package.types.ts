@@ -0,0 +1,87 @@
+import type { QRCodeData } from './payment.types.js';
+
+// Package status
+// - pending: bought online, waiting for the ZaloPay payment
+// - active: court time can be used until expiresAt
+// - expired: validity ran out; remaining time is forfeited
+// - cancelled: the payment failed or was never completed
+export type PackageStatus = 'pending' | 'active' | 'expired' | 'cancelled';
+
+// How a package was sold
+export type PackageSource = 'online' | 'offline';
+
+// Balance history entry type
+// - purchase: the package was activated with its minutes
+// - debit: a booking used minutes
+// - credit: minutes returned by a cancelled booking
+// - expire: the remaining minutes were forfeited
+export type PackageTransactionType = 'purchase' | 'debit' | 'credit' | 'expire';
+
+export interface CreatePackagePlanDto {
+  name: string;
+  minutes: number;        // Court time, in 30-minute steps
+  validityDays: number;
+  price: number;          // VND
+  isActive?: boolean;
+}
+
+export type UpdatePackagePlanDto = Partial<CreatePackagePlanDto>;
+
+export interface PackagePlanResponse {
+  id: string;
+  courtId: string;
+  name: string;
+  minutes: number;
+  validityDays: number;
+  price: number;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Buy a plan through ZaloPay
+export interface PurchasePackageDto {
+  planId: string;
+}
+
+// Record a package the venue sold offline
+export interface GrantPackageDto {
+  planId: string;
+  userId: string;
+}
+
+export interface UserPackageResponse {
+  id: string;
+  userId: string;
+  courtId: string;
+  courtName: string;
+  planId: string | null;
+  name: string;
+  totalMinutes: number;
+  remainingMinutes: number;
+  validityDays: number;
+  price: number;
+  status: PackageStatus;
+  source: PackageSource;
+  activatedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// Response when buying a package: the ZaloPay order to pay it
+export interface PurchasePackageResponse {
+  package: UserPackageResponse;
+  orderUrl: string;
+  qrCode: QRCodeData;
+  zpTransToken: string | null;
+}
+
+export interface PackageTransactionResponse {
+  id: string;
+  bookingId: string | null;
+  type: PackageTransactionType;
+  minutes: number;          // Negative for debits and expiry
+  balanceAfter: number;
+  note: string | null;
+  createdAt: string;
+}
@@ -15,6 +15,9 @@ export interface PaymentResponse {
   amount: number;
   status: PaymentStatus;
   orderUrl: string | null;
+  splitPaymentId: string | null;  // Set when the payment is one share of a split payment
+  shareNumber: number | null;
+  bookingChangeId: string | null; // Set when the payment covers the price difference of a booking change
   createdAt: string;
   updatedAt: string;
 }
@@ -35,6 +38,14 @@ export interface CreatePaymentResponse {
   wsSubscribeUrl: string; // WebSocket URL to subscribe for payment updates
 }
 
+// ZaloPay order created for a payment, stored on its payment row
+export interface ZaloPayOrder {
+  appTransId: string;
+  amount: number;
+  orderUrl: string | undefined;
+  zpTransToken: string | null;
+}
+
 // ZaloPay Create Order Request
 export interface ZaloPayCreateOrderRequest {
   app_id: number;
@@ -111,9 +122,46 @@ export interface ZaloPayQueryOrderResponse {
   zp_trans_id: number;
 }
 
+// ZaloPay Refund Request
+export interface ZaloPayRefundRequest {
+  app_id: number;
+  m_refund_id: string;    // yymmdd_appid_xxx
+  zp_trans_id: string;
+  amount: number;
+  timestamp: number;
+  description: string;
+  mac: string;
+}
+
+// ZaloPay Refund Response
+export interface ZaloPayRefundResponse {
+  return_code: number; // 1 = success, 2 = fail, 3 = processing
+  return_message: string;
+  sub_return_code: number;
+  sub_return_message: string;
+  refund_id?: number;
+}
+
+// ZaloPay Query Refund Request
+export interface ZaloPayQueryRefundRequest {
+  app_id: number;
+  m_refund_id: string;
+  timestamp: number;
+  mac: string;
+}
+
+// ZaloPay Query Refund Response
+export interface ZaloPayQueryRefundResponse {
+  return_code: number; // 1 = success, 2 = fail, 3 = processing
+  return_message: string;
+  sub_return_code: number;
+  sub_return_message: string;
+}
+
 // Embedded data in ZaloPay order
 export interface ZaloPayEmbedData {
-  bookingId: string;
+  bookingId?: string;
+  packageId?: string;     // Set instead of bookingId for prepaid package purchases
   redirecturl?: string;
 }
 
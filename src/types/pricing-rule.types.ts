@@ -0,0 +1,107 @@
+import type { PricingRule } from './availability.types.js';
+
+// Day type a pricing rule applies to
+export type DayType = 'weekday' | 'weekend' | 'holiday';
+
+export const DAY_TYPES: readonly DayType[] = ['weekday', 'weekend', 'holiday'];
+
+export interface CreatePricingRuleDto {
+  name: string;
+  dayType: DayType;
+  startTime: string;      // "HH:mm", on a 30-minute boundary
+  endTime: string;        // "HH:mm", on a 30-minute boundary
+  pricePerHour: number;   // VND
+  isActive?: boolean;
+}
+
+export type UpdatePricingRuleDto = Partial<CreatePricingRuleDto>;
+
+export interface PricingRuleResponse extends PricingRule {
+  courtId: string;
+  isActive: boolean;
+}
+
+// Part of a day's opening hours that no active pricing rule covers (priced at 0)
+export interface UncoveredHours {
+  day: string;            // "mon" ... "sun"
+  dayType: DayType;
+  startTime: string;
+  endTime: string;
+}
+
+// Create/update result, with the hours left uncovered by the court's active rules
+export interface PricingRuleMutationResponse {
+  rule: PricingRuleResponse;
+  uncoveredHours: UncoveredHours[];
+}
+
+export interface PricingCoverageResponse {
+  courtId: string;
+  uncoveredHours: UncoveredHours[];
+}
+
+// Preview request: renders a week of prices for a proposed rule set without saving it
+export interface PricingPreviewDto {
+  weekStart: string;                  // "YYYY-MM-DD"
+  rules?: CreatePricingRuleDto[];     // Defaults to the court's saved rules
+}
+
+export interface PricingPreviewSlot {
+  startTime: string;
+  endTime: string;
+  price: number | null;   // null when no rule covers the slot
+  ruleName: string | null;
+}
+
+export interface PricingPreviewDay {
+  date: string;
+  day: string;
+  dayType: DayType;
+  openingTime: string | null;   // null when the court is closed that day
+  closingTime: string | null;
+  holidayMultiplier: number;
+  slots: PricingPreviewSlot[];
+}
+
+// Pair of rules whose time windows overlap on the same day type
+export interface PricingRuleOverlap {
+  dayType: DayType;
+  first: string;
+  second: string;
+}
+
+export interface PricingPreviewResponse {
+  courtId: string;
+  weekStart: string;
+  days: PricingPreviewDay[];
+  overlaps: PricingRuleOverlap[];
+  uncoveredHours: UncoveredHours[];
+}
+
+/**
+ * Dynamic pricing
+ * Optional adjustments a court applies on top of its pricing rules and holiday multiplier
+ * - surge: raise prices once the day's occupancy reaches `occupancyPercent`
+ * - lastMinute: discount unbooked slots starting within `hoursBefore` hours
+ * - earlyBird: discount slots booked at least `daysBefore` days ahead
+ */
+export interface DynamicPricing {
+  surge?: { occupancyPercent: number; increasePercent: number };
+  lastMinute?: { hoursBefore: number; discountPercent: number };
+  earlyBird?: { daysBefore: number; discountPercent: number };
+}
+
+export type UpdateDynamicPricingDto = DynamicPricing;
+
+export interface DynamicPricingResponse extends DynamicPricing {
+  courtId: string;
+  isEnabled: boolean;     // False when the court uses static pricing only
+}
+
+export type PriceAdjustmentType = 'surge' | 'last_minute' | 'early_bird';
+
+// Adjustment applied to a slot price: +20 for a 20% surge, -30 for a 30% discount
+export interface PriceAdjustment {
+  type: PriceAdjustmentType;
+  percent: number;
+}
@@ -0,0 +1,55 @@
+// Push notifications sent to a user's devices
+export const PUSH_EVENTS = [
+  'booking_confirmed',
+  'payment_failed',
+  'game_reminder',
+  'venue_cancellation',
+  'waitlist_offer',
+] as const;
+
+export type PushEvent = (typeof PUSH_EVENTS)[number];
+
+export const DEVICE_PLATFORMS = ['android', 'ios', 'web'] as const;
+
+export type DevicePlatform = (typeof DEVICE_PLATFORMS)[number];
+
+// Language of the notifications sent to a device
+export const PUSH_LOCALES = ['vi', 'en'] as const;
+
+export type PushLocale = (typeof PUSH_LOCALES)[number];
+
+export interface RegisterDeviceDto {
+  token: string;            // FCM registration token
+  platform: DevicePlatform;
+  locale?: PushLocale;      // Default: vi
+}
+
+export interface DeviceResponse {
+  id: string;
+  token: string;
+  platform: DevicePlatform;
+  locale: PushLocale;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Which notifications the user gets; all are on by default
+export interface NotificationPreferencesResponse {
+  bookingConfirmed: boolean;
+  paymentFailed: boolean;
+  gameReminder: boolean;
+  venueCancellation: boolean;
+  waitlistOffer: boolean;
+}
+
+export type UpdateNotificationPreferencesDto = Partial<NotificationPreferencesResponse>;
+
+// What a notification is about, filled into its template
+export interface PushContent {
+  courtName: string;
+  date: string;       // "YYYY-MM-DD"
+  startTime: string;  // "HH:mm"
+  endTime: string;    // "HH:mm"
+  bookingId?: string;
+  waitlistEntryId?: string;
+}
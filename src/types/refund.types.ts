@@ -0,0 +1,53 @@
+import type { BookingResponse } from './availability.types.js';
+
+// Refund status
+// - pending: created locally, not yet accepted by ZaloPay (retried by the scheduler)
+// - processing: accepted by ZaloPay, waiting for the final result
+export type RefundStatus = 'pending' | 'processing' | 'success' | 'failed';
+
+/**
+ * Cancellation policy tier
+ * Cancelling more than `minHoursBefore` hours before the booking starts
+ * refunds `refundPercent` of the booking price. Cancellations that match
+ * no tier are not refunded.
+ */
+export interface CancellationPolicyTier {
+  minHoursBefore: number;
+  refundPercent: number;  // 0-100
+}
+
+export interface CancellationPolicy {
+  tiers: CancellationPolicyTier[];
+}
+
+export interface CancellationPolicyResponse extends CancellationPolicy {
+  courtId: string;
+  isDefault: boolean;     // True when the court uses the platform default policy
+}
+
+export interface UpdateCancellationPolicyDto {
+  tiers: CancellationPolicyTier[];
+}
+
+// Refund response
+export interface RefundResponse {
+  id: string;
+  paymentId: string;
+  bookingId: string;
+  mRefundId: string;
+  zpRefundId: string | null;
+  amount: number;
+  refundPercent: number;
+  status: RefundStatus;
+  reason: string | null;
+  returnMessage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response when cancelling a booking
+export interface CancelBookingResponse extends BookingResponse {
+  refund: RefundResponse | null;  // Null when the booking was unpaid or the policy refunds nothing
+  refunds: RefundResponse[];      // Every refund made; a booking paid in shares is refunded per share
+  creditedMinutes: number;        // Court time credited back to the package the booking was paid with
+}
@@ -0,0 +1,65 @@
+// Rated dimensions of a review, 1-5 stars each
+export type ReviewDimension = 'floor' | 'lighting' | 'cleanliness' | 'value';
+
+export const REVIEW_DIMENSIONS: readonly ReviewDimension[] = ['floor', 'lighting', 'cleanliness', 'value'];
+
+export type ReviewRatings = Record<ReviewDimension, number>;
+
+// Sort order for a court's reviews
+export type ReviewSort = 'newest' | 'highest' | 'lowest';
+
+export const REVIEW_SORTS: readonly ReviewSort[] = ['newest', 'highest', 'lowest'];
+
+export interface CreateReviewDto {
+  bookingId: string;
+  ratings: ReviewRatings;
+  comment?: string;
+  userId?: string;
+}
+
+export interface UpdateReviewDto {
+  ratings?: Partial<ReviewRatings>;
+  comment?: string | null;
+}
+
+export interface ReplyToReviewDto {
+  reply: string;
+}
+
+export interface FlagReviewDto {
+  reason: string;
+}
+
+export interface ModerateReviewDto {
+  isHidden: boolean;
+}
+
+export interface ReviewQueryParams {
+  page?: number;
+  limit?: number;
+  sort?: ReviewSort;
+}
+
+export interface ReviewResponse {
+  id: string;
+  courtId: string;
+  bookingId: string;
+  userId: string;
+  authorName: string | null;
+  ratings: ReviewRatings;
+  rating: number;                 // Average of the dimension ratings
+  comment: string | null;
+  reply: string | null;           // Owner/staff reply
+  replyUpdatedAt: string | null;
+  isFlagged: boolean;
+  flagReason: string | null;
+  isHidden: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Aggregate rating stored on the court
+export interface CourtRatingSummary {
+  ratingAverage: number | null;   // Null when the court has no visible reviews
+  reviewCount: number;
+}
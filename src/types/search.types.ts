@@ -41,6 +41,15 @@ export interface CourtAutocompleteDetails {
   longitude: number | null;
 }
 
+/**
+ * Sort order for full search
+ * - relevance: best name/district match first
+ * - rating: highest aggregate review rating first (unrated courts last)
+ */
+export type SearchSort = 'relevance' | 'rating';
+
+export const SEARCH_SORTS: readonly SearchSort[] = ['relevance', 'rating'];
+
 /**
  * Query parameters for full search endpoint
  */
@@ -55,6 +64,10 @@ export interface SearchQueryParams {
   minSimilarity?: number;
   /** Filter by district */
   district?: string;
+  /** Only courts rated at least this (1-5) */
+  minRating?: number;
+  /** Sort order (default: relevance) */
+  sortBy?: SearchSort;
 }
 
 /**
@@ -71,6 +84,10 @@ export interface CourtSearchResult {
   nameScore: number;
   /** Similarity score for district match (0-1) */
   districtScore: number;
+  /** Average review rating (1-5), null when unrated */
+  rating: number | null;
+  /** Number of visible reviews */
+  reviewCount: number;
 }
 
 /**
@@ -85,6 +102,8 @@ export interface RawCourtSearchResult {
   address_street: string | null;
   name_score: number;
   district_score: number;
+  rating_average: number | null;
+  review_count: number;
 }
 
 /**
@@ -107,5 +126,7 @@ export interface CourtIndexData {
   addressDistrict: string | null;
   addressWard: string | null;
   addressCity: string | null;
+  /** Average review rating, used as the autocomplete score */
+  ratingAverage: number | null;
 }
 
@@ -0,0 +1,47 @@
+import type { CreatePaymentResponse, PaymentStatus } from './payment.types.js';
+
+// Split payment status
+// - open: shares are being paid, the booking is still pending
+// - completed: the shares (or the booker) covered the total, the booking is confirmed
+// - cancelled: the booking expired or was cancelled before the total was covered
+export type SplitPaymentStatus = 'open' | 'completed' | 'cancelled';
+
+export const MIN_SPLIT_SHARES = 2;
+export const MAX_SPLIT_SHARES = 10;
+
+// Share number of the payment the booker makes to cover what is left
+export const COVER_SHARE_NUMBER = 0;
+
+// DTO for splitting the payment of a booking
+export interface CreateSplitPaymentDto {
+  shares: number;
+}
+
+export interface SplitShareResponse {
+  shareNumber: number;        // 1..shareCount, 0 = the booker covering what is left
+  amount: number;
+  paymentId: string;
+  status: PaymentStatus;
+  orderUrl: string | null;
+}
+
+export interface SplitPaymentResponse {
+  id: string;
+  bookingId: string;
+  shareCount: number;
+  totalAmount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  paidShares: number;
+  status: SplitPaymentStatus;
+  shares: SplitShareResponse[];   // Latest payment of each share
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Response when splitting a payment: one ZaloPay order and QR code per share
+export interface CreateSplitPaymentResponse {
+  split: SplitPaymentResponse;
+  shares: CreatePaymentResponse[];
+  shareToken: string;   // Sent by the other players as X-Share-Token to see and pay the shares
+}
@@ -0,0 +1,50 @@
+import type { BookingConflict } from './availability.types.js';
+
+// Playing surface of a sub-court
+export type SurfaceType = 'wood' | 'synthetic_mat' | 'concrete';
+
+export const SURFACE_TYPES: readonly SurfaceType[] = ['wood', 'synthetic_mat', 'concrete'];
+
+// Free-form per-sub-court attributes (e.g. air conditioning, lighting)
+export type SubCourtAttributes = Record<string, unknown>;
+
+export interface CreateSubCourtDto {
+  name: string;
+  description?: string;
+  surfaceType?: SurfaceType;
+  displayOrder?: number;
+  attributes?: SubCourtAttributes;
+}
+
+// Display order changes through ReorderSubCourtsDto
+export interface UpdateSubCourtDto {
+  name?: string;
+  description?: string | null;
+  surfaceType?: SurfaceType;
+  attributes?: SubCourtAttributes;
+  isActive?: boolean;
+}
+
+// Reorder request: sub-court IDs in the desired display order
+export interface ReorderSubCourtsDto {
+  subCourtIds: string[];
+}
+
+export interface SubCourtResponse {
+  id: string;
+  courtId: string;
+  name: string;
+  description: string | null;
+  isActive: boolean;
+  displayOrder: number;
+  surfaceType: SurfaceType;
+  attributes: SubCourtAttributes;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Update result, with upcoming bookings left on a sub-court that was deactivated anyway
+export interface UpdateSubCourtResponse {
+  subCourt: SubCourtResponse;
+  warnings: BookingConflict[];
+}
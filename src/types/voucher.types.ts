@@ -0,0 +1,74 @@
+import type { DayType } from './pricing-rule.types.js';
+
+// How a voucher discounts the price
+// - percent: discountValue percent off (1-100), capped at maxDiscount when set
+// - fixed: discountValue VND off the whole booking request
+export type VoucherDiscountType = 'percent' | 'fixed';
+
+export const VOUCHER_DISCOUNT_TYPES: readonly VoucherDiscountType[] = ['percent', 'fixed'];
+
+export interface CreateVoucherDto {
+  code: string;                     // Case-insensitive, stored uppercase
+  description?: string | null;
+  discountType: VoucherDiscountType;
+  discountValue: number;
+  maxDiscount?: number | null;
+  minOrderAmount?: number | null;   // Minimum eligible amount (VND) before the discount
+  validFrom?: string | null;        // ISO 8601 timestamp
+  validUntil?: string | null;       // ISO 8601 timestamp
+  usageLimit?: number | null;       // Total uses across users
+  perUserLimit?: number | null;
+  courtIds?: string[];              // Empty = every court
+  dayTypes?: DayType[];             // Empty = every day
+  startTime?: string | null;        // "HH:mm", bookings must fit inside startTime-endTime
+  endTime?: string | null;          // "HH:mm"
+  firstBookingOnly?: boolean;
+  isActive?: boolean;
+}
+
+export type UpdateVoucherDto = Partial<CreateVoucherDto>;
+
+export interface VoucherQueryParams {
+  page?: number;
+  limit?: number;
+  active?: boolean;
+}
+
+export interface VoucherResponse {
+  id: string;
+  code: string;
+  description: string | null;
+  discountType: VoucherDiscountType;
+  discountValue: number;
+  maxDiscount: number | null;
+  minOrderAmount: number | null;
+  validFrom: string | null;
+  validUntil: string | null;
+  usageLimit: number | null;
+  perUserLimit: number | null;
+  usageCount: number;
+  courtIds: string[];
+  dayTypes: DayType[];
+  startTime: string | null;
+  endTime: string | null;
+  firstBookingOnly: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A booking of a request, as the voucher sees it
+export interface VoucherBookingLine {
+  courtId: string;
+  dayType: DayType;
+  startTime: string;
+  endTime: string;
+  price: number;
+}
+
+// Voucher applied to a booking request: one discount per booking line, in order
+export interface AppliedVoucher {
+  voucherId: string;
+  code: string;
+  discounts: number[];
+}
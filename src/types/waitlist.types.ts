@@ -0,0 +1,70 @@
+import type { CreatedBookingResponse } from './availability.types.js';
+
+export type WaitlistStatus = 'waiting' | 'offered' | 'claimed' | 'expired' | 'cancelled';
+
+/**
+ * Join the waitlist for a fully booked time slot
+ * Give `subCourtId` for one sub-court or only `courtId` for any sub-court of the venue
+ */
+export interface JoinWaitlistDto {
+  courtId?: string;
+  subCourtId?: string;
+  date: string;           // "YYYY-MM-DD"
+  startTime: string;      // "HH:mm"
+  endTime: string;        // "HH:mm"
+  guestName: string;
+  guestPhone: string;
+  userId?: string;
+}
+
+export interface WaitlistEntryResponse {
+  id: string;
+  courtId: string;
+  courtName: string;
+  subCourtId: string | null;          // Null = any sub-court
+  subCourtName: string | null;
+  date: string;
+  startTime: string;
+  endTime: string;
+  status: WaitlistStatus;
+  position: number | null;            // Place in the queue while waiting
+  offeredSubCourtId: string | null;
+  offeredSubCourtName: string | null;
+  offerExpiresAt: string | null;
+  bookingId: string | null;
+  createdAt: string;
+}
+
+export interface ClaimWaitlistOfferResponse {
+  entry: WaitlistEntryResponse;
+  booking: CreatedBookingResponse;
+}
+
+// Slot whose booking was cancelled, failed or expired
+export interface ReleasedSlot {
+  subCourtId: string;
+  date: string;
+  startTime: string;
+  endTime: string;
+}
+
+// Raw waitlist entry from database
+export interface RawWaitlistEntry {
+  id: string;
+  court_id: string;
+  court_name: string;
+  sub_court_id: string | null;
+  sub_court_name: string | null;
+  user_id: string;
+  guest_name: string;
+  guest_phone: string;
+  date: Date;
+  start_time: string;
+  end_time: string;
+  status: string;
+  offered_sub_court_id: string | null;
+  offered_sub_court_name: string | null;
+  offer_expires_at: Date | null;
+  booking_id: string | null;
+  created_at: Date;
+}
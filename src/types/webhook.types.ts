@@ -0,0 +1,86 @@
+// Court events a webhook can subscribe to
+export const WEBHOOK_EVENTS = [
+  'booking.created',
+  'booking.confirmed',
+  'booking.cancelled',
+  'payment.succeeded',
+  'refund.completed',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Webhook delivery status
+// - pending: not sent yet, or waiting for its next attempt
+// - success: the endpoint answered with a 2xx status
+// - failed: every attempt failed; it can still be redelivered by hand
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface CreateWebhookDto {
+  url: string;              // https:// endpoint of the venue system
+  secret: string;           // Signs every payload (16-255 characters)
+  events: WebhookEvent[];
+  isActive?: boolean;
+}
+
+export type UpdateWebhookDto = Partial<CreateWebhookDto>;
+
+// The secret is write-only and never returned
+export interface WebhookResponse {
+  id: string;
+  courtId: string;
+  url: string;
+  events: WebhookEvent[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface WebhookDeliveryQueryParams {
+  status?: string;
+  limit?: string;
+}
+
+export interface WebhookDeliveryResponse {
+  id: string;
+  webhookId: string;
+  eventId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  deliveredAt: string | null;
+  payload: WebhookPayload;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Booking as sent to venue systems
+export interface WebhookBooking {
+  id: string;
+  groupId: string | null;
+  subCourtId: string;
+  subCourtName: string;
+  date: string;       // "YYYY-MM-DD"
+  startTime: string;  // "HH:mm"
+  endTime: string;    // "HH:mm"
+  status: string;
+  totalPrice: number;
+  guestName: string;
+  guestPhone: string;
+  notes: string | null;
+}
+
+// JSON body POSTed to the webhook URL
+export interface WebhookPayload {
+  id: string;         // Event ID, the same on every redelivery
+  event: WebhookEvent;
+  createdAt: string;
+  courtId: string;
+  data: {
+    booking: WebhookBooking;
+    payment?: { id: string; amount: number; zpTransId: string | null };
+    refund?: { id: string; paymentId: string; amount: number };
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Booking Access
+ * Signed guest access tokens for bookings and split payments, and phone number normalization
+ */
+
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+
+// Used when BOOKING_TOKEN_SECRET is not set outside production; tokens then stop working on restart
+let fallbackSecret: string | null = null;
+
+function getSecret(): string {
+  if (config.bookingToken.secret) {
+    return config.bookingToken.secret;
+  }
+  if (!fallbackSecret) {
+    console.warn('BOOKING_TOKEN_SECRET is not set; using a temporary secret for booking access tokens');
+    fallbackSecret = crypto.randomBytes(32).toString('hex');
+  }
+  return fallbackSecret;
+}
+
+function sign(subject: string, expiresAt: number): string {
+  return crypto.createHmac('sha256', getSecret()).update(`${subject}.${expiresAt}`).digest('base64url');
+}
+
+/**
+ * Format: `<expiry in unix seconds>.<HMAC-SHA256 of subject and expiry>`
+ */
+function createToken(subject: string, now: Date): string {
+  const expiresAt = Math.floor(now.getTime() / 1000) + config.bookingToken.ttlDays * 24 * 60 * 60;
+  return `${expiresAt}.${sign(subject, expiresAt)}`;
+}
+
+function verifyToken(subject: string, token: string, now: Date): boolean {
+  const [expiry, signature] = token.split('.');
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isInteger(expiresAt) || expiresAt * 1000 <= now.getTime()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(subject, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Create a guest access token for a booking
+ */
+export function createBookingAccessToken(bookingId: string, now: Date = new Date()): string {
+  return createToken(bookingId, now);
+}
+
+/**
+ * Check a guest access token against a booking
+ */
+export function verifyBookingAccessToken(bookingId: string, token: string, now: Date = new Date()): boolean {
+  return verifyToken(bookingId, token, now);
+}
+
+/**
+ * Create the token the booker sends to the other players so they can see and pay the shares of a split payment
+ * Signed for the split only, so it does not open the booking
+ */
+export function createSplitAccessToken(splitPaymentId: string, now: Date = new Date()): string {
+  return createToken(`split:${splitPaymentId}`, now);
+}
+
+/**
+ * Check a share token against a split payment
+ */
+export function verifySplitAccessToken(splitPaymentId: string, token: string, now: Date = new Date()): boolean {
+  return verifyToken(`split:${splitPaymentId}`, token, now);
+}
+
+/**
+ * Normalize a Vietnamese phone number to its local form (0xxxxxxxxx)
+ * Accepts E.164 (+84xxxxxxxxx), 84xxxxxxxxx and local numbers with spaces, dots or dashes
+ */
+export function normalizePhone(phone: string): string {
+  const digits = phone.replace(/[\s.\-()]/g, '');
+  if (digits.startsWith('+84')) {
+    return `0${digits.slice(3)}`;
+  }
+  if (digits.startsWith('84') && digits.length === 11) {
+    return `0${digits.slice(2)}`;
+  }
+  return digits;
+}
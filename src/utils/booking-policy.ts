@@ -0,0 +1,38 @@
+/**
+ * Booking Policy
+ * Decides which bookings a court accepts and until when players can cancel or move them
+ */
+
+import type { BookingPolicy } from '../types/index.js';
+
+// Platform default: at least 1 hour in 30-minute steps, no other limits
+export const DEFAULT_BOOKING_POLICY: BookingPolicy = {
+  minDurationMinutes: 60,
+  maxDurationMinutes: null,
+  slotMinutes: 30,
+  maxAdvanceDays: null,
+  minNoticeMinutes: null,
+  maxActiveBookingsPerUser: null,
+  cancellationDeadlineHours: null,
+  changeDeadlineHours: null,
+};
+
+/**
+ * Policy of a court from its stored value (null = platform default)
+ */
+export function resolveBookingPolicy(stored: unknown): BookingPolicy {
+  return stored ? { ...DEFAULT_BOOKING_POLICY, ...(stored as Partial<BookingPolicy>) } : DEFAULT_BOOKING_POLICY;
+}
+
+/**
+ * Whether a slot starting `hoursBeforeStart` hours from now can be booked under the policy
+ */
+export function isWithinBookingWindow(policy: BookingPolicy, hoursBeforeStart: number): boolean {
+  if (policy.minNoticeMinutes !== null && hoursBeforeStart * 60 < policy.minNoticeMinutes) {
+    return false;
+  }
+  if (policy.maxAdvanceDays !== null && hoursBeforeStart > policy.maxAdvanceDays * 24) {
+    return false;
+  }
+  return true;
+}
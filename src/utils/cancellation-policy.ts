@@ -0,0 +1,40 @@
+/**
+ * Cancellation Policy
+ * Decides how much of a booking price is refunded when it is cancelled
+ */
+
+import type { CancellationPolicy } from '../types/index.js';
+
+// Platform default: full refund more than 24h before start, 50% more than 2h before, nothing after that
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  tiers: [
+    { minHoursBefore: 24, refundPercent: 100 },
+    { minHoursBefore: 2, refundPercent: 50 },
+  ],
+};
+
+/**
+ * Hours from `now` until a booking starts (negative once it has started)
+ * Booking date and time are Vietnam local time (GMT+7)
+ */
+export function getHoursBeforeStart(date: string, startTime: string, now: Date = new Date()): number {
+  const start = new Date(`${date}T${startTime}:00+07:00`);
+  return (start.getTime() - now.getTime()) / (60 * 60 * 1000);
+}
+
+/**
+ * Refund percentage for a cancellation made `hoursBeforeStart` hours before the booking starts
+ * The tier with the largest minHoursBefore that is strictly exceeded applies; no match means no refund
+ */
+export function getRefundPercent(policy: CancellationPolicy, hoursBeforeStart: number): number {
+  const tiers = [...policy.tiers].sort((a, b) => b.minHoursBefore - a.minHoursBefore);
+  const tier = tiers.find((t) => hoursBeforeStart > t.minHoursBefore);
+  return tier?.refundPercent ?? 0;
+}
+
+/**
+ * Refund amount in VND, rounded down to a whole dong
+ */
+export function calculateRefundAmount(price: number, refundPercent: number): number {
+  return Math.floor((price * refundPercent) / 100);
+}
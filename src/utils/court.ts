@@ -0,0 +1,17 @@
+/**
+ * Court
+ * Checks shared by the services that manage a court's settings
+ */
+
+import { courtRepository } from '../repositories/index.js';
+import { NotFoundError } from './errors.js';
+
+/**
+ * Ensure the court exists
+ */
+export async function ensureCourtExists(courtId: string): Promise<void> {
+  const court = await courtRepository.findById(courtId);
+  if (!court) {
+    throw new NotFoundError('Court not found');
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Date and Time
+ * Validates and does arithmetic on the YYYY-MM-DD dates and HH:mm times the API uses
+ */
+
+import type { DayOfWeek } from '../types/index.js';
+
+// Day names by Date#getUTCDay index
+const DAY_NAMES: readonly DayOfWeek[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Validate date format (YYYY-MM-DD)
+ */
+export function isValidDateFormat(date: unknown): date is string {
+  return typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(date).getTime());
+}
+
+/**
+ * Validate time format (HH:mm)
+ */
+export function isValidTimeFormat(time: unknown): time is string {
+  return typeof time === 'string' && /^([01]\d|2[0-3]):([0-5]\d)$/.test(time);
+}
+
+/**
+ * Convert HH:mm to minutes since midnight
+ */
+export function toMinutes(time: string): number {
+  const [hours = 0, minutes = 0] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Add minutes to an HH:mm time
+ */
+export function addMinutes(time: string, minutes: number): string {
+  const totalMinutes = toMinutes(time) + minutes;
+  const newHours = Math.floor(totalMinutes / 60);
+  const newMins = totalMinutes % 60;
+  return `${String(newHours).padStart(2, '0')}:${String(newMins).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes from one HH:mm time to another
+ */
+export function getMinutesBetween(start: string, end: string): number {
+  return toMinutes(end) - toMinutes(start);
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+export function addDays(date: string, days: number): string {
+  const dateObj = new Date(date);
+  dateObj.setUTCDate(dateObj.getUTCDate() + days);
+  return dateObj.toISOString().split('T')[0]!;
+}
+
+/**
+ * Day of the week of a YYYY-MM-DD date
+ * The date parses as UTC midnight, so its UTC day is the calendar day whatever the server's time zone
+ */
+export function getDayOfWeek(date: string): DayOfWeek {
+  return DAY_NAMES[new Date(date).getUTCDay()]!;
+}
+
+/**
+ * Today's date in Vietnam (GMT+7) as YYYY-MM-DD
+ */
+export function todayInVietnam(): string {
+  return new Date(Date.now() + 7 * 60 * 60 * 1000).toISOString().split('T')[0]!;
+}
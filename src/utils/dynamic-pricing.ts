@@ -0,0 +1,57 @@
+/**
+ * Dynamic Pricing
+ * Adjusts slot prices for the day's occupancy and how far ahead a slot is booked
+ */
+
+import type { DynamicPricing, PriceAdjustment } from '../types/index.js';
+
+/**
+ * Share of a day's bookable time that is booked, as a percentage (0 when nothing is bookable)
+ */
+export function getOccupancyPercent(bookedMinutes: number, openMinutes: number): number {
+  if (openMinutes <= 0) {
+    return 0;
+  }
+  return Math.min(100, (bookedMinutes / openMinutes) * 100);
+}
+
+/**
+ * Adjustments that apply to a slot
+ * @param occupancyPercent - Occupancy of the court on the slot's date
+ * @param hoursBeforeStart - Hours from now until the slot starts
+ * @param isAvailable - Last-minute discounts only apply to slots nobody has booked
+ */
+export function getPriceAdjustments(
+  pricing: DynamicPricing | null,
+  occupancyPercent: number,
+  hoursBeforeStart: number,
+  isAvailable: boolean = true
+): PriceAdjustment[] {
+  if (!pricing) {
+    return [];
+  }
+
+  const adjustments: PriceAdjustment[] = [];
+  if (pricing.surge && occupancyPercent >= pricing.surge.occupancyPercent) {
+    adjustments.push({ type: 'surge', percent: pricing.surge.increasePercent });
+  }
+  if (
+    pricing.lastMinute &&
+    isAvailable &&
+    hoursBeforeStart > 0 &&
+    hoursBeforeStart <= pricing.lastMinute.hoursBefore
+  ) {
+    adjustments.push({ type: 'last_minute', percent: -pricing.lastMinute.discountPercent });
+  }
+  if (pricing.earlyBird && hoursBeforeStart >= pricing.earlyBird.daysBefore * 24) {
+    adjustments.push({ type: 'early_bird', percent: -pricing.earlyBird.discountPercent });
+  }
+  return adjustments;
+}
+
+/**
+ * Combined multiplier of a slot's adjustments (1 when none apply)
+ */
+export function getAdjustmentMultiplier(adjustments: PriceAdjustment[]): number {
+  return adjustments.reduce((multiplier, adjustment) => multiplier * (1 + adjustment.percent / 100), 1);
+}
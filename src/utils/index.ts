@@ -2,3 +2,13 @@ export * from './errors.js';
 export * from './response.js';
 export * from './vietnamese.js';
 
+export * from './lunar-calendar.js';
+export * from './vietnamese-holidays.js';
+export * from './cancellation-policy.js';
+export * from './booking-policy.js';
+export * from './booking-access.js';
+export * from './dynamic-pricing.js';
+export * from './push-templates.js';
+export * from './public-host.js';
+export * from './date-time.js';
+export * from './court.js';
@@ -0,0 +1,194 @@
+/**
+ * Vietnamese Lunar Calendar Utilities
+ * Converts lunar dates to solar (Gregorian) dates using Hồ Ngọc Đức's astronomical
+ * algorithm, computed for the Vietnam time zone (UTC+7)
+ */
+
+export interface SolarDate {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+}
+
+// Vietnam time zone offset in hours
+const VIETNAM_TIME_ZONE = 7;
+
+// Mean length of a synodic month in days
+const SYNODIC_MONTH = 29.530588853;
+
+// Julian day number of the new moon on 1900-01-01 (reference epoch)
+const EPOCH_NEW_MOON = 2415021.076998695;
+
+/**
+ * Julian day number of a Gregorian (or Julian, before 1582-10-15) date
+ */
+function jdFromDate(day: number, month: number, year: number): number {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  let jd =
+    day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+  if (jd < 2299161) {
+    jd = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4) - 32083;
+  }
+  return jd;
+}
+
+/**
+ * Gregorian date of a Julian day number
+ */
+function jdToDate(jd: number): SolarDate {
+  let b: number;
+  let c: number;
+  if (jd > 2299160) {
+    const a = jd + 32044;
+    b = Math.floor((4 * a + 3) / 146097);
+    c = a - Math.floor((b * 146097) / 4);
+  } else {
+    b = 0;
+    c = jd + 32082;
+  }
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+
+  return {
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+    month: m + 3 - 12 * Math.floor(m / 10),
+    year: b * 100 + d - 4800 + Math.floor(m / 10),
+  };
+}
+
+/**
+ * Julian day (fractional) of the k-th new moon after the 1900-01-01 epoch
+ */
+function newMoon(k: number): number {
+  const T = k / 1236.85;
+  const T2 = T * T;
+  const T3 = T2 * T;
+  const dr = Math.PI / 180;
+
+  let jd1 = 2415020.75933 + 29.53058868 * k + 0.0001178 * T2 - 0.000000155 * T3;
+  jd1 += 0.00033 * Math.sin((166.56 + 132.87 * T - 0.009173 * T2) * dr);
+
+  const M = 359.2242 + 29.10535608 * k - 0.0000333 * T2 - 0.00000347 * T3;       // Sun's mean anomaly
+  const Mpr = 306.0253 + 385.81691806 * k + 0.0107306 * T2 + 0.00001236 * T3;    // Moon's mean anomaly
+  const F = 21.2964 + 390.67050646 * k - 0.0016528 * T2 - 0.00000239 * T3;       // Moon's argument of latitude
+
+  let c1 = (0.1734 - 0.000393 * T) * Math.sin(M * dr) + 0.0021 * Math.sin(2 * dr * M);
+  c1 = c1 - 0.4068 * Math.sin(Mpr * dr) + 0.0161 * Math.sin(dr * 2 * Mpr);
+  c1 = c1 - 0.0004 * Math.sin(dr * 3 * Mpr);
+  c1 = c1 + 0.0104 * Math.sin(dr * 2 * F) - 0.0051 * Math.sin(dr * (M + Mpr));
+  c1 = c1 - 0.0074 * Math.sin(dr * (M - Mpr)) + 0.0004 * Math.sin(dr * (2 * F + M));
+  c1 = c1 - 0.0004 * Math.sin(dr * (2 * F - M)) - 0.0006 * Math.sin(dr * (2 * F + Mpr));
+  c1 = c1 + 0.001 * Math.sin(dr * (2 * F - Mpr)) + 0.0005 * Math.sin(dr * (2 * Mpr + M));
+
+  const deltaT =
+    T < -11
+      ? 0.001 + 0.000839 * T + 0.0002261 * T2 - 0.00000845 * T3 - 0.000000081 * T * T3
+      : -0.000278 + 0.000265 * T + 0.000262 * T2;
+
+  return jd1 + c1 - deltaT;
+}
+
+/**
+ * Sun's ecliptic longitude in radians at a Julian day
+ */
+function sunLongitude(jdn: number): number {
+  const T = (jdn - 2451545.0) / 36525;
+  const T2 = T * T;
+  const dr = Math.PI / 180;
+
+  const M = 357.5291 + 35999.0503 * T - 0.0001559 * T2 - 0.00000048 * T * T2;
+  const L0 = 280.46645 + 36000.76983 * T + 0.0003032 * T2;
+  let dl = (1.9146 - 0.004817 * T - 0.000014 * T2) * Math.sin(dr * M);
+  dl = dl + (0.019993 - 0.000101 * T) * Math.sin(dr * 2 * M) + 0.00029 * Math.sin(dr * 3 * M);
+
+  const l = (L0 + dl) * dr;
+  return l - Math.PI * 2 * Math.floor(l / (Math.PI * 2));
+}
+
+/**
+ * Day number of the k-th new moon in the given time zone
+ */
+function getNewMoonDay(k: number, timeZone: number): number {
+  return Math.floor(newMoon(k) + 0.5 + timeZone / 24);
+}
+
+/**
+ * Solar term sector (0-11) the sun is in at the start of a day
+ */
+function getSunLongitudeSector(dayNumber: number, timeZone: number): number {
+  return Math.floor((sunLongitude(dayNumber - 0.5 - timeZone / 24) / Math.PI) * 6);
+}
+
+/**
+ * Day number of the start of lunar month 11 (the month containing the winter solstice) of a year
+ */
+function getLunarMonth11(year: number, timeZone: number): number {
+  const off = jdFromDate(31, 12, year) - 2415021;
+  const k = Math.floor(off / SYNODIC_MONTH);
+  const nm = getNewMoonDay(k, timeZone);
+  return getSunLongitudeSector(nm, timeZone) >= 9 ? getNewMoonDay(k - 1, timeZone) : nm;
+}
+
+/**
+ * Offset (in months after month 11) of the leap month in a 13-month lunar year
+ */
+function getLeapMonthOffset(a11: number, timeZone: number): number {
+  const k = Math.floor((a11 - EPOCH_NEW_MOON) / SYNODIC_MONTH + 0.5);
+  let last: number;
+  let i = 1;
+  let arc = getSunLongitudeSector(getNewMoonDay(k + i, timeZone), timeZone);
+  do {
+    last = arc;
+    i++;
+    arc = getSunLongitudeSector(getNewMoonDay(k + i, timeZone), timeZone);
+  } while (arc !== last && i < 14);
+  return i - 1;
+}
+
+/**
+ * Convert a Vietnamese lunar date to its solar date
+ * Returns null when a leap month is requested that the lunar year does not have
+ */
+export function lunarToSolar(
+  lunarDay: number,
+  lunarMonth: number,
+  lunarYear: number,
+  isLeapMonth: boolean = false,
+  timeZone: number = VIETNAM_TIME_ZONE
+): SolarDate | null {
+  const [a11, b11] =
+    lunarMonth < 11
+      ? [getLunarMonth11(lunarYear - 1, timeZone), getLunarMonth11(lunarYear, timeZone)]
+      : [getLunarMonth11(lunarYear, timeZone), getLunarMonth11(lunarYear + 1, timeZone)];
+
+  const k = Math.floor(0.5 + (a11 - EPOCH_NEW_MOON) / SYNODIC_MONTH);
+  let off = lunarMonth - 11;
+  if (off < 0) off += 12;
+
+  if (b11 - a11 > 365) {
+    const leapOff = getLeapMonthOffset(a11, timeZone);
+    let leapMonth = leapOff - 2;
+    if (leapMonth < 0) leapMonth += 12;
+    if (isLeapMonth && lunarMonth !== leapMonth) {
+      return null;
+    }
+    if (isLeapMonth || off >= leapOff) {
+      off += 1;
+    }
+  } else if (isLeapMonth) {
+    return null;
+  }
+
+  const monthStart = getNewMoonDay(k + off, timeZone);
+  return jdToDate(monthStart + lunarDay - 1);
+}
+
+/**
+ * Format a solar date as YYYY-MM-DD
+ */
+export function formatSolarDate(date: SolarDate): string {
+  return `${date.year}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+}
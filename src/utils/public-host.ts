@@ -0,0 +1,66 @@
+/**
+ * Public Host
+ * Checks that a host only resolves to public addresses, so user-supplied URLs cannot reach internal services
+ */
+
+import dns from 'dns';
+import net from 'net';
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not publicly routable
+ * IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked as IPv4
+ */
+export function isPrivateAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) {
+    return BLOCKED_RANGES.check(mapped, 'ipv4');
+  }
+  const family = net.isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Whether every address a host name resolves to is public
+ * Hosts that do not resolve are not public
+ */
+export async function isPublicHost(hostname: string): Promise<boolean> {
+  // URL keeps the brackets around IPv6 literals
+  const host = hostname.replace(/^\[(.*)\]$/, '$1');
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true, verbatim: true });
+    return addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address));
+  } catch {
+    return false;
+  }
+}
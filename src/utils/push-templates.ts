@@ -0,0 +1,68 @@
+/**
+ * Push Notification Templates
+ * Title and body of each push notification, in Vietnamese and English
+ */
+
+import type { PushContent, PushEvent, PushLocale } from '../types/index.js';
+
+type Template = (content: PushContent, date: string) => { title: string; body: string };
+
+const TEMPLATES: Record<PushLocale, Record<PushEvent, Template>> = {
+  vi: {
+    booking_confirmed: (c, date) => ({
+      title: 'Đặt sân thành công',
+      body: `Lịch ${c.startTime}-${c.endTime} ngày ${date} tại ${c.courtName} đã được xác nhận.`,
+    }),
+    payment_failed: (c, date) => ({
+      title: 'Thanh toán thất bại',
+      body: `Thanh toán cho lịch ${c.startTime}-${c.endTime} ngày ${date} tại ${c.courtName} không thành công. Vui lòng thử lại.`,
+    }),
+    game_reminder: (c, date) => ({
+      title: 'Sắp đến giờ chơi',
+      body: `Trận của bạn tại ${c.courtName} bắt đầu lúc ${c.startTime} ngày ${date}.`,
+    }),
+    venue_cancellation: (c, date) => ({
+      title: 'Sân đã hủy lịch của bạn',
+      body: `${c.courtName} đã hủy lịch ${c.startTime}-${c.endTime} ngày ${date} của bạn.`,
+    }),
+    waitlist_offer: (c, date) => ({
+      title: 'Có sân trống',
+      body: `${c.courtName} còn trống ${c.startTime}-${c.endTime} ngày ${date}. Hãy giữ chỗ trước khi hết hạn.`,
+    }),
+  },
+  en: {
+    booking_confirmed: (c, date) => ({
+      title: 'Booking confirmed',
+      body: `Your booking at ${c.courtName}, ${c.startTime}-${c.endTime} on ${date}, is confirmed.`,
+    }),
+    payment_failed: (c, date) => ({
+      title: 'Payment failed',
+      body: `Payment for ${c.courtName}, ${c.startTime}-${c.endTime} on ${date}, did not go through. Please try again.`,
+    }),
+    game_reminder: (c, date) => ({
+      title: 'Your game starts soon',
+      body: `Your game at ${c.courtName} starts at ${c.startTime} on ${date}.`,
+    }),
+    venue_cancellation: (c, date) => ({
+      title: 'Booking cancelled by the venue',
+      body: `${c.courtName} cancelled your booking ${c.startTime}-${c.endTime} on ${date}.`,
+    }),
+    waitlist_offer: (c, date) => ({
+      title: 'A court is free',
+      body: `${c.courtName} is free ${c.startTime}-${c.endTime} on ${date}. Claim it before the offer expires.`,
+    }),
+  },
+};
+
+/**
+ * Title and body of a push notification
+ * Dates are shown as DD/MM/YYYY, as players in Vietnam read them
+ */
+export function renderPushTemplate(
+  event: PushEvent,
+  locale: PushLocale,
+  content: PushContent
+): { title: string; body: string } {
+  const [year, month, day] = content.date.split('-');
+  return TEMPLATES[locale][event](content, `${day}/${month}/${year}`);
+}
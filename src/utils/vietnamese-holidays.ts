@@ -0,0 +1,67 @@
+/**
+ * Vietnamese Public Holidays
+ * Generates the public holiday calendar for a year, including lunar-calendar holidays
+ */
+
+import { lunarToSolar, formatSolarDate } from './lunar-calendar.js';
+
+export interface GeneratedHoliday {
+  date: string;       // "YYYY-MM-DD"
+  name: string;
+  multiplier: number;
+}
+
+// Default price multipliers (Tết is the busiest period of the year)
+export const TET_MULTIPLIER = 2.0;
+export const PUBLIC_HOLIDAY_MULTIPLIER = 1.5;
+
+// Days of Tết Nguyên Đán after New Year's Eve (Mùng 1 ... Mùng 5)
+const TET_DAYS = 5;
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const dateObj = new Date(date);
+  dateObj.setUTCDate(dateObj.getUTCDate() + days);
+  return dateObj.toISOString().split('T')[0] ?? date;
+}
+
+/**
+ * Get Vietnamese public holidays for a year, sorted by date
+ * - Fixed: Tết Dương lịch (1/1), Giải phóng miền Nam (30/4), Quốc tế Lao động (1/5), Quốc khánh (2/9)
+ * - Lunar: Tết Nguyên Đán (Giao thừa + Mùng 1-5), Giỗ Tổ Hùng Vương (10/3 âm lịch)
+ * Bridge days announced by the government each year are not included
+ */
+export function getVietnameseHolidays(year: number): GeneratedHoliday[] {
+  const holidays: GeneratedHoliday[] = [
+    { date: `${year}-01-01`, name: 'Tết Dương lịch', multiplier: PUBLIC_HOLIDAY_MULTIPLIER },
+    { date: `${year}-04-30`, name: 'Ngày Giải phóng miền Nam', multiplier: PUBLIC_HOLIDAY_MULTIPLIER },
+    { date: `${year}-05-01`, name: 'Ngày Quốc tế Lao động', multiplier: PUBLIC_HOLIDAY_MULTIPLIER },
+    { date: `${year}-09-02`, name: 'Quốc khánh', multiplier: PUBLIC_HOLIDAY_MULTIPLIER },
+  ];
+
+  const tet = lunarToSolar(1, 1, year);
+  if (tet) {
+    const firstDay = formatSolarDate(tet);
+    holidays.push({ date: addDays(firstDay, -1), name: 'Tết Nguyên đán (Giao thừa)', multiplier: TET_MULTIPLIER });
+    for (let day = 0; day < TET_DAYS; day++) {
+      holidays.push({
+        date: addDays(firstDay, day),
+        name: `Tết Nguyên đán (Mùng ${day + 1})`,
+        multiplier: TET_MULTIPLIER,
+      });
+    }
+  }
+
+  const hungKings = lunarToSolar(10, 3, year);
+  if (hungKings) {
+    holidays.push({
+      date: formatSolarDate(hungKings),
+      name: 'Giỗ Tổ Hùng Vương',
+      multiplier: PUBLIC_HOLIDAY_MULTIPLIER,
+    });
+  }
+
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+}